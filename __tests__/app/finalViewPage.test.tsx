@@ -0,0 +1,179 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+
+import FinalViewPage from '@/app/hands/[visualId]/final_view/page';
+import { TrackingSettingsProvider } from '@/components/providers/TrackingSettingsProvider';
+import { TrackingSourceProvider } from '@/components/providers/TrackingSourceProvider';
+import { AudioInputProvider } from '@/components/providers/AudioInputProvider';
+import { DEFAULT_CONSTELLATION_CONTROLS } from '@/components/hand-tracking/ConstellationVisual';
+import type { GestureEvent, GestureListener } from '@/components/hand-tracking/gestures';
+import { DEFAULT_MORPH_SETTINGS } from '@/lib/controlMorph';
+import { saveVisualConfig, updateSavedConfig } from '@/lib/visualConfigStorage';
+
+let mockVisualProps: any = null;
+let mockGestureListener: GestureListener | null = null;
+
+jest.mock('next/link', () => {
+  return {
+    __esModule: true,
+    default: ({ href, children, ...props }: any) => (
+      <a href={href} {...props}>
+        {children}
+      </a>
+    ),
+  };
+});
+
+jest.mock('next/navigation', () => {
+  return {
+    __esModule: true,
+    notFound: jest.fn(),
+    useRouter: () => ({ push: jest.fn() }),
+  };
+});
+
+jest.mock('@/components/hand-tracking/HandTracking', () => {
+  return {
+    __esModule: true,
+    HandTracking: () => <div data-testid="hand-tracking-mock" />,
+  };
+});
+
+// The visuals render WebGL scenes; only the page around them is under test
+jest.mock('@/app/hands/visuals-config', () => {
+  const actual = jest.requireActual('@/app/hands/visuals-config');
+  return {
+    ...actual,
+    getVisualConfig: (id: string) => {
+      const config = actual.getVisualConfig(id);
+      const Component = (props: any) => {
+        mockVisualProps = props;
+        return <div data-testid="visual-mock" />;
+      };
+      return config && { ...config, Component };
+    },
+  };
+});
+
+// Gestures are emitted by the test instead of a tracking frame
+jest.mock('@/hooks/useGestures', () => {
+  return {
+    ...jest.requireActual('@/hooks/useGestures'),
+    useGestureListener: (_engine: unknown, listener: GestureListener) => {
+      mockGestureListener = listener;
+    },
+  };
+});
+
+const gesture = (name: GestureEvent['gesture']): GestureEvent => ({
+  gesture: name,
+  phase: 'start',
+  handId: 0,
+  handedness: 'Right',
+  confidence: 1,
+  timestamp: 0,
+  durationMs: 0,
+});
+
+async function renderFinalView(search: string) {
+  window.history.replaceState(null, '', `/viz6/final_view${search}`);
+  render(
+    <TrackingSettingsProvider>
+      <TrackingSourceProvider>
+        <AudioInputProvider>
+          <FinalViewPage params={Promise.resolve({ visualId: 'viz6' })} />
+        </AudioInputProvider>
+      </TrackingSourceProvider>
+    </TrackingSettingsProvider>
+  );
+  await act(async () => {});
+}
+
+describe('FinalViewPage', () => {
+  it('shows the side panel with the tracking preview', async () => {
+    await renderFinalView('');
+
+    expect(screen.getByTestId('visual-mock')).toBeInTheDocument();
+    expect(screen.getByTestId('hand-tracking-mock')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /follow control panel/i })).toBeInTheDocument();
+  });
+
+  it('keeps hand tracking mounted when following the control panel', async () => {
+    await renderFinalView('?follow=1');
+
+    expect(screen.getByRole('button', { name: 'Show panel' })).toBeInTheDocument();
+    // The panel is hidden, but its tracking feed still runs
+    expect(screen.queryByRole('button', { name: /follow control panel/i })).not.toBeInTheDocument();
+    expect(screen.getByTestId('hand-tracking-mock')).toBeInTheDocument();
+  });
+
+  describe('preset fades', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      localStorage.clear();
+      localStorage.setItem(
+        'tracking:morph',
+        JSON.stringify({ ...DEFAULT_MORPH_SETTINGS, durationMs: 2000, easing: 'linear', nextGesture: 'swipeUp' })
+      );
+      saveVisualConfig('viz6', 'Fast twinkle', { ...DEFAULT_CONSTELLATION_CONTROLS, twinkleSpeed: 2 }, 1);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('stops fading when a gesture changes the controls mid-way', async () => {
+      await renderFinalView('');
+
+      act(() => mockGestureListener!(gesture('swipeUp')));
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+      expect(mockVisualProps.morph).not.toBeNull();
+      expect(mockVisualProps.controls.twinkleSpeed).toBeCloseTo(1.5, 1);
+
+      // Swipe right cycles the constellation palette
+      act(() => mockGestureListener!(gesture('swipeRight')));
+      const { twinkleSpeed, palette } = mockVisualProps.controls;
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+      expect(mockVisualProps.morph).toBeNull();
+      expect(palette).not.toBe(DEFAULT_CONSTELLATION_CONTROLS.palette);
+      expect(mockVisualProps.controls).toMatchObject({ twinkleSpeed, palette });
+    });
+
+    it('keeps fading through gestures the visual ignores', async () => {
+      await renderFinalView('');
+
+      act(() => mockGestureListener!(gesture('swipeUp')));
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+      act(() => mockGestureListener!(gesture('fist')));
+      expect(mockVisualProps.morph).not.toBeNull();
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+      expect(mockVisualProps.morph).toBeNull();
+      expect(mockVisualProps.controls.twinkleSpeed).toBe(2);
+    });
+
+    it('lists what a loaded preset had to change', async () => {
+      const saved = saveVisualConfig('viz6', 'Too fast', { ...DEFAULT_CONSTELLATION_CONTROLS, twinkleSpeed: 5 }, 1);
+      updateSavedConfig('viz6', saved.id, { favorite: true });
+      await renderFinalView('');
+
+      act(() => mockGestureListener!(gesture('swipeUp')));
+      expect(screen.getByText('“Too fast” was adjusted to fit the current controls')).toBeInTheDocument();
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+      expect(mockVisualProps.controls.twinkleSpeed).toBe(2);
+    });
+  });
+});
@@ -1,4 +1,10 @@
-import { CONSTELLATION_PALETTES, getConstellationHues, isConstellationPaletteId } from '@/components/hand-tracking/constellationPalettes';
+import {
+  CONSTELLATION_PALETTES,
+  cycleConstellationPalette,
+  getBlendedConstellationHues,
+  getConstellationHues,
+  isConstellationPaletteId,
+} from '@/components/hand-tracking/constellationPalettes';
 
 describe('constellationPalettes', () => {
   it('exposes a non-empty palette list with unique ids', () => {
@@ -42,5 +48,26 @@ describe('constellationPalettes', () => {
     expect(voidP.saturation).toBeLessThan(0.4);
     expect(voidP.lightness).toBeLessThan(0.4);
   });
-});
 
+  it('cycles palettes in both directions with wrap-around', () => {
+    const first = CONSTELLATION_PALETTES[0]!.id;
+    const last = CONSTELLATION_PALETTES[CONSTELLATION_PALETTES.length - 1]!.id;
+    expect(cycleConstellationPalette(first)).toBe(CONSTELLATION_PALETTES[1]!.id);
+    expect(cycleConstellationPalette(last)).toBe(first);
+    expect(cycleConstellationPalette(first, -1)).toBe(last);
+  });
+
+  it('blends palettes during a preset morph, wrapping hues', () => {
+    const blend = { from: 'classic' as const, to: 'sunset' as const, amount: 0.5 };
+    const hues = getBlendedConstellationHues({ paletteId: 'sunset', handedness: 'Right', blend });
+    // classic 0.0 → sunset 0.92 goes back through red, not across the wheel
+    expect(hues.nebulaHue).toBeCloseTo(0.96);
+    expect(hues.saturation).toBeCloseTo(0.675);
+    expect(getBlendedConstellationHues({ paletteId: 'sunset', handedness: 'Right', blend: { ...blend, amount: 1 } })).toEqual(
+      expect.objectContaining({ saturation: 0.75, lightness: 0.5 })
+    );
+    expect(getBlendedConstellationHues({ paletteId: 'neon', handedness: 'Left', blend: null })).toEqual(
+      getConstellationHues({ paletteId: 'neon', handedness: 'Left' })
+    );
+  });
+});
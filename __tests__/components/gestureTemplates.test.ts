@@ -0,0 +1,101 @@
+import {
+  createGestureTemplateMatcher,
+  dtwDistance,
+  matchPose,
+  MOTION_FRAME_COUNT,
+  normalizeHandMotion,
+  normalizeHandPose,
+  type GestureTemplate,
+  type GestureTemplateEvent,
+} from '@/components/hand-tracking/gestureTemplates';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+
+type Landmarks = Hand3DData['landmarks'];
+
+/** Deterministic pseudo-random hand shape; `variant` changes the finger layout. */
+function mkShape(variant: number): Landmarks {
+  return Array.from({ length: 21 }, (_, i) => ({
+    x: 0.5 + 0.08 * Math.sin(i * 1.3 + variant * 2.1),
+    y: 0.5 + 0.08 * Math.cos(i * 0.7 + variant * 1.7),
+    z: 0.01 * Math.sin(i + variant),
+  }));
+}
+
+const transform = (landmarks: Landmarks, dx: number, dy: number, scale = 1): Landmarks =>
+  landmarks.map((lm) => ({ x: lm.x * scale + dx, y: lm.y * scale + dy, z: lm.z * scale }));
+
+const jitter = (landmarks: Landmarks, amount: number, seed: number): Landmarks =>
+  landmarks.map((lm, i) => ({ ...lm, x: lm.x + amount * Math.sin(seed * 13 + i * 7), y: lm.y + amount * Math.cos(seed * 5 + i * 3) }));
+
+function poseTemplate(id: string, variant: number): GestureTemplate {
+  return {
+    id,
+    name: id,
+    visualId: 'viz6',
+    kind: 'pose',
+    samples: [0, 1, 2].map((seed) => [normalizeHandPose(jitter(mkShape(variant), 0.002, seed))!]),
+    durationMs: 0,
+    createdAt: 0,
+  };
+}
+
+/** The same shape sliding right by `distance` over `steps` frames. */
+const slide = (variant: number, distance: number, steps: number): Landmarks[] =>
+  Array.from({ length: steps }, (_, i) => transform(mkShape(variant), (distance * i) / (steps - 1), 0));
+
+describe('gestureTemplates', () => {
+  it('normalizes poses independent of position and scale', () => {
+    const a = normalizeHandPose(mkShape(1))!;
+    const b = normalizeHandPose(transform(mkShape(1), 0.2, -0.1, 0.5))!;
+    expect(a).toHaveLength(63);
+    a.forEach((value, i) => expect(b[i]).toBeCloseTo(value, 6));
+    expect(normalizeHandPose(mkShape(1).slice(0, 10))).toBeNull();
+  });
+
+  it('matches the nearest pose template by k-NN vote', () => {
+    const templates = [poseTemplate('wave', 1), poseTemplate('claw', 2)];
+    const frame = normalizeHandPose(transform(jitter(mkShape(2), 0.003, 9), 0.1, 0.1, 1.2))!;
+    expect(matchPose(frame, templates, 3, 0.35)).toMatchObject({ templateId: 'claw' });
+    expect(matchPose(normalizeHandPose(mkShape(5))!, templates, 3, 0.05)).toBeNull();
+  });
+
+  it('resamples motions and aligns different speeds with DTW', () => {
+    const slow = normalizeHandMotion(slide(1, 0.3, 40))!;
+    const fast = normalizeHandMotion(slide(1, 0.3, 12))!;
+    const other = normalizeHandMotion(slide(1, -0.3, 20))!;
+    expect(slow).toHaveLength(MOTION_FRAME_COUNT);
+    expect(dtwDistance(slow, fast)).toBeLessThan(0.05);
+    expect(dtwDistance(slow, other)).toBeGreaterThan(dtwDistance(slow, fast) + 0.5);
+  });
+
+  it('emits debounced events for poses and single events for motions', () => {
+    const motion: GestureTemplate = {
+      id: 'slide',
+      name: 'Slide',
+      visualId: 'viz6',
+      kind: 'motion',
+      samples: [normalizeHandMotion(slide(3, 0.3, 15))!],
+      durationMs: 500,
+      createdAt: 0,
+    };
+    const matcher = createGestureTemplateMatcher([poseTemplate('claw', 2), motion], { startDelayMs: 100, releaseMs: 100 });
+    const events: GestureTemplateEvent[] = [];
+    matcher.subscribe((event) => events.push(event));
+
+    const hand = (landmarks: Landmarks): Hand3DData[] => [{ id: 4, handedness: 'Left', landmarks }];
+    [0, 50, 100, 150].forEach((t) => matcher.update(hand(mkShape(2)), t));
+    expect(events.map((e) => [e.name, e.phase])).toEqual([
+      ['claw', 'start'],
+      ['claw', 'hold'],
+    ]);
+    matcher.update([], 200);
+    expect(events[2]).toMatchObject({ name: 'claw', phase: 'end', handId: 4, handedness: 'Left' });
+
+    events.length = 0;
+    slide(3, 0.3, 16).forEach((landmarks, i) => matcher.update(hand(landmarks), 300 + i * 33));
+    expect(events.map((e) => [e.name, e.phase])).toEqual([
+      ['Slide', 'start'],
+      ['Slide', 'end'],
+    ]);
+  });
+});
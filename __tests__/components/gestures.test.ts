@@ -0,0 +1,153 @@
+import {
+  classifyHandPose,
+  createGestureEngine,
+  type GestureEvent,
+  type StaticGesture,
+} from '@/components/hand-tracking/gestures';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+
+type FingerShape = 'up' | 'curled' | 'bent';
+type ThumbShape = 'out' | 'folded' | 'index' | 'middle';
+
+const FINGER_BASES = [
+  [5, 0.46],
+  [9, 0.5],
+  [13, 0.54],
+  [17, 0.58],
+] as const;
+
+/** Synthetic upright hand (wrist at the bottom, hand size 0.15), shifted by (dx, dy). */
+function mkPose(
+  fingers: [FingerShape, FingerShape, FingerShape, FingerShape],
+  thumb: ThumbShape,
+  dx = 0,
+  dy = 0
+): Hand3DData['landmarks'] {
+  const lm = Array.from({ length: 21 }, () => ({ x: 0, y: 0, z: 0 }));
+  lm[0] = { x: 0.5, y: 0.8, z: 0 };
+  FINGER_BASES.forEach(([mcp, x], i) => {
+    lm[mcp] = { x, y: 0.65, z: 0 };
+    lm[mcp + 1] = { x, y: 0.6, z: 0 };
+    if (fingers[i] === 'up') {
+      lm[mcp + 2] = { x, y: 0.55, z: 0 };
+      lm[mcp + 3] = { x, y: 0.5, z: 0 };
+    } else if (fingers[i] === 'curled') {
+      lm[mcp + 2] = { x, y: 0.63, z: 0 };
+      lm[mcp + 3] = { x, y: 0.68, z: 0 };
+    } else {
+      lm[mcp + 2] = { x: x - 0.02, y: 0.56, z: 0 };
+      lm[mcp + 3] = { x: x - 0.04, y: 0.58, z: 0 };
+    }
+  });
+  lm[1] = { x: 0.46, y: 0.76, z: 0 };
+  lm[2] = { x: 0.43, y: 0.72, z: 0 };
+  lm[3] = { x: 0.4, y: 0.67, z: 0 };
+  lm[4] =
+    thumb === 'out'
+      ? { x: 0.36, y: 0.62, z: 0 }
+      : thumb === 'folded'
+        ? { x: 0.48, y: 0.67, z: 0 }
+        : { ...lm[thumb === 'index' ? 8 : 12]! };
+  return lm.map((p) => ({ x: p.x + dx, y: p.y + dy, z: p.z }));
+}
+
+const best = (landmarks: Hand3DData['landmarks']) => classifyHandPose(landmarks)[0]!;
+
+describe('gestures', () => {
+  it.each<[StaticGesture, Hand3DData['landmarks']]>([
+    ['openPalm', mkPose(['up', 'up', 'up', 'up'], 'out')],
+    ['fist', mkPose(['curled', 'curled', 'curled', 'curled'], 'folded')],
+    ['point', mkPose(['up', 'curled', 'curled', 'curled'], 'folded')],
+    ['peace', mkPose(['up', 'up', 'curled', 'curled'], 'folded')],
+    ['thumbsUp', mkPose(['curled', 'curled', 'curled', 'curled'], 'out')],
+    ['pinchIndex', mkPose(['bent', 'curled', 'curled', 'curled'], 'index')],
+    ['pinchMiddle', mkPose(['curled', 'bent', 'up', 'up'], 'middle')],
+  ])('classifies %s', (gesture: StaticGesture, landmarks: Hand3DData['landmarks']) => {
+    expect(best(landmarks)).toEqual({ gesture, confidence: expect.any(Number) });
+    expect(best(landmarks).confidence).toBeGreaterThan(0.6);
+  });
+
+  it('is independent of hand position in the frame', () => {
+    expect(best(mkPose(['up', 'up', 'curled', 'curled'], 'folded', -0.3, 0.1)).gesture).toBe('peace');
+  });
+
+  it('debounces static gestures into start, hold and end', () => {
+    const engine = createGestureEngine({ startDelayMs: 100, releaseMs: 100 });
+    const events: GestureEvent[] = [];
+    engine.subscribe((event) => events.push(event));
+    const fist: Hand3DData = { id: 1, handedness: 'Right', landmarks: mkPose(['curled', 'curled', 'curled', 'curled'], 'folded') };
+    const open: Hand3DData = { ...fist, landmarks: mkPose(['up', 'up', 'up', 'up'], 'out') };
+
+    engine.update([fist], 0);
+    engine.update([fist], 50);
+    expect(events).toEqual([]);
+    engine.update([fist], 100);
+    expect(events.map((e) => [e.gesture, e.phase])).toEqual([['fist', 'start']]);
+    engine.update([fist], 150);
+    expect(events[1]).toMatchObject({ gesture: 'fist', phase: 'hold', handId: 1, durationMs: 50 });
+    expect(engine.getActive()).toEqual([expect.objectContaining({ gesture: 'fist', handId: 1 })]);
+
+    // A one-frame flicker doesn't end the gesture
+    engine.update([open], 200);
+    engine.update([fist], 250);
+    expect(events.some((e) => e.phase === 'end')).toBe(false);
+
+    events.length = 0;
+    engine.update([open], 300);
+    engine.update([open], 400);
+    expect(events.map((e) => [e.gesture, e.phase])).toEqual([
+      ['fist', 'end'],
+      ['openPalm', 'start'],
+    ]);
+  });
+
+  it('ends gestures when the hand leaves', () => {
+    const engine = createGestureEngine({ startDelayMs: 0 });
+    const fist: Hand3DData = { id: 7, handedness: 'Left', landmarks: mkPose(['curled', 'curled', 'curled', 'curled'], 'folded') };
+    engine.update([fist], 0);
+    expect(engine.update([], 50)).toEqual([expect.objectContaining({ gesture: 'fist', phase: 'end', handId: 7 })]);
+  });
+
+  const dynamicEvents = (frames: Array<[number, Hand3DData[]]>) => {
+    const engine = createGestureEngine();
+    return frames.flatMap(([t, hands]) => engine.update(hands, t)).filter((e) => e.phase === 'start');
+  };
+
+  it('detects a swipe in screen space (mirrored x)', () => {
+    const frames: Array<[number, Hand3DData[]]> = [];
+    for (let i = 0; i <= 10; i++) {
+      // Landmark x decreasing = moving right on the mirrored preview
+      frames.push([i * 30, [{ id: 1, handedness: 'Right', landmarks: mkPose(['up', 'up', 'up', 'up'], 'out', 0.2 - i * 0.04) }]]);
+    }
+    const swipes = dynamicEvents(frames).filter((e) => e.gesture.startsWith('swipe'));
+    expect(swipes).toHaveLength(1);
+    expect(swipes[0]).toMatchObject({ gesture: 'swipeRight', handId: 1 });
+  });
+
+  it('detects a circle', () => {
+    const frames: Array<[number, Hand3DData[]]> = [];
+    for (let i = 0; i <= 40; i++) {
+      const angle = (i / 40) * 2 * Math.PI;
+      const landmarks = mkPose(['up', 'up', 'up', 'up'], 'out', 0.08 * Math.cos(angle), 0.08 * Math.sin(angle));
+      frames.push([i * 30, [{ id: 1, handedness: 'Right', landmarks }]]);
+    }
+    expect(dynamicEvents(frames).map((e) => e.gesture)).toContain('circle');
+  });
+
+  it('detects a two-hand spread', () => {
+    const frames: Array<[number, Hand3DData[]]> = [];
+    for (let i = 0; i <= 10; i++) {
+      const offset = 0.05 + i * 0.02;
+      frames.push([
+        i * 40,
+        [
+          { id: 1, handedness: 'Left', landmarks: mkPose(['up', 'up', 'up', 'up'], 'out', offset, 0) },
+          { id: 2, handedness: 'Right', landmarks: mkPose(['up', 'up', 'up', 'up'], 'out', -offset, 0) },
+        ],
+      ]);
+    }
+    const spreads = dynamicEvents(frames).filter((e) => e.gesture === 'twoHandSpread');
+    expect(spreads).toHaveLength(1);
+    expect(spreads[0]).toMatchObject({ handId: null });
+  });
+});
@@ -0,0 +1,71 @@
+import { assignHandSlots, createHandIdentityTracker } from '@/components/hand-tracking/handIdentity';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+
+const FRAME_MS = 1000 / 30;
+
+function mkHand(handedness: Hand3DData['handedness'], x: number, y = 0.5): Hand3DData {
+  return { handedness, landmarks: Array.from({ length: 21 }, () => ({ x, y, z: 0 })) };
+}
+
+describe('handIdentity', () => {
+  it('keeps ids with the nearest hand when MediaPipe swaps order', () => {
+    const tracker = createHandIdentityTracker();
+    const first = tracker.update([mkHand('Left', 0.2), mkHand('Right', 0.8)], 0).hands;
+    const [right, left] = tracker.update([mkHand('Right', 0.78), mkHand('Left', 0.22)], FRAME_MS).hands;
+    expect(left!.id).toBe(first[0]!.id);
+    expect(right!.id).toBe(first[1]!.id);
+    expect(left!.id).not.toBe(right!.id);
+  });
+
+  it('only flips handedness after several consistent frames', () => {
+    const tracker = createHandIdentityTracker({ handednessSwitchFrames: 3 });
+    tracker.update([mkHand('Right', 0.5)], 0);
+    expect(tracker.update([mkHand('Left', 0.5)], 1 * FRAME_MS).hands[0]!.handedness).toBe('Right');
+    expect(tracker.update([mkHand('Right', 0.5)], 2 * FRAME_MS).hands[0]!.handedness).toBe('Right');
+    tracker.update([mkHand('Left', 0.5)], 3 * FRAME_MS);
+    tracker.update([mkHand('Left', 0.5)], 4 * FRAME_MS);
+    expect(tracker.update([mkHand('Left', 0.5)], 5 * FRAME_MS).hands[0]!.handedness).toBe('Left');
+  });
+
+  it('gives far-away detections a new id', () => {
+    const tracker = createHandIdentityTracker({ maxMatchDistance: 0.1 });
+    const [a] = tracker.update([mkHand('Right', 0.2)], 0).hands;
+    const [b] = tracker.update([mkHand('Right', 0.8)], FRAME_MS).hands;
+    expect(b!.id).not.toBe(a!.id);
+  });
+
+  it('fires enter, lost and exit after their grace periods', () => {
+    const tracker = createHandIdentityTracker({ enterGraceMs: 100, lostGraceMs: 100, exitGraceMs: 300 });
+    const types = (hands: Hand3DData[], t: number) => tracker.update(hands, t).events.map((e) => e.type);
+
+    expect(types([mkHand('Right', 0.5)], 0)).toEqual([]);
+    expect(types([mkHand('Right', 0.5)], 100)).toEqual(['enter']);
+    expect(types([], 150)).toEqual([]);
+    expect(types([], 200)).toEqual(['lost']);
+    // Coming back within the exit grace keeps the id and fires nothing
+    const back = tracker.update([mkHand('Right', 0.5)], 250);
+    expect(back.events).toEqual([]);
+    expect(back.hands[0]!.id).toBe(1);
+
+    expect(types([], 350)).toEqual(['lost']);
+    expect(types([], 550)).toEqual(['exit']);
+    expect(tracker.update([mkHand('Right', 0.5)], 600).hands[0]!.id).toBe(2);
+  });
+
+  it('drops brief false detections without events', () => {
+    const tracker = createHandIdentityTracker({ enterGraceMs: 100, lostGraceMs: 50, exitGraceMs: 300 });
+    tracker.update([mkHand('Right', 0.5)], 0);
+    const events = [50, 100, 400].flatMap((t) => tracker.update([], t).events);
+    expect(events).toEqual([]);
+  });
+
+  it('keeps hands in their previous slot', () => {
+    const a = { ...mkHand('Left', 0.2), id: 1 };
+    const b = { ...mkHand('Right', 0.8), id: 2 };
+    const c = { ...mkHand('Right', 0.5), id: 3 };
+    expect(assignHandSlots([b, a], [1, 2], 2)).toEqual([a, b]);
+    expect(assignHandSlots([b], [1, 2], 2)).toEqual([null, b]);
+    expect(assignHandSlots([c, b], [1, 2], 2)).toEqual([c, b]);
+    expect(assignHandSlots([mkHand('Left', 0.2)], [], 2)).toEqual([mkHand('Left', 0.2), null]);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  createHandLandmarkFilter,
+  createKalmanFilter,
+  createOneEuroFilter,
+  createPassthroughFilter,
+  DEFAULT_LANDMARK_FILTER_SETTINGS,
+  normalizeLandmarkFilterSettings,
+} from '@/components/hand-tracking/landmarkFilter';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+
+const FRAME_MS = 1000 / 30;
+
+function mkHand(handedness: Hand3DData['handedness'], x: number): Hand3DData {
+  return { handedness, landmarks: Array.from({ length: 21 }, () => ({ x, y: 0.5, z: 0 })) };
+}
+
+describe('landmarkFilter', () => {
+  it('One Euro damps jitter around a still point and converges after a step', () => {
+    const filter = createOneEuroFilter(DEFAULT_LANDMARK_FILTER_SETTINGS);
+    let out = filter.next(0.5, 0);
+    for (let i = 1; i <= 30; i++) {
+      out = filter.next(0.5 + (i % 2 ? 0.01 : -0.01), i * FRAME_MS);
+      expect(Math.abs(out.value - 0.5)).toBeLessThan(0.01);
+    }
+    for (let i = 31; i <= 90; i++) out = filter.next(0.8, i * FRAME_MS);
+    expect(out.value).toBeCloseTo(0.8, 3);
+  });
+
+  it('Kalman estimates velocity on a linear ramp', () => {
+    const filter = createKalmanFilter(DEFAULT_LANDMARK_FILTER_SETTINGS);
+    let out = filter.next(0, 0);
+    // 0.3 units per second
+    for (let i = 1; i <= 60; i++) out = filter.next(0.3 * (i * FRAME_MS) / 1000, i * FRAME_MS);
+    expect(out.velocity).toBeCloseTo(0.3, 2);
+    expect(out.value).toBeCloseTo(0.6, 2);
+  });
+
+  it('restarts on long gaps and non-increasing timestamps', () => {
+    const filter = createPassthroughFilter();
+    filter.next(0, 0);
+    expect(filter.next(0.1, 100).velocity).toBeCloseTo(1, 6);
+    expect(filter.next(0.5, 2000)).toEqual({ value: 0.5, velocity: 0 });
+    expect(filter.next(0.2, 1000)).toEqual({ value: 0.2, velocity: 0 });
+  });
+
+  it('keeps filter state with the same hand when MediaPipe reorders hands', () => {
+    const filter = createHandLandmarkFilter({ ...DEFAULT_LANDMARK_FILTER_SETTINGS, kind: 'none' });
+    filter.apply([mkHand('Left', 0.2), mkHand('Right', 0.7)], 0);
+    const [right, left] = filter.apply([mkHand('Right', 0.8), mkHand('Left', 0.2)], 100);
+    expect(right!.velocities![0]!.x).toBeCloseTo(1, 6);
+    expect(left!.velocities![0]!.x).toBeCloseTo(0, 6);
+  });
+
+  it('starts a returning hand fresh and does not mutate its input', () => {
+    const filter = createHandLandmarkFilter();
+    filter.apply([mkHand('Right', 0.2)], 0);
+    filter.apply([], FRAME_MS);
+    const input = mkHand('Right', 0.9);
+    const [hand] = filter.apply([input], 2 * FRAME_MS);
+    expect(hand!.landmarks[0]!.x).toBe(0.9);
+    expect(hand!.velocities![0]).toEqual({ x: 0, y: 0, z: 0 });
+    expect(input.velocities).toBeUndefined();
+  });
+
+  it('normalizes saved settings', () => {
+    expect(normalizeLandmarkFilterSettings(null)).toEqual(DEFAULT_LANDMARK_FILTER_SETTINGS);
+    expect(normalizeLandmarkFilterSettings({ kind: 'kalman', beta: -1, minCutoff: 3 })).toEqual({
+      ...DEFAULT_LANDMARK_FILTER_SETTINGS,
+      kind: 'kalman',
+      minCutoff: 3,
+    });
+    expect(normalizeLandmarkFilterSettings({ kind: 'median' }).kind).toBe('oneEuro');
+  });
+
+  it('rejects zero cutoffs and noises in saved settings but keeps a zero beta', () => {
+    const zeros = { minCutoff: 0, beta: 0, dCutoff: 0, processNoise: 0, measurementNoise: 0 };
+    expect(normalizeLandmarkFilterSettings(zeros)).toEqual({ ...DEFAULT_LANDMARK_FILTER_SETTINGS, beta: 0 });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  advancePlayhead,
+  createLandmarkRecorder,
+  getFrameAtTime,
+  getFrameIndexAtTime,
+  parseRecording,
+  serializeRecording,
+  LANDMARK_RECORDING_VERSION,
+} from '@/components/hand-tracking/landmarkRecording';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+
+function mkHand(x: number): Hand3DData {
+  return {
+    landmarks: Array.from({ length: 21 }, (_, i) => ({ x, y: i / 21, z: 0 })),
+    handedness: 'Right',
+  };
+}
+
+function recordThreeFrames() {
+  const recorder = createLandmarkRecorder();
+  recorder.start(1000);
+  recorder.addFrame({ hands: [mkHand(0.1)], pinchVector: null, rightHandDistance: null, pose: null }, 1000);
+  recorder.addFrame(
+    { hands: [mkHand(0.2)], pinchVector: { x: 0, y: 0, dx: 1, dy: 0 }, rightHandDistance: 0.1, pose: null },
+    1033
+  );
+  recorder.addFrame({ hands: [], pinchVector: null, rightHandDistance: null, pose: null }, 1066);
+  return recorder.stop()!;
+}
+
+describe('landmarkRecording', () => {
+  it('timestamps frames relative to start and computes duration', () => {
+    const rec = recordThreeFrames();
+    expect(rec.version).toBe(LANDMARK_RECORDING_VERSION);
+    expect(rec.frames.map((f) => f.t)).toEqual([0, 33, 66]);
+    expect(rec.durationMs).toBe(66);
+  });
+
+  it('ignores frames when not recording', () => {
+    const recorder = createLandmarkRecorder();
+    recorder.addFrame({ hands: [], pinchVector: null, rightHandDistance: null, pose: null }, 0);
+    expect(recorder.frameCount()).toBe(0);
+    expect(recorder.stop()).toBeNull();
+  });
+
+  it('copies landmarks so later mutation does not alter the recording', () => {
+    const recorder = createLandmarkRecorder();
+    const hand = mkHand(0.5);
+    recorder.start(0);
+    recorder.addFrame({ hands: [hand], pinchVector: null, rightHandDistance: null, pose: null }, 10);
+    hand.landmarks[0]!.x = 0.9;
+    const rec = recorder.stop()!;
+    expect(rec.frames[0]!.hands[0]!.landmarks[0]!.x).toBe(0.5);
+  });
+
+  it('round-trips through JSON', () => {
+    const rec = recordThreeFrames();
+    const parsed = parseRecording(serializeRecording(rec));
+    expect(parsed).toEqual(rec);
+  });
+
+  it('rejects files that are not recordings or have an unknown version', () => {
+    expect(() => parseRecording('not json')).toThrow('not valid JSON');
+    expect(() => parseRecording(JSON.stringify({ foo: 1 }))).toThrow('not a landmark recording');
+    expect(() =>
+      parseRecording(JSON.stringify({ format: 'landmark-recording', version: 99, frames: [] }))
+    ).toThrow('Unsupported recording version');
+  });
+
+  it('finds the frame at or before a time', () => {
+    const rec = recordThreeFrames();
+    expect(getFrameIndexAtTime(rec, -1)).toBe(-1);
+    expect(getFrameIndexAtTime(rec, 0)).toBe(0);
+    expect(getFrameIndexAtTime(rec, 40)).toBe(1);
+    expect(getFrameIndexAtTime(rec, 1000)).toBe(2);
+    expect(getFrameAtTime(rec, 33)?.rightHandDistance).toBe(0.1);
+  });
+
+  describe('advancePlayhead', () => {
+    it('scales by speed', () => {
+      expect(advancePlayhead({ positionMs: 0, deltaMs: 10, speed: 2, durationMs: 100, loop: false })).toEqual({
+        positionMs: 20,
+        ended: false,
+      });
+    });
+
+    it('clamps and ends without loop', () => {
+      expect(advancePlayhead({ positionMs: 90, deltaMs: 20, speed: 1, durationMs: 100, loop: false })).toEqual({
+        positionMs: 100,
+        ended: true,
+      });
+    });
+
+    it('wraps with loop', () => {
+      const next = advancePlayhead({ positionMs: 90, deltaMs: 20, speed: 1, durationMs: 100, loop: true });
+      expect(next.ended).toBe(false);
+      expect(next.positionMs).toBeCloseTo(10, 6);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import {
+  applyModulation,
+  applyModulationCurve,
+  createModulationEngine,
+  createModulationMapping,
+  getDefaultModulationMappings,
+  getModulationTargets,
+  NODES_PER_ORBIT_MAPPING,
+  normalizeModulationMappings,
+  readAudioModulationSignal,
+  readModulationSignal,
+} from '@/components/hand-tracking/modulation';
+import { SILENT_AUDIO_FEATURES, type AudioFeatures } from '@/lib/audioAnalysis';
+import { mapDistanceToNodesPerOrbit } from '@/components/hand-tracking/pinchMath';
+import { EMPTY_TRACKING_FRAME, type TrackingFrame } from '@/components/hand-tracking/trackingSources';
+
+/** Flat hand centred on (cx, cy): palm landmarks at the centre, thumb/index tips `pinch` apart. */
+function mkHand(cx: number, cy: number, options: { pinch?: number; handedness?: Hand3DData['handedness'] } = {}): Hand3DData {
+  const { pinch = 0.2, handedness = 'Right' } = options;
+  const landmarks = Array.from({ length: 21 }, () => ({ x: cx, y: cy, z: 0 }));
+  landmarks[0] = { x: cx, y: cy + 0.05, z: 0 }; // wrist below the middle knuckle (upright)
+  landmarks[9] = { x: cx, y: cy - 0.05, z: 0 };
+  landmarks[4] = { x: cx - pinch / 2, y: cy - 0.1, z: 0 };
+  landmarks[8] = { x: cx + pinch / 2, y: cy - 0.1, z: 0 };
+  return { landmarks, handedness };
+}
+
+const mkFrame = (timestamp: number, hands: Hand3DData[], rightHandDistance: number | null = null): TrackingFrame => ({
+  ...EMPTY_TRACKING_FRAME,
+  timestamp,
+  hands,
+  rightHandDistance,
+});
+
+describe('readModulationSignal', () => {
+  it('returns null when the signal is unavailable', () => {
+    expect(readModulationSignal(mkFrame(0, []), 'pinchStrength')).toBeNull();
+    expect(readModulationSignal(mkFrame(0, [mkHand(0.5, 0.5)]), 'handSpread')).toBeNull();
+    expect(readModulationSignal(mkFrame(0, [mkHand(0.5, 0.5)]), 'otherHandPinch')).toBeNull();
+    expect(readModulationSignal(mkFrame(0, [mkHand(0.5, 0.5, { handedness: 'Right' })]), 'handHeight', 'Left')).toBeNull();
+  });
+
+  it('normalizes hand signals to 0..1', () => {
+    const frame = mkFrame(0, [mkHand(0.3, 0.2, { pinch: 0.02 }), mkHand(0.7, 0.2, { pinch: 0.3, handedness: 'Left' })], 0.125);
+    expect(readModulationSignal(frame, 'pinchStrength', 'Right')).toBe(1);
+    expect(readModulationSignal(frame, 'pinchStrength', 'Left')).toBe(0);
+    expect(readModulationSignal(frame, 'handHeight')).toBeCloseTo(0.8, 2);
+    expect(readModulationSignal(frame, 'palmRotation')).toBeCloseTo(0.5, 5);
+    expect(readModulationSignal(frame, 'handSpread')).toBeCloseTo(0.5, 5);
+    expect(readModulationSignal(frame, 'otherHandPinch')).toBeCloseTo(0.5, 5);
+  });
+
+  it('reads hand velocity from filter velocities', () => {
+    const hand = { ...mkHand(0.5, 0.5), velocities: Array.from({ length: 21 }, () => ({ x: 1, y: 0, z: 0 })) };
+    expect(readModulationSignal(mkFrame(0, [hand]), 'handVelocity')).toBeCloseTo(0.5, 5);
+  });
+});
+
+describe('readAudioModulationSignal', () => {
+  it('returns null without audio and for tracking signals', () => {
+    expect(readAudioModulationSignal(null, 'audioBass')).toBeNull();
+    expect(readAudioModulationSignal(SILENT_AUDIO_FEATURES, 'pinchStrength')).toBeNull();
+  });
+
+  it('reads band energies, the beat pulse and a normalized tempo', () => {
+    const audio: AudioFeatures = { ...SILENT_AUDIO_FEATURES, bass: 0.7, treble: 0.2, beatPulse: 0.5, bpm: 120 };
+    expect(readAudioModulationSignal(audio, 'audioBass')).toBe(0.7);
+    expect(readAudioModulationSignal(audio, 'audioTreble')).toBe(0.2);
+    expect(readAudioModulationSignal(audio, 'audioBeat')).toBe(0.5);
+    expect(readAudioModulationSignal(audio, 'audioTempo')).toBeCloseTo(0.5, 5);
+    expect(readAudioModulationSignal({ ...audio, bpm: null }, 'audioTempo')).toBeNull();
+  });
+});
+
+describe('applyModulationCurve', () => {
+  it('keeps endpoints and shapes the middle', () => {
+    for (const curve of ['linear', 'easeIn', 'easeOut', 'sCurve'] as const) {
+      expect(applyModulationCurve(0, curve)).toBe(0);
+      expect(applyModulationCurve(1, curve)).toBe(1);
+    }
+    expect(applyModulationCurve(0.5, 'easeIn')).toBeCloseTo(0.25);
+    expect(applyModulationCurve(0.5, 'easeOut')).toBeCloseTo(0.75);
+    expect(applyModulationCurve(0.25, 'sCurve')).toBeLessThan(0.25);
+  });
+});
+
+describe('createModulationEngine', () => {
+  it('reproduces the nodes-per-orbit mapping', () => {
+    const engine = createModulationEngine();
+    [0, 0.05, 0.125, 0.2, 0.25, 0.4].forEach((distance, i) => {
+      const values = engine.update(mkFrame(i * 33, [], distance), [NODES_PER_ORBIT_MAPPING]);
+      expect(values.nodesPerOrbit).toBe(mapDistanceToNodesPerOrbit(distance));
+    });
+  });
+
+  it('holds the last value while the signal is missing', () => {
+    const engine = createModulationEngine();
+    expect(engine.update(mkFrame(0, []), [NODES_PER_ORBIT_MAPPING])).toEqual({});
+    engine.update(mkFrame(33, [], 0.25), [NODES_PER_ORBIT_MAPPING]);
+    expect(engine.update(mkFrame(66, []), [NODES_PER_ORBIT_MAPPING]).nodesPerOrbit).toBe(10);
+  });
+
+  it('inverts and scales into the output range', () => {
+    const engine = createModulationEngine();
+    const mapping = createModulationMapping('orbitStrength', { signal: 'otherHandPinch', min: 0, max: 4, invert: true, smoothingMs: 0 });
+    expect(engine.update(mkFrame(0, [], 0.05), [mapping]).orbitStrength).toBeCloseTo(3.2, 5);
+  });
+
+  it('smooths towards the target over time', () => {
+    const engine = createModulationEngine();
+    const mapping = createModulationMapping('opacity', { signal: 'otherHandPinch', smoothingMs: 200 });
+    engine.update(mkFrame(0, [], 0), [mapping]);
+    const early = engine.update(mkFrame(100, [], 0.25), [mapping]).opacity!;
+    expect(early).toBeCloseTo(1 - Math.exp(-0.5), 5);
+    const later = engine.update(mkFrame(1100, [], 0.25), [mapping]).opacity!;
+    expect(later).toBeGreaterThan(0.99);
+  });
+
+  it('skips disabled mappings and lets later mappings win', () => {
+    const engine = createModulationEngine();
+    const a = createModulationMapping('armCount', { signal: 'otherHandPinch', min: 1, max: 2, smoothingMs: 0 });
+    const b = createModulationMapping('armCount', { signal: 'otherHandPinch', min: 5, max: 6, smoothingMs: 0 });
+    expect(engine.update(mkFrame(0, [], 0), [a, b]).armCount).toBe(5);
+    expect(engine.update(mkFrame(33, [], 0), [a, { ...b, enabled: false }]).armCount).toBe(1);
+  });
+
+  it('smooths audio signals on the audio clock and holds them without audio', () => {
+    const engine = createModulationEngine();
+    const mapping = createModulationMapping('opacity', { signal: 'audioBass', smoothingMs: 100 });
+    const audio = (time: number, bass: number): AudioFeatures => ({ ...SILENT_AUDIO_FEATURES, time, bass });
+    expect(engine.update(mkFrame(0, []), [mapping])).toEqual({});
+    engine.update(mkFrame(0, []), [mapping], audio(1000, 0));
+    // The frame clock stands still; the audio clock moved 100ms
+    expect(engine.update(mkFrame(0, []), [mapping], audio(1100, 1)).opacity).toBeCloseTo(1 - Math.exp(-1), 5);
+    expect(engine.update(mkFrame(33, []), [mapping]).opacity).toBeCloseTo(1 - Math.exp(-1), 5);
+    // A restarted audio clock jumps to the new value
+    expect(engine.update(mkFrame(66, []), [mapping], audio(0, 0.25)).opacity).toBe(0.25);
+  });
+
+  it('derives hand velocity from consecutive frames without filter velocities', () => {
+    const engine = createModulationEngine();
+    const mapping = createModulationMapping('turbulence', { signal: 'handVelocity', min: 0, max: 2, smoothingMs: 0 });
+    expect(engine.update(mkFrame(0, [{ ...mkHand(0.4, 0.5), id: 1 }]), [mapping])).toEqual({});
+    // 0.1 units in 100ms = 1 unit/s = half of the velocity range
+    expect(engine.update(mkFrame(100, [{ ...mkHand(0.5, 0.5), id: 1 }]), [mapping]).turbulence).toBeCloseTo(1, 5);
+  });
+});
+
+describe('applyModulation', () => {
+  it('only overrides numeric controls and keeps identity when unchanged', () => {
+    const controls = { opacity: 0.5, palette: 'classic', showTrails: true };
+    expect(applyModulation(controls, {})).toBe(controls);
+    expect(applyModulation(controls, { opacity: 0.5 })).toBe(controls);
+    expect(applyModulation(controls, { opacity: 0.9, palette: 1, missing: 2 })).toEqual({ ...controls, opacity: 0.9 });
+    expect(getModulationTargets(controls)).toEqual(['opacity']);
+  });
+});
+
+describe('modulation defaults and storage', () => {
+  it('gives PinchControlled3D the nodes-per-orbit mapping', () => {
+    expect(getDefaultModulationMappings('PinchControlled3D')).toEqual([NODES_PER_ORBIT_MAPPING]);
+    expect(getDefaultModulationMappings('ConstellationVisual')).toEqual([]);
+    expect(getDefaultModulationMappings(undefined)).toEqual([]);
+  });
+
+  it('repairs or drops invalid stored mappings', () => {
+    const mappings = normalizeModulationMappings([
+      { id: 'a', target: 'opacity', signal: 'handHeight', curve: 'bogus', min: 'x', smoothingMs: -5 },
+      { id: 'b', target: 'opacity', signal: 'notASignal' },
+      null,
+    ]);
+    expect(mappings).toEqual([
+      {
+        id: 'a',
+        enabled: true,
+        signal: 'handHeight',
+        hand: 'any',
+        target: 'opacity',
+        min: 0,
+        max: 1,
+        curve: 'linear',
+        smoothingMs: 0,
+        invert: false,
+        step: 0,
+      },
+    ]);
+    expect(normalizeModulationMappings('nope')).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  derivePinchSignals,
+  detectPinch,
+  mapDistanceToNodesPerOrbit,
+  selectControlHands,
+} from '@/components/hand-tracking/pinchMath';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+
+function mkHand(handedness: Hand3DData['handedness'], thumb: [number, number], index: [number, number]): Hand3DData {
+  const landmarks = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.5, z: 0 }));
+  landmarks[4] = { x: thumb[0], y: thumb[1], z: 0 };
+  landmarks[8] = { x: index[0], y: index[1], z: 0 };
+  return { landmarks, handedness };
+}
+
+describe('pinchMath', () => {
+  it('detects a pinch below the threshold with a center-origin vector', () => {
+    const pinch = detectPinch(mkHand('Right', [0.6, 0.5], [0.62, 0.5]).landmarks);
+    expect(pinch.isPinching).toBe(true);
+    expect(pinch.vector!.x).toBeCloseTo(0.11, 6);
+    expect(pinch.vector!.dx).toBeCloseTo(1, 6);
+    expect(detectPinch(mkHand('Right', [0.4, 0.5], [0.6, 0.5]).landmarks).isPinching).toBe(false);
+  });
+
+  it('selects the control hand by handedness and falls back to the first hand', () => {
+    const left = mkHand('Left', [0, 0], [0, 0]);
+    const right = mkHand('Right', [0, 0], [0, 0]);
+    expect(selectControlHands([left, right], false)).toEqual({ controlHand: right, otherHand: left });
+    expect(selectControlHands([left, right], true)).toEqual({ controlHand: left, otherHand: right });
+
+    const a = mkHand('Unknown', [0, 0], [0, 0]);
+    const b = mkHand('Unknown', [0, 0], [0, 0]);
+    const picked = selectControlHands([a, b], false);
+    expect(picked.controlHand).toBe(a);
+    expect(picked.otherHand).toBe(b);
+  });
+
+  it('mirrors the pinch vector and reports the other hand distance', () => {
+    const signals = derivePinchSignals([
+      mkHand('Right', [0.6, 0.5], [0.62, 0.5]),
+      mkHand('Left', [0.3, 0.5], [0.3, 0.6]),
+    ]);
+    expect(signals.pinchVector!.x).toBeCloseTo(-0.11, 6);
+    expect(signals.pinchVector!.dx).toBeCloseTo(-1, 6);
+    expect(signals.rightHandDistance).toBeCloseTo(0.1, 6);
+    expect(derivePinchSignals([])).toEqual({ pinchVector: null, rightHandDistance: null });
+  });
+
+  it('maps distance to nodes per orbit', () => {
+    expect(mapDistanceToNodesPerOrbit(0)).toBe(3);
+    expect(mapDistanceToNodesPerOrbit(0.125)).toBe(7);
+    expect(mapDistanceToNodesPerOrbit(1)).toBe(10);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  createLiveTrackingSource,
+  createRecordedTrackingSource,
+  createSyntheticTrackingSource,
+  generateSyntheticHands,
+  parseTrackingFrame,
+  type TrackingFrame,
+} from '@/components/hand-tracking/trackingSources';
+import { createLandmarkRecorder } from '@/components/hand-tracking/landmarkRecording';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+
+function mkHand(x: number): Hand3DData {
+  return {
+    landmarks: Array.from({ length: 21 }, (_, i) => ({ x, y: i / 21, z: 0 })),
+    handedness: 'Right',
+  };
+}
+
+function mkRecording() {
+  const recorder = createLandmarkRecorder();
+  recorder.start(0);
+  recorder.addFrame({ hands: [mkHand(0.1)], pinchVector: null, rightHandDistance: null, pose: null }, 0);
+  recorder.addFrame({ hands: [mkHand(0.2)], pinchVector: null, rightHandDistance: 0.1, pose: null }, 50);
+  recorder.addFrame({ hands: [], pinchVector: null, rightHandDistance: null, pose: null }, 100);
+  return recorder.stop()!;
+}
+
+describe('trackingSources', () => {
+  it('live source re-emits pushed frames until stopped and unsubscribes', () => {
+    const source = createLiveTrackingSource();
+    const frames: TrackingFrame[] = [];
+    const unsubscribe = source.subscribe((f) => frames.push(f));
+
+    source.push({ hands: [mkHand(0.3)], pinchVector: null, rightHandDistance: 0.2, pose: null }, 10);
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toMatchObject({ timestamp: 10, rightHandDistance: 0.2, face: null });
+    expect(source.getLatestFrame()).toBe(frames[0]);
+
+    source.stop();
+    source.push({ hands: [], pinchVector: null, rightHandDistance: null, pose: null }, 20);
+    expect(frames).toHaveLength(1);
+
+    source.start();
+    unsubscribe();
+    source.push({ hands: [], pinchVector: null, rightHandDistance: null, pose: null }, 30);
+    expect(frames).toHaveLength(1);
+  });
+
+  it('recorded source emits each recorded frame once as the playhead advances', () => {
+    const source = createRecordedTrackingSource(mkRecording(), { loop: false });
+    const timestamps: number[] = [];
+    source.subscribe((f) => timestamps.push(f.timestamp));
+
+    source.tick(0);
+    source.tick(10);
+    source.tick(45);
+    source.tick(100);
+    expect(timestamps).toEqual([0, 50, 100]);
+  });
+
+  it('recorded source re-emits the first frame after looping', () => {
+    const source = createRecordedTrackingSource(mkRecording(), { loop: true });
+    const timestamps: number[] = [];
+    source.subscribe((f) => timestamps.push(f.timestamp));
+
+    source.tick(60);
+    source.tick(60);
+    expect(timestamps).toEqual([50, 0]);
+  });
+
+  it('synthetic hands are deterministic and pinch periodically', () => {
+    expect(generateSyntheticHands(1234)).toEqual(generateSyntheticHands(1234));
+    expect(generateSyntheticHands(0, 1)).toHaveLength(1);
+
+    const pinchTimes = Array.from({ length: 100 }, (_, i) => i * 100).filter((t) => {
+      const [right] = generateSyntheticHands(t);
+      const thumb = right!.landmarks[4]!;
+      const index = right!.landmarks[8]!;
+      return Math.hypot(thumb.x - index.x, thumb.y - index.y) < 0.05;
+    });
+    expect(pinchTimes.length).toBeGreaterThan(0);
+    expect(pinchTimes.length).toBeLessThan(100);
+  });
+
+  it('synthetic source emits on an interval while started', () => {
+    jest.useFakeTimers();
+    try {
+      const source = createSyntheticTrackingSource({ fps: 10 });
+      const listener = jest.fn();
+      source.subscribe(listener);
+      source.start();
+      jest.advanceTimersByTime(250);
+      expect(listener).toHaveBeenCalledTimes(3);
+      expect(listener.mock.calls[0][0].hands).toHaveLength(2);
+      source.stop();
+      jest.advanceTimersByTime(500);
+      expect(listener).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  describe('parseTrackingFrame', () => {
+    it('rejects non-frames and invalid hands', () => {
+      expect(parseTrackingFrame(null)).toBeNull();
+      expect(parseTrackingFrame({ foo: 1 })).toBeNull();
+      const frame = parseTrackingFrame({ hands: [{ landmarks: [{ x: 'a', y: 0 }] }], timestamp: 5 });
+      expect(frame).toMatchObject({ timestamp: 5, hands: [], pose: null, face: null });
+    });
+
+    it('fills z and derives pinch data when missing', () => {
+      const frame = parseTrackingFrame({
+        hands: [{ handedness: 'Right', landmarks: mkHand(0.5).landmarks.map(({ x, y }) => ({ x, y })) }],
+      });
+      expect(frame!.hands[0]!.landmarks[0]).toEqual({ x: 0.5, y: 0, z: 0 });
+      expect(frame!.rightHandDistance).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { StrictMode, createElement, type ReactNode } from 'react';
+import { renderHook } from '@testing-library/react';
+import { createModulationMapping } from '@/components/hand-tracking/modulation';
+import { EMPTY_TRACKING_FRAME } from '@/components/hand-tracking/trackingSources';
+import { useModulation } from '@/hooks/useModulation';
+
+const mockUpdate = jest.fn();
+
+jest.mock('@/components/hand-tracking/modulation', () => {
+  const actual = jest.requireActual('@/components/hand-tracking/modulation');
+  return {
+    ...actual,
+    createModulationEngine: () => {
+      const engine = actual.createModulationEngine();
+      return {
+        update: (...args: Parameters<typeof engine.update>) => {
+          mockUpdate(...args);
+          return engine.update(...args);
+        },
+      };
+    },
+  };
+});
+
+const strict = ({ children }: { children: ReactNode }) => createElement(StrictMode, null, children);
+
+describe('useModulation', () => {
+  beforeEach(() => mockUpdate.mockReset());
+
+  it('evaluates each frame once however often it renders', () => {
+    const mappings = [createModulationMapping('opacity', { signal: 'otherHandPinch', smoothingMs: 200 })];
+    const frame = (timestamp: number, rightHandDistance: number) => ({ ...EMPTY_TRACKING_FRAME, timestamp, rightHandDistance });
+    const first = frame(0, 0);
+    const { result, rerender } = renderHook(({ frame }) => useModulation(frame, mappings), {
+      initialProps: { frame: first },
+      wrapper: strict,
+    });
+    const values = result.current;
+    rerender({ frame: first });
+    rerender({ frame: { ...first } });
+    expect(result.current).toBe(values);
+
+    const calls = mockUpdate.mock.calls.length;
+    rerender({ frame: frame(100, 0.25) });
+    expect(mockUpdate.mock.calls.length).toBe(calls + 1);
+    expect(result.current.opacity).toBeCloseTo(1 - Math.exp(-0.5), 5);
+  });
+
+  it('evaluates again when the matrix changes', () => {
+    const frame = { ...EMPTY_TRACKING_FRAME, timestamp: 0, rightHandDistance: 0.25 };
+    const mapping = createModulationMapping('opacity', { signal: 'otherHandPinch', smoothingMs: 0 });
+    const { result, rerender } = renderHook(({ mappings }) => useModulation(frame, mappings), {
+      initialProps: { mappings: [mapping] },
+    });
+    expect(result.current.opacity).toBe(1);
+    rerender({ mappings: [{ ...mapping, invert: true }] });
+    expect(result.current.opacity).toBe(0);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * @jest-environment node
+ */
+
+import 'fake-indexeddb/auto';
+import {
+  StorageFullError,
+  createIndexedDbStore,
+  createMemoryStore,
+  createWebStorageStore,
+  formatBytes,
+  type AppStorageEvent,
+} from '@/lib/appStorage';
+
+// Minimal localStorage; `capacity` (in characters) makes it throw like a full browser store
+function createFakeStorage(initial: Record<string, string> = {}, capacity = Infinity): Storage {
+  const values = new Map(Object.entries(initial));
+  const size = () => Array.from(values).reduce((sum, [k, v]) => sum + k.length + v.length, 0);
+  return {
+    get length() {
+      return values.size;
+    },
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      const previous = values.get(key);
+      values.set(key, value);
+      if (size() > capacity) {
+        if (previous === undefined) values.delete(key);
+        else values.set(key, previous);
+        const error = new Error('full');
+        error.name = 'QuotaExceededError';
+        throw error;
+      }
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    clear: () => values.clear(),
+  };
+}
+
+let dbCount = 0;
+const uniqueDbName = () => `app-storage-test-${++dbCount}`;
+
+describe('createIndexedDbStore', () => {
+  it('keeps entries across instances', async () => {
+    const dbName = uniqueDbName();
+    const first = createIndexedDbStore({ dbName });
+    await first.ready;
+    first.setItem('visual-config:viz6:a', '{"name":"A"}');
+    first.setItem('visual-config:viz6:b', '{"name":"B"}');
+    first.removeItem('visual-config:viz6:b');
+    await first.flush();
+
+    const second = createIndexedDbStore({ dbName });
+    expect(second.isReady()).toBe(false);
+    await second.ready;
+    expect(second.getItem('visual-config:viz6:a')).toBe('{"name":"A"}');
+    expect(second.keys('visual-config:')).toEqual(['visual-config:viz6:a']);
+  });
+
+  it('keeps writes made while loading over stored values', async () => {
+    const dbName = uniqueDbName();
+    const first = createIndexedDbStore({ dbName });
+    first.setItem('key', 'old');
+    await first.flush();
+
+    const second = createIndexedDbStore({ dbName });
+    second.setItem('key', 'new');
+    await second.flush();
+    expect(second.getItem('key')).toBe('new');
+
+    const third = createIndexedDbStore({ dbName });
+    await third.ready;
+    expect(third.getItem('key')).toBe('new');
+  });
+
+  it('deletes entries removed while loading', async () => {
+    const dbName = uniqueDbName();
+    const first = createIndexedDbStore({ dbName });
+    first.setItem('removed', 'old');
+    first.setItem('kept', 'old');
+    await first.flush();
+
+    const second = createIndexedDbStore({ dbName });
+    second.removeItem('removed');
+    await second.flush();
+    expect(second.getItem('removed')).toBeNull();
+    expect(second.keys()).toEqual(['kept']);
+
+    const third = createIndexedDbStore({ dbName });
+    await third.ready;
+    expect(third.getItem('removed')).toBeNull();
+    expect(third.getItem('kept')).toBe('old');
+  });
+
+  it('keeps stored list items when a list is written while loading', async () => {
+    const dbName = uniqueDbName();
+    const isList = (key: string) => key.startsWith('visual-config-list:') || key === 'landmark-session-list';
+    const first = createIndexedDbStore({ dbName, isList });
+    first.setItem('visual-config-list:viz6', '["a","b"]');
+    first.setItem('landmark-session-list', '[{"id":"r1"}]');
+    first.setItem('preset-thumbnail:viz6:a', 'old');
+    await first.flush();
+
+    // Saves during startup only see what they wrote themselves
+    const second = createIndexedDbStore({ dbName, isList });
+    second.setItem('visual-config-list:viz6', '["c"]');
+    second.setItem('landmark-session-list', '[{"id":"r2"},{"id":"r1"}]');
+    second.setItem('preset-thumbnail:viz6:a', 'new');
+    await second.flush();
+    expect(second.getItem('visual-config-list:viz6')).toBe('["a","b","c"]');
+    expect(second.getItem('landmark-session-list')).toBe('[{"id":"r1"},{"id":"r2"}]');
+    // Other entries are replaced as before
+    expect(second.getItem('preset-thumbnail:viz6:a')).toBe('new');
+
+    const third = createIndexedDbStore({ dbName, isList });
+    await third.ready;
+    expect(third.getItem('visual-config-list:viz6')).toBe('["a","b","c"]');
+    expect(third.getItem('landmark-session-list')).toBe('[{"id":"r1"},{"id":"r2"}]');
+  });
+
+  it('replaces a list removed while loading', async () => {
+    const dbName = uniqueDbName();
+    const isList = () => true;
+    const first = createIndexedDbStore({ dbName, isList });
+    first.setItem('visual-gesture-templates:viz6', '[{"id":"t1"}]');
+    await first.flush();
+
+    const second = createIndexedDbStore({ dbName, isList });
+    second.removeItem('visual-gesture-templates:viz6');
+    second.setItem('visual-gesture-templates:viz6', '[{"id":"t2"}]');
+    await second.flush();
+    expect(second.getItem('visual-gesture-templates:viz6')).toBe('[{"id":"t2"}]');
+
+    const third = createIndexedDbStore({ dbName, isList });
+    await third.ready;
+    expect(third.getItem('visual-gesture-templates:viz6')).toBe('[{"id":"t2"}]');
+  });
+
+  it('moves localStorage entries on first run only', async () => {
+    const dbName = uniqueDbName();
+    const legacy = createFakeStorage({
+      'visual-config:viz6:a': '{"name":"A"}',
+      'visual-config-list:viz6': '["a"]',
+      'visual-gesture-templates:viz6': '[]',
+      'tracking-settings:body': 'true',
+    });
+    const migratePrefixes = ['visual-config', 'visual-gesture-templates'];
+
+    const store = createIndexedDbStore({ dbName, legacy, migratePrefixes });
+    await store.ready;
+    expect(store.keys().sort()).toEqual(['visual-config-list:viz6', 'visual-config:viz6:a', 'visual-gesture-templates:viz6']);
+    expect(legacy.length).toBe(1);
+    expect(legacy.getItem('tracking-settings:body')).toBe('true');
+
+    // Entries written to localStorage later (e.g. by an older tab) aren't pulled in again
+    legacy.setItem('visual-config:viz6:b', '{"name":"B"}');
+    const again = createIndexedDbStore({ dbName, legacy, migratePrefixes });
+    await again.ready;
+    expect(again.getItem('visual-config:viz6:b')).toBeNull();
+    expect(legacy.getItem('visual-config:viz6:b')).not.toBeNull();
+  });
+
+  it('reports usage and evicts the least recently used evictable entries', async () => {
+    let time = 0;
+    const store = createIndexedDbStore({
+      dbName: uniqueDbName(),
+      isEvictable: (key) => key.startsWith('landmark-session:'),
+      now: () => ++time,
+    });
+    await store.ready;
+    store.setItem('landmark-session:1', 'x'.repeat(100));
+    store.setItem('landmark-session:2', 'x'.repeat(100));
+    store.setItem('visual-config:viz6:a', 'x'.repeat(100));
+    store.getItem('landmark-session:1');
+
+    const usage = store.getUsage();
+    expect(usage.entries.map((e) => e.key)).toEqual(['landmark-session:2', 'visual-config:viz6:a', 'landmark-session:1']);
+    expect(usage.entries[0]!.bytes).toBe(('landmark-session:2'.length + 100) * 2);
+    expect(usage.totalBytes).toBe(usage.entries.reduce((sum, e) => sum + e.bytes, 0));
+    expect(store.getUsage('visual-config:').entries).toHaveLength(1);
+
+    const events: AppStorageEvent[] = [];
+    store.subscribe((event) => events.push(event));
+    expect(store.evictLeastRecentlyUsed(1)).toEqual(['landmark-session:2']);
+    expect(store.evictLeastRecentlyUsed(Infinity)).toEqual(['landmark-session:1']);
+    expect(store.evictLeastRecentlyUsed(Infinity)).toEqual([]);
+    expect(events).toEqual([
+      { type: 'evicted', keys: ['landmark-session:2'] },
+      { type: 'evicted', keys: ['landmark-session:1'] },
+    ]);
+    expect(store.keys()).toEqual(['visual-config:viz6:a']);
+  });
+
+  it('does not count peeks as use', async () => {
+    let time = 0;
+    const store = createIndexedDbStore({ dbName: uniqueDbName(), now: () => ++time });
+    store.setItem('a', '1');
+    store.setItem('b', '2');
+    expect(store.peekItem('a')).toBe('1');
+    expect(store.getUsage().entries.map((e) => e.key)).toEqual(['a', 'b']);
+  });
+
+  it('drops entries that do not fit and rejects their write', async () => {
+    const store = createIndexedDbStore({ dbName: uniqueDbName() });
+    await store.setItem('kept', 'old');
+    const events: AppStorageEvent[] = [];
+    store.subscribe((event) => events.push(event));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const put = jest.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(() => {
+      const error = new Error('full');
+      error.name = 'QuotaExceededError';
+      throw error;
+    });
+    try {
+      const adding = store.setItem('added', 'x'.repeat(100));
+      const replacing = store.setItem('kept', 'new');
+      await expect(adding).rejects.toThrow(StorageFullError);
+      await expect(replacing).rejects.toThrow(StorageFullError);
+    } finally {
+      put.mockRestore();
+      consoleError.mockRestore();
+    }
+    expect(store.getItem('added')).toBeNull();
+    expect(store.getItem('kept')).toBe('old');
+    expect(events).toContainEqual({ type: 'error', message: 'Not enough storage space for added' });
+  });
+
+  it('notifies subscribers when loaded and on changes', async () => {
+    const store = createIndexedDbStore({ dbName: uniqueDbName() });
+    const events: AppStorageEvent[] = [];
+    store.subscribe((event) => events.push(event));
+    await store.ready;
+    store.setItem('a', '1');
+    store.removeItem('a');
+    store.removeItem('missing');
+    expect(events).toEqual([{ type: 'ready' }, { type: 'change', key: 'a' }, { type: 'change', key: 'a' }]);
+  });
+
+  it('keeps working in memory when IndexedDB cannot be opened', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const factory = {
+      open: () => {
+        throw new Error('blocked');
+      },
+    } as unknown as IDBFactory;
+    const store = createIndexedDbStore({ dbName: uniqueDbName(), factory });
+    const events: AppStorageEvent[] = [];
+    store.subscribe((event) => events.push(event));
+    await store.ready;
+    store.setItem('a', '1');
+    await store.flush();
+    expect(store.getItem('a')).toBe('1');
+    expect(events[0]).toEqual({ type: 'error', message: expect.stringContaining('unavailable') });
+    consoleError.mockRestore();
+  });
+});
+
+describe('createWebStorageStore', () => {
+  it('evicts least recently used entries to make room', () => {
+    let time = 0;
+    const storage = createFakeStorage({}, 100);
+    const store = createWebStorageStore(storage, {
+      isEvictable: (key) => key.startsWith('landmark-session:'),
+      now: () => ++time,
+    });
+    store.setItem('landmark-session:1', 'x'.repeat(20));
+    store.setItem('landmark-session:2', 'x'.repeat(20));
+    store.getItem('landmark-session:1');
+
+    store.setItem('visual-config:viz6:a', 'x'.repeat(20));
+    expect(store.keys().sort()).toEqual(['landmark-session:1', 'visual-config:viz6:a']);
+  });
+
+  it('throws StorageFullError when nothing can be evicted', () => {
+    const store = createWebStorageStore(createFakeStorage({}, 50));
+    store.setItem('visual-config:viz6:a', 'x');
+    expect(() => store.setItem('visual-config:viz6:b', 'x'.repeat(40))).toThrow(StorageFullError);
+    expect(store.getItem('visual-config:viz6:a')).toBe('x');
+  });
+
+  it('rethrows other errors', () => {
+    const storage = createFakeStorage();
+    storage.setItem = () => {
+      throw new Error('denied');
+    };
+    expect(() => createWebStorageStore(storage).setItem('a', '1')).toThrow('denied');
+  });
+});
+
+describe('createMemoryStore', () => {
+  it('stores entries for the session', () => {
+    const store = createMemoryStore();
+    store.setItem('a', '1');
+    expect(store.kind).toBe('memory');
+    expect(store.getItem('a')).toBe('1');
+    expect(store.keys()).toEqual(['a']);
+  });
+});
+
+describe('formatBytes', () => {
+  it('picks a readable unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(14540)).toBe('14.2 KB');
+    expect(formatBytes(3.1 * 1024 * 1024)).toBe('3.1 MB');
+  });
+});
@@ -0,0 +1,106 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  analyzeAudioSamples,
+  createAudioAnalyser,
+  estimateBpm,
+  fft,
+  fftSizeForSampleRate,
+} from '@/lib/audioAnalysis';
+import { decodeWav, mixToMono } from '@/lib/wav';
+
+// Generated by scripts/generate-audio-fixtures.mjs
+const loadFixture = (name: string) => decodeWav(readFileSync(join(__dirname, '..', 'fixtures', 'audio', name)));
+
+/** Times (s) of the detected beats. */
+function detectBeats(name: string) {
+  const { sampleRate, channels } = loadFixture(name);
+  const features = analyzeAudioSamples(mixToMono(channels), sampleRate);
+  return { features, beats: features.filter((f) => f.beat).map((f) => f.time / 1000) };
+}
+
+describe('audioAnalysis', () => {
+  it('decodes WAV fixtures', () => {
+    const mono = loadFixture('kick-120bpm.wav');
+    expect(mono.sampleRate).toBe(8000);
+    expect(mono.channels).toHaveLength(1);
+    expect(mono.channels[0]).toHaveLength(8 * 8000);
+
+    const stereo = loadFixture('kick-90bpm-stereo.wav');
+    expect(stereo.channels).toHaveLength(2);
+    // 8-bit PCM is unsigned
+    const eightBit = loadFixture('noise.wav').channels[0];
+    expect(Math.max(...eightBit)).toBeLessThanOrEqual(1);
+    expect(Math.min(...eightBit)).toBeGreaterThanOrEqual(-1);
+
+    expect(() => decodeWav(new Uint8Array(16))).toThrow('Not a WAV file');
+  });
+
+  it('finds the peak frequency with the FFT', () => {
+    const n = 256;
+    const re = Float64Array.from({ length: n }, (_, i) => Math.sin((2 * Math.PI * 10 * i) / n));
+    const im = new Float64Array(n);
+    fft(re, im);
+    const magnitudes = Array.from({ length: n / 2 }, (_, k) => Math.hypot(re[k], im[k]));
+    expect(magnitudes.indexOf(Math.max(...magnitudes))).toBe(10);
+    expect(magnitudes[10]).toBeCloseTo(n / 2, 5);
+    expect(fftSizeForSampleRate(48000)).toBe(2048);
+    expect(fftSizeForSampleRate(8000)).toBe(512);
+  });
+
+  it('detects the kicks of a 120 BPM loop and its tempo', () => {
+    const { features, beats } = detectBeats('kick-120bpm.wav');
+    // Kicks every 500 ms from 250 ms; detection lags by at most a couple of 60 fps windows
+    expect(beats).toHaveLength(16);
+    beats.forEach((time, i) => expect(time - (0.25 + i * 0.5)).toBeGreaterThanOrEqual(0));
+    beats.forEach((time, i) => expect(time - (0.25 + i * 0.5)).toBeLessThan(0.05));
+    expect(features[features.length - 1].bpm).toBeCloseTo(120, 0);
+  });
+
+  it('detects the kicks of a 90 BPM stereo loop with a bass line', () => {
+    const { features, beats } = detectBeats('kick-90bpm-stereo.wav');
+    expect(beats).toHaveLength(12);
+    beats.forEach((time, i) => expect(Math.abs(time - (0.1 + (i * 60) / 90))).toBeLessThan(0.05));
+    expect(features[features.length - 1].bpm).toBeCloseTo(90, 0);
+    // The pulse jumps on beats and decays between them
+    const beatIndex = features.findIndex((f) => f.beat);
+    expect(features[beatIndex].beatPulse).toBe(1);
+    expect(features[beatIndex + 12].beatPulse).toBeLessThan(0.3);
+  });
+
+  it('hears no beat in steady noise', () => {
+    const { features, beats } = detectBeats('noise.wav');
+    expect(beats).toEqual([]);
+    const last = features[features.length - 1];
+    expect(last.bpm).toBeNull();
+    expect(last.level).toBeGreaterThan(0.5);
+    expect(last.mid).toBeGreaterThan(0.5);
+  });
+
+  it('auto-gains quiet input', () => {
+    const { sampleRate, channels } = loadFixture('kick-120bpm.wav');
+    const quiet = channels[0].map((sample) => sample * 0.05);
+    const loud = analyzeAudioSamples(channels[0], sampleRate);
+    const soft = analyzeAudioSamples(quiet, sampleRate);
+    expect(soft.filter((f) => f.beat)).toHaveLength(16);
+    expect(soft[soft.length - 1].rms).toBeCloseTo(loud[loud.length - 1].rms * 0.05, 5);
+    expect(soft[soft.length - 1].level).toBeCloseTo(loud[loud.length - 1].level, 2);
+    // Silence stays silent
+    expect(analyzeAudioSamples(new Float32Array(8000), sampleRate).every((f) => f.level === 0 && !f.beat)).toBe(true);
+  });
+
+  it('estimates tempo from beat intervals, folded into 60-180 BPM', () => {
+    expect(estimateBpm([0, 500, 1000])).toBeNull();
+    expect(estimateBpm([0, 500, 1000, 1500, 2000])).toBeCloseTo(120, 5);
+    // Half-time and double-time intervals fold onto the same tempo
+    expect(estimateBpm([0, 1000, 1500, 1750, 2250, 2750])).toBeCloseTo(120, 5);
+    expect(estimateBpm([0, 340, 1060, 1470, 2700, 3230])).toBeNull();
+  });
+
+  it('starts over when time goes backwards', () => {
+    const analyser = createAudioAnalyser({ sampleRate: 8000 });
+    const tone = Float32Array.from({ length: 512 }, (_, i) => 0.5 * Math.sin(i / 4));
+    analyser.process(tone, 1000);
+    expect(analyser.process(new Float32Array(512), 0)).toMatchObject({ level: 0, bass: 0, beat: false, bpm: null });
+  });
+});
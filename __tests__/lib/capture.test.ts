@@ -0,0 +1,106 @@
+import {
+  DEFAULT_CAPTURE_SETTINGS,
+  createVisualRecorder,
+  formatCaptureDuration,
+  formatCaptureFileName,
+  getCaptureExtension,
+  getCaptureResolutions,
+  getCaptureSize,
+  getPipRect,
+  getThumbnailSize,
+  normalizeCaptureSettings,
+  pickRecorderMimeType,
+} from '@/lib/capture';
+import { formatFrameFileName } from '@/lib/offlineRender';
+
+describe('formatCaptureFileName', () => {
+  const date = new Date(2026, 9, 19, 17, 5, 3);
+
+  it('joins visual, config name and local time', () => {
+    expect(formatCaptureFileName('viz6', 'Stage Blue!', 'png', date)).toBe('viz6_stage-blue_20261019-170503.png');
+  });
+
+  it('leaves out a missing or unusable config name', () => {
+    expect(formatCaptureFileName('viz4', null, 'webm', date)).toBe('viz4_20261019-170503.webm');
+    expect(formatCaptureFileName('viz4', '***', 'mp4', date)).toBe('viz4_20261019-170503.mp4');
+  });
+
+  it('cuts long names short enough for tar entries', () => {
+    const name = formatCaptureFileName('viz6', 'My very long stage configuration for the closing night (v2)', '', date);
+    expect(name).toBe('viz6_my-very-long-stage-configuration_20261019-170503');
+    expect(`${name}/${formatFrameFileName(0, 1_000_000)}`.length).toBeLessThanOrEqual(100);
+    const longest = formatCaptureFileName('x'.repeat(200), 'y'.repeat(200), '', date);
+    expect(`${longest}/${formatFrameFileName(0, 10_000_000)}`.length).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('pickRecorderMimeType', () => {
+  it('prefers the requested format', () => {
+    expect(pickRecorderMimeType('webm', () => true)).toBe('video/webm;codecs=vp9');
+    expect(pickRecorderMimeType('mp4', () => true)).toBe('video/mp4;codecs=avc1.42E01E');
+  });
+
+  it('falls back to the other format, or null', () => {
+    const safari = (type: string) => type === 'video/mp4';
+    expect(pickRecorderMimeType('webm', safari)).toBe('video/mp4');
+    expect(getCaptureExtension('video/mp4')).toBe('mp4');
+    expect(pickRecorderMimeType('webm', () => false)).toBeNull();
+  });
+});
+
+describe('capture geometry', () => {
+  it('keeps the canvas aspect ratio at the chosen height, with even sizes', () => {
+    expect(getCaptureSize('native', 1201, 675)).toEqual({ width: 1202, height: 676 });
+    expect(getCaptureSize('1080p', 3200, 1800)).toEqual({ width: 1920, height: 1080 });
+    expect(getCaptureSize('720p', 1000, 1000)).toEqual({ width: 720, height: 720 });
+  });
+
+  it('never captures above the canvas size', () => {
+    expect(getCaptureSize('1080p', 1600, 900)).toEqual({ width: 1600, height: 900 });
+    expect(getCaptureSize('2160p', 1000, 1000)).toEqual({ width: 1000, height: 1000 });
+    expect(getCaptureResolutions(1200)).toEqual(['native', '720p', '1080p']);
+    expect(getCaptureResolutions(0)).toEqual(['native']);
+  });
+
+  it('insets the picture-in-picture in the bottom-right corner', () => {
+    const rect = getPipRect(1920, 1080, 640, 480);
+    expect(rect.width).toBe(480);
+    expect(rect.height).toBe(360);
+    expect(rect.x + rect.width).toBe(1920 - 22);
+    expect(rect.y + rect.height).toBe(1080 - 22);
+    // No feed: 4:3 skeleton inset
+    expect(getPipRect(1920, 1080, 0, 0).height).toBe(360);
+  });
+
+  it('scales thumbnails down to fit, never up', () => {
+    expect(getThumbnailSize(1920, 1080)).toEqual({ width: 160, height: 90 });
+    expect(getThumbnailSize(600, 1200, 100)).toEqual({ width: 50, height: 100 });
+    expect(getThumbnailSize(120, 80)).toEqual({ width: 120, height: 80 });
+  });
+});
+
+describe('capture settings', () => {
+  it('repairs stored settings', () => {
+    expect(normalizeCaptureSettings(null)).toEqual(DEFAULT_CAPTURE_SETTINGS);
+    expect(normalizeCaptureSettings({ format: 'mp4', resolution: '8k', pip: 'yes', fps: 60 })).toEqual({
+      ...DEFAULT_CAPTURE_SETTINGS,
+      format: 'mp4',
+      fps: 60,
+    });
+  });
+
+  it('formats recording time', () => {
+    expect(formatCaptureDuration(0)).toBe('0:00');
+    expect(formatCaptureDuration(83_900)).toBe('1:23');
+  });
+});
+
+describe('createVisualRecorder', () => {
+  it('reports unsupported browsers without MediaRecorder', () => {
+    const onStatusChange = jest.fn();
+    const recorder = createVisualRecorder({ onStatusChange, onComplete: jest.fn() });
+    recorder.start({ canvas: document.createElement('canvas') }, DEFAULT_CAPTURE_SETTINGS);
+    expect(onStatusChange).toHaveBeenCalledWith('unsupported');
+    expect(recorder.getStatus()).toBe('unsupported');
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  LEGACY_CONTROLS_VERSION,
+  describeMigration,
+  getControlsVersion,
+  migrateControls,
+} from '@/lib/controlMigrations';
+import type { VisualControlsDefinition } from '@/lib/visualRegistry';
+import { constellationPlugin } from '@/components/visuals/ConstellationPlugin';
+import { DEFAULT_CONSTELLATION_CONTROLS } from '@/components/hand-tracking/ConstellationVisual';
+
+interface TestControls {
+  size: number;
+  glow: boolean;
+}
+
+// v0 stored `radius` (0..50), v1 renamed it to `diameter`, v2 is `size` in 0..1
+const definition: VisualControlsDefinition<TestControls> = {
+  defaults: { size: 0.5, glow: true },
+  schema: {
+    size: { type: 'number', label: 'Size', min: 0, max: 1, step: 0.01 },
+    glow: { type: 'boolean', label: 'Glow' },
+  },
+  title: 'Test',
+  description: 'Test controls',
+  version: 2,
+  migrations: {
+    0: ({ radius, ...rest }) => ({ ...rest, diameter: typeof radius === 'number' ? radius * 2 : undefined }),
+    1: ({ diameter, ...rest }) => ({ ...rest, size: typeof diameter === 'number' ? diameter / 100 : undefined }),
+  },
+};
+
+describe('migrateControls', () => {
+  it('runs the chain from the saved version', () => {
+    const fromLegacy = migrateControls(definition, { radius: 20, glow: false }, LEGACY_CONTROLS_VERSION);
+    expect(fromLegacy).toEqual({ controls: { size: 0.4, glow: false }, migratedFrom: 0, changes: [] });
+
+    const fromV1 = migrateControls(definition, { diameter: 60, glow: true }, 1);
+    expect(fromV1.controls).toEqual({ size: 0.6, glow: true });
+    expect(fromV1.migratedFrom).toBe(1);
+  });
+
+  it('only validates current and newer controls', () => {
+    expect(migrateControls(definition, { size: 0.3, glow: false })).toEqual({
+      controls: { size: 0.3, glow: false },
+      migratedFrom: null,
+      changes: [],
+    });
+    expect(migrateControls(definition, { size: 0.3, radius: 1 }, 3).changes).toEqual([
+      { key: 'glow', kind: 'filled', to: true },
+      { key: 'radius', kind: 'dropped', from: 1 },
+    ]);
+  });
+
+  it('fills, clamps and resets what the migrations leave invalid', () => {
+    const migrated = migrateControls(definition, { radius: 80, glow: 'yes' }, 0);
+    expect(migrated.controls).toEqual({ size: 1, glow: true });
+    expect(migrated.changes).toEqual([
+      { key: 'size', kind: 'clamped', from: 1.6, to: 1 },
+      { key: 'glow', kind: 'reset', from: 'yes', to: true },
+    ]);
+  });
+
+  it('defaults the version to 1', () => {
+    expect(getControlsVersion({ ...definition, version: undefined })).toBe(1);
+    expect(getControlsVersion(definition)).toBe(2);
+  });
+
+  it('describes the migration and each change', () => {
+    const migrated = migrateControls(definition, { radius: 80, extra: 1 }, 0);
+    expect(describeMigration(definition, migrated)).toEqual([
+      'Upgraded from schema version 0 to 2',
+      'Size: 1.60 out of range, clamped to 1.00',
+      'Glow: missing, set to on',
+      'extra: unknown control, dropped',
+    ]);
+  });
+});
+
+describe('constellation migrations', () => {
+  const controls = constellationPlugin.controls!;
+
+  it('keeps presets saved before versioning without nebula trails', () => {
+    const legacy: Record<string, unknown> = { ...DEFAULT_CONSTELLATION_CONTROLS, starBrightness: 0.8 };
+    delete legacy.showNebulaTrails;
+    delete legacy.trailLength;
+    delete legacy.trailOpacity;
+    const migrated = migrateControls(controls, legacy, LEGACY_CONTROLS_VERSION);
+    expect(migrated.controls).toEqual({ ...DEFAULT_CONSTELLATION_CONTROLS, starBrightness: 0.8, showNebulaTrails: false });
+    expect(migrated.changes.map((c) => [c.key, c.kind])).toEqual([
+      ['trailLength', 'filled'],
+      ['trailOpacity', 'filled'],
+    ]);
+  });
+
+  it('leaves a legacy preset that has trails alone', () => {
+    const legacy = { ...DEFAULT_CONSTELLATION_CONTROLS, showNebulaTrails: true };
+    expect(migrateControls(controls, legacy, LEGACY_CONTROLS_VERSION)).toEqual({
+      controls: legacy,
+      migratedFrom: 0,
+      changes: [],
+    });
+  });
+
+  it('repairs out-of-range and unknown values of current presets', () => {
+    const migrated = migrateControls(controls, {
+      ...DEFAULT_CONSTELLATION_CONTROLS,
+      nebulaParticleCount: 5000,
+      palette: 'nope',
+      legacyGlow: 1,
+    });
+    expect(migrated.controls).toEqual({ ...DEFAULT_CONSTELLATION_CONTROLS, nebulaParticleCount: 1200 });
+    expect(migrated.changes.map((c) => [c.key, c.kind])).toEqual([
+      ['nebulaParticleCount', 'clamped'],
+      ['palette', 'reset'],
+      ['legacyGlow', 'dropped'],
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  DEFAULT_MORPH_SETTINGS,
+  applyEasing,
+  blendHexColors,
+  getPresetGestureStep,
+  interpolateControls,
+  isControlMorphFrame,
+  lerpHue,
+  normalizeMorphSettings,
+  sampleControlMorph,
+  type ControlMorph,
+} from '@/lib/controlMorph';
+import type { ControlSpec } from '@/lib/controlSchema';
+import type { GestureEvent } from '@/components/hand-tracking/gestures';
+
+const schema: Record<string, ControlSpec> = {
+  brightness: { type: 'number', label: 'Brightness', min: 0, max: 1, step: 0.01 },
+  arms: { type: 'number', label: 'Arms', min: 1, max: 6, step: 1 },
+  count: { type: 'number', label: 'Count', min: 50, max: 1200, step: 10, morph: 'switch' },
+  trails: { type: 'boolean', label: 'Trails' },
+  palette: { type: 'enum', label: 'Palette', options: [{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }] },
+  tint: { type: 'color', label: 'Tint' },
+};
+
+const from = { brightness: 0, arms: 1, count: 100, trails: false, palette: 'a', tint: '#ff0000' };
+const to = { brightness: 1, arms: 4, count: 800, trails: true, palette: 'b', tint: '#0000ff' };
+
+const gesture = (name: GestureEvent['gesture'], phase: GestureEvent['phase'] = 'start'): GestureEvent => ({
+  gesture: name,
+  phase,
+  handId: 0,
+  handedness: 'Right',
+  confidence: 1,
+  timestamp: 0,
+  durationMs: 0,
+});
+
+describe('controlMorph', () => {
+  it('eases from 0 to 1', () => {
+    for (const easing of ['linear', 'easeIn', 'easeOut', 'easeInOut'] as const) {
+      expect(applyEasing(easing, 0)).toBe(0);
+      expect(applyEasing(easing, 1)).toBe(1);
+      expect(applyEasing(easing, 2)).toBe(1);
+    }
+    expect(applyEasing('easeIn', 0.5)).toBeLessThan(0.5);
+    expect(applyEasing('easeOut', 0.5)).toBeGreaterThan(0.5);
+    expect(applyEasing('easeInOut', 0.5)).toBeCloseTo(0.5);
+  });
+
+  it('blends hues the short way round the color wheel', () => {
+    expect(lerpHue(0.2, 0.4, 0.5)).toBeCloseTo(0.3);
+    expect(lerpHue(0.9, 0.1, 0.5)).toBeCloseTo(0);
+    expect(lerpHue(0.1, 0.9, 0.25)).toBeCloseTo(0.05);
+    expect(lerpHue(0.95, 0.05, 1)).toBeCloseTo(0.05);
+  });
+
+  it('blends hex colors in HSL', () => {
+    expect(blendHexColors('#ff0000', '#ffff00', 0.5)).toBe('#ff7f00');
+    // Red to blue passes through magenta, not gray
+    expect(blendHexColors('#ff0000', '#0000ff', 0.5)).toBe('#ff00ff');
+    // Gray takes the other color's hue
+    expect(blendHexColors('#808080', '#ff0000', 0)).toBe('#808080');
+    expect(blendHexColors('#808080', '#ff0000', 1)).toBe('#ff0000');
+  });
+
+  it('interpolates numbers and switches the rest at the switch point', () => {
+    const before = interpolateControls(schema, from, to, 0.3, 0.4, 0.5);
+    expect(before.brightness).toBeCloseTo(0.3);
+    expect(before.arms).toBe(2);
+    expect(before).toMatchObject({ count: 100, trails: false, palette: 'a' });
+
+    const after = interpolateControls(schema, from, to, 0.7, 0.6, 0.5);
+    expect(after.brightness).toBeCloseTo(0.7);
+    expect(after).toMatchObject({ arms: 3, count: 800, trails: true, palette: 'b' });
+  });
+
+  it('samples a morph over its duration', () => {
+    const morph: ControlMorph<typeof from> = {
+      from,
+      to,
+      startedAt: 1000,
+      settings: { durationMs: 2000, easing: 'linear', switchAt: 0 },
+    };
+    const start = sampleControlMorph(schema, morph, 1000);
+    expect(start.done).toBe(false);
+    expect(start.controls).toMatchObject({ brightness: 0, palette: 'b' });
+
+    const middle = sampleControlMorph(schema, morph, 2000);
+    expect(middle.frame).toEqual({ from, to, progress: 0.5 });
+    expect(middle.controls.brightness).toBeCloseTo(0.5);
+
+    const end = sampleControlMorph(schema, morph, 5000);
+    expect(end.done).toBe(true);
+    expect(end.controls).toBe(to);
+  });
+
+  it('validates settings and morph frames', () => {
+    expect(normalizeMorphSettings(null)).toEqual(DEFAULT_MORPH_SETTINGS);
+    expect(
+      normalizeMorphSettings({ durationMs: -5, easing: 'bounce', switchAt: 3, nextGesture: 'swipeUp', previousGesture: 'wave' })
+    ).toEqual({ ...DEFAULT_MORPH_SETTINGS, durationMs: 0, switchAt: 1, nextGesture: 'swipeUp' });
+
+    expect(isControlMorphFrame({ from: {}, to: {}, progress: 0.5 })).toBe(true);
+    expect(isControlMorphFrame({ from: {}, to: null, progress: 0.5 })).toBe(false);
+    expect(isControlMorphFrame({ from: {}, to: {}, progress: 2 })).toBe(false);
+  });
+
+  it('maps the chosen gestures to preset steps', () => {
+    const settings = { ...DEFAULT_MORPH_SETTINGS, nextGesture: 'swipeUp' as const, previousGesture: 'swipeDown' as const };
+    expect(getPresetGestureStep(settings, gesture('swipeUp'))).toBe(1);
+    expect(getPresetGestureStep(settings, gesture('swipeDown'))).toBe(-1);
+    expect(getPresetGestureStep(settings, gesture('swipeUp', 'end'))).toBe(0);
+    expect(getPresetGestureStep(settings, gesture('fist'))).toBe(0);
+    expect(getPresetGestureStep(DEFAULT_MORPH_SETTINGS, gesture('swipeUp'))).toBe(0);
+  });
+});
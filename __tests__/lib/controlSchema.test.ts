@@ -0,0 +1,141 @@
+import {
+  describeControlChange,
+  formatControlValue,
+  getControlDecimals,
+  groupControls,
+  isControlVisible,
+  isValidControlValue,
+  validateControls,
+  type ControlSpec,
+  type NumberControlSpec,
+} from '@/lib/controlSchema';
+import { CONSTELLATION_CONTROL_SCHEMA, DEFAULT_CONSTELLATION_CONTROLS } from '@/components/hand-tracking/ConstellationVisual';
+import { DEFAULT_ONE_LINE_CONTROLS, ONE_LINE_CONTROL_SCHEMA } from '@/components/hand-tracking/OneLineHandVisual';
+import { DEFAULT_PRISM_HAND_CONTROLS, PRISM_HAND_CONTROL_SCHEMA } from '@/components/hand-tracking/PrismHandVisual';
+
+const speed: NumberControlSpec = { type: 'number', label: 'Speed', min: 0, max: 2, step: 0.01, unit: 'rad/s' };
+const palette: ControlSpec = {
+  type: 'enum',
+  label: 'Palette',
+  options: [
+    { value: 'aurora', label: 'Aurora' },
+    { value: 'ember', label: 'Ember' },
+  ],
+};
+
+describe('isValidControlValue', () => {
+  it('checks numbers against the range', () => {
+    expect(isValidControlValue(speed, 0)).toBe(true);
+    expect(isValidControlValue(speed, 2)).toBe(true);
+    expect(isValidControlValue(speed, 2.01)).toBe(false);
+    expect(isValidControlValue(speed, Number.NaN)).toBe(false);
+    expect(isValidControlValue(speed, '1')).toBe(false);
+  });
+
+  it('checks booleans, enum options and colors', () => {
+    expect(isValidControlValue({ type: 'boolean', label: 'Trails' }, false)).toBe(true);
+    expect(isValidControlValue({ type: 'boolean', label: 'Trails' }, 0)).toBe(false);
+    expect(isValidControlValue(palette, 'ember')).toBe(true);
+    expect(isValidControlValue(palette, 'nope')).toBe(false);
+    expect(isValidControlValue({ type: 'color', label: 'Tint' }, '#A0ff3c')).toBe(true);
+    expect(isValidControlValue({ type: 'color', label: 'Tint' }, 'red')).toBe(false);
+  });
+});
+
+describe('formatControlValue', () => {
+  it('uses the step decimals and unit', () => {
+    expect(getControlDecimals(speed)).toBe(2);
+    expect(getControlDecimals({ ...speed, step: 1 })).toBe(0);
+    expect(formatControlValue(speed, 0.5)).toBe('0.50 rad/s');
+    expect(formatControlValue({ ...speed, step: 0.001, unit: undefined }, 0.05)).toBe('0.050');
+  });
+
+  it('shows enum labels', () => {
+    expect(formatControlValue(palette, 'ember')).toBe('Ember');
+    expect(formatControlValue(palette, 'custom')).toBe('custom');
+  });
+});
+
+describe('groupControls', () => {
+  const schema: Record<string, ControlSpec> = {
+    a: { ...speed, group: 'Motion' },
+    b: { type: 'boolean', label: 'B' },
+    c: { ...speed, group: 'Look', audience: true },
+    d: { ...speed, group: 'Motion', audience: true },
+  };
+
+  it('puts ungrouped controls first and keeps schema order', () => {
+    expect(groupControls(schema)).toEqual([
+      { name: null, keys: ['b'] },
+      { name: 'Motion', keys: ['a', 'd'] },
+      { name: 'Look', keys: ['c'] },
+    ]);
+  });
+
+  it('drops groups emptied by the filter', () => {
+    expect(groupControls(schema, (spec) => spec.audience === true)).toEqual([
+      { name: 'Motion', keys: ['d'] },
+      { name: 'Look', keys: ['c'] },
+    ]);
+  });
+});
+
+describe('isControlVisible', () => {
+  it('hides controls whose toggle is off', () => {
+    const trailLength: ControlSpec = { ...speed, dependsOn: 'trails' };
+    expect(isControlVisible(trailLength, { trails: true })).toBe(true);
+    expect(isControlVisible(trailLength, { trails: false })).toBe(false);
+    expect(isControlVisible(speed, {})).toBe(true);
+  });
+});
+
+describe('visual schemas', () => {
+  const schemas: [string, Record<string, ControlSpec>, object][] = [
+    ['prism', PRISM_HAND_CONTROL_SCHEMA, DEFAULT_PRISM_HAND_CONTROLS],
+    ['one line', ONE_LINE_CONTROL_SCHEMA, DEFAULT_ONE_LINE_CONTROLS],
+    ['constellation', CONSTELLATION_CONTROL_SCHEMA, DEFAULT_CONSTELLATION_CONTROLS],
+  ];
+
+  it('cover every default with a value that fits', () => {
+    for (const [name, specs, defaults] of schemas) {
+      expect([name, Object.keys(specs).sort()]).toEqual([name, Object.keys(defaults).sort()]);
+      for (const [key, value] of Object.entries(defaults)) {
+        expect([name, key, isValidControlValue(specs[key], value)]).toEqual([name, key, true]);
+      }
+    }
+  });
+});
+
+describe('validateControls', () => {
+  const schema: Record<string, ControlSpec> = { speed, palette, trails: { type: 'boolean', label: 'Trails' } };
+  const defaults = { speed: 1, palette: 'aurora', trails: true };
+
+  it('keeps valid controls untouched', () => {
+    expect(validateControls(schema, defaults, { speed: 0.5, palette: 'ember', trails: false })).toEqual({
+      controls: { speed: 0.5, palette: 'ember', trails: false },
+      changes: [],
+    });
+  });
+
+  it('fills, clamps, resets and drops', () => {
+    const { controls, changes } = validateControls(schema, defaults, { speed: -3, palette: 7, glow: 1 });
+    expect(controls).toEqual({ speed: 0, palette: 'aurora', trails: true });
+    expect(changes).toEqual([
+      { key: 'speed', kind: 'clamped', from: -3, to: 0 },
+      { key: 'palette', kind: 'reset', from: 7, to: 'aurora' },
+      { key: 'trails', kind: 'filled', to: true },
+      { key: 'glow', kind: 'dropped', from: 1 },
+    ]);
+    expect(changes.map((change) => describeControlChange(schema, change))).toEqual([
+      'Speed: -3.00 rad/s out of range, clamped to 0.00 rad/s',
+      'Palette: invalid value 7, reset to Aurora',
+      'Trails: missing, set to on',
+      'glow: unknown control, dropped',
+    ]);
+  });
+
+  it('resets NaN and returns the defaults for garbage', () => {
+    expect(validateControls(schema, defaults, { ...defaults, speed: Number.NaN }).controls.speed).toBe(1);
+    expect(validateControls(schema, defaults, null).controls).toEqual(defaults);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  applyExternalInput,
+  describeExternalSource,
+  learnExternalMapping,
+  mapExternalValue,
+  midiToExternalInput,
+  normalizeExternalControlMappings,
+  oscToExternalInputs,
+  type ExternalControlInput,
+  type ExternalControlMapping,
+} from '@/lib/externalControl';
+
+const cc7 = { source: { kind: 'midi', type: 'cc', channel: 1, number: 7 }, value: 0.5 } satisfies ExternalControlInput;
+const fader: ExternalControlInput = { source: { kind: 'osc', address: '/fader/1', argIndex: 0 }, value: 1 };
+
+const mapping = (overrides: Partial<ExternalControlMapping>): ExternalControlMapping => ({
+  id: 'm',
+  source: cc7.source,
+  target: 'speed',
+  min: 0,
+  max: 2,
+  step: 0,
+  ...overrides,
+});
+
+describe('externalControl', () => {
+  it('converts MIDI and OSC to 0..1 inputs', () => {
+    expect(midiToExternalInput({ type: 'cc', channel: 2, number: 1, value: 127 })).toEqual({
+      source: { kind: 'midi', type: 'cc', channel: 2, number: 1 },
+      value: 1,
+    });
+    // One input per numeric argument, clamped; strings are skipped
+    expect(oscToExternalInputs({ address: '/xy', args: [0.25, 'label', { type: 'i', value: 3 }] })).toEqual([
+      { source: { kind: 'osc', address: '/xy', argIndex: 0 }, value: 0.25 },
+      { source: { kind: 'osc', address: '/xy', argIndex: 2 }, value: 1 },
+    ]);
+  });
+
+  it('describes sources', () => {
+    expect(describeExternalSource(cc7.source)).toBe('CC 7 · ch 1');
+    expect(describeExternalSource({ kind: 'osc', address: '/xy', argIndex: 1 })).toBe('/xy [1]');
+  });
+
+  it('learns one source per control and one control per source', () => {
+    const target = { target: 'speed', min: 0, max: 2, step: 0 };
+    let mappings = learnExternalMapping([], cc7, target);
+    expect(mappings).toHaveLength(1);
+    expect(mappings[0]).toMatchObject({ source: cc7.source, target: 'speed', min: 0, max: 2 });
+
+    // Same control, new source: replaced
+    mappings = learnExternalMapping(mappings, fader, target);
+    expect(mappings).toHaveLength(1);
+    expect(mappings[0].source).toEqual(fader.source);
+
+    // Same source, new control: replaced
+    mappings = learnExternalMapping(mappings, fader, { ...target, target: 'size' });
+    expect(mappings.map((m) => m.target)).toEqual(['size']);
+  });
+
+  it('maps values to the range and snaps to steps', () => {
+    expect(mapExternalValue(mapping({}), 0.25)).toBe(0.5);
+    expect(mapExternalValue(mapping({}), 2)).toBe(2);
+    expect(mapExternalValue(mapping({ min: 1, max: 8, step: 1 }), 0.5)).toBe(5);
+    expect(mapExternalValue(mapping({ min: 0, max: 1, step: 0.1 }), 0.3)).toBe(0.3);
+  });
+
+  it('applies inputs through the mappings of their source', () => {
+    const controls = { speed: 1, size: 1, palette: 'neon' };
+    const mappings = [
+      mapping({}),
+      mapping({ id: 'n', target: 'size', min: 10, max: 20 }),
+      mapping({ id: 'o', source: fader.source }),
+    ];
+    expect(applyExternalInput(controls, mappings, cc7)).toEqual({ speed: 1, size: 15, palette: 'neon' });
+    // Unmapped sources and unknown or non-numeric targets leave the controls untouched
+    expect(applyExternalInput(controls, mappings, { ...cc7, source: { ...cc7.source, number: 8 } })).toBe(controls);
+    expect(applyExternalInput(controls, [mapping({ target: 'palette' })], cc7)).toBe(controls);
+  });
+
+  it('normalizes stored mappings', () => {
+    expect(normalizeExternalControlMappings('nope')).toEqual([]);
+    expect(
+      normalizeExternalControlMappings([
+        mapping({}),
+        { ...mapping({}), source: { kind: 'midi', type: 'cc', channel: 17, number: 1 } },
+        { ...mapping({}), source: { kind: 'osc', address: 'fader' } },
+        { id: 'x', target: 'size', source: { kind: 'osc', address: '/f' }, step: -1 },
+      ])
+    ).toEqual([
+      mapping({}),
+      { id: 'x', target: 'size', source: { kind: 'osc', address: '/f', argIndex: 0 }, min: 0, max: 1, step: 0 },
+    ]);
+  });
+});
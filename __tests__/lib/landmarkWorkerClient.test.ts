@@ -0,0 +1,109 @@
+import { createLandmarkWorkerClient, type LandmarkWorkerLike } from '@/lib/mediapipe/landmarkWorkerClient';
+import type { LandmarkWorkerRequest, LandmarkWorkerResponse } from '@/lib/mediapipe/workerProtocol';
+
+const TASKS = { hands: true, pose: false, face: false };
+
+function createFakeWorker() {
+  const posted: Array<{ message: LandmarkWorkerRequest; transfer?: Transferable[] }> = [];
+  const worker: LandmarkWorkerLike & { reply: (message: LandmarkWorkerResponse) => void } = {
+    onmessage: null,
+    onerror: null,
+    postMessage: (message, transfer) => posted.push({ message, transfer }),
+    terminate: jest.fn(),
+    reply(message) {
+      worker.onmessage?.({ data: message } as MessageEvent<LandmarkWorkerResponse>);
+    },
+  };
+  return { worker, posted };
+}
+
+const fakeBitmap = () => ({ close: jest.fn() }) as unknown as ImageBitmap;
+
+const result = (frameId: number): LandmarkWorkerResponse => ({
+  type: 'result',
+  frameId,
+  timestamp: frameId * 16,
+  hands: [],
+  pose: null,
+  face: null,
+  inferenceMs: 5,
+});
+
+describe('createLandmarkWorkerClient', () => {
+  it('configures the worker on creation', () => {
+    const { worker, posted } = createFakeWorker();
+    createLandmarkWorkerClient(worker, { config: { numHands: 1 }, onResult: jest.fn() });
+    expect(posted[0]!.message).toEqual({ type: 'configure', config: { numHands: 1 } });
+  });
+
+  it('transfers frames and refuses new ones while a frame is in flight', () => {
+    const { worker, posted } = createFakeWorker();
+    const onResult = jest.fn();
+    const client = createLandmarkWorkerClient(worker, { onResult });
+
+    const first = fakeBitmap();
+    expect(client.submit(first, 0, TASKS)).toBe(true);
+    expect(posted[1]!.transfer).toEqual([first]);
+    expect(client.isBusy()).toBe(true);
+
+    const stale = fakeBitmap();
+    expect(client.submit(stale, 16, TASKS)).toBe(false);
+    expect(stale.close).toHaveBeenCalled();
+
+    worker.reply(result(1));
+    expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ frameId: 1, inferenceMs: 5 }));
+    expect(onResult.mock.calls[0][0]).not.toHaveProperty('type');
+    expect(client.isBusy()).toBe(false);
+    expect(client.getStats()).toEqual({ submitted: 1, completed: 1, dropped: 1 });
+  });
+
+  it('frees the slot when the worker drops or fails a frame', () => {
+    const { worker } = createFakeWorker();
+    const onError = jest.fn();
+    const client = createLandmarkWorkerClient(worker, { onResult: jest.fn(), onError });
+
+    client.submit(fakeBitmap(), 0, TASKS);
+    worker.reply({ type: 'dropped', frameId: 1 });
+    expect(client.isBusy()).toBe(false);
+
+    client.submit(fakeBitmap(), 16, TASKS);
+    worker.reply({ type: 'error', task: 'frame', message: 'boom', frameId: 2 });
+    expect(client.isBusy()).toBe(false);
+    expect(onError).toHaveBeenCalledWith({ task: 'frame', message: 'boom', frameId: 2 });
+    expect(client.getStats().dropped).toBe(1);
+  });
+
+  it('allows more frames in flight when maxInFlight is raised', () => {
+    const { worker } = createFakeWorker();
+    const client = createLandmarkWorkerClient(worker, { onResult: jest.fn(), maxInFlight: 2 });
+    expect(client.submit(fakeBitmap(), 0, TASKS)).toBe(true);
+    expect(client.submit(fakeBitmap(), 16, TASKS)).toBe(true);
+    expect(client.submit(fakeBitmap(), 32, TASKS)).toBe(false);
+  });
+
+  it('resolves load on ready and rejects with the worker error', async () => {
+    const { worker, posted } = createFakeWorker();
+    const client = createLandmarkWorkerClient(worker, { onResult: jest.fn() });
+
+    const hands = client.load('hands');
+    const handsAgain = client.load('hands');
+    expect(posted.filter((p) => p.message.type === 'load')).toHaveLength(1);
+    worker.reply({ type: 'ready', task: 'hands' });
+    await expect(Promise.all([hands, handsAgain])).resolves.toEqual([undefined, undefined]);
+
+    const face = client.load('face');
+    worker.reply({ type: 'error', task: 'face', message: 'MediaPipe asset not found: /mediapipe/models/face_landmarker.task' });
+    await expect(face).rejects.toThrow('face_landmarker.task');
+  });
+
+  it('terminates the worker and refuses frames after close', async () => {
+    const { worker } = createFakeWorker();
+    const client = createLandmarkWorkerClient(worker, { onResult: jest.fn() });
+    const pending = client.load('pose');
+
+    client.close();
+    expect(worker.terminate).toHaveBeenCalled();
+    await expect(pending).rejects.toThrow('closed');
+    expect(client.submit(fakeBitmap(), 0, TASKS)).toBe(false);
+  });
+});
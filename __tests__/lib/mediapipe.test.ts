@@ -0,0 +1,105 @@
+import type { HandLandmarkerResult, PoseLandmarkerResult } from '@mediapipe/tasks-vision';
+import {
+  createVideoTimestamper,
+  ensureAssetAvailable,
+  getVisionAssetUrls,
+  MediaPipeAssetError,
+  processHandsResults,
+  processPoseResults,
+} from '@/lib/mediapipe';
+
+describe('getVisionAssetUrls', () => {
+  it('defaults to the vendored public/mediapipe folder', () => {
+    const urls = getVisionAssetUrls();
+    expect(urls.wasm).toBe('/mediapipe/wasm');
+    expect(urls.models.hand).toBe('/mediapipe/models/hand_landmarker.task');
+  });
+
+  it('accepts a custom base URL with or without a trailing slash', () => {
+    expect(getVisionAssetUrls('http://10.0.0.5:8080/assets/').models.face).toBe(
+      'http://10.0.0.5:8080/assets/models/face_landmarker.task'
+    );
+  });
+});
+
+describe('ensureAssetAvailable', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('resolves when the asset is served', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    await expect(ensureAssetAvailable('/mediapipe/models/ok.task')).resolves.toBeUndefined();
+    expect(global.fetch).toHaveBeenCalledWith('/mediapipe/models/ok.task', { method: 'HEAD' });
+  });
+
+  it('rejects with a MediaPipeAssetError naming the missing file', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404 });
+    const check = ensureAssetAvailable('/mediapipe/models/missing.task');
+    await expect(check).rejects.toBeInstanceOf(MediaPipeAssetError);
+    await expect(check).rejects.toThrow('/mediapipe/models/missing.task (HTTP 404)');
+  });
+
+  it('treats network failures as missing and does not cache failures', async () => {
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(ensureAssetAvailable('/offline.task')).rejects.toMatchObject({ status: null });
+
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    await expect(ensureAssetAvailable('/offline.task')).resolves.toBeUndefined();
+  });
+});
+
+describe('createVideoTimestamper', () => {
+  it('passes increasing timestamps through unchanged', () => {
+    const next = createVideoTimestamper();
+    expect(next(10)).toBe(10);
+    expect(next(25.5)).toBe(25.5);
+  });
+
+  it('never repeats or goes backwards', () => {
+    const next = createVideoTimestamper();
+    expect(next(100)).toBe(100);
+    expect(next(100)).toBe(101);
+    expect(next(50)).toBe(102);
+    expect(next(200)).toBe(200);
+  });
+});
+
+describe('processHandsResults', () => {
+  it('returns an empty list when nothing was detected', () => {
+    expect(processHandsResults(null)).toEqual([]);
+    expect(processHandsResults({ landmarks: [], worldLandmarks: [], handedness: [], handednesses: [] })).toEqual([]);
+  });
+
+  it('maps landmarks and the top handedness category', () => {
+    const result = {
+      landmarks: [[{ x: 0.1, y: 0.2, z: 0.3, visibility: 0 }]],
+      worldLandmarks: [],
+      handedness: [[{ score: 0.9, index: 0, categoryName: 'Left', displayName: 'Left' }]],
+      handednesses: [],
+    } as HandLandmarkerResult;
+
+    expect(processHandsResults(result)).toEqual([
+      { landmarks: [{ x: 0.1, y: 0.2, z: 0.3 }], handedness: [{ score: 0.9, categoryName: 'Left' }] },
+    ]);
+  });
+});
+
+describe('processPoseResults', () => {
+  it('uses the first detected pose', () => {
+    const result = {
+      landmarks: [[{ x: 0.5, y: 0.5, z: 0, visibility: 0.8 }]],
+      worldLandmarks: [],
+      close: () => {},
+    } as unknown as PoseLandmarkerResult;
+
+    const pose = processPoseResults(result);
+    expect(pose?.poseLandmarks[0]).toMatchObject({ x: 0.5, y: 0.5, visibility: 0.8 });
+  });
+
+  it('returns null without a pose', () => {
+    expect(processPoseResults(null)).toBeNull();
+  });
+});
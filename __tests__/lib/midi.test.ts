@@ -0,0 +1,98 @@
+import {
+  createMidiInputListener,
+  encodeControlChange,
+  encodeNoteOff,
+  encodeNoteOn,
+  encodePitchBend,
+  parseMidiMessage,
+} from '@/lib/midi';
+
+/** Minimal MIDIInput: tests dispatch messages by hand. */
+function fakeInput(id: string) {
+  const handlers = new Set<(event: { data: Uint8Array }) => void>();
+  return {
+    id,
+    name: `Device ${id}`,
+    state: 'connected',
+    addEventListener: (_type: string, handler: (event: { data: Uint8Array }) => void) => handlers.add(handler),
+    removeEventListener: (_type: string, handler: (event: { data: Uint8Array }) => void) => handlers.delete(handler),
+    emit: (...data: number[]) => handlers.forEach((handler) => handler({ data: Uint8Array.from(data) })),
+    listenerCount: () => handlers.size,
+  };
+}
+
+function fakeAccess(...inputs: ReturnType<typeof fakeInput>[]) {
+  return {
+    inputs: new Map(inputs.map((input) => [input.id, input])),
+    onstatechange: null as (() => void) | null,
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('midi', () => {
+  it('parses control change and note messages', () => {
+    expect(parseMidiMessage([0xb0, 7, 100])).toEqual({ type: 'cc', channel: 1, number: 7, value: 100 });
+    expect(parseMidiMessage([0x9f, 60, 64])).toEqual({ type: 'note', channel: 16, number: 60, value: 64 });
+    expect(parseMidiMessage([0x82, 60, 64])).toEqual({ type: 'note', channel: 3, number: 60, value: 0 });
+    // Pitch bend, clock and short messages are ignored
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull();
+    expect(parseMidiMessage([0xf8])).toBeNull();
+  });
+
+  it('encodes channel messages', () => {
+    expect(encodeNoteOn(16, 60, 100)).toEqual([0x9f, 60, 100]);
+    // Velocity 0 would be a note off
+    expect(encodeNoteOn(1, 60, 0)).toEqual([0x90, 60, 1]);
+    expect(encodeNoteOff(2, 60)).toEqual([0x81, 60, 0]);
+    expect(encodeControlChange(1, 7, 200)).toEqual([0xb0, 7, 127]);
+    expect(encodePitchBend(1, 0)).toEqual([0xe0, 0, 64]);
+    expect(encodePitchBend(1, -1)).toEqual([0xe0, 0, 0]);
+    expect(encodePitchBend(1, 1)).toEqual([0xe0, 0x7f, 0x7f]);
+  });
+
+  it('listens to every input, including hot-plugged ones', async () => {
+    const first = fakeInput('1');
+    const access = fakeAccess(first);
+    const onMessage = jest.fn();
+    const onInputsChange = jest.fn();
+    const onStatusChange = jest.fn();
+    const listener = createMidiInputListener(onMessage, {
+      onStatusChange,
+      onInputsChange,
+      requestAccess: () => Promise.resolve(access as unknown as MIDIAccess),
+    });
+
+    listener.start();
+    expect(listener.getStatus()).toBe('pending');
+    await flush();
+    expect(listener.getStatus()).toBe('ready');
+    expect(onInputsChange).toHaveBeenLastCalledWith(['Device 1']);
+
+    first.emit(0xb0, 7, 127);
+    first.emit(0xf8);
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith({ type: 'cc', channel: 1, number: 7, value: 127 }, 'Device 1');
+
+    const second = fakeInput('2');
+    access.inputs.set('2', second);
+    access.onstatechange?.();
+    expect(listener.getInputNames()).toEqual(['Device 1', 'Device 2']);
+    // Re-syncing doesn't attach twice
+    expect(first.listenerCount()).toBe(1);
+
+    listener.stop();
+    expect(first.listenerCount()).toBe(0);
+    expect(second.listenerCount()).toBe(0);
+    expect(onStatusChange).toHaveBeenLastCalledWith('idle');
+  });
+
+  it('reports denied access', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = createMidiInputListener(jest.fn(), { requestAccess: () => Promise.reject(new Error('nope')) });
+    listener.start();
+    await flush();
+    expect(listener.getStatus()).toBe('denied');
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,157 @@
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import { EMPTY_TRACKING_FRAME } from '@/components/hand-tracking/trackingSources';
+import { createMidiOutputPort, encodeNoteOff, encodeNoteOn, encodePitchBend } from '@/lib/midi';
+import {
+  DEFAULT_MIDI_OUTPUT_SETTINGS,
+  buildFinalVectorMidiMessages,
+  createMidiOutputEngine,
+  formatMidiNote,
+  getPinchNote,
+  getPinchVelocity,
+  normalizeMidiOutputSettings,
+  quantizeToScale,
+  type MidiOutputSettings,
+} from '@/lib/midiOutput';
+
+/** A hand with fingertips at height `y`, thumb and index tips `gap` apart around camera x `x`. */
+function mkHand(handedness: Hand3DData['handedness'], gap: number, x = 0.5, y = 0.5): Hand3DData {
+  const landmarks = Array.from({ length: 21 }, () => ({ x, y, z: 0 }));
+  landmarks[4] = { x: x - gap / 2, y, z: 0 };
+  landmarks[8] = { x: x + gap / 2, y, z: 0 };
+  return { landmarks, handedness };
+}
+
+const frameOf = (...hands: Hand3DData[]) => ({ ...EMPTY_TRACKING_FRAME, hands });
+
+const notesOnly: MidiOutputSettings = { ...DEFAULT_MIDI_OUTPUT_SETTINGS, fingertipCc: false, scale: 'chromatic' };
+
+const vector = { startX: 0, startY: 0, endX: 0, endY: -0.25, dx: 0, dy: -1, magnitude: 0.25, duration: 200 };
+
+/** MIDIAccess with one output whose `send` is a mock. */
+function fakeAccess(name: string) {
+  const output = { id: name, name, state: 'connected', send: jest.fn() };
+  return { output, access: { outputs: new Map([[name, output]]), onstatechange: null } as unknown as MIDIAccess };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('midiOutput', () => {
+  it('quantizes notes to the nearest scale note', () => {
+    expect(quantizeToScale(61, 60, 'major')).toBe(60);
+    expect(quantizeToScale(66, 60, 'major')).toBe(65);
+    expect(quantizeToScale(63, 60, 'pentatonicMinor')).toBe(63);
+    expect(quantizeToScale(61.6, 60, 'chromatic')).toBe(62);
+    // Works in any octave, including below the root
+    expect(quantizeToScale(49, 60, 'major')).toBe(48);
+  });
+
+  it('maps the pinch position across the configured octaves', () => {
+    const settings = { ...DEFAULT_MIDI_OUTPUT_SETTINGS, rootNote: 48, octaves: 2, scale: 'major' as const };
+    expect(getPinchNote(0, settings)).toBe(48);
+    expect(getPinchNote(1, settings)).toBe(72);
+    expect(getPinchNote(0.5, settings)).toBe(60);
+    expect(getPinchNote(2, { ...settings, rootNote: 120 })).toBe(127);
+    expect(formatMidiNote(48)).toBe('C3');
+    expect(formatMidiNote(61)).toBe('C#4');
+  });
+
+  it('scales velocity with pinch speed', () => {
+    expect(getPinchVelocity(0)).toBe(1);
+    expect(getPinchVelocity(10)).toBe(127);
+    expect(getPinchVelocity(0.75)).toBe(64);
+  });
+
+  it('normalizes stored settings', () => {
+    expect(normalizeMidiOutputSettings(null)).toEqual(DEFAULT_MIDI_OUTPUT_SETTINGS);
+    const normalized = normalizeMidiOutputSettings({ leftChannel: 20, scale: 'lydian', octaves: 2.4, rateHz: 0, enabled: true });
+    expect(normalized).toMatchObject({ leftChannel: 16, scale: 'pentatonicMinor', octaves: 2, rateHz: 1, enabled: true });
+  });
+
+  describe('createMidiOutputEngine', () => {
+    it('plays a note per pinch with velocity from the closing speed', () => {
+      const engine = createMidiOutputEngine();
+      expect(engine.processFrame(frameOf(mkHand('Left', 0.2)), notesOnly, 0)).toEqual([]);
+
+      // Closed 0.17 in 50ms: 3.4 widths/s is full velocity; mirrored x 0.25 → a quarter of two octaves up
+      const on = engine.processFrame(frameOf(mkHand('Left', 0.03, 0.75)), notesOnly, 50);
+      expect(on).toEqual([encodeNoteOn(1, 54, 127)]);
+
+      // Jitter around the threshold doesn't retrigger
+      expect(engine.processFrame(frameOf(mkHand('Left', 0.06, 0.75)), notesOnly, 66)).toEqual([]);
+      expect(engine.processFrame(frameOf(mkHand('Left', 0.03, 0.75)), notesOnly, 83)).toEqual([]);
+
+      expect(engine.processFrame(frameOf(mkHand('Left', 0.2, 0.1)), notesOnly, 100)).toEqual([encodeNoteOff(1, 54)]);
+
+      // A slow pinch is quiet
+      engine.processFrame(frameOf(mkHand('Left', 0.05)), notesOnly, 1000);
+      const [soft] = engine.processFrame(frameOf(mkHand('Left', 0.045)), notesOnly, 1100);
+      expect(soft[2]).toBeLessThan(10);
+    });
+
+    it('uses per-hand channels and releases notes of hands that leave', () => {
+      const engine = createMidiOutputEngine();
+      const settings = { ...notesOnly, leftChannel: 3, rightChannel: 4 };
+      engine.processFrame(frameOf(mkHand('Left', 0.2), mkHand('Right', 0.2)), settings, 0);
+      const on = engine.processFrame(frameOf(mkHand('Left', 0.01, 1), mkHand('Right', 0.01, 0)), settings, 50);
+      expect(on).toEqual([encodeNoteOn(3, 48, 127), encodeNoteOn(4, 72, 127)]);
+
+      expect(engine.processFrame(frameOf(mkHand('Right', 0.01, 0)), settings, 100)).toEqual([encodeNoteOff(3, 48)]);
+      expect(engine.reset()).toEqual([encodeNoteOff(4, 72)]);
+    });
+
+    it('sends fingertip heights as CCs when they change, at most rateHz times per second', () => {
+      const engine = createMidiOutputEngine();
+      const settings = { ...DEFAULT_MIDI_OUTPUT_SETTINGS, pinchNotes: false, fingertipCcBase: 20, rateHz: 10 };
+      const first = engine.processFrame(frameOf(mkHand('Right', 0.2, 0.5, 0.25)), settings, 0);
+      expect(first).toHaveLength(5);
+      expect(first[0]).toEqual([0xb1, 20, 95]);
+      expect(first[4]).toEqual([0xb1, 24, 95]);
+
+      // Too soon, then unchanged
+      expect(engine.processFrame(frameOf(mkHand('Right', 0.2, 0.5, 0)), settings, 50)).toEqual([]);
+      expect(engine.processFrame(frameOf(mkHand('Right', 0.2, 0.5, 0.25)), settings, 100)).toEqual([]);
+      expect(engine.processFrame(frameOf(mkHand('Right', 0.2, 0.5, 0)), settings, 200)).toContainEqual([0xb1, 20, 127]);
+    });
+
+    it('bends on pinch vectors and recenters on the next note', () => {
+      const engine = createMidiOutputEngine();
+      expect(engine.processFinalVector(vector, notesOnly)).toEqual([encodePitchBend(1, 0.5)]);
+
+      engine.processFrame(frameOf(mkHand('Left', 0.2, 1)), notesOnly, 0);
+      expect(engine.processFrame(frameOf(mkHand('Left', 0.01, 1)), notesOnly, 50)).toEqual([
+        encodePitchBend(1, 0),
+        encodeNoteOn(1, 48, 127),
+      ]);
+    });
+  });
+
+  it('maps pinch vectors to pitch bend or CCs', () => {
+    expect(encodePitchBend(1, 0.5)).toEqual([0xe0, 0, 96]);
+    const [length, direction] = buildFinalVectorMidiMessages(vector, { ...notesOnly, vector: 'cc', vectorCcBase: 30 });
+    expect(length).toEqual([0xb0, 30, 64]);
+    // Straight up is a quarter turn from the +x axis: 0.75 of the way around from -π
+    expect(direction).toEqual([0xb0, 31, 95]);
+    expect(buildFinalVectorMidiMessages(vector, { ...notesOnly, vector: 'off' })).toEqual([]);
+  });
+
+  it('sends to a mocked Web MIDI output', async () => {
+    const { output, access } = fakeAccess('Synth');
+    const onOutputsChange = jest.fn();
+    const port = createMidiOutputPort({ onOutputsChange, requestAccess: () => Promise.resolve(access) });
+    const engine = createMidiOutputEngine();
+    port.start();
+    expect(port.send([encodeNoteOn(1, 60, 100)], '')).toBe(false);
+    await flush();
+    expect(port.getStatus()).toBe('ready');
+    expect(onOutputsChange).toHaveBeenLastCalledWith(['Synth']);
+
+    engine.processFrame(frameOf(mkHand('Left', 0.2, 1)), notesOnly, 0);
+    expect(port.send(engine.processFrame(frameOf(mkHand('Left', 0.01, 1)), notesOnly, 50), 'Synth')).toBe(true);
+    expect(port.send(engine.reset(), '')).toBe(true);
+    expect(port.send([encodeNoteOn(1, 60, 100)], 'Other')).toBe(false);
+    expect(output.send.mock.calls).toEqual([[encodeNoteOn(1, 48, 127)], [encodeNoteOff(1, 48)]]);
+
+    port.stop();
+    expect(port.send([encodeNoteOn(1, 60, 100)], '')).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import { createLandmarkRecorder } from '@/components/hand-tracking/landmarkRecording';
+import { DEFAULT_LANDMARK_FILTER_SETTINGS } from '@/components/hand-tracking/landmarkFilter';
+import { createModulationMapping } from '@/components/hand-tracking/modulation';
+import {
+  DEFAULT_OFFLINE_RENDER_SETTINGS,
+  createOfflineFramePipeline,
+  formatFrameFileName,
+  getOfflineFrameCount,
+  getOfflineFrameTime,
+  normalizeOfflineRenderSettings,
+} from '@/lib/offlineRender';
+
+function mkHand(y: number): Hand3DData {
+  return {
+    landmarks: Array.from({ length: 21 }, (_, i) => ({ x: 0.5 + i / 100, y, z: 0 })),
+    handedness: 'Right',
+  };
+}
+
+// One second of a hand rising at ~30 fps, with slightly uneven timestamps
+function recordRisingHand() {
+  const recorder = createLandmarkRecorder();
+  recorder.start(0);
+  for (let i = 0; i <= 30; i++) {
+    recorder.addFrame(
+      { hands: [mkHand(0.9 - i * 0.02)], pinchVector: null, rightHandDistance: null, pose: null },
+      i * 33 + (i % 3)
+    );
+  }
+  return recorder.stop()!;
+}
+
+describe('offline render timing', () => {
+  it('covers the recording on a fixed timestep', () => {
+    expect(getOfflineFrameCount(1000, 30)).toBe(31);
+    expect(getOfflineFrameCount(990, 60)).toBe(60);
+    expect(getOfflineFrameCount(0, 24)).toBe(1);
+    expect(getOfflineFrameTime(3, 60)).toBeCloseTo(50);
+  });
+
+  it('names frames so they sort in order', () => {
+    expect(formatFrameFileName(7, 300)).toBe('frame_0007.png');
+    expect(formatFrameFileName(12, 20_000)).toBe('frame_00012.png');
+  });
+
+  it('repairs stored settings', () => {
+    expect(normalizeOfflineRenderSettings(null)).toEqual(DEFAULT_OFFLINE_RENDER_SETTINGS);
+    expect(normalizeOfflineRenderSettings({ format: 'webm', fps: 25, size: 'vertical', seed: -1 })).toEqual({
+      ...DEFAULT_OFFLINE_RENDER_SETTINGS,
+      format: 'webm',
+      size: 'vertical',
+    });
+  });
+});
+
+describe('createOfflineFramePipeline', () => {
+  const recording = recordRisingHand();
+  const mapping = createModulationMapping('orbitStrength', { signal: 'handHeight', smoothingMs: 200 });
+
+  const renderAll = (fps: number) => {
+    const pipeline = createOfflineFramePipeline({
+      recording,
+      fps,
+      filter: DEFAULT_LANDMARK_FILTER_SETTINGS,
+      modulations: [mapping],
+    });
+    return Array.from({ length: getOfflineFrameCount(recording.durationMs, fps) }, (_, i) => pipeline.frameAt(i));
+  };
+
+  it('produces identical frames on every run', () => {
+    expect(renderAll(60)).toEqual(renderAll(60));
+  });
+
+  it('stamps frames with render time and samples the latest recorded frame', () => {
+    const frames = renderAll(60);
+    expect(frames[3]!.frame.timestamp).toBeCloseTo(50);
+    // Recorded frames advance every ~33 ms, so consecutive 60 fps frames repeat hands
+    expect(frames[1]!.frame.hands).toBe(frames[0]!.frame.hands);
+    expect(frames[0]!.frame.hands[0]!.id).toBeDefined();
+    expect(frames[0]!.frame.hands[0]!.velocities).toBeDefined();
+  });
+
+  it('smooths modulation on the render clock', () => {
+    const frames = renderAll(30);
+    const values = frames.map((f) => f.modulation.orbitStrength!);
+    // Hand rises steadily: smoothed value keeps increasing and lags behind the raw height
+    for (let i = 2; i < values.length; i++) expect(values[i]!).toBeGreaterThan(values[i - 1]!);
+    expect(values[values.length - 1]!).toBeLessThan(0.9);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  decodeOscPacket,
+  encodeOscBundle,
+  encodeOscMessage,
+  isValidOscAddress,
+  toOscTimetag,
+} from '@/lib/osc';
+
+const bytes = (...parts: Array<string | number[]>) =>
+  Uint8Array.from(parts.flatMap((part) => (typeof part === 'string' ? Array.from(part, (c) => c.charCodeAt(0)) : part)));
+
+describe('osc', () => {
+  describe('encodeOscMessage', () => {
+    it('pads the address and type tags to 4 bytes and encodes floats big-endian', () => {
+      expect(encodeOscMessage({ address: '/a', args: [1] })).toEqual(
+        bytes('/a', [0, 0], ',f', [0, 0], [0x3f, 0x80, 0, 0])
+      );
+      // A string whose length is a multiple of 4 still gets a full word of padding
+      expect(encodeOscMessage({ address: '/abc', args: [] })).toEqual(bytes('/abc', [0, 0, 0, 0], ',', [0, 0, 0]));
+    });
+
+    it('encodes ints, strings and blobs', () => {
+      const encoded = encodeOscMessage({
+        address: '/hand/gesture/fist',
+        args: [{ type: 'i', value: -2 }, 'start', Uint8Array.from([1, 2, 3])],
+      });
+      expect(encoded).toEqual(
+        bytes(
+          '/hand/gesture/fist', [0, 0],
+          ',isb', [0, 0, 0, 0],
+          [0xff, 0xff, 0xff, 0xfe],
+          'start', [0, 0, 0],
+          [0, 0, 0, 3, 1, 2, 3, 0]
+        )
+      );
+      expect(encoded.length % 4).toBe(0);
+    });
+
+    it('rejects invalid addresses and non-finite numbers', () => {
+      expect(() => encodeOscMessage({ address: 'hand', args: [] })).toThrow('Invalid OSC address');
+      expect(() => encodeOscMessage({ address: '/hand/*', args: [] })).toThrow('Invalid OSC address');
+      expect(() => encodeOscMessage({ address: '/hand', args: [NaN] })).toThrow('Invalid OSC f argument');
+    });
+  });
+
+  describe('encodeOscBundle', () => {
+    it('writes the header, timetag and size-prefixed elements', () => {
+      const message = { address: '/a', args: [1] };
+      const encoded = encodeOscBundle({ elements: [message, message] });
+      const element = encodeOscMessage(message);
+      expect(encoded.subarray(0, 16)).toEqual(bytes('#bundle', [0], [0, 0, 0, 0, 0, 0, 0, 1]));
+      expect(encoded.subarray(16, 20)).toEqual(Uint8Array.from([0, 0, 0, element.length]));
+      expect(encoded.subarray(20, 20 + element.length)).toEqual(element);
+      expect(encoded.length).toBe(16 + 2 * (4 + element.length));
+    });
+
+    it('nests bundles', () => {
+      const inner = encodeOscBundle({ elements: [{ address: '/a', args: [] }] });
+      const outer = encodeOscBundle({ elements: [{ elements: [{ address: '/a', args: [] }] }] });
+      expect(outer.subarray(20)).toEqual(inner);
+    });
+  });
+
+  describe('decodeOscPacket', () => {
+    it('decodes what encodeOscMessage writes', () => {
+      const encoded = encodeOscMessage({
+        address: '/fader/1',
+        args: [0.5, { type: 'i', value: -2 }, 'go', Uint8Array.from([1, 2, 3])],
+      });
+      expect(decodeOscPacket(encoded)).toEqual([
+        { address: '/fader/1', args: [0.5, { type: 'i', value: -2 }, 'go', Uint8Array.from([1, 2, 3])] },
+      ]);
+    });
+
+    it('flattens nested bundles', () => {
+      const encoded = encodeOscBundle({
+        elements: [{ address: '/a', args: [1] }, { elements: [{ address: '/b', args: [] }] }],
+      });
+      expect(decodeOscPacket(encoded).map((m) => m.address)).toEqual(['/a', '/b']);
+    });
+
+    it('maps T/F to ints and skips argument-less tags', () => {
+      const encoded = bytes('/t', [0, 0], ',TNF', [0, 0, 0, 0]);
+      expect(decodeOscPacket(encoded)).toEqual([
+        { address: '/t', args: [{ type: 'i', value: 1 }, { type: 'i', value: 0 }] },
+      ]);
+    });
+
+    it('rejects truncated packets', () => {
+      const encoded = encodeOscMessage({ address: '/a', args: [1] });
+      expect(() => decodeOscPacket(encoded.subarray(0, encoded.length - 2))).toThrow('Truncated OSC packet');
+    });
+  });
+
+  it('converts Unix ms to NTP timetags', () => {
+    expect(toOscTimetag(0)).toEqual({ seconds: 2208988800, fraction: 0 });
+    expect(toOscTimetag(1500)).toEqual({ seconds: 2208988801, fraction: 2 ** 31 });
+  });
+
+  it('validates addresses', () => {
+    expect(isValidOscAddress('/hand/left/landmark/8')).toBe(true);
+    expect(isValidOscAddress('/')).toBe(false);
+    expect(isValidOscAddress('/hand left')).toBe(false);
+    expect(isValidOscAddress('/hand/[0]')).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import { EMPTY_TRACKING_FRAME } from '@/components/hand-tracking/trackingSources';
+import { encodeOscBundle } from '@/lib/osc';
+import {
+  DEFAULT_OSC_OUTPUT_SETTINGS,
+  buildFinalVectorOscMessage,
+  buildFrameOscMessages,
+  buildGestureOscMessage,
+  createOscBridgeClient,
+  normalizeOscOutputSettings,
+} from '@/lib/oscOutput';
+
+/** 21 landmarks with landmark i at (i/100, 0.5, -i/1000); thumb and index tips `pinch` apart. */
+function mkHand(handedness: Hand3DData['handedness'], id?: number, pinch = 0.2): Hand3DData {
+  const landmarks = Array.from({ length: 21 }, (_, i) => ({ x: i / 100, y: 0.5, z: -i / 1000 }));
+  landmarks[4] = { x: 0.3, y: 0.5, z: 0 };
+  landmarks[8] = { x: 0.3 + pinch, y: 0.5, z: 0 };
+  return { landmarks, handedness, id };
+}
+
+const settings = DEFAULT_OSC_OUTPUT_SETTINGS;
+
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  bufferedAmount = 0;
+  binaryType = 'blob';
+  sent: Uint8Array[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: Uint8Array) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+}
+
+describe('oscOutput', () => {
+  describe('buildFrameOscMessages', () => {
+    it('addresses landmarks and pinch state per hand', () => {
+      const frame = { ...EMPTY_TRACKING_FRAME, hands: [mkHand('Left', 3, 0.01), mkHand('Right', 4)] };
+      const messages = buildFrameOscMessages(frame, settings);
+      const byAddress = new Map(messages.map((m) => [m.address, m.args]));
+
+      expect(byAddress.get('/hand/count')).toEqual([{ type: 'i', value: 2 }]);
+      expect(byAddress.get('/hand/left/landmark/2')).toEqual([0.02, 0.5, -0.002]);
+      expect(byAddress.has('/hand/right/landmark/20')).toBe(true);
+      expect(byAddress.get('/hand/left/pinch')?.[0]).toEqual({ type: 'i', value: 1 });
+      expect(byAddress.get('/hand/right/pinch')?.[0]).toEqual({ type: 'i', value: 0 });
+      expect(byAddress.get('/hand/pinch/active')).toEqual([{ type: 'i', value: 0 }]);
+      expect(byAddress.has('/hand/pinch/vector')).toBe(false);
+      // 1 count + 2 × (21 landmarks + pinch) + pinch active
+      expect(messages).toHaveLength(1 + 2 * 22 + 1);
+    });
+
+    it('follows the configured prefix, hand key and landmark mode', () => {
+      const frame = {
+        ...EMPTY_TRACKING_FRAME,
+        hands: [mkHand('Left', 7)],
+        pinchVector: { x: 0.1, y: 0.2, dx: 1, dy: 0 },
+      };
+      const messages = buildFrameOscMessages(frame, { ...settings, prefix: '/td', handKey: 'id', landmarks: 'packed' });
+      expect(messages.map((m) => m.address)).toEqual(['/td/count', '/td/7/landmarks', '/td/7/pinch', '/td/pinch/active', '/td/pinch/vector']);
+      expect(messages[1].args).toHaveLength(63);
+      expect(messages[4].args).toEqual([0.1, 0.2, 1, 0]);
+
+      const minimal = buildFrameOscMessages(frame, { ...settings, landmarks: 'off', pinch: false });
+      expect(minimal.map((m) => m.address)).toEqual(['/hand/count']);
+    });
+  });
+
+  it('builds event messages', () => {
+    const vector = { startX: 0, startY: 0, endX: 1, endY: 0, dx: 1, dy: 0, magnitude: 1, duration: 250 };
+    expect(buildFinalVectorOscMessage(vector, settings)).toEqual({ address: '/hand/vector', args: [0, 0, 1, 0, 1, 0, 1, 250] });
+
+    const event = { gesture: 'fist' as const, phase: 'start' as const, handId: 2, handedness: 'Right' as const, confidence: 0.9, timestamp: 0, durationMs: 0 };
+    expect(buildGestureOscMessage(event, settings)).toEqual({ address: '/hand/gesture/fist', args: ['start', 'right', 0.9, 0] });
+    expect(buildGestureOscMessage(event, { ...settings, handKey: 'id' }).args[1]).toBe('2');
+    expect(buildGestureOscMessage({ ...event, gesture: 'twoHandSpread', handId: null, handedness: null }, settings).args[1]).toBe('both');
+  });
+
+  it('normalizes stored settings', () => {
+    expect(normalizeOscOutputSettings(null)).toEqual(DEFAULT_OSC_OUTPUT_SETTINGS);
+    expect(normalizeOscOutputSettings({ prefix: '/td/', rateHz: 500, landmarks: 'packed', enabled: true })).toEqual({
+      ...DEFAULT_OSC_OUTPUT_SETTINGS,
+      prefix: '/td',
+      rateHz: 120,
+      landmarks: 'packed',
+      enabled: true,
+    });
+    expect(normalizeOscOutputSettings({ prefix: 'no slash', handKey: 'x', landmarks: 'all' })).toEqual(DEFAULT_OSC_OUTPUT_SETTINGS);
+  });
+
+  describe('createOscBridgeClient', () => {
+    beforeAll(() => {
+      (globalThis as { WebSocket?: unknown }).WebSocket = FakeWebSocket;
+    });
+
+    beforeEach(() => {
+      FakeWebSocket.instances = [];
+    });
+
+    it('sends single messages bare and several as a bundle, only while connected', () => {
+      const client = createOscBridgeClient('ws://bridge');
+      client.start();
+      const socket = FakeWebSocket.instances[0];
+      const messages = [{ address: '/a', args: [1] }, { address: '/b', args: [2] }];
+      expect(client.send(messages)).toBe(false);
+
+      socket.open();
+      expect(socket.binaryType).toBe('arraybuffer');
+      expect(client.send(messages)).toBe(true);
+      expect(client.send([messages[0]])).toBe(true);
+      expect(socket.sent[0]).toEqual(encodeOscBundle({ elements: messages }));
+      expect(String.fromCharCode(socket.sent[1][0])).toBe('/');
+
+      // Drops packets while the socket is backed up
+      socket.bufferedAmount = 1024 * 1024;
+      expect(client.send(messages)).toBe(false);
+
+      client.stop();
+      expect(client.getStatus()).toBe('idle');
+    });
+
+    it('passes received OSC to subscribers and ignores anything else', () => {
+      const client = createOscBridgeClient('ws://bridge');
+      const listener = jest.fn();
+      const unsubscribe = client.subscribe(listener);
+      client.start();
+      const socket = FakeWebSocket.instances[0];
+      socket.open();
+
+      const packet = encodeOscBundle({ elements: [{ address: '/a', args: [1] }, { address: '/b', args: [] }] });
+      socket.onmessage?.({ data: packet.slice().buffer });
+      socket.onmessage?.({ data: 'text' });
+      socket.onmessage?.({ data: Uint8Array.from([0x2f, 0x61, 0, 0, 0x2c]).buffer });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toEqual([
+        { address: '/a', args: [1] },
+        { address: '/b', args: [] },
+      ]);
+
+      unsubscribe();
+      socket.onmessage?.({ data: packet.slice().buffer });
+      expect(listener).toHaveBeenCalledTimes(1);
+      client.stop();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  DEFAULT_PRESET_FILTER,
+  browsePresets,
+  filterPresets,
+  getAdjacentPreset,
+  getPresetTags,
+  normalizeTags,
+  sortPresets,
+} from '@/lib/presetBrowser';
+import type { SavedVisualConfig } from '@/lib/visualConfigStorage';
+
+const preset = (name: string, savedAt: number, extra: Partial<SavedVisualConfig> = {}): SavedVisualConfig => ({
+  id: name,
+  name,
+  visualId: 'viz6',
+  savedAt,
+  controls: {},
+  schemaVersion: 1,
+  ...extra,
+});
+
+const presets = [
+  preset('Night Sky', 3, { tags: ['calm', 'blue'] }),
+  preset('Solar Flare', 1, { tags: ['loud'], favorite: true }),
+  preset('Aurora', 2, { tags: ['calm'] }),
+];
+
+const names = (configs: SavedVisualConfig[]) => configs.map((c) => c.name);
+
+describe('presetBrowser', () => {
+  it('normalizes tag input', () => {
+    expect(normalizeTags(' Calm, blue ,,CALM, ')).toEqual(['calm', 'blue']);
+    expect(normalizeTags(['Intro', 'x'.repeat(40)])).toEqual(['intro', 'x'.repeat(32)]);
+  });
+
+  it('lists every tag once', () => {
+    expect(getPresetTags(presets)).toEqual(['blue', 'calm', 'loud']);
+  });
+
+  it('searches names and tags with every word', () => {
+    expect(names(filterPresets(presets, { ...DEFAULT_PRESET_FILTER, query: 'sky' }))).toEqual(['Night Sky']);
+    expect(names(filterPresets(presets, { ...DEFAULT_PRESET_FILTER, query: 'CALM' }))).toEqual(['Night Sky', 'Aurora']);
+    expect(names(filterPresets(presets, { ...DEFAULT_PRESET_FILTER, query: 'calm blue' }))).toEqual(['Night Sky']);
+  });
+
+  it('filters by tag and favourites', () => {
+    expect(names(filterPresets(presets, { ...DEFAULT_PRESET_FILTER, tag: 'calm' }))).toEqual(['Night Sky', 'Aurora']);
+    expect(names(filterPresets(presets, { ...DEFAULT_PRESET_FILTER, favoritesOnly: true }))).toEqual(['Solar Flare']);
+  });
+
+  it('sorts by date, name or favourites first', () => {
+    expect(names(sortPresets(presets, 'newest'))).toEqual(['Night Sky', 'Aurora', 'Solar Flare']);
+    expect(names(sortPresets(presets, 'oldest'))).toEqual(['Solar Flare', 'Aurora', 'Night Sky']);
+    expect(names(sortPresets(presets, 'name'))).toEqual(['Aurora', 'Night Sky', 'Solar Flare']);
+    expect(names(sortPresets(presets, 'favorites'))).toEqual(['Solar Flare', 'Night Sky', 'Aurora']);
+    expect(names(presets)).toEqual(['Night Sky', 'Solar Flare', 'Aurora']);
+  });
+
+  it('filters then sorts', () => {
+    expect(names(browsePresets(presets, { ...DEFAULT_PRESET_FILTER, tag: 'calm' }, 'name'))).toEqual([
+      'Aurora',
+      'Night Sky',
+    ]);
+  });
+
+  it('steps to the next or previous preset, favourites first', () => {
+    expect(getAdjacentPreset(presets, 'Solar Flare', 1)?.name).toBe('Night Sky');
+    expect(getAdjacentPreset(presets, 'aurora', 1)?.name).toBe('Solar Flare');
+    expect(getAdjacentPreset(presets, 'Solar Flare', -1)?.name).toBe('Aurora');
+    expect(getAdjacentPreset(presets, null, 1)?.name).toBe('Solar Flare');
+    expect(getAdjacentPreset(presets, 'Unknown', -1)?.name).toBe('Aurora');
+    expect(getAdjacentPreset([], null, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import {
+  PRESET_FILE_FORMAT,
+  PRESET_FILE_VERSION,
+  createPresetFile,
+  decodePresetParam,
+  encodePresetParam,
+  findPresetConflicts,
+  getPresetFileName,
+  getPresetLink,
+  getUniquePresetName,
+  importPresets,
+  parsePresetFile,
+  serializePresetFile,
+  type ExportedPreset,
+} from '@/lib/presetTransfer';
+import { loadSavedConfigs, saveVisualConfig } from '@/lib/visualConfigStorage';
+import { DEFAULT_CONSTELLATION_CONTROLS } from '@/components/hand-tracking/ConstellationVisual';
+import { createModulationMapping } from '@/components/hand-tracking/modulation';
+
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => {
+      store[key] = value.toString();
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+const preset = (name: string, starBrightness = 0.5): ExportedPreset => ({
+  name,
+  savedAt: 1,
+  schemaVersion: 1,
+  controls: { ...DEFAULT_CONSTELLATION_CONTROLS, starBrightness },
+});
+
+describe('presetTransfer', () => {
+  beforeEach(() => {
+    localStorageMock.clear();
+  });
+
+  describe('preset files', () => {
+    it('round-trips saved configs without their local ids', () => {
+      const mapping = createModulationMapping('starBrightness');
+      const saved = saveVisualConfig('viz6', 'Night Sky', DEFAULT_CONSTELLATION_CONTROLS, 1, [mapping]);
+      const file = createPresetFile('viz6', [saved], 42);
+
+      expect(file).toMatchObject({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, visualId: 'viz6', exportedAt: 42 });
+      expect(file.presets[0]).not.toHaveProperty('id');
+      expect(parsePresetFile(serializePresetFile(file), 'viz6')).toEqual(file);
+    });
+
+    it('names files after the preset or the visual', () => {
+      expect(getPresetFileName(createPresetFile('viz6', [{ ...preset('Night Sky!'), id: 'a', visualId: 'viz6' }]))).toBe(
+        'presets-viz6-night-sky.json'
+      );
+      expect(getPresetFileName(createPresetFile('viz6', []))).toBe('presets-viz6-all.json');
+    });
+
+    it('rejects other files, versions and visuals', () => {
+      expect(() => parsePresetFile('{')).toThrow('not valid JSON');
+      expect(() => parsePresetFile('{"format":"landmark-recording"}')).toThrow('not a preset file');
+      expect(() => parsePresetFile(JSON.stringify({ format: PRESET_FILE_FORMAT, version: 99 }))).toThrow(
+        'Unsupported preset file version: 99'
+      );
+      const file = serializePresetFile(createPresetFile('viz4', []));
+      expect(() => parsePresetFile(file, 'viz6')).toThrow('Presets are for viz4, not viz6');
+    });
+
+    it('drops entries without a name or controls', () => {
+      const file = { ...createPresetFile('viz6', []), presets: [preset('  Ok  '), { name: '' }, { name: 'x' }, null] };
+      expect(parsePresetFile(JSON.stringify(file)).presets).toEqual([{ ...preset('Ok') }]);
+    });
+  });
+
+  describe('importPresets', () => {
+    it('finds names already in use (case-insensitively)', () => {
+      saveVisualConfig('viz6', 'Night Sky', DEFAULT_CONSTELLATION_CONTROLS, 1);
+      expect(findPresetConflicts('viz6', [preset('night sky'), preset('Dawn')])).toEqual(['night sky']);
+    });
+
+    it('renames, overwrites or skips conflicting presets', () => {
+      saveVisualConfig('viz6', 'A', DEFAULT_CONSTELLATION_CONTROLS, 1);
+      saveVisualConfig('viz6', 'B', DEFAULT_CONSTELLATION_CONTROLS, 1);
+      saveVisualConfig('viz6', 'C', DEFAULT_CONSTELLATION_CONTROLS, 1);
+      const resolutions = { A: 'rename', B: 'overwrite', C: 'skip' } as const;
+
+      const result = importPresets('viz6', [preset('A', 0.2), preset('B', 0.3), preset('C', 0.4), preset('D', 0.6)], (p) =>
+        resolutions[p.name as keyof typeof resolutions]
+      );
+
+      expect(result.imported.map((c) => c.name)).toEqual(['A (2)', 'B', 'D']);
+      expect(result.renamed).toEqual([{ from: 'A', to: 'A (2)' }]);
+      expect(result.overwritten).toEqual(['B']);
+      expect(result.skipped).toEqual(['C']);
+
+      const stored = loadSavedConfigs('viz6');
+      expect(stored.map((c) => c.name).sort()).toEqual(['A', 'A (2)', 'B', 'C', 'D']);
+      expect(stored.find((c) => c.name === 'B')?.controls).toMatchObject({ starBrightness: 0.3 });
+    });
+
+    it('renames duplicates within one file', () => {
+      const result = importPresets('viz6', [preset('A'), preset('A')]);
+      expect(result.imported.map((c) => c.name)).toEqual(['A', 'A (2)']);
+    });
+
+    it('keeps tags but not favourites', () => {
+      const saved = saveVisualConfig('viz6', 'Night Sky', DEFAULT_CONSTELLATION_CONTROLS, 1);
+      const file = createPresetFile('viz6', [{ ...saved, tags: ['calm'], favorite: true }]);
+      expect(file.presets[0]).toMatchObject({ tags: ['calm'] });
+      expect(file.presets[0]).not.toHaveProperty('favorite');
+
+      const parsed = parsePresetFile(JSON.stringify({ ...file, presets: [{ ...preset('Dawn'), tags: [' Warm ', 3, 'warm'] }] }));
+      expect(parsed.presets[0]!.tags).toEqual(['warm']);
+      expect(importPresets('viz6', parsed.presets).imported[0]).toMatchObject({ name: 'Dawn', tags: ['warm'] });
+    });
+
+    it('picks the first free numbered name', () => {
+      expect(getUniquePresetName('A', [])).toBe('A');
+      expect(getUniquePresetName('A', ['a', 'A (2)'])).toBe('A (3)');
+    });
+  });
+
+  describe('preset links', () => {
+    it('round-trips only the controls that differ from the defaults', () => {
+      const mapping = createModulationMapping('starBrightness');
+      const controls = { ...DEFAULT_CONSTELLATION_CONTROLS, starBrightness: 0.33, palette: 'aurora' as const };
+      const param = encodePresetParam({ name: 'Nuit étoilée', controls, modulations: [mapping] }, DEFAULT_CONSTELLATION_CONTROLS);
+
+      expect(param).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodePresetParam(param)).toEqual({
+        name: 'Nuit étoilée',
+        controls: { starBrightness: 0.33, palette: 'aurora' },
+        modulations: [mapping],
+      });
+      expect(param.length).toBeLessThan(encodePresetParam({ controls }).length);
+    });
+
+    it('builds final view links', () => {
+      const link = getPresetLink('http://show.local', 'viz6', { controls: { starBrightness: 1 } });
+      expect(link).toMatch(/^http:\/\/show\.local\/viz6\/final_view\?preset=/);
+      const param = new URL(link).searchParams.get('preset')!;
+      expect(decodePresetParam(param).controls).toEqual({ starBrightness: 1 });
+    });
+
+    it('rejects malformed links', () => {
+      expect(() => decodePresetParam('not base64!')).toThrow('malformed');
+      expect(() => decodePresetParam(encodePresetParam({ controls: {} }).slice(0, 4))).toThrow('malformed');
+      const future = btoa(JSON.stringify({ v: 2, c: {} }));
+      expect(() => decodePresetParam(future)).toThrow('Unsupported preset link version: 2');
+    });
+  });
+});
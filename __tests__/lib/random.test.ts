@@ -0,0 +1,39 @@
+import { createRandom, deriveSeed, MAX_SEED, randomSeed } from '@/lib/random';
+
+const take = (seed: number, count: number) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(42, 20)).toEqual(take(42, 20));
+    expect(take(42, 20)).not.toEqual(take(43, 20));
+  });
+
+  it('returns numbers in [0, 1)', () => {
+    const values = take(7, 1000);
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+    // Roughly uniform
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    expect(mean).toBeGreaterThan(0.45);
+    expect(mean).toBeLessThan(0.55);
+  });
+});
+
+describe('deriveSeed', () => {
+  it('gives each named stream its own stable seed', () => {
+    expect(deriveSeed(1, 'stars')).toBe(deriveSeed(1, 'stars'));
+    expect(deriveSeed(1, 'stars')).not.toBe(deriveSeed(1, 'nebula-0'));
+    expect(deriveSeed(1, 'stars')).not.toBe(deriveSeed(2, 'stars'));
+  });
+
+  it('stays within 32 bits', () => {
+    const seed = deriveSeed(MAX_SEED, 'particles');
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(MAX_SEED);
+    expect(randomSeed()).toBeLessThanOrEqual(MAX_SEED);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import {
+  REMOTE_PROTOCOL_VERSION,
+  applyControlPatch,
+  createRemoteControlClient,
+  parseRemoteMessage,
+  type RemoteMessage,
+} from '@/lib/remoteControl';
+
+// Minimal WebSocket: tests open/close it by hand and inspect what was sent
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+  readyState = FakeWebSocket.CONNECTING;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+}
+
+const v = REMOTE_PROTOCOL_VERSION;
+
+describe('remoteControl', () => {
+  describe('parseRemoteMessage', () => {
+    it('accepts valid messages of the current version', () => {
+      expect(parseRemoteMessage({ v, type: 'controlPatch', visualId: 'viz6', patch: { speed: 2, palette: 'neon' } })).not.toBeNull();
+      expect(parseRemoteMessage({ v, type: 'status', visualId: 'viz6', controls: null, presets: ['A'], from: 'x' })).not.toBeNull();
+      expect(parseRemoteMessage({ v, type: 'peers', displays: 2, operators: 1 })).not.toBeNull();
+    });
+
+    it('rejects other versions, unknown types and bad shapes', () => {
+      expect(parseRemoteMessage({ v: v + 1, type: 'switchVisual', visualId: 'viz6' })).toBeNull();
+      expect(parseRemoteMessage({ type: 'switchVisual', visualId: 'viz6' })).toBeNull();
+      expect(parseRemoteMessage({ v, type: 'launchMissiles' })).toBeNull();
+      expect(parseRemoteMessage({ v, type: 'switchVisual', visualId: '' })).toBeNull();
+      expect(parseRemoteMessage({ v, type: 'controlPatch', visualId: 'viz6', patch: { speed: NaN } })).toBeNull();
+      expect(parseRemoteMessage({ v, type: 'controlPatch', visualId: 'viz6', patch: { nested: {} } })).toBeNull();
+      expect(parseRemoteMessage({ v, type: 'peers', displays: -1, operators: 0 })).toBeNull();
+      expect(parseRemoteMessage({ v, type: 'switchVisual', visualId: 'viz6', from: 3 })).toBeNull();
+      expect(parseRemoteMessage([])).toBeNull();
+    });
+  });
+
+  describe('applyControlPatch', () => {
+    const controls = { speed: 1, visible: true, palette: 'classic' };
+
+    it('takes known keys with matching types only', () => {
+      const next = applyControlPatch(controls, { speed: 2, visible: 'yes', unknown: 4 });
+      expect(next).toEqual({ speed: 2, visible: true, palette: 'classic' });
+      expect(controls.speed).toBe(1);
+    });
+
+    it('returns the same object when nothing changes or values are rejected', () => {
+      expect(applyControlPatch(controls, { speed: 1 })).toBe(controls);
+      expect(applyControlPatch(controls, { palette: 'bogus' }, (_key, value) => value !== 'bogus')).toBe(controls);
+    });
+  });
+
+  describe('createRemoteControlClient', () => {
+    beforeAll(() => {
+      (globalThis as { WebSocket?: unknown }).WebSocket = FakeWebSocket;
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      FakeWebSocket.instances = [];
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('says hello on open and delivers valid messages only', () => {
+      const statuses: string[] = [];
+      const client = createRemoteControlClient('ws://relay', 'display', { name: 'Projector', onStatusChange: (s) => statuses.push(s) });
+      const received: RemoteMessage[] = [];
+      client.subscribe((m) => received.push(m));
+      client.start();
+
+      const socket = FakeWebSocket.instances[0];
+      expect(client.send({ type: 'switchVisual', visualId: 'viz5' })).toBe(false);
+      socket.open();
+      expect(socket.sent).toEqual([{ v, type: 'hello', role: 'display', name: 'Projector' }]);
+      expect(statuses).toEqual(['connecting', 'open']);
+
+      socket.receive({ v, type: 'switchVisual', visualId: 'viz5', from: 'op' });
+      socket.receive({ v: v + 1, type: 'switchVisual', visualId: 'viz5' });
+      socket.receive('{not json');
+      expect(received).toEqual([{ v, type: 'switchVisual', visualId: 'viz5', from: 'op' }]);
+      client.stop();
+    });
+
+    it('reconnects with exponential backoff until stopped', () => {
+      const client = createRemoteControlClient('ws://relay', 'operator', { reconnectDelayMs: 100, maxReconnectDelayMs: 300 });
+      client.start();
+      FakeWebSocket.instances[0].close();
+      expect(client.getStatus()).toBe('closed');
+
+      jest.advanceTimersByTime(99);
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      jest.advanceTimersByTime(1);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+
+      FakeWebSocket.instances[1].close();
+      jest.advanceTimersByTime(200);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+
+      // Capped at maxReconnectDelayMs
+      FakeWebSocket.instances[2].close();
+      jest.advanceTimersByTime(300);
+      expect(FakeWebSocket.instances).toHaveLength(4);
+
+      client.stop();
+      expect(client.getStatus()).toBe('idle');
+      jest.advanceTimersByTime(10000);
+      expect(FakeWebSocket.instances).toHaveLength(4);
+    });
+
+    it('resets the backoff after a successful connection', () => {
+      const client = createRemoteControlClient('ws://relay', 'operator', { reconnectDelayMs: 100 });
+      client.start();
+      FakeWebSocket.instances[0].close();
+      jest.advanceTimersByTime(100);
+      FakeWebSocket.instances[1].open();
+      FakeWebSocket.instances[1].close();
+      jest.advanceTimersByTime(100);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+      client.stop();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { createMemoryStore } from '@/lib/appStorage';
+import { getStoredItems } from '@/lib/storageUsage';
+
+describe('getStoredItems', () => {
+  it('labels presets, templates and recordings and skips other entries', () => {
+    let time = 0;
+    const storage = createMemoryStore({ now: () => ++time });
+    storage.setItem('visual-config:viz6:b', JSON.stringify({ name: 'Dawn' }));
+    storage.setItem('visual-config:viz6:a', JSON.stringify({ name: 'Night Sky' }));
+    storage.setItem('visual-config-list:viz6', '["a","b"]');
+    storage.setItem('visual-gesture-templates:viz6', '[{},{}]');
+    storage.setItem('landmark-session:r1', '{}');
+    storage.setItem('landmark-session-list', JSON.stringify([{ id: 'r1', name: 'Warmup', visualId: 'viz4' }]));
+    storage.setItem('tracking-settings:body', 'true');
+
+    const groups = getStoredItems(storage);
+    expect(groups.map((g) => g.kind)).toEqual(['preset', 'gestureTemplates', 'recording']);
+    expect(groups[0]!.items.map((i) => [i.label, i.visualId])).toEqual([
+      ['Dawn', 'viz6'],
+      ['Night Sky', 'viz6'],
+    ]);
+    expect(groups[1]!.items[0]!.label).toBe('2 templates');
+    expect(groups[2]!.items).toEqual([
+      expect.objectContaining({ label: 'Warmup', visualId: 'viz4', evictable: true }),
+    ]);
+
+    // The id lists count towards their group
+    const presetBytes = groups[0]!.items.reduce((sum, i) => sum + i.bytes, 0);
+    expect(groups[0]!.totalBytes).toBeGreaterThan(presetBytes);
+  });
+
+  it('labels thumbnails by their preset', () => {
+    const storage = createMemoryStore();
+    storage.setItem('visual-config:viz6:a', JSON.stringify({ name: 'Night Sky' }));
+    storage.setItem('preset-thumbnail:viz6:a', 'data:image/jpeg;base64,AAA');
+
+    const thumbnails = getStoredItems(storage).find((g) => g.kind === 'thumbnail')!;
+    expect(thumbnails.items).toEqual([
+      expect.objectContaining({ label: 'Night Sky', visualId: 'viz6', evictable: true }),
+    ]);
+  });
+
+  it('does not count listing as use', () => {
+    let time = 0;
+    const storage = createMemoryStore({ now: () => ++time });
+    storage.setItem('visual-config:viz6:a', JSON.stringify({ name: 'A' }));
+    const before = getStoredItems(storage)[0]!.items[0]!.accessedAt;
+    expect(getStoredItems(storage)[0]!.items[0]!.accessedAt).toBe(before);
+  });
+});
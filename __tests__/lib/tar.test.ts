@@ -0,0 +1,52 @@
+import { createTarEntryParts, createTarHeader, createTarParts } from '@/lib/tar';
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const readString = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length))).replace(/\0.*$/, '');
+
+describe('tar', () => {
+  const data = new Uint8Array([1, 2, 3, 4, 5]);
+
+  it('writes a ustar header with size and a valid checksum', () => {
+    const header = createTarHeader({ name: 'render/frame_0000.png', data, mtime: 1_700_000_000_000 });
+    expect(header.length).toBe(512);
+    expect(readString(header, 0, 100)).toBe('render/frame_0000.png');
+    expect(parseInt(readString(header, 124, 12), 8)).toBe(5);
+    expect(readString(header, 257, 6)).toBe('ustar');
+
+    const stored = parseInt(readString(header, 148, 8), 8);
+    const withSpaces = Uint8Array.from(header);
+    withSpaces.fill(0x20, 148, 156);
+    expect(stored).toBe(withSpaces.reduce((sum, b) => sum + b, 0));
+  });
+
+  it('pads file data to 512-byte blocks and ends with two zero blocks', () => {
+    const archive = concat(createTarParts([{ name: 'a.png', data }, { name: 'b.png', data: new Uint8Array(512) }]));
+    // header + padded data, header + data, end blocks
+    expect(archive.length).toBe(512 * 2 + 512 * 2 + 512 * 2);
+    expect(Array.from(archive.subarray(512, 517))).toEqual([1, 2, 3, 4, 5]);
+    expect(readString(archive, 1024, 100)).toBe('b.png');
+    expect(archive.subarray(2048).every((b) => b === 0)).toBe(true);
+  });
+
+  it('sizes and pads Blob data without reading it', () => {
+    const blob = new Blob([new Uint8Array(600)]);
+    const [header, body, padding] = createTarEntryParts({ name: 'frame.png', data: blob });
+    expect(parseInt(readString(header as Uint8Array, 124, 12), 8)).toBe(600);
+    expect(body).toBe(blob);
+    expect((padding as Uint8Array).length).toBe(1024 - 600);
+  });
+
+  it('rejects names longer than the header allows', () => {
+    expect(() => createTarHeader({ name: 'x'.repeat(101), data })).toThrow(/too long/);
+  });
+});
@@ -7,11 +7,28 @@ import {
   loadSavedConfigs,
   loadSavedConfig,
   deleteSavedConfig,
+  updateSavedConfig,
+  duplicateSavedConfig,
+  saveConfigThumbnail,
+  loadConfigThumbnail,
   configNameExists,
+  saveGestureTemplate,
+  loadGestureTemplates,
+  deleteGestureTemplate,
+  deleteGestureTemplates,
+  gestureTemplateNameExists,
+  saveStoredRecording,
+  loadStoredRecordings,
+  loadStoredRecording,
+  deleteStoredRecording,
 } from '@/lib/visualConfigStorage';
+import { getAppStorage } from '@/lib/appStorage';
+import { createLandmarkRecorder } from '@/components/hand-tracking/landmarkRecording';
 import type { PrismHandControls } from '@/components/hand-tracking/PrismHandVisual';
 import type { OneLineHandControls } from '@/components/hand-tracking/OneLineHandVisual';
-import type { ConstellationControls } from '@/components/hand-tracking/ConstellationVisual';
+import { DEFAULT_CONSTELLATION_CONTROLS, type ConstellationControls } from '@/components/hand-tracking/ConstellationVisual';
+import { createModulationMapping } from '@/components/hand-tracking/modulation';
+import { createExternalControlMapping } from '@/lib/externalControl';
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -28,6 +45,10 @@ const localStorageMock = (() => {
     clear: () => {
       store = {};
     },
+    get length() {
+      return Object.keys(store).length;
+    },
+    key: (index: number) => Object.keys(store)[index] ?? null,
   };
 })();
 
@@ -52,7 +73,7 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      const saved = saveVisualConfig('viz4', 'Test Config', controls);
+      const saved = saveVisualConfig('viz4', 'Test Config', controls, 1);
 
       expect(saved.name).toBe('Test Config');
       expect(saved.visualId).toBe('viz4');
@@ -80,14 +101,37 @@ describe('visualConfigStorage', () => {
         loopTightness: 0.5,
       };
 
-      const saved1 = saveVisualConfig('viz4', 'Prism Config', prismControls);
-      const saved2 = saveVisualConfig('viz5', 'Line Config', oneLineControls);
+      const saved1 = saveVisualConfig('viz4', 'Prism Config', prismControls, 1);
+      const saved2 = saveVisualConfig('viz5', 'Line Config', oneLineControls, 1);
 
       expect(saved1.visualId).toBe('viz4');
       expect(saved2.visualId).toBe('viz5');
       expect(saved1.controls).toEqual(prismControls);
       expect(saved2.controls).toEqual(oneLineControls);
     });
+
+    it('saves the modulation matrix with the controls', () => {
+      const controls = { ...DEFAULT_CONSTELLATION_CONTROLS };
+      const modulations = [createModulationMapping('orbitStrength', { signal: 'handHeight', max: 4 })];
+
+      const saved = saveVisualConfig('viz6', 'Modulated', controls, 1, modulations);
+      expect(loadSavedConfig('viz6', saved.id)?.modulations).toEqual(modulations);
+      expect(saveVisualConfig('viz6', 'Plain', controls, 1).modulations).toBeUndefined();
+    });
+
+    it('saves MIDI/OSC mappings with the controls', () => {
+      const controls = { ...DEFAULT_CONSTELLATION_CONTROLS };
+      const externalMappings = [
+        createExternalControlMapping(
+          { kind: 'midi', type: 'cc', channel: 1, number: 7 },
+          { target: 'starBrightness', min: 0, max: 2, step: 0 }
+        ),
+      ];
+
+      const saved = saveVisualConfig('viz6', 'Mapped', controls, 1, undefined, externalMappings);
+      expect(loadSavedConfig('viz6', saved.id)?.externalMappings).toEqual(externalMappings);
+      expect(saved.modulations).toBeUndefined();
+    });
   });
 
   describe('loadSavedConfigs', () => {
@@ -117,10 +161,10 @@ describe('visualConfigStorage', () => {
         curveTension: 0.5,
       };
 
-      const saved1 = saveVisualConfig('viz4', 'Config 1', controls1);
+      const saved1 = saveVisualConfig('viz4', 'Config 1', controls1, 1);
       // Add small delay to ensure different timestamps
       await new Promise(resolve => setTimeout(resolve, 10));
-      const saved2 = saveVisualConfig('viz4', 'Config 2', controls2);
+      const saved2 = saveVisualConfig('viz4', 'Config 2', controls2, 1);
 
       const configs = loadSavedConfigs('viz4');
 
@@ -144,8 +188,8 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      saveVisualConfig('viz4', 'Viz4 Config', controls);
-      saveVisualConfig('viz5', 'Viz5 Config', controls);
+      saveVisualConfig('viz4', 'Viz4 Config', controls, 1);
+      saveVisualConfig('viz5', 'Viz5 Config', controls, 1);
 
       const viz4Configs = loadSavedConfigs('viz4');
       const viz5Configs = loadSavedConfigs('viz5');
@@ -169,7 +213,7 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      const saved = saveVisualConfig('viz4', 'Test Config', controls);
+      const saved = saveVisualConfig('viz4', 'Test Config', controls, 1);
       const loaded = loadSavedConfig('viz4', saved.id);
 
       expect(loaded).not.toBeNull();
@@ -183,6 +227,30 @@ describe('visualConfigStorage', () => {
       expect(loaded).toBeNull();
     });
 
+    it('stores the controls schema version', () => {
+      const saved = saveVisualConfig('viz6', 'Versioned', DEFAULT_CONSTELLATION_CONTROLS, 3);
+      expect(saved.schemaVersion).toBe(3);
+      expect(loadSavedConfig('viz6', saved.id)?.schemaVersion).toBe(3);
+    });
+
+    it('treats configs saved before versioning as version 0', () => {
+      const legacy = { id: 'old', name: 'Old', visualId: 'viz6', savedAt: 5, controls: { starBrightness: 0.4 } };
+      localStorageMock.setItem('visual-config:viz6:old', JSON.stringify(legacy));
+      localStorageMock.setItem('visual-config-list:viz6', JSON.stringify(['old']));
+
+      expect(loadSavedConfig('viz6', 'old')).toEqual({ ...legacy, schemaVersion: 0 });
+      expect(loadSavedConfigs('viz6')).toEqual([{ ...legacy, schemaVersion: 0 }]);
+    });
+
+    it('skips stored configs with a broken shape', () => {
+      localStorageMock.setItem('visual-config:viz6:a', JSON.stringify({ id: 'a', name: 'No controls', visualId: 'viz6' }));
+      localStorageMock.setItem('visual-config:viz6:b', JSON.stringify({ id: 'b', visualId: 'viz6', controls: {} }));
+      localStorageMock.setItem('visual-config-list:viz6', JSON.stringify(['a', 'b']));
+
+      expect(loadSavedConfig('viz6', 'a')).toBeNull();
+      expect(loadSavedConfigs('viz6')).toEqual([]);
+    });
+
     it('returns null if config belongs to different visual', () => {
       const controls: PrismHandControls = {
         spinBase: 0.5,
@@ -194,7 +262,7 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      const saved = saveVisualConfig('viz4', 'Test Config', controls);
+      const saved = saveVisualConfig('viz4', 'Test Config', controls, 1);
       const loaded = loadSavedConfig('viz5', saved.id);
 
       expect(loaded).toBeNull();
@@ -213,7 +281,7 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      const saved = saveVisualConfig('viz4', 'Test Config', controls);
+      const saved = saveVisualConfig('viz4', 'Test Config', controls, 1);
       const beforeDelete = loadSavedConfigs('viz4');
       expect(beforeDelete.length).toBe(1);
 
@@ -235,6 +303,49 @@ describe('visualConfigStorage', () => {
     });
   });
 
+  describe('preset browser metadata', () => {
+    const controls: PrismHandControls = {
+      spinBase: 0.5,
+      spinPinch: 0.75,
+      twistBase: Math.PI * 0.5,
+      twistPinch: Math.PI * 1.0,
+      hueSpeed: 0.05,
+      opacity: 0.9,
+      curveTension: 0.4,
+    };
+
+    it('renames, tags and favourites a config', () => {
+      const saved = saveVisualConfig('viz4', 'Night Sky', controls, 1);
+      const updated = updateSavedConfig('viz4', saved.id, { name: 'Night', tags: ['calm'], favorite: true });
+      expect(updated).toMatchObject({ name: 'Night', tags: ['calm'], favorite: true });
+      expect(loadSavedConfig('viz4', saved.id)).toEqual(updated);
+
+      const cleared = updateSavedConfig('viz4', saved.id, { tags: [], favorite: false })!;
+      expect('tags' in cleared).toBe(false);
+      expect('favorite' in cleared).toBe(false);
+      expect(updateSavedConfig('viz4', 'missing', { name: 'x' })).toBeNull();
+    });
+
+    it('duplicates a config with its tags and thumbnail', () => {
+      const saved = saveVisualConfig('viz4', 'Night Sky', controls, 1);
+      updateSavedConfig('viz4', saved.id, { tags: ['calm'] });
+      saveConfigThumbnail('viz4', saved.id, 'data:image/jpeg;base64,AAA');
+
+      const copy = duplicateSavedConfig('viz4', saved.id, 'Night Sky copy')!;
+      expect(copy.id).not.toBe(saved.id);
+      expect(copy).toMatchObject({ name: 'Night Sky copy', tags: ['calm'], controls: saved.controls });
+      expect(loadConfigThumbnail('viz4', copy.id)).toBe('data:image/jpeg;base64,AAA');
+      expect(loadSavedConfigs('viz4')).toHaveLength(2);
+    });
+
+    it('deletes the thumbnail with its config', () => {
+      const saved = saveVisualConfig('viz4', 'Night Sky', controls, 1);
+      saveConfigThumbnail('viz4', saved.id, 'data:image/jpeg;base64,AAA');
+      deleteSavedConfig('viz4', saved.id);
+      expect(loadConfigThumbnail('viz4', saved.id)).toBeNull();
+    });
+  });
+
   describe('configNameExists', () => {
     it('returns false when no configs exist', () => {
       const exists = configNameExists('viz4', 'Test Config');
@@ -252,7 +363,7 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      saveVisualConfig('viz4', 'Test Config', controls);
+      saveVisualConfig('viz4', 'Test Config', controls, 1);
       const exists = configNameExists('viz4', 'Test Config');
       expect(exists).toBe(true);
     });
@@ -268,7 +379,7 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      saveVisualConfig('viz4', 'Test Config', controls);
+      saveVisualConfig('viz4', 'Test Config', controls, 1);
       expect(configNameExists('viz4', 'test config')).toBe(true);
       expect(configNameExists('viz4', 'TEST CONFIG')).toBe(true);
       expect(configNameExists('viz4', 'TeSt CoNfIg')).toBe(true);
@@ -285,9 +396,69 @@ describe('visualConfigStorage', () => {
         curveTension: 0.4,
       };
 
-      saveVisualConfig('viz4', 'Test Config', controls);
+      saveVisualConfig('viz4', 'Test Config', controls, 1);
       expect(configNameExists('viz4', 'Test Config')).toBe(true);
       expect(configNameExists('viz5', 'Test Config')).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('gesture templates', () => {
+    it('saves, lists and deletes templates per visual', () => {
+      const samples = [[[0, 0, 0]], [[0.1, 0, 0]]];
+      const saved = saveGestureTemplate('viz6', 'Claw', 'pose', samples);
+      saveGestureTemplate('viz6', 'Sweep', 'motion', [[[0, 0, 0], [1, 0, 0]]], 600);
+      saveGestureTemplate('viz5', 'Claw', 'pose', samples);
+
+      const templates = loadGestureTemplates('viz6');
+      expect(templates.map((t) => t.name)).toEqual(['Claw', 'Sweep']);
+      expect(templates[0]).toEqual(saved);
+      expect(templates[1]!.durationMs).toBe(600);
+      expect(gestureTemplateNameExists('viz6', 'claw')).toBe(true);
+      expect(gestureTemplateNameExists('viz4', 'claw')).toBe(false);
+
+      expect(deleteGestureTemplate('viz6', saved.id)).toBe(true);
+      expect(loadGestureTemplates('viz6').map((t) => t.name)).toEqual(['Sweep']);
+      expect(loadGestureTemplates('viz5')).toHaveLength(1);
+    });
+
+    it('deletes all templates of a visual', () => {
+      saveGestureTemplate('viz6', 'Claw', 'pose', [[[0, 0, 0]]]);
+      saveGestureTemplate('viz5', 'Claw', 'pose', [[[0, 0, 0]]]);
+      expect(deleteGestureTemplates('viz6')).toBe(true);
+      expect(loadGestureTemplates('viz6')).toEqual([]);
+      expect(loadGestureTemplates('viz5')).toHaveLength(1);
+    });
+  });
+
+  describe('stored recordings', () => {
+    const record = (frames: number) => {
+      const recorder = createLandmarkRecorder();
+      recorder.start(0);
+      for (let i = 0; i < frames; i++) {
+        recorder.addFrame({ hands: [], pinchVector: null, rightHandDistance: null, pose: null }, i * 33);
+      }
+      return recorder.stop()!;
+    };
+
+    it('saves, lists, loads and deletes recordings per visual', async () => {
+      const recording = record(3);
+      const info = await saveStoredRecording('viz6', 'Warmup', recording);
+      await saveStoredRecording('viz5', 'Other', record(1));
+
+      expect(info).toMatchObject({ name: 'Warmup', visualId: 'viz6', durationMs: 66, frameCount: 3 });
+      expect(loadStoredRecordings('viz6')).toEqual([info]);
+      expect(loadStoredRecording(info.id)).toEqual(recording);
+
+      expect(deleteStoredRecording(info.id)).toBe(true);
+      expect(loadStoredRecordings('viz6')).toEqual([]);
+      expect(loadStoredRecording(info.id)).toBeNull();
+      expect(loadStoredRecordings('viz5')).toHaveLength(1);
+    });
+
+    it('leaves out recordings removed to free up space', async () => {
+      const info = await saveStoredRecording('viz6', 'Warmup', record(2));
+      expect(getAppStorage().evictLeastRecentlyUsed(Infinity)).toEqual([`landmark-session:${info.id}`]);
+      expect(loadStoredRecordings('viz6')).toEqual([]);
+    });
+  });
+});
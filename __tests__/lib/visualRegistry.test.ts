@@ -0,0 +1,122 @@
+import type { ComponentType } from 'react';
+import {
+  createVisualRegistry,
+  defineVisual,
+  getVisualDefaultModulations,
+  getVisualModulationTargets,
+  isValidVisualControlValue,
+  resolveVisualControls,
+  type VisualPlugin,
+} from '@/lib/visualRegistry';
+import { NODES_PER_ORBIT_MAPPING } from '@/components/hand-tracking/modulation';
+
+const Noop = (() => null) as ComponentType<any>;
+
+interface TestControls {
+  speed: number;
+  palette: string;
+  trails: boolean;
+}
+
+const controlled = defineVisual<TestControls>({
+  id: 'a',
+  name: 'A',
+  description: 'with controls',
+  enabled: true,
+  inputs: ['hands'],
+  feed: 'inset',
+  thumbnail: '/visuals/a.svg',
+  Component: Noop,
+  controls: {
+    defaults: { speed: 1, palette: 'aurora', trails: true },
+    schema: {
+      speed: { type: 'number', label: 'Speed', min: 0, max: 4, step: 0.1 },
+      palette: {
+        type: 'enum',
+        label: 'Palette',
+        options: [
+          { value: 'aurora', label: 'Aurora' },
+          { value: 'ember', label: 'Ember' },
+        ],
+      },
+      trails: { type: 'boolean', label: 'Trails' },
+    },
+    title: 'A Controls',
+    description: 'Adjust A',
+  },
+});
+
+const uncontrolled = defineVisual({
+  id: 'b',
+  name: 'B',
+  description: 'without controls',
+  enabled: true,
+  inputs: ['hands', 'pinch'],
+  feed: 'center',
+  thumbnail: '/visuals/b.svg',
+  Component: Noop,
+  controls: null,
+  defaultModulations: [NODES_PER_ORBIT_MAPPING],
+  modulationTargets: ['nodesPerOrbit'],
+});
+
+const disabled: VisualPlugin = { ...uncontrolled, id: 'c', enabled: false };
+
+describe('createVisualRegistry', () => {
+  it('lists enabled visuals in registration order', () => {
+    const registry = createVisualRegistry([uncontrolled, disabled, controlled]);
+    expect(registry.getAll().map((v) => v.id)).toEqual(['b', 'a']);
+    expect(registry.get('a')).toBe(controlled);
+    expect(registry.get('c')).toBeUndefined();
+    expect(registry.get('missing')).toBeUndefined();
+  });
+
+  it('rejects duplicate ids', () => {
+    expect(() => createVisualRegistry([controlled, { ...controlled }])).toThrow('Duplicate visual id: a');
+  });
+});
+
+describe('modulation helpers', () => {
+  it('uses numeric controls as targets, or the declared ones', () => {
+    expect(getVisualModulationTargets(controlled)).toEqual(['speed']);
+    expect(getVisualModulationTargets(uncontrolled)).toEqual(['nodesPerOrbit']);
+  });
+
+  it('returns the default mappings of a visual', () => {
+    expect(getVisualDefaultModulations(uncontrolled)).toEqual([NODES_PER_ORBIT_MAPPING]);
+    expect(getVisualDefaultModulations(controlled)).toEqual([]);
+    expect(getVisualDefaultModulations(undefined)).toEqual([]);
+  });
+});
+
+describe('resolveVisualControls', () => {
+  it('fills missing keys and drops unknown keys', () => {
+    expect(resolveVisualControls(controlled, { speed: 2, extra: 1 })).toEqual({ speed: 2, palette: 'aurora', trails: true });
+  });
+
+  it('clamps numbers and replaces values of the wrong type or outside the schema', () => {
+    expect(resolveVisualControls(controlled, { speed: 9, palette: 'ember' })).toMatchObject({ speed: 4, palette: 'ember' });
+    expect(resolveVisualControls(controlled, { speed: '2', palette: 'nope', trails: false })).toEqual({
+      speed: 1,
+      palette: 'aurora',
+      trails: false,
+    });
+    expect(resolveVisualControls(controlled, { palette: 'ember' })).toMatchObject({ palette: 'ember' });
+  });
+
+  it('returns the defaults for garbage and null for visuals without controls', () => {
+    expect(resolveVisualControls(controlled, 'garbage')).toEqual({ speed: 1, palette: 'aurora', trails: true });
+    expect(resolveVisualControls(uncontrolled, { speed: 2 })).toBeNull();
+  });
+});
+
+describe('isValidVisualControlValue', () => {
+  it('checks patch values against the schema', () => {
+    expect(isValidVisualControlValue(controlled, 'speed', 2.5)).toBe(true);
+    expect(isValidVisualControlValue(controlled, 'speed', -1)).toBe(false);
+    expect(isValidVisualControlValue(controlled, 'palette', 'ember')).toBe(true);
+    expect(isValidVisualControlValue(controlled, 'palette', 'nope')).toBe(false);
+    expect(isValidVisualControlValue(controlled, 'missing', 1)).toBe(false);
+    expect(isValidVisualControlValue(uncontrolled, 'nodesPerOrbit', 3)).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { DEFAULT_ONE_LINE_CONTROLS } from '@/components/hand-tracking/OneLineHandVisual';
+import {
+  createVisualSyncChannel,
+  getVisualSyncKey,
+  parseVisualSyncMessage,
+  type VisualSyncMessage,
+} from '@/lib/visualSync';
+
+// Minimal in-process BroadcastChannel: delivers to every other instance with the same name
+class FakeBroadcastChannel {
+  static instances: FakeBroadcastChannel[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.instances.push(this);
+  }
+
+  postMessage(data: unknown) {
+    for (const other of FakeBroadcastChannel.instances) {
+      if (other !== this && other.name === this.name) other.onmessage?.({ data } as MessageEvent);
+    }
+  }
+
+  close() {
+    FakeBroadcastChannel.instances = FakeBroadcastChannel.instances.filter((c) => c !== this);
+  }
+}
+
+const state = { type: 'state' as const, controls: DEFAULT_ONE_LINE_CONTROLS, modulations: [] };
+
+describe('visualSync', () => {
+  afterEach(() => {
+    FakeBroadcastChannel.instances = [];
+    localStorage.clear();
+  });
+
+  describe('broadcast transport', () => {
+    beforeAll(() => {
+      (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = FakeBroadcastChannel;
+    });
+
+    afterAll(() => {
+      delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+    });
+
+    it('prefers BroadcastChannel and delivers to other windows of the same visual only', () => {
+      const leader = createVisualSyncChannel('viz5');
+      const follower = createVisualSyncChannel('viz5');
+      const otherVisual = createVisualSyncChannel('viz6');
+      const received: VisualSyncMessage[] = [];
+      const ownMessages: VisualSyncMessage[] = [];
+      const otherMessages: VisualSyncMessage[] = [];
+      follower.subscribe((m) => received.push(m));
+      leader.subscribe((m) => ownMessages.push(m));
+      otherVisual.subscribe((m) => otherMessages.push(m));
+
+      expect(leader.transport).toBe('broadcast');
+      leader.publish(state);
+
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ ...state, visualId: 'viz5' });
+      expect(ownMessages).toHaveLength(0);
+      expect(otherMessages).toHaveLength(0);
+    });
+
+    it('stops delivering after close', () => {
+      const leader = createVisualSyncChannel('viz5');
+      const follower = createVisualSyncChannel('viz5');
+      const listener = jest.fn();
+      follower.subscribe(listener);
+      follower.close();
+      leader.publish({ type: 'request' });
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('storage fallback', () => {
+    it('publishes through localStorage and listens for storage events', () => {
+      const leader = createVisualSyncChannel('viz5', 'storage');
+      const follower = createVisualSyncChannel('viz5', 'storage');
+      const listener = jest.fn();
+      follower.subscribe(listener);
+
+      leader.publish(state);
+      const stored = localStorage.getItem(getVisualSyncKey('viz5'));
+      expect(stored).not.toBeNull();
+
+      // `storage` events only fire in other windows, so dispatch it by hand
+      window.dispatchEvent(new StorageEvent('storage', { key: getVisualSyncKey('viz5'), newValue: stored }));
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'state', controls: DEFAULT_ONE_LINE_CONTROLS }));
+
+      window.dispatchEvent(new StorageEvent('storage', { key: getVisualSyncKey('viz5'), newValue: '{not json' }));
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('parseVisualSyncMessage', () => {
+    it('rejects messages for other visuals or with a bad shape', () => {
+      const base = { visualId: 'viz5', senderId: 'a', sentAt: 1 };
+      expect(parseVisualSyncMessage({ ...base, type: 'request' }, 'viz5')).not.toBeNull();
+      expect(parseVisualSyncMessage({ ...base, ...state }, 'viz5')).not.toBeNull();
+      expect(parseVisualSyncMessage({ ...base, ...state }, 'viz6')).toBeNull();
+      expect(parseVisualSyncMessage({ ...base, type: 'state', controls: {} }, 'viz5')).toBeNull();
+      expect(parseVisualSyncMessage({ ...base, type: 'unknown' }, 'viz5')).toBeNull();
+      expect(parseVisualSyncMessage('nope', 'viz5')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { request } from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+import { createRemoteRelay } from '../../scripts/remote-relay-server.mjs';
+import { decodeFrames, encodeFrame } from '../../scripts/ws-server.mjs';
+
+const TOKEN = 'secret';
+
+interface TestClient {
+  send: (message: unknown) => void;
+  /** Resolves with the next text message, parsed. */
+  next: () => Promise<Record<string, unknown>>;
+  socket: Socket;
+}
+
+let relay: ReturnType<typeof createRemoteRelay>;
+let port: number;
+const sockets: Socket[] = [];
+
+/** Upgrades to a WebSocket; resolves with the HTTP status instead when the relay refuses. */
+function connect(path: string): Promise<TestClient | number> {
+  return new Promise((resolve, reject) => {
+    const req = request({
+      port,
+      path,
+      headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==', 'Sec-WebSocket-Version': '13' },
+    });
+    req.on('response', (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.on('upgrade', (_res, socket) => {
+      sockets.push(socket);
+      const queue: Record<string, unknown>[] = [];
+      const waiting: ((message: Record<string, unknown>) => void)[] = [];
+      let buffered = Buffer.alloc(0);
+      socket.on('data', (chunk: Buffer) => {
+        const { frames, rest } = decodeFrames(Buffer.concat([buffered, chunk]), 1 << 20);
+        buffered = rest;
+        for (const frame of frames) {
+          if (frame.opcode !== 0x1) continue;
+          const message = JSON.parse(frame.payload.toString('utf8'));
+          const resolveNext = waiting.shift();
+          if (resolveNext) resolveNext(message);
+          else queue.push(message);
+        }
+      });
+      resolve({
+        socket,
+        send(message) {
+          // Client frames are masked; a zero mask leaves the payload as is
+          const frame = encodeFrame(0x1, Buffer.from(JSON.stringify(message)));
+          const length = frame[1];
+          frame[1] = 0x80 | length;
+          const header = frame.subarray(0, length === 126 ? 4 : 2);
+          socket.write(Buffer.concat([header, Buffer.alloc(4), frame.subarray(header.length)]));
+        },
+        next: () => new Promise((resolveNext) => (queue.length ? resolveNext(queue.shift()!) : waiting.push(resolveNext))),
+      });
+    });
+    req.end();
+  });
+}
+
+async function join(role: 'operator' | 'display') {
+  const client = (await connect(`/?token=${TOKEN}`)) as TestClient;
+  client.send({ v: 1, type: 'hello', role });
+  expect(await client.next()).toMatchObject({ type: 'welcome' });
+  return client;
+}
+
+beforeEach(async () => {
+  relay = createRemoteRelay({ token: TOKEN });
+  await new Promise<void>((resolve) => relay.server.listen(0, '127.0.0.1', resolve));
+  port = (relay.server.address() as AddressInfo).port;
+});
+
+afterEach(async () => {
+  sockets.splice(0).forEach((socket) => socket.destroy());
+  await new Promise((resolve) => relay.close(resolve));
+});
+
+describe('remote relay', () => {
+  it('refuses upgrades without the token', async () => {
+    expect(await connect('/')).toBe(401);
+    expect(await connect('/?token=wrong')).toBe(401);
+  });
+
+  it('forwards operator messages to displays, tagged with the sender', async () => {
+    const display = await join('display');
+    expect(await display.next()).toMatchObject({ type: 'peers', displays: 1, operators: 0 });
+    const operator = await join('operator');
+    expect(await display.next()).toMatchObject({ type: 'peers', displays: 1, operators: 1 });
+    expect(await operator.next()).toMatchObject({ type: 'peers', displays: 1, operators: 1 });
+
+    operator.send({ v: 1, type: 'switchVisual', visualId: 'constellation', from: 'spoofed' });
+    const forwarded = await display.next();
+    expect(forwarded).toMatchObject({ v: 1, type: 'switchVisual', visualId: 'constellation' });
+    expect(forwarded.from).not.toBe('spoofed');
+  });
+
+  it('answers invalid messages with an error', async () => {
+    const display = await join('display');
+    await display.next(); // peers
+    display.send({ v: 2, type: 'switchVisual', visualId: 'constellation' });
+    expect(await display.next()).toMatchObject({ type: 'error', code: 'version' });
+    display.send({ v: 1, type: 'controlPatch', visualId: 'constellation', patch: { speed: [1] } });
+    expect(await display.next()).toMatchObject({ type: 'error', code: 'invalid' });
+    display.send({ v: 1, type: 'peers', displays: 0, operators: 0 });
+    expect(await display.next()).toMatchObject({ type: 'error', code: 'invalid' });
+    display.send({ v: 1, type: 'switchVisual', visualId: 'constellation' });
+    expect(await display.next()).toMatchObject({ type: 'error', code: 'forbidden' });
+  });
+});
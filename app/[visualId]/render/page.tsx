@@ -0,0 +1 @@
+export { default } from '../../hands/[visualId]/render/page';
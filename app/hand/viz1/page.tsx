@@ -1,42 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { HandTracking, type PinchVector } from '@/components/hand-tracking/HandTracking';
-import { usePinchHistory, type FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
+import { useState } from 'react';
+import { TrackingSourceFeed, TrackingSourcePicker } from '@/components/hand-tracking/TrackingSourceFeed';
 import { PinchControlled3D } from '@/components/hand-tracking/PinchControlled3D';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { FpsOverlay } from '@/components/perf/FpsOverlay';
+import { getDefaultModulationMappings } from '@/components/hand-tracking/modulation';
+import { useModulation } from '@/hooks/useModulation';
+import { useTrackingInputs } from '@/hooks/useTrackingInputs';
+
+const MODULATIONS = getDefaultModulationMappings('PinchControlled3D');
 
 export default function HandsPage() {
-  const [pinchVector, setPinchVector] = useState<PinchVector | null>(null);
-  const [finalVector, setFinalVector] = useState<FinalVector | null>(null);
-  const [currentVector, setCurrentVector] = useState<FinalVector | null>(null);
   const [phaseAngles, setPhaseAngles] = useState<number[]>([]);
-  const [rightHandDistance, setRightHandDistance] = useState<number | null>(null);
-  const [nodesPerOrbit, setNodesPerOrbit] = useState(8);
   const [leftHanded, setLeftHanded] = useState(false);
-  
-  // Track pinch history - only start and end points
-  usePinchHistory(pinchVector, {
-    onFinalVector: setFinalVector, // Set when pinch is released
-    onCurrentVector: setCurrentVector, // Update continuously while pinching
-  });
-  
-  // Update nodes per orbit based on right hand distance
-  // Distance is normalized 0-1, but map 0-0.25 range to 3-10 nodes
-  // Larger distance (fingers farther apart) = more nodes
-  useEffect(() => {
-    if (rightHandDistance !== null) {
-      // Map distance (0-0.25) to nodes (3-10)
-      // Clamp distance to 0-0.25 range
-      const clampedDistance = Math.min(0.25, Math.max(0, rightHandDistance));
-      // Map from 0-0.25 to 3-10
-      const minNodes = 3;
-      const maxNodes = 10;
-      const mappedNodes = Math.round(minNodes + (clampedDistance / 0.25) * (maxNodes - minNodes));
-      setNodesPerOrbit(mappedNodes);
-    }
-  }, [rightHandDistance]);
+
+  // Pinch vector and pinch history
+  const { frame, pinchVector, rightHandDistance, compositeVector } = useTrackingInputs();
+  // Nodes per orbit follow the other hand's thumb-index distance (default modulation mapping)
+  const { nodesPerOrbit = 8 } = useModulation(frame, MODULATIONS);
 
   return (
     <main className="relative min-h-screen w-full overflow-hidden">
@@ -65,15 +47,15 @@ export default function HandsPage() {
                   />
                   <span>Left-handed mode</span>
                 </label>
+                <TrackingSourcePicker className="mt-2" />
               </div>
             </CardHeader>
             <CardContent className="pt-0">
               <div className="relative">
-                <HandTracking 
-                  onPinchVector={setPinchVector}
-                  compositeVector={currentVector || finalVector}
-                  onRightHandDistance={setRightHandDistance}
+                <TrackingSourceFeed
+                  compositeVector={compositeVector}
                   leftHanded={leftHanded}
+                  placeholderClassName="w-full aspect-video flex items-center justify-center bg-black/10 rounded text-sm text-muted-foreground"
                 />
               </div>
             </CardContent>
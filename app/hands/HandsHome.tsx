@@ -7,6 +7,7 @@ import { HandTracking } from '@/components/hand-tracking/HandTracking';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { getAllEnabledVisuals } from './visuals-config';
 import { useTrackingSettings } from '@/components/providers/TrackingSettingsProvider';
+import { VISUAL_INPUT_LABELS } from '@/lib/visualRegistry';
 
 /**
  * HandsHome
@@ -17,8 +18,14 @@ import { useTrackingSettings } from '@/components/providers/TrackingSettingsProv
 export function HandsHome() {
   const [leftHanded, setLeftHanded] = useState(false);
   const visuals = getAllEnabledVisuals();
-  const { bodyTrackingEnabled, setBodyTrackingEnabled, isHandTrackingEnabledForVisual, setHandTrackingEnabledForVisual } =
-    useTrackingSettings();
+  const {
+    bodyTrackingEnabled,
+    setBodyTrackingEnabled,
+    faceTrackingEnabled,
+    setFaceTrackingEnabled,
+    isHandTrackingEnabledForVisual,
+    setHandTrackingEnabledForVisual,
+  } = useTrackingSettings();
 
   return (
     <main className="flex min-h-screen flex-col items-center justify-center p-4 md:p-8 lg:p-24">
@@ -28,6 +35,9 @@ export function HandsHome() {
           <p className="text-muted-foreground mb-6">
             Real-time hand tracking with MediaPipe. Choose a visualization to control with your hands.
           </p>
+          <Link href="/operator" className="text-sm text-blue-600 hover:underline">
+            Remote operator →
+          </Link>
         </div>
 
         {/* Camera Feed Preview */}
@@ -40,15 +50,26 @@ export function HandsHome() {
                   Preview your hand tracking. Use this to test your setup before entering a visualization.
                 </CardDescription>
               </div>
-              <label className="flex items-center gap-2 text-sm cursor-pointer select-none">
-                <input
-                  type="checkbox"
-                  checked={bodyTrackingEnabled}
-                  onChange={(e) => setBodyTrackingEnabled(e.target.checked)}
-                  className="w-4 h-4"
-                />
-                <span>Body tracking</span>
-              </label>
+              <div className="flex flex-col gap-1">
+                <label className="flex items-center gap-2 text-sm cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={bodyTrackingEnabled}
+                    onChange={(e) => setBodyTrackingEnabled(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  <span>Body tracking</span>
+                </label>
+                <label className="flex items-center gap-2 text-sm cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={faceTrackingEnabled}
+                    onChange={(e) => setFaceTrackingEnabled(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  <span>Face tracking</span>
+                </label>
+              </div>
             </div>
             <div className="mt-2">
               <label className="flex items-center gap-2 text-sm cursor-pointer">
@@ -64,7 +85,7 @@ export function HandsHome() {
           </CardHeader>
           <CardContent>
             <div className="relative">
-              <HandTracking leftHanded={leftHanded} enablePose={bodyTrackingEnabled} />
+              <HandTracking leftHanded={leftHanded} enablePose={bodyTrackingEnabled} enableFace={faceTrackingEnabled} />
             </div>
           </CardContent>
         </Card>
@@ -72,18 +93,31 @@ export function HandsHome() {
         {/* Visualizations Grid */}
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {visuals.map((visual) => (
-            <Card key={visual.id} className="hover:shadow-lg transition-shadow">
+            <Card key={visual.id} className="hover:shadow-lg transition-shadow overflow-hidden">
+              <img src={visual.thumbnail} alt="" className="w-full aspect-video object-cover bg-black" />
               <CardHeader>
                 <div className="flex items-start justify-between gap-3">
                   <CardTitle className="leading-tight">{visual.name}</CardTitle>
-                  <span
-                    className="shrink-0 rounded-full bg-blue-600/15 px-2 py-1 text-[11px] font-medium text-blue-700"
-                    aria-label="Hand tracking badge"
-                  >
-                    Hand tracking
-                  </span>
+                  {visual.inputs.includes('hands') && (
+                    <span
+                      className="shrink-0 rounded-full bg-blue-600/15 px-2 py-1 text-[11px] font-medium text-blue-700"
+                      aria-label="Hand tracking badge"
+                    >
+                      Hand tracking
+                    </span>
+                  )}
                 </div>
                 <CardDescription>{visual.description}</CardDescription>
+                {/* Other inputs the visual reacts to */}
+                <div className="flex flex-wrap gap-1">
+                  {visual.inputs
+                    .filter((input) => input !== 'hands')
+                    .map((input) => (
+                      <span key={input} className="rounded-full bg-gray-200 px-2 py-0.5 text-[11px] text-gray-700">
+                        {VISUAL_INPUT_LABELS[input]}
+                      </span>
+                    ))}
+                </div>
                 <label className="mt-3 flex items-center gap-2 text-sm cursor-pointer select-none">
                   <input
                     type="checkbox"
@@ -1,21 +1,44 @@
 'use client';
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useEffect, useRef, useState, type SetStateAction } from 'react';
 import Link from 'next/link';
-import { notFound } from 'next/navigation';
+import { notFound, useRouter } from 'next/navigation';
 
 import { FpsOverlay } from '@/components/perf/FpsOverlay';
-import { HandTracking, type Hand3DData, type PinchVector } from '@/components/hand-tracking/HandTracking';
-import { usePinchHistory, type FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
-import { PinchControlled3D } from '@/components/hand-tracking/PinchControlled3D';
-import { Hand3DVisual } from '@/components/hand-tracking/Hand3DVisual';
-import { PrismHandVisual, type PrismHandControls, DEFAULT_PRISM_HAND_CONTROLS } from '@/components/hand-tracking/PrismHandVisual';
-import { OneLineHandVisual, type OneLineHandControls, DEFAULT_ONE_LINE_CONTROLS } from '@/components/hand-tracking/OneLineHandVisual';
-import { ConstellationVisual, type ConstellationControls, DEFAULT_CONSTELLATION_CONTROLS } from '@/components/hand-tracking/ConstellationVisual';
+import { TrackingSourceFeed, TrackingSourcePicker } from '@/components/hand-tracking/TrackingSourceFeed';
+import { CaptureControlsCompact } from '@/components/hand-tracking/CaptureControlsCompact';
+import { SchemaControls } from '@/components/hand-tracking/SchemaControls';
+import { PresetBrowser } from '@/components/hand-tracking/PresetBrowser';
+import {
+  applyModulation,
+  normalizeModulationMappings,
+  type ModulationMapping,
+} from '@/components/hand-tracking/modulation';
 import { useTrackingSettings } from '@/components/providers/TrackingSettingsProvider';
+import { useAudioFeatures } from '@/components/providers/AudioInputProvider';
+import { useVisualGestures } from '@/hooks/useVisualGestures';
+import { useModulation } from '@/hooks/useModulation';
+import { useRemoteControl } from '@/hooks/useRemoteControl';
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import { useVisualSyncFollower } from '@/hooks/useVisualSync';
+import { useTrackingInputs } from '@/hooks/useTrackingInputs';
+import { useVisualCapture } from '@/hooks/useVisualCapture';
+import { useVisualControls } from '@/hooks/useVisualControls';
+import { useControlMorph } from '@/hooks/useControlMorph';
+import { applyControlPatch, DEFAULT_RELAY_URL, type ControlPatchValue } from '@/lib/remoteControl';
+import { describeMigration, migrateControls } from '@/lib/controlMigrations';
+import type { ControlMorphFrame } from '@/lib/controlMorph';
+import { decodePresetParam } from '@/lib/presetTransfer';
+import { loadSavedConfigs, type SavedVisualConfig, type VisualControlType } from '@/lib/visualConfigStorage';
+import type { ControlSpec } from '@/lib/controlSchema';
+import { getVisualDefaultModulations, isValidVisualControlValue } from '@/lib/visualRegistry';
 
 import { getVisualConfig } from '../../visuals-config';
 
+const RELAY_URL_STORAGE_KEY = 'remote:relayUrl';
+
+const isAudienceControl = (spec: ControlSpec) => spec.audience === true;
+
 /**
  * FINAL VIEW
  *
@@ -28,47 +51,44 @@ import { getVisualConfig } from '../../visuals-config';
  */
 export default function FinalViewPage({ params }: { params: Promise<{ visualId: string }> }) {
   const [visualId, setVisualId] = useState<string>('');
-  const { isHandTrackingEnabledForVisual, setHandTrackingEnabledForVisual, bodyTrackingEnabled } = useTrackingSettings();
+  const {
+    isHandTrackingEnabledForVisual,
+    setHandTrackingEnabledForVisual,
+    bodyTrackingEnabled,
+    faceTrackingEnabled,
+    getLandmarkFilterForVisual,
+    getModulationsForVisual,
+    capture,
+    setCapture,
+    morph: morphSettings,
+    setMorph: setMorphSettings,
+  } = useTrackingSettings();
 
   // Shared tracking + interaction state (same inputs as the dev fullscreen page)
   const [leftHanded, setLeftHanded] = useState(false);
-  const [pinchVector, setPinchVector] = useState<PinchVector | null>(null);
-  const [finalVector, setFinalVector] = useState<FinalVector | null>(null);
-  const [currentVector, setCurrentVector] = useState<FinalVector | null>(null);
-  const [phaseAngles, setPhaseAngles] = useState<number[]>([]);
-  const [rightHandDistance, setRightHandDistance] = useState<number | null>(null);
-  const [nodesPerOrbit, setNodesPerOrbit] = useState(8);
-
-  // Hands (3D visuals) — throttle state updates to reduce React re-renders
-  const [hands3D, setHands3D] = useState<Hand3DData[]>([]);
-  const hands3DRef = useRef<Hand3DData[]>([]);
-  const lastHands3DUpdateRef = useRef<number>(0);
-  const HANDS_UPDATE_INTERVAL = 33; // ~30fps state updates
-
-  const handleHands3D = useCallback((hands: Hand3DData[]) => {
-    hands3DRef.current = hands;
-    const now = performance.now();
-    if (now - lastHands3DUpdateRef.current >= HANDS_UPDATE_INTERVAL) {
-      lastHands3DUpdateRef.current = now;
-      setHands3D(hands);
-    }
-  }, []);
-
-  // Per-visual controls (kept local here; final_view is meant to be a “composed” UI)
-  const [prismControls, setPrismControls] = useState<PrismHandControls>(DEFAULT_PRISM_HAND_CONTROLS);
-  const [oneLineControls, setOneLineControls] = useState<OneLineHandControls>(DEFAULT_ONE_LINE_CONTROLS);
-  const [constellationControls, setConstellationControls] = useState<ConstellationControls>(DEFAULT_CONSTELLATION_CONTROLS);
+  // Modulation matrix from the control panel or a remotely recalled preset (overrides the stored one)
+  const [syncedModulations, setSyncedModulations] = useState<ModulationMapping[] | null>(null);
+  // Follower mode (`?follow=1`): the control panel drives this view and the side panel is hidden
+  const [follower, setFollower] = useState(false);
+  // Remote control relay (`?relay=ws://…` or the side panel); null while disconnected
+  const [relayUrl, setRelayUrl] = useState<string | null>(null);
+  const [relayDraft, setRelayDraft] = useState(DEFAULT_RELAY_URL);
+  const [operatorCount, setOperatorCount] = useState(0);
+  // Configuration loaded in the control panel or recalled remotely (capture file names)
+  const [configName, setConfigName] = useState<string | null>(null);
+  // Preset morph running in the control panel this view follows (palette blends)
+  const [syncedMorph, setSyncedMorph] = useState<ControlMorphFrame | null>(null);
+  const visualRef = useRef<HTMLElement>(null);
+  const router = useRouter();
 
   const handTrackingEnabled = visualId ? isHandTrackingEnabledForVisual(visualId) : true;
+  const landmarkFilter = getLandmarkFilterForVisual(visualId);
 
-  useEffect(() => {
-    if (handTrackingEnabled) return;
-    setHands3D([]);
-    setPinchVector(null);
-    setRightHandDistance(null);
-    setFinalVector(null);
-    setCurrentVector(null);
-  }, [handTrackingEnabled]);
+  // Frames from the selected tracking source (cleared while hand tracking is disabled)
+  const { frame, hands: hands3D, compositeVector, gestures } = useTrackingInputs({
+    enabled: handTrackingEnabled,
+    filter: landmarkFilter,
+  });
 
   // Handle both sync and async params
   useEffect(() => {
@@ -82,25 +102,145 @@ export default function FinalViewPage({ params }: { params: Promise<{ visualId:
     }
   }, [params]);
 
-  // Track pinch history (always call hooks before early returns)
-  usePinchHistory(pinchVector, {
-    onFinalVector: setFinalVector,
-    onCurrentVector: setCurrentVector,
-  });
-
-  // Update nodes per orbit based on right hand distance
   useEffect(() => {
-    if (rightHandDistance !== null) {
-      const clampedDistance = Math.min(0.25, Math.max(0, rightHandDistance));
-      const minNodes = 3;
-      const maxNodes = 10;
-      const mappedNodes = Math.round(minNodes + (clampedDistance / 0.25) * (maxNodes - minNodes));
-      setNodesPerOrbit(mappedNodes);
+    const search = new URLSearchParams(window.location.search);
+    setFollower(search.get('follow') === '1');
+    let storedRelay: string | null = null;
+    try {
+      storedRelay = localStorage.getItem(RELAY_URL_STORAGE_KEY);
+    } catch {
+      // ignore
+    }
+    const relay = search.get('relay') || storedRelay;
+    if (relay) {
+      setRelayUrl(relay);
+      setRelayDraft(relay);
+    }
+  }, []);
+
+  const connectRelay = (url: string | null) => {
+    setRelayUrl(url);
+    try {
+      if (url) localStorage.setItem(RELAY_URL_STORAGE_KEY, url);
+      else localStorage.removeItem(RELAY_URL_STORAGE_KEY);
+    } catch {
+      // ignore
     }
-  }, [rightHandDistance]);
+  };
 
   const visualConfig = getVisualConfig(visualId);
 
+  // Per-visual controls (kept local here; final_view is meant to be a “composed” UI)
+  const [activeControls, setActiveControls] = useVisualControls(visualConfig);
+
+  // Picked and recalled presets fade in (see lib/controlMorph.ts); any other change stops the fade
+  const controlMorph = useControlMorph(visualConfig?.controls?.schema ?? null, activeControls, setActiveControls);
+  const setControlsDirectly = (next: SetStateAction<object>) => {
+    controlMorph.stop();
+    setActiveControls(next);
+  };
+
+  // Controls from another window, a saved config or a preset link, migrated from `schemaVersion` (current when
+  // omitted) and repaired against the visual's schema
+  const applyControls = (controls: VisualControlType, schemaVersion?: number) => {
+    if (visualConfig?.controls) setControlsDirectly(migrateControls(visualConfig.controls, controls, schemaVersion).controls);
+  };
+
+  // A saved configuration picked in the preset browser, stepped to by gesture or recalled by an operator. What had to
+  // change to fit the current controls is listed under the presets, as in the control panel
+  const [loadReport, setLoadReport] = useState<{ name: string; lines: string[] } | null>(null);
+  const loadConfig = (config: SavedVisualConfig) => {
+    if (!visualConfig?.controls) return;
+    const migrated = migrateControls(visualConfig.controls, config.controls, config.schemaVersion);
+    controlMorph.morphTo(migrated.controls, morphSettings);
+    setLoadReport({ name: config.name, lines: describeMigration(visualConfig.controls, migrated) });
+    setConfigName(config.name);
+    if (config.modulations) setSyncedModulations(normalizeModulationMappings(config.modulations));
+  };
+
+  // Preset from a shared link (`?preset=…`, see lib/presetTransfer.ts), applied once per visual
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const presetVisualRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!visualConfig || presetVisualRef.current === visualConfig.id) return;
+    presetVisualRef.current = visualConfig.id;
+    const param = new URLSearchParams(window.location.search).get('preset');
+    if (!param) return;
+    try {
+      const preset = decodePresetParam(param);
+      applyControls(preset.controls, preset.schemaVersion);
+      setConfigName(preset.name ?? null);
+      if (preset.modulations) setSyncedModulations(normalizeModulationMappings(preset.modulations));
+      setPresetError(null);
+    } catch (error) {
+      console.error('Error applying preset link:', error);
+      setPresetError(error instanceof Error ? error.message : 'Failed to apply preset link');
+    }
+  }, [visualConfig]);
+
+  // Controls, palette and loaded configs from a control panel of the same visual
+  useVisualSyncFollower(visualId, ({ controls, modulations, configName: name, morph }) => {
+    setSyncedModulations(modulations);
+    setConfigName(name ?? null);
+    setSyncedMorph(morph ?? null);
+    if (controls) applyControls(controls);
+  });
+
+  // Operator commands from the LAN relay (see lib/remoteControl.ts)
+  const { client: remote, status: remoteStatus } = useRemoteControl(relayUrl, 'display', (message) => {
+    if (message.type === 'welcome' || message.type === 'peers') {
+      setOperatorCount(message.operators);
+    } else if (message.type === 'switchVisual') {
+      if (message.visualId !== visualId && getVisualConfig(message.visualId)) {
+        // Keep the other query params (follow, relay); a preset link only applies to its own visual
+        const search = new URLSearchParams(window.location.search);
+        search.delete('preset');
+        const query = search.toString();
+        router.push(`/${message.visualId}/final_view${query ? `?${query}` : ''}`);
+      }
+    } else if (message.type === 'controlPatch' && message.visualId === visualId && activeControls) {
+      const isValid = (key: string, value: ControlPatchValue) => isValidVisualControlValue(visualConfig!, key, value);
+      setControlsDirectly(applyControlPatch(activeControls, message.patch, isValid));
+    } else if (message.type === 'recallPreset' && message.visualId === visualId) {
+      const name = message.name.toLowerCase();
+      const config = loadSavedConfigs(visualId).find((c) => c.name.toLowerCase() === name);
+      if (config) loadConfig(config);
+    }
+  });
+
+  // Tell operators what this display shows (on connect, on every change and when an operator joins)
+  const storageRevision = useStorageRevision();
+  useEffect(() => {
+    if (remoteStatus !== 'open' || !remote || !visualId || operatorCount === 0) return;
+    remote.send({
+      type: 'status',
+      visualId,
+      controls: activeControls as unknown as Record<string, ControlPatchValue> | null,
+      presets: loadSavedConfigs(visualId).map((c) => c.name),
+    });
+  }, [remote, remoteStatus, visualId, activeControls, operatorCount, storageRevision]);
+
+  // Hand-driven control values (modulation matrix, see modulation.ts)
+  const modulations =
+    syncedModulations ?? getModulationsForVisual(visualId) ?? getVisualDefaultModulations(visualConfig);
+  const audio = useAudioFeatures();
+  const modulation = useModulation(frame, modulations, audio);
+
+  // PNG snapshots and recordings of the visual (see lib/capture.ts)
+  const visualCapture = useVisualCapture({ visualId, configName, settings: capture, containerRef: visualRef, hands: hands3D });
+
+  // Gesture-driven control changes, e.g. swipes cycling the constellation palette, and the preset browser's gestures
+  // fading to the next or previous preset (followers get them from the control panel)
+  useVisualGestures(gestures, {
+    visualId,
+    plugin: visualConfig,
+    setControls: setActiveControls,
+    morphSettings,
+    configName,
+    onStepPreset: loadConfig,
+    enabled: !follower,
+  });
+
   if (!visualId) {
     return <div className="flex items-center justify-center w-screen h-screen bg-black text-white">Loading...</div>;
   }
@@ -109,75 +249,156 @@ export default function FinalViewPage({ params }: { params: Promise<{ visualId:
     notFound();
   }
 
-  const renderVisual = () => {
-    switch (visualConfig.component) {
-      case 'PinchControlled3D':
-        return (
-          <PinchControlled3D
-            vector={pinchVector}
-            nodesPerOrbit={nodesPerOrbit}
-            onPhaseAnglesChange={setPhaseAngles}
-            fullscreen={true}
-          />
-        );
-      case 'BasicHandTracking':
-        // For basic tracking, we show the tracking feed as the main visual.
-        return (
-          handTrackingEnabled ? (
-            <HandTracking
-              leftHanded={leftHanded}
-              enablePose={bodyTrackingEnabled}
-              className="w-full h-full"
-              hideRestartButton={true}
-            />
-          ) : (
-            <div className="w-full h-full flex items-center justify-center bg-black text-white">
-              Hand tracking is disabled for this visual.
-            </div>
-          )
-        );
-      case 'Hand3DVisual':
-        return <Hand3DVisual hands={hands3D} className="w-full h-full" overlayMode="skeleton" />;
-      case 'PrismHandVisual':
-        return <PrismHandVisual hands={hands3D} className="w-full h-full" controls={prismControls} />;
-      case 'OneLineHandVisual':
-        return <OneLineHandVisual hands={hands3D} className="w-full h-full" controls={oneLineControls} />;
-      case 'ConstellationVisual':
-        return <ConstellationVisual hands={hands3D} className="w-full h-full" controls={constellationControls} />;
-      default:
-        return <div className="p-6">Visual component not implemented yet</div>;
-    }
-  };
+  const { Component: Visual, controls: controlsDefinition } = visualConfig;
+  const hasAudienceControls =
+    controlsDefinition !== null && Object.values(controlsDefinition.schema).some(isAudienceControl);
 
   return (
     <main className="w-screen h-screen bg-black text-white" data-testid="final-view-root">
       <FpsOverlay position="bottom-left" />
 
-      <div className="grid h-full grid-cols-1 md:grid-cols-[1fr_380px]">
+      <div className={`grid h-full grid-cols-1 ${follower ? '' : 'md:grid-cols-[1fr_380px]'}`}>
         {/* Main visual area (true fullscreen) */}
-        <section className="relative overflow-hidden">
-          {renderVisual()}
+        <section ref={visualRef} className="relative overflow-hidden">
+          <Visual
+            view="final"
+            frame={frame}
+            compositeVector={compositeVector}
+            controls={applyModulation(activeControls ?? {}, modulation)}
+            modulation={modulation}
+            feed={{ enabled: handTrackingEnabled, leftHanded, enablePose: bodyTrackingEnabled, enableFace: faceTrackingEnabled }}
+            className="w-full h-full"
+            morph={controlMorph.frame ?? syncedMorph}
+          />
 
           {/* Minimal top-left nav (kept lightweight for user-facing view) */}
-          <div className="absolute top-4 left-4 z-50 flex gap-2">
-            <Link
-              href="/"
-              className="px-3 py-2 bg-gray-900/70 text-white rounded-lg hover:bg-gray-800/70 transition-colors backdrop-blur-sm text-sm"
+          {follower ? (
+            <button
+              onClick={() => setFollower(false)}
+              className="absolute top-4 right-4 z-50 px-3 py-2 bg-gray-900/70 text-white rounded-lg text-sm opacity-0 hover:opacity-100 focus:opacity-100 transition-opacity"
             >
-              ← Back
-            </Link>
-          </div>
+              Show panel
+            </button>
+          ) : (
+            <div className="absolute top-4 left-4 z-50 flex gap-2">
+              <Link
+                href="/"
+                className="px-3 py-2 bg-gray-900/70 text-white rounded-lg hover:bg-gray-800/70 transition-colors backdrop-blur-sm text-sm"
+              >
+                ← Back
+              </Link>
+            </div>
+          )}
         </section>
 
-        {/* Custom layout panel (intentionally user-facing & customizable) */}
-        <aside className="border-t md:border-t-0 md:border-l border-white/10 bg-gray-950/80 backdrop-blur-sm p-4 overflow-y-auto">
+        {/* Custom layout panel (intentionally user-facing & customizable). Followers move it offscreen rather than
+            unmounting it: its tracking preview is the view's only camera feed, so the visual would lose its hands */}
+        <aside
+          aria-hidden={follower || undefined}
+          inert={follower}
+          className={
+            follower
+              ? 'fixed top-0 -left-[9999px] w-[380px] h-full overflow-hidden pointer-events-none'
+              : 'border-t md:border-t-0 md:border-l border-white/10 bg-gray-950/80 backdrop-blur-sm p-4 overflow-y-auto'
+          }
+        >
           <div className="space-y-4">
             <div>
               <div className="text-xs uppercase tracking-wide text-white/60">Final View</div>
               <div className="text-lg font-semibold">{visualConfig.name}</div>
               <div className="text-sm text-white/70">{visualConfig.description}</div>
+              {configName && <div className="mt-1 text-xs text-white/60">Preset: {configName}</div>}
+              {presetError && <div className="mt-1 text-xs text-red-400">{presetError}</div>}
+            </div>
+
+            <button
+              onClick={() => setFollower(true)}
+              className="w-full px-3 py-2 rounded bg-emerald-600/80 hover:bg-emerald-600 text-white text-sm"
+            >
+              Follow control panel (hide this panel)
+            </button>
+
+            {/* Remote control: operator commands over the LAN relay (`npm run relay`) */}
+            <div className="rounded-lg border border-white/10 bg-black/30 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium">Remote control</div>
+                <div className="text-xs text-white/60">
+                  {relayUrl ? `${remoteStatus}${remoteStatus === 'open' ? ` · ${operatorCount} operator(s)` : ''}` : 'off'}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={relayDraft}
+                  onChange={(e) => setRelayDraft(e.target.value)}
+                  disabled={!!relayUrl}
+                  className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/20 text-xs font-mono"
+                />
+                <button
+                  onClick={() => connectRelay(relayUrl ? null : relayDraft.trim() || null)}
+                  className="px-3 py-1 rounded bg-gray-800/80 hover:bg-gray-800 text-white text-xs"
+                >
+                  {relayUrl ? 'Disconnect' : 'Connect'}
+                </button>
+              </div>
             </div>
 
+            <CaptureControlsCompact
+              settings={capture}
+              onChange={setCapture}
+              resolutions={visualCapture.resolutions}
+              status={visualCapture.status}
+              elapsedMs={visualCapture.elapsedMs}
+              error={visualCapture.error}
+              onSnapshot={visualCapture.snapshot}
+              onToggleRecording={visualCapture.toggleRecording}
+            />
+
+            {/* Audience controls: the schema entries marked `audience` */}
+            {hasAudienceControls && activeControls && (
+              <div className="rounded-lg border border-white/10 bg-black/30 p-3 space-y-2">
+                <div className="text-sm font-medium">{controlsDefinition.title}</div>
+                <SchemaControls
+                  schema={controlsDefinition.schema}
+                  controls={activeControls}
+                  onChange={setControlsDirectly}
+                  variant="dark"
+                  filter={isAudienceControl}
+                />
+              </div>
+            )}
+
+            {/* Preset browser: pick a look by its thumbnail */}
+            {controlsDefinition && (
+              <div className="rounded-lg border border-white/10 bg-black/30 p-3 space-y-2">
+                <div className="text-sm font-medium">Presets</div>
+                <PresetBrowser
+                  visualId={visualId}
+                  onSelect={loadConfig}
+                  activeName={configName}
+                  variant="dark"
+                  captureThumbnail={visualCapture.thumbnail}
+                  morphSettings={morphSettings}
+                  onMorphSettingsChange={setMorphSettings}
+                />
+                {loadReport && loadReport.lines.length > 0 && (
+                  <div className="text-xs text-amber-300 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">“{loadReport.name}” was adjusted to fit the current controls</span>
+                      <button onClick={() => setLoadReport(null)} className="text-white/60 hover:text-white">
+                        ✕
+                      </button>
+                    </div>
+                    <ul className="list-disc pl-4">
+                      {loadReport.lines.map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Custom layout slot (start simple; evolve per visual) */}
             <div className="rounded-lg border border-white/10 bg-black/30 p-3">
               <div className="text-sm font-medium mb-1">Custom Layout Area</div>
@@ -188,7 +409,7 @@ export default function FinalViewPage({ params }: { params: Promise<{ visualId:
             </div>
 
             {/* Tracking preview lives here in final_view so the main canvas stays clean */}
-            {visualConfig.component !== 'BasicHandTracking' && (
+            {visualConfig.feed !== 'visual' && (
               <div className="rounded-lg border border-white/10 overflow-hidden">
                 <div className="px-3 py-2 bg-black/40 border-b border-white/10 flex items-center justify-between">
                   <div className="text-sm font-medium">Tracking</div>
@@ -216,24 +437,19 @@ export default function FinalViewPage({ params }: { params: Promise<{ visualId:
                     <div className="mt-1 text-[11px] text-white/60">Visual will not react while disabled.</div>
                   )}
                 </div>
+                <div className="px-3 py-2 bg-black/30 border-b border-white/10 text-white/80">
+                  <TrackingSourcePicker />
+                </div>
                 <div className="aspect-video">
                   {handTrackingEnabled ? (
-                    <HandTracking
-                      onHands3D={
-                        visualConfig.component === 'Hand3DVisual' ||
-                        visualConfig.component === 'PrismHandVisual' ||
-                        visualConfig.component === 'OneLineHandVisual' ||
-                        visualConfig.component === 'ConstellationVisual'
-                          ? handleHands3D
-                          : undefined
-                      }
-                      onPinchVector={setPinchVector}
-                      compositeVector={currentVector || finalVector}
-                      onRightHandDistance={setRightHandDistance}
+                    <TrackingSourceFeed
+                      compositeVector={compositeVector}
                       leftHanded={leftHanded}
                       enablePose={bodyTrackingEnabled}
+                      enableFace={faceTrackingEnabled}
                       className="w-full h-full"
                       hideRestartButton={true}
+                      placeholderClassName="w-full h-full flex items-center justify-center bg-black/40 text-white/80 text-sm text-center p-2"
                     />
                   ) : (
                     <div className="w-full h-full flex items-center justify-center bg-black/40 text-white/80 text-sm">
@@ -0,0 +1,390 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+import { parseRecording, type LandmarkRecording } from '@/components/hand-tracking/landmarkRecording';
+import {
+  applyModulation,
+  normalizeModulationMappings,
+  type ModulationMapping,
+} from '@/components/hand-tracking/modulation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTrackingSettings } from '@/components/providers/TrackingSettingsProvider';
+import { useTrackingSource } from '@/components/providers/TrackingSourceProvider';
+import { useOfflineRender, type OfflineRenderStatus } from '@/hooks/useOfflineRender';
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import { useVisualSyncFollower } from '@/hooks/useVisualSync';
+import {
+  DEFAULT_OFFLINE_RENDER_SETTINGS,
+  OFFLINE_RENDER_FORMATS,
+  OFFLINE_RENDER_FORMAT_LABELS,
+  OFFLINE_RENDER_FRAME_RATES,
+  OFFLINE_RENDER_SIZES,
+  getOfflineFrameCount,
+  getOfflineRenderSize,
+  normalizeOfflineRenderSettings,
+  type OfflineRenderFormat,
+  type OfflineRenderSettings,
+} from '@/lib/offlineRender';
+import { MAX_SEED, randomSeed } from '@/lib/random';
+import { loadSavedConfigs, type SavedVisualConfig, type VisualControlType } from '@/lib/visualConfigStorage';
+import { getVisualDefaultModulations, resolveVisualControls } from '@/lib/visualRegistry';
+
+import { getVisualConfig } from '../../visuals-config';
+
+const SETTINGS_STORAGE_KEY = 'render:settings';
+const SELECT_CLASS = 'px-2 py-1 rounded bg-white text-gray-900 border border-gray-300';
+const PREVIEW_MAX_WIDTH = 640;
+const PREVIEW_MAX_HEIGHT = 480;
+
+// Where the rendered controls come from: the open control panel, a saved configuration (by id) or the defaults
+const CONTROL_PANEL_SOURCE = 'control-panel';
+const DEFAULTS_SOURCE = 'defaults';
+
+const STATUS_LABELS: Record<OfflineRenderStatus, string> = {
+  idle: '',
+  preparing: 'preparing…',
+  rendering: 'rendering',
+  finishing: 'saving…',
+  done: 'done',
+  cancelled: 'cancelled',
+  error: 'failed',
+};
+
+/**
+ * OFFLINE RENDER
+ *
+ * Renders a recorded session frame by frame with a fixed timestep (see
+ * `lib/offlineRender.ts`) at a chosen size and frame rate, to a PNG sequence
+ * or a WebM video. Controls come from an open control panel of the same
+ * visual, a saved configuration or the defaults.
+ *
+ * Route: /hands/[visualId]/render
+ */
+export default function RenderPage({ params }: { params: Promise<{ visualId: string }> }) {
+  const [visualId, setVisualId] = useState<string>('');
+  const { getLandmarkFilterForVisual, getModulationsForVisual } = useTrackingSettings();
+  const { recording: sourceRecording } = useTrackingSource();
+  const [fileRecording, setFileRecording] = useState<{ name: string; recording: LandmarkRecording } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<OfflineRenderSettings>(DEFAULT_OFFLINE_RENDER_SETTINGS);
+  const [controlSource, setControlSource] = useState(CONTROL_PANEL_SOURCE);
+  const [savedConfigs, setSavedConfigs] = useState<SavedVisualConfig[]>([]);
+  // Latest state published by a control panel of this visual
+  const [synced, setSynced] = useState<{
+    controls: VisualControlType | null;
+    modulations: ModulationMapping[];
+    configName: string | null;
+  } | null>(null);
+  const visualRef = useRef<HTMLDivElement>(null);
+
+  // Handle both sync and async params
+  useEffect(() => {
+    const anyParams = params as any;
+    if (anyParams && typeof anyParams.then === 'function') {
+      (anyParams as Promise<{ visualId: string }>).then((resolved) => setVisualId(resolved.visualId));
+      return;
+    }
+    if (anyParams && typeof anyParams.visualId === 'string') {
+      setVisualId(anyParams.visualId);
+    }
+  }, [params]);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (stored) setSettings(normalizeOfflineRenderSettings(JSON.parse(stored)));
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  const storageRevision = useStorageRevision();
+  useEffect(() => {
+    if (visualId) setSavedConfigs(loadSavedConfigs(visualId));
+  }, [visualId, storageRevision]);
+
+  useVisualSyncFollower(visualId, ({ controls, modulations, configName }) => {
+    setSynced({ controls, modulations, configName: configName ?? null });
+  });
+
+  const updateSettings = (next: OfflineRenderSettings) => {
+    setSettings(next);
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // ignore
+    }
+  };
+  const set = <K extends keyof OfflineRenderSettings>(key: K, value: OfflineRenderSettings[K]) =>
+    updateSettings({ ...settings, [key]: value });
+
+  const visualConfig = getVisualConfig(visualId);
+  const recording = fileRecording?.recording ?? sourceRecording;
+
+  const savedConfig = savedConfigs.find((c) => c.id === controlSource) ?? null;
+  const storedModulations = getModulationsForVisual(visualId) ?? getVisualDefaultModulations(visualConfig);
+  let controls: VisualControlType | null = null;
+  let modulations = storedModulations;
+  let configName: string | null = null;
+  if (controlSource === CONTROL_PANEL_SOURCE && synced) {
+    controls = synced.controls;
+    modulations = synced.modulations;
+    configName = synced.configName;
+  } else if (savedConfig) {
+    controls = savedConfig.controls;
+    if (savedConfig.modulations) modulations = normalizeModulationMappings(savedConfig.modulations);
+    configName = savedConfig.name;
+  }
+
+  const render = useOfflineRender({
+    visualId,
+    configName,
+    recording,
+    modulations,
+    filter: getLandmarkFilterForVisual(visualId),
+    settings,
+    containerRef: visualRef,
+  });
+  const busy = render.status === 'preparing' || render.status === 'rendering' || render.status === 'finishing';
+
+  const handleFile = async (file: File) => {
+    try {
+      setFileRecording({ name: file.name, recording: parseRecording(await file.text()) });
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading recording:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load recording');
+    }
+  };
+
+  if (!visualId) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  if (!visualConfig) {
+    notFound();
+  }
+
+  const { Component: Visual } = visualConfig;
+  const size = getOfflineRenderSize(settings.size);
+  const scale = Math.min(PREVIEW_MAX_WIDTH / size.width, PREVIEW_MAX_HEIGHT / size.height);
+  const frameCount = recording ? getOfflineFrameCount(recording.durationMs, settings.fps) : 0;
+
+  const renderVisual = () => {
+    const current = render.current;
+    if (!current) return null;
+    return (
+      <Visual
+        key={render.runId}
+        view="offline"
+        offline
+        seed={settings.seed}
+        frame={current.frame}
+        compositeVector={null}
+        controls={applyModulation(resolveVisualControls(visualConfig, controls) ?? {}, current.modulation)}
+        modulation={current.modulation}
+        feed={{ enabled: true, leftHanded: false, enablePose: false, enableFace: false }}
+      />
+    );
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 md:p-8 lg:p-24">
+      <div className="z-10 max-w-6xl w-full space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">{visualConfig.name} - Offline Render</h1>
+            <p className="text-muted-foreground">Render a recorded session frame by frame to a PNG sequence or video</p>
+          </div>
+          <Link
+            href={`/${visualId}/control-panel`}
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            ← Control Panel
+          </Link>
+        </div>
+
+        {!visualConfig.offline ? (
+          <Card>
+            <CardContent className="pt-6 text-sm">Offline rendering is not supported for this visual yet.</CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Render</CardTitle>
+                <CardDescription>
+                  Each frame is rendered at a fixed timestep, so the output is smooth however long a frame takes, and the
+                  same recording, controls and seed always give the same frames. Keep this tab visible while rendering.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <label className="px-3 py-1 rounded border border-gray-300 cursor-pointer text-xs">
+                    Load recording…
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      disabled={busy}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <span className="text-xs text-muted-foreground">
+                    {recording
+                      ? `${fileRecording ? fileRecording.name : 'Recording from the tracking source'}: ${(recording.durationMs / 1000).toFixed(1)} s, ${recording.frames.length} frames recorded`
+                      : 'No recording loaded (load one here or pick a recorded session as the tracking source)'}
+                  </span>
+                  {loadError && <span className="text-xs text-red-600">{loadError}</span>}
+                </div>
+
+                <div className="grid gap-3 md:grid-cols-4">
+                  <label className="flex flex-col gap-1 text-xs">
+                    <span>Controls</span>
+                    <select
+                      value={controlSource}
+                      onChange={(e) => setControlSource(e.target.value)}
+                      disabled={busy}
+                      className={SELECT_CLASS}
+                    >
+                      <option value={CONTROL_PANEL_SOURCE}>
+                        {synced ? 'Open control panel' : 'Open control panel (not connected)'}
+                      </option>
+                      <option value={DEFAULTS_SOURCE}>Defaults</option>
+                      {savedConfigs.map((config) => (
+                        <option key={config.id} value={config.id}>
+                          {config.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs">
+                    <span>Size</span>
+                    <select
+                      value={settings.size}
+                      onChange={(e) => set('size', e.target.value)}
+                      disabled={busy}
+                      className={SELECT_CLASS}
+                    >
+                      {OFFLINE_RENDER_SIZES.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs">
+                    <span>Frame rate</span>
+                    <select
+                      value={settings.fps}
+                      onChange={(e) => set('fps', parseInt(e.target.value, 10))}
+                      disabled={busy}
+                      className={SELECT_CLASS}
+                    >
+                      {OFFLINE_RENDER_FRAME_RATES.map((fps) => (
+                        <option key={fps} value={fps}>
+                          {fps} fps
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs">
+                    <span>Output</span>
+                    <select
+                      value={settings.format}
+                      onChange={(e) => set('format', e.target.value as OfflineRenderFormat)}
+                      disabled={busy}
+                      className={SELECT_CLASS}
+                    >
+                      {OFFLINE_RENDER_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {OFFLINE_RENDER_FORMAT_LABELS[format]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span>Seed</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_SEED}
+                    value={settings.seed}
+                    disabled={busy}
+                    onChange={(e) => {
+                      const seed = parseInt(e.target.value, 10);
+                      if (Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED) set('seed', seed);
+                    }}
+                    className="w-32 px-2 py-1 rounded border border-gray-300 font-mono"
+                  />
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => set('seed', randomSeed())}>
+                    Randomize
+                  </Button>
+                  {!visualConfig.seeded && (
+                    <span className="text-muted-foreground">This visual has no randomness; the seed has no effect.</span>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button size="sm" variant={busy ? 'destructive' : 'default'} disabled={!recording && !busy} onClick={busy ? render.cancel : render.start}>
+                    {busy ? 'Cancel' : `Render ${frameCount} frames`}
+                  </Button>
+                  {(render.status === 'rendering' || render.status === 'finishing' || render.status === 'done') && (
+                    <span className="text-xs font-mono">
+                      {render.progress.frame} / {render.progress.total}
+                    </span>
+                  )}
+                  {STATUS_LABELS[render.status] && (
+                    <span className="text-xs text-muted-foreground">{STATUS_LABELS[render.status]}</span>
+                  )}
+                  {render.error && <span className="text-xs text-red-600">{render.error}</span>}
+                </div>
+                {render.progress.total > 0 && (
+                  <div className="h-1 rounded bg-gray-200 overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600"
+                      style={{ width: `${(100 * render.progress.frame) / render.progress.total}%` }}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {size.label} shown at {Math.round(scale * 100)}%
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div
+                  className="bg-black overflow-hidden"
+                  style={{ width: size.width * scale, height: size.height * scale }}
+                >
+                  {/* Laid out at full size (the canvas measures its layout size), scaled down for display */}
+                  <div
+                    ref={visualRef}
+                    style={{ width: size.width, height: size.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+                  >
+                    {renderVisual()}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CONSTELLATION_PALETTES } from '@/components/hand-tracking/constellationPalettes';
+import { useRemoteControl } from '@/hooks/useRemoteControl';
+import { DEFAULT_RELAY_URL, type ControlPatchValue, type RemoteMessage } from '@/lib/remoteControl';
+import { getAllEnabledVisuals, getVisualConfig } from '../visuals-config';
+
+const RELAY_URL_STORAGE_KEY = 'remote:relayUrl';
+
+type DisplayStatus = Extract<RemoteMessage, { type: 'status' }>;
+
+/**
+ * OPERATOR
+ *
+ * Drives final views on other machines through the LAN relay
+ * (`npm run relay`, see `scripts/remote-relay.mjs`): switch every display to a
+ * visual, patch its controls and recall presets saved on the displays.
+ */
+export default function OperatorPage() {
+  const [relayDraft, setRelayDraft] = useState(DEFAULT_RELAY_URL);
+  const [relayUrl, setRelayUrl] = useState<string | null>(null);
+  const [selectedVisualId, setSelectedVisualId] = useState(() => getAllEnabledVisuals()[0]?.id ?? '');
+  const [peers, setPeers] = useState({ displays: 0, operators: 0 });
+  const [displays, setDisplays] = useState<Record<string, DisplayStatus>>({});
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(RELAY_URL_STORAGE_KEY);
+      if (stored) setRelayDraft(stored);
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  const { client, status } = useRemoteControl(relayUrl, 'operator', (message) => {
+    if (message.type === 'welcome' || message.type === 'peers') {
+      setPeers({ displays: message.displays, operators: message.operators });
+      // Forget displays that left; the rest re-send their status when the peer count changes
+      if (message.displays === 0) setDisplays({});
+    } else if (message.type === 'status' && message.from) {
+      setDisplays((prev) => ({ ...prev, [message.from!]: message }));
+    } else if (message.type === 'error') {
+      setLastError(message.message);
+    }
+  }, 'Operator');
+
+  const connect = () => {
+    const url = relayDraft.trim();
+    if (!url) return;
+    setRelayUrl(url);
+    setLastError(null);
+    try {
+      localStorage.setItem(RELAY_URL_STORAGE_KEY, url);
+    } catch {
+      // ignore
+    }
+  };
+
+  const disconnect = () => {
+    setRelayUrl(null);
+    setDisplays({});
+    setPeers({ displays: 0, operators: 0 });
+  };
+
+  const visualConfig = getVisualConfig(selectedVisualId);
+  const statuses = Object.values(displays);
+  const current = statuses.find((s) => s.visualId === selectedVisualId) ?? null;
+  const controls: Record<string, ControlPatchValue> | null =
+    current?.controls ??
+    (visualConfig?.controls?.defaults as Record<string, ControlPatchValue> | undefined) ??
+    null;
+  const presets = Array.from(new Set(statuses.filter((s) => s.visualId === selectedVisualId).flatMap((s) => s.presets)));
+  const connected = status === 'open' && !!client;
+
+  const sendPatch = (key: string, value: ControlPatchValue) => {
+    client?.send({ type: 'controlPatch', visualId: selectedVisualId, patch: { [key]: value } });
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 md:p-8 lg:p-24">
+      <div className="z-10 max-w-6xl w-full space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Operator</h1>
+            <p className="text-muted-foreground">Control final views on other machines over the local network.</p>
+          </div>
+          <Link href="/" className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors">
+            ← Back
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Relay</CardTitle>
+            <CardDescription>
+              Start the relay with <span className="font-mono">npm run relay</span>, paste one of the URLs it prints
+              (with its token) here and connect final views with{' '}
+              <span className="font-mono">?relay=ws://&lt;relay-ip&gt;:8787/?token=&lt;token&gt;</span>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={relayDraft}
+                onChange={(e) => setRelayDraft(e.target.value)}
+                disabled={!!relayUrl}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white text-black font-mono"
+              />
+              <Button size="sm" variant={relayUrl ? 'outline' : 'default'} onClick={relayUrl ? disconnect : connect}>
+                {relayUrl ? 'Disconnect' : 'Connect'}
+              </Button>
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {relayUrl ? status : 'idle'} · {peers.displays} display(s) · {peers.operators} operator(s)
+            </div>
+            {lastError && <p className="text-sm text-red-600">Relay: {lastError}</p>}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Visual</CardTitle>
+              <CardDescription>Pick a visual to control; switching moves every display to it.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2 items-center">
+                <select
+                  value={selectedVisualId}
+                  onChange={(e) => setSelectedVisualId(e.target.value)}
+                  className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300"
+                >
+                  {getAllEnabledVisuals().map((visual) => (
+                    <option key={visual.id} value={visual.id}>
+                      {visual.name}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  disabled={!connected}
+                  onClick={() => client?.send({ type: 'switchVisual', visualId: selectedVisualId })}
+                >
+                  Switch displays
+                </Button>
+              </div>
+              <div>
+                <div className="text-xs font-semibold mb-1">Displays</div>
+                {statuses.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No display has reported yet.</p>
+                ) : (
+                  <ul className="text-xs font-mono space-y-0.5">
+                    {Object.entries(displays).map(([id, s]) => (
+                      <li key={id}>
+                        {id} · {getVisualConfig(s.visualId)?.name ?? s.visualId}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <div className="text-xs font-semibold mb-1">Presets on displays</div>
+                {presets.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No saved configurations reported for this visual.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {presets.map((name) => (
+                      <Button
+                        key={name}
+                        variant="outline"
+                        size="sm"
+                        disabled={!connected}
+                        onClick={() => client?.send({ type: 'recallPreset', visualId: selectedVisualId, name })}
+                      >
+                        {name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Controls</CardTitle>
+              <CardDescription>
+                {current ? 'Live values from a display showing this visual.' : 'Defaults (no display shows this visual yet).'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!controls ? (
+                <p className="text-sm text-muted-foreground">This visual has no remote controls.</p>
+              ) : (
+                <div className="space-y-2 max-h-[60vh] overflow-y-auto pr-2">
+                  {Object.entries(controls).map(([key, value]) => (
+                    <label key={key} className="flex items-center justify-between gap-4 text-xs">
+                      <span>{key}</span>
+                      {typeof value === 'boolean' ? (
+                        <input
+                          type="checkbox"
+                          checked={value}
+                          disabled={!connected}
+                          onChange={(e) => sendPatch(key, e.target.checked)}
+                          className="w-4 h-4"
+                        />
+                      ) : typeof value === 'number' ? (
+                        <input
+                          type="number"
+                          step="any"
+                          defaultValue={value}
+                          key={`${key}:${value}`}
+                          disabled={!connected}
+                          onBlur={(e) => {
+                            const next = parseFloat(e.target.value);
+                            if (Number.isFinite(next) && next !== value) sendPatch(key, next);
+                          }}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                          }}
+                          className="w-28 px-2 py-1 rounded bg-white text-gray-900 border border-gray-300 font-mono"
+                        />
+                      ) : key === 'palette' ? (
+                        <select
+                          value={value}
+                          disabled={!connected}
+                          onChange={(e) => sendPatch(key, e.target.value)}
+                          className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300"
+                        >
+                          {CONSTELLATION_PALETTES.map((p) => (
+                            <option key={p.id} value={p.id}>
+                              {p.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="font-mono">{value}</span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,8 +1,9 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
-import Script from "next/script";
 import "./globals.css";
 import { TrackingSettingsProvider } from "@/components/providers/TrackingSettingsProvider";
+import { TrackingSourceProvider } from "@/components/providers/TrackingSourceProvider";
+import { AudioInputProvider } from "@/components/providers/AudioInputProvider";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -19,28 +20,11 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        {/* Load MediaPipe from CDN */}
-        <Script
-          src="https://cdn.jsdelivr.net/npm/@mediapipe/drawing_utils/drawing_utils.js"
-          strategy="beforeInteractive"
-        />
-        <Script
-          src="https://cdn.jsdelivr.net/npm/@mediapipe/pose/pose.js"
-          strategy="beforeInteractive"
-        />
-        <Script
-          src="https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js"
-          strategy="beforeInteractive"
-        />
-        <Script
-          src="https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/face_mesh.js"
-          strategy="beforeInteractive"
-        />
-        <Script
-          src="https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js"
-          strategy="beforeInteractive"
-        />
-        <TrackingSettingsProvider>{children}</TrackingSettingsProvider>
+        <TrackingSettingsProvider>
+          <TrackingSourceProvider>
+            <AudioInputProvider>{children}</AudioInputProvider>
+          </TrackingSourceProvider>
+        </TrackingSettingsProvider>
       </body>
     </html>
   );
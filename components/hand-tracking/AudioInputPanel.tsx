@@ -0,0 +1,136 @@
+'use client';
+
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AudioInputDevice } from '@/components/providers/AudioInputProvider';
+import type { AudioFeatures } from '@/lib/audioAnalysis';
+import type { AudioInputSettings, AudioInputStatus } from '@/lib/audioInput';
+
+interface AudioInputPanelProps {
+  settings: AudioInputSettings;
+  onSettingsChange: (settings: AudioInputSettings) => void;
+  status: AudioInputStatus;
+  devices: AudioInputDevice[];
+  fileName: string | null;
+  onLoadFile: (file: File) => void;
+  onClearFile: () => void;
+  /** Latest analysis, for the meters. */
+  features: AudioFeatures | null;
+}
+
+const STATUS_LABELS: Record<AudioInputStatus, string> = {
+  idle: 'off',
+  pending: 'waiting for permission',
+  running: 'listening',
+  suspended: 'click anywhere to start audio',
+  denied: 'permission denied',
+  unsupported: 'not supported by this browser',
+  error: 'input unavailable',
+};
+
+const METERS: Array<{ key: 'level' | 'bass' | 'mid' | 'treble'; label: string }> = [
+  { key: 'level', label: 'Level' },
+  { key: 'bass', label: 'Bass' },
+  { key: 'mid', label: 'Mids' },
+  { key: 'treble', label: 'Treble' },
+];
+
+/** Control panel card for the audio input behind the audio modulation signals (see `lib/audioInput.ts`). */
+export function AudioInputPanel({
+  settings,
+  onSettingsChange,
+  status,
+  devices,
+  fileName,
+  onLoadFile,
+  onClearFile,
+  features,
+}: AudioInputPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audio Input</CardTitle>
+        <CardDescription>
+          Microphone or line input for the audio signals of the modulation matrix (level, bands, beat, tempo)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+              className="w-4 h-4"
+            />
+            <span>Listen</span>
+          </label>
+          <select
+            value={settings.deviceId}
+            onChange={(e) => onSettingsChange({ ...settings, deviceId: e.target.value })}
+            className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300 text-sm"
+          >
+            <option value="">Default input</option>
+            {devices
+              .filter((device) => device.deviceId && device.deviceId !== 'default')
+              .map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+          </select>
+          <span className="text-xs text-muted-foreground">{STATUS_LABELS[status]}</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            Play audio file…
+          </Button>
+          {fileName && (
+            <>
+              <span className="text-xs font-mono truncate max-w-[16rem]">{fileName}</span>
+              <Button variant="ghost" size="sm" onClick={onClearFile}>
+                Stop file
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          {METERS.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-2 text-xs">
+              <span className="w-12">{label}</span>
+              <div className="flex-1 h-2 rounded bg-gray-200 overflow-hidden">
+                <div className="h-full bg-primary" style={{ width: `${Math.round((features?.[key] ?? 0) * 100)}%` }} />
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 text-xs pt-1">
+            <span className="w-12">Beat</span>
+            <span
+              className="inline-block w-3 h-3 rounded-full bg-fuchsia-600"
+              style={{ opacity: 0.15 + 0.85 * (features?.beatPulse ?? 0) }}
+            />
+            <span className="font-mono ml-auto">
+              {features?.bpm ? `${Math.round(features.bpm)} BPM` : '— BPM'}
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
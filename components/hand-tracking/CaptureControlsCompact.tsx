@@ -0,0 +1,84 @@
+'use client';
+
+import {
+  CAPTURE_RESOLUTION_LABELS,
+  formatCaptureDuration,
+  type CaptureRecorderStatus,
+  type CaptureResolution,
+  type CaptureSettings,
+} from '@/lib/capture';
+import { CAPTURE_STATUS_LABELS } from './CapturePanel';
+
+interface CaptureControlsCompactProps {
+  settings: CaptureSettings;
+  onChange: (settings: CaptureSettings) => void;
+  /** Resolutions the visual's canvas can be captured at (`useVisualCapture`). */
+  resolutions: CaptureResolution[];
+  status: CaptureRecorderStatus;
+  elapsedMs: number;
+  error: string | null;
+  onSnapshot: () => void;
+  onToggleRecording: () => void;
+}
+
+/** Record/stop and snapshot for the final view's side panel (format and frame rate are set in the control panel). */
+export function CaptureControlsCompact({
+  settings,
+  onChange,
+  resolutions,
+  status,
+  elapsedMs,
+  error,
+  onSnapshot,
+  onToggleRecording,
+}: CaptureControlsCompactProps) {
+  const busy = status === 'recording' || status === 'starting';
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-black/30 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Capture</div>
+        <div className="text-xs text-white/60">
+          {status === 'recording' ? `● ${formatCaptureDuration(elapsedMs)}` : error ?? CAPTURE_STATUS_LABELS[status]}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={onToggleRecording}
+          className={`flex-1 px-3 py-1 rounded text-white text-xs ${
+            busy ? 'bg-red-600/80 hover:bg-red-600' : 'bg-gray-800/80 hover:bg-gray-800'
+          }`}
+        >
+          {busy ? 'Stop' : 'Record'}
+        </button>
+        <button onClick={onSnapshot} className="flex-1 px-3 py-1 rounded bg-gray-800/80 hover:bg-gray-800 text-white text-xs">
+          Snapshot
+        </button>
+      </div>
+      <div className="flex items-center gap-2 text-xs text-white/80">
+        <select
+          value={resolutions.includes(settings.resolution) ? settings.resolution : 'native'}
+          onChange={(e) => onChange({ ...settings, resolution: e.target.value as CaptureResolution })}
+          disabled={busy}
+          className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/20 text-xs"
+        >
+          {resolutions.map((resolution) => (
+            <option key={resolution} value={resolution} className="text-gray-900">
+              {CAPTURE_RESOLUTION_LABELS[resolution]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.pip}
+            onChange={(e) => onChange({ ...settings, pip: e.target.checked })}
+            disabled={busy}
+            className="w-4 h-4"
+          />
+          Camera PiP
+        </label>
+      </div>
+    </div>
+  );
+}
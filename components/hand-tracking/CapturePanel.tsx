@@ -0,0 +1,145 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  CAPTURE_FORMATS,
+  CAPTURE_FORMAT_LABELS,
+  CAPTURE_FRAME_RATES,
+  CAPTURE_RESOLUTION_LABELS,
+  formatCaptureDuration,
+  type CaptureFormat,
+  type CaptureRecorderStatus,
+  type CaptureResolution,
+  type CaptureSettings,
+} from '@/lib/capture';
+
+interface CapturePanelProps {
+  settings: CaptureSettings;
+  onChange: (settings: CaptureSettings) => void;
+  /** Resolutions the visual's canvas can be captured at (`useVisualCapture`). */
+  resolutions: CaptureResolution[];
+  status: CaptureRecorderStatus;
+  elapsedMs: number;
+  error: string | null;
+  /** Shown in file names; null when no configuration is loaded. */
+  configName: string | null;
+  onSnapshot: () => void;
+  onToggleRecording: () => void;
+}
+
+const SELECT_CLASS = 'px-2 py-1 rounded bg-white text-gray-900 border border-gray-300';
+
+export const CAPTURE_STATUS_LABELS: Record<CaptureRecorderStatus, string> = {
+  idle: '',
+  starting: 'starting…',
+  recording: 'recording',
+  unsupported: 'recording is not supported by this browser',
+  error: 'recording failed',
+};
+
+/** Control panel card for PNG snapshots and video recordings of the visual (see `lib/capture.ts`). */
+export function CapturePanel({
+  settings,
+  onChange,
+  resolutions,
+  status,
+  elapsedMs,
+  error,
+  configName,
+  onSnapshot,
+  onToggleRecording,
+}: CapturePanelProps) {
+  const set = <K extends keyof CaptureSettings>(key: K, value: CaptureSettings[K]) => onChange({ ...settings, [key]: value });
+  const busy = status === 'recording' || status === 'starting';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Capture</CardTitle>
+        <CardDescription>
+          Save a PNG snapshot or record a video of the visual{configName ? ` (files named after “${configName}”)` : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant={busy ? 'destructive' : 'default'} onClick={onToggleRecording}>
+            {busy ? 'Stop recording' : 'Record'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={onSnapshot}>
+            Snapshot
+          </Button>
+          {status === 'recording' && (
+            <span className="flex items-center gap-1 text-xs font-mono">
+              <span className="inline-block w-2 h-2 rounded-full bg-red-600 animate-pulse" />
+              {formatCaptureDuration(elapsedMs)}
+            </span>
+          )}
+          {status !== 'recording' && CAPTURE_STATUS_LABELS[status] && (
+            <span className="text-xs text-muted-foreground">{CAPTURE_STATUS_LABELS[status]}</span>
+          )}
+          {error && <span className="text-xs text-red-600">{error}</span>}
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-3">
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Resolution</span>
+            <select
+              value={resolutions.includes(settings.resolution) ? settings.resolution : 'native'}
+              onChange={(e) => set('resolution', e.target.value as CaptureResolution)}
+              disabled={busy}
+              className={SELECT_CLASS}
+            >
+              {resolutions.map((resolution) => (
+                <option key={resolution} value={resolution}>
+                  {CAPTURE_RESOLUTION_LABELS[resolution]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Video format</span>
+            <select
+              value={settings.format}
+              onChange={(e) => set('format', e.target.value as CaptureFormat)}
+              disabled={busy}
+              className={SELECT_CLASS}
+            >
+              {CAPTURE_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {CAPTURE_FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Frame rate</span>
+            <select
+              value={settings.fps}
+              onChange={(e) => set('fps', parseInt(e.target.value, 10))}
+              disabled={busy}
+              className={SELECT_CLASS}
+            >
+              {CAPTURE_FRAME_RATES.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps} fps
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.pip}
+            onChange={(e) => set('pip', e.target.checked)}
+            disabled={busy}
+            className="w-4 h-4"
+          />
+          <span>Camera feed and skeleton as picture-in-picture</span>
+        </label>
+      </CardContent>
+    </Card>
+  );
+}
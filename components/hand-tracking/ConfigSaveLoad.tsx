@@ -1,38 +1,106 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   saveVisualConfig,
+  saveConfigThumbnail,
   loadSavedConfigs,
   deleteSavedConfig,
   configNameExists,
   type SavedVisualConfig,
+  type VisualControlType,
 } from '@/lib/visualConfigStorage';
-import type { PrismHandControls } from './PrismHandVisual';
-import type { OneLineHandControls } from './OneLineHandVisual';
-import type { ConstellationControls } from './ConstellationVisual';
-
-type VisualControlType = PrismHandControls | OneLineHandControls | ConstellationControls;
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import type { VisualControlsDefinition } from '@/lib/visualRegistry';
+import { downloadBlob } from '@/lib/capture';
+import { describeMigration, getControlsVersion, migrateControls } from '@/lib/controlMigrations';
+import type { MorphSettings } from '@/lib/controlMorph';
+import { normalizeExternalControlMappings, type ExternalControlMapping } from '@/lib/externalControl';
+import {
+  createPresetFile,
+  findPresetConflicts,
+  getPresetFileName,
+  getPresetLink,
+  importPresets,
+  parsePresetFile,
+  serializePresetFile,
+  type PresetConflictResolution,
+  type PresetFile,
+} from '@/lib/presetTransfer';
+import { normalizeModulationMappings, type ModulationMapping } from './modulation';
+import { PresetBrowser } from './PresetBrowser';
 
 interface ConfigSaveLoadProps {
   visualId: string;
   currentControls: VisualControlType;
+  /** Called with the (migrated) controls of a picked configuration; the page may fade to them. */
   onLoadConfig: (controls: VisualControlType) => void;
+  /** Modulation matrix saved alongside the controls. */
+  currentModulations?: ModulationMapping[];
+  onLoadModulations?: (mappings: ModulationMapping[]) => void;
+  /** MIDI/OSC mappings saved alongside the controls. */
+  currentExternalMappings?: ExternalControlMapping[];
+  onLoadExternalMappings?: (mappings: ExternalControlMapping[]) => void;
+  /** Called with the name of a configuration when it is saved or loaded. */
+  onConfigNameChange?: (name: string) => void;
+  /**
+   * The visual's controls: saved with their schema version, loaded configs are
+   * migrated and validated, preset links leave out controls equal to the defaults.
+   */
+  controlsDefinition?: VisualControlsDefinition;
+  /** Thumbnail of the visual (image data URL), stored with each saved configuration. */
+  captureThumbnail?: () => Promise<string | null>;
+  /** Configuration on screen when the page also loads them (e.g. by gesture); highlighted in the browser. */
+  configName?: string | null;
+  /** How picking a configuration fades to it (see `lib/controlMorph.ts`). */
+  morphSettings?: MorphSettings;
+  onMorphSettingsChange?: (settings: MorphSettings) => void;
 }
 
-export function ConfigSaveLoad({ visualId, currentControls, onLoadConfig }: ConfigSaveLoadProps) {
+const CONFLICT_RESOLUTIONS: { value: PresetConflictResolution; label: string }[] = [
+  { value: 'rename', label: 'Keep both (rename)' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'skip', label: 'Skip' },
+];
+
+export function ConfigSaveLoad({
+  visualId,
+  currentControls,
+  onLoadConfig,
+  currentModulations,
+  onLoadModulations,
+  currentExternalMappings,
+  onLoadExternalMappings,
+  onConfigNameChange,
+  controlsDefinition,
+  captureThumbnail,
+  configName,
+  morphSettings,
+  onMorphSettingsChange,
+}: ConfigSaveLoadProps) {
   const [savedConfigs, setSavedConfigs] = useState<SavedVisualConfig[]>([]);
   const [saveName, setSaveName] = useState('');
   const [saveError, setSaveError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  // What loading the last config changed (migration, filled/clamped/dropped controls)
+  const [loadReport, setLoadReport] = useState<{ name: string; lines: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Preset file waiting for the conflicts to be resolved
+  const [pendingImport, setPendingImport] = useState<{ file: PresetFile; conflicts: string[] } | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, PresetConflictResolution>>({});
+  const [transferStatus, setTransferStatus] = useState<string | null>(null);
+  const [transferError, setTransferError] = useState<string | null>(null);
+  // Last saved or loaded configuration (highlighted in the browser)
+  const [activeName, setActiveName] = useState<string | null>(null);
+  const storageRevision = useStorageRevision();
 
-  // Load saved configs when component mounts or visualId changes
+  // Load saved configs when component mounts, visualId changes or storage changes
   useEffect(() => {
     const configs = loadSavedConfigs(visualId);
     setSavedConfigs(configs);
-  }, [visualId]);
+  }, [visualId, storageRevision]);
 
   const handleSave = () => {
     if (!saveName.trim()) {
@@ -49,9 +117,22 @@ export function ConfigSaveLoad({ visualId, currentControls, onLoadConfig }: Conf
     setSaveError(null);
 
     try {
-      const saved = saveVisualConfig(visualId, saveName.trim(), currentControls);
+      const saved = saveVisualConfig(
+        visualId,
+        saveName.trim(),
+        currentControls,
+        controlsDefinition ? getControlsVersion(controlsDefinition) : 1,
+        currentModulations,
+        currentExternalMappings
+      );
       setSavedConfigs((prev) => [saved, ...prev]);
       setSaveName('');
+      setActiveName(saved.name);
+      onConfigNameChange?.(saved.name);
+      // The thumbnail follows once the canvas has been read
+      void captureThumbnail?.().then((thumbnail) => {
+        if (thumbnail) saveConfigThumbnail(visualId, saved.id, thumbnail);
+      });
     } catch (error) {
       console.error('Error saving config:', error);
       setSaveError('Failed to save configuration');
@@ -61,7 +142,21 @@ export function ConfigSaveLoad({ visualId, currentControls, onLoadConfig }: Conf
   };
 
   const handleLoad = (config: SavedVisualConfig) => {
-    onLoadConfig(config.controls);
+    if (controlsDefinition) {
+      const migrated = migrateControls(controlsDefinition, config.controls, config.schemaVersion);
+      onLoadConfig(migrated.controls);
+      setLoadReport({ name: config.name, lines: describeMigration(controlsDefinition, migrated) });
+    } else {
+      onLoadConfig(config.controls);
+    }
+    if (config.modulations && onLoadModulations) {
+      onLoadModulations(normalizeModulationMappings(config.modulations));
+    }
+    if (config.externalMappings && onLoadExternalMappings) {
+      onLoadExternalMappings(normalizeExternalControlMappings(config.externalMappings));
+    }
+    setActiveName(config.name);
+    onConfigNameChange?.(config.name);
   };
 
   const handleDelete = (configId: string) => {
@@ -71,8 +166,57 @@ export function ConfigSaveLoad({ visualId, currentControls, onLoadConfig }: Conf
     }
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleString();
+  const handleExport = (configs: SavedVisualConfig[]) => {
+    const file = createPresetFile(visualId, configs);
+    downloadBlob(new Blob([serializePresetFile(file)], { type: 'application/json' }), getPresetFileName(file));
+  };
+
+  const handleCopyLink = (config: SavedVisualConfig) => {
+    // Links carry current-version controls so they stay short (defaults left out)
+    const link = getPresetLink(
+      window.location.origin,
+      visualId,
+      controlsDefinition
+        ? {
+            name: config.name,
+            controls: migrateControls(controlsDefinition, config.controls, config.schemaVersion).controls,
+            modulations: config.modulations,
+            schemaVersion: getControlsVersion(controlsDefinition),
+          }
+        : { name: config.name, controls: config.controls, modulations: config.modulations },
+      controlsDefinition?.defaults
+    );
+    setTransferError(null);
+    navigator.clipboard
+      .writeText(link)
+      .then(() => setTransferStatus(`Link to “${config.name}” copied`))
+      .catch(() => window.prompt('Copy the preset link', link));
+  };
+
+  const handleImportFile = async (file: File) => {
+    setTransferStatus(null);
+    try {
+      const presetFile = parsePresetFile(await file.text(), visualId);
+      const conflicts = findPresetConflicts(visualId, presetFile.presets);
+      setResolutions(Object.fromEntries(conflicts.map((name) => [name, 'rename' as const])));
+      setPendingImport({ file: presetFile, conflicts });
+      setTransferError(null);
+    } catch (error) {
+      console.error('Error reading preset file:', error);
+      setTransferError(error instanceof Error ? error.message : 'Failed to read preset file');
+    }
+  };
+
+  const handleImport = () => {
+    if (!pendingImport) return;
+    const result = importPresets(visualId, pendingImport.file.presets, (preset) => resolutions[preset.name] ?? 'rename');
+    setSavedConfigs(loadSavedConfigs(visualId));
+    setPendingImport(null);
+    const parts = [`Imported ${result.imported.length}`];
+    if (result.overwritten.length) parts.push(`overwrote ${result.overwritten.length}`);
+    if (result.renamed.length) parts.push(`renamed ${result.renamed.length}`);
+    if (result.skipped.length) parts.push(`skipped ${result.skipped.length}`);
+    setTransferStatus(parts.join(', '));
   };
 
   return (
@@ -115,42 +259,118 @@ export function ConfigSaveLoad({ visualId, currentControls, onLoadConfig }: Conf
           )}
         </div>
 
-        {/* Saved configs list */}
+        {/* Import/export: versioned JSON files to move presets between machines */}
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(savedConfigs)}
+              disabled={savedConfigs.length === 0}
+            >
+              Export all
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              Import…
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {transferError && <p className="text-sm text-red-600">{transferError}</p>}
+          {transferStatus && <p className="text-xs text-muted-foreground">{transferStatus}</p>}
+          {pendingImport && (
+            <div className="space-y-2 p-2 border border-gray-200 rounded-md">
+              <div className="text-sm">
+                {pendingImport.file.presets.length} preset(s) in file
+                {pendingImport.conflicts.length > 0 && `, ${pendingImport.conflicts.length} with a name already in use:`}
+              </div>
+              {pendingImport.conflicts.map((name) => (
+                <div key={name} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{name}</span>
+                  <select
+                    value={resolutions[name] ?? 'rename'}
+                    onChange={(e) =>
+                      setResolutions((prev) => ({ ...prev, [name]: e.target.value as PresetConflictResolution }))
+                    }
+                    className="px-2 py-1 rounded bg-white border border-gray-200 text-sm"
+                  >
+                    {CONFLICT_RESOLUTIONS.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleImport} disabled={pendingImport.file.presets.length === 0}>
+                  Import
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPendingImport(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {loadReport && loadReport.lines.length > 0 && (
+          <div className="p-2 border border-amber-200 bg-amber-50 rounded-md text-xs space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">“{loadReport.name}” was adjusted to fit the current controls</span>
+              <button onClick={() => setLoadReport(null)} className="text-muted-foreground hover:text-foreground">
+                ✕
+              </button>
+            </div>
+            <ul className="list-disc pl-4">
+              {loadReport.lines.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Saved configs: thumbnail grid, click one to load it */}
         {savedConfigs.length === 0 ? (
           <p className="text-sm text-muted-foreground text-center py-4">
             No saved configurations yet. Save your current settings above.
           </p>
         ) : (
-          <div className="space-y-2 max-h-64 overflow-y-auto">
-            {savedConfigs.map((config) => (
-              <div
-                key={config.id}
-                className="flex items-center justify-between p-2 border border-gray-200 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800"
-              >
-                <div className="flex-1 min-w-0">
-                  <div className="font-medium text-sm truncate">{config.name}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {formatDate(config.savedAt)}
-                  </div>
-                </div>
-                <div className="flex gap-2 ml-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleLoad(config)}
-                  >
-                    Load
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={() => handleDelete(config.id)}
+          <div className="max-h-[32rem] overflow-y-auto">
+            <PresetBrowser
+              visualId={visualId}
+              onSelect={handleLoad}
+              activeName={configName !== undefined ? configName : activeName}
+              captureThumbnail={captureThumbnail}
+              morphSettings={morphSettings}
+              onMorphSettingsChange={onMorphSettingsChange}
+              renderActions={(config, className) => (
+                <>
+                  <button onClick={() => handleExport([config])} className={className} title="Download as a preset file">
+                    Export
+                  </button>
+                  <button
+                    onClick={() => handleCopyLink(config)}
+                    className={className}
+                    title="Copy a final view link that applies this preset"
                   >
+                    Link
+                  </button>
+                  <button onClick={() => handleDelete(config.id)} className={`${className} text-red-600`}>
                     Delete
-                  </Button>
-                </div>
-              </div>
-            ))}
+                  </button>
+                </>
+              )}
+            />
           </div>
         )}
       </CardContent>
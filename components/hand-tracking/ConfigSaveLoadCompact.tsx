@@ -3,35 +3,62 @@
 import { useState, useEffect } from 'react';
 import {
   saveVisualConfig,
+  saveConfigThumbnail,
+  loadConfigThumbnail,
   loadSavedConfigs,
   deleteSavedConfig,
   configNameExists,
   type SavedVisualConfig,
+  type VisualControlType,
 } from '@/lib/visualConfigStorage';
-import type { PrismHandControls } from './PrismHandVisual';
-import type { OneLineHandControls } from './OneLineHandVisual';
-import type { ConstellationControls } from './ConstellationVisual';
-
-type VisualControlType = PrismHandControls | OneLineHandControls | ConstellationControls;
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import type { VisualControlsDefinition } from '@/lib/visualRegistry';
+import { sortPresets } from '@/lib/presetBrowser';
+import { describeMigration, getControlsVersion, migrateControls } from '@/lib/controlMigrations';
+import { normalizeExternalControlMappings, type ExternalControlMapping } from '@/lib/externalControl';
+import { normalizeModulationMappings, type ModulationMapping } from './modulation';
 
 interface ConfigSaveLoadCompactProps {
   visualId: string;
   currentControls: VisualControlType;
   onLoadConfig: (controls: VisualControlType) => void;
+  /** Modulation matrix saved alongside the controls. */
+  currentModulations?: ModulationMapping[];
+  onLoadModulations?: (mappings: ModulationMapping[]) => void;
+  /** MIDI/OSC mappings saved alongside the controls. */
+  currentExternalMappings?: ExternalControlMapping[];
+  onLoadExternalMappings?: (mappings: ExternalControlMapping[]) => void;
+  /** The visual's controls: saved with their schema version, loaded configs are migrated and validated. */
+  controlsDefinition?: VisualControlsDefinition;
+  /** Thumbnail of the visual (image data URL), stored with each saved configuration. */
+  captureThumbnail?: () => Promise<string | null>;
 }
 
-export function ConfigSaveLoadCompact({ visualId, currentControls, onLoadConfig }: ConfigSaveLoadCompactProps) {
+export function ConfigSaveLoadCompact({
+  visualId,
+  currentControls,
+  onLoadConfig,
+  currentModulations,
+  onLoadModulations,
+  currentExternalMappings,
+  onLoadExternalMappings,
+  controlsDefinition,
+  captureThumbnail,
+}: ConfigSaveLoadCompactProps) {
   const [savedConfigs, setSavedConfigs] = useState<SavedVisualConfig[]>([]);
   const [saveName, setSaveName] = useState('');
   const [saveError, setSaveError] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  // What loading the last config changed (migration, filled/clamped/dropped controls)
+  const [loadReport, setLoadReport] = useState<{ name: string; lines: string[] } | null>(null);
+  const storageRevision = useStorageRevision();
 
-  // Load saved configs when component mounts or visualId changes
+  // Load saved configs when component mounts, visualId changes or storage changes
   useEffect(() => {
     const configs = loadSavedConfigs(visualId);
-    setSavedConfigs(configs);
-  }, [visualId]);
+    setSavedConfigs(sortPresets(configs, 'favorites'));
+  }, [visualId, storageRevision]);
 
   const handleSave = () => {
     if (!saveName.trim()) {
@@ -48,9 +75,19 @@ export function ConfigSaveLoadCompact({ visualId, currentControls, onLoadConfig
     setSaveError(null);
 
     try {
-      const saved = saveVisualConfig(visualId, saveName.trim(), currentControls);
+      const saved = saveVisualConfig(
+        visualId,
+        saveName.trim(),
+        currentControls,
+        controlsDefinition ? getControlsVersion(controlsDefinition) : 1,
+        currentModulations,
+        currentExternalMappings
+      );
       setSavedConfigs((prev) => [saved, ...prev]);
       setSaveName('');
+      void captureThumbnail?.().then((thumbnail) => {
+        if (thumbnail) saveConfigThumbnail(visualId, saved.id, thumbnail);
+      });
     } catch (error) {
       console.error('Error saving config:', error);
       setSaveError('Save failed');
@@ -60,7 +97,19 @@ export function ConfigSaveLoadCompact({ visualId, currentControls, onLoadConfig
   };
 
   const handleLoad = (config: SavedVisualConfig) => {
-    onLoadConfig(config.controls);
+    if (controlsDefinition) {
+      const migrated = migrateControls(controlsDefinition, config.controls, config.schemaVersion);
+      onLoadConfig(migrated.controls);
+      setLoadReport({ name: config.name, lines: describeMigration(controlsDefinition, migrated) });
+    } else {
+      onLoadConfig(config.controls);
+    }
+    if (config.modulations && onLoadModulations) {
+      onLoadModulations(normalizeModulationMappings(config.modulations));
+    }
+    if (config.externalMappings && onLoadExternalMappings) {
+      onLoadExternalMappings(normalizeExternalControlMappings(config.externalMappings));
+    }
     setIsExpanded(false);
   };
 
@@ -80,6 +129,12 @@ export function ConfigSaveLoadCompact({ visualId, currentControls, onLoadConfig
         {isExpanded ? '▼' : '▶'} Saved Configs ({savedConfigs.length})
       </button>
 
+      {loadReport && loadReport.lines.length > 0 && (
+        <div className="text-[11px] text-amber-300" title={loadReport.lines.join('\n')}>
+          “{loadReport.name}” adjusted: {loadReport.lines.length} change(s)
+        </div>
+      )}
+
       {isExpanded && (
         <div className="space-y-2 text-xs">
           {/* Save section */}
@@ -123,8 +178,12 @@ export function ConfigSaveLoadCompact({ visualId, currentControls, onLoadConfig
                   key={config.id}
                   className="flex items-center justify-between gap-1 p-1 rounded bg-gray-800/50 hover:bg-gray-800"
                 >
+                  <PresetThumbnail visualId={visualId} configId={config.id} revision={storageRevision} />
                   <div className="flex-1 min-w-0">
-                    <div className="text-white truncate text-[10px]">{config.name}</div>
+                    <div className="text-white truncate text-[10px]">
+                      {config.favorite && <span className="text-amber-400">★ </span>}
+                      {config.name}
+                    </div>
                   </div>
                   <div className="flex gap-1">
                     <button
@@ -148,4 +207,17 @@ export function ConfigSaveLoadCompact({ visualId, currentControls, onLoadConfig
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+/** Small thumbnail of a saved configuration (blank when it has none). */
+function PresetThumbnail({ visualId, configId, revision }: { visualId: string; configId: string; revision: number }) {
+  const [src, setSrc] = useState<string | null>(null);
+  useEffect(() => {
+    setSrc(loadConfigThumbnail(visualId, configId));
+  }, [visualId, configId, revision]);
+  return src ? (
+    <img src={src} alt="" className="w-8 h-5 rounded object-cover" />
+  ) : (
+    <div className="w-8 h-5 rounded bg-gray-900" />
+  );
+}
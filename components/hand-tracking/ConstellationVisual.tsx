@@ -3,44 +3,54 @@
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Points, PointMaterial } from '@react-three/drei';
 import * as THREE from 'three';
-import { useMemo, useRef } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import type { Hand3DData } from './HandTracking';
-import { landmarkToSceneSpace } from './handPose';
+import { landmarkToSceneSpace, landmarkVelocityToSceneSpace } from './handPose';
 import { fillTrailSegments } from './trailMath';
-import type { ConstellationPaletteId } from './constellationPalettes';
-import { getConstellationHues } from './constellationPalettes';
+import {
+  CONSTELLATION_PALETTES,
+  getBlendedConstellationHues,
+  type ConstellationPaletteBlend,
+  type ConstellationPaletteId,
+} from './constellationPalettes';
 import { getCollapsedCenterHandIndex } from './constellationMerge';
+import { useHandSlots } from '@/hooks/useHandSlots';
+import type { ControlMigration } from '@/lib/controlMigrations';
+import type { ControlSchema } from '@/lib/controlSchema';
+import { OFFLINE_CANVAS_PROPS } from '@/lib/offlineRender';
+import { createRandom, deriveSeed, randomSeed } from '@/lib/random';
 
+/** Ranges, units and labels: `CONSTELLATION_CONTROL_SCHEMA`. */
 export interface ConstellationControls {
-  starBrightness: number;      // 0..1 base star intensity
-  nebulaIntensity: number;     // 0..1 nebula bloom visibility
-  nebulaRadius: number;        // 0.1..2.5 spatial radius of the nebula cloud
-  nebulaParticleCount: number; // 50..1200 number of nebula particles ("spheres")
-  nebulaParticleSize: number;  // 0.01..0.3 visual point size
-  palette: ConstellationPaletteId; // color palette (affects nebula/stars/lines hues)
-  constellationOpacity: number; // 0..1 connecting lines
-  cosmicDepth: number;         // 0..1 background star density
-  twinkleSpeed: number;        // 0..2 star shimmer rate
-  showHandSkeleton: boolean;   // show an explicit hand skeleton overlay
+  starBrightness: number;
+  nebulaIntensity: number;
+  nebulaRadius: number;
+  nebulaParticleCount: number;
+  nebulaParticleSize: number;
+  palette: ConstellationPaletteId;
+  constellationOpacity: number;
+  cosmicDepth: number;
+  twinkleSpeed: number;
+  showHandSkeleton: boolean;
   // Flocking physics
-  attractionStrength: number;  // 0..3 how strongly particles are attracted to landmarks
-  separationStrength: number;  // 0..2 how strongly particles repel each other
-  separationRadius: number;    // 0.02..0.15 distance at which separation kicks in
-  motionRepulsion: number;     // 0..15 how strongly moving landmarks push particles
-  damping: number;             // 0.8..0.99 velocity decay per frame
+  attractionStrength: number;
+  separationStrength: number;
+  separationRadius: number;
+  motionRepulsion: number;
+  damping: number;
   // Galaxy-in-hand field
-  coreAttraction: number;      // 0..4 pull toward palm core
-  orbitStrength: number;       // 0..4 tangential swirl around palm axis
-  armCount: number;            // 1..6 number of spiral arms
-  armStrength: number;         // 0..4 how strongly particles are pulled toward arms
-  armWidth: number;            // 0.05..1.5 smaller = sharper arms
-  spiralPitch: number;         // -2..2 pitch (ln(r) coefficient) for logarithmic spiral
-  patternSpeed: number;        // -3..3 spiral pattern rotation speed
-  turbulence: number;          // 0..2 noise force in the disk
+  coreAttraction: number;
+  orbitStrength: number;
+  armCount: number;
+  armStrength: number;
+  armWidth: number;
+  spiralPitch: number;
+  patternSpeed: number;
+  turbulence: number;
   // Trails (drawing)
   showNebulaTrails: boolean;
-  trailLength: number;         // 2..40
-  trailOpacity: number;        // 0..1
+  trailLength: number;
+  trailOpacity: number;
 }
 
 export const DEFAULT_CONSTELLATION_CONTROLS: ConstellationControls = {
@@ -74,10 +84,145 @@ export const DEFAULT_CONSTELLATION_CONTROLS: ConstellationControls = {
   trailOpacity: 0.25,
 };
 
+const FLOCKING = 'Flocking Physics';
+const GALAXY = 'Galaxy Field';
+const TRAILS = 'Trails';
+
+/**
+ * Schema migrations of saved constellation controls (see `lib/controlMigrations.ts`), keyed by the version they
+ * upgrade from. Presets saved before versioning predate the nebula trails: keep them without trails even if the
+ * default changes.
+ */
+export const CONSTELLATION_CONTROL_MIGRATIONS: Record<number, ControlMigration> = {
+  0: (controls) => ({ showNebulaTrails: false, ...controls }),
+};
+
+export const CONSTELLATION_CONTROL_SCHEMA: ControlSchema<ConstellationControls> = {
+  palette: {
+    type: 'enum',
+    label: 'Color palette',
+    options: CONSTELLATION_PALETTES.map((p) => ({ value: p.id, label: p.name, description: p.description })),
+    description: 'Hues of the nebula, stars and lines (swipe left/right to cycle)',
+    audience: true,
+  },
+  showHandSkeleton: { type: 'boolean', label: 'Show hand skeleton', description: 'Explicit hand skeleton overlay' },
+  showNebulaTrails: { type: 'boolean', label: 'Nebula trails', audience: true },
+  starBrightness: { type: 'number', label: 'Star Brightness', min: 0.1, max: 1, step: 0.01, audience: true },
+  nebulaIntensity: { type: 'number', label: 'Nebula Intensity', min: 0, max: 1, step: 0.01, audience: true },
+  // The nebula clouds are rebuilt when these change, so preset morphs switch them instead of fading
+  nebulaRadius: {
+    type: 'number',
+    label: 'Nebula Radius',
+    min: 0.1,
+    max: 2.5,
+    step: 0.05,
+    description: 'Spatial radius of the nebula cloud',
+    morph: 'switch',
+  },
+  nebulaParticleCount: {
+    type: 'number',
+    label: 'Nebula Count',
+    min: 50,
+    max: 1200,
+    step: 10,
+    description: 'Number of nebula particles',
+    morph: 'switch',
+  },
+  nebulaParticleSize: { type: 'number', label: 'Nebula Particle Size', min: 0.01, max: 0.3, step: 0.01, morph: 'switch' },
+  constellationOpacity: { type: 'number', label: 'Constellation Lines', min: 0, max: 1, step: 0.01, description: 'Opacity of the connecting lines' },
+  cosmicDepth: { type: 'number', label: 'Cosmic Depth', min: 0, max: 1, step: 0.01, description: 'Background star density' },
+  twinkleSpeed: { type: 'number', label: 'Twinkle Speed', min: 0, max: 2, step: 0.05, description: 'Star shimmer rate' },
+  attractionStrength: {
+    type: 'number',
+    label: 'Attraction Strength',
+    min: 0,
+    max: 3,
+    step: 0.05,
+    group: FLOCKING,
+    description: 'How strongly particles are attracted to landmarks',
+  },
+  separationStrength: {
+    type: 'number',
+    label: 'Separation Strength',
+    min: 0,
+    max: 2,
+    step: 0.05,
+    group: FLOCKING,
+    description: 'How strongly particles repel each other',
+  },
+  separationRadius: {
+    type: 'number',
+    label: 'Separation Radius',
+    min: 0.02,
+    max: 0.15,
+    step: 0.005,
+    group: FLOCKING,
+    description: 'Distance at which separation kicks in',
+  },
+  motionRepulsion: {
+    type: 'number',
+    label: 'Motion Repulsion',
+    min: 0,
+    max: 15,
+    step: 0.5,
+    group: FLOCKING,
+    description: 'How strongly moving landmarks push particles',
+  },
+  damping: {
+    type: 'number',
+    label: 'Damping',
+    min: 0.8,
+    max: 0.99,
+    step: 0.01,
+    group: FLOCKING,
+    description: 'Velocity decay per frame',
+  },
+  coreAttraction: { type: 'number', label: 'Core Attraction', min: 0, max: 4, step: 0.05, group: GALAXY, description: 'Pull toward the palm core' },
+  orbitStrength: {
+    type: 'number',
+    label: 'Orbit Swirl',
+    min: 0,
+    max: 4,
+    step: 0.05,
+    group: GALAXY,
+    description: 'Tangential swirl around the palm axis',
+  },
+  armCount: { type: 'number', label: 'Arm Count', min: 1, max: 6, step: 1, group: GALAXY, description: 'Number of spiral arms' },
+  armStrength: {
+    type: 'number',
+    label: 'Arm Strength',
+    min: 0,
+    max: 4,
+    step: 0.05,
+    group: GALAXY,
+    description: 'How strongly particles are pulled toward the arms',
+  },
+  armWidth: { type: 'number', label: 'Arm Width', min: 0.05, max: 1.5, step: 0.05, group: GALAXY, description: 'Smaller = sharper arms' },
+  spiralPitch: {
+    type: 'number',
+    label: 'Spiral Pitch',
+    min: -2,
+    max: 2,
+    step: 0.05,
+    group: GALAXY,
+    description: 'ln(r) coefficient of the logarithmic spiral',
+  },
+  patternSpeed: { type: 'number', label: 'Pattern Speed', min: -3, max: 3, step: 0.05, group: GALAXY, description: 'Spiral pattern rotation speed' },
+  turbulence: { type: 'number', label: 'Turbulence', min: 0, max: 2, step: 0.05, group: GALAXY, description: 'Noise force in the disk' },
+  trailLength: { type: 'number', label: 'Trail length', min: 2, max: 40, step: 1, group: TRAILS, dependsOn: 'showNebulaTrails' },
+  trailOpacity: { type: 'number', label: 'Trail opacity', min: 0, max: 1, step: 0.01, group: TRAILS, dependsOn: 'showNebulaTrails' },
+};
+
 interface ConstellationVisualProps {
   hands: Hand3DData[];
   className?: string;
   controls?: Partial<ConstellationControls>;
+  /** Seed for star and particle placement (random per mount when omitted). */
+  seed?: number;
+  /** Stepped by `advance()` instead of the frame loop (offline rendering, see `lib/offlineRender.ts`). */
+  offline?: boolean;
+  /** Palettes to blend while a preset morph changes the palette (overrides `controls.palette`). */
+  paletteBlend?: ConstellationPaletteBlend | null;
 }
 
 // Hand skeleton connections (landmark pairs)
@@ -152,30 +297,32 @@ function getStarTexture(): THREE.CanvasTexture {
 }
 
 // Background stars component
-function BackgroundStars({ count, depth }: { count: number; depth: number }) {
+function BackgroundStars({ count, depth, seed }: { count: number; depth: number; seed: number }) {
   const starTexture = useMemo(() => getStarTexture(), []);
 
   const positions = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'stars'));
     const pos = new Float32Array(count * 3);
     for (let i = 0; i < count; i++) {
       // Distribute in a sphere around the scene
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
-      const r = 3 + Math.random() * 5;
+      const theta = random() * Math.PI * 2;
+      const phi = Math.acos(2 * random() - 1);
+      const r = 3 + random() * 5;
       pos[i * 3] = r * Math.sin(phi) * Math.cos(theta);
       pos[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
       pos[i * 3 + 2] = r * Math.cos(phi);
     }
     return pos;
-  }, [count]);
+  }, [count, seed]);
 
   const sizes = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'star-sizes'));
     const s = new Float32Array(count);
     for (let i = 0; i < count; i++) {
-      s[i] = 0.5 + Math.random() * 1.5;
+      s[i] = 0.5 + random() * 1.5;
     }
     return s;
-  }, [count]);
+  }, [count, seed]);
 
   return (
     <Points positions={positions}>
@@ -240,13 +387,12 @@ interface GalaxyProps {
   spiralPitch: number;
   patternSpeed: number;
   turbulence: number;
-  time: number;
 }
 
 // Physics-based nebula with flocking attraction and movement repulsion
 function NebulaCloud({
   landmarks,
-  prevLandmarks,
+  landmarkVelocities,
   intensity,
   hue,
   saturation,
@@ -255,9 +401,11 @@ function NebulaCloud({
   galaxy,
   trails,
   nebula,
+  seed,
 }: {
   landmarks: THREE.Vector3[];
-  prevLandmarks: THREE.Vector3[];
+  /** Scene-space landmark velocities (units/s), from the landmark filter. */
+  landmarkVelocities: THREE.Vector3[];
   intensity: number;
   hue: number;
   saturation: number;
@@ -274,6 +422,8 @@ function NebulaCloud({
     particleCount: number;
     particleSize: number;
   };
+  /** Particle placement and colour variation. */
+  seed: number;
 }) {
   const pointsRef = useRef<THREE.Points>(null);
   const geomRef = useRef<THREE.BufferGeometry>(null);
@@ -303,13 +453,14 @@ function NebulaCloud({
   const satOffsetsRef = useRef<Float32Array | null>(null);
   const lightOffsetsRef = useRef<Float32Array | null>(null);
   if (!hueOffsetsRef.current) {
+    const random = createRandom(deriveSeed(seed, 'colors'));
     hueOffsetsRef.current = new Float32Array(particleCount);
     satOffsetsRef.current = new Float32Array(particleCount);
     lightOffsetsRef.current = new Float32Array(particleCount);
     for (let i = 0; i < particleCount; i++) {
-      hueOffsetsRef.current[i] = (Math.random() - 0.5) * 0.25;
-      satOffsetsRef.current[i] = (Math.random() - 0.5) * 0.2;
-      lightOffsetsRef.current[i] = (Math.random() - 0.5) * 0.15;
+      hueOffsetsRef.current[i] = (random() - 0.5) * 0.25;
+      satOffsetsRef.current[i] = (random() - 0.5) * 0.2;
+      lightOffsetsRef.current[i] = (random() - 0.5) * 0.15;
     }
   }
 
@@ -320,12 +471,13 @@ function NebulaCloud({
   // Initialize particles ONCE (no dependencies that change)
   useMemo(() => {
     const state = particleState.current;
+    const random = createRandom(deriveSeed(seed, 'particles'));
 
     for (let i = 0; i < particleCount; i++) {
       // Start particles scattered around the origin
-      const r = Math.pow(Math.random(), 0.5) * Math.max(0.05, nebula.radius);
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
+      const r = Math.pow(random(), 0.5) * Math.max(0.05, nebula.radius);
+      const theta = random() * Math.PI * 2;
+      const phi = Math.acos(2 * random() - 1);
 
       state.positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
       state.positions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
@@ -337,16 +489,15 @@ function NebulaCloud({
       state.velocities[i * 3 + 2] = 0;
 
       // Variable sizes
-      state.sizes[i] = 0.03 + Math.random() * 0.1;
+      state.sizes[i] = 0.03 + random() * 0.1;
     }
     state.initialized = true;
     colorsDirtyRef.current = true; // ensure colors get set on first frame
-  }, [particleCount, nebula.radius]);
+  }, [particleCount, nebula.radius, seed]);
 
   // Temp vectors for physics calculations
   const tmpVec = useMemo(() => new THREE.Vector3(), []);
   const tmpForce = useMemo(() => new THREE.Vector3(), []);
-  const tmpLandmarkVel = useMemo(() => new THREE.Vector3(), []);
   const tmpVec2 = useMemo(() => new THREE.Vector3(), []);
   const tmpVec3 = useMemo(() => new THREE.Vector3(), []);
   const tmpAxis = useMemo(() => new THREE.Vector3(), []);
@@ -378,9 +529,11 @@ function NebulaCloud({
     return `${cx},${cy},${cz}`;
   };
 
-  useFrame((_, delta) => {
+  useFrame(({ clock }, delta) => {
     const state = particleState.current;
     if (!state.initialized) return;
+    // Frame clock time (set by `advance()` when rendering offline)
+    const time = clock.elapsedTime;
 
     // Check if color params changed - if so, recalculate all colors
     const lastParams = lastColorParamsRef.current;
@@ -437,7 +590,6 @@ function NebulaCloud({
       spiralPitch,
       patternSpeed,
       turbulence,
-      time,
     } = galaxy;
 
     // Anchor particle cloud near the palm core once we have a stable core
@@ -462,19 +614,6 @@ function NebulaCloud({
     tmpU.crossVectors(tmpAxis, tmpU).normalize(); // u ⟂ axis
     tmpV.crossVectors(tmpAxis, tmpU).normalize(); // v ⟂ axis and u
 
-    // Compute landmark velocities (for repulsion) - only once per frame
-    const landmarkVelocities: THREE.Vector3[] = [];
-    for (let li = 0; li < landmarks.length; li++) {
-      const curr = landmarks[li];
-      const prev = prevLandmarks[li];
-      if (curr && prev) {
-        tmpLandmarkVel.subVectors(curr, prev).divideScalar(dt);
-        landmarkVelocities.push(tmpLandmarkVel.clone());
-      } else {
-        landmarkVelocities.push(new THREE.Vector3());
-      }
-    }
-
     // Fixed timestep physics loop
     while (accumulatorRef.current >= FIXED_DT && steps < MAX_STEPS) {
       accumulatorRef.current -= FIXED_DT;
@@ -838,12 +977,18 @@ function NebulaCloud({
 }
 
 function ConstellationScene({
-  hands,
+  hands: detectedHands,
   controls,
+  seed,
+  paletteBlend,
 }: {
   hands: Hand3DData[];
   controls: ConstellationControls;
+  seed: number;
+  paletteBlend?: ConstellationPaletteBlend | null;
 }) {
+  // Star/nebula state is kept per slot; a slot stays with the same hand id
+  const hands = useHandSlots(detectedHands, 2);
   const { starBrightness, nebulaIntensity, nebulaRadius, nebulaParticleCount, nebulaParticleSize, palette, constellationOpacity, cosmicDepth, twinkleSpeed,
     attractionStrength, separationStrength, separationRadius, motionRepulsion, damping, showHandSkeleton,
     coreAttraction, orbitStrength, armCount, armStrength, armWidth, spiralPitch, patternSpeed, turbulence,
@@ -873,9 +1018,9 @@ function ConstellationScene({
   const lineColors = useMemo(() => new Float32Array(maxLineVerts * 3), [maxLineVerts]);
   const skelLinePositions = useMemo(() => new Float32Array(maxLineVerts * 3), [maxLineVerts]);
 
-  // Nebula state per hand: current landmarks and previous frame landmarks
+  // Nebula state per hand: current landmarks and their velocities
   const nebulaLandmarksRef = useRef<THREE.Vector3[][]>([[], []]);
-  const prevNebulaLandmarksRef = useRef<THREE.Vector3[][]>([[], []]);
+  const nebulaVelocitiesRef = useRef<THREE.Vector3[][]>([[], []]);
   const nebulaCoreRef = useRef<THREE.Vector3[]>([new THREE.Vector3(), new THREE.Vector3()]);
   const nebulaAxisRef = useRef<THREE.Vector3[]>([new THREE.Vector3(0, 0, 1), new THREE.Vector3(0, 0, 1)]);
   const opennessRef = useRef<number[]>([0, 0]); // 0..1, how open the hand is (used to scale orbit swirl)
@@ -889,11 +1034,11 @@ function ConstellationScene({
   // Track if each hand slot has ever had a hand (so nebula persists after hand leaves)
   const hasEverHadHandRef = useRef<boolean[]>([false, false]);
 
-  const getHandedness = (hand?: Hand3DData): 'Left' | 'Right' =>
+  const getHandedness = (hand?: Hand3DData | null): 'Left' | 'Right' =>
     hand?.handedness === 'Left' ? 'Left' : 'Right';
 
   useFrame(() => {
-    const t = clock.getElapsedTime();
+    const t = clock.elapsedTime;
     let starIdx = 0;
     let lineIdx = 0;
 
@@ -905,7 +1050,7 @@ function ConstellationScene({
       hasEverHadHandRef.current[handIndex] = true;
 
       const handedness = getHandedness(hand);
-      const hues = getConstellationHues({ paletteId: palette, handedness });
+      const hues = getBlendedConstellationHues({ paletteId: palette, handedness, blend: paletteBlend });
 
       const landmarks = hand.landmarks.map((lm) => landmarkToSceneSpace(lm, 2));
 
@@ -916,10 +1061,13 @@ function ConstellationScene({
       const pinchFactor = THREE.MathUtils.clamp(1 - pinchDist * 4, 0, 1);
       pinchFactorRef.current[handIndex] = pinchFactor;
 
-      // Store previous landmarks before updating current
-      prevNebulaLandmarksRef.current[handIndex] = nebulaLandmarksRef.current[handIndex].map(v => v.clone());
-      // Store current landmarks for nebula physics
+      // Store current landmarks and velocities for nebula physics (velocities come
+      // from the landmark filter; without them there is no motion repulsion)
       nebulaLandmarksRef.current[handIndex] = landmarks.map(v => v.clone());
+      nebulaVelocitiesRef.current[handIndex] = landmarks.map((_, i) => {
+        const velocity = hand.velocities?.[i];
+        return velocity ? landmarkVelocityToSceneSpace(velocity, 2) : new THREE.Vector3();
+      });
 
       // Compute palm core and orbit axis (palm normal)
       const wrist = landmarks[0];
@@ -1065,12 +1213,10 @@ function ConstellationScene({
     }
   });
 
-  const t = clock.getElapsedTime();
-
   // Palette hues must be derived from React state, not refs updated in the render loop,
   // so changing palette updates nebula colors immediately.
-  const hues0 = getConstellationHues({ paletteId: palette, handedness: getHandedness(hands[0]) });
-  const hues1 = getConstellationHues({ paletteId: palette, handedness: getHandedness(hands[1]) });
+  const hues0 = getBlendedConstellationHues({ paletteId: palette, handedness: getHandedness(hands[0]), blend: paletteBlend });
+  const hues1 = getBlendedConstellationHues({ paletteId: palette, handedness: getHandedness(hands[1]), blend: paletteBlend });
 
   // Compute effective nebula intensity per hand
   const getNebulaIntensity = (handIndex: number) => {
@@ -1091,7 +1237,7 @@ function ConstellationScene({
       <fog attach="fog" args={['#020209', 4, 10]} />
 
       {/* Background stars */}
-      <BackgroundStars count={Math.floor(500 * cosmicDepth)} depth={cosmicDepth} />
+      <BackgroundStars count={Math.floor(500 * cosmicDepth)} depth={cosmicDepth} seed={seed} />
 
       {/* Hand stars (landmarks) */}
       <points>
@@ -1172,9 +1318,9 @@ function ConstellationScene({
               ? nebulaLandmarksRef.current[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 0]
               : []
           }
-          prevLandmarks={
+          landmarkVelocities={
             hands[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 0]
-              ? prevNebulaLandmarksRef.current[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 0]
+              ? nebulaVelocitiesRef.current[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 0]
               : []
           }
           intensity={getNebulaIntensity(0)}
@@ -1196,10 +1342,10 @@ function ConstellationScene({
             spiralPitch,
             patternSpeed,
             turbulence,
-            time: t,
           }}
           trails={{ enabled: showNebulaTrails, length: trailLength, opacity: trailOpacity }}
           nebula={{ radius: nebulaRadius, particleCount: nebulaParticleCount, particleSize: nebulaParticleSize }}
+          seed={deriveSeed(seed, 'nebula-0')}
         />
       )}
       {hasEverHadHandRef.current[1] && (
@@ -1210,9 +1356,9 @@ function ConstellationScene({
               ? nebulaLandmarksRef.current[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 1]
               : []
           }
-          prevLandmarks={
+          landmarkVelocities={
             hands[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 1]
-              ? prevNebulaLandmarksRef.current[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 1]
+              ? nebulaVelocitiesRef.current[shouldCollapseCenters ? (collapseIndex as 0 | 1) : 1]
               : []
           }
           intensity={getNebulaIntensity(1)}
@@ -1233,10 +1379,10 @@ function ConstellationScene({
             spiralPitch,
             patternSpeed,
             turbulence,
-            time: t,
           }}
           trails={{ enabled: showNebulaTrails, length: trailLength, opacity: trailOpacity }}
           nebula={{ radius: nebulaRadius, particleCount: nebulaParticleCount, particleSize: nebulaParticleSize }}
+          seed={deriveSeed(seed, 'nebula-1')}
         />
       )}
 
@@ -1251,20 +1397,26 @@ export function ConstellationVisual({
   hands,
   className = '',
   controls: controlsProp,
+  seed: seedProp,
+  offline = false,
+  paletteBlend,
 }: ConstellationVisualProps) {
   const controls: ConstellationControls = { ...DEFAULT_CONSTELLATION_CONTROLS, ...controlsProp };
+  const [mountSeed] = useState(randomSeed);
+  const seed = seedProp ?? mountSeed;
 
   return (
     <div className={`w-full h-full bg-black ${className}`}>
       <Canvas
+        {...(offline ? OFFLINE_CANVAS_PROPS : {})}
         gl={{ antialias: true, alpha: false, powerPreference: 'high-performance' }}
         onCreated={({ gl }) => {
-          gl.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+          if (!offline) gl.setPixelRatio(Math.min(window.devicePixelRatio, 2));
           gl.setClearColor(0x020209, 1);
         }}
       >
         <PerspectiveCamera makeDefault position={[0, 0.1, 2]} fov={50} />
-        <ConstellationScene hands={hands} controls={controls} />
+        <ConstellationScene hands={hands} controls={controls} seed={seed} paletteBlend={paletteBlend} />
 
         <OrbitControls
           enablePan
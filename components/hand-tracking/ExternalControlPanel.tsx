@@ -0,0 +1,147 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  describeExternalSource,
+  type ExternalControlInput,
+  type ExternalControlMapping,
+  type ExternalInputSettings,
+  type ExternalLearnTarget,
+} from '@/lib/externalControl';
+import type { MidiAccessStatus } from '@/lib/midi';
+import type { RemoteConnectionStatus } from '@/lib/remoteControl';
+
+interface ExternalControlPanelProps {
+  settings: ExternalInputSettings;
+  onSettingsChange: (settings: ExternalInputSettings) => void;
+  midiStatus: MidiAccessStatus;
+  midiInputs: string[];
+  oscStatus: RemoteConnectionStatus;
+  bridgeUrl: string;
+  mappings: ExternalControlMapping[];
+  onMappingsChange: (mappings: ExternalControlMapping[]) => void;
+  /** Learn mode: pick a slider, then move a MIDI control or send OSC. */
+  learning: boolean;
+  learnTarget: ExternalLearnTarget | null;
+  onLearningChange: (learning: boolean) => void;
+  lastInput: ExternalControlInput | null;
+}
+
+const MIDI_STATUS_LABELS: Record<MidiAccessStatus, string> = {
+  idle: 'off',
+  pending: 'waiting for permission',
+  ready: 'ready',
+  unsupported: 'not supported by this browser',
+  denied: 'permission denied',
+};
+
+const formatBound = (value: number) => String(Number(value.toFixed(3)));
+
+/** Control panel card for MIDI/OSC input and MIDI-learn (see `lib/externalControl.ts`). */
+export function ExternalControlPanel({
+  settings,
+  onSettingsChange,
+  midiStatus,
+  midiInputs,
+  oscStatus,
+  bridgeUrl,
+  mappings,
+  onMappingsChange,
+  learning,
+  learnTarget,
+  onLearningChange,
+  lastInput,
+}: ExternalControlPanelProps) {
+  const learnHint = !learning
+    ? null
+    : learnTarget
+      ? `Move a MIDI control or send OSC to map it to ${learnTarget.target}…`
+      : 'Click the slider to map…';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>External Control</CardTitle>
+        <CardDescription>
+          Drive sliders from MIDI controllers or OSC (lighting desks, TouchOSC). Mapped sliders are highlighted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.midi}
+              onChange={(e) => onSettingsChange({ ...settings, midi: e.target.checked })}
+              className="w-4 h-4"
+            />
+            <span>MIDI input</span>
+            <span className="text-xs text-muted-foreground">
+              ({MIDI_STATUS_LABELS[midiStatus]}
+              {midiStatus === 'ready' && `: ${midiInputs.length ? midiInputs.join(', ') : 'no devices'}`})
+            </span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.osc}
+              onChange={(e) => onSettingsChange({ ...settings, osc: e.target.checked })}
+              className="w-4 h-4"
+            />
+            <span>OSC input</span>
+            <span className="text-xs text-muted-foreground">
+              ({settings.osc ? `${oscStatus} · ${bridgeUrl}` : 'off'})
+            </span>
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button
+            size="sm"
+            variant={learning ? 'default' : 'outline'}
+            disabled={!settings.midi && !settings.osc}
+            onClick={() => onLearningChange(!learning)}
+          >
+            {learning ? 'Cancel learn' : 'MIDI/OSC learn'}
+          </Button>
+          {learnHint && <span className="text-xs text-amber-600">{learnHint}</span>}
+        </div>
+
+        {lastInput && (
+          <div className="text-xs text-muted-foreground">
+            Last input: <span className="font-mono">{describeExternalSource(lastInput.source)}</span> ={' '}
+            <span className="font-mono">{lastInput.value.toFixed(3)}</span>
+          </div>
+        )}
+
+        {mappings.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No mappings for this visual yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {mappings.map((mapping) => (
+              <div key={mapping.id} className="flex items-center justify-between gap-2 text-xs">
+                <span>
+                  <span className="font-mono">{describeExternalSource(mapping.source)}</span> → {mapping.target}{' '}
+                  <span className="text-muted-foreground">
+                    ({formatBound(mapping.min)}–{formatBound(mapping.max)})
+                  </span>
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onMappingsChange(mappings.filter((m) => m.id !== mapping.id))}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => onMappingsChange([])}>
+              Clear all
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  deleteGestureTemplate,
+  gestureTemplateNameExists,
+  loadGestureTemplates,
+  saveGestureTemplate,
+} from '@/lib/visualConfigStorage';
+import { useGestureTemplateMatcher } from '@/hooks/useGestures';
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import type { Hand3DData } from './HandTracking';
+import {
+  GESTURE_TEMPLATE_KIND_LABELS,
+  normalizeHandMotion,
+  normalizeHandPose,
+  type GestureTemplate,
+  type GestureTemplateEvent,
+  type GestureTemplateKind,
+  type NormalizedHandFrame,
+} from './gestureTemplates';
+import type { TrackingFrame } from './trackingSources';
+
+// Shorter recordings are almost always a mis-click
+const MIN_MOTION_MS = 250;
+const RECENT_MATCH_COUNT = 5;
+
+interface GestureStudioProps {
+  visualId: string;
+  frame: TrackingFrame;
+  /** Called for every template event (start/hold/end) while the panel is mounted. */
+  onTemplateEvent?: (event: GestureTemplateEvent) => void;
+}
+
+/**
+ * Control panel card for recording custom gestures: capture a few samples of a
+ * pose or short motion with the first tracked hand, save them as a named
+ * template for this visual, and see live matches.
+ */
+export function GestureStudio({ visualId, frame, onTemplateEvent }: GestureStudioProps) {
+  const [templates, setTemplates] = useState<GestureTemplate[]>([]);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<GestureTemplateKind>('pose');
+  const [samples, setSamples] = useState<NormalizedHandFrame[][]>([]);
+  const [sampleDurations, setSampleDurations] = useState<number[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recentMatches, setRecentMatches] = useState<GestureTemplateEvent[]>([]);
+  const motionFramesRef = useRef<Array<{ t: number; landmarks: Hand3DData['landmarks'] }>>([]);
+
+  const matcher = useGestureTemplateMatcher(frame, templates);
+  const storageRevision = useStorageRevision();
+
+  const onTemplateEventRef = useRef(onTemplateEvent);
+  useEffect(() => {
+    onTemplateEventRef.current = onTemplateEvent;
+  });
+
+  useEffect(() => {
+    setTemplates(loadGestureTemplates(visualId));
+  }, [visualId, storageRevision]);
+
+  useEffect(
+    () =>
+      matcher.subscribe((event) => {
+        onTemplateEventRef.current?.(event);
+        if (event.phase === 'start') setRecentMatches((prev) => [event, ...prev].slice(0, RECENT_MATCH_COUNT));
+      }),
+    [matcher]
+  );
+
+  // Motion recording follows the first tracked hand
+  useEffect(() => {
+    if (!isRecording) return;
+    const hand = frame.hands[0];
+    if (hand) motionFramesRef.current.push({ t: frame.timestamp, landmarks: hand.landmarks });
+  }, [frame, isRecording]);
+
+  const resetSamples = () => {
+    setSamples([]);
+    setSampleDurations([]);
+    setIsRecording(false);
+    motionFramesRef.current = [];
+  };
+
+  const handleCapturePose = () => {
+    const hand = frame.hands[0];
+    const normalized = hand ? normalizeHandPose(hand.landmarks) : null;
+    if (!normalized) {
+      setError('No hand in view');
+      return;
+    }
+    setError(null);
+    setSamples((prev) => [...prev, [normalized]]);
+  };
+
+  const handleToggleRecording = () => {
+    if (!isRecording) {
+      motionFramesRef.current = [];
+      setError(null);
+      setIsRecording(true);
+      return;
+    }
+    setIsRecording(false);
+    const recorded = motionFramesRef.current;
+    motionFramesRef.current = [];
+    const durationMs = recorded.length > 1 ? recorded[recorded.length - 1]!.t - recorded[0]!.t : 0;
+    const normalized = durationMs >= MIN_MOTION_MS ? normalizeHandMotion(recorded.map((f) => f.landmarks)) : null;
+    if (!normalized) {
+      setError('Recording too short or no hand in view');
+      return;
+    }
+    setSamples((prev) => [...prev, normalized]);
+    setSampleDurations((prev) => [...prev, durationMs]);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Please enter a name for this gesture');
+      return;
+    }
+    if (gestureTemplateNameExists(visualId, trimmed)) {
+      setError('A gesture with this name already exists');
+      return;
+    }
+    if (samples.length === 0) {
+      setError('Capture at least one sample first');
+      return;
+    }
+    const durationMs =
+      sampleDurations.length > 0 ? sampleDurations.reduce((sum, d) => sum + d, 0) / sampleDurations.length : 0;
+    const saved = saveGestureTemplate(visualId, trimmed, kind, samples, durationMs);
+    setTemplates((prev) => [...prev, saved]);
+    setName('');
+    setError(null);
+    resetSamples();
+  };
+
+  const handleDelete = (templateId: string) => {
+    if (confirm('Are you sure you want to delete this gesture?')) {
+      deleteGestureTemplate(visualId, templateId);
+      setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gesture Studio</CardTitle>
+        <CardDescription>
+          Teach custom poses or short motions (first tracked hand). Capture 3–5 samples for reliable matching.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            placeholder="Gesture name..."
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-md text-sm bg-white text-black"
+          />
+          <select
+            value={kind}
+            onChange={(e) => {
+              setKind(e.target.value as GestureTemplateKind);
+              resetSamples();
+            }}
+            className="px-2 py-2 rounded bg-white text-gray-900 border border-gray-300 text-sm"
+          >
+            {(Object.keys(GESTURE_TEMPLATE_KIND_LABELS) as GestureTemplateKind[]).map((k) => (
+              <option key={k} value={k}>
+                {GESTURE_TEMPLATE_KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {kind === 'pose' ? (
+            <Button variant="outline" size="sm" onClick={handleCapturePose}>
+              Capture sample
+            </Button>
+          ) : (
+            <Button variant={isRecording ? 'destructive' : 'outline'} size="sm" onClick={handleToggleRecording}>
+              {isRecording ? 'Stop recording' : 'Record sample'}
+            </Button>
+          )}
+          <span className="text-sm text-muted-foreground">
+            {samples.length} sample{samples.length === 1 ? '' : 's'}
+          </span>
+          {samples.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={resetSamples}>
+              Clear
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={samples.length === 0 || !name.trim() || isRecording}>
+            Save gesture
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">No custom gestures for this visual yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className="flex items-center justify-between p-2 border border-gray-200 rounded-md"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-sm truncate">{template.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {GESTURE_TEMPLATE_KIND_LABELS[template.kind]} · {template.samples.length} samples
+                  </div>
+                </div>
+                <Button variant="destructive" size="sm" onClick={() => handleDelete(template.id)}>
+                  Delete
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <div className="text-xs font-semibold mb-1">Recent matches</div>
+          {recentMatches.length === 0 ? (
+            <p className="text-xs text-muted-foreground">None yet</p>
+          ) : (
+            <ul className="text-xs font-mono space-y-0.5">
+              {recentMatches.map((event) => (
+                <li key={`${event.templateId}-${event.timestamp}-${event.handId}`}>
+                  {event.name} · hand {event.handId} ({event.handedness}) · {Math.round(event.confidence * 100)}%
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
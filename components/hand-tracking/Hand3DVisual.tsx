@@ -58,10 +58,6 @@ function Hand3DModel({
   const connectionsRef = useRef<THREE.Line[][]>([]);
   const boundingBoxesRef = useRef<THREE.LineSegments[]>([]);
   
-  // Smoothing: store previous positions for each landmark to reduce jitter
-  const smoothedPositionsRef = useRef<Map<number, { x: number; y: number; z: number }[]>>(new Map());
-  const SMOOTHING_FACTOR = 0.3; // Lower = more smoothing (0.0 to 1.0)
-  
   // Create shared geometries (reused for all hands)
   const landmarkGeometry = useMemo(() => {
     return new THREE.SphereGeometry(0.015, 16, 16);
@@ -141,18 +137,11 @@ function Hand3DModel({
     
     // Remove excess hands if we have more than MAX_HANDS (shouldn't happen, but safety check)
     while (handsRef.current.length > MAX_HANDS) {
-      const handIndex = handsRef.current.length - 1;
       const handGroup = handsRef.current.pop();
       const boundingBox = boundingBoxesRef.current.pop();
       const landmarkMeshes = landmarksRef.current.pop();
       const connectionLines = connectionsRef.current.pop();
       
-      // Clean up smoothed positions for this hand
-      for (let i = 0; i < 21; i++) {
-        const key = handIndex * 1000 + i;
-        smoothedPositionsRef.current.delete(key);
-      }
-      
       if (handGroup) {
         groupRef.current.remove(handGroup);
         // Dispose geometries and materials
@@ -306,30 +295,13 @@ function Hand3DModel({
         }
       });
       
-      // Calculate bounding box using smoothed 3D positions directly
-      // (already flipped and smoothed, so we can use them directly)
-      const smoothedPoints = hand.landmarks.map((landmark, idx) => {
-        const key = handIndex * 1000 + idx;
-        const smoothed = smoothedPositionsRef.current.get(key);
-        if (smoothed) {
-          // Use smoothed 3D positions directly (already flipped about Y-axis)
-          return {
-            x: smoothed[0].x,
-            y: smoothed[0].y,
-            z: smoothed[0].z,
-          };
-        }
-        // Fallback to raw calculation if smoothing not available yet
-        return {
-          x: -((landmark.x - 0.5) * 2),
-          y: (0.5 - landmark.y) * 2,
-          z: landmark.z * 2,
-        };
-      });
+      // Scene-space landmark positions (flipped about Y-axis). Landmarks arrive
+      // already smoothed by the landmark filter (see landmarkFilter.ts).
+      const scenePoints = hand.landmarks.map((landmark) => landmarkToSceneSpace(landmark, 2));
       
-      // Calculate bounding box from smoothed 3D points
+      // Calculate bounding box from scene-space points
       let bbox: HandBoundingBox;
-      if (smoothedPoints.length === 0) {
+      if (scenePoints.length === 0) {
         bbox = {
           center: { x: 0, y: 0, z: 0 },
           size: { width: 0, height: 0, depth: 0 },
@@ -338,15 +310,15 @@ function Hand3DModel({
         };
       } else {
         const min = {
-          x: Math.min(...smoothedPoints.map(p => p.x)),
-          y: Math.min(...smoothedPoints.map(p => p.y)),
-          z: Math.min(...smoothedPoints.map(p => p.z)),
+          x: Math.min(...scenePoints.map(p => p.x)),
+          y: Math.min(...scenePoints.map(p => p.y)),
+          z: Math.min(...scenePoints.map(p => p.z)),
         };
         
         const max = {
-          x: Math.max(...smoothedPoints.map(p => p.x)),
-          y: Math.max(...smoothedPoints.map(p => p.y)),
-          z: Math.max(...smoothedPoints.map(p => p.z)),
+          x: Math.max(...scenePoints.map(p => p.x)),
+          y: Math.max(...scenePoints.map(p => p.y)),
+          z: Math.max(...scenePoints.map(p => p.z)),
         };
         
         const center = {
@@ -409,35 +381,15 @@ function Hand3DModel({
         ? rightHandLineMaterial
         : unknownHandLineMaterial;
       
-      // Update landmark positions with smoothing
-      hand.landmarks.forEach((landmark, index) => {
+      // Update landmark positions
+      hand.landmarks.forEach((_landmark, index) => {
         if (index >= landmarkMeshes.length) return;
         
         const mesh = landmarkMeshes[index];
-        if (!mesh) return;
-        
-        // MediaPipe coordinates: x, y are normalized 0-1, z is depth in meters
-        const rawX = -((landmark.x - 0.5) * 2); // Flip about Y-axis: -1 to 1, negated
-        const rawY = (0.5 - landmark.y) * 2; // Flip Y, -1 to 1
-        const rawZ = landmark.z * 2; // Scale depth
+        const point = scenePoints[index];
+        if (!mesh || !point) return;
         
-        // Apply exponential moving average smoothing
-        const key = handIndex * 1000 + index; // Unique key for each hand's landmark
-        let smoothedPositions = smoothedPositionsRef.current.get(key);
-        
-        if (!smoothedPositions) {
-          smoothedPositions = [{ x: rawX, y: rawY, z: rawZ }];
-          smoothedPositionsRef.current.set(key, smoothedPositions);
-        }
-        
-        const prev = smoothedPositions[0];
-        const smoothedX = prev.x * (1 - SMOOTHING_FACTOR) + rawX * SMOOTHING_FACTOR;
-        const smoothedY = prev.y * (1 - SMOOTHING_FACTOR) + rawY * SMOOTHING_FACTOR;
-        const smoothedZ = prev.z * (1 - SMOOTHING_FACTOR) + rawZ * SMOOTHING_FACTOR;
-        
-        smoothedPositions[0] = { x: smoothedX, y: smoothedY, z: smoothedZ };
-        
-        mesh.position.set(smoothedX, smoothedY, smoothedZ);
+        mesh.position.copy(point);
         mesh.visible = showSkeleton;
         
         // Update material based on handedness - always assign to ensure correct material
@@ -457,33 +409,18 @@ function Hand3DModel({
         }
       });
       
-      // Update connection lines (use smoothed positions)
+      // Update connection lines
       HAND_CONNECTIONS.forEach(([startIdx, endIdx], connIndex) => {
         if (connIndex >= connectionLines.length) return;
         
-        const start = hand.landmarks[startIdx];
-        const end = hand.landmarks[endIdx];
+        const start = scenePoints[startIdx];
+        const end = scenePoints[endIdx];
         const line = connectionLines[connIndex];
         
         if (start && end && line) {
-          // Get smoothed positions for start and end points
-          const startKey = handIndex * 1000 + startIdx;
-          const endKey = handIndex * 1000 + endIdx;
-          const startSmoothed = smoothedPositionsRef.current.get(startKey);
-          const endSmoothed = smoothedPositionsRef.current.get(endKey);
-          
-          // Use smoothed positions if available, otherwise calculate raw (with Y-axis flip)
-          const startX = startSmoothed ? startSmoothed[0].x : -((start.x - 0.5) * 2);
-          const startY = startSmoothed ? startSmoothed[0].y : (0.5 - start.y) * 2;
-          const startZ = startSmoothed ? startSmoothed[0].z : start.z * 2;
-          
-          const endX = endSmoothed ? endSmoothed[0].x : -((end.x - 0.5) * 2);
-          const endY = endSmoothed ? endSmoothed[0].y : (0.5 - end.y) * 2;
-          const endZ = endSmoothed ? endSmoothed[0].z : end.z * 2;
-          
           const positions = line.geometry.getAttribute('position') as THREE.BufferAttribute;
-          positions.setXYZ(0, startX, startY, startZ);
-          positions.setXYZ(1, endX, endY, endZ);
+          positions.setXYZ(0, start.x, start.y, start.z);
+          positions.setXYZ(1, end.x, end.y, end.z);
           positions.needsUpdate = true;
           
           line.visible = showSkeleton;
@@ -2,129 +2,16 @@
 
 import { useEffect, useRef, useState } from 'react';
 import type { FinalVector } from './PinchHistoryTracker';
-import { FilesetResolver, PoseLandmarker } from '@mediapipe/tasks-vision';
-
-// Pose connections (subset of MediaPipe Pose landmark topology, 33 points)
-// Enough to make the overlay immediately useful and match the Studio demo feel.
-const POSE_CONNECTIONS: Array<[number, number]> = [
-  // Face / head
-  [0, 1], [1, 2], [2, 3], [3, 7],
-  [0, 4], [4, 5], [5, 6], [6, 8],
-  [9, 10],
-  // Torso
-  [11, 12],
-  [11, 23],
-  [12, 24],
-  [23, 24],
-  // Left arm
-  [11, 13], [13, 15],
-  [15, 17], [15, 19], [15, 21],
-  [17, 19],
-  // Right arm
-  [12, 14], [14, 16],
-  [16, 18], [16, 20], [16, 22],
-  [18, 20],
-  // Left leg
-  [23, 25], [25, 27], [27, 29], [29, 31], [27, 31],
-  // Right leg
-  [24, 26], [26, 28], [28, 30], [30, 32], [28, 32],
-];
-
-// Hand connections based on MediaPipe hand landmarks (21 points)
-const HAND_CONNECTIONS: Array<[number, number]> = [
-  // Thumb
-  [0, 1], [1, 2], [2, 3], [3, 4],
-  // Index finger
-  [0, 5], [5, 6], [6, 7], [7, 8],
-  // Middle finger
-  [0, 9], [9, 10], [10, 11], [11, 12],
-  // Ring finger
-  [0, 13], [13, 14], [14, 15], [15, 16],
-  // Pinky
-  [0, 17], [17, 18], [18, 19], [19, 20],
-  // Palm
-  [5, 9], [9, 13], [13, 17],
-];
-
-// MediaPipe hand landmark indices
-const THUMB_TIP = 4;
-const INDEX_FINGER_TIP = 8;
-const MIDDLE_FINGER_TIP = 12;
-const RING_FINGER_TIP = 16;
-const PINKY_TIP = 20;
-
-// Calculate 3D distance between two landmarks
-const calculateDistance = (point1: any, point2: any): number => {
-  const dx = point1.x - point2.x;
-  const dy = point1.y - point2.y;
-  const dz = (point1.z || 0) - (point2.z || 0);
-  return Math.sqrt(dx * dx + dy * dy + dz * dz);
-};
-
-// Calculate pinch vector (position and direction)
-// Coordinates are in center-origin system: (0,0) is at center, range is -0.5 to 0.5
-const calculatePinchVector = (
-  thumbTip: any,
-  indexTip: any
-): { x: number; y: number; dx: number; dy: number } => {
-  // Position: midpoint between thumb and index finger (normalized 0-1, top-left origin)
-  const xNormalized = (thumbTip.x + indexTip.x) / 2;
-  const yNormalized = (thumbTip.y + indexTip.y) / 2;
-  
-  // Convert to center-origin: (0,0) at center, range -0.5 to 0.5
-  const x = xNormalized - 0.5;
-  const y = yNormalized - 0.5;
-  
-  // Direction vector: from thumb to index finger (normalized)
-  const dx = indexTip.x - thumbTip.x;
-  const dy = indexTip.y - thumbTip.y;
-  const magnitude = Math.sqrt(dx * dx + dy * dy);
-  
-  // Normalize direction vector
-  const normalizedDx = magnitude > 0 ? dx / magnitude : 0;
-  const normalizedDy = magnitude > 0 ? dy / magnitude : 0;
-  
-  return {
-    x,
-    y,
-    dx: normalizedDx,
-    dy: normalizedDy,
-  };
-};
-
-// Detect pinch gesture (thumb and index finger close together)
-const detectPinch = (
-  landmarks: any[],
-  threshold: number = 0.05
-): {
-  isPinching: boolean;
-  distance: number;
-  pinchStrength: number;
-  vector?: { x: number; y: number; dx: number; dy: number };
-} => {
-  if (!landmarks || landmarks.length < 21) {
-    return { isPinching: false, distance: Infinity, pinchStrength: 0 };
-  }
-
-  const thumbTip = landmarks[THUMB_TIP];
-  const indexTip = landmarks[INDEX_FINGER_TIP];
-
-  if (!thumbTip || !indexTip) {
-    return { isPinching: false, distance: Infinity, pinchStrength: 0 };
-  }
-
-  const distance = calculateDistance(thumbTip, indexTip);
-  const isPinching = distance < threshold;
-  
-  // Pinch strength: 0 (far apart) to 1 (touching)
-  // Normalize based on threshold (closer = stronger)
-  const pinchStrength = Math.max(0, Math.min(1, 1 - (distance / threshold)));
-
-  // Calculate vector when pinching
-  const vector = isPinching ? calculatePinchVector(thumbTip, indexTip) : undefined;
-
-  return { isPinching, distance, pinchStrength, vector };
-};
+import { calculateDistance, detectPinch, INDEX_FINGER_TIP, selectControlHands, THUMB_TIP } from './pinchMath';
+import {
+  createLandmarkWorker,
+  createLandmarkWorkerClient,
+  FACE_CONNECTIONS,
+  HAND_CONNECTIONS_LIST,
+  POSE_CONNECTIONS_LIST,
+  type LandmarkWorkerClient,
+  type LandmarkWorkerResult,
+} from '@/lib/mediapipe';
 
 export interface PinchVector {
   x: number; // Position X (normalized 0-1)
@@ -133,9 +20,41 @@ export interface PinchVector {
   dy: number; // Direction Y (normalized)
 }
 
+export interface LandmarkVelocity {
+  x: number;
+  y: number;
+  z: number;
+}
+
 export interface Hand3DData {
   landmarks: Array<{ x: number; y: number; z: number }>;
   handedness: 'Left' | 'Right' | 'Unknown';
+  /** Stable id for this physical hand across frames (set by the hand identity tracker, see `handIdentity.ts`). */
+  id?: number;
+  /** Per-landmark velocity in normalized units/s (set by the landmark filter, see `landmarkFilter.ts`). */
+  velocities?: LandmarkVelocity[];
+}
+
+export interface PoseLandmarkPoint {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export interface FaceLandmarkPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Everything HandTracking derived from one processed camera frame. */
+export interface HandTrackingFrame {
+  hands: Hand3DData[];
+  pinchVector: PinchVector | null;
+  rightHandDistance: number | null;
+  pose: PoseLandmarkPoint[] | null;
+  face?: FaceLandmarkPoint[] | null;
 }
 
 export interface HandTrackingProps {
@@ -143,8 +62,10 @@ export interface HandTrackingProps {
   compositeVector?: FinalVector | null; // Composite vector to draw on canvas
   onRightHandDistance?: (distance: number | null) => void; // Distance between thumb and index on right hand
   onHands3D?: (hands: Hand3DData[]) => void; // Callback with 3D hand data for visualization
+  onTrackingFrame?: (frame: HandTrackingFrame) => void; // Combined per-frame data (e.g. for session recording)
   leftHanded?: boolean; // If true, swap which hand controls what
   enablePose?: boolean; // If true, draw pose landmarks overlay (MediaPipe Pose Landmarker)
+  enableFace?: boolean; // If true, run MediaPipe Face Landmarker and draw the face outline
   className?: string; // Optional className for custom styling
   hideRestartButton?: boolean; // If true, hide the restart camera button
 }
@@ -154,8 +75,10 @@ export function HandTracking({
   compositeVector,
   onRightHandDistance,
   onHands3D,
+  onTrackingFrame,
   leftHanded = false,
   enablePose = false,
+  enableFace = false,
   className = '',
   hideRestartButton = false,
 }: HandTrackingProps = {}) {
@@ -165,15 +88,17 @@ export function HandTracking({
   const onPinchVectorRef = useRef<HandTrackingProps['onPinchVector']>(onPinchVector);
   const onRightHandDistanceRef = useRef<HandTrackingProps['onRightHandDistance']>(onRightHandDistance);
   const onHands3DRef = useRef<HandTrackingProps['onHands3D']>(onHands3D);
+  const onTrackingFrameRef = useRef<HandTrackingProps['onTrackingFrame']>(onTrackingFrame);
   const leftHandedRef = useRef<boolean>(leftHanded);
   const enablePoseRef = useRef<boolean>(enablePose);
-  const poseLandmarkerRef = useRef<PoseLandmarker | null>(null);
-  const poseInitRef = useRef<Promise<void> | null>(null);
-  const poseLandmarksRef = useRef<Array<{ x: number; y: number }> | null>(null);
+  const enableFaceRef = useRef<boolean>(enableFace);
+  const poseLandmarksRef = useRef<PoseLandmarkPoint[] | null>(null);
+  const faceLandmarksRef = useRef<FaceLandmarkPoint[] | null>(null);
   const [poseError, setPoseError] = useState<string | null>(null);
+  const [faceError, setFaceError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [scriptsLoaded, setScriptsLoaded] = useState(false);
+  const [modelsLoaded, setModelsLoaded] = useState(false);
   const [initFunction, setInitFunction] = useState<(() => Promise<void>) | null>(null);
   
   // Keep compositeVector ref up to date
@@ -191,6 +116,9 @@ export function HandTracking({
   useEffect(() => {
     onHands3DRef.current = onHands3D;
   }, [onHands3D]);
+  useEffect(() => {
+    onTrackingFrameRef.current = onTrackingFrame;
+  }, [onTrackingFrame]);
   useEffect(() => {
     leftHandedRef.current = leftHanded;
   }, [leftHanded]);
@@ -198,17 +126,19 @@ export function HandTracking({
     enablePoseRef.current = enablePose;
     if (!enablePose) setPoseError(null);
   }, [enablePose]);
+  useEffect(() => {
+    enableFaceRef.current = enableFace;
+    if (!enableFace) setFaceError(null);
+  }, [enableFace]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
-    let handsInstance: any = null;
-    let cameraInstance: any = null;
-    let HandsClass: any = null;
-    let CameraClass: any = null;
+    // Landmark inference runs in a worker; frames are sent as ImageBitmaps
+    let workerClient: LandmarkWorkerClient | null = null;
+    let frameLoopId: number | null = null;
     let stream: MediaStream | null = null;
     let initInProgress = false;
-    let lastPoseTsMs = 0;
 
     // Simple drawing utilities (since DrawingUtils from CDN isn't working)
     const drawConnectors = (
@@ -265,72 +195,17 @@ export function HandTracking({
       });
     };
 
-    const loadMediaPipeScripts = async (): Promise<void> => {
-      return new Promise((resolve, reject) => {
-        const maxWaitTime = 10000; // 10 seconds
-        const startTime = Date.now();
-        const win = window as any;
-        
-        const checkScripts = () => {
-          // Check if both are available and are functions (constructors)
-          const hasHands = win.Hands && typeof win.Hands === 'function';
-          const hasCamera = win.Camera && typeof win.Camera === 'function';
-          
-          if (hasHands && hasCamera) {
-            HandsClass = win.Hands;
-            CameraClass = win.Camera;
-            console.log('✅ MediaPipe scripts loaded successfully');
-            console.log('HandsClass:', typeof HandsClass);
-            console.log('CameraClass:', typeof CameraClass);
-            setScriptsLoaded(true);
-            resolve();
-            return;
-          }
-          
-          // Check for timeout
-          const elapsed = Date.now() - startTime;
-          if (elapsed > maxWaitTime) {
-            console.error('❌ Timeout waiting for scripts');
-            console.error('Hands:', !!win.Hands, typeof win.Hands);
-            console.error('Camera:', !!win.Camera, typeof win.Camera);
-            console.error('Available:', Object.keys(win).filter(k => k.includes('Hand') || k.includes('Camera')));
-            reject(new Error('Timeout: MediaPipe scripts did not load within 10 seconds'));
-            return;
-          }
-          
-          // Log progress every second
-          if (elapsed % 1000 < 100) {
-            console.log(`Waiting for scripts... (${Math.floor(elapsed / 1000)}s) Hands: ${hasHands}, Camera: ${hasCamera}`);
-          }
-          
-          // Keep checking
-          setTimeout(checkScripts, 50);
-        };
-        
-        // Start checking immediately
-        checkScripts();
-      });
-    };
-
     const cleanup = () => {
-      // Stop MediaPipe Camera
-      if (cameraInstance) {
-        try {
-          cameraInstance.stop();
-        } catch (e) {
-          console.error('Error stopping camera:', e);
-        }
-        cameraInstance = null;
+      // Stop frame loop
+      if (frameLoopId !== null) {
+        cancelAnimationFrame(frameLoopId);
+        frameLoopId = null;
       }
 
-      // Stop MediaPipe Hands
-      if (handsInstance) {
-        try {
-          handsInstance.close();
-        } catch (e) {
-          console.error('Error closing hands:', e);
-        }
-        handsInstance = null;
+      // Terminate the landmark worker (closes all landmarkers)
+      if (workerClient) {
+        workerClient.close();
+        workerClient = null;
       }
 
       // Stop video stream
@@ -362,9 +237,27 @@ export function HandTracking({
         // If we already have something running, stop it first.
         cleanup();
 
-        console.log('Waiting for MediaPipe scripts to load...');
-        await loadMediaPipeScripts();
-        console.log('MediaPipe scripts loaded.');
+        console.log('Loading MediaPipe Hand Landmarker...');
+        const client = createLandmarkWorkerClient(createLandmarkWorker(), {
+          config: { numHands: 2 },
+          onResult: (result) => onResults(result),
+          onError: ({ task, message, assetUrl }) => {
+            if (task === 'pose') {
+              console.warn('PoseLandmarker init failed:', message);
+              setPoseError(assetUrl ? message : 'Pose Landmarker failed to initialize (see console).');
+            } else if (task === 'face') {
+              console.warn('FaceLandmarker init failed:', message);
+              setFaceError(assetUrl ? message : 'Face Landmarker failed to initialize (see console).');
+            } else if (task === 'frame') {
+              console.error('Error running MediaPipe landmarkers:', message);
+            }
+            // Hand landmarker failures reject client.load('hands') below
+          },
+        });
+        workerClient = client;
+        await client.load('hands');
+        setModelsLoaded(true);
+        console.log('MediaPipe Hand Landmarker loaded.');
 
         const video = videoRef.current;
         const canvas = canvasRef.current;
@@ -385,43 +278,8 @@ export function HandTracking({
           return;
         }
 
-        // Verify HandsClass is a constructor
-        if (typeof HandsClass !== 'function') {
-          console.error('HandsClass is not a constructor. Type:', typeof HandsClass);
-          console.error('HandsClass value:', HandsClass);
-          throw new Error('Hands is not a constructor');
-        }
-
-        // Initialize Hands with proper module configuration
-        try {
-          handsInstance = new HandsClass({
-            locateFile: (file: string) => {
-              return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-            },
-            // Suppress Emscripten warnings about Module.arguments
-            onRuntimeInitialized: () => {
-              console.log('MediaPipe Hands runtime initialized');
-            },
-          });
-        } catch (err: any) {
-          // If initialization fails, try without onRuntimeInitialized
-          console.warn('Initial Hands initialization failed, retrying:', err);
-          handsInstance = new HandsClass({
-            locateFile: (file: string) => {
-              return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-            },
-          });
-        }
-
-        handsInstance.setOptions({
-          maxNumHands: 2,
-          modelComplexity: 0, // Use lite model for better performance (0 = lite, 1 = full)
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
-
         let firstFrameReceived = false;
-        handsInstance.onResults((results: any) => {
+        const onResults = (results: LandmarkWorkerResult) => {
           // Hide loading spinner on first frame
           if (!firstFrameReceived) {
             firstFrameReceived = true;
@@ -429,6 +287,10 @@ export function HandTracking({
             console.log('First frame received, camera is working');
           }
 
+          // Pose and face come back with the hands for the same frame
+          poseLandmarksRef.current = results.pose?.poseLandmarks ?? null;
+          faceLandmarksRef.current = results.face?.multiFaceLandmarks[0] ?? null;
+
           canvasCtx.save();
           canvasCtx.clearRect(0, 0, canvas.width, canvas.height);
           
@@ -437,45 +299,43 @@ export function HandTracking({
           canvasCtx.scale(-1, 1);
           
           // Draw the video image (will be flipped by the transformation)
-          canvasCtx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+          canvasCtx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
           // Draw pose overlay (if enabled and available)
           if (enablePoseRef.current && poseLandmarksRef.current) {
-            drawConnectors(canvasCtx, poseLandmarksRef.current as any, POSE_CONNECTIONS, {
+            drawConnectors(canvasCtx, poseLandmarksRef.current, POSE_CONNECTIONS_LIST, {
               color: '#22c55e',
               lineWidth: 4,
             });
-            drawLandmarks(canvasCtx, poseLandmarksRef.current as any, {
+            drawLandmarks(canvasCtx, poseLandmarksRef.current, {
               color: '#22c55e',
               radius: 2.5,
             });
           }
 
+          // Draw face outline (if enabled and available)
+          if (enableFaceRef.current && faceLandmarksRef.current) {
+            drawConnectors(canvasCtx, faceLandmarksRef.current, FACE_CONNECTIONS, {
+              color: '#38bdf8',
+              lineWidth: 1.5,
+            });
+          }
+
           let pinchVector: PinchVector | null = null;
           let pinchPosition: { x: number; y: number } | null = null; // Actual pinch position for drawing
           let originalDirection: { dx: number; dy: number } | null = null; // Original direction for drawing
+          let frameHands: Hand3DData[] = [];
+          let frameRightHandDistance: number | null = null;
 
-          if (results.multiHandLandmarks) {
+          if (results.hands) {
             // Match landmarks with handedness (if available)
-            const hands = results.multiHandLandmarks.map((landmarks: any, index: number) => {
-              // MediaPipe handedness can be an array or object
-              let handedness = 'Unknown';
-              if (results.multiHandedness && results.multiHandedness[index]) {
-                const handData = results.multiHandedness[index];
-                if (Array.isArray(handData) && handData[0]) {
-                  handedness = handData[0].categoryName || 'Unknown';
-                } else if (handData.categoryName) {
-                  handedness = handData.categoryName;
-                }
-              }
-              return {
-                landmarks,
-                handedness,
-              };
-            });
+            const hands = results.hands.map((hand) => ({
+              landmarks: hand.landmarks,
+              handedness: hand.handedness?.[0]?.categoryName || 'Unknown',
+            }));
             
             // Callback with 3D hand data for visualization
-            if (onHands3DRef.current) {
+            if (onHands3DRef.current || onTrackingFrameRef.current) {
               const hands3D: Hand3DData[] = hands.map((hand: any) => ({
                 landmarks: hand.landmarks.map((lm: any) => ({
                   x: lm.x,
@@ -484,23 +344,17 @@ export function HandTracking({
                 })),
                 handedness: hand.handedness as 'Left' | 'Right' | 'Unknown',
               }));
-              onHands3DRef.current(hands3D);
+              frameHands = hands3D;
+              onHands3DRef.current?.(hands3D);
             }
             
-            // Determine which hand to use for phase angle control based on leftHanded toggle
-            const controlHandType = leftHandedRef.current ? 'Left' : 'Right';
-            const otherHandType = leftHandedRef.current ? 'Right' : 'Left';
-            
-            const controlHand = hands.find((hand: any) => hand.handedness === controlHandType);
-            
-            // Use control hand if found, otherwise fallback to first hand
-            // This ensures control always works
-            const handToUse = controlHand || hands[0];
-            
+            // Determine which hand controls the 3D visual (based on leftHanded toggle)
+            // and which hand drives the thumb-index distance
+            const { controlHand: handToUse, otherHand } = selectControlHands<any>(hands, leftHandedRef.current);
             
             // Only use control hand for 3D control (or first hand if no control hand detected)
             if (handToUse) {
-              const pinch = detectPinch(handToUse.landmarks, 0.05);
+              const pinch = detectPinch(handToUse.landmarks);
               
               if (pinch.vector) {
                 // Calculate actual pinch position from landmarks (midpoint of thumb and index)
@@ -535,7 +389,7 @@ export function HandTracking({
             
             // Draw both hands on canvas (but only control hand controls 3D)
             for (const hand of hands) {
-              const pinch = detectPinch(hand.landmarks, 0.05);
+              const pinch = detectPinch(hand.landmarks);
               
               // Change color based on pinch state and whether this is the control hand
               const isControlHand = hand === handToUse;
@@ -550,7 +404,7 @@ export function HandTracking({
               drawConnectors(
                 canvasCtx,
                 hand.landmarks,
-                HandsClass.HAND_CONNECTIONS || HAND_CONNECTIONS,
+                HAND_CONNECTIONS_LIST,
                 { color: connectorColor, lineWidth: 5 }
               );
               drawLandmarks(canvasCtx, hand.landmarks, {
@@ -560,22 +414,6 @@ export function HandTracking({
               });
             }
             
-            // Draw circle between thumb and index finger of the other hand (not the control hand)
-            // Find the other hand: explicitly the other type, or if 2 hands and one is the control hand, 
-            // the other one should be the other hand
-            let otherHand = hands.find((hand: any) => hand.handedness === otherHandType);
-            
-            // Fallback: if we have 2 hands and one is the control hand, 
-            // the other one should be the other hand
-            if (!otherHand && hands.length === 2 && handToUse) {
-              otherHand = hands.find((hand: any) => hand !== handToUse);
-            }
-            
-            // Another fallback: if we have 2 hands and handedness is Unknown, use the second hand
-            if (!otherHand && hands.length === 2 && handToUse === hands[0]) {
-              otherHand = hands[1];
-            }
-            
             if (otherHand) {
               const thumbTip = otherHand.landmarks[THUMB_TIP];
               const indexTip = otherHand.landmarks[INDEX_FINGER_TIP];
@@ -583,6 +421,7 @@ export function HandTracking({
               if (thumbTip && indexTip) {
                 // Calculate distance between thumb and index finger (normalized 0-1)
                 const distance = calculateDistance(thumbTip, indexTip);
+                frameRightHandDistance = distance;
                 
                 // Report distance to parent component
                 if (onRightHandDistanceRef.current) {
@@ -622,6 +461,16 @@ export function HandTracking({
           if (onPinchVectorRef.current) {
             onPinchVectorRef.current(pinchVector);
           }
+
+          if (onTrackingFrameRef.current) {
+            onTrackingFrameRef.current({
+              hands: frameHands,
+              pinchVector,
+              rightHandDistance: frameRightHandDistance,
+              pose: enablePoseRef.current ? poseLandmarksRef.current : null,
+              face: enableFaceRef.current ? faceLandmarksRef.current : null,
+            });
+          }
           
           // Draw composite vector LAST so it appears on top of everything
           // Note: Canvas is flipped horizontally, so coordinates need to account for the transformation
@@ -698,7 +547,7 @@ export function HandTracking({
           }
           
           canvasCtx.restore();
-        });
+        };
 
         // Set canvas dimensions to match video
         canvas.width = 640;
@@ -752,106 +601,38 @@ export function HandTracking({
           return;
         }
 
-        // Initialize Camera with the video element that now has the stream
-        // Frame skipping for better performance: only process every 2nd frame
-        let frameCount = 0;
-        const FRAME_SKIP = 2; // Process every Nth frame (1 = every frame, 2 = every other, etc.)
-
-        console.log('Initializing MediaPipe Camera...');
-        cameraInstance = new CameraClass(video, {
-          onFrame: async () => {
-            frameCount++;
-            // Skip frames for performance - MediaPipe is expensive
-            if (frameCount % FRAME_SKIP !== 0) {
-              return;
-            }
-
-            // Lazy-init Pose Landmarker when enabled
-            if (enablePoseRef.current && !poseLandmarkerRef.current && !poseInitRef.current) {
-              poseInitRef.current = (async () => {
-                // MediaPipe Solutions (hands.js) and MediaPipe Tasks both use Emscripten/WASM.
-                // On some setups, Solutions' global `Module` can break Tasks WASM init.
-                // Temporarily clear it during Tasks initialization to avoid collisions.
-                const g = globalThis as any;
-                const savedModule = g.Module;
-                const savedArguments = g.arguments_;
-                try {
-                  try {
-                    delete g.Module;
-                    delete g.arguments_;
-                  } catch {
-                    g.Module = undefined;
-                    g.arguments_ = undefined;
-                  }
-
-                  const vision = await FilesetResolver.forVisionTasks(
-                    'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision/wasm'
-                  );
-                  poseLandmarkerRef.current = await PoseLandmarker.createFromOptions(vision, {
-                    baseOptions: {
-                      modelAssetPath:
-                        'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task',
-                    },
-                    runningMode: 'VIDEO',
-                    numPoses: 1,
-                    minPoseDetectionConfidence: 0.5,
-                    minPosePresenceConfidence: 0.5,
-                    minTrackingConfidence: 0.5,
-                  });
-                  setPoseError(null);
-                } finally {
-                  if (savedModule !== undefined) g.Module = savedModule;
-                  else {
-                    try {
-                      delete g.Module;
-                    } catch {
-                      g.Module = undefined;
-                    }
-                  }
-                  if (savedArguments !== undefined) g.arguments_ = savedArguments;
-                  else {
-                    try {
-                      delete g.arguments_;
-                    } catch {
-                      g.arguments_ = undefined;
-                    }
-                  }
-                }
-              })().catch((e) => {
-                console.warn('PoseLandmarker init failed:', e);
-                poseLandmarkerRef.current = null;
-                poseInitRef.current = null; // allow retry
-                setPoseError('Pose Landmarker failed to initialize (see console).');
+        // Drive capture from the video element with requestAnimationFrame. A frame is only
+        // captured when the worker is idle, so stale frames are skipped rather than queued.
+        let lastVideoTime = -1;
+        let capturing = false;
+
+        const processFrame = () => {
+          frameLoopId = requestAnimationFrame(processFrame);
+          const client = workerClient;
+          if (!client || capturing || client.isBusy()) return;
+          if (video.readyState < 2 || video.currentTime === lastVideoTime) return;
+          lastVideoTime = video.currentTime;
+
+          capturing = true;
+          const timestamp = performance.now();
+          createImageBitmap(video)
+            .then((bitmap) => {
+              client.submit(bitmap, timestamp, {
+                hands: true,
+                pose: enablePoseRef.current,
+                face: enableFaceRef.current,
               });
-            }
-
-            // Run Pose Landmarker (if enabled)
-            if (enablePoseRef.current && poseLandmarkerRef.current) {
-              const nowMs = performance.now();
-              // Avoid double-processing if onFrame is called multiple times with identical timestamps
-              if (nowMs !== lastPoseTsMs) {
-                lastPoseTsMs = nowMs;
-                const poseResult = poseLandmarkerRef.current.detectForVideo(video, nowMs);
-                const pose = poseResult?.landmarks?.[0];
-                if (pose && pose.length) {
-                  poseLandmarksRef.current = pose.map((p) => ({ x: p.x, y: p.y }));
-                } else {
-                  poseLandmarksRef.current = null;
-                }
-              }
-            } else if (!enablePoseRef.current) {
-              poseLandmarksRef.current = null;
-            }
+            })
+            .catch((e) => {
+              console.error('Error capturing video frame:', e);
+            })
+            .finally(() => {
+              capturing = false;
+            });
+        };
 
-            await handsInstance.send({ image: video });
-          },
-          width: 640,
-          height: 480,
-        });
-        
-        console.log('Starting MediaPipe Camera...');
-        cameraInstance.start();
-        console.log('MediaPipe Camera start() called');
+        console.log('Starting detection loop...');
+        frameLoopId = requestAnimationFrame(processFrame);
 
         // Set a timeout to hide loading if no frames arrive
         setTimeout(() => {
@@ -878,13 +659,6 @@ export function HandTracking({
 
     return () => {
       cleanup();
-      try {
-        poseLandmarkerRef.current?.close?.();
-      } catch {
-        // ignore
-      }
-      poseLandmarkerRef.current = null;
-      poseInitRef.current = null;
     };
   }, []);
 
@@ -915,13 +689,14 @@ export function HandTracking({
       <div className={`relative ${className.includes('object-cover') ? 'w-full h-full' : ''}`}>
         <canvas
           ref={canvasRef}
+          data-tracking-feed
           width={640}
           height={480}
           className={`${className.includes('object-cover') ? 'w-full h-full object-cover' : 'w-full max-w-full h-auto'} border border-gray-300 rounded-lg ${className}`}
         />
-        {poseError && !isLoading && !error && (
+        {(poseError || faceError) && !isLoading && !error && (
           <div className="absolute bottom-2 left-2 right-2 rounded bg-black/70 text-white text-xs px-2 py-1">
-            {poseError}
+            {[poseError, faceError].filter(Boolean).join(' ')}
           </div>
         )}
         {isLoading && (
@@ -929,9 +704,9 @@ export function HandTracking({
             <div className="text-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto mb-2"></div>
               <p className="text-sm text-gray-700">
-                {scriptsLoaded ? 'Requesting camera access...' : 'Loading MediaPipe scripts...'}
+                {modelsLoaded ? 'Requesting camera access...' : 'Loading hand tracking model...'}
               </p>
-              {scriptsLoaded && (
+              {modelsLoaded && (
                 <p className="text-xs text-gray-500 mt-2">
                   If no prompt appears, check browser console for errors
                 </p>
@@ -954,7 +729,7 @@ export function HandTracking({
             </div>
           </div>
         )}
-        {!isLoading && !error && scriptsLoaded && !hideRestartButton && (
+        {!isLoading && !error && modelsLoaded && !hideRestartButton && (
           <div className="absolute top-2 right-2">
             <button
               onClick={handleStartCamera}
@@ -0,0 +1,89 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DEFAULT_LANDMARK_FILTER_SETTINGS,
+  LANDMARK_FILTER_KINDS,
+  LANDMARK_FILTER_LABELS,
+  type LandmarkFilterKind,
+  type LandmarkFilterSettings,
+} from './landmarkFilter';
+
+type NumericSetting = Exclude<keyof LandmarkFilterSettings, 'kind'>;
+
+const SLIDERS: Record<Exclude<LandmarkFilterKind, 'none'>, Array<{
+  key: NumericSetting;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  digits: number;
+}>> = {
+  oneEuro: [
+    { key: 'minCutoff', label: 'Min cutoff (Hz) — smoothing at rest', min: 0.05, max: 10, step: 0.05, digits: 2 },
+    { key: 'beta', label: 'Beta — responsiveness to speed', min: 0, max: 40, step: 0.5, digits: 1 },
+    { key: 'dCutoff', label: 'Velocity cutoff (Hz)', min: 0.1, max: 10, step: 0.1, digits: 1 },
+  ],
+  kalman: [
+    { key: 'processNoise', label: 'Process noise — follows direction changes', min: 0.5, max: 50, step: 0.5, digits: 1 },
+    { key: 'measurementNoise', label: 'Measurement noise — smoothing', min: 0.0005, max: 0.02, step: 0.0005, digits: 4 },
+  ],
+};
+
+interface LandmarkFilterControlsProps {
+  settings: LandmarkFilterSettings;
+  onChange: (settings: LandmarkFilterSettings) => void;
+}
+
+/** Control panel card for the per-visual landmark filter. */
+export function LandmarkFilterControls({ settings, onChange }: LandmarkFilterControlsProps) {
+  const sliders = settings.kind === 'none' ? [] : SLIDERS[settings.kind];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Landmark Smoothing</CardTitle>
+        <CardDescription>
+          Temporal filter applied to hand landmarks before they reach this visual (also provides landmark velocity)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm">
+          <span>Filter</span>
+          <select
+            value={settings.kind}
+            onChange={(e) => onChange({ ...settings, kind: e.target.value as LandmarkFilterKind })}
+            className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300"
+          >
+            {LANDMARK_FILTER_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {LANDMARK_FILTER_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {sliders.map(({ key, label, min, max, step, digits }) => (
+          <div key={key}>
+            <div className="flex justify-between text-xs mb-1">
+              <span>{label}</span>
+              <span className="font-mono">{settings[key].toFixed(digits)}</span>
+            </div>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={settings[key]}
+              onChange={(e) => onChange({ ...settings, [key]: parseFloat(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={() => onChange(DEFAULT_LANDMARK_FILTER_SETTINGS)}>
+          Reset to defaults
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
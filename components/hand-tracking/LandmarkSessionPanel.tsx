@@ -0,0 +1,430 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import {
+  deleteStoredRecording,
+  loadStoredRecording,
+  loadStoredRecordings,
+  saveStoredRecording,
+  type StoredRecordingInfo,
+} from '@/lib/visualConfigStorage';
+import type { HandTrackingFrame } from './HandTracking';
+import {
+  advancePlayhead,
+  createLandmarkRecorder,
+  getFrameIndexAtTime,
+  parseRecording,
+  serializeRecording,
+  type LandmarkRecording,
+  type RecordedFrame,
+} from './landmarkRecording';
+
+export type LandmarkSessionMode = 'live' | 'replay';
+
+interface UseLandmarkSessionOptions {
+  /** Receives replayed frames (null before the first frame / when going back to live). */
+  onFrame?: (frame: RecordedFrame | null) => void;
+}
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 1.5, 2] as const;
+
+/**
+ * Hook that records tracking frames and replays a recording with transport
+ * controls (play/pause/seek/loop/speed). Replayed frames are passed to `onFrame`;
+ * while `mode === 'replay'` callers should ignore live data.
+ */
+export function useLandmarkSession(options: UseLandmarkSessionOptions = {}) {
+  const callbacksRef = useRef(options);
+  useEffect(() => {
+    callbacksRef.current = options;
+  });
+
+  const recorderRef = useRef(createLandmarkRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrameCount, setRecordedFrameCount] = useState(0);
+  const [recording, setRecording] = useState<LandmarkRecording | null>(null);
+  const [mode, setMode] = useState<LandmarkSessionMode>('live');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [loop, setLoop] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const positionRef = useRef(0);
+  const lastFrameIndexRef = useRef(-1);
+  const loopRef = useRef(loop);
+  const speedRef = useRef(speed);
+  useEffect(() => {
+    loopRef.current = loop;
+  }, [loop]);
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  const emitFrame = useCallback((frame: RecordedFrame | null) => {
+    callbacksRef.current.onFrame?.(frame);
+  }, []);
+
+  const emitAt = useCallback(
+    (rec: LandmarkRecording, timeMs: number, force = false) => {
+      const index = getFrameIndexAtTime(rec, timeMs);
+      if (!force && index === lastFrameIndexRef.current) return;
+      lastFrameIndexRef.current = index;
+      emitFrame(index >= 0 ? rec.frames[index]! : null);
+    },
+    [emitFrame]
+  );
+
+  // Frames from the tracking source (only stored while recording)
+  const recordFrame = useCallback((frame: HandTrackingFrame) => {
+    const recorder = recorderRef.current;
+    if (!recorder.isRecording()) return;
+    recorder.addFrame(frame);
+    const count = recorder.frameCount();
+    // Keep re-renders cheap: refresh the counter every 15 frames
+    if (count % 15 === 0) setRecordedFrameCount(count);
+  }, []);
+
+  const startRecording = useCallback(() => {
+    setIsPlaying(false);
+    setMode('live');
+    recorderRef.current.start();
+    setRecordedFrameCount(0);
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    const result = recorderRef.current.stop();
+    setIsRecording(false);
+    if (result) {
+      setRecording(result);
+      setRecordedFrameCount(result.frames.length);
+      positionRef.current = 0;
+      setPositionMs(0);
+    }
+  }, []);
+
+  const loadRecording = useCallback((rec: LandmarkRecording) => {
+    setIsPlaying(false);
+    setRecording(rec);
+    positionRef.current = 0;
+    lastFrameIndexRef.current = -1;
+    setPositionMs(0);
+  }, []);
+
+  const play = useCallback(() => {
+    if (!recording || recording.frames.length === 0) return;
+    if (positionRef.current >= recording.durationMs && !loopRef.current) {
+      positionRef.current = 0;
+    }
+    setMode('replay');
+    setIsPlaying(true);
+  }, [recording]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback(
+    (timeMs: number) => {
+      if (!recording) return;
+      const clamped = Math.max(0, Math.min(recording.durationMs, timeMs));
+      positionRef.current = clamped;
+      setPositionMs(clamped);
+      if (mode === 'replay') emitAt(recording, clamped, true);
+    },
+    [recording, mode, emitAt]
+  );
+
+  const goLive = useCallback(() => {
+    setIsPlaying(false);
+    setMode('live');
+    lastFrameIndexRef.current = -1;
+    emitFrame(null);
+  }, [emitFrame]);
+
+  // Playback loop
+  useEffect(() => {
+    if (!isPlaying || !recording) return;
+    let rafId = 0;
+    let last: number | null = null;
+    let lastUiUpdate = 0;
+
+    const tick = (now: number) => {
+      const deltaMs = last === null ? 0 : now - last;
+      last = now;
+      const next = advancePlayhead({
+        positionMs: positionRef.current,
+        deltaMs,
+        speed: speedRef.current,
+        durationMs: recording.durationMs,
+        loop: loopRef.current,
+      });
+      if (next.positionMs < positionRef.current && speedRef.current > 0) {
+        // Wrapped around: make sure the first frame is re-emitted
+        lastFrameIndexRef.current = -1;
+      }
+      positionRef.current = next.positionMs;
+      emitAt(recording, next.positionMs);
+
+      // Throttle scrubber updates (~15fps)
+      if (now - lastUiUpdate > 66 || next.ended) {
+        lastUiUpdate = now;
+        setPositionMs(next.positionMs);
+      }
+
+      if (next.ended) {
+        setIsPlaying(false);
+        return;
+      }
+      rafId = requestAnimationFrame(tick);
+    };
+
+    rafId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(rafId);
+  }, [isPlaying, recording, emitAt]);
+
+  return {
+    mode,
+    isRecording,
+    recordedFrameCount,
+    recording,
+    isPlaying,
+    positionMs,
+    loop,
+    speed,
+    recordFrame,
+    startRecording,
+    stopRecording,
+    loadRecording,
+    play,
+    pause,
+    seek,
+    goLive,
+    setLoop,
+    setSpeed,
+  };
+}
+
+export type LandmarkSession = ReturnType<typeof useLandmarkSession>;
+
+function formatMs(ms: number) {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+  return `${minutes}:${seconds.toFixed(1).padStart(4, '0')}`;
+}
+
+interface LandmarkSessionPanelProps {
+  session: LandmarkSession;
+  visualId?: string;
+}
+
+export function LandmarkSessionPanel({ session, visualId }: LandmarkSessionPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [storedRecordings, setStoredRecordings] = useState<StoredRecordingInfo[]>([]);
+  const [selectedStoredId, setSelectedStoredId] = useState('');
+  const storageRevision = useStorageRevision();
+  const { recording } = session;
+  const storageVisualId = visualId ?? 'hands';
+
+  useEffect(() => {
+    setStoredRecordings(loadStoredRecordings(storageVisualId));
+  }, [storageVisualId, storageRevision]);
+
+  const handleSaveInBrowser = async () => {
+    if (!recording) return;
+    try {
+      const name = `Session ${new Date(recording.createdAt).toLocaleString()}`;
+      const info = await saveStoredRecording(storageVisualId, name, recording);
+      setSelectedStoredId(info.id);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error storing recording:', error);
+      setLoadError('Not enough browser storage for this recording; download it instead');
+    }
+  };
+
+  const handleLoadStored = () => {
+    const rec = loadStoredRecording(selectedStoredId);
+    if (!rec) {
+      setLoadError('Stored recording is missing or unreadable');
+      return;
+    }
+    session.loadRecording(rec);
+    setLoadError(null);
+  };
+
+  const handleDeleteStored = () => {
+    deleteStoredRecording(selectedStoredId);
+    setSelectedStoredId('');
+  };
+
+  const handleDownload = () => {
+    if (!recording) return;
+    const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `session-${visualId ?? 'hands'}-${new Date(recording.createdAt).toISOString().replace(/[:.]/g, '-')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const rec = parseRecording(await file.text());
+      session.loadRecording(rec);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading recording:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load recording');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Session Recording</CardTitle>
+        <CardDescription>
+          Record hand, pose and pinch frames, then replay them through the visual without a camera
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {session.isRecording ? (
+            <Button variant="destructive" size="sm" onClick={session.stopRecording}>
+              Stop ({session.recordedFrameCount} frames)
+            </Button>
+          ) : (
+            <Button size="sm" onClick={session.startRecording} disabled={session.mode === 'replay'}>
+              Record
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleDownload} disabled={!recording || session.isRecording}>
+            Download
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={session.isRecording}
+          >
+            Load file…
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSaveInBrowser}
+            disabled={!recording || session.isRecording}
+          >
+            Save in browser
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <span className="text-xs text-muted-foreground">
+            {session.mode === 'replay' ? 'Replaying recording (camera input ignored)' : 'Live camera'}
+          </span>
+        </div>
+        {storedRecordings.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selectedStoredId}
+              onChange={(e) => setSelectedStoredId(e.target.value)}
+              className="px-2 py-1 rounded bg-white border border-gray-200 text-sm"
+            >
+              <option value="">Saved recordings…</option>
+              {storedRecordings.map((info) => (
+                <option key={info.id} value={info.id}>
+                  {info.name} ({formatMs(info.durationMs)})
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleLoadStored}
+              disabled={!selectedStoredId || session.isRecording}
+            >
+              Load
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDeleteStored} disabled={!selectedStoredId}>
+              Delete
+            </Button>
+          </div>
+        )}
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+        {recording && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              {session.isPlaying ? (
+                <Button size="sm" onClick={session.pause}>
+                  Pause
+                </Button>
+              ) : (
+                <Button size="sm" onClick={session.play} disabled={session.isRecording || recording.frames.length === 0}>
+                  Play
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={session.goLive} disabled={session.mode === 'live'}>
+                Back to live
+              </Button>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={session.loop}
+                  onChange={(e) => session.setLoop(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span>Loop</span>
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <span>Speed</span>
+                <select
+                  value={session.speed}
+                  onChange={(e) => session.setSpeed(parseFloat(e.target.value))}
+                  className="px-2 py-1 rounded bg-white border border-gray-200 text-sm"
+                >
+                  {PLAYBACK_SPEEDS.map((s) => (
+                    <option key={s} value={s}>
+                      {s}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div>
+              <div className="flex justify-between text-xs mb-1 font-mono">
+                <span>{formatMs(session.positionMs)}</span>
+                <span>
+                  {formatMs(recording.durationMs)} · {recording.frames.length} frames
+                </span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max={Math.max(1, recording.durationMs)}
+                step="1"
+                value={session.positionMs}
+                onChange={(e) => session.seek(parseFloat(e.target.value))}
+                className="w-full"
+                disabled={session.isRecording}
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { MidiAccessStatus } from '@/lib/midi';
+import {
+  DEFAULT_MIDI_OUTPUT_SETTINGS,
+  MIDI_MAX_OCTAVES,
+  MIDI_MAX_RATE_HZ,
+  MIDI_MIN_RATE_HZ,
+  MIDI_SCALES,
+  MIDI_SCALE_LABELS,
+  MIDI_VECTOR_MODES,
+  MIDI_VECTOR_MODE_LABELS,
+  formatMidiNote,
+  type MidiOutputSettings,
+  type MidiScale,
+  type MidiVectorMode,
+} from '@/lib/midiOutput';
+
+interface MidiOutputPanelProps {
+  settings: MidiOutputSettings;
+  status: MidiAccessStatus;
+  /** Connected output devices. */
+  outputs: string[];
+  onChange: (settings: MidiOutputSettings) => void;
+}
+
+const STATUS_LABELS: Record<MidiAccessStatus, string> = {
+  idle: 'off',
+  pending: 'waiting for permission',
+  ready: 'ready',
+  unsupported: 'not supported by this browser',
+  denied: 'permission denied',
+};
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+const SELECT_CLASS = 'px-2 py-1 rounded bg-white text-gray-900 border border-gray-300';
+
+const CHANNEL_FIELDS: Array<{ key: 'leftChannel' | 'rightChannel' | 'vectorChannel'; label: string }> = [
+  { key: 'leftChannel', label: 'Left hand channel' },
+  { key: 'rightChannel', label: 'Right hand channel' },
+  { key: 'vectorChannel', label: 'Pinch vector channel' },
+];
+
+/** Control panel card for MIDI output (see `lib/midiOutput.ts`). */
+export function MidiOutputPanel({ settings, status, outputs, onChange }: MidiOutputPanelProps) {
+  const set = <K extends keyof MidiOutputSettings>(key: K, value: MidiOutputSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  // Keep a saved device selectable while it is unplugged
+  const outputOptions =
+    settings.outputName && !outputs.includes(settings.outputName) ? [...outputs, settings.outputName] : outputs;
+  const highestNote = Math.min(127, settings.rootNote + settings.octaves * 12);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>MIDI Output</CardTitle>
+        <CardDescription>
+          Play hands as an instrument: fingertip heights as CCs, pinches as notes, pinch vectors as pitch bend or CCs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => set('enabled', e.target.checked)}
+            className="w-4 h-4"
+          />
+          <span>Send MIDI</span>
+          <span className="text-xs text-muted-foreground">({settings.enabled ? STATUS_LABELS[status] : 'off'})</span>
+        </label>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Output</span>
+            <select value={settings.outputName} onChange={(e) => set('outputName', e.target.value)} className={SELECT_CLASS}>
+              <option value="">All outputs</option>
+              {outputOptions.map((name) => (
+                <option key={name} value={name}>
+                  {outputs.includes(name) ? name : `${name} (disconnected)`}
+                </option>
+              ))}
+            </select>
+          </label>
+          {CHANNEL_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1 text-xs">
+              <span>{label}</span>
+              <select
+                value={settings[key]}
+                onChange={(e) => set(key, parseInt(e.target.value, 10))}
+                className={SELECT_CLASS}
+              >
+                {CHANNELS.map((channel) => (
+                  <option key={channel} value={channel}>
+                    {channel}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.fingertipCc}
+              onChange={(e) => set('fingertipCc', e.target.checked)}
+              className="w-4 h-4"
+            />
+            <span>Fingertip heights → CC</span>
+          </label>
+          <label className="flex items-center gap-2 text-xs">
+            <span>First CC (thumb; pinky is +4)</span>
+            <input
+              type="number"
+              min={0}
+              max={123}
+              value={settings.fingertipCcBase}
+              onChange={(e) => set('fingertipCcBase', Math.min(123, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+              className={`${SELECT_CLASS} w-20`}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.pinchNotes}
+              onChange={(e) => set('pinchNotes', e.target.checked)}
+              className="w-4 h-4"
+            />
+            <span>Pinches → notes (velocity from pinch speed)</span>
+          </label>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div>
+              <div className="flex justify-between text-xs mb-1">
+                <span>Root note</span>
+                <span className="font-mono">{formatMidiNote(settings.rootNote)}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={115}
+                step={1}
+                value={settings.rootNote}
+                onChange={(e) => set('rootNote', parseInt(e.target.value, 10))}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-xs mb-1">
+                <span>Range (left to right)</span>
+                <span className="font-mono">
+                  {settings.octaves} oct · up to {formatMidiNote(highestNote)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={MIDI_MAX_OCTAVES}
+                step={1}
+                value={settings.octaves}
+                onChange={(e) => set('octaves', parseInt(e.target.value, 10))}
+                className="w-full"
+              />
+            </div>
+            <label className="flex flex-col gap-1 text-xs">
+              <span>Scale</span>
+              <select
+                value={settings.scale}
+                onChange={(e) => set('scale', e.target.value as MidiScale)}
+                className={SELECT_CLASS}
+              >
+                {MIDI_SCALES.map((scale) => (
+                  <option key={scale} value={scale}>
+                    {MIDI_SCALE_LABELS[scale]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Pinch vectors (on release)</span>
+            <select
+              value={settings.vector}
+              onChange={(e) => set('vector', e.target.value as MidiVectorMode)}
+              className={SELECT_CLASS}
+            >
+              {MIDI_VECTOR_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {MIDI_VECTOR_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {settings.vector === 'cc' && (
+            <label className="flex flex-col gap-1 text-xs">
+              <span>Length CC (direction is +1)</span>
+              <input
+                type="number"
+                min={0}
+                max={126}
+                value={settings.vectorCcBase}
+                onChange={(e) => set('vectorCcBase', Math.min(126, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                className={SELECT_CLASS}
+              />
+            </label>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between text-xs mb-1">
+            <span>CC rate (notes are sent immediately)</span>
+            <span className="font-mono">{settings.rateHz} Hz</span>
+          </div>
+          <input
+            type="range"
+            min={MIDI_MIN_RATE_HZ}
+            max={MIDI_MAX_RATE_HZ}
+            step={1}
+            value={settings.rateHz}
+            onChange={(e) => set('rateHz', parseInt(e.target.value, 10))}
+            className="w-full"
+          />
+        </div>
+
+        <Button variant="outline" size="sm" onClick={() => onChange({ ...DEFAULT_MIDI_OUTPUT_SETTINGS, enabled: settings.enabled })}>
+          Reset to defaults
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AUDIO_SIGNALS,
+  createModulationMapping,
+  MODULATION_CURVE_LABELS,
+  MODULATION_CURVES,
+  MODULATION_HANDS,
+  MODULATION_SIGNAL_LABELS,
+  MODULATION_SIGNALS,
+  PER_HAND_SIGNALS,
+  type ModulationCurve,
+  type ModulationHand,
+  type ModulationMapping,
+  type ModulationSignal,
+  type ModulationValues,
+} from './modulation';
+
+const SELECT_CLASS = 'px-2 py-1 rounded bg-white text-gray-900 border border-gray-300';
+const NUMBER_CLASS = 'w-full px-2 py-1 rounded bg-white text-gray-900 border border-gray-300 font-mono';
+
+const HAND_LABELS: Record<ModulationHand, string> = {
+  any: 'First hand',
+  Left: 'Left hand',
+  Right: 'Right hand',
+};
+
+const SIGNAL_GROUPS: Array<{ label: string; signals: ModulationSignal[] }> = [
+  { label: 'Tracking', signals: MODULATION_SIGNALS.filter((signal) => !AUDIO_SIGNALS.includes(signal)) },
+  { label: 'Audio', signals: AUDIO_SIGNALS },
+];
+
+/** `orbitStrength` → `Orbit strength` */
+const formatTarget = (key: string) => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+interface ModulationMatrixPanelProps {
+  mappings: ModulationMapping[];
+  /** Numeric control keys that can be modulated. */
+  targets: string[];
+  /** Current modulated values, shown next to each mapping. */
+  values: ModulationValues;
+  onChange: (mappings: ModulationMapping[]) => void;
+  onReset: () => void;
+}
+
+/** Control panel card for editing the per-visual modulation matrix. */
+export function ModulationMatrixPanel({ mappings, targets, values, onChange, onReset }: ModulationMatrixPanelProps) {
+  const update = (id: string, patch: Partial<ModulationMapping>) =>
+    onChange(mappings.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+
+  const parseNumber = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Modulation Matrix</CardTitle>
+        <CardDescription>
+          Route tracked and audio signals to controls. A mapped control follows its signal instead of its slider;
+          later rows win when two rows share a target. Audio signals need the audio input below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mappings.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-2">No mappings yet.</p>
+        )}
+        {mappings.map((mapping) => (
+          <div key={mapping.id} className="space-y-2 p-2 border border-gray-200 rounded-md text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="checkbox"
+                checked={mapping.enabled}
+                onChange={(e) => update(mapping.id, { enabled: e.target.checked })}
+                className="w-4 h-4"
+                aria-label="Enabled"
+              />
+              <select
+                value={mapping.signal}
+                onChange={(e) => update(mapping.id, { signal: e.target.value as ModulationSignal })}
+                className={SELECT_CLASS}
+              >
+                {SIGNAL_GROUPS.map((group) => (
+                  <optgroup key={group.label} label={group.label}>
+                    {group.signals.map((signal) => (
+                      <option key={signal} value={signal}>
+                        {MODULATION_SIGNAL_LABELS[signal]}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              {PER_HAND_SIGNALS.includes(mapping.signal) && (
+                <select
+                  value={mapping.hand}
+                  onChange={(e) => update(mapping.id, { hand: e.target.value as ModulationHand })}
+                  className={SELECT_CLASS}
+                >
+                  {MODULATION_HANDS.map((hand) => (
+                    <option key={hand} value={hand}>
+                      {HAND_LABELS[hand]}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <span>→</span>
+              <select
+                value={mapping.target}
+                onChange={(e) => update(mapping.id, { target: e.target.value })}
+                className={SELECT_CLASS}
+              >
+                {!targets.includes(mapping.target) && <option value={mapping.target}>{mapping.target} (unavailable)</option>}
+                {targets.map((target) => (
+                  <option key={target} value={target}>
+                    {formatTarget(target)}
+                  </option>
+                ))}
+              </select>
+              <span className="font-mono text-xs ml-auto">
+                {mapping.enabled && values[mapping.target] !== undefined ? values[mapping.target]!.toFixed(2) : '—'}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => onChange(mappings.filter((m) => m.id !== mapping.id))}>
+                Remove
+              </Button>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-xs">
+              <label>
+                Min
+                <input
+                  type="number"
+                  value={mapping.min}
+                  onChange={(e) => update(mapping.id, { min: parseNumber(e.target.value, mapping.min) })}
+                  className={NUMBER_CLASS}
+                />
+              </label>
+              <label>
+                Max
+                <input
+                  type="number"
+                  value={mapping.max}
+                  onChange={(e) => update(mapping.id, { max: parseNumber(e.target.value, mapping.max) })}
+                  className={NUMBER_CLASS}
+                />
+              </label>
+              <label>
+                Step (0 = smooth)
+                <input
+                  type="number"
+                  min={0}
+                  value={mapping.step}
+                  onChange={(e) => update(mapping.id, { step: Math.max(0, parseNumber(e.target.value, mapping.step)) })}
+                  className={NUMBER_CLASS}
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-xs">
+              <label className="flex items-center gap-2">
+                <span>Curve</span>
+                <select
+                  value={mapping.curve}
+                  onChange={(e) => update(mapping.id, { curve: e.target.value as ModulationCurve })}
+                  className={SELECT_CLASS}
+                >
+                  {MODULATION_CURVES.map((curve) => (
+                    <option key={curve} value={curve}>
+                      {MODULATION_CURVE_LABELS[curve]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mapping.invert}
+                  onChange={(e) => update(mapping.id, { invert: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                <span>Invert</span>
+              </label>
+            </div>
+            <div>
+              <div className="flex justify-between text-xs mb-1">
+                <span>Smoothing (ms)</span>
+                <span className="font-mono">{mapping.smoothingMs.toFixed(0)}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={1000}
+                step={10}
+                value={mapping.smoothingMs}
+                onChange={(e) => update(mapping.id, { smoothingMs: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={targets.length === 0}
+            onClick={() => onChange([...mappings, createModulationMapping(targets[0] ?? '')])}
+          >
+            Add mapping
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onReset}>
+            Reset to defaults
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
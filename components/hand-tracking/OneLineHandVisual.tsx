@@ -6,13 +6,17 @@ import * as THREE from 'three';
 import { useMemo, useRef } from 'react';
 import type { Hand3DData } from './HandTracking';
 import { landmarkToSceneSpace } from './handPose';
+import { useHandSlots } from '@/hooks/useHandSlots';
+import type { ControlSchema } from '@/lib/controlSchema';
+import { OFFLINE_CANVAS_PROPS } from '@/lib/offlineRender';
 
+/** Ranges, units and labels: `ONE_LINE_CONTROL_SCHEMA`. */
 export interface OneLineHandControls {
-  noiseAmount: number;    // 0..1 perpendicular displacement
-  noiseScale: number;     // frequency of noise along path
-  drawSpeed: number;      // how fast the line "draws" (0 = instant, 1 = slow reveal)
-  lineWidth: number;      // thickness
-  loopTightness: number;  // 0 = go all the way back, 1 = tight U-turns
+  noiseAmount: number;
+  noiseScale: number;
+  drawSpeed: number;
+  lineWidth: number;
+  loopTightness: number;
 }
 
 export const DEFAULT_ONE_LINE_CONTROLS: OneLineHandControls = {
@@ -23,10 +27,42 @@ export const DEFAULT_ONE_LINE_CONTROLS: OneLineHandControls = {
   loopTightness: 0.3,
 };
 
+export const ONE_LINE_CONTROL_SCHEMA: ControlSchema<OneLineHandControls> = {
+  noiseAmount: {
+    type: 'number',
+    label: 'Noise Amount',
+    min: 0,
+    max: 0.1,
+    step: 0.001,
+    description: 'Perpendicular displacement of the stroke',
+  },
+  noiseScale: { type: 'number', label: 'Noise Scale', min: 1, max: 30, step: 0.5, description: 'Frequency of the noise along the path' },
+  drawSpeed: {
+    type: 'number',
+    label: 'Draw Speed',
+    min: 0,
+    max: 0.95,
+    step: 0.01,
+    description: '0 draws instantly, higher values reveal the line slowly',
+    audience: true,
+  },
+  lineWidth: { type: 'number', label: 'Line Width', min: 0.5, max: 8, step: 0.1, unit: 'px', audience: true },
+  loopTightness: {
+    type: 'number',
+    label: 'Loop Tightness',
+    min: 0,
+    max: 1,
+    step: 0.01,
+    description: '0 goes all the way back down each finger, 1 makes tight U-turns',
+  },
+};
+
 interface OneLineHandVisualProps {
   hands: Hand3DData[];
   className?: string;
   controls?: Partial<OneLineHandControls>;
+  /** Stepped by `advance()` instead of the frame loop (offline rendering, see `lib/offlineRender.ts`). */
+  offline?: boolean;
 }
 
 /**
@@ -65,12 +101,14 @@ function noise2D(x: number, y: number): number {
 }
 
 function OneLineScene({
-  hands,
+  hands: detectedHands,
   controls,
 }: {
   hands: Hand3DData[];
   controls: OneLineHandControls;
 }) {
+  // One line per slot; a slot stays with the same hand id
+  const hands = useHandSlots(detectedHands, 2);
   const { noiseAmount, noiseScale, drawSpeed, lineWidth, loopTightness } = controls;
   const timeRef = useRef(0);
   const { clock } = useThree();
@@ -95,7 +133,8 @@ function OneLineScene({
   const tmpNormal = useMemo(() => new THREE.Vector3(), []);
 
   useFrame(() => {
-    timeRef.current = clock.getElapsedTime();
+    // Frame clock time (set by `advance()` when rendering offline)
+    timeRef.current = clock.elapsedTime;
     const t = timeRef.current;
 
     for (let handIndex = 0; handIndex < 2; handIndex++) {
@@ -206,15 +245,17 @@ export function OneLineHandVisual({
   hands,
   className = '',
   controls: controlsProp,
+  offline = false,
 }: OneLineHandVisualProps) {
   const controls: OneLineHandControls = { ...DEFAULT_ONE_LINE_CONTROLS, ...controlsProp };
 
   return (
     <div className={`w-full h-full bg-gray-950 ${className}`}>
       <Canvas
+        {...(offline ? OFFLINE_CANVAS_PROPS : {})}
         gl={{ antialias: true, alpha: false, powerPreference: 'high-performance' }}
         onCreated={({ gl }) => {
-          gl.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+          if (!offline) gl.setPixelRatio(Math.min(window.devicePixelRatio, 2));
           gl.setClearColor(0x0a0a0f, 1);
         }}
       >
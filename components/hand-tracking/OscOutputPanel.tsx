@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isValidOscAddress } from '@/lib/osc';
+import {
+  DEFAULT_OSC_OUTPUT_SETTINGS,
+  OSC_LANDMARK_MODES,
+  OSC_LANDMARK_MODE_LABELS,
+  OSC_MAX_RATE_HZ,
+  OSC_MIN_RATE_HZ,
+  type OscHandKey,
+  type OscLandmarkMode,
+  type OscOutputSettings,
+} from '@/lib/oscOutput';
+import type { RemoteConnectionStatus } from '@/lib/remoteControl';
+
+interface OscOutputPanelProps {
+  settings: OscOutputSettings;
+  status: RemoteConnectionStatus;
+  onChange: (settings: OscOutputSettings) => void;
+}
+
+const TOGGLES: Array<{ key: 'pinch' | 'finalVectors' | 'gestures'; label: string }> = [
+  { key: 'pinch', label: 'Pinch state' },
+  { key: 'finalVectors', label: 'Pinch vectors (on release)' },
+  { key: 'gestures', label: 'Gesture events' },
+];
+
+/** Control panel card for OSC output (see `lib/oscOutput.ts`). */
+export function OscOutputPanel({ settings, status, onChange }: OscOutputPanelProps) {
+  // Text fields apply on blur/Enter so typing doesn't reconnect or send to half-typed addresses
+  const [bridgeUrlDraft, setBridgeUrlDraft] = useState(settings.bridgeUrl);
+  const [prefixDraft, setPrefixDraft] = useState(settings.prefix);
+  useEffect(() => setBridgeUrlDraft(settings.bridgeUrl), [settings.bridgeUrl]);
+  useEffect(() => setPrefixDraft(settings.prefix), [settings.prefix]);
+
+  const commitBridgeUrl = () => {
+    const url = bridgeUrlDraft.trim();
+    if (url && url !== settings.bridgeUrl) onChange({ ...settings, bridgeUrl: url });
+    else setBridgeUrlDraft(settings.bridgeUrl);
+  };
+
+  const commitPrefix = () => {
+    const prefix = prefixDraft.trim().replace(/\/+$/, '');
+    if (isValidOscAddress(prefix) && prefix !== settings.prefix) onChange({ ...settings, prefix });
+    else setPrefixDraft(settings.prefix);
+  };
+
+  const hand = settings.handKey === 'id' ? '0' : 'left';
+  const example =
+    settings.landmarks === 'each'
+      ? `${settings.prefix}/${hand}/landmark/8 x y z`
+      : settings.landmarks === 'packed'
+        ? `${settings.prefix}/${hand}/landmarks x0 y0 z0 … z20`
+        : `${settings.prefix}/count n`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>OSC Output</CardTitle>
+        <CardDescription>
+          Send landmarks, pinch state and gestures to TouchDesigner, Max or Ableton through the local bridge (
+          <span className="font-mono">npm run osc-bridge</span>)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="w-4 h-4"
+          />
+          <span>Send OSC</span>
+          <span className="text-xs text-muted-foreground">({settings.enabled ? status : 'off'})</span>
+        </label>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Bridge URL</span>
+            <input
+              type="text"
+              value={bridgeUrlDraft}
+              onChange={(e) => setBridgeUrlDraft(e.target.value)}
+              onBlur={commitBridgeUrl}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300 font-mono"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Address prefix</span>
+            <input
+              type="text"
+              value={prefixDraft}
+              onChange={(e) => setPrefixDraft(e.target.value)}
+              onBlur={commitPrefix}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300 font-mono"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Hands addressed by</span>
+            <select
+              value={settings.handKey}
+              onChange={(e) => onChange({ ...settings, handKey: e.target.value as OscHandKey })}
+              className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300"
+            >
+              <option value="handedness">Handedness (left / right)</option>
+              <option value="id">Stable hand id</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs">
+            <span>Landmarks</span>
+            <select
+              value={settings.landmarks}
+              onChange={(e) => onChange({ ...settings, landmarks: e.target.value as OscLandmarkMode })}
+              className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300"
+            >
+              {OSC_LANDMARK_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {OSC_LANDMARK_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          {TOGGLES.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex justify-between text-xs mb-1">
+            <span>Frame rate (events are sent immediately)</span>
+            <span className="font-mono">{settings.rateHz} Hz</span>
+          </div>
+          <input
+            type="range"
+            min={OSC_MIN_RATE_HZ}
+            max={OSC_MAX_RATE_HZ}
+            step={1}
+            value={settings.rateHz}
+            onChange={(e) => onChange({ ...settings, rateHz: parseInt(e.target.value, 10) })}
+            className="w-full"
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          e.g. <span className="font-mono">{example}</span>
+        </p>
+
+        <Button variant="outline" size="sm" onClick={() => onChange({ ...DEFAULT_OSC_OUTPUT_SETTINGS, enabled: settings.enabled })}>
+          Reset to defaults
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
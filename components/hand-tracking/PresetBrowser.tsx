@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import {
+  DEFAULT_PRESET_FILTER,
+  PRESET_SORTS,
+  PRESET_SORT_LABELS,
+  browsePresets,
+  getPresetTags,
+  normalizeTags,
+  type PresetFilter,
+  type PresetSort,
+} from '@/lib/presetBrowser';
+import { getUniquePresetName } from '@/lib/presetTransfer';
+import type { MorphSettings } from '@/lib/controlMorph';
+import {
+  duplicateSavedConfig,
+  loadConfigThumbnail,
+  loadSavedConfigs,
+  saveConfigThumbnail,
+  updateSavedConfig,
+  type SavedVisualConfig,
+} from '@/lib/visualConfigStorage';
+import { PresetMorphControls } from './PresetMorphControls';
+
+interface PresetBrowserProps {
+  visualId: string;
+  /** Called when a preset's thumbnail is clicked. */
+  onSelect: (config: SavedVisualConfig) => void;
+  /** Name of the preset on screen (highlighted). */
+  activeName?: string | null;
+  /** `light` on cards (control panel), `dark` on panels over the visual (final view). */
+  variant?: 'light' | 'dark';
+  /** Current view as a thumbnail, for retaking a preset's thumbnail. */
+  captureThumbnail?: () => Promise<string | null>;
+  /** Extra actions per preset (e.g. export, link and delete in the Saved Configurations card), styled with `className`. */
+  renderActions?: (config: SavedVisualConfig, className: string) => ReactNode;
+  /** How picking a preset fades to it (shown above the grid when set). */
+  morphSettings?: MorphSettings;
+  onMorphSettingsChange?: (settings: MorphSettings) => void;
+}
+
+const VARIANT_STYLES = {
+  light: {
+    input: 'px-2 py-1 rounded border border-gray-300 bg-white text-black text-sm',
+    chip: 'px-2 py-0.5 rounded-full border border-gray-300 text-xs hover:bg-gray-100',
+    chipActive: 'px-2 py-0.5 rounded-full border border-blue-500 bg-blue-50 text-blue-700 text-xs',
+    tile: 'rounded-md border border-gray-200 overflow-hidden',
+    tileActive: 'rounded-md border-2 border-blue-500 overflow-hidden',
+    placeholder: 'bg-gray-100 text-gray-400',
+    meta: 'text-[11px] text-muted-foreground',
+    action: 'px-1.5 py-0.5 rounded border border-gray-200 text-[11px] hover:bg-gray-100',
+    error: 'text-sm text-red-600',
+  },
+  dark: {
+    input: 'px-2 py-1 rounded bg-white/10 border border-white/20 text-white text-xs',
+    chip: 'px-2 py-0.5 rounded-full border border-white/20 text-[11px] text-white/80 hover:bg-white/10',
+    chipActive: 'px-2 py-0.5 rounded-full border border-emerald-400 bg-emerald-600/30 text-white text-[11px]',
+    tile: 'rounded-md border border-white/10 overflow-hidden bg-black/30',
+    tileActive: 'rounded-md border-2 border-emerald-400 overflow-hidden bg-black/30',
+    placeholder: 'bg-gray-900 text-white/40',
+    meta: 'text-[10px] text-white/50',
+    action: 'px-1.5 py-0.5 rounded bg-white/10 text-[10px] text-white hover:bg-white/20',
+    error: 'text-xs text-red-400',
+  },
+};
+
+type Editing = { id: string; field: 'name' | 'tags'; value: string };
+
+/**
+ * Grid of saved configurations with their thumbnails: search by name or tag,
+ * filter by tag or favourites, sort, and favourite, rename, duplicate or tag
+ * presets in place. Clicking a thumbnail picks the preset (the page fades to
+ * it with the morph settings shown above the grid).
+ */
+export function PresetBrowser({
+  visualId,
+  onSelect,
+  activeName,
+  variant = 'light',
+  captureThumbnail,
+  renderActions,
+  morphSettings,
+  onMorphSettingsChange,
+}: PresetBrowserProps) {
+  const styles = VARIANT_STYLES[variant];
+  const storageRevision = useStorageRevision();
+  const [configs, setConfigs] = useState<SavedVisualConfig[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<PresetFilter>(DEFAULT_PRESET_FILTER);
+  const [sort, setSort] = useState<PresetSort>('favorites');
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload on every storage change (saves, edits, deletes here or in another card)
+  useEffect(() => {
+    const loaded = loadSavedConfigs(visualId);
+    setConfigs(loaded);
+    const next: Record<string, string> = {};
+    for (const config of loaded) {
+      const thumbnail = loadConfigThumbnail(visualId, config.id);
+      if (thumbnail) next[config.id] = thumbnail;
+    }
+    setThumbnails(next);
+  }, [visualId, storageRevision]);
+
+  const tags = getPresetTags(configs);
+  const shown = browsePresets(configs, filter, sort);
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const config = configs.find((c) => c.id === editing.id);
+    if (!config) return setEditing(null);
+    if (editing.field === 'name') {
+      const name = editing.value.trim();
+      if (!name) return setError('Name required');
+      const taken = configs.some((c) => c.id !== config.id && c.name.toLowerCase() === name.toLowerCase());
+      if (taken) return setError('A configuration with this name already exists');
+      updateSavedConfig(visualId, config.id, { name });
+    } else {
+      updateSavedConfig(visualId, config.id, { tags: normalizeTags(editing.value) });
+    }
+    setError(null);
+    setEditing(null);
+  };
+
+  const handleDuplicate = (config: SavedVisualConfig) => {
+    const name = getUniquePresetName(`${config.name} copy`, configs.map((c) => c.name));
+    if (!duplicateSavedConfig(visualId, config.id, name)) setError('Failed to duplicate configuration');
+  };
+
+  const handleRetakeThumbnail = async (config: SavedVisualConfig) => {
+    const thumbnail = await captureThumbnail?.();
+    if (thumbnail) saveConfigThumbnail(visualId, config.id, thumbnail);
+    else setError('Nothing to capture yet');
+  };
+
+  if (configs.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          placeholder="Search presets…"
+          value={filter.query}
+          onChange={(e) => setFilter((f) => ({ ...f, query: e.target.value }))}
+          className={`flex-1 min-w-0 ${styles.input}`}
+        />
+        <select value={sort} onChange={(e) => setSort(e.target.value as PresetSort)} className={styles.input}>
+          {PRESET_SORTS.map((s) => (
+            <option key={s} value={s}>
+              {PRESET_SORT_LABELS[s]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <button
+          onClick={() => setFilter((f) => ({ ...f, favoritesOnly: !f.favoritesOnly }))}
+          className={filter.favoritesOnly ? styles.chipActive : styles.chip}
+        >
+          ★ Favourites
+        </button>
+        {tags.map((tag) => (
+          <button
+            key={tag}
+            onClick={() => setFilter((f) => ({ ...f, tag: f.tag === tag ? null : tag }))}
+            className={filter.tag === tag ? styles.chipActive : styles.chip}
+          >
+            #{tag}
+          </button>
+        ))}
+      </div>
+      {morphSettings && onMorphSettingsChange && (
+        <PresetMorphControls settings={morphSettings} onChange={onMorphSettingsChange} variant={variant} />
+      )}
+      {error && <p className={styles.error}>{error}</p>}
+
+      {shown.length === 0 ? (
+        <p className={styles.meta}>No presets match</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {shown.map((config) => (
+            <div key={config.id} className={config.name === activeName ? styles.tileActive : styles.tile}>
+              <button
+                onClick={() => onSelect(config)}
+                className="block w-full aspect-video"
+                title={`Load “${config.name}”`}
+              >
+                {thumbnails[config.id] ? (
+                  <img src={thumbnails[config.id]} alt={config.name} className="w-full h-full object-cover" />
+                ) : (
+                  <div className={`w-full h-full flex items-center justify-center text-2xl ${styles.placeholder}`}>
+                    {config.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+              </button>
+              <div className="p-1.5 space-y-1">
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => updateSavedConfig(visualId, config.id, { favorite: !config.favorite })}
+                    title={config.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                    className={config.favorite ? 'text-amber-400' : 'opacity-40 hover:opacity-100'}
+                  >
+                    {config.favorite ? '★' : '☆'}
+                  </button>
+                  {editing?.id === config.id && editing.field === 'name' ? (
+                    <input
+                      autoFocus
+                      value={editing.value}
+                      onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEdit();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      onBlur={commitEdit}
+                      className={`flex-1 min-w-0 ${styles.input}`}
+                    />
+                  ) : (
+                    <span className="flex-1 min-w-0 truncate text-xs font-medium" title={config.name}>
+                      {config.name}
+                    </span>
+                  )}
+                </div>
+                {editing?.id === config.id && editing.field === 'tags' ? (
+                  <input
+                    autoFocus
+                    placeholder="tags, comma separated"
+                    value={editing.value}
+                    onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    onBlur={commitEdit}
+                    className={`w-full ${styles.input}`}
+                  />
+                ) : (
+                  <div className={`truncate ${styles.meta}`}>
+                    {config.tags?.length ? config.tags.map((tag) => `#${tag}`).join(' ') : new Date(config.savedAt).toLocaleDateString()}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-1">
+                  <button
+                    onClick={() => setEditing({ id: config.id, field: 'name', value: config.name })}
+                    className={styles.action}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => setEditing({ id: config.id, field: 'tags', value: (config.tags ?? []).join(', ') })}
+                    className={styles.action}
+                  >
+                    Tags
+                  </button>
+                  <button onClick={() => handleDuplicate(config)} className={styles.action}>
+                    Duplicate
+                  </button>
+                  {captureThumbnail && (
+                    <button
+                      onClick={() => void handleRetakeThumbnail(config)}
+                      className={styles.action}
+                      title="Replace the thumbnail with the current view"
+                    >
+                      Thumbnail
+                    </button>
+                  )}
+                  {renderActions?.(config, styles.action)}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
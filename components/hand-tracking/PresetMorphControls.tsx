@@ -0,0 +1,116 @@
+'use client';
+
+import {
+  MORPH_DURATIONS_MS,
+  MORPH_EASINGS,
+  MORPH_EASING_LABELS,
+  type MorphEasing,
+  type MorphSettings,
+} from '@/lib/controlMorph';
+import { DYNAMIC_GESTURES, GESTURE_LABELS, STATIC_GESTURES, type GestureName } from './gestures';
+
+interface PresetMorphControlsProps {
+  settings: MorphSettings;
+  onChange: (settings: MorphSettings) => void;
+  variant?: 'light' | 'dark';
+}
+
+const VARIANT_STYLES = {
+  light: {
+    select: 'px-2 py-1 rounded border border-gray-300 bg-white text-black text-xs',
+    label: 'text-xs text-muted-foreground',
+  },
+  dark: {
+    select: 'px-2 py-1 rounded bg-white/10 border border-white/20 text-white text-[11px]',
+    label: 'text-[11px] text-white/60',
+  },
+};
+
+const GESTURES: GestureName[] = [...STATIC_GESTURES, ...DYNAMIC_GESTURES];
+
+const formatDuration = (ms: number) => (ms === 0 ? 'Instant' : `${ms / 1000} s`);
+
+/**
+ * How picking a preset fades to it: length, easing, when booleans and enums
+ * switch, and the gestures that step through the presets.
+ */
+export function PresetMorphControls({ settings, onChange, variant = 'light' }: PresetMorphControlsProps) {
+  const styles = VARIANT_STYLES[variant];
+  const update = (changes: Partial<MorphSettings>) => onChange({ ...settings, ...changes });
+  const fading = settings.durationMs > 0;
+
+  const gestureSelect = (value: GestureName | null, onSelect: (gesture: GestureName | null) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onSelect((e.target.value || null) as GestureName | null)}
+      className={styles.select}
+    >
+      <option value="">None</option>
+      {GESTURES.map((gesture) => (
+        <option key={gesture} value={gesture}>
+          {GESTURE_LABELS[gesture]}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={styles.label}>Fade</span>
+        <select
+          value={settings.durationMs}
+          onChange={(e) => update({ durationMs: Number(e.target.value) })}
+          className={styles.select}
+        >
+          {/* Keep a stored length that isn't one of the options selectable */}
+          {(MORPH_DURATIONS_MS.includes(settings.durationMs)
+            ? MORPH_DURATIONS_MS
+            : [...MORPH_DURATIONS_MS, settings.durationMs].sort((a, b) => a - b)
+          ).map((ms) => (
+            <option key={ms} value={ms}>
+              {formatDuration(ms)}
+            </option>
+          ))}
+        </select>
+        {fading && (
+          <>
+            <select
+              value={settings.easing}
+              onChange={(e) => update({ easing: e.target.value as MorphEasing })}
+              className={styles.select}
+            >
+              {MORPH_EASINGS.map((easing) => (
+                <option key={easing} value={easing}>
+                  {MORPH_EASING_LABELS[easing]}
+                </option>
+              ))}
+            </select>
+            <label
+              className={`flex items-center gap-1 ${styles.label}`}
+              title="When toggles and options switch during the fade"
+            >
+              Switch at
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.switchAt}
+                onChange={(e) => update({ switchAt: Number(e.target.value) })}
+                className="w-20"
+              />
+              {Math.round(settings.switchAt * 100)}%
+            </label>
+          </>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={styles.label}>Next preset</span>
+        {gestureSelect(settings.nextGesture, (nextGesture) => update({ nextGesture }))}
+        <span className={styles.label}>Previous</span>
+        {gestureSelect(settings.previousGesture, (previousGesture) => update({ previousGesture }))}
+      </div>
+    </div>
+  );
+}
@@ -7,21 +7,27 @@ import { useEffect, useMemo, useRef } from 'react';
 import type { Hand3DData } from './HandTracking';
 import { landmarkToSceneSpace } from './handPose';
 import { twistAroundAxis } from './prismMath';
+import { useHandSlots } from '@/hooks/useHandSlots';
+import type { ControlSchema } from '@/lib/controlSchema';
+import { OFFLINE_CANVAS_PROPS } from '@/lib/offlineRender';
 
 interface PrismHandVisualProps {
   hands: Hand3DData[];
   className?: string;
   controls?: PrismHandControls;
+  /** Stepped by `advance()` instead of the frame loop (offline rendering, see `lib/offlineRender.ts`). */
+  offline?: boolean;
 }
 
+/** Ranges, units and labels: `PRISM_HAND_CONTROL_SCHEMA`. */
 export interface PrismHandControls {
-  spinBase: number; // rad/sec
-  spinPinch: number; // rad/sec added at full pinch
-  twistBase: number; // radians
-  twistPinch: number; // radians added at full pinch
-  hueSpeed: number; // cycles/sec
-  opacity: number; // 0..1
-  curveTension: number; // 0..1
+  spinBase: number;
+  spinPinch: number;
+  twistBase: number;
+  twistPinch: number;
+  hueSpeed: number;
+  opacity: number;
+  curveTension: number;
 }
 
 export const DEFAULT_PRISM_HAND_CONTROLS: PrismHandControls = {
@@ -34,6 +40,51 @@ export const DEFAULT_PRISM_HAND_CONTROLS: PrismHandControls = {
   curveTension: 0.35,
 };
 
+export const PRISM_HAND_CONTROL_SCHEMA: ControlSchema<PrismHandControls> = {
+  spinBase: { type: 'number', label: 'Spin (base)', min: 0, max: 2, step: 0.01, unit: 'rad/s', group: 'Motion' },
+  spinPinch: {
+    type: 'number',
+    label: 'Spin (pinch)',
+    min: 0,
+    max: 2,
+    step: 0.01,
+    unit: 'rad/s',
+    group: 'Motion',
+    description: 'Spin added at full pinch',
+  },
+  twistBase: { type: 'number', label: 'Twist (base)', min: 0, max: Math.PI * 2, step: 0.01, unit: 'rad', group: 'Motion' },
+  twistPinch: {
+    type: 'number',
+    label: 'Twist (pinch)',
+    min: 0,
+    max: Math.PI * 2,
+    step: 0.01,
+    unit: 'rad',
+    group: 'Motion',
+    description: 'Twist added at full pinch',
+  },
+  hueSpeed: {
+    type: 'number',
+    label: 'Hue speed',
+    min: 0,
+    max: 0.2,
+    step: 0.001,
+    unit: 'cycles/s',
+    group: 'Look',
+    audience: true,
+  },
+  opacity: { type: 'number', label: 'Opacity', min: 0.1, max: 1, step: 0.01, group: 'Look', audience: true },
+  curveTension: {
+    type: 'number',
+    label: 'Smoothing (tension)',
+    min: 0,
+    max: 1,
+    step: 0.01,
+    group: 'Look',
+    description: 'Tension of the curves through the landmarks',
+  },
+};
+
 // Same landmark connection topology as the skeleton view
 const HAND_CONNECTIONS: Array<[number, number]> = [
   // Thumb
@@ -67,10 +118,13 @@ const HAND_CONNECTIONS: Array<[number, number]> = [
   [13, 17],
 ];
 
-function PrismHandScene({ hands, controls }: { hands: Hand3DData[]; controls: PrismHandControls }) {
+function PrismHandScene({ hands: detectedHands, controls }: { hands: Hand3DData[]; controls: PrismHandControls }) {
   const groupRef = useRef<THREE.Group>(null);
 
   const maxHands = 2;
+  // Trails are kept per slot; a slot stays with the same hand id
+  const hands = useHandSlots(detectedHands, maxHands);
+  const historyIdsRef = useRef<Array<number | undefined>>([]);
   const landmarkCount = 21;
   const trailLength = 64; // more points = less quantized/steppy trails
 
@@ -129,7 +183,8 @@ function PrismHandScene({ hands, controls }: { hands: Hand3DData[]; controls: Pr
   const samplesRef = useRef<THREE.Vector3[]>([]);
 
   useFrame(({ clock }) => {
-    const t = clock.getElapsedTime();
+    // Frame clock time (set by `advance()` when rendering offline)
+    const t = clock.elapsedTime;
 
     for (let handIndex = 0; handIndex < maxHands; handIndex++) {
       const hand = hands[handIndex];
@@ -137,10 +192,11 @@ function PrismHandScene({ hands, controls }: { hands: Hand3DData[]; controls: Pr
       const linesHand = linesRef.current[handIndex];
       if (!historyHand || !linesHand) continue;
 
-      if (!hand || hand.landmarks.length < landmarkCount) {
-        // Clear trails when no hand (prevents “stuck” streaks)
+      // Clear trails when no hand (prevents “stuck” streaks) or a different hand took the slot
+      if (!hand || hand.landmarks.length < landmarkCount || hand.id !== historyIdsRef.current[handIndex]) {
         for (let i = 0; i < landmarkCount; i++) historyHand[i] = [];
-        continue;
+        historyIdsRef.current[handIndex] = hand?.id;
+        if (!hand || hand.landmarks.length < landmarkCount) continue;
       }
 
       // Scene-space points
@@ -236,7 +292,7 @@ function PrismHandScene({ hands, controls }: { hands: Hand3DData[]; controls: Pr
   );
 }
 
-export function PrismHandVisual({ hands, className = '', controls }: PrismHandVisualProps) {
+export function PrismHandVisual({ hands, className = '', controls, offline = false }: PrismHandVisualProps) {
   const mergedControls = useMemo(
     () => ({ ...DEFAULT_PRISM_HAND_CONTROLS, ...(controls ?? {}) }),
     [controls]
@@ -244,9 +300,10 @@ export function PrismHandVisual({ hands, className = '', controls }: PrismHandVi
   return (
     <div className={`w-full h-full bg-black ${className}`}>
       <Canvas
+        {...(offline ? OFFLINE_CANVAS_PROPS : {})}
         gl={{ antialias: true, alpha: false, powerPreference: 'high-performance' }}
         onCreated={({ gl }) => {
-          gl.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+          if (!offline) gl.setPixelRatio(Math.min(window.devicePixelRatio, 2));
           gl.setClearColor(0x000000, 1);
         }}
       >
@@ -0,0 +1,141 @@
+'use client';
+
+import type { Dispatch, InputHTMLAttributes, SetStateAction } from 'react';
+import {
+  formatControlValue,
+  groupControls,
+  isControlVisible,
+  type ControlSpec,
+  type ControlValue,
+} from '@/lib/controlSchema';
+
+interface SchemaControlsProps {
+  schema: Record<string, ControlSpec>;
+  controls: object;
+  onChange: Dispatch<SetStateAction<object>>;
+  /** `light` on cards (control panel), `dark` on overlays over the visual (dev view, final view). */
+  variant?: 'light' | 'dark';
+  /** Props for a control slider (MIDI/OSC learn target and highlight in the control panel). */
+  sliderProps?: (control: string) => InputHTMLAttributes<HTMLInputElement>;
+  /** Narrows the controls shown, e.g. to the audience ones. */
+  filter?: (spec: ControlSpec, key: string) => boolean;
+}
+
+const VARIANT_STYLES = {
+  light: {
+    group: 'text-sm font-semibold pt-2 border-t border-gray-200',
+    header: 'flex justify-between text-xs mb-1',
+    label: 'flex items-center gap-2 text-sm cursor-pointer',
+    select: 'w-full px-2 py-1 rounded bg-white border border-gray-200 text-sm',
+    hint: 'mt-1 text-xs text-muted-foreground',
+  },
+  dark: {
+    group: 'text-xs text-gray-300 pt-1',
+    header: 'flex justify-between text-xs text-gray-200',
+    label: 'flex items-center gap-2 text-sm text-white cursor-pointer',
+    select: 'w-full px-2 py-1 rounded bg-gray-800 text-white text-sm border border-gray-700',
+    hint: 'text-[11px] text-gray-400',
+  },
+};
+
+/**
+ * Inputs generated from a visual's control schema (see `lib/controlSchema.ts`):
+ * sliders for numbers, checkboxes for booleans, selects for enums and color
+ * pickers, under their group headings. Controls whose `dependsOn` toggle is off
+ * are hidden.
+ */
+export function SchemaControls({ schema, controls, onChange, variant = 'light', sliderProps, filter }: SchemaControlsProps) {
+  const styles = VARIANT_STYLES[variant];
+  const values = controls as Record<string, ControlValue>;
+  const set = (key: string, value: ControlValue) => onChange((c) => ({ ...c, [key]: value }));
+
+  const renderControl = (key: string) => {
+    const spec = schema[key];
+    const value = values[key];
+    if (!isControlVisible(spec, values)) return null;
+    switch (spec.type) {
+      case 'number':
+        return (
+          <div key={key} title={spec.description}>
+            <div className={styles.header}>
+              <span>{spec.label}</span>
+              <span className="font-mono">{formatControlValue(spec, value)}</span>
+            </div>
+            <input
+              type="range"
+              min={spec.min}
+              max={spec.max}
+              step={spec.step}
+              value={value as number}
+              onChange={(e) => set(key, parseFloat(e.target.value))}
+              {...(sliderProps?.(key) ?? { className: 'w-full' })}
+            />
+          </div>
+        );
+      case 'boolean':
+        return (
+          <label key={key} className={styles.label} title={spec.description}>
+            <input
+              type="checkbox"
+              checked={value as boolean}
+              onChange={(e) => set(key, e.target.checked)}
+              className="w-4 h-4"
+            />
+            <span>{spec.label}</span>
+          </label>
+        );
+      case 'enum': {
+        const selected = spec.options.find((option) => option.value === value);
+        return (
+          <div key={key}>
+            <div className={styles.header}>
+              <span>{spec.label}</span>
+              <span className="font-mono">{String(value)}</span>
+            </div>
+            <select
+              value={value as string}
+              onChange={(e) => set(key, e.target.value)}
+              className={styles.select}
+              title={spec.description}
+            >
+              {spec.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {selected?.description && <div className={styles.hint}>{selected.description}</div>}
+          </div>
+        );
+      }
+      case 'color':
+        return (
+          <label key={key} className={styles.label} title={spec.description}>
+            <input
+              type="color"
+              value={value as string}
+              onChange={(e) => set(key, e.target.value)}
+              className="w-8 h-6 p-0 border-0 bg-transparent"
+            />
+            <span>{spec.label}</span>
+            <span className="ml-auto font-mono text-xs">{String(value)}</span>
+          </label>
+        );
+    }
+  };
+
+  return (
+    <div className={variant === 'light' ? 'space-y-4' : 'space-y-2'}>
+      {groupControls(schema, filter).map(({ name, keys }) => {
+        const rendered = keys.map(renderControl).filter(Boolean);
+        if (rendered.length === 0) return null;
+        return (
+          <div key={name ?? ''} className={variant === 'light' ? 'space-y-4' : 'space-y-2'}>
+            {name && <div className={styles.group}>{name}</div>}
+            {rendered}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useStorageRevision } from '@/hooks/useStorageRevision';
+import { estimateStorageQuota, formatBytes, getAppStorage, type StorageBackendKind } from '@/lib/appStorage';
+import {
+  STORED_ITEM_KIND_LABELS,
+  deleteStoredItem,
+  getStoredItems,
+  type StoredItem,
+  type StoredItemGroup,
+} from '@/lib/storageUsage';
+
+const BACKEND_LABELS: Record<StorageBackendKind, string> = {
+  indexeddb: 'IndexedDB',
+  localStorage: 'localStorage',
+  memory: 'memory only (not kept)',
+};
+
+// Amounts offered by "Free up"; 0 removes every evictable entry
+const FREE_UP_OPTIONS = [
+  { bytes: 1024 * 1024, label: '1 MB' },
+  { bytes: 10 * 1024 * 1024, label: '10 MB' },
+  { bytes: 0, label: 'all recordings and thumbnails' },
+];
+
+function formatLastUsed(timestamp: number): string {
+  return timestamp > 0 ? new Date(timestamp).toLocaleString() : 'unknown';
+}
+
+/** Control panel card listing what the app stores, with manual and least-recently-used cleanup. */
+export function StorageUsagePanel() {
+  const storageRevision = useStorageRevision();
+  const [groups, setGroups] = useState<StoredItemGroup[]>([]);
+  const [quota, setQuota] = useState<{ usage: number; quota: number } | null>(null);
+  const [freeUpIndex, setFreeUpIndex] = useState(0);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Known after mounting (the server renders without browser storage)
+  const [backend, setBackend] = useState<StorageBackendKind | null>(null);
+
+  useEffect(() => {
+    setBackend(getAppStorage().kind);
+    setGroups(getStoredItems());
+    void estimateStorageQuota().then(setQuota);
+  }, [storageRevision]);
+
+  useEffect(
+    () =>
+      getAppStorage().subscribe((event) => {
+        if (event.type === 'error') setError(event.message);
+        if (event.type === 'evicted') setStatus(`Removed ${event.keys.length} least recently used item(s)`);
+      }),
+    []
+  );
+
+  const totalBytes = groups.reduce((sum, group) => sum + group.totalBytes, 0);
+  const evictableBytes = groups.flatMap((g) => g.items).reduce((sum, item) => sum + (item.evictable ? item.bytes : 0), 0);
+
+  const handleDelete = (item: StoredItem) => {
+    if (!confirm(`Delete ${item.label}?`)) return;
+    deleteStoredItem(item);
+    setStatus(`Deleted ${item.label}`);
+  };
+
+  const handleFreeUp = () => {
+    const { bytes } = FREE_UP_OPTIONS[freeUpIndex]!;
+    const removed = getAppStorage().evictLeastRecentlyUsed(bytes === 0 ? Infinity : bytes);
+    if (removed.length === 0) setStatus('Nothing to remove');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Storage</CardTitle>
+        <CardDescription>
+          Presets, gesture templates and recordings kept in this browser
+          {backend && ` (${BACKEND_LABELS[backend]})`}. When space runs out, the least recently used recordings and
+          preset thumbnails are removed first; presets are never removed automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span>
+            Using <span className="font-mono">{formatBytes(totalBytes)}</span>
+            {quota && (
+              <span className="text-muted-foreground">
+                {' '}
+                (site total {formatBytes(quota.usage)} of {formatBytes(quota.quota)})
+              </span>
+            )}
+          </span>
+          <select
+            value={freeUpIndex}
+            onChange={(e) => setFreeUpIndex(parseInt(e.target.value, 10))}
+            className="px-2 py-1 rounded bg-white border border-gray-200 text-sm"
+          >
+            {FREE_UP_OPTIONS.map((option, i) => (
+              <option key={option.label} value={i}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={handleFreeUp} disabled={evictableBytes === 0}>
+            Free up
+          </Button>
+        </div>
+        {status && <p className="text-sm text-muted-foreground">{status}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {groups.length === 0 && <p className="text-sm text-muted-foreground">Nothing stored yet</p>}
+        {groups.map((group) => (
+          <div key={group.kind} className="space-y-1">
+            <div className="flex justify-between text-sm font-medium">
+              <span>{STORED_ITEM_KIND_LABELS[group.kind]}</span>
+              <span className="font-mono">{formatBytes(group.totalBytes)}</span>
+            </div>
+            <ul className="space-y-1">
+              {group.items.map((item) => (
+                <li key={item.key} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate" title={item.key}>
+                    {item.label}
+                    {item.visualId && <span className="text-muted-foreground"> · {item.visualId}</span>}
+                  </span>
+                  <span className="text-muted-foreground">last used {formatLastUsed(item.accessedAt)}</span>
+                  <span className="w-16 text-right font-mono">{formatBytes(item.bytes)}</span>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(item)}>
+                    Delete
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HandTracking, type HandTrackingFrame } from './HandTracking';
+import type { FinalVector } from './PinchHistoryTracker';
+import { parseRecording } from './landmarkRecording';
+import { TRACKING_SOURCE_KINDS, TRACKING_SOURCE_LABELS } from './trackingSources';
+import { useTrackingSource } from '@/components/providers/TrackingSourceProvider';
+
+interface TrackingSourceFeedProps {
+  compositeVector?: FinalVector | null;
+  leftHanded?: boolean;
+  enablePose?: boolean;
+  enableFace?: boolean;
+  className?: string;
+  hideRestartButton?: boolean;
+  /** If true, camera frames are not forwarded to the live source (e.g. while replaying a session). */
+  paused?: boolean;
+  /** Also receives every camera frame, even while paused (e.g. for session recording). */
+  onTrackingFrame?: (frame: HandTrackingFrame) => void;
+  /** Classes for the placeholder shown when a non-camera source is selected. */
+  placeholderClassName?: string;
+}
+
+/**
+ * Preview for the selected tracking source. For the live source this mounts
+ * `HandTracking` and forwards its frames; other sources show a status placeholder.
+ */
+export function TrackingSourceFeed({
+  compositeVector,
+  leftHanded = false,
+  enablePose = false,
+  enableFace = false,
+  className = '',
+  hideRestartButton = false,
+  paused = false,
+  onTrackingFrame,
+  placeholderClassName = 'w-full h-full flex items-center justify-center bg-black/70 text-white text-xs text-center p-2',
+}: TrackingSourceFeedProps) {
+  const { kind, liveSource, recording, remoteUrl, remoteStatus } = useTrackingSource();
+
+  const handleTrackingFrame = useCallback(
+    (frame: HandTrackingFrame) => {
+      onTrackingFrame?.(frame);
+      if (!paused) liveSource.push(frame);
+    },
+    [onTrackingFrame, paused, liveSource]
+  );
+
+  if (kind === 'live') {
+    return (
+      <HandTracking
+        onTrackingFrame={handleTrackingFrame}
+        compositeVector={compositeVector}
+        leftHanded={leftHanded}
+        enablePose={enablePose}
+        enableFace={enableFace}
+        className={className}
+        hideRestartButton={hideRestartButton}
+      />
+    );
+  }
+
+  return (
+    <div className={placeholderClassName}>
+      {kind === 'recording' && recording && (
+        <span>
+          {TRACKING_SOURCE_LABELS.recording} · {recording.frames.length} frames · looping
+        </span>
+      )}
+      {kind === 'synthetic' && <span>{TRACKING_SOURCE_LABELS.synthetic} (no camera)</span>}
+      {kind === 'remote' && (
+        <span>
+          {TRACKING_SOURCE_LABELS.remote} · <span className="font-mono">{remoteUrl}</span> · {remoteStatus}
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface TrackingSourcePickerProps {
+  className?: string;
+}
+
+/** Source selector: kind, recording file and remote URL. */
+export function TrackingSourcePicker({ className = '' }: TrackingSourcePickerProps) {
+  const { kind, selectSource, recording, loadRecording, remoteUrl, setRemoteUrl } = useTrackingSource();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [urlDraft, setUrlDraft] = useState(remoteUrl);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrlDraft(remoteUrl);
+  }, [remoteUrl]);
+
+  const handleFile = async (file: File) => {
+    try {
+      loadRecording(parseRecording(await file.text()));
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading recording:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load recording');
+    }
+  };
+
+  return (
+    <div className={`space-y-2 text-xs ${className}`}>
+      <label className="flex items-center gap-2">
+        <span>Source</span>
+        <select
+          value={kind}
+          onChange={(e) => {
+            const next = e.target.value as typeof kind;
+            if (next === 'recording' && !recording) {
+              fileInputRef.current?.click();
+              return;
+            }
+            selectSource(next);
+          }}
+          className="px-2 py-1 rounded bg-white text-gray-900 border border-gray-300"
+        >
+          {TRACKING_SOURCE_KINDS.map((k) => (
+            <option key={k} value={k}>
+              {TRACKING_SOURCE_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        {kind === 'recording' && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-500/20"
+          >
+            Load file…
+          </button>
+        )}
+      </label>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      {kind === 'remote' && (
+        <input
+          type="text"
+          value={urlDraft}
+          onChange={(e) => setUrlDraft(e.target.value)}
+          onBlur={() => setRemoteUrl(urlDraft.trim())}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') setRemoteUrl(urlDraft.trim());
+          }}
+          placeholder="ws://host:port"
+          className="w-full px-2 py-1 rounded bg-white text-gray-900 border border-gray-300 font-mono"
+        />
+      )}
+      {loadError && <p className="text-red-500">{loadError}</p>}
+    </div>
+  );
+}
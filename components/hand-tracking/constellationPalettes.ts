@@ -1,3 +1,5 @@
+import { lerpHue } from '@/lib/controlMorph';
+
 export type ConstellationPaletteId =
   | 'classic'
   | 'aurora'
@@ -192,7 +194,22 @@ export function getConstellationPalette(id: ConstellationPaletteId): Constellati
   );
 }
 
-export function getConstellationHues(args: { paletteId: ConstellationPaletteId; handedness: Handedness }) {
+/** Next (or with a negative `step`, previous) palette, wrapping around. */
+export function cycleConstellationPalette(id: ConstellationPaletteId, step = 1): ConstellationPaletteId {
+  const count = CONSTELLATION_PALETTES.length;
+  const index = CONSTELLATION_PALETTES.findIndex((p) => p.id === id);
+  return CONSTELLATION_PALETTES[(((index + step) % count) + count) % count]!.id;
+}
+
+export interface ConstellationHues {
+  nebulaHue: number;
+  starHue: number;
+  lineHue: number;
+  saturation: number;
+  lightness: number;
+}
+
+export function getConstellationHues(args: { paletteId: ConstellationPaletteId; handedness: Handedness }): ConstellationHues {
   const palette = getConstellationPalette(args.paletteId);
   return {
     nebulaHue: palette.hues.nebula[args.handedness],
@@ -203,3 +220,37 @@ export function getConstellationHues(args: { paletteId: ConstellationPaletteId;
   };
 }
 
+
+/** Two palettes part way through a preset morph (`amount` 0 = `from`, 1 = `to`). */
+export interface ConstellationPaletteBlend {
+  from: ConstellationPaletteId;
+  to: ConstellationPaletteId;
+  amount: number;
+}
+
+/** Hues between two palettes: hues the short way round the color wheel, saturation and lightness linearly. */
+export function blendConstellationHues(a: ConstellationHues, b: ConstellationHues, amount: number): ConstellationHues {
+  const lerp = (x: number, y: number) => x + (y - x) * amount;
+  return {
+    nebulaHue: lerpHue(a.nebulaHue, b.nebulaHue, amount),
+    starHue: lerpHue(a.starHue, b.starHue, amount),
+    lineHue: lerpHue(a.lineHue, b.lineHue, amount),
+    saturation: lerp(a.saturation, b.saturation),
+    lightness: lerp(a.lightness, b.lightness),
+  };
+}
+
+/** Hues of a palette, or of a palette blend while a preset morph changes the palette. */
+export function getBlendedConstellationHues(args: {
+  paletteId: ConstellationPaletteId;
+  handedness: Handedness;
+  blend?: ConstellationPaletteBlend | null;
+}): ConstellationHues {
+  const { blend, handedness } = args;
+  if (!blend || blend.from === blend.to) return getConstellationHues(args);
+  return blendConstellationHues(
+    getConstellationHues({ paletteId: blend.from, handedness }),
+    getConstellationHues({ paletteId: blend.to, handedness }),
+    blend.amount
+  );
+}
@@ -0,0 +1,386 @@
+import type { Hand3DData } from './HandTracking';
+import { calculateDistance } from './pinchMath';
+
+/**
+ * User-defined gesture templates.
+ *
+ * Samples are normalized to be independent of where the hand is and how far it
+ * is from the camera: landmarks are taken relative to the wrist and divided by
+ * the palm width (index knuckle to pinky knuckle, the same scale used by
+ * `computeHandlePoseFromHand`). Pose templates are matched per frame with
+ * k-nearest-neighbours; motion templates are matched against the hand's recent
+ * path with dynamic time warping (DTW). Templates are stored per visual in
+ * `visualConfigStorage`.
+ */
+
+export type GestureTemplateKind = 'pose' | 'motion';
+
+export const GESTURE_TEMPLATE_KIND_LABELS: Record<GestureTemplateKind, string> = {
+  pose: 'Pose (held still)',
+  motion: 'Motion (short movement)',
+};
+
+/** One normalized frame: 21 landmarks × (x, y, z), in palm widths. */
+export type NormalizedHandFrame = number[];
+
+export interface GestureTemplate {
+  id: string;
+  name: string;
+  visualId: string;
+  kind: GestureTemplateKind;
+  /** Normalized samples; a pose sample has a single frame, a motion sample `MOTION_FRAME_COUNT`. */
+  samples: NormalizedHandFrame[][];
+  /** Motion: average recorded duration, used as the matching window (ms). 0 for poses. */
+  durationMs: number;
+  createdAt: number;
+}
+
+type Landmark = Hand3DData['landmarks'][number];
+
+const WRIST = 0;
+const INDEX_MCP = 5;
+const PINKY_MCP = 17;
+const LANDMARK_COUNT = 21;
+
+/** Motion samples are resampled to this many frames so recordings of different speed line up. */
+export const MOTION_FRAME_COUNT = 24;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function getPalmWidth(landmarks: Landmark[]): number {
+  return calculateDistance(landmarks[INDEX_MCP]!, landmarks[PINKY_MCP]!);
+}
+
+function normalizeRelativeTo(landmarks: Landmark[], origin: Landmark, scale: number): NormalizedHandFrame {
+  return landmarks
+    .slice(0, LANDMARK_COUNT)
+    .flatMap((lm) => [(lm.x - origin.x) / scale, (lm.y - origin.y) / scale, (lm.z - origin.z) / scale]);
+}
+
+/** Wrist-relative landmarks in palm widths, or null for an incomplete/degenerate hand. */
+export function normalizeHandPose(landmarks: Landmark[]): NormalizedHandFrame | null {
+  if (landmarks.length < LANDMARK_COUNT) return null;
+  const palmWidth = getPalmWidth(landmarks);
+  if (palmWidth < 1e-6) return null;
+  return normalizeRelativeTo(landmarks, landmarks[WRIST]!, palmWidth);
+}
+
+/**
+ * Normalizes a recorded movement: every frame is taken relative to the first
+ * frame's wrist and palm width (so the path is kept, not just the pose), then
+ * resampled to `frameCount` frames.
+ */
+export function normalizeHandMotion(
+  frames: Landmark[][],
+  frameCount = MOTION_FRAME_COUNT
+): NormalizedHandFrame[] | null {
+  const valid = frames.filter((landmarks) => landmarks.length >= LANDMARK_COUNT);
+  const first = valid[0];
+  if (!first || valid.length < 2) return null;
+  const palmWidth = getPalmWidth(first);
+  if (palmWidth < 1e-6) return null;
+  const normalized = valid.map((landmarks) => normalizeRelativeTo(landmarks, first[WRIST]!, palmWidth));
+
+  return Array.from({ length: frameCount }, (_, i) => {
+    const position = (i / (frameCount - 1)) * (normalized.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(normalized.length - 1, lower + 1);
+    const t = position - lower;
+    const a = normalized[lower]!;
+    const b = normalized[upper]!;
+    return a.map((value, k) => value + (b[k]! - value) * t);
+  });
+}
+
+/** Mean landmark distance between two normalized frames (palm widths). */
+export function handFrameDistance(a: NormalizedHandFrame, b: NormalizedHandFrame): number {
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i + 2 < a.length && i + 2 < b.length; i += 3) {
+    total += Math.hypot(a[i]! - b[i]!, a[i + 1]! - b[i + 1]!, a[i + 2]! - b[i + 2]!);
+    count++;
+  }
+  return count > 0 ? total / count : Infinity;
+}
+
+/** Dynamic time warping distance, averaged along the warping path. */
+export function dtwDistance(a: NormalizedHandFrame[], b: NormalizedHandFrame[]): number {
+  if (a.length === 0 || b.length === 0) return Infinity;
+  const cols = b.length + 1;
+  const cost = new Float64Array((a.length + 1) * cols).fill(Infinity);
+  const steps = new Float64Array((a.length + 1) * cols);
+  cost[0] = 0;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const options = [(i - 1) * cols + j - 1, (i - 1) * cols + j, i * cols + j - 1];
+      let best = options[0]!;
+      for (const option of options) if (cost[option]! < cost[best]!) best = option;
+      cost[i * cols + j] = cost[best]! + handFrameDistance(a[i - 1]!, b[j - 1]!);
+      steps[i * cols + j] = steps[best]! + 1;
+    }
+  }
+  const end = a.length * cols + b.length;
+  return cost[end]! / steps[end]!;
+}
+
+export interface PoseMatch {
+  templateId: string;
+  /** Mean distance of the winning neighbours (palm widths). */
+  distance: number;
+  confidence: number;
+}
+
+/**
+ * k-nearest-neighbour vote over every pose sample. The winner needs a majority
+ * of the `k` neighbours and must be closer than `threshold`.
+ */
+export function matchPose(
+  frame: NormalizedHandFrame,
+  templates: GestureTemplate[],
+  k: number,
+  threshold: number
+): PoseMatch | null {
+  const neighbours = templates
+    .filter((template) => template.kind === 'pose')
+    .flatMap((template) =>
+      template.samples.map((sample) => ({ templateId: template.id, distance: handFrameDistance(frame, sample[0] ?? []) }))
+    )
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, Math.max(1, k));
+  if (neighbours.length === 0) return null;
+
+  const votes = new Map<string, number[]>();
+  for (const { templateId, distance } of neighbours) {
+    votes.set(templateId, [...(votes.get(templateId) ?? []), distance]);
+  }
+  const [templateId, distances] = Array.from(votes.entries()).sort((a, b) => b[1].length - a[1].length)[0]!;
+  if (distances.length * 2 <= neighbours.length && neighbours.length > 1) return null;
+  const distance = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  if (distance >= threshold) return null;
+  return { templateId, distance, confidence: clamp01(1 - distance / threshold) };
+}
+
+export interface GestureTemplateMatcherOptions {
+  /** Neighbours considered for pose matching. */
+  k: number;
+  /** Largest mean landmark distance (palm widths) that still matches a pose. */
+  poseThreshold: number;
+  /** Largest DTW distance (palm widths) that still matches a motion. */
+  motionThreshold: number;
+  /** A pose must match this long before `start`. */
+  startDelayMs: number;
+  /** A pose must be gone this long before `end`. */
+  releaseMs: number;
+  /** How often motion templates are checked. */
+  motionIntervalMs: number;
+  /** After a motion matches, the hand's path restarts and nothing fires for this long. */
+  motionCooldownMs: number;
+}
+
+export const DEFAULT_GESTURE_TEMPLATE_MATCHER_OPTIONS: GestureTemplateMatcherOptions = {
+  k: 3,
+  poseThreshold: 0.35,
+  motionThreshold: 0.6,
+  startDelayMs: 150,
+  releaseMs: 150,
+  motionIntervalMs: 100,
+  motionCooldownMs: 800,
+};
+
+export interface GestureTemplateEvent {
+  templateId: string;
+  name: string;
+  kind: GestureTemplateKind;
+  /** Motion templates are instantaneous: `start` and `end` fire in the same update. */
+  phase: 'start' | 'hold' | 'end';
+  /** Hand `id` (or array index when hands have no id). */
+  handId: number;
+  handedness: Hand3DData['handedness'];
+  confidence: number;
+  timestamp: number;
+  durationMs: number;
+}
+
+export type GestureTemplateListener = (event: GestureTemplateEvent) => void;
+
+export interface GestureTemplateMatcher {
+  setTemplates: (templates: GestureTemplate[]) => void;
+  /** Feeds one tracking frame; returns (and publishes) the events it produced. */
+  update: (hands: Hand3DData[], timestampMs: number) => GestureTemplateEvent[];
+  subscribe: (listener: GestureTemplateListener) => () => void;
+  reset: () => void;
+}
+
+interface HandTemplateState {
+  active: { template: GestureTemplate; handedness: Hand3DData['handedness']; confidence: number; since: number } | null;
+  candidate: { templateId: string; since: number } | null;
+  releaseSince: number | null;
+  path: Array<{ t: number; landmarks: Landmark[] }>;
+  lastMotionCheck: number;
+  cooldownUntil: number;
+}
+
+export function createGestureTemplateMatcher(
+  initialTemplates: GestureTemplate[] = [],
+  options: Partial<GestureTemplateMatcherOptions> = {}
+): GestureTemplateMatcher {
+  const opts = { ...DEFAULT_GESTURE_TEMPLATE_MATCHER_OPTIONS, ...options };
+  const listeners = new Set<GestureTemplateListener>();
+  let templates = initialTemplates;
+  let handStates = new Map<number, HandTemplateState>();
+  let lastTimestamp = -Infinity;
+
+  const findTemplate = (id: string) => templates.find((template) => template.id === id);
+  const maxMotionMs = () =>
+    Math.max(0, ...templates.filter((template) => template.kind === 'motion').map((template) => template.durationMs));
+
+  function makeEvent(
+    template: GestureTemplate,
+    phase: GestureTemplateEvent['phase'],
+    handedness: Hand3DData['handedness'],
+    handId: number,
+    confidence: number,
+    timestamp: number,
+    durationMs: number
+  ): GestureTemplateEvent {
+    return {
+      templateId: template.id,
+      name: template.name,
+      kind: template.kind,
+      phase,
+      handId,
+      handedness,
+      confidence,
+      timestamp,
+      durationMs,
+    };
+  }
+
+  function endActive(state: HandTemplateState, handId: number, timestamp: number, events: GestureTemplateEvent[]) {
+    const { active } = state;
+    if (!active) return;
+    events.push(
+      makeEvent(active.template, 'end', active.handedness, handId, active.confidence, timestamp, timestamp - active.since)
+    );
+    state.active = null;
+    state.releaseSince = null;
+  }
+
+  function updatePose(state: HandTemplateState, hand: Hand3DData, handId: number, timestamp: number, events: GestureTemplateEvent[]) {
+    const frame = normalizeHandPose(hand.landmarks);
+    const match = frame ? matchPose(frame, templates, opts.k, opts.poseThreshold) : null;
+    const { active } = state;
+
+    if (active && match?.templateId === active.template.id) {
+      active.confidence = match.confidence;
+      state.releaseSince = null;
+      state.candidate = null;
+      events.push(
+        makeEvent(active.template, 'hold', hand.handedness, handId, match.confidence, timestamp, timestamp - active.since)
+      );
+      return;
+    }
+    if (active) {
+      state.releaseSince ??= timestamp;
+      if (timestamp - state.releaseSince >= opts.releaseMs) endActive(state, handId, timestamp, events);
+    }
+
+    const template = match ? findTemplate(match.templateId) : undefined;
+    if (!match || !template) {
+      state.candidate = null;
+      return;
+    }
+    if (state.candidate?.templateId !== match.templateId) {
+      state.candidate = { templateId: match.templateId, since: timestamp };
+    }
+    if (!state.active && timestamp - state.candidate.since >= opts.startDelayMs) {
+      state.active = { template, handedness: hand.handedness, confidence: match.confidence, since: timestamp };
+      state.candidate = null;
+      events.push(makeEvent(template, 'start', hand.handedness, handId, match.confidence, timestamp, 0));
+    }
+  }
+
+  function updateMotion(state: HandTemplateState, hand: Hand3DData, handId: number, timestamp: number, events: GestureTemplateEvent[]) {
+    const windowMs = maxMotionMs();
+    if (windowMs <= 0) return;
+    state.path.push({ t: timestamp, landmarks: hand.landmarks });
+    while (state.path.length > 0 && timestamp - state.path[0]!.t > windowMs * 1.5) state.path.shift();
+    if (timestamp < state.cooldownUntil || timestamp - state.lastMotionCheck < opts.motionIntervalMs) return;
+    state.lastMotionCheck = timestamp;
+
+    let best: { template: GestureTemplate; distance: number; durationMs: number } | null = null;
+    for (const template of templates) {
+      if (template.kind !== 'motion') continue;
+      const recent = state.path.filter((sample) => timestamp - sample.t <= template.durationMs);
+      if (recent.length < 3 || timestamp - recent[0]!.t < template.durationMs * 0.6) continue;
+      const motion = normalizeHandMotion(recent.map((sample) => sample.landmarks));
+      if (!motion) continue;
+      const distance = Math.min(...template.samples.map((sample) => dtwDistance(motion, sample)));
+      if (distance < opts.motionThreshold && (!best || distance < best.distance)) {
+        best = { template, distance, durationMs: timestamp - recent[0]!.t };
+      }
+    }
+    if (!best) return;
+
+    const confidence = clamp01(1 - best.distance / opts.motionThreshold);
+    events.push(
+      makeEvent(best.template, 'start', hand.handedness, handId, confidence, timestamp, best.durationMs),
+      makeEvent(best.template, 'end', hand.handedness, handId, confidence, timestamp, best.durationMs)
+    );
+    state.path = [];
+    state.cooldownUntil = timestamp + opts.motionCooldownMs;
+  }
+
+  function reset() {
+    handStates = new Map();
+    lastTimestamp = -Infinity;
+  }
+
+  return {
+    setTemplates(next) {
+      templates = next;
+      // Active poses whose template was deleted just stop (no `end`)
+      handStates.forEach((state) => {
+        if (state.active && !findTemplate(state.active.template.id)) state.active = null;
+      });
+    },
+    update(hands, timestampMs) {
+      if (timestampMs < lastTimestamp) reset();
+      lastTimestamp = timestampMs;
+
+      const events: GestureTemplateEvent[] = [];
+      const nextStates = new Map<number, HandTemplateState>();
+
+      hands.forEach((hand, index) => {
+        const handId = hand.id ?? index;
+        const state = handStates.get(handId) ?? {
+          active: null,
+          candidate: null,
+          releaseSince: null,
+          path: [],
+          lastMotionCheck: -Infinity,
+          cooldownUntil: 0,
+        };
+        nextStates.set(handId, state);
+        updatePose(state, hand, handId, timestampMs, events);
+        updateMotion(state, hand, handId, timestampMs, events);
+      });
+
+      // Hands that left end their poses right away
+      handStates.forEach((state, handId) => {
+        if (!nextStates.has(handId)) endActive(state, handId, timestampMs, events);
+      });
+      handStates = nextStates;
+
+      for (const event of events) listeners.forEach((listener) => listener(event));
+      return events;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    reset,
+  };
+}
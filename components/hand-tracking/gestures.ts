@@ -0,0 +1,490 @@
+import type { Hand3DData } from './HandTracking';
+import {
+  calculateDistance,
+  INDEX_FINGER_TIP,
+  MIDDLE_FINGER_TIP,
+  PINKY_TIP,
+  RING_FINGER_TIP,
+  THUMB_TIP,
+} from './pinchMath';
+
+/**
+ * Gesture recognition.
+ *
+ * Static gestures are classified per hand from landmark geometry (finger
+ * extension relative to hand size, so they work at any distance from the
+ * camera). Dynamic gestures are detected from the palm's recent path.
+ * `createGestureEngine()` debounces both into start/hold/end events that
+ * routes and visuals can subscribe to (see `hooks/useGestures.ts`).
+ */
+
+export type StaticGesture =
+  | 'openPalm'
+  | 'fist'
+  | 'point'
+  | 'peace'
+  | 'thumbsUp'
+  | 'pinchIndex'
+  | 'pinchMiddle'
+  | 'pinchRing'
+  | 'pinchPinky';
+
+/** Swipe directions are in screen space (the camera preview and visuals are mirrored). */
+export type DynamicGesture = 'swipeLeft' | 'swipeRight' | 'swipeUp' | 'swipeDown' | 'circle' | 'twoHandSpread';
+
+export type GestureName = StaticGesture | DynamicGesture;
+
+export const STATIC_GESTURES: StaticGesture[] = [
+  'openPalm',
+  'fist',
+  'point',
+  'peace',
+  'thumbsUp',
+  'pinchIndex',
+  'pinchMiddle',
+  'pinchRing',
+  'pinchPinky',
+];
+
+export const DYNAMIC_GESTURES: DynamicGesture[] = ['swipeLeft', 'swipeRight', 'swipeUp', 'swipeDown', 'circle', 'twoHandSpread'];
+
+export const GESTURE_LABELS: Record<GestureName, string> = {
+  openPalm: 'Open palm',
+  fist: 'Fist',
+  point: 'Point',
+  peace: 'Peace',
+  thumbsUp: 'Thumbs up',
+  pinchIndex: 'Pinch (index)',
+  pinchMiddle: 'Pinch (middle)',
+  pinchRing: 'Pinch (ring)',
+  pinchPinky: 'Pinch (pinky)',
+  swipeLeft: 'Swipe left',
+  swipeRight: 'Swipe right',
+  swipeUp: 'Swipe up',
+  swipeDown: 'Swipe down',
+  circle: 'Circle',
+  twoHandSpread: 'Two-hand spread',
+};
+
+export interface GestureScore {
+  gesture: StaticGesture;
+  /** 0..1 */
+  confidence: number;
+}
+
+type Landmark = Hand3DData['landmarks'][number];
+
+const WRIST = 0;
+const THUMB_MCP = 2;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const PALM_LANDMARKS = [0, 5, 9, 13, 17];
+
+// [pip, tip] per finger
+const FINGERS = {
+  index: [6, INDEX_FINGER_TIP],
+  middle: [10, MIDDLE_FINGER_TIP],
+  ring: [14, RING_FINGER_TIP],
+  pinky: [18, PINKY_TIP],
+} as const;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/** Wrist to middle-finger knuckle; the unit for all static-gesture distances. */
+function getHandSize(landmarks: Landmark[]): number {
+  return Math.max(1e-6, calculateDistance(landmarks[WRIST]!, landmarks[MIDDLE_MCP]!));
+}
+
+/** Wrist-to-tip over wrist-to-PIP: about 1.5 for a straight finger, below 0.8 when curled into the palm. */
+function fingerReach(landmarks: Landmark[], [pip, tip]: readonly [number, number]): number {
+  const wrist = landmarks[WRIST]!;
+  return calculateDistance(wrist, landmarks[tip]!) / Math.max(1e-6, calculateDistance(wrist, landmarks[pip]!));
+}
+
+/** 0 = curled, 1 = straight. */
+const fingerExtension = (reach: number) => clamp01((reach - 1) / 0.35);
+
+function thumbExtension(landmarks: Landmark[], handSize: number): number {
+  return clamp01((calculateDistance(landmarks[THUMB_TIP]!, landmarks[INDEX_MCP]!) / handSize - 0.35) / 0.35);
+}
+
+/**
+ * 1 when the thumb tip touches the fingertip, 0.5 at `threshold` hand sizes
+ * apart. A finger curled into the palm doesn't pinch (that's a fist).
+ */
+function pinchConfidence(
+  landmarks: Landmark[],
+  finger: readonly [number, number],
+  handSize: number,
+  threshold: number
+): number {
+  const distance = calculateDistance(landmarks[THUMB_TIP]!, landmarks[finger[1]]!) / handSize;
+  const notCurled = clamp01((fingerReach(landmarks, finger) - 0.7) / 0.2);
+  return Math.min(clamp01(1.5 - distance / threshold), notCurled);
+}
+
+/**
+ * Scores every static gesture for one hand, best first. `pinchThreshold` is
+ * the thumb-fingertip distance (in hand sizes) that counts as half a pinch.
+ */
+export function classifyHandPose(landmarks: Landmark[], pinchThreshold = DEFAULT_GESTURE_OPTIONS.pinchThreshold): GestureScore[] {
+  if (landmarks.length < 21) return [];
+  const size = getHandSize(landmarks);
+
+  const thumb = thumbExtension(landmarks, size);
+  const index = fingerExtension(fingerReach(landmarks, FINGERS.index));
+  const middle = fingerExtension(fingerReach(landmarks, FINGERS.middle));
+  const ring = fingerExtension(fingerReach(landmarks, FINGERS.ring));
+  const pinky = fingerExtension(fingerReach(landmarks, FINGERS.pinky));
+  const curled = (extension: number) => 1 - extension;
+  // Image y grows downwards
+  const thumbUp = clamp01((landmarks[THUMB_MCP]!.y - landmarks[THUMB_TIP]!.y) / (0.6 * size));
+
+  const scores: GestureScore[] = [
+    { gesture: 'openPalm', confidence: Math.min(thumb, index, middle, ring, pinky) },
+    { gesture: 'fist', confidence: Math.min(curled(thumb), curled(index), curled(middle), curled(ring), curled(pinky)) },
+    { gesture: 'point', confidence: Math.min(index, curled(middle), curled(ring), curled(pinky)) },
+    { gesture: 'peace', confidence: Math.min(index, middle, curled(ring), curled(pinky)) },
+    {
+      gesture: 'thumbsUp',
+      confidence: Math.min(thumb, thumbUp, curled(index), curled(middle), curled(ring), curled(pinky)),
+    },
+    { gesture: 'pinchIndex', confidence: pinchConfidence(landmarks, FINGERS.index, size, pinchThreshold) },
+    { gesture: 'pinchMiddle', confidence: pinchConfidence(landmarks, FINGERS.middle, size, pinchThreshold) },
+    { gesture: 'pinchRing', confidence: pinchConfidence(landmarks, FINGERS.ring, size, pinchThreshold) },
+    { gesture: 'pinchPinky', confidence: pinchConfidence(landmarks, FINGERS.pinky, size, pinchThreshold) },
+  ];
+  return scores.sort((a, b) => b.confidence - a.confidence);
+}
+
+export function getPalmCenter(landmarks: Landmark[]): { x: number; y: number } {
+  let x = 0;
+  let y = 0;
+  let count = 0;
+  for (const index of PALM_LANDMARKS) {
+    const lm = landmarks[index];
+    if (!lm) continue;
+    x += lm.x;
+    y += lm.y;
+    count++;
+  }
+  return count > 0 ? { x: x / count, y: y / count } : { x: 0.5, y: 0.5 };
+}
+
+export interface PathSample {
+  t: number;
+  /** Screen space: x mirrored to match the preview, 0..1, y down. */
+  x: number;
+  y: number;
+}
+
+/** Detects a swipe over `samples` (oldest first). */
+export function detectSwipe(
+  samples: PathSample[],
+  minDistance: number
+): { gesture: DynamicGesture; confidence: number } | null {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  if (!first || !last || first === last) return null;
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  const horizontal = Math.abs(dx) >= Math.abs(dy);
+  const distance = horizontal ? Math.abs(dx) : Math.abs(dy);
+  const offAxis = horizontal ? Math.abs(dy) : Math.abs(dx);
+  // Mostly along one axis
+  if (distance < minDistance || offAxis * 2 > distance) return null;
+  const gesture: DynamicGesture = horizontal ? (dx > 0 ? 'swipeRight' : 'swipeLeft') : dy > 0 ? 'swipeDown' : 'swipeUp';
+  return { gesture, confidence: clamp01(distance / (1.5 * minDistance)) };
+}
+
+/** Detects a full loop: the path winds once around its centroid at a roughly constant radius. */
+export function detectCircle(samples: PathSample[], minRadius: number): number {
+  if (samples.length < 8) return 0;
+  const cx = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const cy = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+  const radii = samples.map((s) => Math.hypot(s.x - cx, s.y - cy));
+  const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+  if (meanRadius < minRadius) return 0;
+  const spread = Math.sqrt(radii.reduce((sum, r) => sum + (r - meanRadius) ** 2, 0) / radii.length);
+
+  let winding = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const a0 = Math.atan2(samples[i - 1]!.y - cy, samples[i - 1]!.x - cx);
+    const a1 = Math.atan2(samples[i]!.y - cy, samples[i]!.x - cx);
+    let delta = a1 - a0;
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+    winding += delta;
+  }
+  const turns = Math.abs(winding) / (2 * Math.PI);
+  const roundness = clamp01(1 - spread / meanRadius);
+  return turns >= 0.9 ? clamp01(turns) * roundness : 0;
+}
+
+export interface GestureOptions {
+  /** Static gestures below this confidence are ignored. */
+  minConfidence: number;
+  /** A static gesture must be held this long before `start`. */
+  startDelayMs: number;
+  /** A static gesture must be gone this long before `end`. */
+  releaseMs: number;
+  /** Thumb-fingertip distance (hand sizes) at which a pinch is 50% confident. */
+  pinchThreshold: number;
+  /** Palm travel (fraction of the frame) within `swipeWindowMs` that counts as a swipe. */
+  swipeDistance: number;
+  swipeWindowMs: number;
+  circleMinRadius: number;
+  circleWindowMs: number;
+  /** Increase in palm-to-palm distance (fraction of the frame) within `spreadWindowMs`. */
+  spreadDistance: number;
+  spreadWindowMs: number;
+  /** After a dynamic gesture fires, that hand's path restarts and it can't fire again for this long. */
+  dynamicCooldownMs: number;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  minConfidence: 0.6,
+  startDelayMs: 120,
+  releaseMs: 150,
+  pinchThreshold: 0.3,
+  swipeDistance: 0.25,
+  swipeWindowMs: 350,
+  circleMinRadius: 0.04,
+  circleWindowMs: 1500,
+  spreadDistance: 0.2,
+  spreadWindowMs: 600,
+  dynamicCooldownMs: 500,
+};
+
+export type GesturePhase = 'start' | 'hold' | 'end';
+
+export interface GestureEvent {
+  gesture: GestureName;
+  /** Dynamic gestures are instantaneous: `start` and `end` fire in the same update. */
+  phase: GesturePhase;
+  /** Hand `id` (or array index when hands have no id); null for two-hand gestures. */
+  handId: number | null;
+  handedness: Hand3DData['handedness'] | null;
+  confidence: number;
+  timestamp: number;
+  /** Time since `start` (for dynamic gestures, the duration of the motion). */
+  durationMs: number;
+}
+
+export type GestureListener = (event: GestureEvent) => void;
+
+export interface ActiveGesture {
+  gesture: StaticGesture;
+  handId: number;
+  handedness: Hand3DData['handedness'];
+  confidence: number;
+  since: number;
+}
+
+export interface GestureEngine {
+  /** Feeds one tracking frame; returns (and publishes) the events it produced. */
+  update: (hands: Hand3DData[], timestampMs: number) => GestureEvent[];
+  subscribe: (listener: GestureListener) => () => void;
+  getActive: () => ActiveGesture[];
+  reset: () => void;
+}
+
+interface HandGestureState {
+  handedness: Hand3DData['handedness'];
+  active: ActiveGesture | null;
+  candidate: { gesture: StaticGesture; since: number } | null;
+  releaseSince: number | null;
+  path: PathSample[];
+  cooldownUntil: number;
+}
+
+export function createGestureEngine(options: Partial<GestureOptions> = {}): GestureEngine {
+  const opts = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  const listeners = new Set<GestureListener>();
+  let handStates = new Map<number, HandGestureState>();
+  let spreadPath: Array<{ t: number; distance: number }> = [];
+  let spreadCooldownUntil = 0;
+  let lastTimestamp = -Infinity;
+
+  const pathWindowMs = Math.max(opts.swipeWindowMs, opts.circleWindowMs);
+
+  function endActive(state: HandGestureState, timestamp: number, events: GestureEvent[]) {
+    const { active } = state;
+    if (!active) return;
+    events.push({
+      gesture: active.gesture,
+      phase: 'end',
+      handId: active.handId,
+      handedness: active.handedness,
+      confidence: active.confidence,
+      timestamp,
+      durationMs: timestamp - active.since,
+    });
+    state.active = null;
+    state.releaseSince = null;
+  }
+
+  function updateStatic(state: HandGestureState, handId: number, hand: Hand3DData, timestamp: number, events: GestureEvent[]) {
+    const best = classifyHandPose(hand.landmarks, opts.pinchThreshold)[0];
+    const detected = best && best.confidence >= opts.minConfidence ? best : null;
+    const { active } = state;
+
+    if (active && detected?.gesture === active.gesture) {
+      active.confidence = detected.confidence;
+      state.releaseSince = null;
+      state.candidate = null;
+      events.push({
+        gesture: active.gesture,
+        phase: 'hold',
+        handId,
+        handedness: active.handedness,
+        confidence: active.confidence,
+        timestamp,
+        durationMs: timestamp - active.since,
+      });
+      return;
+    }
+
+    if (active) {
+      state.releaseSince ??= timestamp;
+      if (timestamp - state.releaseSince >= opts.releaseMs) endActive(state, timestamp, events);
+    }
+
+    if (!detected) {
+      state.candidate = null;
+      return;
+    }
+    if (state.candidate?.gesture !== detected.gesture) {
+      state.candidate = { gesture: detected.gesture, since: timestamp };
+    }
+    if (!state.active && timestamp - state.candidate.since >= opts.startDelayMs) {
+      state.active = {
+        gesture: detected.gesture,
+        handId,
+        handedness: hand.handedness,
+        confidence: detected.confidence,
+        since: timestamp,
+      };
+      state.candidate = null;
+      events.push({
+        gesture: detected.gesture,
+        phase: 'start',
+        handId,
+        handedness: hand.handedness,
+        confidence: detected.confidence,
+        timestamp,
+        durationMs: 0,
+      });
+    }
+  }
+
+  function pushDynamic(
+    gesture: DynamicGesture,
+    confidence: number,
+    handId: number | null,
+    handedness: Hand3DData['handedness'] | null,
+    startedAt: number,
+    timestamp: number,
+    events: GestureEvent[]
+  ) {
+    const event = { gesture, handId, handedness, confidence, timestamp, durationMs: timestamp - startedAt };
+    events.push({ ...event, phase: 'start' }, { ...event, phase: 'end' });
+  }
+
+  function updateDynamic(state: HandGestureState, handId: number, hand: Hand3DData, timestamp: number, events: GestureEvent[]) {
+    const palm = getPalmCenter(hand.landmarks);
+    state.path.push({ t: timestamp, x: 1 - palm.x, y: palm.y });
+    while (state.path.length > 0 && timestamp - state.path[0]!.t > pathWindowMs) state.path.shift();
+    if (timestamp < state.cooldownUntil) return;
+
+    const swipeSamples = state.path.filter((s) => timestamp - s.t <= opts.swipeWindowMs);
+    const swipe = detectSwipe(swipeSamples, opts.swipeDistance);
+    const circle = swipe ? 0 : detectCircle(state.path, opts.circleMinRadius);
+
+    if (swipe && swipe.confidence >= opts.minConfidence) {
+      pushDynamic(swipe.gesture, swipe.confidence, handId, hand.handedness, swipeSamples[0]!.t, timestamp, events);
+    } else if (circle >= opts.minConfidence) {
+      pushDynamic('circle', circle, handId, hand.handedness, state.path[0]!.t, timestamp, events);
+    } else {
+      return;
+    }
+    state.path = [];
+    state.cooldownUntil = timestamp + opts.dynamicCooldownMs;
+  }
+
+  function updateSpread(hands: Hand3DData[], timestamp: number, events: GestureEvent[]) {
+    if (hands.length < 2) {
+      spreadPath = [];
+      return;
+    }
+    const a = getPalmCenter(hands[0]!.landmarks);
+    const b = getPalmCenter(hands[1]!.landmarks);
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
+    spreadPath.push({ t: timestamp, distance });
+    while (spreadPath.length > 0 && timestamp - spreadPath[0]!.t > opts.spreadWindowMs) spreadPath.shift();
+    if (timestamp < spreadCooldownUntil) return;
+
+    const closest = spreadPath.reduce((min, s) => (s.distance < min.distance ? s : min), spreadPath[0]!);
+    const gain = distance - closest.distance;
+    if (gain < opts.spreadDistance) return;
+    pushDynamic('twoHandSpread', clamp01(gain / (1.5 * opts.spreadDistance)), null, null, closest.t, timestamp, events);
+    spreadPath = [];
+    spreadCooldownUntil = timestamp + opts.dynamicCooldownMs;
+  }
+
+  function reset() {
+    handStates = new Map();
+    spreadPath = [];
+    spreadCooldownUntil = 0;
+    lastTimestamp = -Infinity;
+  }
+
+  return {
+    update(hands, timestampMs) {
+      // Time went backwards (e.g. a replay looped): drop state without events
+      if (timestampMs < lastTimestamp) reset();
+      lastTimestamp = timestampMs;
+
+      const events: GestureEvent[] = [];
+      const nextStates = new Map<number, HandGestureState>();
+
+      hands.forEach((hand, index) => {
+        if (hand.landmarks.length < 21) return;
+        const handId = hand.id ?? index;
+        const state = handStates.get(handId) ?? {
+          handedness: hand.handedness,
+          active: null,
+          candidate: null,
+          releaseSince: null,
+          path: [],
+          cooldownUntil: 0,
+        };
+        state.handedness = hand.handedness;
+        nextStates.set(handId, state);
+        updateStatic(state, handId, hand, timestampMs, events);
+        updateDynamic(state, handId, hand, timestampMs, events);
+      });
+
+      // Hands that left end their gestures right away
+      handStates.forEach((state, handId) => {
+        if (!nextStates.has(handId)) endActive(state, timestampMs, events);
+      });
+      handStates = nextStates;
+
+      updateSpread(hands, timestampMs, events);
+
+      for (const event of events) listeners.forEach((listener) => listener(event));
+      return events;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getActive() {
+      return Array.from(handStates.values()).flatMap((state) => (state.active ? [{ ...state.active }] : []));
+    },
+    reset,
+  };
+}
@@ -0,0 +1,234 @@
+import type { Hand3DData } from './HandTracking';
+
+/**
+ * Stable hand identities across frames.
+ *
+ * MediaPipe returns hands in no particular order and sometimes flips the
+ * `handedness` label for a few frames. The tracker matches each detection to
+ * the nearest known hand (wrist + palm centre), keeps its `id`, and only
+ * accepts a handedness change after it has been reported for several frames
+ * in a row. Runs once per tracking frame in `useTrackingFrame`.
+ */
+
+export type HandIdentityEventType = 'enter' | 'lost' | 'exit';
+
+export interface HandIdentityEvent {
+  /**
+   * `enter`: a new hand has been seen for `enterGraceMs`.
+   * `lost`: an entered hand has been missing for `lostGraceMs` (it keeps its id if it comes back).
+   * `exit`: a lost hand has been missing for `exitGraceMs`; its id is retired.
+   */
+  type: HandIdentityEventType;
+  id: number;
+  handedness: Hand3DData['handedness'];
+  timestamp: number;
+}
+
+export interface HandIdentityOptions {
+  /** Largest wrist/palm movement between frames (normalized units) still treated as the same hand. */
+  maxMatchDistance: number;
+  /** Consecutive frames with the other label before a hand's handedness flips. */
+  handednessSwitchFrames: number;
+  enterGraceMs: number;
+  lostGraceMs: number;
+  exitGraceMs: number;
+}
+
+export const DEFAULT_HAND_IDENTITY_OPTIONS: HandIdentityOptions = {
+  maxMatchDistance: 0.25,
+  handednessSwitchFrames: 6,
+  enterGraceMs: 150,
+  lostGraceMs: 100,
+  exitGraceMs: 600,
+};
+
+interface Point2D {
+  x: number;
+  y: number;
+}
+
+interface HandAnchor {
+  wrist: Point2D;
+  palm: Point2D;
+}
+
+interface TrackedHand {
+  id: number;
+  anchor: HandAnchor;
+  handedness: Hand3DData['handedness'];
+  /** Frames in a row the detector reported the other label. */
+  opposingFrames: number;
+  firstSeen: number;
+  lastSeen: number;
+  entered: boolean;
+  lost: boolean;
+}
+
+const WRIST = 0;
+const PALM_LANDMARKS = [0, 5, 9, 13, 17];
+
+function getHandAnchor(hand: Hand3DData): HandAnchor | null {
+  const wrist = hand.landmarks[WRIST];
+  if (!wrist) return null;
+  const palm = { x: 0, y: 0 };
+  let count = 0;
+  for (const index of PALM_LANDMARKS) {
+    const lm = hand.landmarks[index];
+    if (!lm) continue;
+    palm.x += lm.x;
+    palm.y += lm.y;
+    count++;
+  }
+  return { wrist: { x: wrist.x, y: wrist.y }, palm: { x: palm.x / count, y: palm.y / count } };
+}
+
+const distance2D = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const anchorDistance = (a: HandAnchor, b: HandAnchor) =>
+  (distance2D(a.wrist, b.wrist) + distance2D(a.palm, b.palm)) / 2;
+
+export interface HandIdentityUpdate {
+  /** Input hands (same order) with `id` and the stabilized `handedness`. */
+  hands: Hand3DData[];
+  events: HandIdentityEvent[];
+}
+
+export interface HandIdentityTracker {
+  update: (hands: Hand3DData[], timestampMs: number) => HandIdentityUpdate;
+  reset: () => void;
+}
+
+export function createHandIdentityTracker(options: Partial<HandIdentityOptions> = {}): HandIdentityTracker {
+  const { maxMatchDistance, handednessSwitchFrames, enterGraceMs, lostGraceMs, exitGraceMs } = {
+    ...DEFAULT_HAND_IDENTITY_OPTIONS,
+    ...options,
+  };
+  let tracks: TrackedHand[] = [];
+  let nextId = 1;
+  let lastTimestamp = -Infinity;
+
+  const event = (type: HandIdentityEventType, track: TrackedHand, timestamp: number): HandIdentityEvent => ({
+    type,
+    id: track.id,
+    handedness: track.handedness,
+    timestamp,
+  });
+
+  function updateHandedness(track: TrackedHand, label: Hand3DData['handedness']) {
+    if (label === 'Unknown' || label === track.handedness) {
+      track.opposingFrames = 0;
+      return;
+    }
+    if (track.handedness === 'Unknown' || ++track.opposingFrames >= handednessSwitchFrames) {
+      track.handedness = label;
+      track.opposingFrames = 0;
+    }
+  }
+
+  return {
+    update(hands, timestampMs) {
+      // Time went backwards (e.g. a replay looped): start over without events
+      if (timestampMs < lastTimestamp) tracks = [];
+      lastTimestamp = timestampMs;
+
+      const events: HandIdentityEvent[] = [];
+      const anchors = hands.map(getHandAnchor);
+
+      // Greedy global nearest-neighbour: closest pairs are matched first
+      const pairs: Array<{ track: TrackedHand; hand: number; distance: number }> = [];
+      for (const track of tracks) {
+        anchors.forEach((anchor, hand) => {
+          if (!anchor) return;
+          const distance = anchorDistance(track.anchor, anchor);
+          if (distance <= maxMatchDistance) pairs.push({ track, hand, distance });
+        });
+      }
+      pairs.sort((a, b) => a.distance - b.distance);
+
+      const assigned: Array<TrackedHand | undefined> = new Array(hands.length);
+      const matched = new Set<TrackedHand>();
+      for (const { track, hand } of pairs) {
+        if (assigned[hand] || matched.has(track)) continue;
+        assigned[hand] = track;
+        matched.add(track);
+      }
+
+      const output = hands.map((hand, index) => {
+        const anchor = anchors[index];
+        let track = assigned[index];
+        if (!track) {
+          track = {
+            id: nextId++,
+            anchor: anchor ?? { wrist: { x: 0.5, y: 0.5 }, palm: { x: 0.5, y: 0.5 } },
+            handedness: hand.handedness,
+            opposingFrames: 0,
+            firstSeen: timestampMs,
+            lastSeen: timestampMs,
+            entered: false,
+            lost: false,
+          };
+          tracks.push(track);
+          matched.add(track);
+        } else {
+          if (anchor) track.anchor = anchor;
+          track.lastSeen = timestampMs;
+          track.lost = false;
+          updateHandedness(track, hand.handedness);
+        }
+
+        if (!track.entered && timestampMs - track.firstSeen >= enterGraceMs) {
+          track.entered = true;
+          events.push(event('enter', track, timestampMs));
+        }
+        return { ...hand, id: track.id, handedness: track.handedness };
+      });
+
+      tracks = tracks.filter((track) => {
+        if (matched.has(track)) return true;
+        const missingMs = timestampMs - track.lastSeen;
+        // Hands that never entered were likely false detections: drop them quietly
+        if (!track.entered) return missingMs < lostGraceMs;
+        if (!track.lost && missingMs >= lostGraceMs) {
+          track.lost = true;
+          events.push(event('lost', track, timestampMs));
+        }
+        if (missingMs >= exitGraceMs) {
+          events.push(event('exit', track, timestampMs));
+          return false;
+        }
+        return true;
+      });
+
+      return { hands: output, events };
+    },
+    reset() {
+      tracks = [];
+      lastTimestamp = -Infinity;
+    },
+  };
+}
+
+/**
+ * Places hands into a fixed number of slots (visuals with one set of state per
+ * hand). A hand stays in the slot it had last frame (`previousIds`); new hands
+ * take the first free slot. Hands without an `id` fill slots in array order.
+ */
+export function assignHandSlots(
+  hands: Hand3DData[],
+  previousIds: Array<number | null>,
+  slotCount: number
+): Array<Hand3DData | null> {
+  const slots: Array<Hand3DData | null> = new Array(slotCount).fill(null);
+  const remaining: Hand3DData[] = [];
+  for (const hand of hands) {
+    const slot = hand.id === undefined ? -1 : previousIds.indexOf(hand.id);
+    if (slot >= 0 && slot < slotCount && !slots[slot]) slots[slot] = hand;
+    else remaining.push(hand);
+  }
+  for (const hand of remaining) {
+    const free = slots.indexOf(null);
+    if (free < 0) break;
+    slots[free] = hand;
+  }
+  return slots;
+}
@@ -24,6 +24,11 @@ export function landmarkToSceneSpace(lm: { x: number; y: number; z: number }, de
   );
 }
 
+/** Velocity counterpart of `landmarkToSceneSpace` (no offset, same axis flips and scale). */
+export function landmarkVelocityToSceneSpace(v: { x: number; y: number; z: number }, depthScale = 2) {
+  return new THREE.Vector3(-v.x * 2, -v.y * 2, v.z * depthScale);
+}
+
 export interface HandHandlePose {
   position: THREE.Vector3;
   quaternion: THREE.Quaternion;
@@ -0,0 +1,261 @@
+import type { Hand3DData, LandmarkVelocity } from './HandTracking';
+
+/**
+ * Temporal landmark filtering.
+ *
+ * Each landmark coordinate gets its own scalar filter (One Euro or a
+ * constant-velocity Kalman filter) that also estimates velocity. Filters are
+ * applied once per tracking frame in `useTrackingFrame`, so visuals receive
+ * smoothed `Hand3DData` with per-landmark `velocities`.
+ */
+
+export type LandmarkFilterKind = 'none' | 'oneEuro' | 'kalman';
+
+export const LANDMARK_FILTER_KINDS: LandmarkFilterKind[] = ['none', 'oneEuro', 'kalman'];
+
+export const LANDMARK_FILTER_LABELS: Record<LandmarkFilterKind, string> = {
+  none: 'Off (raw)',
+  oneEuro: 'One Euro',
+  kalman: 'Kalman (constant velocity)',
+};
+
+export interface LandmarkFilterSettings {
+  kind: LandmarkFilterKind;
+  /** One Euro: cutoff frequency at rest (Hz). Lower = smoother when still. */
+  minCutoff: number;
+  /** One Euro: how fast the cutoff rises with speed. Higher = less lag on fast moves. */
+  beta: number;
+  /** One Euro: cutoff frequency for the velocity estimate (Hz). */
+  dCutoff: number;
+  /** Kalman: acceleration noise (normalized units/s²). Higher = follows direction changes faster. */
+  processNoise: number;
+  /** Kalman: detector jitter (normalized units). Higher = smoother. */
+  measurementNoise: number;
+}
+
+export const DEFAULT_LANDMARK_FILTER_SETTINGS: LandmarkFilterSettings = {
+  kind: 'oneEuro',
+  minCutoff: 1.5,
+  beta: 8,
+  dCutoff: 1,
+  processNoise: 8,
+  measurementNoise: 0.004,
+};
+
+// Gaps longer than this (hand lost, replay looped) restart the filter instead of smoothing across them
+const MAX_FRAME_GAP_MS = 500;
+
+export interface FilteredValue {
+  value: number;
+  /** Units per second. */
+  velocity: number;
+}
+
+export interface ScalarFilter {
+  next: (value: number, timestampMs: number) => FilteredValue;
+  reset: () => void;
+}
+
+/** Shared bookkeeping: first sample, non-increasing timestamps and long gaps reset the filter. */
+function createScalarFilter(
+  step: (value: number, dt: number) => FilteredValue,
+  init: (value: number) => void
+): ScalarFilter {
+  let lastTimestamp: number | null = null;
+  return {
+    next(value, timestampMs) {
+      const dtMs = lastTimestamp === null ? 0 : timestampMs - lastTimestamp;
+      lastTimestamp = timestampMs;
+      if (dtMs <= 0 || dtMs > MAX_FRAME_GAP_MS) {
+        init(value);
+        return { value, velocity: 0 };
+      }
+      return step(value, dtMs / 1000);
+    },
+    reset() {
+      lastTimestamp = null;
+    },
+  };
+}
+
+/** Finite differences only (used when filtering is off, so velocity is still available). */
+export function createPassthroughFilter(): ScalarFilter {
+  let prev = 0;
+  return createScalarFilter(
+    (value, dt) => {
+      const velocity = (value - prev) / dt;
+      prev = value;
+      return { value, velocity };
+    },
+    (value) => {
+      prev = value;
+    }
+  );
+}
+
+const smoothingAlpha = (cutoffHz: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dt);
+};
+
+/** One Euro filter (Casiez et al. 2012): adaptive low-pass whose cutoff rises with speed. */
+export function createOneEuroFilter(
+  settings: Pick<LandmarkFilterSettings, 'minCutoff' | 'beta' | 'dCutoff'>
+): ScalarFilter {
+  const { minCutoff, beta, dCutoff } = settings;
+  let x = 0;
+  let dx = 0;
+  return createScalarFilter(
+    (value, dt) => {
+      const rawDx = (value - x) / dt;
+      dx += (rawDx - dx) * smoothingAlpha(dCutoff, dt);
+      const cutoff = minCutoff + beta * Math.abs(dx);
+      x += (value - x) * smoothingAlpha(cutoff, dt);
+      return { value: x, velocity: dx };
+    },
+    (value) => {
+      x = value;
+      dx = 0;
+    }
+  );
+}
+
+/** 1D constant-velocity Kalman filter with white-noise acceleration. */
+export function createKalmanFilter(
+  settings: Pick<LandmarkFilterSettings, 'processNoise' | 'measurementNoise'>
+): ScalarFilter {
+  const q = settings.processNoise * settings.processNoise;
+  const r = settings.measurementNoise * settings.measurementNoise;
+  // State [position, velocity] and covariance [[p00, p01], [p01, p11]]
+  let pos = 0;
+  let vel = 0;
+  let p00 = 0;
+  let p01 = 0;
+  let p11 = 0;
+  return createScalarFilter(
+    (value, dt) => {
+      // Predict
+      pos += vel * dt;
+      const dt2 = dt * dt;
+      p00 += dt * (2 * p01 + dt * p11) + (q * dt2 * dt) / 3;
+      p01 += dt * p11 + (q * dt2) / 2;
+      p11 += q * dt;
+
+      // Update with the measured position
+      const s = p00 + r;
+      const k0 = p00 / s;
+      const k1 = p01 / s;
+      const residual = value - pos;
+      pos += k0 * residual;
+      vel += k1 * residual;
+      p11 -= k1 * p01;
+      p01 -= k0 * p01;
+      p00 -= k0 * p00;
+      return { value: pos, velocity: vel };
+    },
+    (value) => {
+      pos = value;
+      vel = 0;
+      p00 = r;
+      p01 = 0;
+      // Unknown initial velocity: let the first measurements set it quickly
+      p11 = 1;
+    }
+  );
+}
+
+export function createScalarFilterForSettings(settings: LandmarkFilterSettings): ScalarFilter {
+  switch (settings.kind) {
+    case 'oneEuro':
+      return createOneEuroFilter(settings);
+    case 'kalman':
+      return createKalmanFilter(settings);
+    default:
+      return createPassthroughFilter();
+  }
+}
+
+type AxisFilters = [ScalarFilter, ScalarFilter, ScalarFilter];
+
+/**
+ * Filter banks are keyed by hand `id`, which keeps them attached to the same
+ * physical hand while MediaPipe reorders hands. Without ids, handedness (plus
+ * occurrence, e.g. two 'Right' hands) is used instead.
+ */
+function handKeys(hands: Hand3DData[]): string[] {
+  const seen: Record<string, number> = {};
+  return hands.map((hand) => {
+    if (hand.id !== undefined) return `id:${hand.id}`;
+    const n = seen[hand.handedness] ?? 0;
+    seen[hand.handedness] = n + 1;
+    return `${hand.handedness}:${n}`;
+  });
+}
+
+export interface HandLandmarkFilter {
+  /** Returns filtered copies of `hands` with `velocities` set. Input is not mutated. */
+  apply: (hands: Hand3DData[], timestampMs: number) => Hand3DData[];
+  reset: () => void;
+}
+
+export function createHandLandmarkFilter(
+  settings: LandmarkFilterSettings = DEFAULT_LANDMARK_FILTER_SETTINGS
+): HandLandmarkFilter {
+  let banks = new Map<string, AxisFilters[]>();
+
+  return {
+    apply(hands, timestampMs) {
+      const keys = handKeys(hands);
+      const nextBanks = new Map<string, AxisFilters[]>();
+
+      const filtered = hands.map((hand, handIndex) => {
+        const key = keys[handIndex]!;
+        // Hands that disappeared are dropped, so a returning hand starts fresh
+        const bank = banks.get(key) ?? [];
+        nextBanks.set(key, bank);
+
+        const velocities: LandmarkVelocity[] = [];
+        const landmarks = hand.landmarks.map((landmark, i) => {
+          const axes = (bank[i] ??= [
+            createScalarFilterForSettings(settings),
+            createScalarFilterForSettings(settings),
+            createScalarFilterForSettings(settings),
+          ]);
+          const x = axes[0].next(landmark.x, timestampMs);
+          const y = axes[1].next(landmark.y, timestampMs);
+          const z = axes[2].next(landmark.z, timestampMs);
+          velocities.push({ x: x.velocity, y: y.velocity, z: z.velocity });
+          return { x: x.value, y: y.value, z: z.value };
+        });
+
+        return { ...hand, landmarks, velocities };
+      });
+
+      banks = nextBanks;
+      return filtered;
+    },
+    reset() {
+      banks = new Map();
+    },
+  };
+}
+
+/** Fills in missing/invalid fields (e.g. from older saved settings) with defaults. */
+export function normalizeLandmarkFilterSettings(value: unknown): LandmarkFilterSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof LandmarkFilterSettings, unknown>>;
+  // A zero cutoff stalls the One Euro filter and zero noises make the Kalman gain 0/0; only beta may be 0
+  const num = (key: Exclude<keyof LandmarkFilterSettings, 'kind'>, allowZero = false) => {
+    const v = input[key];
+    return typeof v === 'number' && Number.isFinite(v) && (allowZero ? v >= 0 : v > 0) ? v : DEFAULT_LANDMARK_FILTER_SETTINGS[key];
+  };
+  return {
+    kind: LANDMARK_FILTER_KINDS.includes(input.kind as LandmarkFilterKind)
+      ? (input.kind as LandmarkFilterKind)
+      : DEFAULT_LANDMARK_FILTER_SETTINGS.kind,
+    minCutoff: num('minCutoff'),
+    beta: num('beta', true),
+    dCutoff: num('dCutoff'),
+    processNoise: num('processNoise'),
+    measurementNoise: num('measurementNoise'),
+  };
+}
@@ -0,0 +1,195 @@
+import type { Hand3DData, PinchVector } from './HandTracking';
+
+/**
+ * Landmark session recordings.
+ *
+ * A recording is a list of timestamped tracking frames (hands, pose, pinch and
+ * right-hand distance) captured from `HandTracking`. It is stored as versioned
+ * JSON so sessions can be replayed without a camera and used as test fixtures.
+ */
+
+export const LANDMARK_RECORDING_FORMAT = 'landmark-recording';
+export const LANDMARK_RECORDING_VERSION = 1;
+
+export interface RecordedPosePoint {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export interface RecordedFrame {
+  t: number; // ms since the start of the recording
+  hands: Hand3DData[];
+  pinchVector: PinchVector | null;
+  rightHandDistance: number | null;
+  pose: RecordedPosePoint[] | null;
+}
+
+export interface LandmarkRecording {
+  format: typeof LANDMARK_RECORDING_FORMAT;
+  version: typeof LANDMARK_RECORDING_VERSION;
+  createdAt: number; // wall-clock timestamp when recording started
+  durationMs: number;
+  frames: RecordedFrame[];
+}
+
+export interface LandmarkRecorder {
+  start: (now?: number) => void;
+  stop: () => LandmarkRecording | null;
+  addFrame: (frame: Omit<RecordedFrame, 't'>, now?: number) => void;
+  isRecording: () => boolean;
+  frameCount: () => number;
+}
+
+/**
+ * Creates a recorder that timestamps frames relative to `start()`.
+ * `now` defaults to `performance.now()`; tests pass explicit times.
+ */
+export function createLandmarkRecorder(): LandmarkRecorder {
+  let startedAt: number | null = null;
+  let createdAt = 0;
+  let frames: RecordedFrame[] = [];
+
+  const clock = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+  return {
+    start(now = clock()) {
+      startedAt = now;
+      createdAt = Date.now();
+      frames = [];
+    },
+    stop() {
+      if (startedAt === null) return null;
+      const recording: LandmarkRecording = {
+        format: LANDMARK_RECORDING_FORMAT,
+        version: LANDMARK_RECORDING_VERSION,
+        createdAt,
+        durationMs: frames.length ? frames[frames.length - 1]!.t : 0,
+        frames,
+      };
+      startedAt = null;
+      frames = [];
+      return recording;
+    },
+    addFrame(frame, now = clock()) {
+      if (startedAt === null) return;
+      frames.push({
+        t: Math.max(0, now - startedAt),
+        // Copy landmark arrays so later mutation by the caller can't alter the recording
+        hands: frame.hands.map((hand) => ({
+          ...hand,
+          landmarks: hand.landmarks.map((lm) => ({ x: lm.x, y: lm.y, z: lm.z })),
+        })),
+        pinchVector: frame.pinchVector ? { ...frame.pinchVector } : null,
+        rightHandDistance: frame.rightHandDistance,
+        pose: frame.pose ? frame.pose.map((p) => ({ ...p })) : null,
+      });
+    },
+    isRecording() {
+      return startedAt !== null;
+    },
+    frameCount() {
+      return frames.length;
+    },
+  };
+}
+
+export function serializeRecording(recording: LandmarkRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parses and validates a recording file. Throws with a readable message when
+ * the file is not a recording or was written by an unsupported version.
+ */
+export function parseRecording(json: string): LandmarkRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Recording file is not valid JSON');
+  }
+
+  const rec = data as Partial<LandmarkRecording> | null;
+  if (!rec || typeof rec !== 'object' || rec.format !== LANDMARK_RECORDING_FORMAT) {
+    throw new Error('File is not a landmark recording');
+  }
+  if (rec.version !== LANDMARK_RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${String(rec.version)}`);
+  }
+  if (!Array.isArray(rec.frames)) {
+    throw new Error('Recording has no frames');
+  }
+
+  const frames = rec.frames
+    .filter((f): f is RecordedFrame => !!f && typeof f.t === 'number' && Array.isArray(f.hands))
+    .map((f) => ({
+      t: f.t,
+      hands: f.hands,
+      pinchVector: f.pinchVector ?? null,
+      rightHandDistance: typeof f.rightHandDistance === 'number' ? f.rightHandDistance : null,
+      pose: Array.isArray(f.pose) ? f.pose : null,
+    }))
+    .sort((a, b) => a.t - b.t);
+
+  return {
+    format: LANDMARK_RECORDING_FORMAT,
+    version: LANDMARK_RECORDING_VERSION,
+    createdAt: typeof rec.createdAt === 'number' ? rec.createdAt : 0,
+    durationMs: frames.length ? frames[frames.length - 1]!.t : 0,
+    frames,
+  };
+}
+
+/**
+ * Returns the index of the last frame at or before `timeMs` (binary search).
+ * Returns -1 when `timeMs` is before the first frame or there are no frames.
+ */
+export function getFrameIndexAtTime(recording: LandmarkRecording, timeMs: number): number {
+  const { frames } = recording;
+  let lo = 0;
+  let hi = frames.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid]!.t <= timeMs) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+export function getFrameAtTime(recording: LandmarkRecording, timeMs: number): RecordedFrame | null {
+  const index = getFrameIndexAtTime(recording, timeMs);
+  return index >= 0 ? recording.frames[index]! : null;
+}
+
+/**
+ * Advances a playhead by `deltaMs * speed`.
+ * With `loop`, wraps around the duration; otherwise clamps and reports `ended`.
+ */
+export function advancePlayhead(args: {
+  positionMs: number;
+  deltaMs: number;
+  speed: number;
+  durationMs: number;
+  loop: boolean;
+}): { positionMs: number; ended: boolean } {
+  const { positionMs, deltaMs, speed, durationMs, loop } = args;
+  if (durationMs <= 0) return { positionMs: 0, ended: true };
+
+  const next = positionMs + deltaMs * speed;
+  if (next > durationMs) {
+    if (loop) return { positionMs: next % durationMs, ended: false };
+    return { positionMs: durationMs, ended: true };
+  }
+  if (next < 0) {
+    if (loop) return { positionMs: durationMs + (next % durationMs), ended: false };
+    return { positionMs: 0, ended: true };
+  }
+  return { positionMs: next, ended: false };
+}
@@ -0,0 +1,416 @@
+import { AUDIO_MAX_BPM, AUDIO_MIN_BPM, type AudioFeatures } from '@/lib/audioAnalysis';
+import type { Hand3DData } from './HandTracking';
+import { getPalmCenter } from './gestures';
+import { calculateDistance, DEFAULT_PINCH_THRESHOLD, INDEX_FINGER_TIP, THUMB_TIP } from './pinchMath';
+import type { TrackingFrame } from './trackingSources';
+
+/**
+ * Modulation matrix: routes tracked signals to numeric visual controls.
+ *
+ * Every signal is read from a `TrackingFrame` (or, for audio signals, from
+ * the latest `AudioFeatures`, see `lib/audioAnalysis.ts`) and normalized to 0..1. A
+ * `ModulationMapping` then shapes it (invert, curve, smoothing), scales it
+ * into the control's [min, max] range and optionally snaps it to a step.
+ * `createModulationEngine()` evaluates a list of mappings once per frame and
+ * returns the modulated control values (see `hooks/useModulation.ts`).
+ */
+
+export type ModulationSignal =
+  | 'pinchStrength'
+  | 'otherHandPinch'
+  | 'handHeight'
+  | 'palmRotation'
+  | 'handSpread'
+  | 'handVelocity'
+  | 'audioLevel'
+  | 'audioBass'
+  | 'audioMid'
+  | 'audioTreble'
+  | 'audioBeat'
+  | 'audioTempo';
+
+export const MODULATION_SIGNALS: ModulationSignal[] = [
+  'pinchStrength',
+  'otherHandPinch',
+  'handHeight',
+  'palmRotation',
+  'handSpread',
+  'handVelocity',
+  'audioLevel',
+  'audioBass',
+  'audioMid',
+  'audioTreble',
+  'audioBeat',
+  'audioTempo',
+];
+
+export const MODULATION_SIGNAL_LABELS: Record<ModulationSignal, string> = {
+  pinchStrength: 'Pinch strength',
+  otherHandPinch: 'Other-hand pinch distance',
+  handHeight: 'Hand height',
+  palmRotation: 'Palm rotation',
+  handSpread: 'Spread between hands',
+  handVelocity: 'Hand velocity',
+  audioLevel: 'Audio level',
+  audioBass: 'Audio bass',
+  audioMid: 'Audio mids',
+  audioTreble: 'Audio treble',
+  audioBeat: 'Audio beat pulse',
+  audioTempo: `Audio tempo (${AUDIO_MIN_BPM}-${AUDIO_MAX_BPM} BPM)`,
+};
+
+/** Signals read from a single hand (the others use the whole frame). */
+export const PER_HAND_SIGNALS: ModulationSignal[] = ['pinchStrength', 'handHeight', 'palmRotation', 'handVelocity'];
+
+/** Signals read from the audio input instead of the frame. */
+export const AUDIO_SIGNALS: ModulationSignal[] = ['audioLevel', 'audioBass', 'audioMid', 'audioTreble', 'audioBeat', 'audioTempo'];
+
+/** Which hand a per-hand signal reads: the first tracked hand, or a specific handedness. */
+export type ModulationHand = 'any' | 'Left' | 'Right';
+
+export const MODULATION_HANDS: ModulationHand[] = ['any', 'Left', 'Right'];
+
+export type ModulationCurve = 'linear' | 'easeIn' | 'easeOut' | 'sCurve';
+
+export const MODULATION_CURVES: ModulationCurve[] = ['linear', 'easeIn', 'easeOut', 'sCurve'];
+
+export const MODULATION_CURVE_LABELS: Record<ModulationCurve, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease in',
+  easeOut: 'Ease out',
+  sCurve: 'S-curve',
+};
+
+export interface ModulationMapping {
+  id: string;
+  enabled: boolean;
+  signal: ModulationSignal;
+  hand: ModulationHand;
+  /** Control key, e.g. `orbitStrength` or `nodesPerOrbit`. */
+  target: string;
+  /** Output range: signal 0 maps to `min`, 1 maps to `max`. */
+  min: number;
+  max: number;
+  curve: ModulationCurve;
+  /** Time constant of the exponential smoothing (0 = none). */
+  smoothingMs: number;
+  invert: boolean;
+  /** Snap the output to multiples of `step` above `min` (0 = continuous). */
+  step: number;
+}
+
+/** Modulated control values keyed by control name. */
+export type ModulationValues = Record<string, number>;
+
+// Normalization ranges (normalized image units, units/s for velocity)
+const PINCH_OPEN_DISTANCE = 0.25;
+const MAX_HAND_SPREAD = 0.8;
+const MAX_HAND_SPEED = 2;
+const MIDDLE_FINGER_MCP = 9;
+const PALM_LANDMARKS = [0, 5, 9, 13, 17];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export function applyModulationCurve(value: number, curve: ModulationCurve): number {
+  const v = clamp01(value);
+  switch (curve) {
+    case 'easeIn':
+      return v * v;
+    case 'easeOut':
+      return 1 - (1 - v) * (1 - v);
+    case 'sCurve':
+      return v * v * (3 - 2 * v);
+    default:
+      return v;
+  }
+}
+
+function selectHand(hands: Hand3DData[], hand: ModulationHand): Hand3DData | null {
+  if (hand === 'any') return hands[0] ?? null;
+  return hands.find((h) => h.handedness === hand) ?? null;
+}
+
+/** Mean palm speed (normalized units/s) from the landmark filter's velocities, if present. */
+function palmSpeedFromVelocities(hand: Hand3DData): number | null {
+  if (!hand.velocities) return null;
+  let vx = 0;
+  let vy = 0;
+  let count = 0;
+  for (const index of PALM_LANDMARKS) {
+    const v = hand.velocities[index];
+    if (!v) continue;
+    vx += v.x;
+    vy += v.y;
+    count++;
+  }
+  return count > 0 ? Math.hypot(vx / count, vy / count) : null;
+}
+
+/**
+ * Reads one signal from a frame, normalized to 0..1, or null when it isn't
+ * available (e.g. no matching hand). `palmSpeed` supplies hand velocity when
+ * the hands carry no filter velocities.
+ */
+export function readModulationSignal(
+  frame: TrackingFrame,
+  signal: ModulationSignal,
+  hand: ModulationHand = 'any',
+  palmSpeed: (hand: Hand3DData) => number | null = palmSpeedFromVelocities
+): number | null {
+  if (signal === 'otherHandPinch') {
+    return frame.rightHandDistance === null ? null : clamp01(frame.rightHandDistance / PINCH_OPEN_DISTANCE);
+  }
+  if (signal === 'handSpread') {
+    const [a, b] = frame.hands;
+    if (!a || !b) return null;
+    const pa = getPalmCenter(a.landmarks);
+    const pb = getPalmCenter(b.landmarks);
+    return clamp01(Math.hypot(pa.x - pb.x, pa.y - pb.y) / MAX_HAND_SPREAD);
+  }
+
+  const selected = selectHand(frame.hands, hand);
+  if (!selected) return null;
+  const lm = selected.landmarks;
+
+  switch (signal) {
+    case 'pinchStrength': {
+      const thumb = lm[THUMB_TIP];
+      const index = lm[INDEX_FINGER_TIP];
+      if (!thumb || !index) return null;
+      const distance = calculateDistance(thumb, index);
+      return 1 - clamp01((distance - DEFAULT_PINCH_THRESHOLD) / (PINCH_OPEN_DISTANCE - DEFAULT_PINCH_THRESHOLD));
+    }
+    case 'handHeight':
+      return clamp01(1 - getPalmCenter(lm).y);
+    case 'palmRotation': {
+      const wrist = lm[0];
+      const mcp = lm[MIDDLE_FINGER_MCP];
+      if (!wrist || !mcp) return null;
+      // Roll of the wrist→middle-knuckle axis as seen on the mirrored feed: 0.5 upright, 0/1 pointing down
+      const angle = Math.atan2(-(mcp.x - wrist.x), -(mcp.y - wrist.y));
+      return clamp01((angle / Math.PI + 1) / 2);
+    }
+    case 'handVelocity': {
+      const speed = palmSpeed(selected);
+      return speed === null ? null : clamp01(speed / MAX_HAND_SPEED);
+    }
+    default:
+      return null;
+  }
+}
+
+/** Reads an audio signal, normalized to 0..1, or null without audio input (or before a tempo is found). */
+export function readAudioModulationSignal(audio: AudioFeatures | null, signal: ModulationSignal): number | null {
+  if (!audio) return null;
+  switch (signal) {
+    case 'audioLevel':
+      return audio.level;
+    case 'audioBass':
+      return audio.bass;
+    case 'audioMid':
+      return audio.mid;
+    case 'audioTreble':
+      return audio.treble;
+    case 'audioBeat':
+      return audio.beatPulse;
+    case 'audioTempo':
+      return audio.bpm === null ? null : clamp01((audio.bpm - AUDIO_MIN_BPM) / (AUDIO_MAX_BPM - AUDIO_MIN_BPM));
+    default:
+      return null;
+  }
+}
+
+/** Scales a shaped 0..1 value into the mapping's output range. */
+export function mapModulationOutput(value: number, mapping: Pick<ModulationMapping, 'min' | 'max' | 'step'>): number {
+  const out = mapping.min + clamp01(value) * (mapping.max - mapping.min);
+  if (mapping.step > 0) return mapping.min + Math.round((out - mapping.min) / mapping.step) * mapping.step;
+  return out;
+}
+
+export interface ModulationEngine {
+  /**
+   * Evaluates enabled mappings against a frame and the latest audio
+   * features. Later mappings win when several target the same control. A
+   * mapping whose signal is unavailable holds its last value.
+   */
+  update: (frame: TrackingFrame, mappings: ModulationMapping[], audio?: AudioFeatures | null) => ModulationValues;
+  reset: () => void;
+}
+
+interface MappingState {
+  value: number;
+  timestamp: number;
+}
+
+interface PalmSample {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+const handKey = (hand: Hand3DData, index: number) => (hand.id !== undefined ? `id:${hand.id}` : `${hand.handedness}:${index}`);
+
+export function createModulationEngine(): ModulationEngine {
+  let states = new Map<string, MappingState>();
+  let palms = new Map<string, PalmSample>();
+  let speeds = new Map<Hand3DData, number>();
+  let lastTimestamp = -Infinity;
+
+  // Palm speed from consecutive frames, for hands without filter velocities
+  function trackPalms(frame: TrackingFrame) {
+    const nextPalms = new Map<string, PalmSample>();
+    speeds = new Map();
+    frame.hands.forEach((hand, index) => {
+      const key = handKey(hand, index);
+      const palm = getPalmCenter(hand.landmarks);
+      const previous = palms.get(key);
+      const dt = previous ? (frame.timestamp - previous.timestamp) / 1000 : 0;
+      if (previous && dt > 0) speeds.set(hand, Math.hypot(palm.x - previous.x, palm.y - previous.y) / dt);
+      nextPalms.set(key, dt > 0 || !previous ? { ...palm, timestamp: frame.timestamp } : previous);
+    });
+    palms = nextPalms;
+  }
+
+  const palmSpeed = (hand: Hand3DData) => palmSpeedFromVelocities(hand) ?? speeds.get(hand) ?? null;
+
+  return {
+    update(frame, mappings, audio = null) {
+      // Time went backwards (e.g. a replay looped): drop smoothing history
+      if (frame.timestamp < lastTimestamp) {
+        states = new Map();
+        palms = new Map();
+      }
+      if (frame.timestamp !== lastTimestamp) trackPalms(frame);
+      lastTimestamp = frame.timestamp;
+
+      const values: ModulationValues = {};
+      const nextStates = new Map<string, MappingState>();
+      for (const mapping of mappings) {
+        if (!mapping.enabled || !mapping.target) continue;
+        const previous = states.get(mapping.id);
+        const isAudio = AUDIO_SIGNALS.includes(mapping.signal);
+        const raw = isAudio
+          ? readAudioModulationSignal(audio, mapping.signal)
+          : readModulationSignal(frame, mapping.signal, mapping.hand, palmSpeed);
+        // Audio signals are smoothed on the audio clock
+        const timestamp = isAudio && audio ? audio.time : frame.timestamp;
+
+        let state = previous;
+        if (raw !== null) {
+          const shaped = applyModulationCurve(mapping.invert ? 1 - raw : raw, mapping.curve);
+          const dt = previous ? timestamp - previous.timestamp : 0;
+          // A new audio source restarts its clock: jump instead of smoothing
+          const alpha = previous && dt >= 0 && mapping.smoothingMs > 0 ? 1 - Math.exp(-dt / mapping.smoothingMs) : 1;
+          state = { value: previous ? previous.value + (shaped - previous.value) * alpha : shaped, timestamp };
+        }
+        if (!state) continue;
+        nextStates.set(mapping.id, state);
+        values[mapping.target] = mapModulationOutput(state.value, mapping);
+      }
+      states = nextStates;
+      return values;
+    },
+    reset() {
+      states = new Map();
+      palms = new Map();
+      speeds = new Map();
+      lastTimestamp = -Infinity;
+    },
+  };
+}
+
+/**
+ * Returns `controls` with modulated values applied to its numeric keys (the
+ * same object when nothing changes).
+ */
+export function applyModulation<T extends object>(controls: T, values: ModulationValues): T {
+  let next: T | null = null;
+  for (const [key, value] of Object.entries(values)) {
+    const current = (controls as Record<string, unknown>)[key];
+    if (typeof current !== 'number' || current === value) continue;
+    if (!next) next = { ...controls };
+    (next as Record<string, unknown>)[key] = value;
+  }
+  return next ?? controls;
+}
+
+/** Numeric control keys of a controls object, in declaration order. */
+export function getModulationTargets(controls: object): string[] {
+  return Object.entries(controls)
+    .filter(([, value]) => typeof value === 'number')
+    .map(([key]) => key);
+}
+
+export function createModulationMapping(target: string, overrides: Partial<Omit<ModulationMapping, 'id'>> = {}): ModulationMapping {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    enabled: true,
+    signal: 'pinchStrength',
+    hand: 'any',
+    target,
+    min: 0,
+    max: 1,
+    curve: 'linear',
+    smoothingMs: 100,
+    invert: false,
+    step: 0,
+    ...overrides,
+  };
+}
+
+/** PinchControlled3D: the other hand's thumb-index distance (0-0.25) drives 3-10 nodes per orbit. */
+export const NODES_PER_ORBIT_MAPPING: ModulationMapping = {
+  id: 'nodes-per-orbit',
+  enabled: true,
+  signal: 'otherHandPinch',
+  hand: 'any',
+  target: 'nodesPerOrbit',
+  min: 3,
+  max: 10,
+  curve: 'linear',
+  smoothingMs: 0,
+  invert: false,
+  step: 1,
+};
+
+const NO_MAPPINGS: ModulationMapping[] = [];
+
+const DEFAULT_MAPPINGS_BY_COMPONENT: Record<string, ModulationMapping[]> = {
+  PinchControlled3D: [NODES_PER_ORBIT_MAPPING],
+};
+
+/** Mappings a visual starts with before the user edits its matrix (keyed by visual component). */
+export function getDefaultModulationMappings(component: string | undefined): ModulationMapping[] {
+  return (component && DEFAULT_MAPPINGS_BY_COMPONENT[component]) || NO_MAPPINGS;
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/** Validates stored/imported mappings, dropping entries that can't be repaired. */
+export function normalizeModulationMappings(value: unknown): ModulationMapping[] {
+  if (!Array.isArray(value)) return [];
+  const mappings: ModulationMapping[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const m = entry as Record<string, unknown>;
+    if (typeof m.id !== 'string' || typeof m.target !== 'string' || !isOneOf(MODULATION_SIGNALS, m.signal)) continue;
+    mappings.push({
+      id: m.id,
+      enabled: m.enabled !== false,
+      signal: m.signal,
+      hand: isOneOf(MODULATION_HANDS, m.hand) ? m.hand : 'any',
+      target: m.target,
+      min: finiteOr(m.min, 0),
+      max: finiteOr(m.max, 1),
+      curve: isOneOf(MODULATION_CURVES, m.curve) ? m.curve : 'linear',
+      smoothingMs: Math.max(0, finiteOr(m.smoothingMs, 0)),
+      invert: m.invert === true,
+      step: Math.max(0, finiteOr(m.step, 0)),
+    });
+  }
+  return mappings;
+}
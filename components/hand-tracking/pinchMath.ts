@@ -0,0 +1,148 @@
+import type { Hand3DData, PinchVector } from './HandTracking';
+
+// MediaPipe hand landmark indices
+export const THUMB_TIP = 4;
+export const INDEX_FINGER_TIP = 8;
+export const MIDDLE_FINGER_TIP = 12;
+export const RING_FINGER_TIP = 16;
+export const PINKY_TIP = 20;
+
+export const DEFAULT_PINCH_THRESHOLD = 0.05;
+
+interface LandmarkLike {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+// Calculate 3D distance between two landmarks
+export const calculateDistance = (point1: LandmarkLike, point2: LandmarkLike): number => {
+  const dx = point1.x - point2.x;
+  const dy = point1.y - point2.y;
+  const dz = (point1.z || 0) - (point2.z || 0);
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+};
+
+// Calculate pinch vector (position and direction)
+// Coordinates are in center-origin system: (0,0) is at center, range is -0.5 to 0.5
+export const calculatePinchVector = (thumbTip: LandmarkLike, indexTip: LandmarkLike): PinchVector => {
+  // Position: midpoint between thumb and index finger (normalized 0-1, top-left origin)
+  const xNormalized = (thumbTip.x + indexTip.x) / 2;
+  const yNormalized = (thumbTip.y + indexTip.y) / 2;
+
+  // Convert to center-origin: (0,0) at center, range -0.5 to 0.5
+  const x = xNormalized - 0.5;
+  const y = yNormalized - 0.5;
+
+  // Direction vector: from thumb to index finger (normalized)
+  const dx = indexTip.x - thumbTip.x;
+  const dy = indexTip.y - thumbTip.y;
+  const magnitude = Math.sqrt(dx * dx + dy * dy);
+
+  // Normalize direction vector
+  const normalizedDx = magnitude > 0 ? dx / magnitude : 0;
+  const normalizedDy = magnitude > 0 ? dy / magnitude : 0;
+
+  return {
+    x,
+    y,
+    dx: normalizedDx,
+    dy: normalizedDy,
+  };
+};
+
+// Detect pinch gesture (thumb and index finger close together)
+export const detectPinch = (
+  landmarks: LandmarkLike[],
+  threshold: number = DEFAULT_PINCH_THRESHOLD
+): {
+  isPinching: boolean;
+  distance: number;
+  pinchStrength: number;
+  vector?: PinchVector;
+} => {
+  if (!landmarks || landmarks.length < 21) {
+    return { isPinching: false, distance: Infinity, pinchStrength: 0 };
+  }
+
+  const thumbTip = landmarks[THUMB_TIP];
+  const indexTip = landmarks[INDEX_FINGER_TIP];
+
+  if (!thumbTip || !indexTip) {
+    return { isPinching: false, distance: Infinity, pinchStrength: 0 };
+  }
+
+  const distance = calculateDistance(thumbTip, indexTip);
+  const isPinching = distance < threshold;
+
+  // Pinch strength: 0 (far apart) to 1 (touching)
+  // Normalize based on threshold (closer = stronger)
+  const pinchStrength = Math.max(0, Math.min(1, 1 - distance / threshold));
+
+  // Calculate vector when pinching
+  const vector = isPinching ? calculatePinchVector(thumbTip, indexTip) : undefined;
+
+  return { isPinching, distance, pinchStrength, vector };
+};
+
+/**
+ * Picks the hand that drives pinch control and the "other" hand whose
+ * thumb-index distance drives secondary parameters.
+ * Control hand is Right (or Left when `leftHanded`), falling back to the first hand.
+ */
+export function selectControlHands<T extends { handedness: string }>(
+  hands: T[],
+  leftHanded: boolean
+): { controlHand: T | undefined; otherHand: T | undefined } {
+  const controlHandType = leftHanded ? 'Left' : 'Right';
+  const otherHandType = leftHanded ? 'Right' : 'Left';
+
+  // Use control hand if found, otherwise fallback to first hand so control always works
+  const controlHand = hands.find((hand) => hand.handedness === controlHandType) || hands[0];
+
+  let otherHand = hands.find((hand) => hand.handedness === otherHandType);
+  // Fallback: with 2 hands (e.g. handedness Unknown) the one that isn't controlling
+  if (!otherHand && hands.length === 2 && controlHand) {
+    otherHand = hands.find((hand) => hand !== controlHand);
+  }
+
+  return { controlHand, otherHand };
+}
+
+/**
+ * Derives the pinch vector (x mirrored to match the mirrored camera preview)
+ * and the other hand's thumb-index distance from a set of hands.
+ * Used by tracking sources that don't run `HandTracking` (synthetic, remote).
+ */
+export function derivePinchSignals(
+  hands: Hand3DData[],
+  leftHanded = false
+): { pinchVector: PinchVector | null; rightHandDistance: number | null } {
+  const { controlHand, otherHand } = selectControlHands(hands, leftHanded);
+
+  let pinchVector: PinchVector | null = null;
+  if (controlHand) {
+    const pinch = detectPinch(controlHand.landmarks);
+    if (pinch.vector) {
+      pinchVector = { ...pinch.vector, x: -pinch.vector.x, dx: -pinch.vector.dx };
+    }
+  }
+
+  let rightHandDistance: number | null = null;
+  const thumbTip = otherHand?.landmarks[THUMB_TIP];
+  const indexTip = otherHand?.landmarks[INDEX_FINGER_TIP];
+  if (thumbTip && indexTip) {
+    rightHandDistance = calculateDistance(thumbTip, indexTip);
+  }
+
+  return { pinchVector, rightHandDistance };
+}
+
+/**
+ * Maps the other hand's thumb-index distance to PinchControlled3D nodes per orbit.
+ * Distance 0-0.25 (clamped) maps to 3-10 nodes; larger distance = more nodes.
+ */
+export function mapDistanceToNodesPerOrbit(distance: number, minNodes = 3, maxNodes = 10): number {
+  const clampedDistance = Math.min(0.25, Math.max(0, distance));
+  return Math.round(minNodes + (clampedDistance / 0.25) * (maxNodes - minNodes));
+}
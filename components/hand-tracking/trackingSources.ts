@@ -0,0 +1,433 @@
+import type { RemoteConnectionStatus } from '@/lib/remoteControl';
+import type { FaceLandmarkPoint, Hand3DData, HandTrackingFrame, PinchVector, PoseLandmarkPoint } from './HandTracking';
+import { advancePlayhead, getFrameIndexAtTime, type LandmarkRecording } from './landmarkRecording';
+import { derivePinchSignals } from './pinchMath';
+
+/**
+ * Tracking sources.
+ *
+ * A `TrackingSource` emits a stream of `TrackingFrame`s (hands, pose, face,
+ * pinch and timestamps). Visuals consume frames through
+ * `TrackingSourceProvider` and don't care whether they come from the webcam,
+ * a recorded session, a synthetic generator or a remote feed.
+ */
+
+export interface TrackingFrame {
+  timestamp: number; // ms, monotonic within a source (performance.now() or playhead position)
+  hands: Hand3DData[];
+  pose: PoseLandmarkPoint[] | null;
+  face: FaceLandmarkPoint[] | null;
+  pinchVector: PinchVector | null;
+  rightHandDistance: number | null; // thumb-index distance of the non-control hand
+}
+
+export type TrackingSourceKind = 'live' | 'recording' | 'synthetic' | 'remote';
+
+export const TRACKING_SOURCE_KINDS: TrackingSourceKind[] = ['live', 'recording', 'synthetic', 'remote'];
+
+export const TRACKING_SOURCE_LABELS: Record<TrackingSourceKind, string> = {
+  live: 'Live webcam',
+  recording: 'Recorded session',
+  synthetic: 'Synthetic hands',
+  remote: 'Remote feed',
+};
+
+export type TrackingFrameListener = (frame: TrackingFrame) => void;
+
+export interface TrackingSource {
+  kind: TrackingSourceKind;
+  start: () => void;
+  stop: () => void;
+  /** Registers a listener for new frames. Returns an unsubscribe function. */
+  subscribe: (listener: TrackingFrameListener) => () => void;
+  getLatestFrame: () => TrackingFrame | null;
+}
+
+export interface LiveTrackingSource extends TrackingSource {
+  kind: 'live';
+  /** Called with each processed `HandTracking` frame (wire to `onTrackingFrame`). */
+  push: (frame: HandTrackingFrame, timestamp?: number) => void;
+}
+
+export interface RecordedTrackingSource extends TrackingSource {
+  kind: 'recording';
+  recording: LandmarkRecording;
+  /** Advances the playhead; called by the internal timer, exposed for tests. */
+  tick: (deltaMs: number) => void;
+}
+
+export interface RemoteTrackingSource extends TrackingSource {
+  kind: 'remote';
+  url: string;
+  getStatus: () => RemoteConnectionStatus;
+}
+
+export const EMPTY_TRACKING_FRAME: TrackingFrame = {
+  timestamp: 0,
+  hands: [],
+  pose: null,
+  face: null,
+  pinchVector: null,
+  rightHandDistance: null,
+};
+
+const clock = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+/** Listener bookkeeping shared by all source implementations. */
+function createFrameEmitter() {
+  const listeners = new Set<TrackingFrameListener>();
+  let latest: TrackingFrame | null = null;
+
+  return {
+    emit(frame: TrackingFrame) {
+      latest = frame;
+      listeners.forEach((listener) => listener(frame));
+    },
+    subscribe(listener: TrackingFrameListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getLatestFrame() {
+      return latest;
+    },
+  };
+}
+
+/**
+ * Live MediaPipe webcam source. `HandTracking` owns the camera; this source
+ * simply re-emits what it reports via `push`. Frames pushed while stopped are dropped.
+ */
+export function createLiveTrackingSource(): LiveTrackingSource {
+  const emitter = createFrameEmitter();
+  let running = true;
+
+  return {
+    kind: 'live',
+    start() {
+      running = true;
+    },
+    stop() {
+      running = false;
+    },
+    subscribe: emitter.subscribe,
+    getLatestFrame: emitter.getLatestFrame,
+    push(frame, timestamp = clock()) {
+      if (!running) return;
+      emitter.emit({
+        timestamp,
+        hands: frame.hands,
+        pose: frame.pose,
+        face: frame.face ?? null,
+        pinchVector: frame.pinchVector,
+        rightHandDistance: frame.rightHandDistance,
+      });
+    },
+  };
+}
+
+/**
+ * Replays a `LandmarkRecording` on a timer. Frames are only emitted when the
+ * playhead crosses into a new recorded frame.
+ */
+export function createRecordedTrackingSource(
+  recording: LandmarkRecording,
+  options: { loop?: boolean; speed?: number; intervalMs?: number } = {}
+): RecordedTrackingSource {
+  const { loop = true, speed = 1, intervalMs = 16 } = options;
+  const emitter = createFrameEmitter();
+  let positionMs = 0;
+  let lastIndex = -1;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let lastTickAt = 0;
+
+  const emitAt = (timeMs: number) => {
+    const index = getFrameIndexAtTime(recording, timeMs);
+    if (index === lastIndex) return;
+    lastIndex = index;
+    const frame = index >= 0 ? recording.frames[index]! : null;
+    emitter.emit(
+      frame
+        ? {
+            timestamp: frame.t,
+            hands: frame.hands,
+            pose: frame.pose,
+            face: null,
+            pinchVector: frame.pinchVector,
+            rightHandDistance: frame.rightHandDistance,
+          }
+        : { ...EMPTY_TRACKING_FRAME, timestamp: timeMs }
+    );
+  };
+
+  const tick = (deltaMs: number) => {
+    const next = advancePlayhead({ positionMs, deltaMs, speed, durationMs: recording.durationMs, loop });
+    // Wrapped around: make sure the first frame is re-emitted
+    if (next.positionMs < positionMs) lastIndex = -1;
+    positionMs = next.positionMs;
+    emitAt(positionMs);
+    if (next.ended && timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  return {
+    kind: 'recording',
+    recording,
+    start() {
+      if (timer !== null) return;
+      if (positionMs >= recording.durationMs && !loop) positionMs = 0;
+      lastTickAt = clock();
+      emitAt(positionMs);
+      timer = setInterval(() => {
+        const now = clock();
+        tick(now - lastTickAt);
+        lastTickAt = now;
+      }, intervalMs);
+    },
+    stop() {
+      if (timer !== null) clearInterval(timer);
+      timer = null;
+    },
+    subscribe: emitter.subscribe,
+    getLatestFrame: emitter.getLatestFrame,
+    tick,
+  };
+}
+
+// Open right hand (as seen by the camera) relative to the wrist, ~0.2 tall in normalized image units.
+const SYNTHETIC_HAND_TEMPLATE: Array<[number, number]> = [
+  [0, 0],
+  // Thumb
+  [-0.03, -0.03], [-0.055, -0.06], [-0.075, -0.085], [-0.09, -0.105],
+  // Index finger
+  [-0.03, -0.1], [-0.035, -0.14], [-0.038, -0.165], [-0.04, -0.19],
+  // Middle finger
+  [0, -0.105], [0, -0.15], [0, -0.178], [0, -0.2],
+  // Ring finger
+  [0.025, -0.1], [0.028, -0.14], [0.03, -0.163], [0.032, -0.185],
+  // Pinky
+  [0.048, -0.09], [0.055, -0.12], [0.06, -0.138], [0.064, -0.155],
+];
+
+const smoothstep = (t: number) => {
+  const c = Math.max(0, Math.min(1, t));
+  return c * c * (3 - 2 * c);
+};
+
+function syntheticHand(handedness: 'Left' | 'Right', centerX: number, centerY: number, pinchAmount: number): Hand3DData {
+  const mirror = handedness === 'Left' ? -1 : 1;
+  const points = SYNTHETIC_HAND_TEMPLATE.map(([x, y]) => ({ x: x * mirror, y }));
+
+  // Pull the thumb and index tips towards each other to form a pinch
+  const thumb = points[4]!;
+  const index = points[8]!;
+  const mid = { x: (thumb.x + index.x) / 2, y: (thumb.y + index.y) / 2 };
+  for (const [tip, weight] of [[4, 1], [8, 1], [3, 0.5], [7, 0.5]] as const) {
+    const p = points[tip]!;
+    p.x += (mid.x - p.x) * pinchAmount * weight;
+    p.y += (mid.y - p.y) * pinchAmount * weight;
+  }
+
+  return {
+    handedness,
+    landmarks: points.map((p, i) => ({
+      x: centerX + p.x,
+      y: centerY + p.y + 0.1,
+      z: -0.002 * i,
+    })),
+  };
+}
+
+/**
+ * Procedural hands for working without a camera: hands drift on slow
+ * Lissajous paths and periodically pinch. Pure, so it is deterministic for tests.
+ */
+export function generateSyntheticHands(timeMs: number, handCount = 2): Hand3DData[] {
+  const t = timeMs / 1000;
+  const hands: Hand3DData[] = [];
+  if (handCount >= 1) {
+    hands.push(
+      syntheticHand(
+        'Right',
+        0.35 + 0.12 * Math.sin(t * 0.6),
+        0.5 + 0.08 * Math.sin(t * 0.9),
+        smoothstep(Math.sin(t * 1.3) * 1.5)
+      )
+    );
+  }
+  if (handCount >= 2) {
+    hands.push(
+      syntheticHand(
+        'Left',
+        0.65 + 0.1 * Math.sin(t * 0.5 + 1),
+        0.5 + 0.1 * Math.cos(t * 0.7),
+        (Math.sin(t * 0.4) + 1) / 2
+      )
+    );
+  }
+  return hands;
+}
+
+export function createSyntheticTrackingSource(options: { fps?: number; handCount?: number } = {}): TrackingSource {
+  const { fps = 30, handCount = 2 } = options;
+  const emitter = createFrameEmitter();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let startedAt = 0;
+
+  const emitNow = () => {
+    const timestamp = clock() - startedAt;
+    const hands = generateSyntheticHands(timestamp, handCount);
+    emitter.emit({ timestamp, hands, pose: null, face: null, ...derivePinchSignals(hands) });
+  };
+
+  return {
+    kind: 'synthetic',
+    start() {
+      if (timer !== null) return;
+      startedAt = clock();
+      emitNow();
+      timer = setInterval(emitNow, 1000 / fps);
+    },
+    stop() {
+      if (timer !== null) clearInterval(timer);
+      timer = null;
+    },
+    subscribe: emitter.subscribe,
+    getLatestFrame: emitter.getLatestFrame,
+  };
+}
+
+interface RawPoint {
+  x: number;
+  y: number;
+  z?: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isFinitePoint = (p: unknown): p is RawPoint => isRecord(p) && Number.isFinite(p.x) && Number.isFinite(p.y);
+
+const pointZ = (p: RawPoint) => (typeof p.z === 'number' && Number.isFinite(p.z) ? p.z : 0);
+
+/**
+ * Validates a frame received from a remote feed. Missing pinch data is derived
+ * from the hands. Returns null for anything that isn't a frame.
+ */
+export function parseTrackingFrame(data: unknown): TrackingFrame | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Partial<Record<keyof TrackingFrame, unknown>>;
+  if (!Array.isArray(raw.hands)) return null;
+
+  const hands = raw.hands.flatMap((h: unknown): Hand3DData[] => {
+    if (!isRecord(h) || !Array.isArray(h.landmarks)) return [];
+    const landmarks: unknown[] = h.landmarks;
+    if (!landmarks.every(isFinitePoint)) return [];
+    return [
+      {
+        handedness: h.handedness === 'Left' || h.handedness === 'Right' ? h.handedness : 'Unknown',
+        landmarks: landmarks.map((lm) => ({ x: lm.x, y: lm.y, z: pointZ(lm) })),
+      },
+    ];
+  });
+
+  const points = (value: unknown) => {
+    if (!Array.isArray(value)) return null;
+    const list: unknown[] = value;
+    return list.every(isFinitePoint) ? list.map((p) => ({ ...p, z: pointZ(p) })) : null;
+  };
+
+  const derived = derivePinchSignals(hands);
+  const pinch = raw.pinchVector as PinchVector | null | undefined;
+
+  return {
+    timestamp: typeof raw.timestamp === 'number' ? raw.timestamp : clock(),
+    hands,
+    pose: points(raw.pose),
+    face: points(raw.face),
+    pinchVector:
+      pinch === undefined
+        ? derived.pinchVector
+        : pinch && [pinch.x, pinch.y, pinch.dx, pinch.dy].every(Number.isFinite)
+          ? { x: pinch.x, y: pinch.y, dx: pinch.dx, dy: pinch.dy }
+          : null,
+    rightHandDistance:
+      raw.rightHandDistance === undefined
+        ? derived.rightHandDistance
+        : typeof raw.rightHandDistance === 'number'
+          ? raw.rightHandDistance
+          : null,
+  };
+}
+
+/**
+ * Receives frames as JSON over a WebSocket (e.g. a tracker running on another
+ * machine). Reconnects after `reconnectDelayMs` while started.
+ */
+export function createRemoteTrackingSource(
+  url: string,
+  options: { reconnectDelayMs?: number; onStatusChange?: (status: RemoteConnectionStatus) => void } = {}
+): RemoteTrackingSource {
+  const { reconnectDelayMs = 2000, onStatusChange } = options;
+  const emitter = createFrameEmitter();
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let status: RemoteConnectionStatus = 'idle';
+
+  const setStatus = (next: RemoteConnectionStatus) => {
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const connect = () => {
+    if (!running) return;
+    setStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error('Error connecting to remote tracking feed:', error);
+      setStatus('closed');
+      reconnectTimer = setTimeout(connect, reconnectDelayMs);
+      return;
+    }
+    socket.onopen = () => setStatus('open');
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      try {
+        const frame = parseTrackingFrame(JSON.parse(event.data));
+        if (frame) emitter.emit(frame);
+      } catch {
+        // ignore malformed messages
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      setStatus('closed');
+      if (running) reconnectTimer = setTimeout(connect, reconnectDelayMs);
+    };
+  };
+
+  return {
+    kind: 'remote',
+    url,
+    start() {
+      if (running) return;
+      running = true;
+      connect();
+    },
+    stop() {
+      running = false;
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      socket?.close();
+      socket = null;
+      setStatus('idle');
+    },
+    subscribe: emitter.subscribe,
+    getLatestFrame: emitter.getLatestFrame,
+    getStatus: () => status,
+  };
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { AudioFeatures } from '@/lib/audioAnalysis';
+import {
+  DEFAULT_AUDIO_INPUT_SETTINGS,
+  createAudioInput,
+  normalizeAudioInputSettings,
+  type AudioInput,
+  type AudioInputSettings,
+  type AudioInputStatus,
+} from '@/lib/audioInput';
+import { TRACKING_FRAME_UPDATE_INTERVAL } from './TrackingSourceProvider';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioInputContextValue {
+  /** Microphone / line input toggle and device (persisted). */
+  settings: AudioInputSettings;
+  setSettings: (settings: AudioInputSettings) => void;
+  /** Local file played instead of the device input while loaded (not persisted). */
+  fileName: string | null;
+  loadFile: (file: File) => void;
+  clearFile: () => void;
+  input: AudioInput;
+  status: AudioInputStatus;
+  /** Audio inputs (labels appear once microphone access was granted). */
+  devices: AudioInputDevice[];
+}
+
+const AudioInputContext = createContext<AudioInputContextValue | null>(null);
+
+const STORAGE_KEY = 'audio:input';
+
+export function AudioInputProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<AudioInputStatus>('idle');
+  const [input] = useState(() => createAudioInput({ onStatusChange: setStatus }));
+  const [settings, setSettingsState] = useState<AudioInputSettings>(DEFAULT_AUDIO_INPUT_SETTINGS);
+  const [file, setFile] = useState<File | null>(null);
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+
+  // Load from localStorage once
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setSettingsState(normalizeAudioInputSettings(JSON.parse(stored)));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
+  const setSettings = useCallback((next: AudioInputSettings) => {
+    setSettingsState(next);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  const loadFile = useCallback((next: File) => setFile(next), []);
+  const clearFile = useCallback(() => setFile(null), []);
+
+  const deviceId = settings.enabled ? settings.deviceId : null;
+  useEffect(() => {
+    if (file) input.start({ kind: 'file', file });
+    else if (deviceId !== null) input.start({ kind: 'device', deviceId });
+    else return;
+    return () => input.stop();
+  }, [input, file, deviceId]);
+
+  // Browsers start audio suspended until the page is interacted with
+  useEffect(() => {
+    if (status !== 'suspended') return;
+    const resume = () => input.resume();
+    window.addEventListener('pointerdown', resume);
+    window.addEventListener('keydown', resume);
+    return () => {
+      window.removeEventListener('pointerdown', resume);
+      window.removeEventListener('keydown', resume);
+    };
+  }, [status, input]);
+
+  // Device labels are only available once an input is running
+  useEffect(() => {
+    const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+    if (!mediaDevices?.enumerateDevices) return;
+    const refresh = () => {
+      mediaDevices
+        .enumerateDevices()
+        .then((all) =>
+          setDevices(
+            all
+              .filter((device) => device.kind === 'audioinput')
+              .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Input ${index + 1}` }))
+          )
+        )
+        .catch(() => setDevices([]));
+    };
+    refresh();
+    mediaDevices.addEventListener?.('devicechange', refresh);
+    return () => mediaDevices.removeEventListener?.('devicechange', refresh);
+  }, [status]);
+
+  const value: AudioInputContextValue = useMemo(
+    () => ({
+      settings,
+      setSettings,
+      fileName: file?.name ?? null,
+      loadFile,
+      clearFile,
+      input,
+      status,
+      devices,
+    }),
+    [settings, setSettings, file, loadFile, clearFile, input, status, devices]
+  );
+
+  return <AudioInputContext.Provider value={value}>{children}</AudioInputContext.Provider>;
+}
+
+export function useAudioInput(): AudioInputContextValue {
+  const ctx = useContext(AudioInputContext);
+  if (!ctx) {
+    throw new Error('useAudioInput must be used within AudioInputProvider');
+  }
+  return ctx;
+}
+
+/**
+ * Latest audio features as React state, throttled to `throttleMs`, or null
+ * while no input is running (audio modulation signals then hold their value).
+ */
+export function useAudioFeatures(throttleMs = TRACKING_FRAME_UPDATE_INTERVAL): AudioFeatures | null {
+  const { input, status } = useAudioInput();
+  const [features, setFeatures] = useState<AudioFeatures | null>(null);
+  const lastUpdateRef = useRef(0);
+  const running = status === 'running';
+
+  useEffect(() => {
+    if (!running) {
+      setFeatures(null);
+      return;
+    }
+    return input.subscribe((next) => {
+      const now = performance.now();
+      if (now - lastUpdateRef.current < throttleMs) return;
+      lastUpdateRef.current = now;
+      setFeatures(next);
+    });
+  }, [input, running, throttleMs]);
+
+  return features;
+}
@@ -1,27 +1,92 @@
 'use client';
 
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_LANDMARK_FILTER_SETTINGS,
+  normalizeLandmarkFilterSettings,
+  type LandmarkFilterSettings,
+} from '@/components/hand-tracking/landmarkFilter';
+import { normalizeModulationMappings, type ModulationMapping } from '@/components/hand-tracking/modulation';
+import {
+  DEFAULT_EXTERNAL_INPUT_SETTINGS,
+  normalizeExternalControlMappings,
+  type ExternalControlMapping,
+  type ExternalInputSettings,
+} from '@/lib/externalControl';
+import { DEFAULT_MIDI_OUTPUT_SETTINGS, normalizeMidiOutputSettings, type MidiOutputSettings } from '@/lib/midiOutput';
+import { DEFAULT_CAPTURE_SETTINGS, normalizeCaptureSettings, type CaptureSettings } from '@/lib/capture';
+import { DEFAULT_OSC_OUTPUT_SETTINGS, normalizeOscOutputSettings, type OscOutputSettings } from '@/lib/oscOutput';
+import { DEFAULT_MORPH_SETTINGS, normalizeMorphSettings, type MorphSettings } from '@/lib/controlMorph';
 
 type HandTrackingEnabledByVisual = Record<string, boolean>;
+type LandmarkFilterByVisual = Record<string, LandmarkFilterSettings>;
+type ModulationsByVisual = Record<string, ModulationMapping[]>;
+type ExternalMappingsByVisual = Record<string, ExternalControlMapping[]>;
 
 export interface TrackingSettingsContextValue {
   /** Global toggle for body tracking (used by any body-tracking UI/features). */
   bodyTrackingEnabled: boolean;
   setBodyTrackingEnabled: (next: boolean) => void;
 
+  /** Global toggle for face tracking (MediaPipe Face Landmarker). */
+  faceTrackingEnabled: boolean;
+  setFaceTrackingEnabled: (next: boolean) => void;
+
   /** Per-visual toggle for hand tracking (default: true). */
   isHandTrackingEnabledForVisual: (visualId: string) => boolean;
   setHandTrackingEnabledForVisual: (visualId: string, enabled: boolean) => void;
   handTrackingEnabledByVisual: HandTrackingEnabledByVisual;
+
+  /** Per-visual landmark smoothing (default: `DEFAULT_LANDMARK_FILTER_SETTINGS`). */
+  getLandmarkFilterForVisual: (visualId: string) => LandmarkFilterSettings;
+  setLandmarkFilterForVisual: (visualId: string, settings: LandmarkFilterSettings) => void;
+
+  /** Per-visual modulation matrix (null until edited: use the visual's defaults). */
+  getModulationsForVisual: (visualId: string) => ModulationMapping[] | null;
+  setModulationsForVisual: (visualId: string, mappings: ModulationMapping[]) => void;
+
+  /** Global OSC output of tracking data (see `lib/oscOutput.ts`). */
+  oscOutput: OscOutputSettings;
+  setOscOutput: (settings: OscOutputSettings) => void;
+
+  /** Global MIDI output of hand motion (see `lib/midiOutput.ts`). */
+  midiOutput: MidiOutputSettings;
+  setMidiOutput: (settings: MidiOutputSettings) => void;
+
+  /** Snapshot / recording format, resolution and picture-in-picture (see `lib/capture.ts`). */
+  capture: CaptureSettings;
+  setCapture: (settings: CaptureSettings) => void;
+
+  /** Preset morph length, easing, switch point and gestures (see `lib/controlMorph.ts`). */
+  morph: MorphSettings;
+  setMorph: (settings: MorphSettings) => void;
+
+  /** Global MIDI/OSC input toggles and per-visual MIDI/OSC → control mappings (see `lib/externalControl.ts`). */
+  externalInput: ExternalInputSettings;
+  setExternalInput: (settings: ExternalInputSettings) => void;
+  getExternalMappingsForVisual: (visualId: string) => ExternalControlMapping[];
+  setExternalMappingsForVisual: (visualId: string, mappings: ExternalControlMapping[]) => void;
 }
 
 const TrackingSettingsContext = createContext<TrackingSettingsContextValue | null>(null);
 
 const STORAGE_KEYS = {
   body: 'tracking:bodyEnabled',
+  face: 'tracking:faceEnabled',
   handsByVisual: 'tracking:handsEnabledByVisual',
+  filterByVisual: 'tracking:landmarkFilterByVisual',
+  modulationsByVisual: 'tracking:modulationsByVisual',
+  oscOutput: 'tracking:oscOutput',
+  midiOutput: 'tracking:midiOutput',
+  capture: 'tracking:capture',
+  morph: 'tracking:morph',
+  externalInput: 'tracking:externalInput',
+  externalMappingsByVisual: 'tracking:externalMappingsByVisual',
 } as const;
 
+// Stable fallback so consumers can use the mappings as an effect dependency
+const EMPTY_EXTERNAL_MAPPINGS: ExternalControlMapping[] = [];
+
 function safeParseJson<T>(value: string | null): T | null {
   if (!value) return null;
   try {
@@ -33,7 +98,16 @@ function safeParseJson<T>(value: string | null): T | null {
 
 export function TrackingSettingsProvider({ children }: { children: React.ReactNode }) {
   const [bodyTrackingEnabled, setBodyTrackingEnabledState] = useState(false);
+  const [faceTrackingEnabled, setFaceTrackingEnabledState] = useState(false);
   const [handTrackingEnabledByVisual, setHandTrackingEnabledByVisual] = useState<HandTrackingEnabledByVisual>({});
+  const [landmarkFilterByVisual, setLandmarkFilterByVisual] = useState<LandmarkFilterByVisual>({});
+  const [modulationsByVisual, setModulationsByVisual] = useState<ModulationsByVisual>({});
+  const [oscOutput, setOscOutputState] = useState<OscOutputSettings>(DEFAULT_OSC_OUTPUT_SETTINGS);
+  const [midiOutput, setMidiOutputState] = useState<MidiOutputSettings>(DEFAULT_MIDI_OUTPUT_SETTINGS);
+  const [capture, setCaptureState] = useState<CaptureSettings>(DEFAULT_CAPTURE_SETTINGS);
+  const [morph, setMorphState] = useState<MorphSettings>(DEFAULT_MORPH_SETTINGS);
+  const [externalInput, setExternalInputState] = useState<ExternalInputSettings>(DEFAULT_EXTERNAL_INPUT_SETTINGS);
+  const [externalMappingsByVisual, setExternalMappingsByVisual] = useState<ExternalMappingsByVisual>({});
 
   // Load from localStorage once
   useEffect(() => {
@@ -44,10 +118,67 @@ export function TrackingSettingsProvider({ children }: { children: React.ReactNo
       setBodyTrackingEnabledState(storedBody);
     }
 
+    const storedFace = safeParseJson<boolean>(localStorage.getItem(STORAGE_KEYS.face));
+    if (typeof storedFace === 'boolean') {
+      setFaceTrackingEnabledState(storedFace);
+    }
+
     const storedHands = safeParseJson<HandTrackingEnabledByVisual>(localStorage.getItem(STORAGE_KEYS.handsByVisual));
     if (storedHands && typeof storedHands === 'object') {
       setHandTrackingEnabledByVisual(storedHands);
     }
+
+    const storedFilters = safeParseJson<Record<string, unknown>>(localStorage.getItem(STORAGE_KEYS.filterByVisual));
+    if (storedFilters && typeof storedFilters === 'object') {
+      const filters: LandmarkFilterByVisual = {};
+      for (const [visualId, settings] of Object.entries(storedFilters)) {
+        filters[visualId] = normalizeLandmarkFilterSettings(settings);
+      }
+      setLandmarkFilterByVisual(filters);
+    }
+
+    const storedModulations = safeParseJson<Record<string, unknown>>(localStorage.getItem(STORAGE_KEYS.modulationsByVisual));
+    if (storedModulations && typeof storedModulations === 'object') {
+      const modulations: ModulationsByVisual = {};
+      for (const [visualId, mappings] of Object.entries(storedModulations)) {
+        modulations[visualId] = normalizeModulationMappings(mappings);
+      }
+      setModulationsByVisual(modulations);
+    }
+
+    const storedOsc = safeParseJson<unknown>(localStorage.getItem(STORAGE_KEYS.oscOutput));
+    if (storedOsc && typeof storedOsc === 'object') {
+      setOscOutputState(normalizeOscOutputSettings(storedOsc));
+    }
+
+    const storedMidi = safeParseJson<unknown>(localStorage.getItem(STORAGE_KEYS.midiOutput));
+    if (storedMidi && typeof storedMidi === 'object') {
+      setMidiOutputState(normalizeMidiOutputSettings(storedMidi));
+    }
+
+    const storedCapture = safeParseJson<unknown>(localStorage.getItem(STORAGE_KEYS.capture));
+    if (storedCapture && typeof storedCapture === 'object') {
+      setCaptureState(normalizeCaptureSettings(storedCapture));
+    }
+
+    const storedMorph = safeParseJson<unknown>(localStorage.getItem(STORAGE_KEYS.morph));
+    if (storedMorph && typeof storedMorph === 'object') {
+      setMorphState(normalizeMorphSettings(storedMorph));
+    }
+
+    const storedInput = safeParseJson<Partial<ExternalInputSettings>>(localStorage.getItem(STORAGE_KEYS.externalInput));
+    if (storedInput && typeof storedInput === 'object') {
+      setExternalInputState({ midi: storedInput.midi === true, osc: storedInput.osc === true });
+    }
+
+    const storedExternal = safeParseJson<Record<string, unknown>>(localStorage.getItem(STORAGE_KEYS.externalMappingsByVisual));
+    if (storedExternal && typeof storedExternal === 'object') {
+      const external: ExternalMappingsByVisual = {};
+      for (const [visualId, mappings] of Object.entries(storedExternal)) {
+        external[visualId] = normalizeExternalControlMappings(mappings);
+      }
+      setExternalMappingsByVisual(external);
+    }
   }, []);
 
   const setBodyTrackingEnabled = useCallback((next: boolean) => {
@@ -60,6 +191,16 @@ export function TrackingSettingsProvider({ children }: { children: React.ReactNo
     }
   }, []);
 
+  const setFaceTrackingEnabled = useCallback((next: boolean) => {
+    setFaceTrackingEnabledState(next);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.face, JSON.stringify(next));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
   const isHandTrackingEnabledForVisual = useCallback(
     (visualId: string) => {
       // Default is enabled unless explicitly disabled
@@ -83,20 +224,163 @@ export function TrackingSettingsProvider({ children }: { children: React.ReactNo
     });
   }, []);
 
+  const getLandmarkFilterForVisual = useCallback(
+    (visualId: string) => landmarkFilterByVisual[visualId] ?? DEFAULT_LANDMARK_FILTER_SETTINGS,
+    [landmarkFilterByVisual]
+  );
+
+  const setLandmarkFilterForVisual = useCallback((visualId: string, settings: LandmarkFilterSettings) => {
+    setLandmarkFilterByVisual((prev) => {
+      const next = { ...prev, [visualId]: settings };
+      if (typeof window !== 'undefined') {
+        try {
+          localStorage.setItem(STORAGE_KEYS.filterByVisual, JSON.stringify(next));
+        } catch {
+          // ignore
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  const getModulationsForVisual = useCallback(
+    (visualId: string) => modulationsByVisual[visualId] ?? null,
+    [modulationsByVisual]
+  );
+
+  const setModulationsForVisual = useCallback((visualId: string, mappings: ModulationMapping[]) => {
+    setModulationsByVisual((prev) => {
+      const next = { ...prev, [visualId]: mappings };
+      if (typeof window !== 'undefined') {
+        try {
+          localStorage.setItem(STORAGE_KEYS.modulationsByVisual, JSON.stringify(next));
+        } catch {
+          // ignore
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  const setOscOutput = useCallback((settings: OscOutputSettings) => {
+    setOscOutputState(settings);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.oscOutput, JSON.stringify(settings));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
+  const setMidiOutput = useCallback((settings: MidiOutputSettings) => {
+    setMidiOutputState(settings);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.midiOutput, JSON.stringify(settings));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
+  const setCapture = useCallback((settings: CaptureSettings) => {
+    setCaptureState(settings);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.capture, JSON.stringify(settings));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
+  const setMorph = useCallback((settings: MorphSettings) => {
+    setMorphState(settings);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.morph, JSON.stringify(settings));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
+  const setExternalInput = useCallback((settings: ExternalInputSettings) => {
+    setExternalInputState(settings);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.externalInput, JSON.stringify(settings));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
+  const getExternalMappingsForVisual = useCallback(
+    (visualId: string) => externalMappingsByVisual[visualId] ?? EMPTY_EXTERNAL_MAPPINGS,
+    [externalMappingsByVisual]
+  );
+
+  const setExternalMappingsForVisual = useCallback((visualId: string, mappings: ExternalControlMapping[]) => {
+    setExternalMappingsByVisual((prev) => {
+      const next = { ...prev, [visualId]: mappings };
+      if (typeof window !== 'undefined') {
+        try {
+          localStorage.setItem(STORAGE_KEYS.externalMappingsByVisual, JSON.stringify(next));
+        } catch {
+          // ignore
+        }
+      }
+      return next;
+    });
+  }, []);
+
   const value: TrackingSettingsContextValue = useMemo(
     () => ({
       bodyTrackingEnabled,
       setBodyTrackingEnabled,
+      faceTrackingEnabled,
+      setFaceTrackingEnabled,
       isHandTrackingEnabledForVisual,
       setHandTrackingEnabledForVisual,
       handTrackingEnabledByVisual,
+      getLandmarkFilterForVisual,
+      setLandmarkFilterForVisual,
+      getModulationsForVisual,
+      setModulationsForVisual,
+      oscOutput,
+      setOscOutput,
+      midiOutput,
+      setMidiOutput,
+      capture,
+      setCapture,
+      morph,
+      setMorph,
+      externalInput,
+      setExternalInput,
+      getExternalMappingsForVisual,
+      setExternalMappingsForVisual,
     }),
     [
       bodyTrackingEnabled,
       setBodyTrackingEnabled,
+      faceTrackingEnabled,
+      setFaceTrackingEnabled,
       isHandTrackingEnabledForVisual,
       setHandTrackingEnabledForVisual,
       handTrackingEnabledByVisual,
+      getLandmarkFilterForVisual,
+      setLandmarkFilterForVisual,
+      getModulationsForVisual,
+      setModulationsForVisual,
+      oscOutput,
+      setOscOutput,
+      midiOutput,
+      setMidiOutput,
+      capture,
+      setCapture,
+      morph,
+      setMorph,
+      externalInput,
+      setExternalInput,
+      getExternalMappingsForVisual,
+      setExternalMappingsForVisual,
     ]
   );
 
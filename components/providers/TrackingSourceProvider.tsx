@@ -0,0 +1,217 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { LandmarkRecording } from '@/components/hand-tracking/landmarkRecording';
+import { createHandIdentityTracker, type HandIdentityEvent } from '@/components/hand-tracking/handIdentity';
+import { createHandLandmarkFilter, type LandmarkFilterSettings } from '@/components/hand-tracking/landmarkFilter';
+import {
+  EMPTY_TRACKING_FRAME,
+  TRACKING_SOURCE_KINDS,
+  createLiveTrackingSource,
+  createRecordedTrackingSource,
+  createRemoteTrackingSource,
+  createSyntheticTrackingSource,
+  type LiveTrackingSource,
+  type TrackingFrame,
+  type TrackingSource,
+  type TrackingSourceKind,
+} from '@/components/hand-tracking/trackingSources';
+import type { RemoteConnectionStatus } from '@/lib/remoteControl';
+
+export interface TrackingSourceContextValue {
+  /** Currently selected source kind. */
+  kind: TrackingSourceKind;
+  source: TrackingSource;
+  selectSource: (kind: TrackingSourceKind) => void;
+
+  /** Always-available webcam source; `TrackingSourceFeed` pushes `HandTracking` frames into it. */
+  liveSource: LiveTrackingSource;
+
+  /** Recording replayed by the 'recording' source. Loading one selects that source. */
+  recording: LandmarkRecording | null;
+  loadRecording: (recording: LandmarkRecording) => void;
+
+  /** WebSocket URL for the 'remote' source. */
+  remoteUrl: string;
+  setRemoteUrl: (url: string) => void;
+  remoteStatus: RemoteConnectionStatus;
+}
+
+const TrackingSourceContext = createContext<TrackingSourceContextValue | null>(null);
+
+const STORAGE_KEYS = {
+  kind: 'tracking:source',
+  remoteUrl: 'tracking:remoteUrl',
+} as const;
+
+const DEFAULT_REMOTE_URL = 'ws://localhost:8765';
+
+// ~30fps React state updates (visuals read at 60fps via useFrame)
+export const TRACKING_FRAME_UPDATE_INTERVAL = 33;
+
+export function TrackingSourceProvider({ children }: { children: React.ReactNode }) {
+  const [liveSource] = useState(() => createLiveTrackingSource());
+  const [kind, setKind] = useState<TrackingSourceKind>('live');
+  const [recording, setRecording] = useState<LandmarkRecording | null>(null);
+  const [remoteUrl, setRemoteUrlState] = useState(DEFAULT_REMOTE_URL);
+  const [remoteStatus, setRemoteStatus] = useState<RemoteConnectionStatus>('idle');
+
+  // Load from localStorage once (recordings are not persisted, so fall back to live)
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    try {
+      const storedKind = localStorage.getItem(STORAGE_KEYS.kind) as TrackingSourceKind | null;
+      if (storedKind && TRACKING_SOURCE_KINDS.includes(storedKind) && storedKind !== 'recording') {
+        setKind(storedKind);
+      }
+      const storedUrl = localStorage.getItem(STORAGE_KEYS.remoteUrl);
+      if (storedUrl) setRemoteUrlState(storedUrl);
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
+  const selectSource = useCallback((next: TrackingSourceKind) => {
+    setKind(next);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.kind, next);
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  const loadRecording = useCallback(
+    (next: LandmarkRecording) => {
+      setRecording(next);
+      selectSource('recording');
+    },
+    [selectSource]
+  );
+
+  const setRemoteUrl = useCallback((url: string) => {
+    setRemoteUrlState(url);
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEYS.remoteUrl, url);
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  const source: TrackingSource = useMemo(() => {
+    switch (kind) {
+      case 'recording':
+        return recording ? createRecordedTrackingSource(recording) : liveSource;
+      case 'synthetic':
+        return createSyntheticTrackingSource();
+      case 'remote':
+        return createRemoteTrackingSource(remoteUrl, { onStatusChange: setRemoteStatus });
+      default:
+        return liveSource;
+    }
+  }, [kind, recording, remoteUrl, liveSource]);
+
+  useEffect(() => {
+    source.start();
+    return () => {
+      // The live source stays running; HandTracking only pushes while its feed is mounted
+      if (source !== liveSource) source.stop();
+    };
+  }, [source, liveSource]);
+
+  const value: TrackingSourceContextValue = useMemo(
+    () => ({
+      kind: source.kind,
+      source,
+      selectSource,
+      liveSource,
+      recording,
+      loadRecording,
+      remoteUrl,
+      setRemoteUrl,
+      remoteStatus,
+    }),
+    [source, selectSource, liveSource, recording, loadRecording, remoteUrl, setRemoteUrl, remoteStatus]
+  );
+
+  return <TrackingSourceContext.Provider value={value}>{children}</TrackingSourceContext.Provider>;
+}
+
+export function useTrackingSource(): TrackingSourceContextValue {
+  const ctx = useContext(TrackingSourceContext);
+  if (!ctx) {
+    throw new Error('useTrackingSource must be used within TrackingSourceProvider');
+  }
+  return ctx;
+}
+
+export interface TrackingFrameOptions {
+  enabled?: boolean;
+  throttleMs?: number;
+  filter?: LandmarkFilterSettings | null;
+  /** Hand enter/lost/exit events from the identity tracker (see `handIdentity.ts`). */
+  onHandEvent?: (event: HandIdentityEvent) => void;
+}
+
+/**
+ * Subscribes to the selected source and returns its latest frame as React
+ * state, throttled to `throttleMs`. Returns an empty frame while `enabled` is false.
+ *
+ * Every source frame (not just the throttled ones) runs through the hand
+ * identity tracker, so hands carry a stable `id`, and with `filter` through a
+ * landmark filter, so hands arrive smoothed and with `velocities`.
+ */
+export function useTrackingFrame(options: TrackingFrameOptions = {}): TrackingFrame {
+  const { enabled = true, throttleMs = TRACKING_FRAME_UPDATE_INTERVAL, filter: filterSettings = null } = options;
+  const { source } = useTrackingSource();
+  const [frame, setFrame] = useState<TrackingFrame>(EMPTY_TRACKING_FRAME);
+  const lastUpdateRef = useRef(0);
+  const onHandEventRef = useRef(options.onHandEvent);
+  useEffect(() => {
+    onHandEventRef.current = options.onHandEvent;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      setFrame(EMPTY_TRACKING_FRAME);
+      return;
+    }
+    const identity = createHandIdentityTracker();
+    const filter = filterSettings ? createHandLandmarkFilter(filterSettings) : null;
+    const processFrame = (next: TrackingFrame): TrackingFrame => {
+      const { hands, events } = identity.update(next.hands, next.timestamp);
+      events.forEach((event) => onHandEventRef.current?.(event));
+      return { ...next, hands: filter ? filter.apply(hands, next.timestamp) : hands };
+    };
+
+    const latest = source.getLatestFrame();
+    setFrame(latest ? processFrame(latest) : EMPTY_TRACKING_FRAME);
+
+    // Trailing update so the last frame of a burst (e.g. hands leaving) is never dropped
+    let trailing: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = source.subscribe((raw) => {
+      const next = processFrame(raw);
+      const now = performance.now();
+      const wait = throttleMs - (now - lastUpdateRef.current);
+      if (trailing !== null) clearTimeout(trailing);
+      trailing = null;
+      if (wait <= 0) {
+        lastUpdateRef.current = now;
+        setFrame(next);
+      } else {
+        trailing = setTimeout(() => {
+          trailing = null;
+          lastUpdateRef.current = performance.now();
+          setFrame(next);
+        }, wait);
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (trailing !== null) clearTimeout(trailing);
+    };
+  }, [source, enabled, throttleMs, filterSettings]);
+
+  return frame;
+}
@@ -1,31 +1,23 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef } from 'react';
+import { DrawingUtils } from '@mediapipe/tasks-vision';
 import {
   POSE_CONNECTIONS_LIST,
   HAND_CONNECTIONS_LIST,
+  FACE_CONNECTIONS,
 } from '@/lib/mediapipe';
-import { FACE_CONNECTIONS } from '@/lib/mediapipe/face';
 import type { MediaPipeResults } from '@/types/mediapipe';
 
-// Lazy load drawing utils
-const loadDrawingUtils = async () => {
-  try {
-    const module = await import('@mediapipe/drawing_utils');
-    const drawConnectors = module.drawConnectors || (module as any).default?.drawConnectors;
-    const drawLandmarks = module.drawLandmarks || (module as any).default?.drawLandmarks;
-    
-    if (!drawConnectors || !drawLandmarks) {
-      console.error('Drawing utils not found. Module keys:', Object.keys(module));
-      return { drawConnectors: null, drawLandmarks: null };
-    }
-    
-    return { drawConnectors, drawLandmarks };
-  } catch (error) {
-    console.error('Failed to load drawing utils:', error);
-    return { drawConnectors: null, drawLandmarks: null };
-  }
-};
+// DrawingUtils expects `{ start, end }` connections
+const toConnections = (list: Array<[number, number]>) => list.map(([start, end]) => ({ start, end }));
+const POSE_CONNECTIONS = toConnections(POSE_CONNECTIONS_LIST);
+const HAND_CONNECTIONS = toConnections(HAND_CONNECTIONS_LIST);
+const FACE_CONNECTION_PAIRS = toConnections(FACE_CONNECTIONS);
+
+// DrawingUtils expects NormalizedLandmark (visibility is required)
+const toNormalized = (landmarks: Array<{ x: number; y: number; z: number; visibility?: number }>) =>
+  landmarks.map((lm) => ({ x: lm.x, y: lm.y, z: lm.z, visibility: lm.visibility ?? 1 }));
 
 interface SkeletonOverlayProps {
   videoElement: HTMLVideoElement | null;
@@ -52,22 +44,10 @@ export function SkeletonOverlay({
   showFace = true,
 }: SkeletonOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const drawingUtilsRef = useRef<{ drawConnectors: any; drawLandmarks: any } | null>(null);
-  const [drawingUtilsLoaded, setDrawingUtilsLoaded] = useState(false);
-
-  // Load drawing utils on mount
-  useEffect(() => {
-    loadDrawingUtils().then((utils) => {
-      if (utils && utils.drawConnectors !== null && utils.drawLandmarks !== null) {
-        drawingUtilsRef.current = utils;
-        setDrawingUtilsLoaded(true);
-      }
-    });
-  }, []);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !videoElement || !drawingUtilsLoaded) {
+    if (!canvas || !videoElement) {
       return;
     }
 
@@ -80,34 +60,27 @@ export function SkeletonOverlay({
     canvas.width = width;
     canvas.height = height;
 
+    // DrawingUtils scales normalized (0-1) landmarks to the canvas size
+    const drawingUtils = new DrawingUtils(ctx);
+    let frameId = 0;
+
     const draw = () => {
       // Clear canvas
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-      if (!results || !drawingUtilsRef.current) {
-        requestAnimationFrame(draw);
+      if (!results) {
+        frameId = requestAnimationFrame(draw);
         return;
       }
 
-      const { drawConnectors, drawLandmarks } = drawingUtilsRef.current;
-
-      // Scale landmarks from normalized coordinates (0-1) to canvas coordinates
-      const scaleX = canvas.width;
-      const scaleY = canvas.height;
-
       // Draw pose skeleton
       if (showBody && results.pose?.poseLandmarks) {
-        const scaledLandmarks = results.pose.poseLandmarks.map((lm) => ({
-          x: lm.x * scaleX,
-          y: lm.y * scaleY,
-          z: lm.z,
-          visibility: lm.visibility,
-        }));
-        drawConnectors(ctx, scaledLandmarks, POSE_CONNECTIONS_LIST, {
+        const poseLandmarks = toNormalized(results.pose.poseLandmarks);
+        drawingUtils.drawConnectors(poseLandmarks, POSE_CONNECTIONS, {
           color: '#00FF00',
           lineWidth: 2,
         });
-        drawLandmarks(ctx, scaledLandmarks, {
+        drawingUtils.drawLandmarks(poseLandmarks, {
           color: '#00FF00',
           lineWidth: 1,
           radius: 3,
@@ -118,16 +91,12 @@ export function SkeletonOverlay({
       if (showHands && results.hands) {
         results.hands.forEach((hand, index) => {
           const color = index === 0 ? '#FF0000' : '#0000FF'; // Red for first hand, blue for second
-          const scaledLandmarks = hand.landmarks.map((lm) => ({
-            x: lm.x * scaleX,
-            y: lm.y * scaleY,
-            z: lm.z,
-          }));
-          drawConnectors(ctx, scaledLandmarks, HAND_CONNECTIONS_LIST, {
+          const handLandmarks = toNormalized(hand.landmarks);
+          drawingUtils.drawConnectors(handLandmarks, HAND_CONNECTIONS, {
             color,
             lineWidth: 2,
           });
-          drawLandmarks(ctx, scaledLandmarks, {
+          drawingUtils.drawLandmarks(handLandmarks, {
             color,
             lineWidth: 1,
             radius: 2,
@@ -135,34 +104,22 @@ export function SkeletonOverlay({
         });
       }
 
-      // Draw face mesh
+      // Draw face mesh (oval, eyes, brows, lips)
       if (showFace && results.face?.multiFaceLandmarks) {
         results.face.multiFaceLandmarks.forEach((faceLandmarks) => {
-          const scaledLandmarks = faceLandmarks.map((lm) => ({
-            x: lm.x * scaleX,
-            y: lm.y * scaleY,
-            z: lm.z,
-          }));
-          // Draw face landmarks as points (connections can be added if needed)
-          if (FACE_CONNECTIONS.length > 0) {
-            drawConnectors(ctx, scaledLandmarks, FACE_CONNECTIONS, {
-              color: '#FFFF00',
-              lineWidth: 1,
-            });
-          }
-          drawLandmarks(ctx, scaledLandmarks, {
+          drawingUtils.drawConnectors(toNormalized(faceLandmarks), FACE_CONNECTION_PAIRS, {
             color: '#FFFF00',
-            lineWidth: 0.5,
-            radius: 1,
+            lineWidth: 1,
           });
         });
       }
 
-      requestAnimationFrame(draw);
+      frameId = requestAnimationFrame(draw);
     };
 
     draw();
-  }, [videoElement, results, width, height, showBody, showHands, showFace, drawingUtilsLoaded]);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoElement, results, width, height, showBody, showHands, showFace]);
 
   return (
     <canvas
@@ -0,0 +1,54 @@
+'use client';
+
+import {
+  ConstellationVisual,
+  type ConstellationControls,
+  CONSTELLATION_CONTROL_MIGRATIONS,
+  CONSTELLATION_CONTROL_SCHEMA,
+  DEFAULT_CONSTELLATION_CONTROLS,
+} from '@/components/hand-tracking/ConstellationVisual';
+import { cycleConstellationPalette } from '@/components/hand-tracking/constellationPalettes';
+import { defineVisual, type VisualComponentProps } from '@/lib/visualRegistry';
+
+function Constellation({ frame, controls, className, offline, seed, morph }: VisualComponentProps<ConstellationControls>) {
+  // A morph between presets blends the two palettes' hues over the whole fade (the palette id switches part way)
+  const paletteBlend = morph ? { from: morph.from.palette, to: morph.to.palette, amount: morph.progress } : null;
+  return (
+    <ConstellationVisual
+      hands={frame.hands}
+      className={className}
+      controls={controls}
+      offline={offline}
+      seed={seed}
+      paletteBlend={paletteBlend}
+    />
+  );
+}
+
+export const constellationPlugin = defineVisual<ConstellationControls>({
+  id: 'viz6',
+  name: 'Constellation (Pocket Universe)',
+  description: 'Hand as a cosmos: 21 stars with nebulae, constellation lines, and cosmic depth',
+  enabled: true,
+  inputs: ['hands', 'pinch'],
+  feed: 'inset',
+  thumbnail: '/visuals/viz6.svg',
+  Component: Constellation,
+  controls: {
+    defaults: DEFAULT_CONSTELLATION_CONTROLS,
+    schema: CONSTELLATION_CONTROL_SCHEMA,
+    version: 1,
+    migrations: CONSTELLATION_CONTROL_MIGRATIONS,
+    title: 'Cosmos Controls',
+    description: 'Adjust the stars, nebulae, and cosmic depth',
+    note: 'Open hand increases orbit swirl. Pinch still brightens stars.',
+  },
+  // Swipe left/right cycles the palette
+  onGesture: (event, controls) => {
+    if (event.phase !== 'start') return null;
+    const step = event.gesture === 'swipeRight' ? 1 : event.gesture === 'swipeLeft' ? -1 : 0;
+    return step === 0 ? null : { ...controls, palette: cycleConstellationPalette(controls.palette, step) };
+  },
+  offline: true,
+  seeded: true,
+});
@@ -0,0 +1,108 @@
+'use client';
+
+import { Hand3DVisual, type HandBoundingBox } from '@/components/hand-tracking/Hand3DVisual';
+import type { HandModelOverlayMode } from '@/components/hand-tracking/handPose';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ControlSchema } from '@/lib/controlSchema';
+import { defineVisual, type VisualComponentProps, type VisualInspectorProps } from '@/lib/visualRegistry';
+
+export interface Hand3DControls {
+  overlayMode: HandModelOverlayMode;
+}
+
+const DEFAULT_HAND_3D_CONTROLS: Hand3DControls = {
+  overlayMode: 'skeleton',
+};
+
+const HAND_3D_CONTROL_SCHEMA: ControlSchema<Hand3DControls> = {
+  overlayMode: {
+    type: 'enum',
+    label: 'Overlay',
+    options: [
+      { value: 'skeleton', label: 'Skeleton', description: 'Landmarks joined by bones' },
+      { value: 'model', label: 'Model', description: 'Rigged hand driven by the landmarks' },
+    ],
+    audience: true,
+  },
+};
+
+function Hand3D({ frame, controls, className, onTelemetry }: VisualComponentProps<Hand3DControls, HandBoundingBox[]>) {
+  return (
+    <Hand3DVisual hands={frame.hands} className={className} overlayMode={controls.overlayMode} onBoundingBoxes={onTelemetry} />
+  );
+}
+
+function BoundingBoxInspector({ telemetry, frame }: VisualInspectorProps<HandBoundingBox[]>) {
+  const boundingBoxes = telemetry ?? [];
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bounding Box Data</CardTitle>
+        <CardDescription>Real-time bounding box information for detected hands</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {boundingBoxes.length > 0 ? (
+            boundingBoxes.map((bbox, index) => (
+              <div key={index} className="border-l-4 border-blue-500 pl-4">
+                <h3 className="text-sm font-semibold mb-2">
+                  Hand {index + 1} {frame.hands[index]?.handedness && `(${frame.hands[index].handedness})`}
+                </h3>
+                <div className="space-y-2 font-mono text-xs">
+                  <div>
+                    <span className="font-semibold">Center Position:</span>
+                    <div className="ml-4 mt-1">
+                      <div>X: {bbox.center.x.toFixed(4)}</div>
+                      <div>Y: {bbox.center.y.toFixed(4)}</div>
+                      <div>Z: {bbox.center.z.toFixed(4)}</div>
+                    </div>
+                  </div>
+                  <div>
+                    <span className="font-semibold">Size:</span>
+                    <div className="ml-4 mt-1">
+                      <div>Width: {bbox.size.width.toFixed(4)}</div>
+                      <div>Height: {bbox.size.height.toFixed(4)}</div>
+                      <div>Depth: {bbox.size.depth.toFixed(4)}</div>
+                    </div>
+                  </div>
+                  <div>
+                    <span className="font-semibold">Bounds:</span>
+                    <div className="ml-4 mt-1">
+                      <div>
+                        Min: ({bbox.min.x.toFixed(3)}, {bbox.min.y.toFixed(3)}, {bbox.min.z.toFixed(3)})
+                      </div>
+                      <div>
+                        Max: ({bbox.max.x.toFixed(3)}, {bbox.max.y.toFixed(3)}, {bbox.max.z.toFixed(3)})
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="text-gray-500 text-sm">No hands detected</div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export const hand3DPlugin = defineVisual<Hand3DControls, HandBoundingBox[]>({
+  id: 'viz3',
+  name: '3D Hand Visualization',
+  description: 'Real-time 3D visualization of hand landmarks in 3D space',
+  enabled: true,
+  inputs: ['hands'],
+  feed: 'inset',
+  thumbnail: '/visuals/viz3.svg',
+  Component: Hand3D,
+  controls: {
+    defaults: DEFAULT_HAND_3D_CONTROLS,
+    schema: HAND_3D_CONTROL_SCHEMA,
+    title: 'Hand Overlay',
+    description: 'Draw the landmarks as a skeleton or drive a rigged hand model',
+    note: 'GLB path: /public/models/rigged_hand.glb (served as /models/rigged_hand.glb)',
+  },
+  Inspector: BoundingBoxInspector,
+});
@@ -0,0 +1,32 @@
+'use client';
+
+import {
+  OneLineHandVisual,
+  type OneLineHandControls,
+  DEFAULT_ONE_LINE_CONTROLS,
+  ONE_LINE_CONTROL_SCHEMA,
+} from '@/components/hand-tracking/OneLineHandVisual';
+import { defineVisual, type VisualComponentProps } from '@/lib/visualRegistry';
+
+function OneLine({ frame, controls, className, offline }: VisualComponentProps<OneLineHandControls>) {
+  return <OneLineHandVisual hands={frame.hands} className={className} controls={controls} offline={offline} />;
+}
+
+export const oneLinePlugin = defineVisual<OneLineHandControls>({
+  id: 'viz5',
+  name: 'One Unbroken Line',
+  description: 'Minimalist continuous stroke through all landmarks with subtle noise and animated drawing',
+  enabled: true,
+  inputs: ['hands', 'pinch'],
+  feed: 'inset',
+  thumbnail: '/visuals/viz5.svg',
+  Component: OneLine,
+  controls: {
+    defaults: DEFAULT_ONE_LINE_CONTROLS,
+    schema: ONE_LINE_CONTROL_SCHEMA,
+    title: 'Line Controls',
+    description: 'Adjust the continuous stroke style',
+    note: 'Draw Speed = 0 for instant drawing, higher = animated reveal.',
+  },
+  offline: true,
+});
@@ -0,0 +1,85 @@
+'use client';
+
+import { PinchControlled3D } from '@/components/hand-tracking/PinchControlled3D';
+import { NODES_PER_ORBIT_MAPPING } from '@/components/hand-tracking/modulation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { defineVisual, type VisualComponentProps, type VisualInspectorProps } from '@/lib/visualRegistry';
+
+function PinchOrbital({ view, frame, modulation, className, onTelemetry }: VisualComponentProps<object, number[]>) {
+  return (
+    <PinchControlled3D
+      vector={frame.pinchVector}
+      className={className}
+      nodesPerOrbit={modulation.nodesPerOrbit}
+      onPhaseAnglesChange={onTelemetry}
+      // The control panel keeps the camera controls below the canvas
+      fullscreen={view !== 'controlPanel'}
+    />
+  );
+}
+
+function TransformationInspector({ telemetry, frame }: VisualInspectorProps<number[]>) {
+  const phaseAngles = telemetry ?? [];
+  const { rightHandDistance } = frame;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transformation Data</CardTitle>
+        <CardDescription>
+          Real-time values from hand tracking
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold mb-2">3D Model Phase Angles</h3>
+            <div className="space-y-1 font-mono text-xs">
+              {phaseAngles.length > 0 ? (
+                phaseAngles.map((angle, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span>Orbit {index + 1}:</span>
+                    <span>{angle.toFixed(3)} rad ({(angle * 180 / Math.PI).toFixed(1)}°)</span>
+                  </div>
+                ))
+              ) : (
+                <div className="text-gray-500">No phase angles yet</div>
+              )}
+            </div>
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Right Hand Distance</h3>
+            <div className="font-mono text-xs">
+              {rightHandDistance !== null ? (
+                <div>
+                  <div className="mb-1">
+                    <span className="font-semibold">Distance:</span> {rightHandDistance.toFixed(4)}
+                  </div>
+                  <div className="text-gray-500 text-xs">
+                    (between thumb and index finger)
+                  </div>
+                </div>
+              ) : (
+                <div className="text-gray-500">Right hand not detected</div>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export const pinchOrbitalPlugin = defineVisual<object, number[]>({
+  id: 'viz1',
+  name: '3D Orbital System',
+  description: 'Fullscreen 3D Voronoi-connected orbital system with toon-shaded voxels',
+  enabled: true,
+  inputs: ['hands', 'pinch'],
+  feed: 'center',
+  thumbnail: '/visuals/viz1.svg',
+  Component: PinchOrbital,
+  controls: null,
+  defaultModulations: [NODES_PER_ORBIT_MAPPING],
+  modulationTargets: ['nodesPerOrbit'],
+  Inspector: TransformationInspector,
+});
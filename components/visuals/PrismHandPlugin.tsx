@@ -0,0 +1,32 @@
+'use client';
+
+import {
+  PrismHandVisual,
+  type PrismHandControls,
+  DEFAULT_PRISM_HAND_CONTROLS,
+  PRISM_HAND_CONTROL_SCHEMA,
+} from '@/components/hand-tracking/PrismHandVisual';
+import { defineVisual, type VisualComponentProps } from '@/lib/visualRegistry';
+
+function PrismHand({ frame, controls, className, offline }: VisualComponentProps<PrismHandControls>) {
+  return <PrismHandVisual hands={frame.hands} className={className} controls={controls} offline={offline} />;
+}
+
+export const prismHandPlugin = defineVisual<PrismHandControls>({
+  id: 'viz4',
+  name: 'Prism Hand (Impressionistic)',
+  description: 'Glass-like prism shards that trace hand bones with pinch-reactive refraction',
+  enabled: true,
+  inputs: ['hands', 'pinch'],
+  feed: 'inset',
+  thumbnail: '/visuals/viz4.svg',
+  Component: PrismHand,
+  controls: {
+    defaults: DEFAULT_PRISM_HAND_CONTROLS,
+    schema: PRISM_HAND_CONTROL_SCHEMA,
+    title: 'Prism Controls',
+    description: 'Adjust motion + gradient of the trails',
+    note: 'Pinch also increases twist/brightness dynamically.',
+  },
+  offline: true,
+});
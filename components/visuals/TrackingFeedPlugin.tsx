@@ -0,0 +1,47 @@
+'use client';
+
+import { TrackingSourceFeed } from '@/components/hand-tracking/TrackingSourceFeed';
+import { defineVisual, type VisualComponentProps } from '@/lib/visualRegistry';
+
+/** The tracking feed itself (skeleton, body and face overlays) is the visual. */
+function TrackingFeed({ view, feed, className }: VisualComponentProps) {
+  if (view === 'controlPanel') {
+    return (
+      <TrackingSourceFeed
+        leftHanded={feed.leftHanded}
+        enablePose={feed.enablePose}
+        enableFace={feed.enableFace}
+        placeholderClassName="w-full aspect-video flex items-center justify-center bg-black/10 rounded text-sm text-muted-foreground"
+      />
+    );
+  }
+  if (!feed.enabled) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-black text-white">
+        Hand tracking is disabled for this visual.
+      </div>
+    );
+  }
+  return (
+    <TrackingSourceFeed
+      leftHanded={feed.leftHanded}
+      enablePose={feed.enablePose}
+      enableFace={feed.enableFace}
+      className={className}
+      hideRestartButton={true}
+      placeholderClassName="w-full h-full flex items-center justify-center bg-black text-white"
+    />
+  );
+}
+
+export const trackingFeedPlugin = defineVisual({
+  id: 'viz2',
+  name: 'Basic Hand Tracking',
+  description: 'Simple hand tracking visualization with skeleton overlay',
+  enabled: true,
+  inputs: ['hands', 'pose', 'face'],
+  feed: 'visual',
+  thumbnail: '/visuals/viz2.svg',
+  Component: TrackingFeed,
+  controls: null,
+});
@@ -0,0 +1,81 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type SetStateAction } from 'react';
+import {
+  sampleControlMorph,
+  type ControlMorph,
+  type ControlMorphFrame,
+  type MorphSettings,
+} from '@/lib/controlMorph';
+import type { ControlSpec } from '@/lib/controlSchema';
+
+/**
+ * Fades a visual's controls to a preset (see `lib/controlMorph.ts`): `morphTo`
+ * sets interpolated controls on every animation frame until the target is
+ * reached, and `frame` describes the morph for the visual's `morph` prop (null
+ * when none runs). A new morph starts from wherever the current one got to;
+ * `stop` leaves the controls where they are (e.g. when a slider is moved).
+ * Controls changed by anything else while fading (a gesture the visual
+ * handles, MIDI) also end the fade: the morph never overwrites them.
+ */
+export function useControlMorph(
+  schema: Record<string, ControlSpec> | null,
+  controls: object | null,
+  setControls: (action: SetStateAction<object>) => void
+) {
+  const [frame, setFrame] = useState<ControlMorphFrame | null>(null);
+  const morphRef = useRef<ControlMorph | null>(null);
+  const rafRef = useRef<number | null>(null);
+  const controlsRef = useRef(controls);
+  const setControlsRef = useRef(setControls);
+  useEffect(() => {
+    controlsRef.current = controls;
+    setControlsRef.current = setControls;
+  });
+
+  const stop = useCallback(() => {
+    if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+    rafRef.current = null;
+    morphRef.current = null;
+    setFrame(null);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const morphTo = useCallback(
+    (target: object, settings: Pick<MorphSettings, 'durationMs' | 'easing' | 'switchAt'>) => {
+      stop();
+      const from = controlsRef.current;
+      if (!schema || !from || settings.durationMs <= 0) {
+        setControlsRef.current(target);
+        return;
+      }
+      morphRef.current = { from, to: target, startedAt: performance.now(), settings };
+      // Controls this morph set; any others were set by something else
+      const produced = new WeakSet<object>([from]);
+      const tick = (now: number) => {
+        const morph = morphRef.current;
+        if (!morph) return;
+        if (controlsRef.current && !produced.has(controlsRef.current)) {
+          stop();
+          return;
+        }
+        const sample = sampleControlMorph(schema, morph, now);
+        produced.add(sample.controls);
+        setControlsRef.current((current) => (produced.has(current) ? sample.controls : current));
+        if (sample.done) {
+          morphRef.current = null;
+          rafRef.current = null;
+          setFrame(null);
+          return;
+        }
+        setFrame(sample.frame);
+        rafRef.current = requestAnimationFrame(tick);
+      };
+      rafRef.current = requestAnimationFrame(tick);
+    },
+    [schema, stop]
+  );
+
+  return { frame, morphTo, stop };
+}
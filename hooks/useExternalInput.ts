@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  midiToExternalInput,
+  oscToExternalInputs,
+  type ExternalControlInput,
+  type ExternalInputSettings,
+} from '@/lib/externalControl';
+import { createMidiInputListener, type MidiAccessStatus } from '@/lib/midi';
+import { createOscBridgeClient } from '@/lib/oscOutput';
+import type { RemoteConnectionStatus } from '@/lib/remoteControl';
+
+/**
+ * Listens to MIDI devices and/or OSC from the bridge at `bridgeUrl` (see
+ * `lib/externalControl.ts`). `onInput` receives every normalized input; the
+ * latest callback is always used.
+ */
+export function useExternalInput(
+  settings: ExternalInputSettings,
+  bridgeUrl: string,
+  onInput: (input: ExternalControlInput) => void
+) {
+  const [midiStatus, setMidiStatus] = useState<MidiAccessStatus>('idle');
+  const [midiInputs, setMidiInputs] = useState<string[]>([]);
+  const [oscStatus, setOscStatus] = useState<RemoteConnectionStatus>('idle');
+  const [lastInput, setLastInput] = useState<ExternalControlInput | null>(null);
+  const onInputRef = useRef(onInput);
+  useEffect(() => {
+    onInputRef.current = onInput;
+  });
+
+  useEffect(() => {
+    if (!settings.midi) return;
+    const listener = createMidiInputListener(
+      (message) => {
+        const input = midiToExternalInput(message);
+        setLastInput(input);
+        onInputRef.current(input);
+      },
+      { onStatusChange: setMidiStatus, onInputsChange: setMidiInputs }
+    );
+    listener.start();
+    return () => {
+      listener.stop();
+      setMidiInputs([]);
+    };
+  }, [settings.midi]);
+
+  useEffect(() => {
+    if (!settings.osc) return;
+    const client = createOscBridgeClient(bridgeUrl, { onStatusChange: setOscStatus });
+    const unsubscribe = client.subscribe((messages) => {
+      for (const input of messages.flatMap(oscToExternalInputs)) {
+        setLastInput(input);
+        onInputRef.current(input);
+      }
+    });
+    client.start();
+    return () => {
+      unsubscribe();
+      client.stop();
+    };
+  }, [settings.osc, bridgeUrl]);
+
+  return { midiStatus, midiInputs, oscStatus, lastInput };
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  createGestureEngine,
+  type GestureEngine,
+  type GestureListener,
+  type GestureOptions,
+} from '@/components/hand-tracking/gestures';
+import {
+  createGestureTemplateMatcher,
+  type GestureTemplate,
+  type GestureTemplateMatcher,
+} from '@/components/hand-tracking/gestureTemplates';
+import type { TrackingFrame } from '@/components/hand-tracking/trackingSources';
+
+/**
+ * Runs a gesture engine on tracking frames (see `gestures.ts`). Subscribe with
+ * `useGestureListener(engine, listener)` or `engine.subscribe()`.
+ */
+export function useGestureEngine(frame: TrackingFrame, options?: Partial<GestureOptions>): GestureEngine {
+  const [engine] = useState(() => createGestureEngine(options));
+
+  useEffect(() => {
+    engine.update(frame.hands, frame.timestamp);
+  }, [engine, frame]);
+
+  return engine;
+}
+
+/** Calls `listener` for every gesture event; the latest listener is always used. */
+export function useGestureListener(engine: GestureEngine, listener: GestureListener) {
+  const listenerRef = useRef(listener);
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => engine.subscribe((event) => listenerRef.current(event)), [engine]);
+}
+
+/**
+ * Matches user gesture templates (see `gestureTemplates.ts`) against tracking
+ * frames. Subscribe with `matcher.subscribe()`.
+ */
+export function useGestureTemplateMatcher(frame: TrackingFrame, templates: GestureTemplate[]): GestureTemplateMatcher {
+  const [matcher] = useState(() => createGestureTemplateMatcher(templates));
+
+  useEffect(() => {
+    matcher.setTemplates(templates);
+  }, [matcher, templates]);
+
+  useEffect(() => {
+    matcher.update(frame.hands, frame.timestamp);
+  }, [matcher, frame]);
+
+  return matcher;
+}
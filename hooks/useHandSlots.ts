@@ -0,0 +1,19 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import { assignHandSlots } from '@/components/hand-tracking/handIdentity';
+
+/**
+ * Fixed-size hand slots for visuals that keep per-hand state (trails, particle
+ * clouds). Each hand stays in its slot for as long as its `id` is tracked, so
+ * state indexed by slot follows the physical hand when MediaPipe reorders hands.
+ */
+export function useHandSlots(hands: Hand3DData[], slotCount = 2): Array<Hand3DData | null> {
+  const slotIdsRef = useRef<Array<number | null>>([]);
+  return useMemo(() => {
+    const slots = assignHandSlots(hands, slotIdsRef.current, slotCount);
+    slotIdsRef.current = slots.map((hand) => hand?.id ?? null);
+    return slots;
+  }, [hands, slotCount]);
+}
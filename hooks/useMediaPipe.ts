@@ -1,21 +1,15 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Pose } from '@mediapipe/pose';
-import { Hands } from '@mediapipe/hands';
-import { FaceMesh } from '@mediapipe/face_mesh';
 import {
-  createPoseDetector,
-  createHandsDetector,
-  createFaceDetector,
-  processPoseResults,
-  processHandsResults,
-  processFaceResults,
+  createLandmarkWorker,
+  createLandmarkWorkerClient,
+  type LandmarkWorkerClient,
+  type LandmarkWorkerResult,
 } from '@/lib/mediapipe';
 import type {
   MediaPipeResults,
   MediaPipeConfig,
-  TrackingType,
 } from '@/types/mediapipe';
 
 interface UseMediaPipeOptions extends MediaPipeConfig {
@@ -24,7 +18,8 @@ interface UseMediaPipeOptions extends MediaPipeConfig {
 }
 
 /**
- * Hook to manage MediaPipe initialization and processing
+ * Hook to manage MediaPipe initialization and processing.
+ * Inference runs in the landmark worker; `fps` is the rate results come back at.
  */
 export function useMediaPipe(options: UseMediaPipeOptions = {}) {
   const {
@@ -37,9 +32,9 @@ export function useMediaPipe(options: UseMediaPipeOptions = {}) {
     onResults,
   } = options;
 
-  const poseRef = useRef<Pose | null>(null);
-  const handsRef = useRef<Hands | null>(null);
-  const faceRef = useRef<FaceMesh | null>(null);
+  const clientRef = useRef<LandmarkWorkerClient | null>(null);
+  const onResultsRef = useRef(onResults);
+  const capturingRef = useRef(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [fps, setFps] = useState(0);
@@ -48,129 +43,97 @@ export function useMediaPipe(options: UseMediaPipeOptions = {}) {
   const animationFrameRef = useRef<number | null>(null);
   const isProcessingRef = useRef(false);
 
+  useEffect(() => {
+    onResultsRef.current = onResults;
+  }, [onResults]);
+
+  /**
+   * Handle a result posted back by the worker
+   */
+  const handleResult = useCallback((result: LandmarkWorkerResult) => {
+    const results: MediaPipeResults = {};
+    if (result.pose) {
+      results.pose = result.pose;
+    }
+    if (result.hands.length > 0) {
+      results.hands = result.hands;
+    }
+    if (result.face) {
+      results.face = result.face;
+    }
+
+    // Update FPS
+    frameCountRef.current++;
+    const now = Date.now();
+    if (now - lastFpsUpdateRef.current >= 1000) {
+      setFps(frameCountRef.current);
+      frameCountRef.current = 0;
+      lastFpsUpdateRef.current = now;
+    }
+
+    onResultsRef.current?.(results);
+  }, []);
+
   /**
-   * Initialize MediaPipe detectors
+   * Initialize MediaPipe landmarkers in the worker (they share one tasks-vision WASM fileset)
    */
   const initialize = useCallback(async () => {
     try {
-      // Initialize pose detector
-      if (enableBody) {
-        poseRef.current = await createPoseDetector({
-          modelComplexity: 1,
-          smoothLandmarks: true,
-          minDetectionConfidence,
-          minTrackingConfidence,
-        });
-      }
-
-      // Initialize hands detector
-      if (enableHands) {
-        handsRef.current = await createHandsDetector({
-          maxNumHands: 2,
-          modelComplexity: 1,
-          minDetectionConfidence,
-          minTrackingConfidence,
-        });
-      }
-
-      // Initialize face detector
-      if (enableFace) {
-        faceRef.current = await createFaceDetector({
-          maxNumFaces: 1,
-          refineLandmarks: false,
-          minDetectionConfidence,
-          minTrackingConfidence,
-        });
-      }
+      clientRef.current?.close();
+      const client = createLandmarkWorkerClient(createLandmarkWorker(), {
+        config: { numHands: 2, minDetectionConfidence, minTrackingConfidence },
+        onResult: handleResult,
+        onError: (error) => console.error(`MediaPipe ${error.task} error:`, error.message),
+      });
+      clientRef.current = client;
+
+      await Promise.all([
+        enableBody ? client.load('pose') : null,
+        enableHands ? client.load('hands') : null,
+        enableFace ? client.load('face') : null,
+      ]);
 
       setIsInitialized(true);
     } catch (error) {
       console.error('Failed to initialize MediaPipe:', error);
       throw error;
     }
-  }, [enableBody, enableHands, enableFace, minDetectionConfidence, minTrackingConfidence]);
+  }, [enableBody, enableHands, enableFace, minDetectionConfidence, minTrackingConfidence, handleResult]);
 
   /**
-   * Process a single frame
+   * Send the current video frame to the worker, unless it is still busy with the previous one
    */
-  const processFrame = useCallback(async () => {
+  const processFrame = useCallback(() => {
     if (!videoElement || !isInitialized || !isProcessingRef.current) {
       return;
     }
 
-    if (videoElement.readyState !== videoElement.HAVE_ENOUGH_DATA) {
-      // Continue loop even if video not ready
-      animationFrameRef.current = requestAnimationFrame(() => processFrame());
+    // Continue processing loop
+    animationFrameRef.current = requestAnimationFrame(() => processFrame());
+
+    const client = clientRef.current;
+    if (
+      !client ||
+      client.isBusy() ||
+      capturingRef.current ||
+      videoElement.readyState !== videoElement.HAVE_ENOUGH_DATA
+    ) {
       return;
     }
 
-    const results: MediaPipeResults = {};
-
-    try {
-      // Process pose
-      if (enableBody && poseRef.current) {
-        await new Promise<void>((resolve) => {
-          poseRef.current!.onResults((poseResults) => {
-            const processed = processPoseResults(poseResults);
-            if (processed) {
-              results.pose = processed;
-            }
-            resolve();
-          });
-          poseRef.current!.send({ image: videoElement });
-        });
-      }
-
-      // Process hands
-      if (enableHands && handsRef.current) {
-        await new Promise<void>((resolve) => {
-          handsRef.current!.onResults((handsResults) => {
-            const processed = processHandsResults(handsResults);
-            if (processed.length > 0) {
-              results.hands = processed;
-            }
-            resolve();
-          });
-          handsRef.current!.send({ image: videoElement });
-        });
-      }
-
-      // Process face
-      if (enableFace && faceRef.current) {
-        await new Promise<void>((resolve) => {
-          faceRef.current!.onResults((faceResults) => {
-            const processed = processFaceResults(faceResults);
-            if (processed) {
-              results.face = processed;
-            }
-            resolve();
-          });
-          faceRef.current!.send({ image: videoElement });
-        });
-      }
-
-      // Update FPS
-      frameCountRef.current++;
-      const now = Date.now();
-      if (now - lastFpsUpdateRef.current >= 1000) {
-        setFps(frameCountRef.current);
-        frameCountRef.current = 0;
-        lastFpsUpdateRef.current = now;
-      }
-
-      // Callback with results
-      if (onResults) {
-        onResults(results);
-      }
-    } catch (error) {
-      console.error('Error processing frame:', error);
-    }
-
-    // Continue processing loop
-    if (isProcessingRef.current) {
-      animationFrameRef.current = requestAnimationFrame(() => processFrame());
-    }
-  }, [videoElement, isInitialized, enableBody, enableHands, enableFace, onResults]);
+    capturingRef.current = true;
+    const timestamp = performance.now();
+    createImageBitmap(videoElement)
+      .then((bitmap) => {
+        client.submit(bitmap, timestamp, { hands: enableHands, pose: enableBody, face: enableFace });
+      })
+      .catch((error) => {
+        console.error('Error processing frame:', error);
+      })
+      .finally(() => {
+        capturingRef.current = false;
+      });
+  }, [videoElement, isInitialized, enableBody, enableHands, enableFace]);
 
   /**
    * Start processing video frames
@@ -198,21 +161,13 @@ export function useMediaPipe(options: UseMediaPipeOptions = {}) {
   }, []);
 
   /**
-   * Cleanup MediaPipe detectors
+   * Terminate the worker (closes its landmarkers)
    */
   const cleanup = useCallback(() => {
     stopProcessing();
-    if (poseRef.current) {
-      poseRef.current.close();
-      poseRef.current = null;
-    }
-    if (handsRef.current) {
-      handsRef.current.close();
-      handsRef.current = null;
-    }
-    if (faceRef.current) {
-      faceRef.current.close();
-      faceRef.current = null;
+    if (clientRef.current) {
+      clientRef.current.close();
+      clientRef.current = null;
     }
     setIsInitialized(false);
   }, [stopProcessing]);
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
+import type { TrackingFrame } from '@/components/hand-tracking/trackingSources';
+import { createMidiOutputPort, type MidiAccessStatus, type MidiOutputPort } from '@/lib/midi';
+import { createMidiOutputEngine, type MidiOutputSettings } from '@/lib/midiOutput';
+
+const clock = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+/**
+ * Plays tracking frames and final pinch vectors on MIDI outputs while
+ * `settings.enabled` (see `lib/midiOutput.ts`). Held notes are released when
+ * disabled, when the output changes and on unmount.
+ */
+export function useMidiOutput(settings: MidiOutputSettings, frame: TrackingFrame, finalVector: FinalVector | null) {
+  const [status, setStatus] = useState<MidiAccessStatus>('idle');
+  const [outputs, setOutputs] = useState<string[]>([]);
+  const [engine] = useState(createMidiOutputEngine);
+  const portRef = useRef<MidiOutputPort | null>(null);
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    settingsRef.current = settings;
+  });
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+    const port = createMidiOutputPort({ onStatusChange: setStatus, onOutputsChange: setOutputs });
+    port.start();
+    portRef.current = port;
+    return () => {
+      port.send(engine.reset(), settingsRef.current.outputName);
+      port.stop();
+      portRef.current = null;
+      setOutputs([]);
+    };
+  }, [settings.enabled, engine]);
+
+  // Don't leave notes hanging on the previous output
+  const outputName = settings.outputName;
+  const previousOutputRef = useRef(outputName);
+  useEffect(() => {
+    if (previousOutputRef.current === outputName) return;
+    portRef.current?.send(engine.reset(), previousOutputRef.current);
+    previousOutputRef.current = outputName;
+  }, [outputName, engine]);
+
+  useEffect(() => {
+    const port = portRef.current;
+    if (!port || port.getStatus() !== 'ready') return;
+    port.send(engine.processFrame(frame, settingsRef.current, clock()), settingsRef.current.outputName);
+  }, [frame, engine]);
+
+  useEffect(() => {
+    const port = portRef.current;
+    if (!finalVector || !port || port.getStatus() !== 'ready') return;
+    port.send(engine.processFinalVector(finalVector, settingsRef.current), settingsRef.current.outputName);
+  }, [finalVector, engine]);
+
+  return { status, outputs };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  createModulationEngine,
+  type ModulationMapping,
+  type ModulationValues,
+} from '@/components/hand-tracking/modulation';
+import type { TrackingFrame } from '@/components/hand-tracking/trackingSources';
+import type { AudioFeatures } from '@/lib/audioAnalysis';
+
+interface EvaluatedModulation {
+  timestamp: number;
+  audioTime: number | null;
+  mappings: ModulationMapping[];
+  values: ModulationValues;
+}
+
+/**
+ * Evaluates a visual's modulation matrix (see `modulation.ts`) on every
+ * tracking frame and audio update (`useAudioFeatures`), once each: keep
+ * `mappings` the same array between frames. Apply the result to a controls
+ * object with `applyModulation(controls, values)`.
+ */
+export function useModulation(
+  frame: TrackingFrame,
+  mappings: ModulationMapping[],
+  audio: AudioFeatures | null = null
+): ModulationValues {
+  const [engine] = useState(createModulationEngine);
+  // The engine keeps smoothing and palm history, so it must not run again when React re-renders (StrictMode,
+  // discarded renders) or an unrelated prop changes: each frame, audio update and matrix is evaluated once
+  const lastRef = useRef<EvaluatedModulation>(null);
+  const audioTime = audio?.time ?? null;
+  const last = lastRef.current;
+  if (last && last.timestamp === frame.timestamp && last.audioTime === audioTime && last.mappings === mappings) {
+    return last.values;
+  }
+  const values = engine.update(frame, mappings, audio);
+  lastRef.current = { timestamp: frame.timestamp, audioTime, mappings, values };
+  return values;
+}
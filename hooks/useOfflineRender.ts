@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { advance } from '@react-three/fiber';
+import type { LandmarkFilterSettings } from '@/components/hand-tracking/landmarkFilter';
+import type { LandmarkRecording } from '@/components/hand-tracking/landmarkRecording';
+import type { ModulationMapping } from '@/components/hand-tracking/modulation';
+import { formatCaptureFileName } from '@/lib/capture';
+import {
+  createOfflineFramePipeline,
+  createOfflineFrameSink,
+  getOfflineFrameCount,
+  getOfflineFrameTime,
+  getOfflineRenderSize,
+  type OfflineFrame,
+  type OfflineFrameSink,
+  type OfflineRenderSettings,
+} from '@/lib/offlineRender';
+
+export type OfflineRenderStatus = 'idle' | 'preparing' | 'rendering' | 'finishing' | 'done' | 'cancelled' | 'error';
+
+export interface OfflineRenderOptions {
+  visualId: string;
+  /** Loaded configuration, added to output names. */
+  configName: string | null;
+  recording: LandmarkRecording | null;
+  modulations: ModulationMapping[];
+  filter: LandmarkFilterSettings | null;
+  settings: OfflineRenderSettings;
+  /** Element containing the offline visual's canvas (`offline` prop, sized to the render size). */
+  containerRef: RefObject<HTMLElement | null>;
+}
+
+// rAFs to let a freshly mounted visual load before the first frame
+const WARMUP_FRAMES = 30;
+const CANVAS_TIMEOUT_MS = 10_000;
+
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+async function waitFrames(count: number) {
+  for (let i = 0; i < count; i++) await nextFrame();
+}
+
+class RenderCancelled extends Error {}
+
+/**
+ * Renders a recording offline (see `lib/offlineRender.ts`). `start()` remounts
+ * the visual (`runId` as its key) and feeds it one fixed-timestep frame at a
+ * time through `current`; after React commits, `advance()` renders it and the
+ * canvas is copied to the output. Call `start()` from a click handler.
+ */
+export function useOfflineRender({
+  visualId,
+  configName,
+  recording,
+  modulations,
+  filter,
+  settings,
+  containerRef,
+}: OfflineRenderOptions) {
+  const [status, setStatus] = useState<OfflineRenderStatus>('idle');
+  const [progress, setProgress] = useState({ frame: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const [runId, setRunId] = useState(0);
+  // Frame the visual shows (null before the first render)
+  const [current, setCurrent] = useState<OfflineFrame | null>(null);
+  const runningRef = useRef(false);
+  const cancelRef = useRef(false);
+
+  useEffect(
+    () => () => {
+      cancelRef.current = true;
+    },
+    []
+  );
+
+  const waitForCanvas = useCallback(
+    async (width: number, height: number): Promise<HTMLCanvasElement> => {
+      const deadline = Date.now() + CANVAS_TIMEOUT_MS;
+      for (;;) {
+        if (cancelRef.current) throw new RenderCancelled();
+        const canvas = containerRef.current?.querySelector('canvas');
+        if (canvas && canvas.width === width && canvas.height === height) {
+          await waitFrames(WARMUP_FRAMES);
+          return canvas;
+        }
+        if (Date.now() > deadline) throw new Error('The visual did not start');
+        await nextFrame();
+      }
+    },
+    [containerRef]
+  );
+
+  const start = useCallback(async () => {
+    if (!recording || runningRef.current) return;
+    runningRef.current = true;
+    cancelRef.current = false;
+    setError(null);
+
+    const { width, height } = getOfflineRenderSize(settings.size);
+    const total = getOfflineFrameCount(recording.durationMs, settings.fps);
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = width;
+    frameCanvas.height = height;
+    const ctx = frameCanvas.getContext('2d');
+    let sink: OfflineFrameSink | null = null;
+
+    try {
+      if (!ctx) throw new Error('Canvas 2D is not available');
+      // First await: the folder picker needs the click's user activation
+      sink = await createOfflineFrameSink(settings, frameCanvas, formatCaptureFileName(visualId, configName, ''), total);
+      setStatus('preparing');
+      setProgress({ frame: 0, total });
+
+      // A fresh visual per run, so trails and particles start from the seed
+      const pipeline = createOfflineFramePipeline({ recording, fps: settings.fps, filter, modulations });
+      setCurrent(pipeline.frameAt(0));
+      setRunId((id) => id + 1);
+      const canvas = await waitForCanvas(width, height);
+      setStatus('rendering');
+
+      for (let index = 0; index < total; index++) {
+        if (cancelRef.current) throw new RenderCancelled();
+        if (index > 0) setCurrent(pipeline.frameAt(index));
+        await waitFrames(2);
+        advance(getOfflineFrameTime(index, settings.fps) / 1000);
+        // Copied in the same task as the render, before the drawing buffer is cleared
+        ctx.drawImage(canvas, 0, 0, width, height);
+        await sink.write(index);
+        setProgress({ frame: index + 1, total });
+      }
+
+      setStatus('finishing');
+      await sink.finish();
+      setStatus('done');
+    } catch (err: unknown) {
+      sink?.abort();
+      if (err instanceof RenderCancelled || cancelRef.current) {
+        setStatus('cancelled');
+      } else if (err instanceof DOMException && err.name === 'AbortError') {
+        // Folder picker dismissed
+        setStatus('idle');
+      } else {
+        console.error('Offline render failed:', err);
+        setError(err instanceof Error ? err.message : 'Render failed');
+        setStatus('error');
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  }, [recording, settings, visualId, configName, filter, modulations, waitForCanvas]);
+
+  const cancel = useCallback(() => {
+    if (runningRef.current) cancelRef.current = true;
+  }, []);
+
+  return { status, progress, error, runId, current, start, cancel };
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
+import type { GestureEngine } from '@/components/hand-tracking/gestures';
+import type { TrackingFrame } from '@/components/hand-tracking/trackingSources';
+import { useGestureListener } from '@/hooks/useGestures';
+import {
+  buildFinalVectorOscMessage,
+  buildFrameOscMessages,
+  buildGestureOscMessage,
+  createOscBridgeClient,
+  type OscBridgeClient,
+  type OscOutputSettings,
+} from '@/lib/oscOutput';
+import type { RemoteConnectionStatus } from '@/lib/remoteControl';
+
+const clock = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+/**
+ * Sends tracking frames (at most `settings.rateHz` per second), final pinch
+ * vectors and gesture events to the OSC bridge while `settings.enabled`
+ * (see `lib/oscOutput.ts`). Returns the bridge connection status.
+ */
+export function useOscOutput(
+  settings: OscOutputSettings,
+  frame: TrackingFrame,
+  finalVector: FinalVector | null,
+  gestures: GestureEngine
+): RemoteConnectionStatus {
+  const [status, setStatus] = useState<RemoteConnectionStatus>('idle');
+  const clientRef = useRef<OscBridgeClient | null>(null);
+  const settingsRef = useRef(settings);
+  const lastFrameSentRef = useRef(-Infinity);
+  useEffect(() => {
+    settingsRef.current = settings;
+  });
+
+  const url = settings.enabled ? settings.bridgeUrl : null;
+  useEffect(() => {
+    if (!url) return;
+    const client = createOscBridgeClient(url, { onStatusChange: setStatus });
+    client.start();
+    clientRef.current = client;
+    return () => {
+      client.stop();
+      clientRef.current = null;
+    };
+  }, [url]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+    // Wall clock rather than frame.timestamp: recorded sources loop their playhead
+    const now = clock();
+    if (now - lastFrameSentRef.current < 1000 / settingsRef.current.rateHz) return;
+    if (client.send(buildFrameOscMessages(frame, settingsRef.current))) lastFrameSentRef.current = now;
+  }, [frame]);
+
+  useEffect(() => {
+    if (!finalVector || !settingsRef.current.finalVectors) return;
+    clientRef.current?.send([buildFinalVectorOscMessage(finalVector, settingsRef.current)]);
+  }, [finalVector]);
+
+  useGestureListener(gestures, (event) => {
+    if (!settings.gestures) return;
+    clientRef.current?.send([buildGestureOscMessage(event, settings)]);
+  });
+
+  return status;
+}
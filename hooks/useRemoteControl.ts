@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  createRemoteControlClient,
+  type RemoteConnectionStatus,
+  type RemoteControlClient,
+  type RemoteMessageListener,
+  type RemoteRole,
+} from '@/lib/remoteControl';
+
+/**
+ * Connects to the remote control relay while `url` is set (see
+ * `lib/remoteControl.ts`). `onMessage` receives every valid message; the
+ * latest callback is always used.
+ */
+export function useRemoteControl(url: string | null, role: RemoteRole, onMessage: RemoteMessageListener, name?: string) {
+  const [client, setClient] = useState<RemoteControlClient | null>(null);
+  const [status, setStatus] = useState<RemoteConnectionStatus>('idle');
+  const onMessageRef = useRef(onMessage);
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    if (!url) return;
+    const next = createRemoteControlClient(url, role, { name, onStatusChange: setStatus });
+    const unsubscribe = next.subscribe((message) => onMessageRef.current(message));
+    next.start();
+    setClient(next);
+    return () => {
+      unsubscribe();
+      next.stop();
+      setClient(null);
+    };
+  }, [url, role, name]);
+
+  return { client, status };
+}
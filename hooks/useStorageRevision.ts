@@ -0,0 +1,25 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getAppStorage } from '@/lib/appStorage';
+
+/**
+ * Counter that increases whenever app storage finishes loading or its entries
+ * change. Add it to the dependencies of effects that read stored presets,
+ * templates or recordings so they re-read once IndexedDB has loaded.
+ */
+export function useStorageRevision(): number {
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const storage = getAppStorage();
+    const unsubscribe = storage.subscribe((event) => {
+      if (event.type !== 'error') setRevision((r) => r + 1);
+    });
+    // Loaded between the first render and subscribing
+    if (storage.isReady()) setRevision((r) => r + 1);
+    return unsubscribe;
+  }, []);
+
+  return revision;
+}
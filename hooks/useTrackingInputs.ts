@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePinchHistory, type FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
+import { useTrackingFrame, type TrackingFrameOptions } from '@/components/providers/TrackingSourceProvider';
+import { useGestureEngine } from '@/hooks/useGestures';
+
+/**
+ * Everything the route pages derive from the selected tracking source:
+ * the current frame and pinch history vectors. Hand-driven control values
+ * come from the modulation matrix (`useModulation`). `filter` smooths the hands
+ * (see `landmarkFilter.ts`); pinch signals stay raw. `onHandEvent` receives
+ * hand enter/lost/exit events, and `gestures` publishes gesture events.
+ */
+export function useTrackingInputs(
+  options: Pick<TrackingFrameOptions, 'enabled' | 'filter' | 'onHandEvent'> = {}
+) {
+  const { enabled = true, filter = null, onHandEvent } = options;
+  const frame = useTrackingFrame({ enabled, filter, onHandEvent });
+  const [finalVector, setFinalVector] = useState<FinalVector | null>(null);
+  const [currentVector, setCurrentVector] = useState<FinalVector | null>(null);
+  const gestures = useGestureEngine(frame);
+
+  // Track pinch history - only start and end points
+  usePinchHistory(frame.pinchVector, {
+    onFinalVector: setFinalVector, // Set when pinch is released
+    onCurrentVector: setCurrentVector, // Update continuously while pinching
+  });
+
+  // If tracking is disabled, clear vectors so visuals stop reacting
+  useEffect(() => {
+    if (enabled) return;
+    setFinalVector(null);
+    setCurrentVector(null);
+  }, [enabled]);
+
+  return {
+    frame,
+    hands: frame.hands,
+    pinchVector: frame.pinchVector,
+    rightHandDistance: frame.rightHandDistance,
+    finalVector,
+    currentVector,
+    compositeVector: currentVector || finalVector,
+    gestures,
+  };
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import {
+  captureSnapshot,
+  captureThumbnail,
+  createVisualRecorder,
+  downloadBlob,
+  formatCaptureFileName,
+  getCaptureResolutions,
+  type CaptureRecorderStatus,
+  type CaptureSettings,
+  type CaptureSources,
+} from '@/lib/capture';
+
+const CANVAS_MEASURE_MS = 1000;
+
+export interface VisualCaptureOptions {
+  visualId: string;
+  /** Loaded configuration, added to file names. */
+  configName: string | null;
+  settings: CaptureSettings;
+  /** Element containing the visual's canvas. */
+  containerRef: RefObject<HTMLElement | null>;
+  /** Hands for the picture-in-picture skeleton when no camera feed is on the page. */
+  hands: Hand3DData[];
+}
+
+/**
+ * Snapshot, thumbnail and record/stop actions for the visual inside
+ * `containerRef` (see `lib/capture.ts`). Files are downloaded as `<visual>_<config>_<time>.<ext>`;
+ * a recording is stopped on unmount. `resolutions` are the ones the canvas is large enough for.
+ */
+export function useVisualCapture({ visualId, configName, settings, containerRef, hands }: VisualCaptureOptions) {
+  const [status, setStatus] = useState<CaptureRecorderStatus>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  // File name parts when the recording started
+  const recordingNameRef = useRef<{ visualId: string; configName: string | null; date: Date } | null>(null);
+  const handsRef = useRef(hands);
+  useEffect(() => {
+    handsRef.current = hands;
+  });
+
+  const [recorder] = useState(() =>
+    createVisualRecorder({
+      onStatusChange: setStatus,
+      onComplete: (blob, extension) => {
+        const name = recordingNameRef.current;
+        if (!name) return;
+        downloadBlob(blob, formatCaptureFileName(name.visualId, name.configName, extension, name.date));
+      },
+    })
+  );
+
+  useEffect(() => () => recorder.stop(), [recorder]);
+
+  useEffect(() => {
+    if (status !== 'recording') {
+      setElapsedMs(0);
+      return;
+    }
+    const start = Date.now();
+    const interval = setInterval(() => setElapsedMs(Date.now() - start), 500);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  const getSources = useCallback((): CaptureSources | null => {
+    const feedCanvas = document.querySelector<HTMLCanvasElement>('canvas[data-tracking-feed]');
+    // Views without a visual of their own show the camera feed
+    const canvas = containerRef.current?.querySelector('canvas') ?? feedCanvas;
+    if (!canvas) return null;
+    return {
+      canvas,
+      feedCanvas,
+      getHands: () => handsRef.current,
+    };
+  }, [containerRef]);
+
+  // The canvas follows the window (and is replaced when the visual changes), so its height is checked now and then
+  const [canvasHeight, setCanvasHeight] = useState(0);
+  useEffect(() => {
+    const measure = () => setCanvasHeight(getSources()?.canvas.height ?? 0);
+    measure();
+    const interval = setInterval(measure, CANVAS_MEASURE_MS);
+    return () => clearInterval(interval);
+  }, [getSources]);
+  const resolutions = useMemo(() => getCaptureResolutions(canvasHeight), [canvasHeight]);
+
+  const snapshot = useCallback(() => {
+    const sources = getSources();
+    if (!sources) {
+      setError('Nothing to capture yet');
+      return;
+    }
+    setError(null);
+    const date = new Date();
+    captureSnapshot(sources, settings)
+      .then((blob) => downloadBlob(blob, formatCaptureFileName(visualId, configName, 'png', date)))
+      .catch((err: unknown) => {
+        console.error('Snapshot failed:', err);
+        setError('Snapshot failed');
+      });
+  }, [getSources, settings, visualId, configName]);
+
+  // Preset thumbnail of the visual (null when there is nothing to capture)
+  const thumbnail = useCallback(async (): Promise<string | null> => {
+    const sources = getSources();
+    if (!sources) return null;
+    try {
+      return await captureThumbnail(sources.canvas);
+    } catch (err) {
+      console.error('Thumbnail capture failed:', err);
+      return null;
+    }
+  }, [getSources]);
+
+  const toggleRecording = useCallback(() => {
+    if (recorder.getStatus() === 'recording' || recorder.getStatus() === 'starting') {
+      recorder.stop();
+      return;
+    }
+    const sources = getSources();
+    if (!sources) {
+      setError('Nothing to capture yet');
+      return;
+    }
+    setError(null);
+    recordingNameRef.current = { visualId, configName, date: new Date() };
+    recorder.start(sources, settings);
+  }, [recorder, getSources, settings, visualId, configName]);
+
+  return { status, elapsedMs, error, resolutions, snapshot, thumbnail, toggleRecording };
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { useCallback, useState, type SetStateAction } from 'react';
+import type { VisualPlugin } from '@/lib/visualRegistry';
+
+/**
+ * Control values of the visual a route shows, starting from its plugin's
+ * defaults (and again when the route switches visuals). Null for visuals
+ * without controls; setting them is then a no-op.
+ */
+export function useVisualControls(plugin: VisualPlugin | undefined) {
+  const [state, setState] = useState<{ id: string; controls: object } | null>(null);
+  const definition = plugin?.controls ?? null;
+  const controls = definition ? (state && state.id === plugin!.id ? state.controls : definition.defaults) : null;
+
+  const setControls = useCallback(
+    (action: SetStateAction<object>) => {
+      if (!plugin?.controls) return;
+      const { id } = plugin;
+      const { defaults } = plugin.controls;
+      setState((prev) => {
+        const current = prev && prev.id === id ? prev.controls : defaults;
+        const next = typeof action === 'function' ? action(current) : action;
+        return next === current && prev ? prev : { id, controls: next };
+      });
+    },
+    [plugin]
+  );
+
+  return [controls, setControls] as const;
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import type { SetStateAction } from 'react';
+import type { GestureEngine } from '@/components/hand-tracking/gestures';
+import { getPresetGestureStep, type MorphSettings } from '@/lib/controlMorph';
+import { getAdjacentPreset } from '@/lib/presetBrowser';
+import { loadSavedConfigs, type SavedVisualConfig } from '@/lib/visualConfigStorage';
+import type { VisualPlugin } from '@/lib/visualRegistry';
+import { useGestureListener } from './useGestures';
+
+interface VisualGestureOptions {
+  visualId: string;
+  plugin: VisualPlugin | undefined;
+  setControls: (action: SetStateAction<object>) => void;
+  /** Gestures stepping through the presets (see `getPresetGestureStep`). */
+  morphSettings: MorphSettings;
+  /** Preset the view shows, where stepping starts from. */
+  configName: string | null;
+  /** Loads the next or previous saved preset. */
+  onStepPreset: (config: SavedVisualConfig) => void;
+  /** False to ignore gestures (e.g. a final view following the control panel). */
+  enabled?: boolean;
+}
+
+/**
+ * Gestures acting on a visual: the plugin's `onGesture` (e.g. swipes cycling
+ * the constellation palette), applied to the latest controls, and the
+ * gestures chosen in the preset browser stepping to the next or previous
+ * preset. Controls a gesture changes end a running preset fade (see
+ * `useControlMorph`).
+ */
+export function useVisualGestures(
+  gestures: GestureEngine,
+  { visualId, plugin, setControls, morphSettings, configName, onStepPreset, enabled = true }: VisualGestureOptions
+) {
+  useGestureListener(gestures, (event) => {
+    if (!enabled) return;
+    const onGesture = plugin?.onGesture;
+    if (onGesture) setControls((controls) => onGesture(event, controls) ?? controls);
+    const step = getPresetGestureStep(morphSettings, event);
+    const config = step === 0 ? null : getAdjacentPreset(loadSavedConfigs(visualId), configName, step);
+    if (config) onStepPreset(config);
+  });
+}
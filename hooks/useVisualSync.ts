@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ModulationMapping } from '@/components/hand-tracking/modulation';
+import { isControlMorphFrame, type ControlMorphFrame } from '@/lib/controlMorph';
+import type { VisualControlType } from '@/lib/visualConfigStorage';
+import {
+  createVisualSyncChannel,
+  type VisualSyncChannel,
+  type VisualSyncState,
+  type VisualSyncTransport,
+} from '@/lib/visualSync';
+
+/** Opens the sync channel for a visual (closed on unmount or when the visual changes). */
+function useVisualSyncChannel(visualId: string): VisualSyncChannel | null {
+  const [channel, setChannel] = useState<VisualSyncChannel | null>(null);
+
+  useEffect(() => {
+    if (!visualId) return;
+    const next = createVisualSyncChannel(visualId);
+    setChannel(next);
+    return () => {
+      next.close();
+      setChannel(null);
+    };
+  }, [visualId]);
+
+  return channel;
+}
+
+/**
+ * Control panel side: publishes the visual's controls, modulation matrix,
+ * loaded configuration name and preset morph to every open final view whenever they change (slider moves, palette
+ * swipes, loaded configs, every frame of a morph), and answers final views that open later.
+ */
+export function useVisualSyncLeader(
+  visualId: string,
+  controls: VisualControlType | null,
+  modulations: ModulationMapping[],
+  configName: string | null = null,
+  morph: ControlMorphFrame | null = null
+): VisualSyncTransport {
+  const channel = useVisualSyncChannel(visualId);
+  const stateRef = useRef<VisualSyncState>({ controls, modulations, configName, morph });
+  useEffect(() => {
+    stateRef.current = { controls, modulations, configName, morph };
+  });
+
+  useEffect(() => {
+    channel?.publish({ type: 'state', controls, modulations, configName, morph });
+  }, [channel, controls, modulations, configName, morph]);
+
+  useEffect(() => {
+    if (!channel) return;
+    return channel.subscribe((message) => {
+      if (message.type === 'request') channel.publish({ type: 'state', ...stateRef.current });
+    });
+  }, [channel]);
+
+  return channel?.transport ?? 'none';
+}
+
+/**
+ * Final view side: calls `onState` with every state published by a control
+ * panel of the same visual (the latest callback is always used). Asks for the
+ * current state when it opens.
+ */
+export function useVisualSyncFollower(visualId: string, onState: (state: VisualSyncState) => void) {
+  const channel = useVisualSyncChannel(visualId);
+  const onStateRef = useRef(onState);
+  useEffect(() => {
+    onStateRef.current = onState;
+  });
+
+  useEffect(() => {
+    if (!channel) return;
+    const unsubscribe = channel.subscribe((message) => {
+      if (message.type === 'state') {
+        onStateRef.current({
+          controls: message.controls,
+          modulations: message.modulations,
+          configName: typeof message.configName === 'string' ? message.configName : null,
+          morph: isControlMorphFrame(message.morph) ? message.morph : null,
+        });
+      }
+    });
+    channel.publish({ type: 'request' });
+    return unsubscribe;
+  }, [channel]);
+}
@@ -0,0 +1,529 @@
+/**
+ * Persistent storage for presets, preset thumbnails, gesture templates and session recordings.
+ *
+ * The app reads and writes synchronously (like `localStorage`, which the
+ * storage functions were written against), so the IndexedDB store keeps every
+ * entry in memory: it loads them once (`ready`), migrates the app's old
+ * localStorage entries on first run, and persists writes in the background.
+ * Where IndexedDB is missing (tests, old browsers) the same interface wraps
+ * localStorage directly.
+ *
+ * Entries remember when they were last used. When a write runs out of quota,
+ * least recently used entries the store may evict (recordings and preset
+ * thumbnails, never presets) are removed until it fits; `getUsage()` and
+ * `evictLeastRecentlyUsed()` back the storage panel's manual cleanup.
+ */
+
+export type StorageBackendKind = 'indexeddb' | 'localStorage' | 'memory';
+
+export interface StoredEntryInfo {
+  key: string;
+  /** Approximate size (UTF-16 key and value). */
+  bytes: number;
+  /** Last read or write (ms timestamp, 0 when unknown). */
+  accessedAt: number;
+}
+
+export interface StorageUsage {
+  entries: StoredEntryInfo[];
+  totalBytes: number;
+}
+
+export type AppStorageEvent =
+  | { type: 'ready' }
+  | { type: 'change'; key: string }
+  | { type: 'evicted'; keys: string[] }
+  | { type: 'error'; message: string };
+
+export interface AppStorage {
+  kind: StorageBackendKind;
+  /** Resolves once stored entries are loaded (reads before that only see entries written since). */
+  ready: Promise<void>;
+  isReady: () => boolean;
+  getItem: (key: string) => string | null;
+  /** Reads an entry without counting it as used. */
+  peekItem: (key: string) => string | null;
+  /**
+   * Resolves once the entry is stored. When it doesn't fit even after evicting, the entry is dropped and
+   * `StorageFullError` is thrown right away (localStorage) or rejects the promise (IndexedDB, which also reports it
+   * as an `error` event).
+   */
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => void;
+  keys: (prefix?: string) => string[];
+  /** Entries (optionally under a key prefix), least recently used first. */
+  getUsage: (prefix?: string) => StorageUsage;
+  /** Removes least recently used entries matching `filter` (default: evictable ones) until `bytes` are freed. Returns the removed keys. */
+  evictLeastRecentlyUsed: (bytes: number, filter?: (key: string) => boolean) => string[];
+  subscribe: (listener: (event: AppStorageEvent) => void) => () => void;
+  /** Resolves when pending writes are persisted. */
+  flush: () => Promise<void>;
+}
+
+export class StorageFullError extends Error {
+  constructor(key: string) {
+    super(`Not enough storage space for ${key}`);
+    this.name = 'StorageFullError';
+  }
+}
+
+export interface AppStorageOptions {
+  /** Entries that may be removed automatically to make room. */
+  isEvictable?: (key: string) => boolean;
+  now?: () => number;
+}
+
+export interface IndexedDbStoreOptions extends AppStorageOptions {
+  dbName?: string;
+  factory?: IDBFactory;
+  /** localStorage to migrate entries from on first run (only keys under `migratePrefixes`). */
+  legacy?: Storage | null;
+  migratePrefixes?: string[];
+  /**
+   * Entries holding JSON lists (e.g. a visual's preset IDs). A list written before the stored entries are loaded
+   * was built without them, so loading merges the stored items back in instead of dropping them.
+   */
+  isList?: (key: string) => boolean;
+}
+
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const MIGRATED_META_KEY = 'localStorageMigrated';
+// Reads refresh the stored access time at most this often
+const ACCESS_PERSIST_INTERVAL_MS = 60 * 60 * 1000;
+
+interface StoredRecord {
+  key: string;
+  value: string;
+  accessedAt: number;
+}
+
+const entryBytes = (key: string, value: string) => (key.length + value.length) * 2;
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof Error &&
+  (error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    (error as Partial<DOMException>).code === 22);
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+function openDatabase(factory: IDBFactory, name: string): Promise<IDBDatabase> {
+  const request = factory.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(ENTRIES_STORE)) db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+  };
+  return requestToPromise(request);
+}
+
+/** Stored items followed by the written ones not among them (items with an `id` are matched by it). */
+function mergeJsonLists(stored: string, written: string): string {
+  try {
+    const storedItems: unknown = JSON.parse(stored);
+    const writtenItems: unknown = JSON.parse(written);
+    if (!Array.isArray(storedItems) || !Array.isArray(writtenItems)) return written;
+    const identity = (item: unknown) =>
+      item && typeof item === 'object' && 'id' in item ? (item as Record<string, unknown>).id : item;
+    const seen = new Set(storedItems.map(identity));
+    return JSON.stringify([...storedItems, ...writtenItems.filter((item) => !seen.has(identity(item)))]);
+  } catch {
+    return written;
+  }
+}
+
+function createListeners() {
+  const listeners = new Set<(event: AppStorageEvent) => void>();
+  return {
+    emit: (event: AppStorageEvent) => listeners.forEach((listener) => listener(event)),
+    subscribe: (listener: (event: AppStorageEvent) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+function leastRecentlyUsed(entries: StoredEntryInfo[], bytes: number, filter: (key: string) => boolean): string[] {
+  const victims: string[] = [];
+  let freed = 0;
+  for (const entry of [...entries].sort((a, b) => a.accessedAt - b.accessedAt)) {
+    if (freed >= bytes) break;
+    if (!filter(entry.key)) continue;
+    victims.push(entry.key);
+    freed += entry.bytes;
+  }
+  return victims;
+}
+
+/** IndexedDB store with an in-memory copy of every entry (see the module comment). */
+export function createIndexedDbStore({
+  dbName = 'video-skeleton-storage',
+  factory = globalThis.indexedDB,
+  legacy = null,
+  migratePrefixes = [],
+  isEvictable = () => false,
+  isList = () => false,
+  now = Date.now,
+}: IndexedDbStoreOptions = {}): AppStorage {
+  const cache = new Map<string, StoredRecord & { persistedAccessAt: number }>();
+  const { emit, subscribe } = createListeners();
+  let db: IDBDatabase | null = null;
+  let ready = false;
+  // Writes are applied in order once the stored entries are loaded
+  let queue: Promise<void> = Promise.resolve();
+  // Keys removed while loading (loading skips their stored records)
+  const removedWhileLoading = new Set<string>();
+
+  // Failures reject the returned promise and are reported as `error` events
+  const enqueue = (write: (db: IDBDatabase) => Promise<void>) => {
+    const result = queue.then(() => store.ready).then(() => (db ? write(db) : undefined));
+    queue = result.catch((error: unknown) => {
+      console.error('Error writing to storage:', error);
+      emit({ type: 'error', message: error instanceof Error ? error.message : 'Storage write failed' });
+    });
+    return result;
+  };
+
+  const putRecord = (database: IDBDatabase, record: StoredRecord) => {
+    const tx = database.transaction(ENTRIES_STORE, 'readwrite');
+    tx.objectStore(ENTRIES_STORE).put(record);
+    return transactionDone(tx);
+  };
+
+  const deleteRecords = (database: IDBDatabase, keys: string[]) => {
+    const tx = database.transaction(ENTRIES_STORE, 'readwrite');
+    for (const key of keys) tx.objectStore(ENTRIES_STORE).delete(key);
+    return transactionDone(tx);
+  };
+
+  const deleteStored = (keys: string[]) => {
+    if (!db) for (const key of keys) removedWhileLoading.add(key);
+    enqueue((database) => deleteRecords(database, keys));
+  };
+
+  const persist = (key: string) =>
+    enqueue(async (database) => {
+      const entry = cache.get(key);
+      if (!entry) return;
+      const record = { key, value: entry.value, accessedAt: entry.accessedAt };
+      // Out of quota: drop the least recently used evictable entry and retry until it fits
+      for (;;) {
+        try {
+          await putRecord(database, record);
+          break;
+        } catch (error) {
+          if (!isQuotaExceededError(error)) throw error;
+          const evicted = dropLeastRecentlyUsed(1, (k) => k !== key && isEvictable(k));
+          if (evicted.length === 0) throw new StorageFullError(key);
+          await deleteRecords(database, evicted);
+        }
+      }
+      entry.persistedAccessAt = entry.accessedAt;
+    });
+
+  const getEntries = (prefix = ''): StoredEntryInfo[] =>
+    Array.from(cache, ([key, entry]) => ({ key, bytes: entryBytes(key, entry.value), accessedAt: entry.accessedAt })).filter(
+      (entry) => entry.key.startsWith(prefix)
+    );
+
+  // Removes entries from memory only (callers delete the records)
+  const dropLeastRecentlyUsed = (bytes: number, filter: (key: string) => boolean) => {
+    const victims = leastRecentlyUsed(getEntries(), bytes, filter);
+    if (victims.length === 0) return victims;
+    for (const key of victims) cache.delete(key);
+    emit({ type: 'evicted', keys: victims });
+    return victims;
+  };
+
+  const store: AppStorage = {
+    kind: 'indexeddb',
+    ready: Promise.resolve(),
+    isReady: () => ready,
+    getItem: (key) => {
+      const entry = cache.get(key);
+      if (!entry) return null;
+      entry.accessedAt = now();
+      if (entry.accessedAt - entry.persistedAccessAt > ACCESS_PERSIST_INTERVAL_MS) persist(key);
+      return entry.value;
+    },
+    peekItem: (key) => cache.get(key)?.value ?? null,
+    setItem: (key, value) => {
+      const previous = cache.get(key);
+      const entry = { key, value, accessedAt: now(), persistedAccessAt: 0 };
+      cache.set(key, entry);
+      emit({ type: 'change', key });
+      const persisted = persist(key).catch((error: unknown) => {
+        // Not stored: drop the entry again (unless it changed since) so it doesn't look saved until a reload
+        if (cache.get(key) === entry) {
+          if (previous) cache.set(key, previous);
+          else cache.delete(key);
+          emit({ type: 'change', key });
+        }
+        throw error;
+      });
+      // Callers may ignore the result
+      persisted.catch(() => {});
+      return persisted;
+    },
+    removeItem: (key) => {
+      const cached = cache.delete(key);
+      // While loading, the stored record may not be in memory yet
+      if (cached || !db) deleteStored([key]);
+      if (cached) emit({ type: 'change', key });
+    },
+    keys: (prefix = '') => Array.from(cache.keys()).filter((key) => key.startsWith(prefix)),
+    getUsage: (prefix) => {
+      const entries = getEntries(prefix).sort((a, b) => a.accessedAt - b.accessedAt);
+      return { entries, totalBytes: entries.reduce((sum, entry) => sum + entry.bytes, 0) };
+    },
+    evictLeastRecentlyUsed: (bytes, filter = isEvictable) => {
+      const victims = dropLeastRecentlyUsed(bytes, filter);
+      if (victims.length > 0) deleteStored(victims);
+      return victims;
+    },
+    subscribe,
+    flush: async () => {
+      await store.ready;
+      let pending: Promise<void>;
+      do {
+        pending = queue;
+        await pending;
+      } while (pending !== queue);
+    },
+  };
+
+  // A list written while loading keeps the stored items too (unless it was removed first)
+  const mergeStoredList = (key: string, stored: string) => {
+    const entry = cache.get(key);
+    if (!entry || entry.persistedAccessAt !== 0 || !isList(key)) return;
+    entry.value = mergeJsonLists(stored, entry.value);
+  };
+
+  const hydrate = async () => {
+    if (!factory) throw new Error('IndexedDB is not available');
+    const database = await openDatabase(factory, dbName);
+    const records = await requestToPromise(
+      database.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll() as IDBRequest<StoredRecord[]>
+    );
+    // Entries written or removed while loading are newer than the stored ones (lists are merged)
+    for (const record of records) {
+      if (removedWhileLoading.has(record.key)) continue;
+      if (cache.has(record.key)) mergeStoredList(record.key, record.value);
+      else cache.set(record.key, { ...record, persistedAccessAt: record.accessedAt });
+    }
+
+    const migrated = await requestToPromise(database.transaction(META_STORE).objectStore(META_STORE).get(MIGRATED_META_KEY));
+    if (!migrated && legacy) {
+      const legacyKeys: string[] = [];
+      for (let i = 0; i < legacy.length; i++) {
+        const key = legacy.key(i);
+        if (key && migratePrefixes.some((prefix) => key.startsWith(prefix))) legacyKeys.push(key);
+      }
+      const tx = database.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+      for (const key of legacyKeys) {
+        const value = legacy.getItem(key);
+        if (value === null || removedWhileLoading.has(key)) continue;
+        if (cache.has(key)) {
+          mergeStoredList(key, value);
+          continue;
+        }
+        const record = { key, value, accessedAt: now() };
+        cache.set(key, { ...record, persistedAccessAt: record.accessedAt });
+        tx.objectStore(ENTRIES_STORE).put(record);
+      }
+      tx.objectStore(META_STORE).put(now(), MIGRATED_META_KEY);
+      await transactionDone(tx);
+      for (const key of legacyKeys) legacy.removeItem(key);
+    } else if (!migrated) {
+      const tx = database.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(now(), MIGRATED_META_KEY);
+      await transactionDone(tx);
+    }
+
+    // Writes and removals made while loading are queued until now
+    db = database;
+    removedWhileLoading.clear();
+  };
+
+  store.ready = hydrate()
+    .catch((error: unknown) => {
+      console.error('Error opening storage, changes will not be kept:', error);
+      emit({ type: 'error', message: 'Browser storage is unavailable; changes will not be kept' });
+    })
+    .then(() => {
+      ready = true;
+      emit({ type: 'ready' });
+    });
+
+  return store;
+}
+
+/** Store over a `Storage` (localStorage); access times are only tracked for this session. */
+export function createWebStorageStore(
+  storage: Storage,
+  { isEvictable = () => false, now = Date.now }: AppStorageOptions = {}
+): AppStorage {
+  const accessedAt = new Map<string, number>();
+  const { emit, subscribe } = createListeners();
+
+  const keys = (prefix = '') => {
+    const result: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null && key.startsWith(prefix)) result.push(key);
+    }
+    return result;
+  };
+
+  const getEntries = (prefix?: string): StoredEntryInfo[] =>
+    keys(prefix).map((key) => ({
+      key,
+      bytes: entryBytes(key, storage.getItem(key) ?? ''),
+      accessedAt: accessedAt.get(key) ?? 0,
+    }));
+
+  const store: AppStorage = {
+    kind: 'localStorage',
+    ready: Promise.resolve(),
+    isReady: () => true,
+    getItem: (key) => {
+      const value = storage.getItem(key);
+      if (value !== null) accessedAt.set(key, now());
+      return value;
+    },
+    peekItem: (key) => storage.getItem(key),
+    setItem: (key, value) => {
+      // Out of quota: drop the least recently used evictable entry and retry until it fits
+      for (;;) {
+        try {
+          storage.setItem(key, value);
+          break;
+        } catch (error) {
+          if (!isQuotaExceededError(error)) throw error;
+          const evicted = store.evictLeastRecentlyUsed(1, (k) => k !== key && isEvictable(k));
+          if (evicted.length === 0) throw new StorageFullError(key);
+        }
+      }
+      accessedAt.set(key, now());
+      emit({ type: 'change', key });
+      return Promise.resolve();
+    },
+    removeItem: (key) => {
+      storage.removeItem(key);
+      accessedAt.delete(key);
+      emit({ type: 'change', key });
+    },
+    keys,
+    getUsage: (prefix) => {
+      const entries = getEntries(prefix).sort((a, b) => a.accessedAt - b.accessedAt);
+      return { entries, totalBytes: entries.reduce((sum, entry) => sum + entry.bytes, 0) };
+    },
+    evictLeastRecentlyUsed: (bytes, filter = isEvictable) => {
+      const victims = leastRecentlyUsed(getEntries(), bytes, filter);
+      if (victims.length === 0) return victims;
+      for (const key of victims) {
+        storage.removeItem(key);
+        accessedAt.delete(key);
+      }
+      emit({ type: 'evicted', keys: victims });
+      return victims;
+    },
+    subscribe,
+    flush: () => Promise.resolve(),
+  };
+  return store;
+}
+
+/** Non-persistent store (server rendering). */
+export function createMemoryStore(options?: AppStorageOptions): AppStorage {
+  const values = new Map<string, string>();
+  const storage: Storage = {
+    get length() {
+      return values.size;
+    },
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, String(value));
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    clear: () => values.clear(),
+  };
+  return { ...createWebStorageStore(storage, options), kind: 'memory' };
+}
+
+/** Key prefixes of entries that used to live in localStorage (moved to IndexedDB on first run). */
+export const LEGACY_STORAGE_PREFIXES = ['visual-config', 'visual-gesture-templates'];
+
+// Preset ID lists, gesture template lists and the recording list (see `visualConfigStorage.ts`)
+const LIST_STORAGE_PREFIXES = ['visual-config-list:', 'visual-gesture-templates:', 'landmark-session-list'];
+const isListEntry = (key: string) => LIST_STORAGE_PREFIXES.some((prefix) => key.startsWith(prefix));
+
+// Recordings can be downloaded and recorded again and thumbnails retaken; presets and gesture templates are never evicted
+const isEvictableEntry = (key: string) => key.startsWith('landmark-session:') || key.startsWith('preset-thumbnail:');
+
+let appStorage: AppStorage | null = null;
+
+/**
+ * The app's storage: IndexedDB in browsers that have it, localStorage
+ * otherwise, memory on the server.
+ */
+export function getAppStorage(): AppStorage {
+  if (appStorage) return appStorage;
+  if (typeof window === 'undefined') return createMemoryStore();
+  const legacy = getLocalStorage();
+  if (typeof indexedDB !== 'undefined') {
+    appStorage = createIndexedDbStore({
+      legacy,
+      migratePrefixes: LEGACY_STORAGE_PREFIXES,
+      isEvictable: isEvictableEntry,
+      isList: isListEntry,
+    });
+  } else {
+    appStorage = legacy ? createWebStorageStore(legacy, { isEvictable: isEvictableEntry }) : createMemoryStore();
+  }
+  return appStorage;
+}
+
+function getLocalStorage(): Storage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/** Origin-wide usage and quota reported by the browser (null when unsupported). */
+export async function estimateStorageQuota(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (!estimate || estimate.quota === undefined) return null;
+    return { usage: estimate.usage ?? 0, quota: estimate.quota };
+  } catch {
+    return null;
+  }
+}
+
+/** `512 B`, `14.2 KB`, `3.1 MB`. */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,282 @@
+/**
+ * Audio analysis for audio-reactive modulation (see `audioInput.ts` for the Web Audio side).
+ *
+ * `createAudioAnalyser()` takes successive windows of mono samples (the latest `fftSize` samples, e.g. from an
+ * `AnalyserNode` once per animation frame) and returns `AudioFeatures`:
+ *   - RMS and bass / mid / treble band energies, auto-gained to 0..1 against a slowly decaying peak
+ *   - onsets from low-frequency spectral flux against an adaptive threshold (mean + k·std of the last second);
+ *     an onset is a beat, with a pulse that decays after it
+ *   - a tempo estimate from the intervals between recent beats, folded into 60-180 BPM
+ * It only depends on samples and timestamps, so `analyzeAudioSamples()` runs the same analysis offline (tests
+ * against WAV fixtures, offline rendering).
+ */
+
+export interface AudioFeatures {
+  /** Analysis time in ms. */
+  time: number;
+  /** Root mean square of the window (0..1 for full-scale input). */
+  rms: number;
+  /** Auto-gained RMS, 0..1. */
+  level: number;
+  /** Auto-gained band energies, 0..1. */
+  bass: number;
+  mid: number;
+  treble: number;
+  /** Onset strength against the adaptive threshold, 0..1 (1 = at or above it). */
+  onset: number;
+  /** True on the window where a beat was detected. */
+  beat: boolean;
+  /** 1 on a beat, decaying towards 0 until the next one. */
+  beatPulse: number;
+  /** Tempo estimate, or null until enough beats were heard. */
+  bpm: number | null;
+}
+
+export const SILENT_AUDIO_FEATURES: AudioFeatures = {
+  time: 0,
+  rms: 0,
+  level: 0,
+  bass: 0,
+  mid: 0,
+  treble: 0,
+  onset: 0,
+  beat: false,
+  beatPulse: 0,
+  bpm: null,
+};
+
+export const AUDIO_MIN_BPM = 60;
+export const AUDIO_MAX_BPM = 180;
+
+// Band edges (Hz)
+const BASS_MAX_HZ = 150;
+const MID_MAX_HZ = 2000;
+const TREBLE_MAX_HZ = 16000;
+// Kicks and bass lines carry the beat
+const ONSET_MAX_HZ = 250;
+
+// Auto gain: peaks fall by half every AGC_HALF_LIFE_MS; below AGC_FLOOR the input counts as silence
+const AGC_HALF_LIFE_MS = 4000;
+const AGC_FLOOR = 1e-4;
+const RMS_AGC_FLOOR = 0.005;
+
+const ONSET_HISTORY_MS = 1000;
+const ONSET_THRESHOLD_STD = 2;
+// ...and several times the average (steady noise fluctuates up to ~3x)
+const ONSET_MIN_RATIO = 4;
+// Onsets closer than this are one beat (caps detection at 200 BPM)
+const MIN_BEAT_INTERVAL_MS = 300;
+const BEAT_PULSE_DECAY_MS = 150;
+// Tempo from the beats of the last few seconds
+const TEMPO_HISTORY_MS = 8000;
+const MIN_BEATS_FOR_TEMPO = 4;
+
+/** FFT size for about 40 ms windows at `sampleRate` (2048 at 44.1/48 kHz). */
+export function fftSizeForSampleRate(sampleRate: number): number {
+  let size = 256;
+  while (size < sampleRate * 0.04 && size < 32768) size *= 2;
+  return size;
+}
+
+/** In-place iterative radix-2 FFT; `re.length` must be a power of two. */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size *= 2) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+/**
+ * Tempo from beat times (ms): each interval is folded into 60-180 BPM and the most common tempo (±2 BPM) wins,
+ * refined to the mean of its intervals. Null with fewer than `MIN_BEATS_FOR_TEMPO` beats.
+ */
+export function estimateBpm(beatTimes: number[]): number | null {
+  if (beatTimes.length < MIN_BEATS_FOR_TEMPO) return null;
+  const tempos: number[] = [];
+  for (let i = 1; i < beatTimes.length; i++) {
+    let bpm = 60000 / (beatTimes[i] - beatTimes[i - 1]);
+    if (!Number.isFinite(bpm) || bpm <= 0) continue;
+    while (bpm < AUDIO_MIN_BPM) bpm *= 2;
+    while (bpm > AUDIO_MAX_BPM) bpm /= 2;
+    tempos.push(bpm);
+  }
+  let best: number[] = [];
+  for (const tempo of tempos) {
+    const near = tempos.filter((t) => Math.abs(t - tempo) <= 2);
+    if (near.length > best.length) best = near;
+  }
+  // Irregular onsets (no tempo agrees with a third of the intervals) aren't a beat
+  if (best.length < Math.max(2, tempos.length / 3)) return null;
+  return best.reduce((sum, t) => sum + t, 0) / best.length;
+}
+
+export interface AudioAnalyser {
+  /** Analyses the latest window (at least `fftSize` samples; the last `fftSize` are used) at `time` ms. */
+  process: (samples: ArrayLike<number>, time: number) => AudioFeatures;
+  reset: () => void;
+  fftSize: number;
+}
+
+export interface AudioAnalyserOptions {
+  sampleRate: number;
+  /** Defaults to `fftSizeForSampleRate(sampleRate)`. */
+  fftSize?: number;
+}
+
+export function createAudioAnalyser({ sampleRate, fftSize = fftSizeForSampleRate(sampleRate) }: AudioAnalyserOptions): AudioAnalyser {
+  const bins = fftSize / 2;
+  const binHz = sampleRate / fftSize;
+  const bandEnd = (hz: number) => Math.max(1, Math.min(bins, Math.round(hz / binHz)));
+  const bassEnd = bandEnd(BASS_MAX_HZ);
+  const midEnd = Math.max(bassEnd + 1, bandEnd(MID_MAX_HZ));
+  const trebleEnd = Math.max(midEnd + 1, bandEnd(TREBLE_MAX_HZ));
+  const onsetEnd = bandEnd(ONSET_MAX_HZ);
+
+  const window = new Float64Array(fftSize);
+  for (let i = 0; i < fftSize; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1));
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+
+  let previousSpectrum: Float64Array | null = null;
+  let peaks = { rms: 0, bass: 0, mid: 0, treble: 0 };
+  let flux: Array<{ time: number; value: number }> = [];
+  let beatTimes: number[] = [];
+  let lastTime: number | null = null;
+  let lastBeat = -Infinity;
+  let aboveThreshold = false;
+
+  const bandEnergy = (spectrum: Float64Array, from: number, to: number) => {
+    let sum = 0;
+    for (let k = from; k < to; k++) sum += spectrum[k] * spectrum[k];
+    return sum / Math.max(1, to - from);
+  };
+
+  const reset = () => {
+    previousSpectrum = null;
+    peaks = { rms: 0, bass: 0, mid: 0, treble: 0 };
+    flux = [];
+    beatTimes = [];
+    lastTime = null;
+    lastBeat = -Infinity;
+    aboveThreshold = false;
+  };
+
+  return {
+    fftSize,
+    process(samples, time) {
+      // The latest fftSize samples; shorter windows are zero-padded in front
+      const count = Math.min(fftSize, samples.length);
+      const offset = samples.length - count;
+      const pad = fftSize - count;
+      let sumSquares = 0;
+      for (let i = 0; i < fftSize; i++) {
+        const sample = i < pad ? 0 : samples[offset + i - pad];
+        sumSquares += sample * sample;
+        re[i] = sample * window[i];
+        im[i] = 0;
+      }
+      fft(re, im);
+      const spectrum = new Float64Array(bins);
+      for (let k = 0; k < bins; k++) spectrum[k] = Math.hypot(re[k], im[k]) / bins;
+
+      // Time went backwards (new source, looped file): start over
+      if (lastTime !== null && time < lastTime) reset();
+      const dt = lastTime === null ? 0 : time - lastTime;
+      lastTime = time;
+      const decay = Math.pow(0.5, dt / AGC_HALF_LIFE_MS);
+
+      const raw = {
+        rms: count > 0 ? Math.sqrt(sumSquares / count) : 0,
+        bass: bandEnergy(spectrum, 1, bassEnd),
+        mid: bandEnergy(spectrum, bassEnd, midEnd),
+        treble: bandEnergy(spectrum, midEnd, trebleEnd),
+      };
+      const gained = (key: keyof typeof raw, floor: number) => {
+        const peak = Math.max(raw[key], peaks[key] * decay, floor);
+        peaks = { ...peaks, [key]: peak };
+        return Math.min(1, raw[key] / peak);
+      };
+      const level = gained('rms', RMS_AGC_FLOOR);
+      const bass = gained('bass', AGC_FLOOR);
+      const mid = gained('mid', AGC_FLOOR);
+      const treble = gained('treble', AGC_FLOOR);
+
+      // Low-frequency spectral flux of log magnitudes
+      let value = 0;
+      if (previousSpectrum) {
+        for (let k = 1; k < onsetEnd; k++) {
+          value += Math.max(0, Math.log1p(1000 * spectrum[k]) - Math.log1p(1000 * previousSpectrum[k]));
+        }
+      }
+      previousSpectrum = spectrum;
+
+      flux = flux.filter((entry) => time - entry.time <= ONSET_HISTORY_MS);
+      const mean = flux.reduce((sum, entry) => sum + entry.value, 0) / Math.max(1, flux.length);
+      const variance = flux.reduce((sum, entry) => sum + (entry.value - mean) ** 2, 0) / Math.max(1, flux.length);
+      const threshold = mean + ONSET_THRESHOLD_STD * Math.sqrt(variance);
+      flux.push({ time, value });
+
+      const wasAbove = aboveThreshold;
+      aboveThreshold = flux.length > 2 && value > threshold && value > mean * ONSET_MIN_RATIO && value > 0.01 * onsetEnd;
+      const beat = aboveThreshold && !wasAbove && time - lastBeat >= MIN_BEAT_INTERVAL_MS;
+      if (beat) {
+        lastBeat = time;
+        beatTimes.push(time);
+      }
+      beatTimes = beatTimes.filter((t) => time - t <= TEMPO_HISTORY_MS);
+
+      return {
+        time,
+        rms: raw.rms,
+        level,
+        bass,
+        mid,
+        treble,
+        onset: threshold > 0 ? Math.min(1, value / threshold) : 0,
+        beat,
+        beatPulse: Number.isFinite(lastBeat) ? Math.exp(-(time - lastBeat) / BEAT_PULSE_DECAY_MS) : 0,
+        bpm: estimateBpm(beatTimes),
+      };
+    },
+    reset,
+  };
+}
+
+/**
+ * Runs the analyser over a whole recording, one window every `hopMs` (a 60 fps display by default), the way it
+ * runs live.
+ */
+export function analyzeAudioSamples(samples: Float32Array, sampleRate: number, hopMs = 1000 / 60): AudioFeatures[] {
+  const analyser = createAudioAnalyser({ sampleRate });
+  const features: AudioFeatures[] = [];
+  for (let time = 0; ; time += hopMs) {
+    const end = Math.round((time / 1000) * sampleRate);
+    if (end > samples.length) break;
+    const window = samples.subarray(Math.max(0, end - analyser.fftSize), end);
+    features.push(analyser.process(window, time));
+  }
+  return features;
+}
@@ -0,0 +1,196 @@
+import {
+  SILENT_AUDIO_FEATURES,
+  createAudioAnalyser,
+  fftSizeForSampleRate,
+  type AudioFeatures,
+} from './audioAnalysis';
+
+/**
+ * Web Audio input for audio-reactive modulation: a microphone / line input or a local audio file (looped, and
+ * audible, for testing without a sound system). An `AnalyserNode` supplies the latest samples once per animation
+ * frame and `audioAnalysis.ts` turns them into `AudioFeatures`.
+ * Browsers keep audio suspended until the page gets a click or key press; `resume()` restarts it.
+ */
+
+export type AudioInputStatus = 'idle' | 'pending' | 'running' | 'suspended' | 'denied' | 'unsupported' | 'error';
+
+export type AudioInputSource =
+  /** `deviceId` '' is the default input. */
+  | { kind: 'device'; deviceId: string }
+  | { kind: 'file'; file: Blob };
+
+/** Persisted input choice (files are not persisted). */
+export interface AudioInputSettings {
+  enabled: boolean;
+  deviceId: string;
+}
+
+export const DEFAULT_AUDIO_INPUT_SETTINGS: AudioInputSettings = { enabled: false, deviceId: '' };
+
+export function normalizeAudioInputSettings(value: unknown): AudioInputSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof AudioInputSettings, unknown>>;
+  return {
+    enabled: input.enabled === true,
+    deviceId: typeof input.deviceId === 'string' ? input.deviceId : '',
+  };
+}
+
+export type AudioFeaturesListener = (features: AudioFeatures) => void;
+
+export interface AudioInput {
+  /** Replaces the current source. */
+  start: (source: AudioInputSource) => void;
+  stop: () => void;
+  /** Resumes audio the browser suspended until a user gesture. */
+  resume: () => void;
+  /** Called once per analysed animation frame, and with silence on stop. Returns an unsubscribe function. */
+  subscribe: (listener: AudioFeaturesListener) => () => void;
+  getLatestFeatures: () => AudioFeatures;
+  getStatus: () => AudioInputStatus;
+}
+
+export interface AudioInputOptions {
+  onStatusChange?: (status: AudioInputStatus) => void;
+}
+
+interface ActiveInput {
+  context: AudioContext;
+  stream: MediaStream | null;
+  element: HTMLAudioElement | null;
+  objectUrl: string | null;
+  frame: number | null;
+}
+
+export function createAudioInput(options: AudioInputOptions = {}): AudioInput {
+  const { onStatusChange } = options;
+  const listeners = new Set<AudioFeaturesListener>();
+  let active: ActiveInput | null = null;
+  let latest = SILENT_AUDIO_FEATURES;
+  let status: AudioInputStatus = 'idle';
+
+  const setStatus = (next: AudioInputStatus) => {
+    if (next === status) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const emit = (features: AudioFeatures) => {
+    latest = features;
+    listeners.forEach((listener) => listener(features));
+  };
+
+  const teardown = () => {
+    if (!active) return;
+    const { context, stream, element, objectUrl, frame } = active;
+    active = null;
+    if (frame !== null) cancelAnimationFrame(frame);
+    stream?.getTracks().forEach((track) => track.stop());
+    element?.pause();
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+    context.onstatechange = null;
+    context.close().catch(() => {
+      // ignore: already closed
+    });
+  };
+
+  // Connects a source node and analyses the latest window on every animation frame
+  const run = (input: ActiveInput, node: AudioNode, audible: boolean) => {
+    const { context } = input;
+    const analyserNode = context.createAnalyser();
+    analyserNode.fftSize = fftSizeForSampleRate(context.sampleRate);
+    node.connect(analyserNode);
+    if (audible) analyserNode.connect(context.destination);
+    const analyser = createAudioAnalyser({ sampleRate: context.sampleRate, fftSize: analyserNode.fftSize });
+    const samples = new Float32Array(analyserNode.fftSize);
+
+    const tick = () => {
+      if (active !== input) return;
+      if (context.state === 'running') {
+        analyserNode.getFloatTimeDomainData(samples);
+        emit(analyser.process(samples, context.currentTime * 1000));
+      }
+      input.frame = requestAnimationFrame(tick);
+    };
+    context.onstatechange = () => {
+      if (active === input) setStatus(context.state === 'running' ? 'running' : 'suspended');
+    };
+    setStatus(context.state === 'running' ? 'running' : 'suspended');
+    input.frame = requestAnimationFrame(tick);
+  };
+
+  return {
+    start(source) {
+      teardown();
+      if (typeof AudioContext === 'undefined') {
+        setStatus('unsupported');
+        return;
+      }
+      const input: ActiveInput = { context: new AudioContext(), stream: null, element: null, objectUrl: null, frame: null };
+      active = input;
+
+      if (source.kind === 'file') {
+        input.objectUrl = URL.createObjectURL(source.file);
+        input.element = new Audio(input.objectUrl);
+        input.element.loop = true;
+        run(input, input.context.createMediaElementSource(input.element), true);
+        input.element.play().catch(() => setStatus('suspended'));
+        return;
+      }
+
+      if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+        teardown();
+        setStatus('unsupported');
+        return;
+      }
+      setStatus('pending');
+      navigator.mediaDevices
+        .getUserMedia({
+          // Raw signal: voice processing would flatten the music
+          audio: {
+            deviceId: source.deviceId ? { exact: source.deviceId } : undefined,
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false,
+          },
+        })
+        .then(
+          (stream) => {
+            if (active !== input) {
+              stream.getTracks().forEach((track) => track.stop());
+              return;
+            }
+            input.stream = stream;
+            run(input, input.context.createMediaStreamSource(stream), false);
+          },
+          (error: unknown) => {
+            if (active !== input) return;
+            console.error('Audio input failed:', error);
+            teardown();
+            setStatus(error instanceof DOMException && error.name === 'NotAllowedError' ? 'denied' : 'error');
+          }
+        );
+    },
+    stop() {
+      teardown();
+      emit(SILENT_AUDIO_FEATURES);
+      setStatus('idle');
+    },
+    resume() {
+      if (!active) return;
+      active.context.resume().catch(() => {
+        // ignore: still not allowed
+      });
+      active.element?.play().catch(() => {
+        // ignore: still not allowed
+      });
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getLatestFeatures: () => latest,
+    getStatus: () => status,
+  };
+}
@@ -0,0 +1,429 @@
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import { HAND_CONNECTIONS_LIST } from '@/lib/mediapipe';
+
+/**
+ * Capture of a rendered visual: PNG snapshots and WebM/MP4 recordings of its canvas (`canvas.captureStream()` +
+ * `MediaRecorder`), optionally with the camera feed and skeleton composited as a picture-in-picture.
+ * The visual's canvas is read through its capture stream (a hidden video) rather than drawn directly, so WebGL
+ * canvases don't need `preserveDrawingBuffer`.
+ */
+
+export type CaptureFormat = 'webm' | 'mp4';
+
+export const CAPTURE_FORMATS: CaptureFormat[] = ['webm', 'mp4'];
+
+export const CAPTURE_FORMAT_LABELS: Record<CaptureFormat, string> = {
+  webm: 'WebM (VP9/VP8)',
+  mp4: 'MP4 (H.264)',
+};
+
+/** Output height; the width follows the canvas aspect ratio. */
+export type CaptureResolution = 'native' | '720p' | '1080p' | '1440p' | '2160p';
+
+export const CAPTURE_RESOLUTIONS: CaptureResolution[] = ['native', '720p', '1080p', '1440p', '2160p'];
+
+export const CAPTURE_RESOLUTION_LABELS: Record<CaptureResolution, string> = {
+  native: 'Canvas size',
+  '720p': '720p',
+  '1080p': '1080p',
+  '1440p': '1440p',
+  '2160p': '2160p (4K)',
+};
+
+const RESOLUTION_HEIGHTS: Record<Exclude<CaptureResolution, 'native'>, number> = {
+  '720p': 720,
+  '1080p': 1080,
+  '1440p': 1440,
+  '2160p': 2160,
+};
+
+export const CAPTURE_FRAME_RATES = [30, 60];
+
+export interface CaptureSettings {
+  format: CaptureFormat;
+  resolution: CaptureResolution;
+  /** Composite the camera feed and skeleton into the bottom-right corner. */
+  pip: boolean;
+  /** Recording frame rate. */
+  fps: number;
+}
+
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  format: 'webm',
+  resolution: 'native',
+  pip: false,
+  fps: 30,
+};
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+export function normalizeCaptureSettings(value: unknown): CaptureSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof CaptureSettings, unknown>>;
+  return {
+    format: isOneOf(CAPTURE_FORMATS, input.format) ? input.format : DEFAULT_CAPTURE_SETTINGS.format,
+    resolution: isOneOf(CAPTURE_RESOLUTIONS, input.resolution) ? input.resolution : DEFAULT_CAPTURE_SETTINGS.resolution,
+    pip: input.pip === true,
+    fps: typeof input.fps === 'number' && CAPTURE_FRAME_RATES.includes(input.fps) ? input.fps : DEFAULT_CAPTURE_SETTINGS.fps,
+  };
+}
+
+/**
+ * Resolutions a canvas `sourceHeight` pixels tall can be captured at. Captures are scaled from the canvas as it is
+ * rendered, so taller ones would only be upscaled.
+ */
+export function getCaptureResolutions(sourceHeight: number): CaptureResolution[] {
+  return CAPTURE_RESOLUTIONS.filter((resolution) => resolution === 'native' || RESOLUTION_HEIGHTS[resolution] <= sourceHeight);
+}
+
+/**
+ * Output size for a canvas of `sourceWidth`×`sourceHeight` (even, as video encoders require). Resolutions taller than
+ * the canvas give the canvas size (see `getCaptureResolutions`).
+ */
+export function getCaptureSize(
+  resolution: CaptureResolution,
+  sourceWidth: number,
+  sourceHeight: number
+): { width: number; height: number } {
+  const even = (v: number) => Math.max(2, Math.round(v / 2) * 2);
+  if (resolution === 'native' || sourceWidth <= 0 || RESOLUTION_HEIGHTS[resolution] > sourceHeight) {
+    return { width: even(sourceWidth), height: even(sourceHeight) };
+  }
+  const height = RESOLUTION_HEIGHTS[resolution];
+  return { width: even((height * sourceWidth) / sourceHeight), height };
+}
+
+export interface CaptureRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Picture-in-picture: a quarter of the frame width, inset from the bottom-right corner
+const PIP_WIDTH_RATIO = 0.25;
+const PIP_MARGIN_RATIO = 0.02;
+const DEFAULT_PIP_ASPECT = 4 / 3;
+
+/** Bottom-right picture-in-picture rectangle keeping the inset's aspect ratio. */
+export function getPipRect(width: number, height: number, insetWidth: number, insetHeight: number): CaptureRect {
+  const aspect = insetWidth > 0 && insetHeight > 0 ? insetWidth / insetHeight : DEFAULT_PIP_ASPECT;
+  const margin = Math.round(Math.min(width, height) * PIP_MARGIN_RATIO);
+  const pipWidth = Math.round(width * PIP_WIDTH_RATIO);
+  const pipHeight = Math.round(pipWidth / aspect);
+  return { x: width - margin - pipWidth, y: height - margin - pipHeight, width: pipWidth, height: pipHeight };
+}
+
+// Keeps offline render frames (`<name>/frame_0000000.png`) within the 100 bytes of a tar entry name
+const MAX_SLUG_LENGTH = 32;
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH + 1)
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+
+/**
+ * `viz6_stage-blue_20261019-170503.png`: visual, config (when one is loaded) and local time. Long names are cut
+ * short. An empty extension gives a bare name (folders).
+ */
+export function formatCaptureFileName(
+  visualId: string,
+  configName: string | null,
+  extension: string,
+  date: Date = new Date()
+): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp =
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  const parts = [slugify(visualId) || 'visual', configName ? slugify(configName) : '', stamp].filter(Boolean);
+  return extension ? `${parts.join('_')}.${extension}` : parts.join('_');
+}
+
+const RECORDER_MIME_TYPES: Record<CaptureFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E', 'video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+/**
+ * First `MediaRecorder` type the browser supports for `format`, falling back to the other format (Safari only
+ * records MP4, older Firefox only WebM). Null when nothing is supported.
+ */
+export function pickRecorderMimeType(format: CaptureFormat, isTypeSupported: (type: string) => boolean): string | null {
+  const other: CaptureFormat = format === 'webm' ? 'mp4' : 'webm';
+  return [...RECORDER_MIME_TYPES[format], ...RECORDER_MIME_TYPES[other]].find((type) => isTypeSupported(type)) ?? null;
+}
+
+export const getCaptureExtension = (mimeType: string): CaptureFormat => (mimeType.startsWith('video/mp4') ? 'mp4' : 'webm');
+
+export interface CaptureSources {
+  /** The visual's canvas. */
+  canvas: HTMLCanvasElement;
+  /** Camera feed with its skeleton overlay (the tracking feed canvas), when one is on the page. */
+  feedCanvas?: HTMLCanvasElement | null;
+  /** Hands for a drawn skeleton when there is no feed canvas. */
+  getHands?: () => Hand3DData[];
+}
+
+/** Draws hands (mirrored like the camera feed) on black into `rect`. */
+function drawSkeleton(ctx: CanvasRenderingContext2D, hands: Hand3DData[], rect: CaptureRect) {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  const point = (landmark: { x: number; y: number }) =>
+    [rect.x + (1 - landmark.x) * rect.width, rect.y + landmark.y * rect.height] as const;
+  ctx.lineWidth = Math.max(1, rect.width / 160);
+  ctx.strokeStyle = '#00FF00';
+  for (const hand of hands) {
+    ctx.beginPath();
+    for (const [from, to] of HAND_CONNECTIONS_LIST) {
+      const a = hand.landmarks[from];
+      const b = hand.landmarks[to];
+      if (!a || !b) continue;
+      ctx.moveTo(...point(a));
+      ctx.lineTo(...point(b));
+    }
+    ctx.stroke();
+  }
+}
+
+interface CanvasReader {
+  video: HTMLVideoElement;
+  stop: () => void;
+}
+
+/** Plays a canvas's capture stream into a detached video element. */
+async function readCanvas(canvas: HTMLCanvasElement, fps?: number): Promise<CanvasReader> {
+  const stream = canvas.captureStream(fps);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  const stop = () => {
+    stream.getTracks().forEach((track) => track.stop());
+    video.srcObject = null;
+  };
+  try {
+    await video.play();
+    if (video.videoWidth === 0) {
+      await new Promise<void>((resolve) => video.addEventListener('resize', () => resolve(), { once: true }));
+    }
+  } catch (error) {
+    stop();
+    throw error;
+  }
+  return { video, stop };
+}
+
+/** 2D canvas that draws the visual at the output size with the optional picture-in-picture. */
+function createCompositor(sources: CaptureSources, reader: CanvasReader, settings: Pick<CaptureSettings, 'resolution' | 'pip'>) {
+  const { width, height } = getCaptureSize(settings.resolution, sources.canvas.width, sources.canvas.height);
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available');
+  // The feed canvas is the visual itself for the plain tracking view
+  const feed = sources.feedCanvas && sources.feedCanvas !== sources.canvas ? sources.feedCanvas : null;
+
+  const draw = () => {
+    ctx.drawImage(reader.video, 0, 0, width, height);
+    if (!settings.pip) return;
+    const rect = feed ? getPipRect(width, height, feed.width, feed.height) : getPipRect(width, height, 0, 0);
+    if (feed) ctx.drawImage(feed, rect.x, rect.y, rect.width, rect.height);
+    else drawSkeleton(ctx, sources.getHands?.() ?? [], rect);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+  };
+
+  return { canvas: output, draw };
+}
+
+/** PNG of the visual at the chosen resolution (at most the canvas size). */
+export async function captureSnapshot(
+  sources: CaptureSources,
+  settings: Pick<CaptureSettings, 'resolution' | 'pip'>
+): Promise<Blob> {
+  const reader = await readCanvas(sources.canvas);
+  try {
+    const compositor = createCompositor(sources, reader, settings);
+    compositor.draw();
+    return await new Promise<Blob>((resolve, reject) =>
+      compositor.canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Snapshot encoding failed'))), 'image/png')
+    );
+  } finally {
+    reader.stop();
+  }
+}
+
+/** Longest side of preset thumbnails, in pixels. */
+export const THUMBNAIL_MAX_SIZE = 160;
+
+/** Size of a thumbnail of a `width`×`height` canvas (aspect kept, longest side at most `max`, never upscaled). */
+export function getThumbnailSize(width: number, height: number, max = THUMBNAIL_MAX_SIZE): { width: number; height: number } {
+  const scale = Math.min(1, max / Math.max(width, height, 1));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/** Small JPEG data URL of the visual (stored with saved configurations). */
+export async function captureThumbnail(canvas: HTMLCanvasElement, max = THUMBNAIL_MAX_SIZE): Promise<string> {
+  const reader = await readCanvas(canvas);
+  try {
+    const { width, height } = getThumbnailSize(reader.video.videoWidth, reader.video.videoHeight, max);
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const ctx = output.getContext('2d');
+    if (!ctx) throw new Error('2D canvas is not available');
+    ctx.drawImage(reader.video, 0, 0, width, height);
+    return output.toDataURL('image/jpeg', 0.8);
+  } finally {
+    reader.stop();
+  }
+}
+
+export type CaptureRecorderStatus = 'idle' | 'starting' | 'recording' | 'unsupported' | 'error';
+
+export interface VisualRecorder {
+  start: (sources: CaptureSources, settings: CaptureSettings) => void;
+  /** Finishes the recording; `onComplete` gets the file. */
+  stop: () => void;
+  getStatus: () => CaptureRecorderStatus;
+}
+
+export interface VisualRecorderOptions {
+  onStatusChange?: (status: CaptureRecorderStatus) => void;
+  onComplete: (blob: Blob, extension: CaptureFormat) => void;
+}
+
+// Bitrate: ~0.1 bits per pixel per frame, capped at 40 Mbps
+const BITS_PER_PIXEL = 0.1;
+const MAX_BITRATE = 40_000_000;
+
+interface Recording {
+  recorder: MediaRecorder | null;
+  stream: MediaStream | null;
+  reader: CanvasReader | null;
+  frame: number | null;
+}
+
+export function createVisualRecorder(options: VisualRecorderOptions): VisualRecorder {
+  const { onStatusChange, onComplete } = options;
+  let active: Recording | null = null;
+  let status: CaptureRecorderStatus = 'idle';
+
+  const setStatus = (next: CaptureRecorderStatus) => {
+    if (next === status) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const release = (recording: Recording) => {
+    if (recording.frame !== null) cancelAnimationFrame(recording.frame);
+    recording.frame = null;
+    recording.stream?.getTracks().forEach((track) => track.stop());
+    recording.reader?.stop();
+  };
+
+  const begin = async (recording: Recording, sources: CaptureSources, settings: CaptureSettings, mimeType: string) => {
+    // The raw canvas stream needs no compositing
+    const direct = settings.resolution === 'native' && !settings.pip;
+    let width = sources.canvas.width;
+    let height = sources.canvas.height;
+    if (direct) {
+      recording.stream = sources.canvas.captureStream(settings.fps);
+    } else {
+      recording.reader = await readCanvas(sources.canvas, settings.fps);
+      if (active !== recording) {
+        release(recording);
+        return;
+      }
+      const compositor = createCompositor(sources, recording.reader, settings);
+      ({ width, height } = compositor.canvas);
+      const tick = () => {
+        if (active !== recording) return;
+        compositor.draw();
+        recording.frame = requestAnimationFrame(tick);
+      };
+      tick();
+      recording.stream = compositor.canvas.captureStream(settings.fps);
+    }
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(recording.stream, {
+      mimeType,
+      videoBitsPerSecond: Math.min(MAX_BITRATE, Math.round(width * height * settings.fps * BITS_PER_PIXEL)),
+    });
+    recording.recorder = recorder;
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      release(recording);
+      if (chunks.length > 0) onComplete(new Blob(chunks, { type: mimeType.split(';')[0] }), getCaptureExtension(mimeType));
+      if (active === recording) {
+        active = null;
+        setStatus('idle');
+      }
+    };
+    recorder.start(1000);
+    setStatus('recording');
+  };
+
+  return {
+    start(sources, settings) {
+      if (active) return;
+      if (typeof MediaRecorder === 'undefined' || typeof sources.canvas.captureStream !== 'function') {
+        setStatus('unsupported');
+        return;
+      }
+      const mimeType = pickRecorderMimeType(settings.format, (type) => MediaRecorder.isTypeSupported(type));
+      if (!mimeType) {
+        setStatus('unsupported');
+        return;
+      }
+      const recording: Recording = { recorder: null, stream: null, reader: null, frame: null };
+      active = recording;
+      setStatus('starting');
+      begin(recording, sources, settings, mimeType).catch((error: unknown) => {
+        console.error('Recording failed:', error);
+        release(recording);
+        if (active === recording) active = null;
+        setStatus('error');
+      });
+    },
+    stop() {
+      const recording = active;
+      if (!recording) return;
+      if (recording.recorder && recording.recorder.state !== 'inactive') {
+        // onstop delivers the file and resets the status
+        recording.recorder.stop();
+        return;
+      }
+      active = null;
+      release(recording);
+      setStatus('idle');
+    },
+    getStatus: () => status,
+  };
+}
+
+/** Saves a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** `m:ss` recording time. */
+export function formatCaptureDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * Versioned controls of saved configurations.
+ *
+ * Each visual's controls carry a schema version (`version` of its controls
+ * definition, 1 when unset). Configurations saved before versioning count as
+ * version 0. Loading one runs the visual's migrations from its version up to
+ * the current one, then repairs the result against the control schema (fill,
+ * clamp, reset, drop; see `validateControls`) and reports what changed.
+ */
+
+import { describeControlChange, validateControls, type ControlChange } from './controlSchema';
+import type { VisualControlsDefinition } from './visualRegistry';
+
+/** Schema version of configurations saved before versioning. */
+export const LEGACY_CONTROLS_VERSION = 0;
+
+/** Upgrades controls by one schema version (keys may still be missing or invalid; validation repairs them). */
+export type ControlMigration = (controls: Record<string, unknown>) => Record<string, unknown>;
+
+export interface MigratedControls {
+  controls: object;
+  /** Version the controls were migrated from, null when they were already current. */
+  migratedFrom: number | null;
+  changes: ControlChange[];
+}
+
+export const getControlsVersion = (definition: VisualControlsDefinition): number => definition.version ?? 1;
+
+/**
+ * Brings controls saved at `schemaVersion` up to the visual's current version
+ * and validates them. Controls from a newer version are only validated.
+ */
+export function migrateControls(
+  definition: VisualControlsDefinition,
+  value: unknown,
+  schemaVersion: number = getControlsVersion(definition)
+): MigratedControls {
+  const current = getControlsVersion(definition);
+  let controls = { ...((value && typeof value === 'object' ? value : {}) as Record<string, unknown>) };
+  for (let version = schemaVersion; version < current; version++) {
+    const migration = definition.migrations?.[version];
+    if (migration) controls = migration(controls);
+  }
+  const validated = validateControls(definition.schema, definition.defaults, controls);
+  return {
+    controls: validated.controls,
+    migratedFrom: schemaVersion < current ? schemaVersion : null,
+    changes: validated.changes,
+  };
+}
+
+/** Lines for the UI describing what loading changed (empty when nothing did). */
+export function describeMigration(definition: VisualControlsDefinition, migrated: MigratedControls): string[] {
+  const lines = migrated.changes.map((change) => describeControlChange(definition.schema, change));
+  if (migrated.migratedFrom !== null) {
+    lines.unshift(`Upgraded from schema version ${migrated.migratedFrom} to ${getControlsVersion(definition)}`);
+  }
+  return lines;
+}
@@ -0,0 +1,217 @@
+/**
+ * Preset morphing: fades a visual's controls from one configuration to another instead of replacing them at once.
+ * Numbers are interpolated along an easing curve, booleans, enums and numbers marked `morph: 'switch'` change at a
+ * chosen point of the fade, and colors blend in HSL (hues the short way round the circle). Visuals get the morph in
+ * progress (`ControlMorphFrame`) to blend what an enum stands for, e.g. the constellation's palette hues.
+ */
+
+import {
+  DYNAMIC_GESTURES,
+  STATIC_GESTURES,
+  type GestureEvent,
+  type GestureName,
+} from '@/components/hand-tracking/gestures';
+import type { ControlSpec } from './controlSchema';
+
+export type MorphEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const MORPH_EASINGS: MorphEasing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut'];
+
+export const MORPH_EASING_LABELS: Record<MorphEasing, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease in',
+  easeOut: 'Ease out',
+  easeInOut: 'Ease in-out',
+};
+
+/** Fade lengths offered in the preset browser (0 loads presets instantly). */
+export const MORPH_DURATIONS_MS = [0, 500, 1000, 2000, 4000, 8000, 16000];
+
+const MAX_MORPH_DURATION_MS = 60000;
+
+export interface MorphSettings {
+  durationMs: number;
+  easing: MorphEasing;
+  /** Fraction of the fade (by time) at which booleans, enums and `switch` numbers change. */
+  switchAt: number;
+  /** Gestures that fade to the next / previous preset (favourites first, newest first); null for none. */
+  nextGesture: GestureName | null;
+  previousGesture: GestureName | null;
+}
+
+export const DEFAULT_MORPH_SETTINGS: MorphSettings = {
+  durationMs: 2000,
+  easing: 'easeInOut',
+  switchAt: 0.5,
+  nextGesture: null,
+  previousGesture: null,
+};
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const GESTURES: GestureName[] = [...STATIC_GESTURES, ...DYNAMIC_GESTURES];
+
+/** Validate settings restored from localStorage (unknown gestures are turned off). */
+export function normalizeMorphSettings(value: unknown): MorphSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof MorphSettings, unknown>>;
+  const number = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+  return {
+    durationMs: Math.min(MAX_MORPH_DURATION_MS, Math.max(0, number(input.durationMs, DEFAULT_MORPH_SETTINGS.durationMs))),
+    easing: isOneOf(MORPH_EASINGS, input.easing) ? input.easing : DEFAULT_MORPH_SETTINGS.easing,
+    switchAt: clamp01(number(input.switchAt, DEFAULT_MORPH_SETTINGS.switchAt)),
+    nextGesture: isOneOf(GESTURES, input.nextGesture) ? input.nextGesture : null,
+    previousGesture: isOneOf(GESTURES, input.previousGesture) ? input.previousGesture : null,
+  };
+}
+
+/** Preset step a gesture asks for: 1 (next), -1 (previous) or 0 (none), once per gesture. */
+export function getPresetGestureStep(settings: MorphSettings, event: GestureEvent): 1 | -1 | 0 {
+  if (event.phase !== 'start') return 0;
+  if (event.gesture === settings.nextGesture) return 1;
+  if (event.gesture === settings.previousGesture) return -1;
+  return 0;
+}
+
+/** Eased progress for `t` in [0, 1]. */
+export function applyEasing(easing: MorphEasing, t: number): number {
+  const x = clamp01(t);
+  switch (easing) {
+    case 'easeIn':
+      return x * x * x;
+    case 'easeOut':
+      return 1 - (1 - x) ** 3;
+    case 'easeInOut':
+      return x < 0.5 ? 4 * x * x * x : 1 - (-2 * x + 2) ** 3 / 2;
+    default:
+      return x;
+  }
+}
+
+/** Hue (0..1) between `a` and `b`, the short way round the color wheel (0.9 → 0.1 passes through 0). */
+export function lerpHue(a: number, b: number, t: number): number {
+  let delta = (b - a) % 1;
+  if (delta > 0.5) delta -= 1;
+  if (delta < -0.5) delta += 1;
+  return (((a + delta * t) % 1) + 1) % 1;
+}
+
+function hexToHsl(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  const r = ((value >> 16) & 255) / 255;
+  const g = ((value >> 8) & 255) / 255;
+  const b = (value & 255) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h / 6, s, l];
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const x = ((t % 1) + 1) % 1;
+    const v = x < 1 / 6 ? p + (q - p) * 6 * x : x < 1 / 2 ? q : x < 2 / 3 ? p + (q - p) * (2 / 3 - x) * 6 : p;
+    return Math.round(v * 255)
+      .toString(16)
+      .padStart(2, '0');
+  };
+  return `#${channel(h + 1 / 3)}${channel(h)}${channel(h - 1 / 3)}`;
+}
+
+/**
+ * `#rrggbb` color between `a` and `b` in HSL. A gray end (no hue of its own)
+ * takes the other end's hue so the fade doesn't sweep through unrelated colors.
+ */
+export function blendHexColors(a: string, b: string, t: number): string {
+  const [h1, s1, l1] = hexToHsl(a);
+  const [h2, s2, l2] = hexToHsl(b);
+  const from = s1 === 0 ? h2 : h1;
+  const to = s2 === 0 ? h1 : h2;
+  return hslToHex(lerpHue(from, to, t), s1 + (s2 - s1) * t, l1 + (l2 - l1) * t);
+}
+
+/**
+ * Controls part way through a morph: numbers at the eased `progress` (integer
+ * steps rounded), colors blended in HSL, and booleans, enums and
+ * `morph: 'switch'` numbers taken from `to` once `time` reaches `switchAt`.
+ * Controls without a spec switch too.
+ */
+export function interpolateControls<T extends object>(
+  schema: Record<string, ControlSpec>,
+  from: T,
+  to: T,
+  progress: number,
+  time: number,
+  switchAt: number
+): T {
+  const switched = time >= switchAt;
+  const result: Record<string, unknown> = {};
+  const source = from as Record<string, unknown>;
+  for (const [key, target] of Object.entries(to)) {
+    const start = source[key];
+    const spec = schema[key];
+    if (spec?.type === 'number' && spec.morph !== 'switch' && typeof start === 'number' && typeof target === 'number') {
+      const value = start + (target - start) * progress;
+      result[key] = Number.isInteger(spec.step) && spec.step > 0 ? Math.round(value / spec.step) * spec.step : value;
+    } else if (spec?.type === 'color' && typeof start === 'string' && typeof target === 'string') {
+      result[key] = progress >= 1 ? target : blendHexColors(start, target, progress);
+    } else {
+      result[key] = switched || start === undefined ? target : start;
+    }
+  }
+  return result as T;
+}
+
+/** Morph in progress, as passed to visuals (`morph` prop) and published to final views. */
+export interface ControlMorphFrame<T extends object = object> {
+  from: T;
+  to: T;
+  /** Eased progress, 0..1. */
+  progress: number;
+}
+
+export function isControlMorphFrame(value: unknown): value is ControlMorphFrame {
+  if (!value || typeof value !== 'object') return false;
+  const frame = value as Partial<ControlMorphFrame>;
+  return (
+    !!frame.from &&
+    typeof frame.from === 'object' &&
+    !!frame.to &&
+    typeof frame.to === 'object' &&
+    typeof frame.progress === 'number' &&
+    frame.progress >= 0 &&
+    frame.progress <= 1
+  );
+}
+
+export interface ControlMorph<T extends object = object> {
+  from: T;
+  to: T;
+  startedAt: number;
+  settings: Pick<MorphSettings, 'durationMs' | 'easing' | 'switchAt'>;
+}
+
+/** State of a morph at `now` (ms, same clock as `startedAt`). */
+export function sampleControlMorph<T extends object>(
+  schema: Record<string, ControlSpec>,
+  morph: ControlMorph<T>,
+  now: number
+): { controls: T; frame: ControlMorphFrame<T>; done: boolean } {
+  const { durationMs, easing, switchAt } = morph.settings;
+  const time = durationMs > 0 ? clamp01((now - morph.startedAt) / durationMs) : 1;
+  const progress = applyEasing(easing, time);
+  const done = time >= 1;
+  return {
+    controls: done ? morph.to : interpolateControls(schema, morph.from, morph.to, progress, time, switchAt),
+    frame: { from: morph.from, to: morph.to, progress },
+    done,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Machine-readable description of a visual's controls: label, range, unit, group and type of every parameter.
+ * The control panel, the dev overlay, the final view's audience controls and config validation are generated
+ * from it, so adding a parameter to a controls type only needs a default and a schema entry.
+ */
+
+export type ControlValue = number | boolean | string;
+
+interface ControlSpecBase {
+  label: string;
+  /** Section heading; controls without a group come first. */
+  group?: string;
+  description?: string;
+  /** Boolean control that must be on for this one to be shown (e.g. trail settings under a trails toggle). */
+  dependsOn?: string;
+  /** Also shown in the final view's audience controls. */
+  audience?: boolean;
+}
+
+export interface NumberControlSpec extends ControlSpecBase {
+  type: 'number';
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  /** Change at the switch point of a preset morph instead of fading (values that rebuild the scene, see `lib/controlMorph.ts`). */
+  morph?: 'switch';
+}
+
+export interface BooleanControlSpec extends ControlSpecBase {
+  type: 'boolean';
+}
+
+export interface ControlOption {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+export interface EnumControlSpec extends ControlSpecBase {
+  type: 'enum';
+  options: ReadonlyArray<ControlOption>;
+}
+
+/** `#rrggbb` color. */
+export interface ColorControlSpec extends ControlSpecBase {
+  type: 'color';
+}
+
+export type ControlSpec = NumberControlSpec | BooleanControlSpec | EnumControlSpec | ColorControlSpec;
+
+/** One spec per control, typed by the control's value (numbers get a range, strings are enums or colors). */
+export type ControlSchema<T extends object> = {
+  [K in keyof T]-?: T[K] extends number
+    ? NumberControlSpec
+    : T[K] extends boolean
+      ? BooleanControlSpec
+      : EnumControlSpec | ColorControlSpec;
+};
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/** Whether a value fits a control: right type, number within range, known enum option, hex color. */
+export function isValidControlValue(spec: ControlSpec, value: unknown): boolean {
+  switch (spec.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= spec.min && value <= spec.max;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'enum':
+      return typeof value === 'string' && spec.options.some((option) => option.value === value);
+    case 'color':
+      return typeof value === 'string' && COLOR_PATTERN.test(value);
+  }
+}
+
+/** Decimals to show for a number control (those of its step). */
+export function getControlDecimals(spec: NumberControlSpec): number {
+  const [, fraction = ''] = String(spec.step).split('.');
+  return fraction.length;
+}
+
+/** Value as shown next to a control, e.g. `0.45 rad/s` or `Aurora`. */
+export function formatControlValue(spec: ControlSpec, value: ControlValue): string {
+  switch (spec.type) {
+    case 'number': {
+      const text = typeof value === 'number' ? value.toFixed(getControlDecimals(spec)) : String(value);
+      return spec.unit ? `${text} ${spec.unit}` : text;
+    }
+    case 'boolean':
+      return value ? 'on' : 'off';
+    case 'enum':
+      return spec.options.find((option) => option.value === value)?.label ?? String(value);
+    case 'color':
+      return String(value);
+  }
+}
+
+export interface ControlGroup {
+  /** Null for the ungrouped controls at the top. */
+  name: string | null;
+  keys: string[];
+}
+
+/** Controls by group, in schema order (ungrouped first). `filter` narrows the controls, e.g. to audience ones. */
+export function groupControls(
+  schema: Record<string, ControlSpec>,
+  filter: (spec: ControlSpec, key: string) => boolean = () => true
+): ControlGroup[] {
+  const groups: ControlGroup[] = [{ name: null, keys: [] }];
+  for (const [key, spec] of Object.entries(schema)) {
+    const name = spec.group ?? null;
+    let group = groups.find((g) => g.name === name);
+    if (!group) {
+      group = { name, keys: [] };
+      groups.push(group);
+    }
+    if (filter(spec, key)) group.keys.push(key);
+  }
+  return groups.filter((g) => g.keys.length > 0);
+}
+
+/** A control is hidden while the boolean control it depends on is off. */
+export function isControlVisible(spec: ControlSpec, controls: Record<string, unknown>): boolean {
+  return !spec.dependsOn || controls[spec.dependsOn] === true;
+}
+
+/**
+ * How validation changed a control: `filled` with the default because it was missing, `clamped` into its range,
+ * `reset` to the default because the value was unusable, or `dropped` because the visual has no such control.
+ */
+export interface ControlChange {
+  key: string;
+  kind: 'filled' | 'clamped' | 'reset' | 'dropped';
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Repairs control values (saved config, sync message, remote recall) against a schema: missing controls get their
+ * default, numbers outside their range are clamped, other invalid values are reset and unknown keys are dropped.
+ */
+export function validateControls<T extends object>(
+  schema: Record<string, ControlSpec>,
+  defaults: T,
+  value: unknown
+): { controls: T; changes: ControlChange[] } {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const controls: Record<string, unknown> = {};
+  const changes: ControlChange[] = [];
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const spec = schema[key];
+    const candidate = input[key];
+    const valid = spec ? isValidControlValue(spec, candidate) : typeof candidate === typeof fallback;
+    if (candidate === undefined) {
+      controls[key] = fallback;
+      changes.push({ key, kind: 'filled', to: fallback });
+    } else if (valid) {
+      controls[key] = candidate;
+    } else if (spec?.type === 'number' && typeof candidate === 'number' && !Number.isNaN(candidate)) {
+      const clamped = Math.min(spec.max, Math.max(spec.min, candidate));
+      controls[key] = clamped;
+      changes.push({ key, kind: 'clamped', from: candidate, to: clamped });
+    } else {
+      controls[key] = fallback;
+      changes.push({ key, kind: 'reset', from: candidate, to: fallback });
+    }
+  }
+  for (const key of Object.keys(input)) {
+    if (!(key in defaults)) changes.push({ key, kind: 'dropped', from: input[key] });
+  }
+  return { controls: controls as T, changes };
+}
+
+/** One line for the UI, e.g. `Trail length: missing, set to 14`. */
+export function describeControlChange(schema: Record<string, ControlSpec>, change: ControlChange): string {
+  const spec = schema[change.key];
+  const label = spec?.label ?? change.key;
+  const show = (value: unknown) =>
+    spec && (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string')
+      ? formatControlValue(spec, value)
+      : JSON.stringify(value);
+  switch (change.kind) {
+    case 'filled':
+      return `${label}: missing, set to ${show(change.to)}`;
+    case 'clamped':
+      return `${label}: ${show(change.from)} out of range, clamped to ${show(change.to)}`;
+    case 'reset':
+      return `${label}: invalid value ${JSON.stringify(change.from)}, reset to ${show(change.to)}`;
+    case 'dropped':
+      return `${label}: unknown control, dropped`;
+  }
+}
@@ -0,0 +1,178 @@
+import type { MidiControlMessage } from './midi';
+import type { OscMessage } from './osc';
+import { applyControlPatch } from './remoteControl';
+
+/**
+ * External control: MIDI controllers and OSC senders (lighting desks, TouchOSC...) setting visual control values.
+ * Every input is normalized to 0..1 (MIDI 0-127; OSC numbers are expected in 0..1 and clamped) and mapped to a
+ * control's range. Mappings are learned from the control panel: pick a slider, then move a fader or send OSC.
+ */
+
+export type ExternalControlSource =
+  | { kind: 'midi'; type: MidiControlMessage['type']; channel: number; number: number }
+  /** `argIndex` picks the argument of the message (e.g. the y of an XY pad). */
+  | { kind: 'osc'; address: string; argIndex: number };
+
+export interface ExternalControlMapping {
+  id: string;
+  source: ExternalControlSource;
+  /** Control key, e.g. `starBrightness`. */
+  target: string;
+  /** Output range the 0..1 input maps to (the slider's range when learned). */
+  min: number;
+  max: number;
+  /** Snap to multiples of `step` from `min` (integer controls); 0 = continuous. */
+  step: number;
+}
+
+export interface ExternalControlInput {
+  source: ExternalControlSource;
+  /** 0..1 */
+  value: number;
+}
+
+/** Which inputs are listened to (global; OSC input comes through the OSC bridge). */
+export interface ExternalInputSettings {
+  midi: boolean;
+  osc: boolean;
+}
+
+export const DEFAULT_EXTERNAL_INPUT_SETTINGS: ExternalInputSettings = { midi: false, osc: false };
+
+/** The slider a mapping is being learned for. */
+export interface ExternalLearnTarget {
+  target: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Identifies a source: inputs and mappings with the same key belong together. */
+export function getExternalSourceKey(source: ExternalControlSource): string {
+  return source.kind === 'midi'
+    ? `midi:${source.type}:${source.channel}:${source.number}`
+    : `osc:${source.address}:${source.argIndex}`;
+}
+
+/** Short label for a source, e.g. `CC 7 · ch 1` or `/fader/1`. */
+export function describeExternalSource(source: ExternalControlSource): string {
+  if (source.kind === 'midi') {
+    return `${source.type === 'cc' ? 'CC' : 'Note'} ${source.number} · ch ${source.channel}`;
+  }
+  return source.argIndex === 0 ? source.address : `${source.address} [${source.argIndex}]`;
+}
+
+export function midiToExternalInput(message: MidiControlMessage): ExternalControlInput {
+  const { type, channel, number, value } = message;
+  return { source: { kind: 'midi', type, channel, number }, value: value / 127 };
+}
+
+/** One input per numeric argument of the message. */
+export function oscToExternalInputs(message: OscMessage): ExternalControlInput[] {
+  const inputs: ExternalControlInput[] = [];
+  message.args.forEach((arg, argIndex) => {
+    const value = typeof arg === 'number' ? arg : typeof arg === 'object' && 'type' in arg ? arg.value : null;
+    if (value === null || !Number.isFinite(value)) return;
+    inputs.push({ source: { kind: 'osc', address: message.address, argIndex }, value: clamp01(value) });
+  });
+  return inputs;
+}
+
+export function createExternalControlMapping(
+  source: ExternalControlSource,
+  { target, min, max, step }: ExternalLearnTarget
+): ExternalControlMapping {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    source,
+    target,
+    min,
+    max,
+    step,
+  };
+}
+
+/**
+ * Binds `input`'s source to the learn target. A source drives one control and a control has one source, so
+ * mappings for either are replaced.
+ */
+export function learnExternalMapping(
+  mappings: ExternalControlMapping[],
+  input: ExternalControlInput,
+  target: ExternalLearnTarget
+): ExternalControlMapping[] {
+  const key = getExternalSourceKey(input.source);
+  return [
+    ...mappings.filter((m) => m.target !== target.target && getExternalSourceKey(m.source) !== key),
+    createExternalControlMapping(input.source, target),
+  ];
+}
+
+/** Maps a 0..1 input value to the mapping's range. */
+export function mapExternalValue(mapping: ExternalControlMapping, value: number): number {
+  const { min, max, step } = mapping;
+  const mapped = min + clamp01(value) * (max - min);
+  if (step <= 0) return mapped;
+  // Round away float noise from the step multiplication (0.1 * 3 = 0.30000000000000004)
+  return Number((min + Math.round((mapped - min) / step) * step).toFixed(6));
+}
+
+/**
+ * Applies an input to the controls through every mapping of its source. Only existing numeric controls are set;
+ * returns the same object when nothing changes.
+ */
+export function applyExternalInput<T extends object>(
+  controls: T,
+  mappings: ExternalControlMapping[],
+  input: ExternalControlInput
+): T {
+  const key = getExternalSourceKey(input.source);
+  const patch: Record<string, number> = {};
+  for (const mapping of mappings) {
+    if (getExternalSourceKey(mapping.source) === key) patch[mapping.target] = mapExternalValue(mapping, input.value);
+  }
+  return applyControlPatch(controls, patch);
+}
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+function normalizeSource(value: unknown): ExternalControlSource | null {
+  if (!value || typeof value !== 'object') return null;
+  const s = value as Record<string, unknown>;
+  if (s.kind === 'midi') {
+    if (s.type !== 'cc' && s.type !== 'note') return null;
+    const channel = finiteOr(s.channel, 0);
+    const number = finiteOr(s.number, -1);
+    if (!Number.isInteger(channel) || channel < 1 || channel > 16) return null;
+    if (!Number.isInteger(number) || number < 0 || number > 127) return null;
+    return { kind: 'midi', type: s.type, channel, number };
+  }
+  if (s.kind === 'osc' && typeof s.address === 'string' && s.address.startsWith('/')) {
+    return { kind: 'osc', address: s.address, argIndex: Math.max(0, Math.floor(finiteOr(s.argIndex, 0))) };
+  }
+  return null;
+}
+
+/** Drops invalid entries (e.g. mappings read from localStorage or a saved configuration). */
+export function normalizeExternalControlMappings(value: unknown): ExternalControlMapping[] {
+  if (!Array.isArray(value)) return [];
+  const mappings: ExternalControlMapping[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const m = entry as Record<string, unknown>;
+    const source = normalizeSource(m.source);
+    if (typeof m.id !== 'string' || typeof m.target !== 'string' || !source) continue;
+    mappings.push({
+      id: m.id,
+      source,
+      target: m.target,
+      min: finiteOr(m.min, 0),
+      max: finiteOr(m.max, 1),
+      step: Math.max(0, finiteOr(m.step, 0)),
+    });
+  }
+  return mappings;
+}
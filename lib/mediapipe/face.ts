@@ -1,118 +1,54 @@
 /**
- * MediaPipe Face Mesh detection setup
+ * MediaPipe FaceLandmarker (tasks-vision) setup
  */
+import { FaceLandmarker, type FaceLandmarkerResult } from '@mediapipe/tasks-vision';
 import type { FaceResults } from '@/types/mediapipe';
-
-// Load MediaPipe from CDN script tags
-const loadMediaPipeScript = (src: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (document.querySelector(`script[src="${src}"]`)) {
-      resolve();
-      return;
-    }
-    const script = document.createElement('script');
-    script.src = src;
-    script.onload = () => resolve();
-    script.onerror = () => reject(new Error(`Failed to load script: ${src}`));
-    document.head.appendChild(script);
-  });
-};
-
-// Lazy load FaceMesh class - load from CDN
-let FaceMeshClass: any = null;
-let faceMeshLoadPromise: Promise<any> | null = null;
-
-const getFaceMesh = async (): Promise<any> => {
-  // Ensure we're in the browser
-  if (typeof window === 'undefined' || typeof document === 'undefined') {
-    return null;
-  }
-  
-  // Return cached class if available
-  if (FaceMeshClass) {
-    return FaceMeshClass;
-  }
-  
-  // Load from CDN if not already loading
-  if (!faceMeshLoadPromise) {
-    try {
-      faceMeshLoadPromise = (async () => {
-        await loadMediaPipeScript('https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/face_mesh.js');
-        
-        if ((window as any).FaceMesh) {
-          FaceMeshClass = (window as any).FaceMesh;
-          return FaceMeshClass;
-        }
-        
-        try {
-          const module = await import('@mediapipe/face_mesh');
-          FaceMeshClass = module.FaceMesh || (module as any).default?.FaceMesh || (module as any).default;
-          if (FaceMeshClass) return FaceMeshClass;
-        } catch (importError) {
-          console.warn('Import fallback failed:', importError);
-        }
-        
-        console.error('FaceMesh not found on window object or in module');
-        return null;
-      })();
-    } catch (error) {
-      console.error('Error loading MediaPipe FaceMesh:', error);
-      faceMeshLoadPromise = null;
-      return null;
-    }
-  }
-  
-  return faceMeshLoadPromise;
-};
-
-// Face mesh connections - simplified visualization
-// MediaPipe face mesh has 468 landmarks
-// We'll draw all landmarks as points for now (connections can be added later)
-export const FACE_CONNECTIONS: Array<[number, number]> = [];
-
-export interface FaceDetectorConfig {
-  maxNumFaces?: number;
-  refineLandmarks?: boolean;
+import { getVisionFileset, resolveModelUrl } from './vision';
+
+// Face connections - face oval, eyes, brows and lips (the full 478-point tesselation is too dense to draw every frame)
+// Format: [from_index, to_index]
+export const FACE_CONNECTIONS: Array<[number, number]> = [
+  ...FaceLandmarker.FACE_LANDMARKS_FACE_OVAL,
+  ...FaceLandmarker.FACE_LANDMARKS_LEFT_EYE,
+  ...FaceLandmarker.FACE_LANDMARKS_RIGHT_EYE,
+  ...FaceLandmarker.FACE_LANDMARKS_LEFT_EYEBROW,
+  ...FaceLandmarker.FACE_LANDMARKS_RIGHT_EYEBROW,
+  ...FaceLandmarker.FACE_LANDMARKS_LIPS,
+].map(({ start, end }) => [start, end] as [number, number]);
+
+export interface FaceLandmarkerConfig {
+  numFaces?: number;
   minDetectionConfidence?: number;
+  minPresenceConfidence?: number;
   minTrackingConfidence?: number;
 }
 
 /**
- * Initialize MediaPipe Face Mesh detector
+ * Initialize MediaPipe FaceLandmarker in VIDEO mode
  */
-export async function createFaceDetector(config: FaceDetectorConfig = {}) {
-  const FaceMesh = await getFaceMesh();
-  if (!FaceMesh) {
-    throw new Error('FaceMesh is not available. This function must be called in the browser.');
-  }
-  
-  const faceMesh = new FaceMesh({
-    locateFile: (file: string) => {
-      return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
-    },
-  });
-
-  faceMesh.setOptions({
-    maxNumFaces: config.maxNumFaces ?? 1,
-    refineLandmarks: config.refineLandmarks ?? false,
-    minDetectionConfidence: config.minDetectionConfidence ?? 0.5,
+export async function createFaceLandmarker(config: FaceLandmarkerConfig = {}): Promise<FaceLandmarker> {
+  const [vision, modelAssetPath] = await Promise.all([getVisionFileset(), resolveModelUrl('face')]);
+  return FaceLandmarker.createFromOptions(vision, {
+    baseOptions: { modelAssetPath },
+    runningMode: 'VIDEO',
+    numFaces: config.numFaces ?? 1,
+    minFaceDetectionConfidence: config.minDetectionConfidence ?? 0.5,
+    minFacePresenceConfidence: config.minPresenceConfidence ?? 0.5,
     minTrackingConfidence: config.minTrackingConfidence ?? 0.5,
   });
-
-  return faceMesh;
 }
 
 /**
- * Process face results and return normalized format
+ * Process face landmarker results and return normalized format
  */
-export function processFaceResults(results: any): FaceResults | null {
-  if (!results.multiFaceLandmarks || results.multiFaceLandmarks.length === 0) {
+export function processFaceResults(result: FaceLandmarkerResult | null | undefined): FaceResults | null {
+  if (!result?.faceLandmarks || result.faceLandmarks.length === 0) {
     return null;
   }
 
   return {
-    multiFaceLandmarks: results.multiFaceLandmarks.map((landmarks: any[]) =>
-      landmarks.map((landmark: any) => ({
+    multiFaceLandmarks: result.faceLandmarks.map((landmarks) =>
+      landmarks.map((landmark) => ({
         x: landmark.x,
         y: landmark.y,
         z: landmark.z ?? 0,
@@ -120,4 +56,3 @@ export function processFaceResults(results: any): FaceResults | null {
     ),
   };
 }
-
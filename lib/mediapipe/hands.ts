@@ -1,69 +1,9 @@
 /**
- * MediaPipe Hands detection setup
+ * MediaPipe HandLandmarker (tasks-vision) setup
  */
+import { HandLandmarker, type HandLandmarkerResult } from '@mediapipe/tasks-vision';
 import type { HandResults } from '@/types/mediapipe';
-
-// Load MediaPipe from CDN script tags
-const loadMediaPipeScript = (src: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (document.querySelector(`script[src="${src}"]`)) {
-      resolve();
-      return;
-    }
-    const script = document.createElement('script');
-    script.src = src;
-    script.onload = () => resolve();
-    script.onerror = () => reject(new Error(`Failed to load script: ${src}`));
-    document.head.appendChild(script);
-  });
-};
-
-// Lazy load Hands class - load from CDN
-let HandsClass: any = null;
-let handsLoadPromise: Promise<any> | null = null;
-
-const getHands = async (): Promise<any> => {
-  // Ensure we're in the browser
-  if (typeof window === 'undefined' || typeof document === 'undefined') {
-    return null;
-  }
-  
-  // Return cached class if available
-  if (HandsClass) {
-    return HandsClass;
-  }
-  
-  // Load from CDN if not already loading
-  if (!handsLoadPromise) {
-    try {
-      handsLoadPromise = (async () => {
-        await loadMediaPipeScript('https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js');
-        
-        if ((window as any).Hands) {
-          HandsClass = (window as any).Hands;
-          return HandsClass;
-        }
-        
-        try {
-          const module = await import('@mediapipe/hands');
-          HandsClass = module.Hands || (module as any).default?.Hands || (module as any).default;
-          if (HandsClass) return HandsClass;
-        } catch (importError) {
-          console.warn('Import fallback failed:', importError);
-        }
-        
-        console.error('Hands not found on window object or in module');
-        return null;
-      })();
-    } catch (error) {
-      console.error('Error loading MediaPipe Hands:', error);
-      handsLoadPromise = null;
-      return null;
-    }
-  }
-  
-  return handsLoadPromise;
-};
+import { getVisionFileset, resolveModelUrl } from './vision';
 
 // Hand connections based on MediaPipe hand landmarks (21 points)
 // Format: [from_index, to_index]
@@ -82,58 +22,49 @@ export const HAND_CONNECTIONS_LIST: Array<[number, number]> = [
   [5, 9], [9, 13], [13, 17],
 ];
 
-export interface HandsDetectorConfig {
-  maxNumHands?: number;
-  modelComplexity?: 0 | 1;
+export interface HandLandmarkerConfig {
+  numHands?: number;
   minDetectionConfidence?: number;
+  minPresenceConfidence?: number;
   minTrackingConfidence?: number;
 }
 
 /**
- * Initialize MediaPipe Hands detector
+ * Initialize MediaPipe HandLandmarker in VIDEO mode
  */
-export async function createHandsDetector(config: HandsDetectorConfig = {}) {
-  const Hands = await getHands();
-  if (!Hands) {
-    throw new Error('Hands is not available. This function must be called in the browser.');
-  }
-  
-  const hands = new Hands({
-    locateFile: (file: string) => {
-      return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-    },
-  });
-
-  hands.setOptions({
-    maxNumHands: config.maxNumHands ?? 2,
-    modelComplexity: config.modelComplexity ?? 1,
-    minDetectionConfidence: config.minDetectionConfidence ?? 0.5,
+export async function createHandLandmarker(config: HandLandmarkerConfig = {}): Promise<HandLandmarker> {
+  const [vision, modelAssetPath] = await Promise.all([getVisionFileset(), resolveModelUrl('hand')]);
+  return HandLandmarker.createFromOptions(vision, {
+    baseOptions: { modelAssetPath },
+    runningMode: 'VIDEO',
+    numHands: config.numHands ?? 2,
+    minHandDetectionConfidence: config.minDetectionConfidence ?? 0.5,
+    minHandPresenceConfidence: config.minPresenceConfidence ?? 0.5,
     minTrackingConfidence: config.minTrackingConfidence ?? 0.5,
   });
-
-  return hands;
 }
 
 /**
- * Process hands results and return normalized format
+ * Process hand landmarker results and return normalized format
  */
-export function processHandsResults(results: any): HandResults[] {
-  if (!results.multiHandLandmarks || results.multiHandLandmarks.length === 0) {
+export function processHandsResults(result: HandLandmarkerResult | null | undefined): HandResults[] {
+  if (!result?.landmarks || result.landmarks.length === 0) {
     return [];
   }
 
-  return results.multiHandLandmarks.map((landmarks: any[], index: number) => ({
-    landmarks: landmarks.map((landmark: any) => ({
+  return result.landmarks.map((landmarks, index) => ({
+    landmarks: landmarks.map((landmark) => ({
       x: landmark.x,
       y: landmark.y,
       z: landmark.z ?? 0,
     })),
-    handedness: results.multiHandedness?.[index] ? [
-      {
-        score: results.multiHandedness[index].score ?? 0,
-        categoryName: results.multiHandedness[index].categoryName ?? 'Unknown',
-      }
-    ] : undefined,
+    handedness: result.handedness?.[index]?.[0]
+      ? [
+          {
+            score: result.handedness[index]![0]!.score ?? 0,
+            categoryName: result.handedness[index]![0]!.categoryName || 'Unknown',
+          },
+        ]
+      : undefined,
   }));
 }
-
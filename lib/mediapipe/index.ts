@@ -1,10 +1,9 @@
 /**
- * MediaPipe utilities export
+ * MediaPipe utilities export (tasks-vision landmarkers)
  */
+export * from './vision';
 export * from './pose';
 export * from './hands';
 export * from './face';
-
-// Export connections for drawing
-export { FACE_CONNECTIONS } from './face';
-
+export * from './workerProtocol';
+export * from './landmarkWorkerClient';
@@ -0,0 +1,165 @@
+/**
+ * Landmark inference worker.
+ *
+ * Runs the tasks-vision hand/pose/face landmarkers off the main thread so
+ * detection doesn't compete with the react-three-fiber render loop. Receives
+ * `ImageBitmap` frames and posts back results. If frames arrive while a
+ * landmarker is still loading, only the newest one is kept.
+ *
+ * Create with `createLandmarkWorker()` and talk to it through
+ * `createLandmarkWorkerClient()`.
+ */
+import type { FaceLandmarker, HandLandmarker, PoseLandmarker } from '@mediapipe/tasks-vision';
+import { createFaceLandmarker, processFaceResults } from './face';
+import { createHandLandmarker, processHandsResults } from './hands';
+import { createPoseLandmarker, processPoseResults } from './pose';
+import { createVideoTimestamper, MediaPipeAssetError } from './vision';
+import type {
+  LandmarkTask,
+  LandmarkWorkerConfig,
+  LandmarkWorkerRequest,
+  LandmarkWorkerResponse,
+} from './workerProtocol';
+
+type FrameRequest = Extract<LandmarkWorkerRequest, { type: 'frame' }>;
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<LandmarkWorkerRequest>) => void) | null;
+  postMessage: (message: LandmarkWorkerResponse) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let config: LandmarkWorkerConfig = {};
+const nextTimestamp = createVideoTimestamper();
+
+let hands: HandLandmarker | null = null;
+let pose: PoseLandmarker | null = null;
+let face: FaceLandmarker | null = null;
+const loading = new Map<LandmarkTask, Promise<void>>();
+// Landmarkers that failed to load are not retried until the next `configure`
+const failed = new Set<LandmarkTask>();
+
+let busy = false;
+let pending: FrameRequest | null = null;
+
+const post = (message: LandmarkWorkerResponse) => scope.postMessage(message);
+
+function reportError(task: LandmarkTask | 'frame', error: unknown, frameId?: number) {
+  post({
+    type: 'error',
+    task,
+    message: error instanceof Error ? error.message : String(error),
+    assetUrl: error instanceof MediaPipeAssetError ? error.url : undefined,
+    frameId,
+  });
+}
+
+const getLandmarker = (task: LandmarkTask) => ({ hands, pose, face })[task];
+
+function load(task: LandmarkTask): Promise<void> {
+  if (getLandmarker(task)) return Promise.resolve();
+  let promise = loading.get(task);
+  if (!promise) {
+    const { numHands = 2, minDetectionConfidence, minTrackingConfidence } = config;
+    promise = (async () => {
+      try {
+        if (task === 'hands') hands = await createHandLandmarker({ numHands, minDetectionConfidence, minTrackingConfidence });
+        if (task === 'pose') pose = await createPoseLandmarker({ numPoses: 1, minDetectionConfidence, minTrackingConfidence });
+        if (task === 'face') face = await createFaceLandmarker({ numFaces: 1, minDetectionConfidence, minTrackingConfidence });
+      } catch (error) {
+        failed.add(task);
+        reportError(task, error);
+      } finally {
+        loading.delete(task);
+      }
+    })();
+    loading.set(task, promise);
+  }
+  return promise;
+}
+
+function closeLandmarkers() {
+  for (const landmarker of [hands, pose, face]) {
+    try {
+      landmarker?.close();
+    } catch {
+      // ignore
+    }
+  }
+  hands = pose = face = null;
+}
+
+async function processFrame(frame: FrameRequest) {
+  const { frameId, bitmap, tasks } = frame;
+  try {
+    const missing = (Object.keys(tasks) as LandmarkTask[]).filter(
+      (task) => tasks[task] && !failed.has(task) && !getLandmarker(task)
+    );
+    if (missing.length > 0) {
+      await Promise.all(missing.map(load));
+      // A newer frame arrived while loading; this one is stale
+      if (pending) {
+        post({ type: 'dropped', frameId });
+        return;
+      }
+    }
+
+    const started = performance.now();
+    const timestamp = nextTimestamp(frame.timestamp);
+    post({
+      type: 'result',
+      frameId,
+      timestamp: frame.timestamp,
+      hands: tasks.hands && hands ? processHandsResults(hands.detectForVideo(bitmap, timestamp)) : [],
+      pose: tasks.pose && pose ? processPoseResults(pose.detectForVideo(bitmap, timestamp)) : null,
+      face: tasks.face && face ? processFaceResults(face.detectForVideo(bitmap, timestamp)) : null,
+      inferenceMs: performance.now() - started,
+    });
+  } catch (error) {
+    reportError('frame', error, frameId);
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function drain(frame: FrameRequest) {
+  busy = true;
+  let next: FrameRequest | null = frame;
+  while (next) {
+    await processFrame(next);
+    next = pending;
+    pending = null;
+  }
+  busy = false;
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'configure':
+      config = message.config;
+      failed.clear();
+      closeLandmarkers();
+      break;
+    case 'load':
+      // An explicit load retries a landmarker that failed before
+      failed.delete(message.task);
+      void load(message.task).then(() => {
+        if (!failed.has(message.task)) post({ type: 'ready', task: message.task });
+      });
+      break;
+    case 'frame':
+      if (!busy) {
+        void drain(message);
+        break;
+      }
+      // Backpressure: keep only the newest waiting frame
+      if (pending) {
+        pending.bitmap.close();
+        post({ type: 'dropped', frameId: pending.frameId });
+      }
+      pending = message;
+      break;
+  }
+};
@@ -0,0 +1,145 @@
+/**
+ * Main-thread side of the landmark worker.
+ *
+ * Keeps at most `maxInFlight` frames queued in the worker: `submit` refuses
+ * (and closes) frames while the worker is busy, so callers should check
+ * `isBusy()` before paying for `createImageBitmap`. Stale frames are dropped
+ * instead of queueing up latency.
+ */
+import type {
+  LandmarkTask,
+  LandmarkTaskFlags,
+  LandmarkWorkerConfig,
+  LandmarkWorkerError,
+  LandmarkWorkerRequest,
+  LandmarkWorkerResponse,
+  LandmarkWorkerResult,
+} from './workerProtocol';
+
+/** The subset of `Worker` the client uses (lets tests pass a fake). */
+export interface LandmarkWorkerLike {
+  postMessage: (message: LandmarkWorkerRequest, transfer?: Transferable[]) => void;
+  terminate: () => void;
+  onmessage: ((event: MessageEvent<LandmarkWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export interface LandmarkWorkerStats {
+  submitted: number;
+  completed: number;
+  /** Frames refused by `submit` or replaced inside the worker. */
+  dropped: number;
+}
+
+export interface LandmarkWorkerClient {
+  /** Loads a landmarker before the first frame. Rejects with the worker's error message. */
+  load: (task: LandmarkTask) => Promise<void>;
+  isBusy: () => boolean;
+  /** Transfers `bitmap` to the worker. Returns false (and closes it) if the worker is busy. */
+  submit: (bitmap: ImageBitmap, timestamp: number, tasks: LandmarkTaskFlags) => boolean;
+  getStats: () => LandmarkWorkerStats;
+  close: () => void;
+}
+
+export function createLandmarkWorkerClient(
+  worker: LandmarkWorkerLike,
+  options: {
+    config?: LandmarkWorkerConfig;
+    maxInFlight?: number;
+    onResult: (result: LandmarkWorkerResult) => void;
+    onError?: (error: LandmarkWorkerError) => void;
+  }
+): LandmarkWorkerClient {
+  const { config = {}, maxInFlight = 1, onResult, onError } = options;
+  const inFlight = new Set<number>();
+  const stats: LandmarkWorkerStats = { submitted: 0, completed: 0, dropped: 0 };
+  const loads = new Map<LandmarkTask, Array<{ resolve: () => void; reject: (error: Error) => void }>>();
+  let nextFrameId = 1;
+  let closed = false;
+
+  const settleLoads = (task: LandmarkTask, error?: Error) => {
+    const waiting = loads.get(task) ?? [];
+    loads.delete(task);
+    waiting.forEach(({ resolve, reject }) => (error ? reject(error) : resolve()));
+  };
+
+  worker.onmessage = (event) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'ready':
+        settleLoads(message.task);
+        break;
+      case 'result': {
+        inFlight.delete(message.frameId);
+        stats.completed++;
+        const { type: _type, ...result } = message;
+        onResult(result);
+        break;
+      }
+      case 'dropped':
+        inFlight.delete(message.frameId);
+        stats.dropped++;
+        break;
+      case 'error': {
+        if (message.frameId !== undefined) inFlight.delete(message.frameId);
+        const { type: _type, ...error } = message;
+        if (error.task !== 'frame') settleLoads(error.task, new Error(error.message));
+        onError?.(error);
+        break;
+      }
+    }
+  };
+
+  worker.onerror = (event) => {
+    // Uncaught error inside the worker: nothing in flight will come back
+    inFlight.clear();
+    const message = event.message || 'Landmark worker crashed';
+    (['hands', 'pose', 'face'] as const).forEach((task) => settleLoads(task, new Error(message)));
+    onError?.({ task: 'frame', message });
+  };
+
+  worker.postMessage({ type: 'configure', config });
+
+  return {
+    load(task) {
+      if (closed) return Promise.reject(new Error('Landmark worker is closed'));
+      return new Promise<void>((resolve, reject) => {
+        const waiting = loads.get(task);
+        if (waiting) {
+          waiting.push({ resolve, reject });
+          return;
+        }
+        loads.set(task, [{ resolve, reject }]);
+        worker.postMessage({ type: 'load', task });
+      });
+    },
+    isBusy: () => closed || inFlight.size >= maxInFlight,
+    submit(bitmap, timestamp, tasks) {
+      if (closed || inFlight.size >= maxInFlight) {
+        bitmap.close();
+        stats.dropped++;
+        return false;
+      }
+      const frameId = nextFrameId++;
+      inFlight.add(frameId);
+      stats.submitted++;
+      worker.postMessage({ type: 'frame', frameId, timestamp, bitmap, tasks }, [bitmap]);
+      return true;
+    },
+    getStats: () => ({ ...stats }),
+    close() {
+      if (closed) return;
+      closed = true;
+      inFlight.clear();
+      (['hands', 'pose', 'face'] as const).forEach((task) => settleLoads(task, new Error('Landmark worker is closed')));
+      worker.onmessage = null;
+      worker.onerror = null;
+      worker.terminate();
+    },
+  };
+}
+
+/** Spawns the landmark inference worker (browser only). */
+export function createLandmarkWorker(): Worker {
+  return new Worker(new URL('./landmarkWorker.ts', import.meta.url));
+}
@@ -0,0 +1,129 @@
+/**
+ * Shared MediaPipe Tasks (tasks-vision) runtime.
+ *
+ * Hand, pose and face landmarkers all resolve their WASM from one
+ * `FilesetResolver` call so the runtime is only downloaded/initialized once.
+ *
+ * WASM and `.task` models are self-hosted: `npm run vendor:mediapipe` copies
+ * them into `public/mediapipe/` (it also runs before `npm run build`), so
+ * tracking works without internet access. Set
+ * `NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE_URL` to serve them from somewhere else.
+ */
+import { FilesetResolver } from '@mediapipe/tasks-vision';
+import assets from './assets.json';
+
+export type VisionModel = keyof typeof assets.models;
+
+export const DEFAULT_MEDIAPIPE_ASSET_BASE_URL = '/mediapipe';
+
+export const MEDIAPIPE_ASSET_BASE_URL = normalizeBaseUrl(
+  process.env.NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE_URL || DEFAULT_MEDIAPIPE_ASSET_BASE_URL
+);
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/** URLs of the WASM directory and each model under an asset base URL. */
+export function getVisionAssetUrls(baseUrl: string = MEDIAPIPE_ASSET_BASE_URL) {
+  const base = normalizeBaseUrl(baseUrl);
+  return {
+    wasm: `${base}/wasm`,
+    models: {
+      hand: `${base}/models/${assets.models.hand.file}`,
+      pose: `${base}/models/${assets.models.pose.file}`,
+      face: `${base}/models/${assets.models.face.file}`,
+    } as Record<VisionModel, string>,
+  };
+}
+
+/** Thrown when a WASM or model file cannot be fetched from the asset base URL. */
+export class MediaPipeAssetError extends Error {
+  readonly url: string;
+  readonly status: number | null;
+
+  constructor(url: string, status: number | null) {
+    super(
+      `MediaPipe asset not found: ${url}${status !== null ? ` (HTTP ${status})` : ''}. ` +
+        'Run `npm run vendor:mediapipe` or check NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE_URL.'
+    );
+    this.name = 'MediaPipeAssetError';
+    this.url = url;
+    this.status = status;
+  }
+}
+
+const checkedAssets = new Map<string, Promise<void>>();
+
+/**
+ * Fails fast with a `MediaPipeAssetError` if `url` is not served, instead of
+ * letting the landmarker hang on a missing file. Successful checks are cached.
+ */
+export function ensureAssetAvailable(url: string): Promise<void> {
+  let check = checkedAssets.get(url);
+  if (!check) {
+    check = fetch(url, { method: 'HEAD' })
+      .then(
+        (response) => {
+          if (!response.ok) throw new MediaPipeAssetError(url, response.status);
+        },
+        () => {
+          throw new MediaPipeAssetError(url, null);
+        }
+      )
+      .catch((error) => {
+        checkedAssets.delete(url);
+        throw error;
+      });
+    checkedAssets.set(url, check);
+  }
+  return check;
+}
+
+/** Resolves a model's URL after checking that it is available. */
+export async function resolveModelUrl(model: VisionModel): Promise<string> {
+  const url = getVisionAssetUrls().models[model];
+  await ensureAssetAvailable(url);
+  return url;
+}
+
+type VisionFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+let filesetPromise: Promise<VisionFileset> | null = null;
+
+/**
+ * Resolves the tasks-vision WASM fileset once and shares it between landmarkers.
+ * A failed load is not cached so callers can retry.
+ */
+export function getVisionFileset(): Promise<VisionFileset> {
+  // `self` exists in both the main thread and the landmark worker, but not during SSR
+  if (typeof self === 'undefined') {
+    return Promise.reject(new Error('MediaPipe tasks must be created in the browser (self is undefined)'));
+  }
+  if (!filesetPromise) {
+    filesetPromise = FilesetResolver.forVisionTasks(getVisionAssetUrls().wasm)
+      .then(async (fileset) => {
+        // The resolver picks the SIMD or non-SIMD build; check the files it chose
+        await Promise.all([ensureAssetAvailable(fileset.wasmLoaderPath), ensureAssetAvailable(fileset.wasmBinaryPath)]);
+        return fileset;
+      })
+      .catch((error) => {
+        filesetPromise = null;
+        throw error;
+      });
+  }
+  return filesetPromise;
+}
+
+/**
+ * Returns a strictly increasing timestamp for `detectForVideo`.
+ * Landmarkers reject timestamps that are not greater than the previous one.
+ */
+export function createVideoTimestamper() {
+  let last = -1;
+  return (now: number = performance.now()) => {
+    const ts = now > last ? now : last + 1;
+    last = ts;
+    return ts;
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Messages exchanged between the main thread and the landmark worker
+ * (`landmarkWorker.ts`). Frames travel as transferred `ImageBitmap`s; results
+ * come back in the `types/mediapipe` shapes.
+ */
+import type { FaceResults, HandResults, PoseResults } from '@/types/mediapipe';
+
+export type LandmarkTask = 'hands' | 'pose' | 'face';
+
+export interface LandmarkWorkerConfig {
+  numHands?: number;
+  minDetectionConfidence?: number;
+  minTrackingConfidence?: number;
+}
+
+/** Which landmarkers to run on a frame. Landmarkers are created on first use. */
+export type LandmarkTaskFlags = Record<LandmarkTask, boolean>;
+
+export type LandmarkWorkerRequest =
+  | { type: 'configure'; config: LandmarkWorkerConfig }
+  /** Loads a landmarker ahead of the first frame; answered with `ready` or `error`. */
+  | { type: 'load'; task: LandmarkTask }
+  | { type: 'frame'; frameId: number; timestamp: number; bitmap: ImageBitmap; tasks: LandmarkTaskFlags };
+
+export interface LandmarkWorkerResult {
+  frameId: number;
+  timestamp: number;
+  hands: HandResults[];
+  pose: PoseResults | null;
+  face: FaceResults | null;
+  /** Time spent in `detectForVideo` for this frame (ms). */
+  inferenceMs: number;
+}
+
+export interface LandmarkWorkerError {
+  /** Landmarker that failed; `frame` is a detection error for a single frame. */
+  task: LandmarkTask | 'frame';
+  message: string;
+  /** Set when the failure was a missing WASM/model file. */
+  assetUrl?: string;
+  /** Frame the error belongs to; the frame is finished either way. */
+  frameId?: number;
+}
+
+export type LandmarkWorkerResponse =
+  | { type: 'ready'; task: LandmarkTask }
+  | ({ type: 'result' } & LandmarkWorkerResult)
+  | ({ type: 'error' } & LandmarkWorkerError)
+  /** A frame was replaced by a newer one before it was processed. */
+  | { type: 'dropped'; frameId: number };
@@ -0,0 +1,248 @@
+/**
+ * Web MIDI helpers.
+ * Inputs: control change and note messages from every connected device (hot-plugged devices are picked up), used by
+ * external control (see `externalControl.ts`).
+ * Outputs: note, control change and pitch bend messages sent to one device or all of them, used by MIDI output (see
+ * `midiOutput.ts`).
+ * Web MIDI needs a secure context and is missing in some browsers (Safari); both report that as `unsupported`.
+ */
+
+export interface MidiControlMessage {
+  type: 'cc' | 'note';
+  /** 1-16 */
+  channel: number;
+  /** Controller or note number (0-127). */
+  number: number;
+  /** 0-127; note off (or note on with velocity 0) is 0. */
+  value: number;
+}
+
+/** Parses control change, note on and note off messages; anything else returns null. */
+export function parseMidiMessage(data: ArrayLike<number>): MidiControlMessage | null {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  const number = data[1] & 0x7f;
+  const value = data[2] & 0x7f;
+  switch (status) {
+    case 0xb0:
+      return { type: 'cc', channel, number, value };
+    case 0x90:
+      return { type: 'note', channel, number, value };
+    case 0x80:
+      return { type: 'note', channel, number, value: 0 };
+    default:
+      return null;
+  }
+}
+
+const channelStatus = (status: number, channel: number) => status | ((Math.min(16, Math.max(1, channel)) - 1) & 0x0f);
+const dataByte = (value: number) => Math.min(127, Math.max(0, Math.round(value)));
+
+/** Note on; a velocity of 0 is bumped to 1 (velocity 0 means note off). */
+export function encodeNoteOn(channel: number, note: number, velocity: number): number[] {
+  return [channelStatus(0x90, channel), dataByte(note), Math.max(1, dataByte(velocity))];
+}
+
+export function encodeNoteOff(channel: number, note: number): number[] {
+  return [channelStatus(0x80, channel), dataByte(note), 0];
+}
+
+export function encodeControlChange(channel: number, controller: number, value: number): number[] {
+  return [channelStatus(0xb0, channel), dataByte(controller), dataByte(value)];
+}
+
+/** Pitch bend from -1 (down) to 1 (up); 0 is centered. */
+export function encodePitchBend(channel: number, bend: number): number[] {
+  const value = Math.min(16383, Math.max(0, Math.round(8192 + Math.min(1, Math.max(-1, bend)) * 8192)));
+  return [channelStatus(0xe0, channel), value & 0x7f, value >> 7];
+}
+
+export type MidiAccessStatus = 'idle' | 'pending' | 'ready' | 'unsupported' | 'denied';
+
+export type MidiMessageListener = (message: MidiControlMessage, inputName: string) => void;
+
+export interface MidiInputListener {
+  start: () => void;
+  stop: () => void;
+  getStatus: () => MidiAccessStatus;
+  /** Names of the connected input devices. */
+  getInputNames: () => string[];
+}
+
+export interface MidiInputListenerOptions {
+  onStatusChange?: (status: MidiAccessStatus) => void;
+  /** Called when devices are plugged in or removed. */
+  onInputsChange?: (names: string[]) => void;
+  /** Defaults to `navigator.requestMIDIAccess` (injectable for tests). */
+  requestAccess?: () => Promise<MIDIAccess>;
+}
+
+const defaultRequestAccess = () => navigator.requestMIDIAccess();
+
+function resolveRequestAccess(requestAccess?: () => Promise<MIDIAccess>) {
+  if (requestAccess) return requestAccess;
+  return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function' ? defaultRequestAccess : null;
+}
+
+/** Listens to every MIDI input while started. */
+export function createMidiInputListener(
+  onMessage: MidiMessageListener,
+  options: MidiInputListenerOptions = {}
+): MidiInputListener {
+  const { onStatusChange, onInputsChange } = options;
+  const requestAccess = resolveRequestAccess(options.requestAccess);
+  const attached = new Map<MIDIInput, (event: MIDIMessageEvent) => void>();
+  let access: MIDIAccess | null = null;
+  let running = false;
+  let status: MidiAccessStatus = 'idle';
+
+  const setStatus = (next: MidiAccessStatus) => {
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const getInputNames = () => Array.from(attached.keys(), (input) => input.name ?? input.id);
+
+  const detachAll = () => {
+    attached.forEach((handler, input) => input.removeEventListener('midimessage', handler));
+    attached.clear();
+  };
+
+  // Re-attaches to the current inputs (also on hot-plug)
+  const syncInputs = () => {
+    if (!access) return;
+    detachAll();
+    access.inputs.forEach((input) => {
+      if (input.state === 'disconnected') return;
+      const handler = (event: MIDIMessageEvent) => {
+        const message = event.data ? parseMidiMessage(event.data) : null;
+        if (message) onMessage(message, input.name ?? input.id);
+      };
+      input.addEventListener('midimessage', handler);
+      attached.set(input, handler);
+    });
+    onInputsChange?.(getInputNames());
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      if (!requestAccess) {
+        setStatus('unsupported');
+        return;
+      }
+      setStatus('pending');
+      requestAccess().then(
+        (granted) => {
+          if (!running) return;
+          access = granted;
+          access.onstatechange = syncInputs;
+          syncInputs();
+          setStatus('ready');
+        },
+        (error) => {
+          console.error('MIDI access denied:', error);
+          if (running) setStatus('denied');
+        }
+      );
+    },
+    stop() {
+      running = false;
+      detachAll();
+      if (access) access.onstatechange = null;
+      access = null;
+      setStatus('idle');
+    },
+    getStatus: () => status,
+    getInputNames,
+  };
+}
+
+export interface MidiOutputPort {
+  start: () => void;
+  stop: () => void;
+  /**
+   * Sends messages to the output named `outputName`, or to every output when it is empty. Returns false when nothing
+   * was sent (not ready, or no such output).
+   */
+  send: (messages: number[][], outputName: string) => boolean;
+  getStatus: () => MidiAccessStatus;
+  /** Names of the connected output devices. */
+  getOutputNames: () => string[];
+}
+
+export interface MidiOutputPortOptions {
+  onStatusChange?: (status: MidiAccessStatus) => void;
+  /** Called when devices are plugged in or removed. */
+  onOutputsChange?: (names: string[]) => void;
+  /** Defaults to `navigator.requestMIDIAccess` (injectable for tests). */
+  requestAccess?: () => Promise<MIDIAccess>;
+}
+
+/** Gives access to the MIDI outputs while started. */
+export function createMidiOutputPort(options: MidiOutputPortOptions = {}): MidiOutputPort {
+  const { onStatusChange, onOutputsChange } = options;
+  const requestAccess = resolveRequestAccess(options.requestAccess);
+  let access: MIDIAccess | null = null;
+  let running = false;
+  let status: MidiAccessStatus = 'idle';
+
+  const setStatus = (next: MidiAccessStatus) => {
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const getOutputs = () => {
+    const outputs: MIDIOutput[] = [];
+    access?.outputs.forEach((output) => {
+      if (output.state !== 'disconnected') outputs.push(output);
+    });
+    return outputs;
+  };
+
+  const getOutputNames = () => getOutputs().map((output) => output.name ?? output.id);
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      if (!requestAccess) {
+        setStatus('unsupported');
+        return;
+      }
+      setStatus('pending');
+      requestAccess().then(
+        (granted) => {
+          if (!running) return;
+          access = granted;
+          access.onstatechange = () => onOutputsChange?.(getOutputNames());
+          onOutputsChange?.(getOutputNames());
+          setStatus('ready');
+        },
+        (error) => {
+          console.error('MIDI access denied:', error);
+          if (running) setStatus('denied');
+        }
+      );
+    },
+    stop() {
+      running = false;
+      if (access) access.onstatechange = null;
+      access = null;
+      setStatus('idle');
+    },
+    send(messages, outputName) {
+      if (messages.length === 0) return true;
+      const outputs = getOutputs().filter((output) => !outputName || (output.name ?? output.id) === outputName);
+      if (outputs.length === 0) return false;
+      for (const output of outputs) {
+        for (const message of messages) output.send(message);
+      }
+      return true;
+    },
+    getStatus: () => status,
+    getOutputNames,
+  };
+}
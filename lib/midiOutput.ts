@@ -0,0 +1,326 @@
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import type { FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
+import {
+  DEFAULT_PINCH_THRESHOLD,
+  INDEX_FINGER_TIP,
+  MIDDLE_FINGER_TIP,
+  PINKY_TIP,
+  RING_FINGER_TIP,
+  THUMB_TIP,
+  calculateDistance,
+} from '@/components/hand-tracking/pinchMath';
+import type { TrackingFrame } from '@/components/hand-tracking/trackingSources';
+import { encodeControlChange, encodeNoteOff, encodeNoteOn, encodePitchBend } from './midi';
+
+/**
+ * MIDI output: hands as a musical instrument (sent through Web MIDI, see `midi.ts`).
+ *   Fingertip heights   CC base..base+4 (thumb..pinky): 0 at the bottom of the frame, 127 at the top
+ *   Pinch start / end   note on / off. Pitch from the pinch position, left to right as seen in the mirrored preview,
+ *                       across `octaves` octaves from the root note, quantized to the scale. Velocity from how fast
+ *                       the fingers closed.
+ *   Pinch vector        on release: pitch bend (up or down with the vertical direction, amount by length, recentered
+ *                       by the next note on that channel), or two CCs (length, direction angle)
+ * Each hand plays on its own channel (by handedness; hands of unknown handedness by order). CCs are sent at most
+ * `rateHz` times per second and only when they change; notes are sent as they happen.
+ */
+
+export type MidiScale = 'chromatic' | 'major' | 'minor' | 'dorian' | 'pentatonicMajor' | 'pentatonicMinor' | 'blues';
+
+export const MIDI_SCALES: MidiScale[] = ['chromatic', 'major', 'minor', 'dorian', 'pentatonicMajor', 'pentatonicMinor', 'blues'];
+
+export const MIDI_SCALE_LABELS: Record<MidiScale, string> = {
+  chromatic: 'Chromatic',
+  major: 'Major',
+  minor: 'Natural minor',
+  dorian: 'Dorian',
+  pentatonicMajor: 'Major pentatonic',
+  pentatonicMinor: 'Minor pentatonic',
+  blues: 'Blues',
+};
+
+/** Semitones above the root of each scale degree. */
+export const MIDI_SCALE_INTERVALS: Record<MidiScale, number[]> = {
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  pentatonicMajor: [0, 2, 4, 7, 9],
+  pentatonicMinor: [0, 3, 5, 7, 10],
+  blues: [0, 3, 5, 6, 7, 10],
+};
+
+export type MidiVectorMode = 'off' | 'pitchBend' | 'cc';
+
+export const MIDI_VECTOR_MODES: MidiVectorMode[] = ['off', 'pitchBend', 'cc'];
+
+export const MIDI_VECTOR_MODE_LABELS: Record<MidiVectorMode, string> = {
+  off: 'Off',
+  pitchBend: 'Pitch bend',
+  cc: 'CC (length, direction)',
+};
+
+export interface MidiOutputSettings {
+  enabled: boolean;
+  /** Output device name; empty sends to every output. */
+  outputName: string;
+  /** Channels (1-16) of the left and right hand. */
+  leftChannel: number;
+  rightChannel: number;
+  fingertipCc: boolean;
+  /** Thumb..pinky heights are sent as CC `fingertipCcBase`..`fingertipCcBase + 4`. */
+  fingertipCcBase: number;
+  pinchNotes: boolean;
+  /** Lowest note (MIDI note number; 48 = C3). */
+  rootNote: number;
+  scale: MidiScale;
+  /** Octaves spanned across the frame width. */
+  octaves: number;
+  vector: MidiVectorMode;
+  /** Channel of pinch vector messages. */
+  vectorChannel: number;
+  /** `cc` mode: length on `vectorCcBase`, direction on `vectorCcBase + 1`. */
+  vectorCcBase: number;
+  /** Maximum CC updates per second. */
+  rateHz: number;
+}
+
+export const DEFAULT_MIDI_OUTPUT_SETTINGS: MidiOutputSettings = {
+  enabled: false,
+  outputName: '',
+  leftChannel: 1,
+  rightChannel: 2,
+  fingertipCc: true,
+  fingertipCcBase: 20,
+  pinchNotes: true,
+  rootNote: 48,
+  scale: 'pentatonicMinor',
+  octaves: 2,
+  vector: 'pitchBend',
+  vectorChannel: 1,
+  vectorCcBase: 30,
+  rateHz: 30,
+};
+
+export const MIDI_MIN_RATE_HZ = 1;
+export const MIDI_MAX_RATE_HZ = 60;
+export const MIDI_MAX_OCTAVES = 4;
+
+const FINGERTIPS = [THUMB_TIP, INDEX_FINGER_TIP, MIDDLE_FINGER_TIP, RING_FINGER_TIP, PINKY_TIP];
+
+// A pinch ends once the fingers are this much further apart than the pinch threshold (no retriggering on jitter)
+const PINCH_RELEASE_FACTOR = 1.4;
+// Closing speed is measured over this window before the pinch
+const VELOCITY_WINDOW_MS = 100;
+// Thumb-index closing speed (frame widths per second) played at full velocity
+const FULL_VELOCITY_SPEED = 1.5;
+// Pinch vector length (fraction of the frame) for a full bend / CC 127
+const VECTOR_FULL_SCALE = 0.5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const clamp01 = (value: number) => clamp(value, 0, 1);
+
+/** Fills in defaults for missing or invalid fields (e.g. settings read from localStorage). */
+export function normalizeMidiOutputSettings(value: unknown): MidiOutputSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof MidiOutputSettings, unknown>>;
+  const bool = (key: 'enabled' | 'fingertipCc' | 'pinchNotes') =>
+    typeof input[key] === 'boolean' ? (input[key] as boolean) : DEFAULT_MIDI_OUTPUT_SETTINGS[key];
+  const int = (
+    key: 'leftChannel' | 'rightChannel' | 'vectorChannel' | 'fingertipCcBase' | 'rootNote' | 'octaves' | 'vectorCcBase' | 'rateHz',
+    min: number,
+    max: number
+  ) => {
+    const raw = input[key];
+    return typeof raw === 'number' && Number.isFinite(raw)
+      ? clamp(Math.round(raw), min, max)
+      : DEFAULT_MIDI_OUTPUT_SETTINGS[key];
+  };
+  return {
+    enabled: bool('enabled'),
+    outputName: typeof input.outputName === 'string' ? input.outputName : '',
+    leftChannel: int('leftChannel', 1, 16),
+    rightChannel: int('rightChannel', 1, 16),
+    fingertipCc: bool('fingertipCc'),
+    fingertipCcBase: int('fingertipCcBase', 0, 127 - (FINGERTIPS.length - 1)),
+    pinchNotes: bool('pinchNotes'),
+    rootNote: int('rootNote', 0, 127),
+    scale: MIDI_SCALES.includes(input.scale as MidiScale) ? (input.scale as MidiScale) : DEFAULT_MIDI_OUTPUT_SETTINGS.scale,
+    octaves: int('octaves', 1, MIDI_MAX_OCTAVES),
+    vector: MIDI_VECTOR_MODES.includes(input.vector as MidiVectorMode)
+      ? (input.vector as MidiVectorMode)
+      : DEFAULT_MIDI_OUTPUT_SETTINGS.vector,
+    vectorChannel: int('vectorChannel', 1, 16),
+    vectorCcBase: int('vectorCcBase', 0, 126),
+    rateHz: int('rateHz', MIDI_MIN_RATE_HZ, MIDI_MAX_RATE_HZ),
+  };
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/** Note name with octave, e.g. 48 → `C3` (60 = C4). */
+export function formatMidiNote(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+}
+
+/** Nearest note of the scale built on `root` (ties go down). */
+export function quantizeToScale(note: number, root: number, scale: MidiScale): number {
+  const intervals = MIDI_SCALE_INTERVALS[scale];
+  const rounded = Math.round(note);
+  for (let offset = 0; offset < 12; offset++) {
+    for (const candidate of [rounded - offset, rounded + offset]) {
+      if (intervals.includes((((candidate - root) % 12) + 12) % 12)) return candidate;
+    }
+  }
+  return rounded;
+}
+
+/** Note for a pinch at `position` (0 = left edge, 1 = right edge). */
+export function getPinchNote(position: number, settings: MidiOutputSettings): number {
+  const { rootNote, scale, octaves } = settings;
+  return clamp(quantizeToScale(rootNote + clamp01(position) * octaves * 12, rootNote, scale), 0, 127);
+}
+
+/** Velocity (1-127) for a thumb-index closing speed in frame widths per second. */
+export function getPinchVelocity(closingSpeed: number): number {
+  return 1 + Math.round(clamp01(closingSpeed / FULL_VELOCITY_SPEED) * 126);
+}
+
+/** Channel of a hand: by handedness, or the left channel for the first unknown hand and the right one after. */
+export function getMidiHandChannel(hand: Hand3DData, index: number, settings: MidiOutputSettings): number {
+  if (hand.handedness === 'Left') return settings.leftChannel;
+  if (hand.handedness === 'Right') return settings.rightChannel;
+  return index === 0 ? settings.leftChannel : settings.rightChannel;
+}
+
+/** Messages for a final pinch vector (none when `settings.vector` is off). */
+export function buildFinalVectorMidiMessages(vector: FinalVector, settings: MidiOutputSettings): number[][] {
+  const channel = settings.vectorChannel;
+  const amount = clamp01(vector.magnitude / VECTOR_FULL_SCALE);
+  if (settings.vector === 'pitchBend') {
+    // Screen y grows downwards: swiping up bends up
+    return [encodePitchBend(channel, -vector.dy * amount)];
+  }
+  if (settings.vector === 'cc') {
+    const angle = (Math.atan2(-vector.dy, vector.dx) + Math.PI) / (2 * Math.PI);
+    return [
+      encodeControlChange(channel, settings.vectorCcBase, amount * 127),
+      encodeControlChange(channel, settings.vectorCcBase + 1, angle * 127),
+    ];
+  }
+  return [];
+}
+
+export interface MidiOutputEngine {
+  /** Messages for a tracking frame; `now` is a wall-clock time in ms (paces CCs and measures pinch speed). */
+  processFrame: (frame: TrackingFrame, settings: MidiOutputSettings, now: number) => number[][];
+  processFinalVector: (vector: FinalVector, settings: MidiOutputSettings) => number[][];
+  /** Note offs for held notes and centered pitch bends: send before stopping or switching outputs. */
+  reset: () => number[][];
+}
+
+interface HandState {
+  pinching: boolean;
+  held: { channel: number; note: number } | null;
+  /** Recent thumb-index distances, for the closing speed. */
+  samples: Array<{ time: number; distance: number }>;
+}
+
+const getHandKey = (hand: Hand3DData, index: number) =>
+  hand.handedness === 'Unknown' ? `unknown:${hand.id ?? index}` : hand.handedness;
+
+/** Tracks pinches and sent values across frames. */
+export function createMidiOutputEngine(): MidiOutputEngine {
+  const hands = new Map<string, HandState>();
+  const lastCcValues = new Map<string, number>();
+  const bentChannels = new Set<number>();
+  let lastCcTime = -Infinity;
+
+  const release = (state: HandState, messages: number[][]) => {
+    if (!state.held) return;
+    messages.push(encodeNoteOff(state.held.channel, state.held.note));
+    state.held = null;
+  };
+
+  const pushControlChange = (messages: number[][], channel: number, controller: number, value: number) => {
+    const key = `${channel}:${controller}`;
+    const rounded = Math.round(clamp(value, 0, 127));
+    if (lastCcValues.get(key) === rounded) return;
+    lastCcValues.set(key, rounded);
+    messages.push(encodeControlChange(channel, controller, rounded));
+  };
+
+  return {
+    processFrame(frame, settings, now) {
+      const messages: number[][] = [];
+      const seen = new Set<string>();
+      const sendCc = settings.fingertipCc && now - lastCcTime >= 1000 / settings.rateHz;
+      if (sendCc) lastCcTime = now;
+
+      frame.hands.forEach((hand, index) => {
+        if (hand.landmarks.length < 21) return;
+        const key = getHandKey(hand, index);
+        const channel = getMidiHandChannel(hand, index, settings);
+        seen.add(key);
+        let state = hands.get(key);
+        if (!state) {
+          state = { pinching: false, held: null, samples: [] };
+          hands.set(key, state);
+        }
+
+        const thumb = hand.landmarks[THUMB_TIP];
+        const indexTip = hand.landmarks[INDEX_FINGER_TIP];
+        const distance = calculateDistance(thumb, indexTip);
+        state.samples = state.samples.filter((sample) => now - sample.time <= VELOCITY_WINDOW_MS);
+        const oldest = state.samples[0];
+        state.samples.push({ time: now, distance });
+
+        if (!state.pinching && distance < DEFAULT_PINCH_THRESHOLD) {
+          state.pinching = true;
+          if (settings.pinchNotes) {
+            const seconds = oldest ? (now - oldest.time) / 1000 : 0;
+            const speed = seconds > 0 ? Math.max(0, oldest.distance - distance) / seconds : 0;
+            // Landmarks are in camera space; the preview is mirrored
+            const note = getPinchNote(1 - (thumb.x + indexTip.x) / 2, settings);
+            release(state, messages);
+            if (bentChannels.delete(channel)) messages.push(encodePitchBend(channel, 0));
+            messages.push(encodeNoteOn(channel, note, getPinchVelocity(speed)));
+            state.held = { channel, note };
+          }
+        } else if (state.pinching && distance > DEFAULT_PINCH_THRESHOLD * PINCH_RELEASE_FACTOR) {
+          state.pinching = false;
+          release(state, messages);
+        }
+        if (!settings.pinchNotes) release(state, messages);
+
+        if (sendCc) {
+          FINGERTIPS.forEach((tip, i) => {
+            pushControlChange(messages, channel, settings.fingertipCcBase + i, (1 - hand.landmarks[tip].y) * 127);
+          });
+        }
+      });
+
+      // Hands that left the frame release their note
+      hands.forEach((state, key) => {
+        if (seen.has(key)) return;
+        release(state, messages);
+        hands.delete(key);
+      });
+
+      return messages;
+    },
+    processFinalVector(vector, settings) {
+      const messages = buildFinalVectorMidiMessages(vector, settings);
+      if (settings.vector === 'pitchBend') bentChannels.add(settings.vectorChannel);
+      return messages;
+    },
+    reset() {
+      const messages: number[][] = [];
+      hands.forEach((state) => release(state, messages));
+      bentChannels.forEach((channel) => messages.push(encodePitchBend(channel, 0)));
+      hands.clear();
+      bentChannels.clear();
+      lastCcValues.clear();
+      lastCcTime = -Infinity;
+      return messages;
+    },
+  };
+}
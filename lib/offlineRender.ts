@@ -0,0 +1,292 @@
+import { createHandIdentityTracker } from '@/components/hand-tracking/handIdentity';
+import { createHandLandmarkFilter, type LandmarkFilterSettings } from '@/components/hand-tracking/landmarkFilter';
+import { getFrameIndexAtTime, type LandmarkRecording } from '@/components/hand-tracking/landmarkRecording';
+import {
+  createModulationEngine,
+  type ModulationMapping,
+  type ModulationValues,
+} from '@/components/hand-tracking/modulation';
+import { EMPTY_TRACKING_FRAME, type TrackingFrame } from '@/components/hand-tracking/trackingSources';
+import { downloadBlob, pickRecorderMimeType } from '@/lib/capture';
+import { MAX_SEED } from '@/lib/random';
+import { createTarEnd, createTarEntryParts } from '@/lib/tar';
+
+/**
+ * Offline rendering of a recorded session: the visual is stepped frame by frame with a fixed timestep
+ * (`advance()` on a `frameloop="never"` canvas) instead of running in real time, so every frame is rendered at
+ * the chosen size no matter how slow, and the same recording, controls and seed give the same frames.
+ * Frames are saved as a PNG sequence (a folder, or a .tar download) or a WebM video.
+ */
+
+/**
+ * Canvas props for a visual that is stepped by `advance()`: no frame loop, no device pixel ratio, and sized by
+ * layout so a scaled-down preview still renders at full size.
+ */
+export const OFFLINE_CANVAS_PROPS = {
+  frameloop: 'never',
+  dpr: 1,
+  resize: { offsetSize: true },
+} as const;
+
+export type OfflineRenderFormat = 'png' | 'webm';
+
+export const OFFLINE_RENDER_FORMATS: OfflineRenderFormat[] = ['png', 'webm'];
+
+export const OFFLINE_RENDER_FORMAT_LABELS: Record<OfflineRenderFormat, string> = {
+  png: 'PNG sequence',
+  webm: 'WebM video',
+};
+
+export const OFFLINE_RENDER_FRAME_RATES = [24, 30, 60];
+
+export interface OfflineRenderSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const OFFLINE_RENDER_SIZES: OfflineRenderSize[] = [
+  { id: '720p', label: '1280 × 720', width: 1280, height: 720 },
+  { id: '1080p', label: '1920 × 1080', width: 1920, height: 1080 },
+  { id: '1440p', label: '2560 × 1440', width: 2560, height: 1440 },
+  { id: '2160p', label: '3840 × 2160 (4K)', width: 3840, height: 2160 },
+  { id: 'vertical', label: '1080 × 1920 (9:16)', width: 1080, height: 1920 },
+  { id: 'square', label: '1080 × 1080 (1:1)', width: 1080, height: 1080 },
+];
+
+export interface OfflineRenderSettings {
+  format: OfflineRenderFormat;
+  fps: number;
+  /** `OFFLINE_RENDER_SIZES` id. */
+  size: string;
+  /** Seed for the visual's randomness (particles, stars, …). */
+  seed: number;
+}
+
+export const DEFAULT_OFFLINE_RENDER_SETTINGS: OfflineRenderSettings = {
+  format: 'png',
+  fps: 30,
+  size: '1080p',
+  seed: 1,
+};
+
+export function normalizeOfflineRenderSettings(value: unknown): OfflineRenderSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof OfflineRenderSettings, unknown>>;
+  const seed = input.seed;
+  return {
+    format: OFFLINE_RENDER_FORMATS.includes(input.format as OfflineRenderFormat)
+      ? (input.format as OfflineRenderFormat)
+      : DEFAULT_OFFLINE_RENDER_SETTINGS.format,
+    fps:
+      typeof input.fps === 'number' && OFFLINE_RENDER_FRAME_RATES.includes(input.fps)
+        ? input.fps
+        : DEFAULT_OFFLINE_RENDER_SETTINGS.fps,
+    size: OFFLINE_RENDER_SIZES.some((s) => s.id === input.size) ? (input.size as string) : DEFAULT_OFFLINE_RENDER_SETTINGS.size,
+    seed:
+      typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED
+        ? seed
+        : DEFAULT_OFFLINE_RENDER_SETTINGS.seed,
+  };
+}
+
+export const getOfflineRenderSize = (id: string): OfflineRenderSize =>
+  OFFLINE_RENDER_SIZES.find((s) => s.id === id) ?? OFFLINE_RENDER_SIZES.find((s) => s.id === '1080p')!;
+
+/** Frames needed to cover a recording, including the one at t = 0. */
+export function getOfflineFrameCount(durationMs: number, fps: number): number {
+  return Math.floor((Math.max(0, durationMs) / 1000) * fps + 1e-9) + 1;
+}
+
+/** Timestamp (ms) of frame `index` on the fixed timestep. */
+export const getOfflineFrameTime = (index: number, fps: number): number => (index * 1000) / fps;
+
+/** `frame_0042.png`, zero-padded to the length of the last index (at least 4 digits) so files sort in order. */
+export function formatFrameFileName(index: number, total: number): string {
+  const digits = Math.max(4, String(Math.max(0, total - 1)).length);
+  return `frame_${String(index).padStart(digits, '0')}.png`;
+}
+
+export interface OfflineFrame {
+  /** Tracking frame as the live pipeline would deliver it at this time (ids and filtering applied). */
+  frame: TrackingFrame;
+  modulation: ModulationValues;
+}
+
+export interface OfflineFramePipeline {
+  /** Frames must be requested in increasing order (filters and smoothing keep state). */
+  frameAt: (index: number) => OfflineFrame;
+}
+
+/**
+ * Replays a recording on the fixed timestep through the same stages as `useTrackingFrame` and `useModulation`:
+ * each recorded frame runs once through the identity tracker and landmark filter (on its own timestamp, as when
+ * the recording is played back live), and the modulation matrix is evaluated on every rendered frame.
+ * Audio signals are not available offline and hold their resting values.
+ */
+export function createOfflineFramePipeline(options: {
+  recording: LandmarkRecording;
+  fps: number;
+  filter?: LandmarkFilterSettings | null;
+  modulations: ModulationMapping[];
+}): OfflineFramePipeline {
+  const { recording, fps, filter: filterSettings = null, modulations } = options;
+  const identity = createHandIdentityTracker();
+  const filter = filterSettings ? createHandLandmarkFilter(filterSettings) : null;
+  const engine = createModulationEngine();
+  let lastIndex = -1;
+  let current: TrackingFrame = EMPTY_TRACKING_FRAME;
+
+  return {
+    frameAt(index) {
+      const timeMs = getOfflineFrameTime(index, fps);
+      const recordedIndex = getFrameIndexAtTime(recording, timeMs);
+      if (recordedIndex !== lastIndex && recordedIndex >= 0) {
+        const recorded = recording.frames[recordedIndex]!;
+        const { hands } = identity.update(recorded.hands, recorded.t);
+        current = {
+          timestamp: recorded.t,
+          hands: filter ? filter.apply(hands, recorded.t) : hands,
+          pose: recorded.pose,
+          face: null,
+          pinchVector: recorded.pinchVector,
+          rightHandDistance: recorded.rightHandDistance,
+        };
+      }
+      lastIndex = recordedIndex;
+      const frame = { ...current, timestamp: timeMs };
+      return { frame, modulation: engine.update(frame, modulations, null) };
+    },
+  };
+}
+
+/** Receives the rendered frames, drawn into the canvas passed to `createOfflineFrameSink`. */
+export interface OfflineFrameSink {
+  write: (index: number) => Promise<void>;
+  finish: () => Promise<void>;
+  abort: () => void;
+}
+
+// File System Access API (Chromium); not in TypeScript's DOM lib yet
+type DirectoryPicker = (options?: { mode?: 'read' | 'readwrite'; id?: string }) => Promise<FileSystemDirectoryHandle>;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode frame'))), type)
+  );
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function createDirectorySink(
+  pick: DirectoryPicker,
+  canvas: HTMLCanvasElement,
+  name: string,
+  total: number
+): Promise<OfflineFrameSink> {
+  const parent = await pick({ mode: 'readwrite', id: 'offline-render' });
+  const dir = await parent.getDirectoryHandle(name, { create: true });
+  return {
+    async write(index) {
+      const blob = await canvasToBlob(canvas, 'image/png');
+      const file = await dir.getFileHandle(formatFrameFileName(index, total), { create: true });
+      const writable = await file.createWritable();
+      await writable.write(blob);
+      await writable.close();
+    },
+    finish: async () => {},
+    abort: () => {},
+  };
+}
+
+/**
+ * Each frame is appended to the archive as it arrives, as the encoded PNG Blob itself: frames are never copied into
+ * the JavaScript heap, and the browser may page Blob data out to disk, so long or 4K renders fit.
+ */
+function createTarSink(canvas: HTMLCanvasElement, name: string, total: number): OfflineFrameSink {
+  let parts: BlobPart[] = [];
+  return {
+    async write(index) {
+      const blob = await canvasToBlob(canvas, 'image/png');
+      const entry = { name: `${name}/${formatFrameFileName(index, total)}`, data: blob };
+      parts.push(...(createTarEntryParts(entry) as BlobPart[]));
+    },
+    async finish() {
+      parts.push(createTarEnd() as BlobPart);
+      downloadBlob(new Blob(parts, { type: 'application/x-tar' }), `${name}.tar`);
+      parts = [];
+    },
+    abort() {
+      parts = [];
+    },
+  };
+}
+
+/**
+ * MediaRecorder timestamps frames by wall-clock time, so the recorder is only resumed for one frame interval
+ * after each frame: however long a frame takes to render, it lasts exactly 1/fps in the video.
+ */
+function createWebmSink(canvas: HTMLCanvasElement, name: string, fps: number): OfflineFrameSink {
+  const mimeType = pickRecorderMimeType('webm', (type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('This browser cannot record video');
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 40_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+  const release = () => stream.getTracks().forEach((t) => t.stop());
+  let started = false;
+
+  return {
+    async write() {
+      if (!started) {
+        recorder.start();
+        started = true;
+      } else {
+        recorder.resume();
+      }
+      track.requestFrame();
+      await sleep(1000 / fps);
+      recorder.pause();
+    },
+    async finish() {
+      if (started) {
+        recorder.resume();
+        recorder.stop();
+        await stopped;
+      }
+      release();
+      const extension = mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+      if (chunks.length > 0) downloadBlob(new Blob(chunks, { type: mimeType.split(';')[0] }), `${name}.${extension}`);
+    },
+    abort() {
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+}
+
+/**
+ * Opens the output for a render. PNG sequences go into a folder picked by the user when the browser supports it
+ * (call this from the click handler: the picker needs a user gesture), otherwise into a .tar download.
+ * `name` names the folder, archive or video.
+ */
+export async function createOfflineFrameSink(
+  settings: Pick<OfflineRenderSettings, 'format' | 'fps'>,
+  canvas: HTMLCanvasElement,
+  name: string,
+  total: number
+): Promise<OfflineFrameSink> {
+  if (settings.format === 'webm') {
+    if (typeof MediaRecorder === 'undefined' || typeof canvas.captureStream !== 'function') {
+      throw new Error('This browser cannot record video');
+    }
+    return createWebmSink(canvas, name, settings.fps);
+  }
+  const pick = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+  return pick ? createDirectorySink(pick.bind(window), canvas, name, total) : createTarSink(canvas, name, total);
+}
@@ -0,0 +1,216 @@
+/**
+ * OSC 1.0 encoding and decoding (https://opensoundcontrol.stanford.edu/spec-1_0.html).
+ * Messages and bundles with int32 (`i`), float32 (`f`), string (`s`) and blob (`b`) arguments. Plain numbers are
+ * sent as floats; wrap integers as `{ type: 'i', value }`.
+ */
+
+export type OscArgument =
+  | number
+  | string
+  | Uint8Array
+  | { type: 'i'; value: number }
+  | { type: 'f'; value: number };
+
+export interface OscMessage {
+  address: string;
+  args: OscArgument[];
+}
+
+export interface OscBundle {
+  /** NTP timetag (see `toOscTimetag`); defaults to "immediately". */
+  timetag?: OscTimetag;
+  elements: OscPacket[];
+}
+
+export type OscPacket = OscMessage | OscBundle;
+
+/** 64-bit NTP timestamp split into seconds since 1900 and fractional seconds (both uint32). */
+export interface OscTimetag {
+  seconds: number;
+  fraction: number;
+}
+
+/** The special timetag meaning "process immediately". */
+export const OSC_IMMEDIATELY: OscTimetag = { seconds: 0, fraction: 1 };
+
+// Seconds between the NTP epoch (1900) and the Unix epoch (1970)
+const NTP_EPOCH_OFFSET = 2208988800;
+
+// Characters OSC reserves for address patterns
+const RESERVED_ADDRESS_CHARS = /[\s#*,?[\]{}]/;
+
+/** Converts a Unix time in ms (e.g. `Date.now()`) to an OSC timetag. */
+export function toOscTimetag(unixMs: number): OscTimetag {
+  const seconds = Math.floor(unixMs / 1000);
+  const fraction = Math.floor(((unixMs - seconds * 1000) / 1000) * 2 ** 32);
+  return { seconds: seconds + NTP_EPOCH_OFFSET, fraction };
+}
+
+/** True for a valid OSC address: starts with `/` and has no spaces or pattern characters. */
+export function isValidOscAddress(address: string): boolean {
+  return address.length > 1 && address[0] === '/' && !RESERVED_ADDRESS_CHARS.test(address);
+}
+
+const padded = (length: number) => Math.ceil(length / 4) * 4;
+
+// OSC strings are ASCII (anything else becomes `?`), null-terminated and padded to 4 bytes
+function encodeString(value: string): Uint8Array {
+  const out = new Uint8Array(padded(value.length + 1));
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    out[i] = code > 0 && code < 128 ? code : 63;
+  }
+  return out;
+}
+
+function encodeBlob(value: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + padded(value.length));
+  new DataView(out.buffer).setUint32(0, value.length);
+  out.set(value, 4);
+  return out;
+}
+
+function encodeNumber(type: 'i' | 'f', value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  const view = new DataView(out.buffer);
+  if (type === 'i') view.setInt32(0, value);
+  else view.setFloat32(0, value);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Encodes one OSC message. Throws on an invalid address or a non-finite number. */
+export function encodeOscMessage(message: OscMessage): Uint8Array {
+  if (!isValidOscAddress(message.address)) {
+    throw new Error(`Invalid OSC address: ${message.address}`);
+  }
+  let tags = ',';
+  const data: Uint8Array[] = [];
+  for (const arg of message.args) {
+    if (typeof arg === 'string') {
+      tags += 's';
+      data.push(encodeString(arg));
+    } else if (arg instanceof Uint8Array) {
+      tags += 'b';
+      data.push(encodeBlob(arg));
+    } else {
+      const { type, value } = typeof arg === 'number' ? { type: 'f' as const, value: arg } : arg;
+      if (!Number.isFinite(value)) throw new Error(`Invalid OSC ${type} argument for ${message.address}: ${value}`);
+      tags += type;
+      data.push(encodeNumber(type, type === 'i' ? Math.round(value) : value));
+    }
+  }
+  return concat([encodeString(message.address), encodeString(tags), ...data]);
+}
+
+/** Encodes a bundle; every element is prefixed with its size as the spec requires. */
+export function encodeOscBundle(bundle: OscBundle): Uint8Array {
+  const { seconds, fraction } = bundle.timetag ?? OSC_IMMEDIATELY;
+  const timetag = new Uint8Array(8);
+  const view = new DataView(timetag.buffer);
+  view.setUint32(0, seconds);
+  view.setUint32(4, fraction);
+  const parts: Uint8Array[] = [encodeString('#bundle'), timetag];
+  for (const element of bundle.elements) {
+    const encoded = encodeOscPacket(element);
+    parts.push(encodeNumber('i', encoded.length), encoded);
+  }
+  return concat(parts);
+}
+
+export function encodeOscPacket(packet: OscPacket): Uint8Array {
+  return 'address' in packet ? encodeOscMessage(packet) : encodeOscBundle(packet);
+}
+
+function readString(view: DataView, offset: number): { value: string; next: number } {
+  let end = offset;
+  while (end < view.byteLength && view.getUint8(end) !== 0) end++;
+  if (end >= view.byteLength) throw new Error('Unterminated OSC string');
+  let value = '';
+  for (let i = offset; i < end; i++) value += String.fromCharCode(view.getUint8(i));
+  return { value, next: offset + padded(end - offset + 1) };
+}
+
+function decodeMessage(view: DataView): OscMessage {
+  const address = readString(view, 0);
+  // Messages without a type tag string are allowed by the spec (no arguments)
+  if (address.next >= view.byteLength) return { address: address.value, args: [] };
+  const tags = readString(view, address.next);
+  if (tags.value[0] !== ',') throw new Error('Missing OSC type tags');
+  let offset = tags.next;
+  const args: OscArgument[] = [];
+  for (const tag of tags.value.slice(1)) {
+    switch (tag) {
+      case 'i':
+        args.push({ type: 'i', value: view.getInt32(offset) });
+        offset += 4;
+        break;
+      case 'f':
+        args.push(view.getFloat32(offset));
+        offset += 4;
+        break;
+      case 'd':
+        args.push(view.getFloat64(offset));
+        offset += 8;
+        break;
+      case 's': {
+        const s = readString(view, offset);
+        args.push(s.value);
+        offset = s.next;
+        break;
+      }
+      case 'b': {
+        const length = view.getUint32(offset);
+        args.push(new Uint8Array(view.buffer, view.byteOffset + offset + 4, length).slice());
+        offset += 4 + padded(length);
+        break;
+      }
+      // True/False (common OSC 1.1 tags) become ints so they can drive controls
+      case 'T':
+        args.push({ type: 'i', value: 1 });
+        break;
+      case 'F':
+        args.push({ type: 'i', value: 0 });
+        break;
+      case 'N':
+      case 'I':
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag: ${tag}`);
+    }
+  }
+  return { address: address.value, args };
+}
+
+/**
+ * Decodes a received packet into its messages (bundles are flattened, timetags ignored).
+ * Besides the types we send it reads float64 (`d`) and True/False (`T`/`F`, as int 1/0). Throws on malformed packets.
+ */
+export function decodeOscPacket(data: Uint8Array): OscMessage[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  try {
+    if (readString(view, 0).value !== '#bundle') return [decodeMessage(view)];
+    const messages: OscMessage[] = [];
+    let offset = 16;
+    while (offset < data.byteLength) {
+      const size = view.getInt32(offset);
+      if (size <= 0 || offset + 4 + size > data.byteLength) throw new Error('Invalid OSC bundle element size');
+      messages.push(...decodeOscPacket(data.subarray(offset + 4, offset + 4 + size)));
+      offset += 4 + size;
+    }
+    return messages;
+  } catch (error) {
+    // DataView reads past the end throw RangeError
+    if (error instanceof RangeError) throw new Error('Truncated OSC packet');
+    throw error;
+  }
+}
@@ -0,0 +1,262 @@
+import type { Hand3DData } from '@/components/hand-tracking/HandTracking';
+import type { FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
+import type { GestureEvent } from '@/components/hand-tracking/gestures';
+import { detectPinch } from '@/components/hand-tracking/pinchMath';
+import type { TrackingFrame } from '@/components/hand-tracking/trackingSources';
+import type { RemoteConnectionStatus } from './remoteControl';
+import { decodeOscPacket, encodeOscBundle, encodeOscMessage, isValidOscAddress, type OscMessage } from './osc';
+
+/**
+ * OSC output of tracking data for external tools (TouchDesigner, Max, Ableton...).
+ * Browsers can't send UDP, so encoded OSC packets go over WebSocket (binary frames) to the local bridge
+ * (`scripts/osc-bridge.mjs`), which forwards each one as a UDP datagram. The same connection receives OSC the
+ * bridge gets over UDP (OSC input, see `externalControl.ts`).
+ *
+ * Address scheme (prefix `/hand`, hands keyed by handedness):
+ *   /hand/count i                                   hands in the frame
+ *   /hand/left/landmark/8 f f f                     one message per landmark (x y z), or
+ *   /hand/left/landmarks f×63                       all landmarks packed in one message
+ *   /hand/left/pinch i f f                          pinching (0/1), strength 0..1, thumb-index distance
+ *   /hand/pinch/active i                            control-hand pinch (the pinch vector)
+ *   /hand/pinch/vector f f f f                      x y dx dy while pinching
+ *   /hand/vector f×8                                FinalVector on pinch release
+ *                                                   (startX startY endX endY dx dy magnitude duration)
+ *   /hand/gesture/fist s s f f                      gesture event: phase, hand, confidence, durationMs
+ * Frame messages are sent as one bundle at most `rateHz` times per second; events are sent as they happen.
+ */
+
+export type OscHandKey = 'handedness' | 'id';
+export type OscLandmarkMode = 'each' | 'packed' | 'off';
+
+export const OSC_LANDMARK_MODES: OscLandmarkMode[] = ['each', 'packed', 'off'];
+
+export const OSC_LANDMARK_MODE_LABELS: Record<OscLandmarkMode, string> = {
+  each: 'One message per landmark',
+  packed: 'All landmarks in one message',
+  off: 'Off',
+};
+
+export interface OscOutputSettings {
+  enabled: boolean;
+  /** WebSocket URL of the OSC bridge. */
+  bridgeUrl: string;
+  /** Address prefix, e.g. `/hand`. */
+  prefix: string;
+  /** Address segment per hand: `left`/`right` or the stable hand id. */
+  handKey: OscHandKey;
+  landmarks: OscLandmarkMode;
+  pinch: boolean;
+  finalVectors: boolean;
+  gestures: boolean;
+  /** Maximum frame bundles per second. */
+  rateHz: number;
+}
+
+export const DEFAULT_OSC_BRIDGE_URL = 'ws://localhost:8788';
+
+export const DEFAULT_OSC_OUTPUT_SETTINGS: OscOutputSettings = {
+  enabled: false,
+  bridgeUrl: DEFAULT_OSC_BRIDGE_URL,
+  prefix: '/hand',
+  handKey: 'handedness',
+  landmarks: 'each',
+  pinch: true,
+  finalVectors: true,
+  gestures: true,
+  rateHz: 30,
+};
+
+export const OSC_MIN_RATE_HZ = 1;
+export const OSC_MAX_RATE_HZ = 120;
+
+/** Fills in defaults for missing or invalid fields (e.g. settings read from localStorage). */
+export function normalizeOscOutputSettings(value: unknown): OscOutputSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof OscOutputSettings, unknown>>;
+  const bool = (key: 'enabled' | 'pinch' | 'finalVectors' | 'gestures') =>
+    typeof input[key] === 'boolean' ? (input[key] as boolean) : DEFAULT_OSC_OUTPUT_SETTINGS[key];
+  const prefix = typeof input.prefix === 'string' ? input.prefix.replace(/\/+$/, '') : '';
+  const rateHz = typeof input.rateHz === 'number' && Number.isFinite(input.rateHz) ? input.rateHz : DEFAULT_OSC_OUTPUT_SETTINGS.rateHz;
+  return {
+    enabled: bool('enabled'),
+    bridgeUrl: typeof input.bridgeUrl === 'string' && input.bridgeUrl ? input.bridgeUrl : DEFAULT_OSC_BRIDGE_URL,
+    prefix: isValidOscAddress(prefix) ? prefix : DEFAULT_OSC_OUTPUT_SETTINGS.prefix,
+    handKey: input.handKey === 'id' ? 'id' : 'handedness',
+    landmarks: OSC_LANDMARK_MODES.includes(input.landmarks as OscLandmarkMode)
+      ? (input.landmarks as OscLandmarkMode)
+      : DEFAULT_OSC_OUTPUT_SETTINGS.landmarks,
+    pinch: bool('pinch'),
+    finalVectors: bool('finalVectors'),
+    gestures: bool('gestures'),
+    rateHz: Math.min(OSC_MAX_RATE_HZ, Math.max(OSC_MIN_RATE_HZ, rateHz)),
+  };
+}
+
+/** Address segment for a hand: `left`/`right`/`unknown`, or its id (array index when it has none). */
+export function getOscHandSegment(hand: Hand3DData, index: number, handKey: OscHandKey): string {
+  if (handKey === 'id') return String(hand.id ?? index);
+  return hand.handedness.toLowerCase();
+}
+
+/** The messages for one tracking frame (sent together as a bundle). */
+export function buildFrameOscMessages(frame: TrackingFrame, settings: OscOutputSettings): OscMessage[] {
+  const { prefix, handKey } = settings;
+  const messages: OscMessage[] = [{ address: `${prefix}/count`, args: [{ type: 'i', value: frame.hands.length }] }];
+
+  frame.hands.forEach((hand, index) => {
+    const base = `${prefix}/${getOscHandSegment(hand, index, handKey)}`;
+    if (settings.landmarks === 'each') {
+      hand.landmarks.forEach((point, i) => {
+        messages.push({ address: `${base}/landmark/${i}`, args: [point.x, point.y, point.z] });
+      });
+    } else if (settings.landmarks === 'packed') {
+      messages.push({ address: `${base}/landmarks`, args: hand.landmarks.flatMap((p) => [p.x, p.y, p.z]) });
+    }
+    if (settings.pinch && hand.landmarks.length > 8) {
+      const pinch = detectPinch(hand.landmarks);
+      messages.push({
+        address: `${base}/pinch`,
+        args: [{ type: 'i', value: pinch.isPinching ? 1 : 0 }, pinch.pinchStrength, pinch.distance],
+      });
+    }
+  });
+
+  if (settings.pinch) {
+    const vector = frame.pinchVector;
+    messages.push({ address: `${prefix}/pinch/active`, args: [{ type: 'i', value: vector ? 1 : 0 }] });
+    if (vector) messages.push({ address: `${prefix}/pinch/vector`, args: [vector.x, vector.y, vector.dx, vector.dy] });
+  }
+
+  return messages;
+}
+
+export function buildFinalVectorOscMessage(vector: FinalVector, settings: OscOutputSettings): OscMessage {
+  const { startX, startY, endX, endY, dx, dy, magnitude, duration } = vector;
+  return { address: `${settings.prefix}/vector`, args: [startX, startY, endX, endY, dx, dy, magnitude, duration] };
+}
+
+export function buildGestureOscMessage(event: GestureEvent, settings: OscOutputSettings): OscMessage {
+  // Two-hand gestures have no hand
+  const hand =
+    settings.handKey === 'id'
+      ? event.handId === null ? 'both' : String(event.handId)
+      : event.handedness?.toLowerCase() ?? 'both';
+  return {
+    address: `${settings.prefix}/gesture/${event.gesture}`,
+    args: [event.phase, hand, event.confidence, event.durationMs],
+  };
+}
+
+export interface OscBridgeClient {
+  url: string;
+  start: () => void;
+  stop: () => void;
+  /**
+   * Sends messages (as a bundle when there are several) if connected. Returns false when they were dropped,
+   * including while the socket is still flushing earlier packets.
+   */
+  send: (messages: OscMessage[]) => boolean;
+  /** Registers a listener for OSC received by the bridge over UDP (see `externalControl.ts`). Returns an unsubscribe function. */
+  subscribe: (listener: OscMessageListener) => () => void;
+  getStatus: () => RemoteConnectionStatus;
+}
+
+export type OscMessageListener = (messages: OscMessage[]) => void;
+
+export interface OscBridgeClientOptions {
+  /** First reconnect delay; doubles after each failed attempt up to `maxReconnectDelayMs`. */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** Packets are dropped while more than this many bytes are waiting to be sent. */
+  maxBufferedBytes?: number;
+  onStatusChange?: (status: RemoteConnectionStatus) => void;
+}
+
+/** Connects to the OSC bridge and reconnects with exponential backoff while started. */
+export function createOscBridgeClient(url: string, options: OscBridgeClientOptions = {}): OscBridgeClient {
+  const { reconnectDelayMs = 1000, maxReconnectDelayMs = 10000, maxBufferedBytes = 256 * 1024, onStatusChange } = options;
+  const listeners = new Set<OscMessageListener>();
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let attempts = 0;
+  let status: RemoteConnectionStatus = 'idle';
+
+  const setStatus = (next: RemoteConnectionStatus) => {
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const scheduleReconnect = () => {
+    if (!running) return;
+    const delay = Math.min(maxReconnectDelayMs, reconnectDelayMs * 2 ** attempts);
+    attempts++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  function connect() {
+    if (!running) return;
+    setStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+      socket.binaryType = 'arraybuffer';
+    } catch (error) {
+      console.error('Error connecting to OSC bridge:', error);
+      setStatus('closed');
+      scheduleReconnect();
+      return;
+    }
+    socket.onopen = () => {
+      attempts = 0;
+      setStatus('open');
+    };
+    socket.onmessage = (event) => {
+      if (!(event.data instanceof ArrayBuffer) || listeners.size === 0) return;
+      let messages: OscMessage[] = [];
+      try {
+        messages = decodeOscPacket(new Uint8Array(event.data));
+      } catch {
+        // ignore malformed packets
+      }
+      if (messages.length > 0) listeners.forEach((listener) => listener(messages));
+    };
+    socket.onclose = () => {
+      socket = null;
+      setStatus('closed');
+      scheduleReconnect();
+    };
+  }
+
+  return {
+    url,
+    start() {
+      if (running) return;
+      running = true;
+      attempts = 0;
+      connect();
+    },
+    stop() {
+      running = false;
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      if (socket) {
+        // Detach first so the close doesn't report 'closed' or schedule a reconnect
+        socket.onclose = null;
+        socket.close();
+      }
+      socket = null;
+      setStatus('idle');
+    },
+    send(messages) {
+      if (!socket || socket.readyState !== WebSocket.OPEN || messages.length === 0) return false;
+      if (socket.bufferedAmount > maxBufferedBytes) return false;
+      const packet = messages.length === 1 ? encodeOscMessage(messages[0]) : encodeOscBundle({ elements: messages });
+      socket.send(packet);
+      return true;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getStatus: () => status,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Searching, filtering and sorting saved configurations for the preset
+ * browser (`components/hand-tracking/PresetBrowser.tsx`).
+ */
+
+import type { SavedVisualConfig } from './visualConfigStorage';
+
+export type PresetSort = 'newest' | 'oldest' | 'name' | 'favorites';
+
+export const PRESET_SORTS: PresetSort[] = ['favorites', 'newest', 'oldest', 'name'];
+
+export const PRESET_SORT_LABELS: Record<PresetSort, string> = {
+  favorites: 'Favourites first',
+  newest: 'Newest',
+  oldest: 'Oldest',
+  name: 'Name',
+};
+
+export interface PresetFilter {
+  /** Words that must each appear in the name or a tag (case-insensitive). */
+  query: string;
+  /** Only presets with this tag. */
+  tag: string | null;
+  favoritesOnly: boolean;
+}
+
+export const DEFAULT_PRESET_FILTER: PresetFilter = { query: '', tag: null, favoritesOnly: false };
+
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * Tags from a comma-separated input (or a list): trimmed, lowercased, at most
+ * 32 characters, without blanks or duplicates.
+ */
+export function normalizeTags(input: string | string[]): string[] {
+  const parts = typeof input === 'string' ? input.split(',') : input;
+  const tags = parts.map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH)).filter((tag) => tag !== '');
+  return Array.from(new Set(tags));
+}
+
+/** Every tag used by the presets, sorted. */
+export function getPresetTags(configs: SavedVisualConfig[]): string[] {
+  return Array.from(new Set(configs.flatMap((config) => config.tags ?? []))).sort();
+}
+
+export function filterPresets(configs: SavedVisualConfig[], filter: PresetFilter): SavedVisualConfig[] {
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return configs.filter((config) => {
+    if (filter.favoritesOnly && !config.favorite) return false;
+    if (filter.tag && !config.tags?.includes(filter.tag)) return false;
+    const haystack = [config.name, ...(config.tags ?? [])].join(' ').toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+}
+
+export function sortPresets(configs: SavedVisualConfig[], sort: PresetSort): SavedVisualConfig[] {
+  const byName = (a: SavedVisualConfig, b: SavedVisualConfig) => a.name.localeCompare(b.name);
+  const byNewest = (a: SavedVisualConfig, b: SavedVisualConfig) => b.savedAt - a.savedAt;
+  const sorted = [...configs];
+  switch (sort) {
+    case 'name':
+      return sorted.sort(byName);
+    case 'oldest':
+      return sorted.sort((a, b) => -byNewest(a, b));
+    case 'favorites':
+      return sorted.sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite) || byNewest(a, b));
+    default:
+      return sorted.sort(byNewest);
+  }
+}
+
+/** The presets the browser shows, in order. */
+export function browsePresets(configs: SavedVisualConfig[], filter: PresetFilter, sort: PresetSort): SavedVisualConfig[] {
+  return sortPresets(filterPresets(configs, filter), sort);
+}
+
+/**
+ * The preset after (`step` 1) or before (-1) the one named `activeName` in the
+ * browser's default order (favourites first, then newest), wrapping around.
+ * Starts at the first (or last) preset when none is active.
+ */
+export function getAdjacentPreset(
+  configs: SavedVisualConfig[],
+  activeName: string | null,
+  step: 1 | -1
+): SavedVisualConfig | null {
+  const sorted = sortPresets(configs, 'favorites');
+  if (sorted.length === 0) return null;
+  const name = activeName?.toLowerCase();
+  const index = sorted.findIndex((config) => config.name.toLowerCase() === name);
+  if (index === -1) return step === 1 ? sorted[0]! : sorted[sorted.length - 1]!;
+  return sorted[(index + step + sorted.length) % sorted.length]!;
+}
@@ -0,0 +1,289 @@
+/**
+ * Moving presets between machines.
+ *
+ * Saved configurations (see `visualConfigStorage.ts`) live in one browser's
+ * storage. They can be exported as a versioned JSON file (one preset or
+ * all presets of a visual) and imported elsewhere, resolving name conflicts by
+ * renaming, overwriting or skipping. A single preset can also be encoded into a
+ * compact `?preset=` URL parameter that the final view applies on load.
+ */
+
+import type { ModulationMapping } from '@/components/hand-tracking/modulation';
+import { LEGACY_CONTROLS_VERSION } from './controlMigrations';
+import { normalizeTags } from './presetBrowser';
+import type { ExternalControlMapping } from './externalControl';
+import {
+  deleteSavedConfig,
+  loadSavedConfigs,
+  saveVisualConfig,
+  updateSavedConfig,
+  type SavedVisualConfig,
+  type VisualControlType,
+} from './visualConfigStorage';
+
+export const PRESET_FILE_FORMAT = 'visual-presets';
+export const PRESET_FILE_VERSION = 1;
+export const PRESET_PARAM_VERSION = 1;
+
+/** A saved configuration without its browser-local id. */
+export interface ExportedPreset {
+  name: string;
+  savedAt: number;
+  controls: VisualControlType;
+  modulations?: ModulationMapping[];
+  externalMappings?: ExternalControlMapping[];
+  /** Controls schema version (see `lib/controlMigrations.ts`). */
+  schemaVersion: number;
+  /** Preset browser tags (favourites stay on the machine). */
+  tags?: string[];
+}
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: typeof PRESET_FILE_VERSION;
+  visualId: string;
+  exportedAt: number;
+  presets: ExportedPreset[];
+}
+
+export type PresetConflictResolution = 'rename' | 'overwrite' | 'skip';
+
+export interface PresetImportResult {
+  imported: SavedVisualConfig[];
+  /** Names of presets that replaced an existing one. */
+  overwritten: string[];
+  /** Presets stored under a new name because theirs was taken. */
+  renamed: { from: string; to: string }[];
+  skipped: string[];
+}
+
+export function createPresetFile(visualId: string, configs: SavedVisualConfig[], now = Date.now()): PresetFile {
+  return {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    visualId,
+    exportedAt: now,
+    presets: configs.map(({ name, savedAt, controls, modulations, externalMappings, schemaVersion, tags }) => ({
+      name,
+      savedAt,
+      controls,
+      ...(modulations ? { modulations } : {}),
+      ...(externalMappings ? { externalMappings } : {}),
+      schemaVersion,
+      ...(tags ? { tags } : {}),
+    })),
+  };
+}
+
+export function serializePresetFile(file: PresetFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+/** `presets-viz6-night-sky.json`, or `presets-viz6-all.json` for several presets. */
+export function getPresetFileName(file: PresetFile): string {
+  const label = file.presets.length === 1 ? file.presets[0]!.name : 'all';
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset';
+  return `presets-${file.visualId}-${slug}.json`;
+}
+
+const isPresetLike = (value: unknown): value is ExportedPreset => {
+  const preset = value as Partial<ExportedPreset> | null;
+  return (
+    !!preset &&
+    typeof preset === 'object' &&
+    typeof preset.name === 'string' &&
+    preset.name.trim() !== '' &&
+    !!preset.controls &&
+    typeof preset.controls === 'object'
+  );
+};
+
+/**
+ * Parses and validates a preset file. Throws with a readable message when the
+ * file is not a preset file, was written by an unsupported version or belongs
+ * to another visual. Entries without a name or controls are dropped.
+ */
+export function parsePresetFile(json: string, visualId?: string): PresetFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  const file = data as Partial<PresetFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== PRESET_FILE_FORMAT) {
+    throw new Error('File is not a preset file');
+  }
+  if (file.version !== PRESET_FILE_VERSION) {
+    throw new Error(`Unsupported preset file version: ${String(file.version)}`);
+  }
+  if (typeof file.visualId !== 'string' || !Array.isArray(file.presets)) {
+    throw new Error('Preset file has no presets');
+  }
+  if (visualId && file.visualId !== visualId) {
+    throw new Error(`Presets are for ${file.visualId}, not ${visualId}`);
+  }
+
+  return {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    visualId: file.visualId,
+    exportedAt: typeof file.exportedAt === 'number' ? file.exportedAt : 0,
+    presets: file.presets.filter(isPresetLike).map((preset) => ({
+      name: preset.name.trim(),
+      savedAt: typeof preset.savedAt === 'number' ? preset.savedAt : 0,
+      controls: preset.controls,
+      ...(Array.isArray(preset.modulations) ? { modulations: preset.modulations } : {}),
+      ...(Array.isArray(preset.externalMappings) ? { externalMappings: preset.externalMappings } : {}),
+      schemaVersion: typeof preset.schemaVersion === 'number' ? preset.schemaVersion : LEGACY_CONTROLS_VERSION,
+      ...(Array.isArray(preset.tags) ? { tags: normalizeTags(preset.tags.filter((tag) => typeof tag === 'string')) } : {}),
+    })),
+  };
+}
+
+/** First free `Name (2)`, `Name (3)`, … (names compare case-insensitively, like `configNameExists`). */
+export function getUniquePresetName(name: string, existing: string[]): string {
+  const taken = new Set(existing.map((n) => n.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  for (let i = 2; ; i++) {
+    const candidate = `${name} (${i})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+/** Names of imported presets that already exist for the visual. */
+export function findPresetConflicts(visualId: string, presets: ExportedPreset[]): string[] {
+  const existing = new Set(loadSavedConfigs(visualId).map((c) => c.name.toLowerCase()));
+  return presets.filter((p) => existing.has(p.name.toLowerCase())).map((p) => p.name);
+}
+
+/**
+ * Saves imported presets for a visual. A preset whose name is taken (by a
+ * stored preset or an earlier one in the same import) is handled as
+ * `resolve(preset)` says; presets without a conflict are always saved.
+ */
+export function importPresets(
+  visualId: string,
+  presets: ExportedPreset[],
+  resolve: (preset: ExportedPreset) => PresetConflictResolution = () => 'rename'
+): PresetImportResult {
+  const result: PresetImportResult = { imported: [], overwritten: [], renamed: [], skipped: [] };
+  const configs = loadSavedConfigs(visualId);
+
+  for (const preset of presets) {
+    const name = preset.name.toLowerCase();
+    const conflicts = configs.filter((c) => c.name.toLowerCase() === name);
+    let savedName = preset.name;
+    if (conflicts.length > 0) {
+      const resolution = resolve(preset);
+      if (resolution === 'skip') {
+        result.skipped.push(preset.name);
+        continue;
+      }
+      if (resolution === 'overwrite') {
+        for (const conflict of conflicts) {
+          deleteSavedConfig(visualId, conflict.id);
+          configs.splice(configs.indexOf(conflict), 1);
+        }
+        result.overwritten.push(preset.name);
+      } else {
+        savedName = getUniquePresetName(preset.name, configs.map((c) => c.name));
+        result.renamed.push({ from: preset.name, to: savedName });
+      }
+    }
+    let saved = saveVisualConfig(
+      visualId,
+      savedName,
+      preset.controls,
+      preset.schemaVersion,
+      preset.modulations,
+      preset.externalMappings
+    );
+    if (preset.tags?.length) saved = updateSavedConfig(visualId, saved.id, { tags: preset.tags }) ?? saved;
+    configs.push(saved);
+    result.imported.push(saved);
+  }
+
+  return result;
+}
+
+/** Preset carried by a `?preset=` link. */
+export interface PresetLink {
+  name?: string;
+  /** Only the controls that differ from the visual's defaults when encoded with them. */
+  controls: VisualControlType;
+  modulations?: ModulationMapping[];
+  /** Controls schema version; links without one are treated as current. */
+  schemaVersion?: number;
+}
+
+interface PresetParamPayload {
+  v: typeof PRESET_PARAM_VERSION;
+  n?: string;
+  c: Record<string, unknown>;
+  m?: ModulationMapping[];
+  s?: number;
+}
+
+// base64url of the UTF-8 bytes (btoa/atob only take Latin-1)
+function toBase64Url(text: string): string {
+  const binary = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(param: string): string {
+  const binary = atob(param.replace(/-/g, '+').replace(/_/g, '/'));
+  return decodeURIComponent(
+    Array.from(binary, (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+  );
+}
+
+/**
+ * Encodes a preset for a `?preset=` URL parameter. With the visual's
+ * `defaults`, controls equal to them are left out (the final view fills them
+ * back in), which keeps links short.
+ */
+export function encodePresetParam(preset: PresetLink, defaults?: VisualControlType): string {
+  const fallback = (defaults ?? {}) as Record<string, unknown>;
+  const controls = Object.fromEntries(
+    Object.entries(preset.controls).filter(([key, value]) => fallback[key] !== value)
+  );
+  const payload: PresetParamPayload = {
+    v: PRESET_PARAM_VERSION,
+    ...(preset.name ? { n: preset.name } : {}),
+    c: controls,
+    ...(preset.modulations && preset.modulations.length > 0 ? { m: preset.modulations } : {}),
+    ...(preset.schemaVersion !== undefined ? { s: preset.schemaVersion } : {}),
+  };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/** Decodes a `?preset=` URL parameter. Throws with a readable message when it is malformed. */
+export function decodePresetParam(param: string): PresetLink {
+  let payload: Partial<PresetParamPayload> | null;
+  try {
+    payload = JSON.parse(fromBase64Url(param.trim())) as Partial<PresetParamPayload> | null;
+  } catch {
+    throw new Error('Preset link is malformed');
+  }
+  if (!payload || typeof payload !== 'object' || !payload.c || typeof payload.c !== 'object') {
+    throw new Error('Preset link is malformed');
+  }
+  if (payload.v !== PRESET_PARAM_VERSION) {
+    throw new Error(`Unsupported preset link version: ${String(payload.v)}`);
+  }
+  return {
+    ...(typeof payload.n === 'string' && payload.n ? { name: payload.n } : {}),
+    controls: payload.c,
+    ...(Array.isArray(payload.m) ? { modulations: payload.m } : {}),
+    ...(typeof payload.s === 'number' ? { schemaVersion: payload.s } : {}),
+  };
+}
+
+/** Final view URL that applies the preset on load. */
+export function getPresetLink(origin: string, visualId: string, preset: PresetLink, defaults?: VisualControlType): string {
+  return `${origin}/${visualId}/final_view?preset=${encodePresetParam(preset, defaults)}`;
+}
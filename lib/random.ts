@@ -0,0 +1,36 @@
+/**
+ * Seedable randomness for visuals, so an offline render (see `offlineRender.ts`) produces the same frames every
+ * time. Live views pick a random seed per mount and look as varied as before.
+ */
+
+/** Returns numbers in [0, 1), like `Math.random`. */
+export type RandomSource = () => number;
+
+/** Mulberry32: tiny, fast and good enough for particle placement. */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Independent seed for a named stream of one visual (`deriveSeed(seed, 'stars')`), via FNV-1a. */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = (0x811c9dc5 ^ (seed >>> 0)) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export const MAX_SEED = 0xffffffff;
+
+/** A fresh 32-bit seed. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
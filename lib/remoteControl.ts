@@ -0,0 +1,186 @@
+/**
+ * Remote control protocol and client.
+ * An operator client sends control patches, visual switches and preset recalls through the LAN relay
+ * (`scripts/remote-relay.mjs`) to every connected display (final view). Every message is JSON with a protocol
+ * version `v`; anything that doesn't match the schema is dropped. The schema lives in `remoteProtocol.mjs`, which the
+ * relay validates with too: keep the types below in step with it.
+ */
+
+import { parseRemoteWireMessage, REMOTE_PROTOCOL_VERSION } from './remoteProtocol.mjs';
+
+export { REMOTE_PROTOCOL_VERSION };
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+export type RemoteRole = 'operator' | 'display';
+
+export type ControlPatchValue = number | boolean | string;
+
+export type RemotePayload =
+  // client → relay, first message after connecting
+  | { type: 'hello'; role: RemoteRole; name?: string }
+  // operator → displays
+  | { type: 'controlPatch'; visualId: string; patch: Record<string, ControlPatchValue> }
+  | { type: 'switchVisual'; visualId: string }
+  | { type: 'recallPreset'; visualId: string; name: string }
+  // display → operators: what it shows now
+  | { type: 'status'; visualId: string; controls: Record<string, ControlPatchValue> | null; presets: string[] }
+  // relay → client
+  | { type: 'welcome'; clientId: string; displays: number; operators: number }
+  | { type: 'peers'; displays: number; operators: number }
+  | { type: 'error'; code: 'invalid' | 'version' | 'forbidden'; message: string };
+
+export type RemoteMessageType = RemotePayload['type'];
+
+/** A payload on the wire. Relayed messages carry the sender's `from` client id. */
+export type RemoteMessage = RemotePayload & { v: number; from?: string };
+
+/**
+ * Validates a message received over the wire (already JSON-parsed). Returns
+ * null for other protocol versions or anything that doesn't match the schema.
+ */
+export function parseRemoteMessage(data: unknown): RemoteMessage | null {
+  return parseRemoteWireMessage(data) as RemoteMessage | null;
+}
+
+/**
+ * Applies a control patch to a controls object: only known keys whose value
+ * has the same type are taken, and `validate` can reject individual values.
+ * Returns the same object when nothing changes.
+ */
+export function applyControlPatch<T extends object>(
+  controls: T,
+  patch: Record<string, ControlPatchValue>,
+  validate: (key: string, value: ControlPatchValue) => boolean = () => true
+): T {
+  let next: T | null = null;
+  for (const [key, value] of Object.entries(patch)) {
+    const current = (controls as Record<string, unknown>)[key];
+    if (current === undefined || typeof current !== typeof value || current === value || !validate(key, value)) continue;
+    if (!next) next = { ...controls };
+    (next as Record<string, unknown>)[key] = value;
+  }
+  return next ?? controls;
+}
+
+export type RemoteConnectionStatus = 'idle' | 'connecting' | 'open' | 'closed';
+
+export type RemoteMessageListener = (message: RemoteMessage) => void;
+
+export interface RemoteControlClient {
+  role: RemoteRole;
+  url: string;
+  start: () => void;
+  stop: () => void;
+  /** Sends a payload if connected. Returns false when it was dropped. */
+  send: (payload: RemotePayload) => boolean;
+  /** Registers a listener for valid messages. Returns an unsubscribe function. */
+  subscribe: (listener: RemoteMessageListener) => () => void;
+  getStatus: () => RemoteConnectionStatus;
+}
+
+export interface RemoteControlClientOptions {
+  name?: string;
+  /** First reconnect delay; doubles after each failed attempt up to `maxReconnectDelayMs`. */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  onStatusChange?: (status: RemoteConnectionStatus) => void;
+}
+
+/**
+ * Connects to the relay, introduces itself with `hello` and reconnects with
+ * exponential backoff while started.
+ */
+export function createRemoteControlClient(
+  url: string,
+  role: RemoteRole,
+  options: RemoteControlClientOptions = {}
+): RemoteControlClient {
+  const { name, reconnectDelayMs = 1000, maxReconnectDelayMs = 10000, onStatusChange } = options;
+  const listeners = new Set<RemoteMessageListener>();
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let attempts = 0;
+  let status: RemoteConnectionStatus = 'idle';
+
+  const setStatus = (next: RemoteConnectionStatus) => {
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const scheduleReconnect = () => {
+    if (!running) return;
+    const delay = Math.min(maxReconnectDelayMs, reconnectDelayMs * 2 ** attempts);
+    attempts++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  const sendRaw = (payload: RemotePayload) => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify({ v: REMOTE_PROTOCOL_VERSION, ...payload }));
+    return true;
+  };
+
+  function connect() {
+    if (!running) return;
+    setStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error('Error connecting to remote control relay:', error);
+      setStatus('closed');
+      scheduleReconnect();
+      return;
+    }
+    socket.onopen = () => {
+      attempts = 0;
+      setStatus('open');
+      sendRaw({ type: 'hello', role, ...(name ? { name } : {}) });
+    };
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      let message: RemoteMessage | null = null;
+      try {
+        message = parseRemoteMessage(JSON.parse(event.data));
+      } catch {
+        // ignore malformed messages
+      }
+      if (message) listeners.forEach((listener) => listener(message!));
+    };
+    socket.onclose = () => {
+      socket = null;
+      setStatus('closed');
+      scheduleReconnect();
+    };
+  }
+
+  return {
+    role,
+    url,
+    start() {
+      if (running) return;
+      running = true;
+      attempts = 0;
+      connect();
+    },
+    stop() {
+      running = false;
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      if (socket) {
+        // Detach first so the close doesn't report 'closed' or schedule a reconnect
+        socket.onclose = null;
+        socket.close();
+      }
+      socket = null;
+      setStatus('idle');
+    },
+    send: sendRaw,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getStatus: () => status,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Remote control wire format, shared by the client (`remoteControl.ts`) and the
+ * relay (`scripts/remote-relay.mjs`). Plain JavaScript so the relay runs it with
+ * Node as is. Bump `REMOTE_PROTOCOL_VERSION` for breaking changes.
+ */
+
+export const REMOTE_PROTOCOL_VERSION = 1;
+
+/** Client → relay message types, with the role allowed to send them (null: any client). */
+export const REMOTE_SENDER_ROLES = {
+  hello: null,
+  controlPatch: 'operator',
+  switchVisual: 'operator',
+  recallPreset: 'operator',
+  status: 'display',
+};
+
+const ROLES = ['operator', 'display'];
+const ERROR_CODES = ['invalid', 'version', 'forbidden'];
+
+const isString = (value) => typeof value === 'string' && value.length > 0;
+const isCount = (value) => Number.isInteger(value) && value >= 0;
+const isPatchValue = (value) =>
+  typeof value === 'boolean' || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+const isPatch = (value) => !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isPatchValue);
+
+function isPayload(m) {
+  switch (m.type) {
+    case 'hello':
+      return ROLES.includes(m.role) && (m.name === undefined || typeof m.name === 'string');
+    case 'controlPatch':
+      return isString(m.visualId) && isPatch(m.patch);
+    case 'switchVisual':
+      return isString(m.visualId);
+    case 'recallPreset':
+      return isString(m.visualId) && isString(m.name);
+    case 'status':
+      return (
+        isString(m.visualId) &&
+        (m.controls === null || isPatch(m.controls)) &&
+        Array.isArray(m.presets) &&
+        m.presets.every((p) => typeof p === 'string')
+      );
+    case 'welcome':
+      return isString(m.clientId) && isCount(m.displays) && isCount(m.operators);
+    case 'peers':
+      return isCount(m.displays) && isCount(m.operators);
+    case 'error':
+      return ERROR_CODES.includes(m.code) && typeof m.message === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validates a message received over the wire (already JSON-parsed). Returns
+ * null for other protocol versions or anything that doesn't match the schema.
+ *
+ * @param {unknown} data
+ * @returns {object | null}
+ */
+export function parseRemoteWireMessage(data) {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  const m = /** @type {Record<string, any>} */ (data);
+  if (m.v !== REMOTE_PROTOCOL_VERSION) return null;
+  if (m.from !== undefined && typeof m.from !== 'string') return null;
+  return isPayload(m) ? m : null;
+}
@@ -0,0 +1,150 @@
+/**
+ * What the app keeps in storage, for the storage panel: every stored entry
+ * labelled by kind (preset, thumbnail, gesture templates, recording), with its size, when
+ * it was last used, and a way to delete it through the functions that own it.
+ */
+
+import { getAppStorage, type AppStorage } from './appStorage';
+import {
+  deleteConfigThumbnail,
+  deleteGestureTemplates,
+  deleteSavedConfig,
+  deleteStoredRecording,
+  type StoredRecordingInfo,
+} from './visualConfigStorage';
+
+export type StoredItemKind = 'preset' | 'thumbnail' | 'gestureTemplates' | 'recording';
+
+export const STORED_ITEM_KIND_LABELS: Record<StoredItemKind, string> = {
+  preset: 'Presets',
+  thumbnail: 'Preset thumbnails',
+  gestureTemplates: 'Gesture templates',
+  recording: 'Recordings',
+};
+
+export interface StoredItem {
+  key: string;
+  kind: StoredItemKind;
+  label: string;
+  visualId: string | null;
+  bytes: number;
+  accessedAt: number;
+  /** Removed automatically (least recently used first) when storage runs out. */
+  evictable: boolean;
+}
+
+export interface StoredItemGroup {
+  kind: StoredItemKind;
+  items: StoredItem[];
+  totalBytes: number;
+}
+
+interface ParsedKey {
+  kind: StoredItemKind | null;
+  visualId: string | null;
+  id: string | null;
+}
+
+// Lists of ids that the items above carry along (not shown on their own)
+const INDEX_KEY = /^(visual-config-list:|landmark-session-list$)/;
+const RECORDING_LIST_KEY = 'landmark-session-list';
+
+function parseKey(key: string): ParsedKey {
+  const [prefix, visualId = null, ...rest] = key.split(':');
+  switch (prefix) {
+    case 'visual-config':
+      return { kind: 'preset', visualId, id: rest.join(':') || null };
+    case 'preset-thumbnail':
+      return { kind: 'thumbnail', visualId, id: rest.join(':') || null };
+    case 'visual-gesture-templates':
+      return { kind: 'gestureTemplates', visualId, id: null };
+    case 'landmark-session':
+      return { kind: 'recording', visualId: null, id: visualId };
+    default:
+      return { kind: null, visualId: null, id: null };
+  }
+}
+
+// Reads stored JSON without counting it as a use (null when unreadable)
+function peekJson(storage: AppStorage, key: string): unknown {
+  try {
+    const stored = storage.peekItem(key);
+    return stored ? (JSON.parse(stored) as unknown) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stored presets, gesture templates and recordings grouped by kind, each group
+ * least recently used first. Index entries count towards their group's size.
+ */
+export function getStoredItems(storage: AppStorage = getAppStorage()): StoredItemGroup[] {
+  const usage = storage.getUsage();
+  const recordingList = peekJson(storage, RECORDING_LIST_KEY);
+  const recordings = new Map(
+    (Array.isArray(recordingList) ? (recordingList as StoredRecordingInfo[]) : []).map((info) => [info.id, info])
+  );
+
+  const groups = new Map<StoredItemKind, StoredItemGroup>();
+  const groupOf = (kind: StoredItemKind) => {
+    let group = groups.get(kind);
+    if (!group) {
+      group = { kind, items: [], totalBytes: 0 };
+      groups.set(kind, group);
+    }
+    return group;
+  };
+
+  for (const entry of usage.entries) {
+    if (INDEX_KEY.test(entry.key)) {
+      groupOf(entry.key.startsWith('visual-config-list') ? 'preset' : 'recording').totalBytes += entry.bytes;
+      continue;
+    }
+    const { kind, visualId, id } = parseKey(entry.key);
+    // Settings (when storage falls back to localStorage) aren't listed
+    if (!kind) continue;
+    let label = entry.key;
+    let itemVisualId = visualId;
+    if (kind === 'preset' || kind === 'thumbnail') {
+      const config = peekJson(storage, `visual-config:${visualId}:${id}`) as { name?: unknown } | null;
+      label = typeof config?.name === 'string' ? config.name : 'Unnamed preset';
+    }
+    if (kind === 'gestureTemplates') {
+      const templates = peekJson(storage, entry.key);
+      label = `${Array.isArray(templates) ? templates.length : 0} templates`;
+    }
+    if (kind === 'recording') {
+      const info = id ? recordings.get(id) : undefined;
+      label = info?.name ?? 'Unnamed recording';
+      itemVisualId = info?.visualId ?? null;
+    }
+    const group = groupOf(kind);
+    group.items.push({
+      key: entry.key,
+      kind,
+      label,
+      visualId: itemVisualId,
+      bytes: entry.bytes,
+      accessedAt: entry.accessedAt,
+      evictable: kind === 'recording' || kind === 'thumbnail',
+    });
+    group.totalBytes += entry.bytes;
+  }
+
+  const order: StoredItemKind[] = ['preset', 'thumbnail', 'gestureTemplates', 'recording'];
+  return order.flatMap((kind) => {
+    const group = groups.get(kind);
+    return group && group.items.length > 0 ? [group] : [];
+  });
+}
+
+/** Deletes an item the way its owner would (keeping id lists in sync). */
+export function deleteStoredItem(item: StoredItem, storage: AppStorage = getAppStorage()): void {
+  const { kind, visualId, id } = parseKey(item.key);
+  if (kind === 'preset' && visualId && id) deleteSavedConfig(visualId, id);
+  else if (kind === 'thumbnail' && visualId && id) deleteConfigThumbnail(visualId, id);
+  else if (kind === 'gestureTemplates' && visualId) deleteGestureTemplates(visualId);
+  else if (kind === 'recording' && id) deleteStoredRecording(id);
+  else storage.removeItem(item.key);
+}
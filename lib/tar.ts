@@ -0,0 +1,60 @@
+/**
+ * Minimal ustar archive writer: packs a PNG sequence into one download in browsers without the File System Access
+ * API. Regular files only, names up to 100 bytes (ASCII).
+ */
+
+/** File contents: bytes, or a Blob (which the browser can keep out of the JavaScript heap). */
+export type TarData = Uint8Array | Blob;
+
+export interface TarEntry<T extends TarData = Uint8Array> {
+  name: string;
+  data: T;
+  /** Modification time in ms (defaults to now). */
+  mtime?: number;
+}
+
+const BLOCK = 512;
+
+const getDataSize = (data: TarData) => (data instanceof Uint8Array ? data.length : data.size);
+
+function writeString(block: Uint8Array, offset: number, length: number, value: string) {
+  for (let i = 0; i < Math.min(length, value.length); i++) block[offset + i] = value.charCodeAt(i) & 0x7f;
+}
+
+/** Zero-padded octal field ending in NUL. */
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number) {
+  writeString(block, offset, length - 1, Math.floor(value).toString(8).padStart(length - 1, '0'));
+}
+
+export function createTarHeader(entry: TarEntry<TarData>): Uint8Array {
+  if (entry.name.length > 100) throw new Error(`File name too long for tar: ${entry.name}`);
+  const header = new Uint8Array(BLOCK);
+  writeString(header, 0, 100, entry.name);
+  writeOctal(header, 100, 8, 0o644); // mode
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, getDataSize(entry.data));
+  writeOctal(header, 136, 12, (entry.mtime ?? Date.now()) / 1000);
+  header[156] = '0'.charCodeAt(0); // regular file
+  writeString(header, 257, 6, 'ustar');
+  writeString(header, 263, 2, '00');
+  // Checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, 148, 7, checksum.toString(8).padStart(6, '0') + '\0');
+  return header;
+}
+
+/** Parts for one file: its header, its data and padding to a whole block. */
+export function createTarEntryParts<T extends TarData>(entry: TarEntry<T>): (T | Uint8Array)[] {
+  const padding = (BLOCK - (getDataSize(entry.data) % BLOCK)) % BLOCK;
+  return padding > 0 ? [createTarHeader(entry), entry.data, new Uint8Array(padding)] : [createTarHeader(entry), entry.data];
+}
+
+/** The two zero blocks closing an archive. */
+export const createTarEnd = (): Uint8Array => new Uint8Array(BLOCK * 2);
+
+/** Archive parts (headers, padded file data and the two closing zero blocks), ready for `new Blob(parts)`. */
+export function createTarParts<T extends TarData = Uint8Array>(entries: TarEntry<T>[]): (T | Uint8Array)[] {
+  return [...entries.flatMap((entry) => createTarEntryParts(entry)), createTarEnd()];
+}
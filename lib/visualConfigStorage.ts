@@ -1,13 +1,17 @@
 /**
  * Utility for saving and loading visual control configurations
- * Stores configurations in localStorage keyed by visual ID and configuration name
+ * Stores configurations in app storage (IndexedDB, see `appStorage.ts`) keyed by visual ID and configuration name
  */
 
-import type { PrismHandControls } from '@/components/hand-tracking/PrismHandVisual';
-import type { OneLineHandControls } from '@/components/hand-tracking/OneLineHandVisual';
-import type { ConstellationControls } from '@/components/hand-tracking/ConstellationVisual';
+import type { GestureTemplate, GestureTemplateKind, NormalizedHandFrame } from '@/components/hand-tracking/gestureTemplates';
+import { parseRecording, serializeRecording, type LandmarkRecording } from '@/components/hand-tracking/landmarkRecording';
+import type { ModulationMapping } from '@/components/hand-tracking/modulation';
+import { getAppStorage } from './appStorage';
+import { LEGACY_CONTROLS_VERSION } from './controlMigrations';
+import type { ExternalControlMapping } from './externalControl';
 
-export type VisualControlType = PrismHandControls | OneLineHandControls | ConstellationControls;
+/** Control values of any visual; each visual's plugin defines their shape (see `lib/visualRegistry.ts`). */
+export type VisualControlType = object;
 
 export interface SavedVisualConfig {
   id: string; // unique ID for this saved config
@@ -15,10 +19,22 @@ export interface SavedVisualConfig {
   visualId: string; // which visual this config belongs to (e.g., 'viz4', 'viz5', 'viz6')
   savedAt: number; // timestamp when saved
   controls: VisualControlType; // the actual control values
+  modulations?: ModulationMapping[]; // modulation matrix saved with the controls (absent in older configs)
+  externalMappings?: ExternalControlMapping[]; // MIDI/OSC → control mappings (absent in older configs)
+  schemaVersion: number; // version of the visual's controls schema (0 for configs saved before versioning)
+  tags?: string[]; // labels for the preset browser (absent in older configs)
+  favorite?: boolean; // pinned in the preset browser
 }
 
+/** What the preset browser can change on a saved configuration. */
+export type SavedVisualConfigChanges = Partial<Pick<SavedVisualConfig, 'name' | 'tags' | 'favorite'>>;
+
 const STORAGE_PREFIX = 'visual-config';
 const LIST_KEY_PREFIX = 'visual-config-list';
+const GESTURE_TEMPLATES_PREFIX = 'visual-gesture-templates';
+const RECORDING_PREFIX = 'landmark-session';
+const RECORDING_LIST_KEY = 'landmark-session-list';
+const THUMBNAIL_PREFIX = 'preset-thumbnail';
 
 /**
  * Get the storage key for a specific saved configuration
@@ -41,7 +57,7 @@ function getSavedConfigIds(visualId: string): string[] {
   if (typeof window === 'undefined') return [];
   try {
     const listKey = getListKey(visualId);
-    const stored = localStorage.getItem(listKey);
+    const stored = getAppStorage().getItem(listKey);
     if (!stored) return [];
     return JSON.parse(stored) as string[];
   } catch (error) {
@@ -57,19 +73,55 @@ function saveConfigIds(visualId: string, ids: string[]): void {
   if (typeof window === 'undefined') return;
   try {
     const listKey = getListKey(visualId);
-    localStorage.setItem(listKey, JSON.stringify(ids));
+    getAppStorage().setItem(listKey, JSON.stringify(ids));
   } catch (error) {
     console.error('Error saving config list:', error);
   }
 }
 
 /**
- * Save a visual configuration with a given name
+ * Checks the shape of a stored configuration (the controls themselves are
+ * migrated and validated by the visual, see `lib/controlMigrations.ts`).
+ * Configs saved before versioning get schema version 0.
+ */
+function parseSavedConfig(stored: string, visualId: string): SavedVisualConfig | null {
+  const config = JSON.parse(stored) as Partial<SavedVisualConfig> | null;
+  if (
+    !config ||
+    typeof config !== 'object' ||
+    config.visualId !== visualId ||
+    typeof config.id !== 'string' ||
+    typeof config.name !== 'string' ||
+    !config.controls ||
+    typeof config.controls !== 'object'
+  ) {
+    return null;
+  }
+  return {
+    id: config.id,
+    name: config.name,
+    visualId,
+    savedAt: typeof config.savedAt === 'number' ? config.savedAt : 0,
+    controls: config.controls,
+    ...(Array.isArray(config.modulations) ? { modulations: config.modulations } : {}),
+    ...(Array.isArray(config.externalMappings) ? { externalMappings: config.externalMappings } : {}),
+    schemaVersion: typeof config.schemaVersion === 'number' ? config.schemaVersion : LEGACY_CONTROLS_VERSION,
+    ...(Array.isArray(config.tags) ? { tags: config.tags.filter((tag) => typeof tag === 'string') } : {}),
+    ...(config.favorite === true ? { favorite: true } : {}),
+  };
+}
+
+/**
+ * Save a visual configuration with a given name. `schemaVersion` is the version of the controls schema the
+ * controls follow (`getControlsVersion`), so loading can migrate them.
  */
 export function saveVisualConfig(
   visualId: string,
   name: string,
-  controls: VisualControlType
+  controls: VisualControlType,
+  schemaVersion: number,
+  modulations?: ModulationMapping[],
+  externalMappings?: ExternalControlMapping[]
 ): SavedVisualConfig {
   const configId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   const savedConfig: SavedVisualConfig = {
@@ -78,12 +130,15 @@ export function saveVisualConfig(
     visualId,
     savedAt: Date.now(),
     controls,
+    ...(modulations ? { modulations } : {}),
+    ...(externalMappings ? { externalMappings } : {}),
+    schemaVersion,
   };
 
   if (typeof window !== 'undefined') {
     try {
       const configKey = getConfigKey(visualId, configId);
-      localStorage.setItem(configKey, JSON.stringify(savedConfig));
+      getAppStorage().setItem(configKey, JSON.stringify(savedConfig));
       
       // Add to the list of saved configs for this visual
       const existingIds = getSavedConfigIds(visualId);
@@ -92,12 +147,8 @@ export function saveVisualConfig(
         saveConfigIds(visualId, existingIds);
       }
     } catch (error) {
+      // Storage already evicted what it could (old recordings and thumbnails) before giving up
       console.error('Error saving visual config:', error);
-      // If quota exceeded, try to clean up old configs
-      if (error instanceof DOMException && error.code === 22) {
-        console.warn('LocalStorage quota exceeded, attempting cleanup...');
-        // Could implement cleanup logic here if needed
-      }
     }
   }
 
@@ -116,12 +167,11 @@ export function loadSavedConfigs(visualId: string): SavedVisualConfig[] {
     
     for (const configId of configIds) {
       const configKey = getConfigKey(visualId, configId);
-      const stored = localStorage.getItem(configKey);
+      const stored = getAppStorage().getItem(configKey);
       if (stored) {
         try {
-          const config = JSON.parse(stored) as SavedVisualConfig;
-          // Validate that it's for the correct visual
-          if (config.visualId === visualId) {
+          const config = parseSavedConfig(stored, visualId);
+          if (config) {
             configs.push(config);
           }
         } catch (parseError) {
@@ -147,7 +197,8 @@ export function deleteSavedConfig(visualId: string, configId: string): boolean {
   
   try {
     const configKey = getConfigKey(visualId, configId);
-    localStorage.removeItem(configKey);
+    getAppStorage().removeItem(configKey);
+    getAppStorage().removeItem(getThumbnailKey(visualId, configId));
     
     // Remove from the list
     const existingIds = getSavedConfigIds(visualId);
@@ -169,23 +220,277 @@ export function loadSavedConfig(visualId: string, configId: string): SavedVisual
   
   try {
     const configKey = getConfigKey(visualId, configId);
-    const stored = localStorage.getItem(configKey);
+    const stored = getAppStorage().getItem(configKey);
     if (!stored) return null;
     
-    const config = JSON.parse(stored) as SavedVisualConfig;
-    // Validate that it's for the correct visual
-    if (config.visualId !== visualId) return null;
-    return config;
+    return parseSavedConfig(stored, visualId);
   } catch (error) {
     console.error('Error loading saved config:', error);
     return null;
   }
 }
 
+/**
+ * Rename, tag or (un)favourite a saved configuration. Returns the updated
+ * configuration, or null when it doesn't exist.
+ */
+export function updateSavedConfig(
+  visualId: string,
+  configId: string,
+  changes: SavedVisualConfigChanges
+): SavedVisualConfig | null {
+  const config = loadSavedConfig(visualId, configId);
+  if (!config) return null;
+  const updated: SavedVisualConfig = { ...config, ...changes };
+  if (!updated.tags || updated.tags.length === 0) delete updated.tags;
+  if (!updated.favorite) delete updated.favorite;
+  try {
+    getAppStorage().setItem(getConfigKey(visualId, configId), JSON.stringify(updated));
+    return updated;
+  } catch (error) {
+    console.error('Error updating saved config:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a copy of a configuration (with its tags and thumbnail) under a new name
+ */
+export function duplicateSavedConfig(visualId: string, configId: string, name: string): SavedVisualConfig | null {
+  const config = loadSavedConfig(visualId, configId);
+  if (!config) return null;
+  const copy = saveVisualConfig(
+    visualId,
+    name,
+    config.controls,
+    config.schemaVersion,
+    config.modulations,
+    config.externalMappings
+  );
+  const thumbnail = loadConfigThumbnail(visualId, configId);
+  if (thumbnail) saveConfigThumbnail(visualId, copy.id, thumbnail);
+  return config.tags ? (updateSavedConfig(visualId, copy.id, { tags: config.tags }) ?? copy) : copy;
+}
+
+/**
+ * Get the storage key for the thumbnail of a saved configuration
+ */
+function getThumbnailKey(visualId: string, configId: string): string {
+  return `${THUMBNAIL_PREFIX}:${visualId}:${configId}`;
+}
+
+/**
+ * Store the thumbnail (image data URL) of a saved configuration. Thumbnails may
+ * be removed to free up space, so callers must cope with them missing.
+ */
+export function saveConfigThumbnail(visualId: string, configId: string, dataUrl: string): void {
+  if (typeof window === 'undefined') return;
+  try {
+    getAppStorage().setItem(getThumbnailKey(visualId, configId), dataUrl);
+  } catch (error) {
+    console.error('Error saving config thumbnail:', error);
+  }
+}
+
+/**
+ * Load the thumbnail of a saved configuration (null when it has none)
+ */
+export function loadConfigThumbnail(visualId: string, configId: string): string | null {
+  if (typeof window === 'undefined') return null;
+  return getAppStorage().getItem(getThumbnailKey(visualId, configId));
+}
+
+/**
+ * Delete the thumbnail of a saved configuration
+ */
+export function deleteConfigThumbnail(visualId: string, configId: string): void {
+  if (typeof window === 'undefined') return;
+  getAppStorage().removeItem(getThumbnailKey(visualId, configId));
+}
+
 /**
  * Check if a configuration name already exists for a visual
  */
 export function configNameExists(visualId: string, name: string): boolean {
   const configs = loadSavedConfigs(visualId);
   return configs.some(config => config.name.toLowerCase() === name.toLowerCase());
-}
\ No newline at end of file
+}
+
+/**
+ * Get the storage key for the gesture templates of a visual
+ */
+function getGestureTemplatesKey(visualId: string): string {
+  return `${GESTURE_TEMPLATES_PREFIX}:${visualId}`;
+}
+
+function writeGestureTemplates(visualId: string, templates: GestureTemplate[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    getAppStorage().setItem(getGestureTemplatesKey(visualId), JSON.stringify(templates));
+  } catch (error) {
+    console.error('Error saving gesture templates:', error);
+  }
+}
+
+/**
+ * Load all gesture templates for a specific visual (oldest first)
+ */
+export function loadGestureTemplates(visualId: string): GestureTemplate[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = getAppStorage().getItem(getGestureTemplatesKey(visualId));
+    if (!stored) return [];
+    const templates = JSON.parse(stored) as GestureTemplate[];
+    return Array.isArray(templates) ? templates.filter((template) => template.visualId === visualId) : [];
+  } catch (error) {
+    console.error('Error loading gesture templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a named gesture template built from normalized samples
+ */
+export function saveGestureTemplate(
+  visualId: string,
+  name: string,
+  kind: GestureTemplateKind,
+  samples: NormalizedHandFrame[][],
+  durationMs = 0
+): GestureTemplate {
+  const template: GestureTemplate = {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    name,
+    visualId,
+    kind,
+    samples,
+    durationMs,
+    createdAt: Date.now(),
+  };
+  writeGestureTemplates(visualId, [...loadGestureTemplates(visualId), template]);
+  return template;
+}
+
+/**
+ * Delete a gesture template
+ */
+export function deleteGestureTemplate(visualId: string, templateId: string): boolean {
+  if (typeof window === 'undefined') return false;
+  writeGestureTemplates(
+    visualId,
+    loadGestureTemplates(visualId).filter((template) => template.id !== templateId)
+  );
+  return true;
+}
+
+/**
+ * Delete all gesture templates of a visual
+ */
+export function deleteGestureTemplates(visualId: string): boolean {
+  if (typeof window === 'undefined') return false;
+  getAppStorage().removeItem(getGestureTemplatesKey(visualId));
+  return true;
+}
+
+/**
+ * Check if a gesture template name already exists for a visual
+ */
+export function gestureTemplateNameExists(visualId: string, name: string): boolean {
+  return loadGestureTemplates(visualId).some((template) => template.name.toLowerCase() === name.toLowerCase());
+}
+
+/** A session recording kept in the browser (the frames are stored separately, see `loadStoredRecording`). */
+export interface StoredRecordingInfo {
+  id: string;
+  name: string;
+  visualId: string;
+  savedAt: number;
+  durationMs: number;
+  frameCount: number;
+}
+
+/**
+ * Get the storage key for the frames of a stored recording
+ */
+function getRecordingKey(recordingId: string): string {
+  return `${RECORDING_PREFIX}:${recordingId}`;
+}
+
+function readRecordingList(): StoredRecordingInfo[] {
+  try {
+    const stored = getAppStorage().getItem(RECORDING_LIST_KEY);
+    const list = stored ? (JSON.parse(stored) as StoredRecordingInfo[]) : [];
+    return Array.isArray(list) ? list : [];
+  } catch (error) {
+    console.error('Error reading stored recording list:', error);
+    return [];
+  }
+}
+
+function writeRecordingList(list: StoredRecordingInfo[]): void {
+  try {
+    getAppStorage().setItem(RECORDING_LIST_KEY, JSON.stringify(list));
+  } catch (error) {
+    console.error('Error saving stored recording list:', error);
+  }
+}
+
+/**
+ * Load the stored recordings of a visual (newest first). Recordings removed
+ * to free up space are left out.
+ */
+export function loadStoredRecordings(visualId: string): StoredRecordingInfo[] {
+  if (typeof window === 'undefined') return [];
+  const existing = new Set(getAppStorage().keys(`${RECORDING_PREFIX}:`));
+  return readRecordingList()
+    .filter((info) => info.visualId === visualId && existing.has(getRecordingKey(info.id)))
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Store a session recording in the browser. Rejects with `StorageFullError` when there is no room for it (the
+ * recording is then not kept or listed).
+ */
+export async function saveStoredRecording(
+  visualId: string,
+  name: string,
+  recording: LandmarkRecording
+): Promise<StoredRecordingInfo> {
+  const info: StoredRecordingInfo = {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    name,
+    visualId,
+    savedAt: Date.now(),
+    durationMs: recording.durationMs,
+    frameCount: recording.frames.length,
+  };
+  if (typeof window === 'undefined') return info;
+  await getAppStorage().setItem(getRecordingKey(info.id), serializeRecording(recording));
+  writeRecordingList([...readRecordingList(), info]);
+  return info;
+}
+
+/**
+ * Load the frames of a stored recording
+ */
+export function loadStoredRecording(recordingId: string): LandmarkRecording | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = getAppStorage().getItem(getRecordingKey(recordingId));
+    return stored ? parseRecording(stored) : null;
+  } catch (error) {
+    console.error('Error loading stored recording:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a stored recording
+ */
+export function deleteStoredRecording(recordingId: string): boolean {
+  if (typeof window === 'undefined') return false;
+  getAppStorage().removeItem(getRecordingKey(recordingId));
+  writeRecordingList(readRecordingList().filter((info) => info.id !== recordingId));
+  return true;
+}
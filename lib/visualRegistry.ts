@@ -0,0 +1,182 @@
+import type { ComponentType } from 'react';
+import type { FinalVector } from '@/components/hand-tracking/PinchHistoryTracker';
+import type { GestureEvent } from '@/components/hand-tracking/gestures';
+import {
+  getModulationTargets,
+  type ModulationMapping,
+  type ModulationValues,
+} from '@/components/hand-tracking/modulation';
+import type { TrackingFrame } from '@/components/hand-tracking/trackingSources';
+import { isValidControlValue, type ControlSchema, type ControlSpec } from './controlSchema';
+import { migrateControls, type ControlMigration } from './controlMigrations';
+import type { ControlMorphFrame } from './controlMorph';
+
+/**
+ * Visual plugin registry.
+ *
+ * Each visual declares everything the routes need to show it: metadata, the
+ * React component, the tracking inputs it reacts to, where the camera feed
+ * goes, its controls (defaults and schema) and optional extras (gestures,
+ * debug inspector, offline rendering). The home grid, dev view, control panel,
+ * final view, offline render, operator and config loading are generated from
+ * these entries; adding a visual means writing one plugin and listing it in
+ * `app/hands/visuals-config.ts`.
+ */
+
+export type VisualInput = 'hands' | 'pinch' | 'pose' | 'face';
+
+export const VISUAL_INPUT_LABELS: Record<VisualInput, string> = {
+  hands: 'Hand tracking',
+  pinch: 'Pinch',
+  pose: 'Body',
+  face: 'Face',
+};
+
+/**
+ * Where the routes put the camera feed: a small `inset` next to or over the
+ * visual, in the `center` of it (pinch vectors drawn on the feed), or the
+ * feed is the `visual` itself.
+ */
+export type VisualFeedPlacement = 'inset' | 'center' | 'visual';
+
+/** Route the visual is rendered in. */
+export type VisualView = 'dev' | 'controlPanel' | 'final' | 'offline';
+
+export interface VisualFeedOptions {
+  /** Hand tracking is enabled for this visual. */
+  enabled: boolean;
+  leftHanded: boolean;
+  enablePose: boolean;
+  enableFace: boolean;
+}
+
+export interface VisualComponentProps<TControls extends object = object, TTelemetry = unknown> {
+  view: VisualView;
+  /** Latest tracking frame (hands filtered and with ids, see `useTrackingFrame`). */
+  frame: TrackingFrame;
+  /** Pinch vector in progress, or the last released one. */
+  compositeVector: FinalVector | null;
+  /** Control values with the modulation matrix applied. */
+  controls: TControls;
+  modulation: ModulationValues;
+  feed: VisualFeedOptions;
+  className?: string;
+  /** Stepped by `advance()` (see `lib/offlineRender.ts`). */
+  offline?: boolean;
+  /** Seed for the visual's randomness (offline renders). */
+  seed?: number;
+  /** Debug values for the visual's `Inspector` (bounding boxes, phase angles, …). */
+  onTelemetry?: (telemetry: TTelemetry) => void;
+  /** Preset morph in progress (`controls` are already interpolated; blend what enums stand for, e.g. palettes). */
+  morph?: ControlMorphFrame<TControls> | null;
+}
+
+export interface VisualControlsDefinition<TControls extends object = object> {
+  defaults: TControls;
+  /** Label, range and type of every control; the panels and validation are generated from it. */
+  schema: ControlSchema<TControls> & Record<string, ControlSpec>;
+  /** Control panel card title and description. */
+  title: string;
+  description: string;
+  /** Hint under the controls (e.g. what pinch does on top of them). */
+  note?: string;
+  /**
+   * Schema version stored with saved configurations (1 when unset). Bump it
+   * and add a migration when a control is renamed or changes meaning.
+   */
+  version?: number;
+  /** Migration from version n to n + 1, keyed by n (configurations saved before versioning are version 0). */
+  migrations?: Record<number, ControlMigration>;
+}
+
+export interface VisualInspectorProps<TTelemetry = unknown> {
+  /** Last value the visual reported through `onTelemetry` (null before the first). */
+  telemetry: TTelemetry | null;
+  frame: TrackingFrame;
+}
+
+export interface VisualPlugin<TControls extends object = object, TTelemetry = unknown> {
+  /** Route segment, e.g. `viz6`. */
+  id: string;
+  name: string;
+  description: string;
+  /** Disabled visuals are hidden from navigation and their routes 404. */
+  enabled: boolean;
+  inputs: VisualInput[];
+  feed: VisualFeedPlacement;
+  /** Image URL for the home grid. */
+  thumbnail: string;
+  Component: ComponentType<VisualComponentProps<TControls, TTelemetry>>;
+  /** Null for visuals without adjustable controls. */
+  controls: VisualControlsDefinition<TControls> | null;
+  /** Modulation matrix a visual starts with before the user edits it. */
+  defaultModulations?: ModulationMapping[];
+  /** Modulation targets of a visual without controls (otherwise its numeric controls). */
+  modulationTargets?: string[];
+  /** Control change for a gesture event (e.g. swipes cycling a palette); null to ignore it. */
+  onGesture?: (event: GestureEvent, controls: TControls) => TControls | null;
+  /** Control panel card showing the visual's telemetry. */
+  Inspector?: ComponentType<VisualInspectorProps<TTelemetry>>;
+  /** Supports offline rendering (`offline` prop, see `lib/offlineRender.ts`). */
+  offline?: boolean;
+  /** Uses the `seed` prop for its randomness. */
+  seeded?: boolean;
+}
+
+/**
+ * Types a plugin against its own controls and erases them for the registry
+ * (pages handle controls generically).
+ */
+export function defineVisual<TControls extends object, TTelemetry = unknown>(
+  plugin: VisualPlugin<TControls, TTelemetry>
+): VisualPlugin {
+  return plugin as unknown as VisualPlugin;
+}
+
+export interface VisualRegistry {
+  /** Enabled visual with this id. */
+  get: (id: string) => VisualPlugin | undefined;
+  /** Enabled visuals in registration order. */
+  getAll: () => VisualPlugin[];
+}
+
+export function createVisualRegistry(plugins: VisualPlugin[]): VisualRegistry {
+  const seen = new Set<string>();
+  for (const plugin of plugins) {
+    if (seen.has(plugin.id)) throw new Error(`Duplicate visual id: ${plugin.id}`);
+    seen.add(plugin.id);
+  }
+  const enabled = plugins.filter((plugin) => plugin.enabled);
+  return {
+    get: (id) => enabled.find((plugin) => plugin.id === id),
+    getAll: () => enabled,
+  };
+}
+
+const NO_MAPPINGS: ModulationMapping[] = [];
+
+export const getVisualDefaultModulations = (plugin: VisualPlugin | undefined): ModulationMapping[] =>
+  plugin?.defaultModulations ?? NO_MAPPINGS;
+
+/** Controls the modulation matrix can drive: numeric controls, or the plugin's declared targets. */
+export function getVisualModulationTargets(plugin: VisualPlugin): string[] {
+  if (plugin.controls) return getModulationTargets(plugin.controls.defaults);
+  return plugin.modulationTargets ?? [];
+}
+
+/** Whether a remote patch value fits the control (known key, valid for its schema). */
+export function isValidVisualControlValue(plugin: VisualPlugin, key: string, value: unknown): boolean {
+  const spec = plugin.controls?.schema[key];
+  return spec !== undefined && isValidControlValue(spec, value);
+}
+
+/**
+ * Controls from a sync message, remote recall or saved config of the current
+ * version, repaired against the plugin's schema: missing keys get the default,
+ * numbers are clamped into range, other invalid values are reset and keys the
+ * visual doesn't have are dropped. Null for visuals without controls. Saved
+ * configs of older versions go through `migrateControls` first.
+ */
+export function resolveVisualControls(plugin: VisualPlugin, value: unknown): object | null {
+  return plugin.controls ? migrateControls(plugin.controls, value).controls : null;
+}
@@ -0,0 +1,128 @@
+/**
+ * Cross-window sync for visual controls.
+ * The control panel publishes the current controls and modulation matrix of a visual; every open final view of the
+ * same visual applies them. Uses BroadcastChannel when available and falls back to localStorage `storage` events.
+ */
+
+import type { ModulationMapping } from '@/components/hand-tracking/modulation';
+import type { ControlMorphFrame } from './controlMorph';
+import type { VisualControlType } from './visualConfigStorage';
+
+export type VisualSyncTransport = 'broadcast' | 'storage' | 'none';
+
+export interface VisualSyncState {
+  controls: VisualControlType | null; // null for visuals without controls (e.g. PinchControlled3D)
+  modulations: ModulationMapping[];
+  /** Name of the configuration last loaded or saved in the control panel (for capture file names). */
+  configName?: string | null;
+  /** Preset morph running in the control panel (`controls` are its current values). */
+  morph?: ControlMorphFrame | null;
+}
+
+export type VisualSyncPayload =
+  | ({ type: 'state' } & VisualSyncState) // full snapshot from the control panel
+  | { type: 'request' }; // a final view opened and asks for the current state
+
+export type VisualSyncMessage = VisualSyncPayload & {
+  visualId: string;
+  senderId: string;
+  sentAt: number;
+};
+
+export type VisualSyncListener = (message: VisualSyncMessage) => void;
+
+export interface VisualSyncChannel {
+  transport: VisualSyncTransport;
+  publish: (payload: VisualSyncPayload) => void;
+  /** Registers a listener for messages from other windows. Returns an unsubscribe function. */
+  subscribe: (listener: VisualSyncListener) => () => void;
+  close: () => void;
+}
+
+const CHANNEL_PREFIX = 'visual-sync';
+
+/**
+ * Get the BroadcastChannel name / localStorage key for a visual
+ */
+export function getVisualSyncKey(visualId: string): string {
+  return `${CHANNEL_PREFIX}:${visualId}`;
+}
+
+function pickTransport(): VisualSyncTransport {
+  if (typeof window === 'undefined') return 'none';
+  if (typeof BroadcastChannel !== 'undefined') return 'broadcast';
+  return typeof localStorage !== 'undefined' ? 'storage' : 'none';
+}
+
+/**
+ * Check that an incoming message is a sync message for this visual
+ */
+export function parseVisualSyncMessage(value: unknown, visualId: string): VisualSyncMessage | null {
+  if (!value || typeof value !== 'object') return null;
+  const message = value as Partial<VisualSyncMessage>;
+  if (message.visualId !== visualId || typeof message.senderId !== 'string') return null;
+  if (message.type === 'request') return message as VisualSyncMessage;
+  if (message.type === 'state' && Array.isArray(message.modulations) && typeof message.controls === 'object') {
+    return message as VisualSyncMessage;
+  }
+  return null;
+}
+
+/**
+ * Open the sync channel for a visual
+ */
+export function createVisualSyncChannel(visualId: string, transport: VisualSyncTransport = pickTransport()): VisualSyncChannel {
+  const key = getVisualSyncKey(visualId);
+  const senderId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  const listeners = new Set<VisualSyncListener>();
+
+  const deliver = (value: unknown) => {
+    const message = parseVisualSyncMessage(value, visualId);
+    if (!message || message.senderId === senderId) return;
+    listeners.forEach((listener) => listener(message));
+  };
+
+  let send: (message: VisualSyncMessage) => void = () => {};
+  let close = () => {};
+
+  if (transport === 'broadcast') {
+    const channel = new BroadcastChannel(key);
+    channel.onmessage = (event: MessageEvent) => deliver(event.data);
+    send = (message) => channel.postMessage(message);
+    close = () => channel.close();
+  } else if (transport === 'storage') {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== key || !event.newValue) return;
+      try {
+        deliver(JSON.parse(event.newValue));
+      } catch {
+        // ignore malformed values
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    send = (message) => {
+      try {
+        // `storage` only fires in other windows, and only when the value changes (sentAt/senderId keep it unique)
+        localStorage.setItem(key, JSON.stringify(message));
+      } catch (error) {
+        console.error('Error publishing visual sync message:', error);
+      }
+    };
+    close = () => window.removeEventListener('storage', onStorage);
+  }
+
+  return {
+    transport,
+    publish(payload) {
+      send({ ...payload, visualId, senderId, sentAt: Date.now() });
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close() {
+      listeners.clear();
+      close();
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Minimal WAV (RIFF) decoder: 8/16/24/32-bit PCM and 32-bit float, any channel count. Used to run audio analysis
+ * offline (see `audioAnalysis.ts`); browsers decode audio files with Web Audio instead.
+ */
+
+export interface DecodedWav {
+  sampleRate: number;
+  /** One array per channel, samples in -1..1. */
+  channels: Float32Array[];
+}
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+export function decodeWav(data: Uint8Array): DecodedWav {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { audioFormat: number; channelCount: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag === 'fmt ') {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channelCount: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first two bytes of the sub-format GUID
+      if (format.audioFormat === 0xfffe && size >= 26) format.audioFormat = view.getUint16(body + 24, true);
+    } else if (tag === 'data') {
+      if (!format) throw new Error('WAV data before format');
+      return { sampleRate: format.sampleRate, channels: decodeSamples(view, body, Math.min(size, data.byteLength - body), format) };
+    }
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no data');
+}
+
+function decodeSamples(
+  view: DataView,
+  start: number,
+  size: number,
+  { audioFormat, channelCount, bitsPerSample }: { audioFormat: number; channelCount: number; bitsPerSample: number }
+): Float32Array[] {
+  const bytes = bitsPerSample / 8;
+  const isFloat = audioFormat === 3 && bitsPerSample === 32;
+  if ((audioFormat !== 1 && !isFloat) || ![1, 2, 3, 4].includes(bytes) || channelCount < 1) {
+    throw new Error(`Unsupported WAV format ${audioFormat} (${bitsPerSample}-bit)`);
+  }
+  const frames = Math.floor(size / (bytes * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+  const read = (at: number): number => {
+    if (isFloat) return view.getFloat32(at, true);
+    switch (bytes) {
+      case 1:
+        return (view.getUint8(at) - 128) / 128;
+      case 2:
+        return view.getInt16(at, true) / 32768;
+      case 3:
+        return (((view.getUint8(at + 2) << 24) | (view.getUint8(at + 1) << 16) | (view.getUint8(at) << 8)) >> 8) / 8388608;
+      default:
+        return view.getInt32(at, true) / 2147483648;
+    }
+  };
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      channels[channel][frame] = read(start + (frame * channelCount + channel) * bytes);
+    }
+  }
+  return channels;
+}
+
+/** Averages the channels into one. */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
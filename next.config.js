@@ -22,10 +22,7 @@ const nextConfig = {
       // Server-side: externalize completely to avoid bundling
       config.externals = config.externals || [];
       config.externals.push({
-        '@mediapipe/pose': 'commonjs @mediapipe/pose',
-        '@mediapipe/hands': 'commonjs @mediapipe/hands',
-        '@mediapipe/face_mesh': 'commonjs @mediapipe/face_mesh',
-        '@mediapipe/drawing_utils': 'commonjs @mediapipe/drawing_utils',
+        '@mediapipe/tasks-vision': 'commonjs @mediapipe/tasks-vision',
       });
     }
     return config;
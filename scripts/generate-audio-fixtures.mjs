@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+/**
+ * Writes the WAV fixtures of the audio analysis tests (`__tests__/lib/audioAnalysis.test.ts`):
+ *   kick-120bpm.wav       mono 16-bit: kicks on every beat, off-beat hi-hats, a quiet sustained chord
+ *   kick-90bpm-stereo.wav stereo 16-bit: kicks, a bass line changing every two beats, eighth-note hi-hats
+ *   noise.wav             mono 8-bit: steady noise and a tone, no beat
+ * Deterministic (seeded noise), so regenerating gives identical files.
+ *
+ * Usage: node scripts/generate-audio-fixtures.mjs
+ */
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const OUT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', '__tests__', 'fixtures', 'audio');
+const SAMPLE_RATE = 8000;
+
+function createNoise(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 31 - 1;
+  };
+}
+
+/** Kick drum: a sine sweeping from 120 to 50 Hz with a fast decay. */
+function addKick(buffer, at, gain = 0.8) {
+  const start = Math.round(at * SAMPLE_RATE);
+  let phase = 0;
+  for (let i = 0; i < SAMPLE_RATE * 0.3 && start + i < buffer.length; i++) {
+    const t = i / SAMPLE_RATE;
+    phase += (2 * Math.PI * (50 + 70 * Math.exp(-t / 0.03))) / SAMPLE_RATE;
+    buffer[start + i] += gain * Math.sin(phase) * Math.exp(-t / 0.12);
+  }
+}
+
+/** Hi-hat: differentiated (high-passed) noise burst. */
+function addHat(buffer, at, noise, gain = 0.15) {
+  const start = Math.round(at * SAMPLE_RATE);
+  let previous = 0;
+  for (let i = 0; i < SAMPLE_RATE * 0.04 && start + i < buffer.length; i++) {
+    const white = noise();
+    buffer[start + i] += gain * (white - previous) * Math.exp(-i / (SAMPLE_RATE * 0.01));
+    previous = white;
+  }
+}
+
+function addTone(buffer, from, to, frequency, gain) {
+  for (let i = Math.round(from * SAMPLE_RATE); i < Math.min(buffer.length, Math.round(to * SAMPLE_RATE)); i++) {
+    buffer[i] += gain * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+}
+
+function encodeWav(channels, bitsPerSample) {
+  const bytes = bitsPerSample / 8;
+  const frames = channels[0].length;
+  const dataSize = frames * channels.length * bytes;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeTag = (offset, tag) => [...tag].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * channels.length * bytes, true);
+  view.setUint16(32, channels.length * bytes, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let frame = 0; frame < frames; frame++) {
+    channels.forEach((channel, c) => {
+      const sample = Math.max(-1, Math.min(1, channel[frame]));
+      const at = 44 + (frame * channels.length + c) * bytes;
+      if (bytes === 1) view.setUint8(at, Math.round(sample * 127) + 128);
+      else view.setInt16(at, Math.round(sample * 32767), true);
+    });
+  }
+  return new Uint8Array(view.buffer);
+}
+
+function kick120() {
+  const seconds = 8;
+  const buffer = new Float32Array(SAMPLE_RATE * seconds);
+  const noise = createNoise(1);
+  for (let beat = 0; beat < seconds * 2; beat++) {
+    addKick(buffer, 0.25 + beat * 0.5);
+    addHat(buffer, 0.5 + beat * 0.5, noise);
+  }
+  for (const frequency of [220, 261.63, 329.63]) addTone(buffer, 0, seconds, frequency, 0.05);
+  return [buffer];
+}
+
+function kick90Stereo() {
+  const seconds = 8;
+  const beat = 60 / 90;
+  const left = new Float32Array(SAMPLE_RATE * seconds);
+  const right = new Float32Array(SAMPLE_RATE * seconds);
+  const noise = createNoise(2);
+  const bassNotes = [55, 65.41, 49, 73.42];
+  for (let i = 0; i * beat < seconds; i++) {
+    const at = 0.1 + i * beat;
+    // Accent on the first beat of each bar
+    addKick(left, at, i % 4 === 0 ? 0.8 : 0.6);
+    addKick(right, at, i % 4 === 0 ? 0.8 : 0.6);
+    if (i % 2 === 0) {
+      const frequency = bassNotes[(i / 2) % bassNotes.length];
+      addTone(left, at, at + 2 * beat, frequency, 0.15);
+      addTone(right, at, at + 2 * beat, frequency, 0.15);
+    }
+    addHat(left, at + beat / 2, noise, 0.12);
+    addHat(right, at, noise, 0.08);
+  }
+  return [left, right];
+}
+
+function noise() {
+  const seconds = 4;
+  const buffer = new Float32Array(SAMPLE_RATE * seconds);
+  const white = createNoise(3);
+  for (let i = 0; i < buffer.length; i++) buffer[i] = 0.2 * white();
+  addTone(buffer, 0, seconds, 440, 0.2);
+  return [buffer];
+}
+
+mkdirSync(OUT_DIR, { recursive: true });
+const fixtures = [
+  ['kick-120bpm.wav', kick120(), 16],
+  ['kick-90bpm-stereo.wav', kick90Stereo(), 16],
+  ['noise.wav', noise(), 8],
+];
+for (const [name, channels, bits] of fixtures) {
+  writeFileSync(join(OUT_DIR, name), encodeWav(channels, bits));
+  console.log(`wrote ${name}`);
+}
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+/**
+ * WebSocket ⇄ UDP bridge for OSC (see `lib/oscOutput.ts` and `lib/externalControl.ts`).
+ *
+ * Browsers can't use UDP, so the control panel sends encoded OSC packets as
+ * binary WebSocket frames and this bridge forwards each one unchanged as a UDP
+ * datagram to TouchDesigner / Max / Ableton. In the other direction, OSC
+ * received on the listen port (lighting desks, TouchOSC...) is forwarded to
+ * every connected page. Anything that isn't an OSC message or bundle is
+ * dropped. Only pages served from this machine (or an `--origin`) may
+ * connect. Dependency-free (see `ws-server.mjs`).
+ *
+ * Usage: npm run osc-bridge [-- --port 8788] [-- --osc-host 127.0.0.1] [-- --osc-port 9000] [-- --listen-port 9001]
+ *        [-- --origin https://visuals.example.com,http://192.168.1.5:3000]
+ */
+import { createSocket } from 'node:dgram';
+import { createServer } from 'node:http';
+import { acceptWebSocket } from './ws-server.mjs';
+
+// Keep packets within a single UDP datagram
+const MAX_PACKET_BYTES = 65507;
+const HEARTBEAT_MS = 15000;
+const STATS_MS = 10000;
+
+const args = process.argv.slice(2);
+const argValue = (flag, fallback) => {
+  const index = args.indexOf(flag);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+const port = Number(argValue('--port', process.env.OSC_BRIDGE_PORT ?? 8788));
+// Only local pages should reach the bridge by default
+const host = argValue('--host', process.env.OSC_BRIDGE_HOST ?? '127.0.0.1');
+const oscHost = argValue('--osc-host', process.env.OSC_HOST ?? '127.0.0.1');
+const oscPort = Number(argValue('--osc-port', process.env.OSC_PORT ?? 9000));
+// Incoming OSC comes from other machines, so listen on every interface
+const listenPort = Number(argValue('--listen-port', process.env.OSC_LISTEN_PORT ?? 9001));
+
+// Pages the app is served from besides localhost (comma-separated origins)
+const extraOrigins = argValue('--origin', process.env.OSC_BRIDGE_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Browsers send the page's origin with every upgrade, so other sites open in
+ * the browser can't send OSC through the bridge. Clients without an Origin
+ * aren't browsers and are let through.
+ */
+function isAllowedOrigin(origin) {
+  if (origin === undefined) return true;
+  if (extraOrigins.includes(origin)) return true;
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+const BUNDLE_HEADER = Buffer.from('#bundle\0');
+
+/** OSC packets start with an address (`/...`) or the bundle header. */
+const isOscPacket = (data) =>
+  data.length >= 4 && data.length % 4 === 0 && (data[0] === 0x2f || data.subarray(0, 8).equals(BUNDLE_HEADER));
+
+const udp = createSocket('udp4');
+udp.on('error', (error) => log(`UDP error: ${error.message}`));
+
+const connections = new Set();
+let forwarded = 0;
+let received = 0;
+let dropped = 0;
+
+udp.on('message', (data) => {
+  if (!isOscPacket(data)) {
+    dropped++;
+    return;
+  }
+  for (const connection of connections) connection.sendBinary(data);
+  received++;
+});
+
+function log(message) {
+  console.log(`[osc-bridge] ${message}`);
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`OSC bridge → udp://${oscHost}:${oscPort}, ← udp port ${listenPort}. Connect with WebSocket.\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  if (!isAllowedOrigin(req.headers.origin)) {
+    log(`refused a page from ${req.headers.origin}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const connection = acceptWebSocket(req, socket, {
+    maxMessageBytes: MAX_PACKET_BYTES,
+    onMessage(data, binary) {
+      if (!binary || !isOscPacket(data)) {
+        dropped++;
+        return;
+      }
+      udp.send(data, oscPort, oscHost);
+      forwarded++;
+    },
+    onClose() {
+      connections.delete(connection);
+      log(`client disconnected (${connections.size} connected)`);
+    },
+  });
+  if (!connection) return;
+  connections.add(connection);
+  log(`client connected from ${socket.remoteAddress} (${connections.size} connected)`);
+});
+
+const heartbeat = setInterval(() => {
+  for (const connection of connections) connection.ping();
+}, HEARTBEAT_MS);
+
+const stats = setInterval(() => {
+  if (forwarded === 0 && received === 0 && dropped === 0) return;
+  log(`sent ${forwarded} packet(s), received ${received}${dropped ? `, dropped ${dropped} invalid` : ''}`);
+  forwarded = 0;
+  received = 0;
+  dropped = 0;
+}, STATS_MS);
+
+udp.bind(listenPort, () => log(`receiving OSC on udp port ${listenPort}`));
+
+server.listen(port, host, () => {
+  log(`listening on ws://${host}:${port}, sending to udp://${oscHost}:${oscPort}`);
+});
+
+const shutdown = () => {
+  clearInterval(heartbeat);
+  clearInterval(stats);
+  for (const connection of connections) connection.close(1001);
+  udp.close();
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
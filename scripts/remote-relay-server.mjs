@@ -0,0 +1,138 @@
+/**
+ * The remote control relay itself (see `remote-relay.mjs` for the command).
+ *
+ * Final views connect as `display`, the operator page as `operator`. Operator
+ * messages (control patches, visual switches, preset recalls) are forwarded to
+ * every display; display status goes back to every operator. Messages are
+ * validated with `lib/remoteProtocol.mjs` and anything else is answered with
+ * an `error`. Upgrades without the relay's token (`?token=` in the URL) are
+ * refused, so pages on other sites can't drive the displays.
+ */
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import { parseRemoteWireMessage, REMOTE_PROTOCOL_VERSION, REMOTE_SENDER_ROLES } from '../lib/remoteProtocol.mjs';
+import { acceptWebSocket } from './ws-server.mjs';
+
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const HEARTBEAT_MS = 15000;
+
+/** Compares the request's `?token=` with the relay's token in constant time. */
+function hasToken(req, token) {
+  const given = Buffer.from(new URL(req.url ?? '/', 'ws://relay').searchParams.get('token') ?? '');
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Creates the relay's HTTP server (not listening yet). `close()` disconnects
+ * every client and stops the server.
+ *
+ * @param {{ token: string, log?: (message: string) => void }} options
+ */
+export function createRemoteRelay({ token, log = () => {} }) {
+  /** @type {Map<string, { connection: NonNullable<ReturnType<typeof acceptWebSocket>>, role: string | null, name: string, send: (m: object) => void }>} */
+  const clients = new Map();
+
+  const countRoles = () => {
+    let displays = 0;
+    let operators = 0;
+    for (const client of clients.values()) {
+      if (client.role === 'display') displays++;
+      if (client.role === 'operator') operators++;
+    }
+    return { displays, operators };
+  };
+
+  const broadcastPeers = () => {
+    const message = { v: REMOTE_PROTOCOL_VERSION, type: 'peers', ...countRoles() };
+    for (const client of clients.values()) if (client.role) client.send(message);
+  };
+
+  function handleMessage(id, text) {
+    const client = clients.get(id);
+    if (!client) return;
+    const fail = (code, message) => client.send({ v: REMOTE_PROTOCOL_VERSION, type: 'error', code, message });
+
+    let data;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return fail('invalid', 'Message is not JSON');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return fail('invalid', 'Message is not an object');
+    if (data.v !== REMOTE_PROTOCOL_VERSION) return fail('version', `Expected protocol version ${REMOTE_PROTOCOL_VERSION}`);
+    const message = parseRemoteWireMessage(data);
+    // Relay → client messages (welcome, peers, error) are not accepted from clients
+    if (!message || !(data.type in REMOTE_SENDER_ROLES)) return fail('invalid', `Invalid ${String(data.type)} message`);
+
+    if (data.type === 'hello') {
+      client.role = data.role;
+      client.name = data.name ?? '';
+      client.send({ v: REMOTE_PROTOCOL_VERSION, type: 'welcome', clientId: id, ...countRoles() });
+      log(`${id} is ${client.role}${client.name ? ` (${client.name})` : ''}`);
+      broadcastPeers();
+      return;
+    }
+    const role = REMOTE_SENDER_ROLES[data.type];
+    if (client.role !== role) return fail('forbidden', `${data.type} is only allowed for ${role} clients`);
+
+    // Forward tagged with the sender (clients can't set `from` themselves)
+    const { v: _v, from: _from, ...payload } = data;
+    const forwardTo = role === 'operator' ? 'display' : 'operator';
+    const forwarded = { ...payload, v: REMOTE_PROTOCOL_VERSION, from: id };
+    for (const [otherId, other] of clients) {
+      if (otherId !== id && other.role === forwardTo) other.send(forwarded);
+    }
+  }
+
+  const server = createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end(`Remote control relay (protocol v${REMOTE_PROTOCOL_VERSION}). Connect with WebSocket.\n`);
+  });
+
+  server.on('upgrade', (req, socket) => {
+    if (!hasToken(req, token)) {
+      log(`refused ${socket.remoteAddress}: missing or wrong token`);
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+    const id = randomUUID().slice(0, 8);
+    const connection = acceptWebSocket(req, socket, {
+      maxMessageBytes: MAX_MESSAGE_BYTES,
+      onMessage(data, binary) {
+        // Binary frames are not part of the protocol
+        if (binary) return connection.close(1003);
+        handleMessage(id, data.toString('utf8'));
+      },
+      onClose() {
+        const client = clients.get(id);
+        if (!clients.delete(id)) return;
+        log(`${id} disconnected`);
+        if (client.role) broadcastPeers();
+      },
+    });
+    if (!connection) return;
+
+    clients.set(id, {
+      connection,
+      role: null,
+      name: '',
+      send: (message) => connection.sendText(JSON.stringify(message)),
+    });
+    log(`${id} connected from ${socket.remoteAddress}`);
+  });
+
+  // Drop clients that stopped answering pings (e.g. a laptop that went to sleep)
+  const heartbeat = setInterval(() => {
+    for (const client of clients.values()) client.connection.ping();
+  }, HEARTBEAT_MS);
+
+  return {
+    server,
+    close(callback) {
+      clearInterval(heartbeat);
+      for (const client of clients.values()) client.connection.close(1001);
+      server.close(callback);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+/**
+ * LAN relay for remote control (see `remote-relay-server.mjs` for the relay and
+ * `lib/remoteControl.ts` for the protocol). Dependency-free (see
+ * `ws-server.mjs`) so it runs on any machine with Node and no internet access.
+ *
+ * Clients connect with the relay's token in the URL (`ws://<ip>:8787/?token=...`).
+ * Without `--token` (or RELAY_TOKEN) a random one is generated on every start;
+ * the URLs to connect with are printed.
+ *
+ * Usage: npm run relay [-- --port 8787] [-- --host 0.0.0.0] [-- --token secret]
+ */
+import { randomBytes } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+import { createRemoteRelay } from './remote-relay-server.mjs';
+
+const args = process.argv.slice(2);
+const argValue = (flag, fallback) => {
+  const index = args.indexOf(flag);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+const port = Number(argValue('--port', process.env.RELAY_PORT ?? 8787));
+const host = argValue('--host', process.env.RELAY_HOST ?? '0.0.0.0');
+const token = argValue('--token', process.env.RELAY_TOKEN ?? randomBytes(9).toString('base64url'));
+
+function log(message) {
+  console.log(`[relay] ${message}`);
+}
+
+const relay = createRemoteRelay({ token, log });
+
+relay.server.listen(port, host, () => {
+  const query = `?token=${encodeURIComponent(token)}`;
+  log(`listening on ws://${host}:${port}/${query}`);
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === 'IPv4' && !address.internal) log(`LAN: ws://${address.address}:${port}/${query}`);
+    }
+  }
+});
+
+const shutdown = () => relay.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
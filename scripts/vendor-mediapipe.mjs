@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+/**
+ * Vendors the MediaPipe tasks-vision WASM runtime and `.task` models into
+ * `public/mediapipe/` so tracking works without internet access.
+ *
+ * - WASM is copied from the installed `@mediapipe/tasks-vision` package (always
+ *   matches the JS API version).
+ * - Models are downloaded from their upstream URLs in `lib/mediapipe/assets.json`,
+ *   unless already present. Pass `--force` to re-download.
+ * - `--optional` (used by `prebuild`) only warns when vendoring fails, so
+ *   builds without network access still succeed; tracking then reports the
+ *   missing files at runtime.
+ *
+ * Usage: npm run vendor:mediapipe [-- --force] [-- --optional] [-- --out <dir>]
+ */
+import { copyFile, mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const args = process.argv.slice(2);
+const force = args.includes('--force');
+const optional = args.includes('--optional');
+const outIndex = args.indexOf('--out');
+const outDir = resolve(root, outIndex >= 0 && args[outIndex + 1] ? args[outIndex + 1] : 'public/mediapipe');
+
+const assets = JSON.parse(await readFile(join(root, 'lib/mediapipe/assets.json'), 'utf8'));
+
+async function exists(path) {
+  try {
+    return (await stat(path)).size > 0;
+  } catch {
+    return false;
+  }
+}
+
+async function vendorWasm() {
+  const wasmSrc = join(root, 'node_modules/@mediapipe/tasks-vision/wasm');
+  const wasmOut = join(outDir, 'wasm');
+  await mkdir(wasmOut, { recursive: true });
+  for (const file of assets.wasm) {
+    const src = join(wasmSrc, file);
+    if (!(await exists(src))) {
+      throw new Error(`Missing ${src}. Run \`npm install\` first.`);
+    }
+    await copyFile(src, join(wasmOut, file));
+    console.log(`  wasm/${file}`);
+  }
+}
+
+async function vendorModels() {
+  const modelsOut = join(outDir, 'models');
+  await mkdir(modelsOut, { recursive: true });
+  for (const { file, source } of Object.values(assets.models)) {
+    const dest = join(modelsOut, file);
+    if (!force && (await exists(dest))) {
+      console.log(`  models/${file} (already present)`);
+      continue;
+    }
+    const response = await fetch(source).catch((error) => {
+      throw new Error(`Failed to download ${source}: ${error.message}`);
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to download ${source} (HTTP ${response.status})`);
+    }
+    await writeFile(dest, Buffer.from(await response.arrayBuffer()));
+    console.log(`  models/${file}`);
+  }
+}
+
+try {
+  console.log(`Vendoring MediaPipe assets into ${outDir}`);
+  await vendorWasm();
+  await vendorModels();
+} catch (error) {
+  const message = error instanceof Error ? error.message : error;
+  if (optional) {
+    console.warn(`Warning: vendor:mediapipe failed: ${message}`);
+    console.warn('Continuing without the missing files; run `npm run vendor:mediapipe` with network access to add them.');
+  } else {
+    console.error(`vendor:mediapipe failed: ${message}`);
+    console.error('Copy the files into place manually or re-run with network access.');
+    process.exit(1);
+  }
+}
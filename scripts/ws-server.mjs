@@ -0,0 +1,162 @@
+/**
+ * Minimal dependency-free WebSocket server side (RFC 6455) shared by the local
+ * helper servers (`remote-relay.mjs`, `osc-bridge.mjs`). Handles the upgrade
+ * handshake, framing, fragmentation, ping/pong and size limits; no extensions.
+ */
+import { createHash } from 'node:crypto';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+export function encodeFrame(opcode, payload = Buffer.alloc(0)) {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** Parses complete frames from `buffer`. Returns the frames and the unconsumed rest. */
+export function decodeFrames(buffer, maxMessageBytes) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      const big = buffer.readBigUInt64BE(cursor);
+      length = big > BigInt(maxMessageBytes) ? Infinity : Number(big);
+      cursor += 8;
+    }
+    if (length > maxMessageBytes) return { frames, rest: Buffer.alloc(0), tooLarge: true };
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin, opcode, masked, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset), tooLarge: false };
+}
+
+/**
+ * Completes the upgrade handshake for an HTTP `upgrade` event. Returns null
+ * (after answering 400) when the request isn't a valid WebSocket upgrade.
+ *
+ * @param {import('node:http').IncomingMessage} req
+ * @param {import('node:net').Socket} socket
+ * @param {{ maxMessageBytes: number, onMessage: (data: Buffer, binary: boolean) => void, onClose: () => void }} options
+ */
+export function acceptWebSocket(req, socket, { maxMessageBytes, onMessage, onClose }) {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key || req.headers['sec-websocket-version'] !== '13') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentsBinary = false;
+  let closed = false;
+
+  const connection = {
+    socket,
+    /** Cleared by `ping()`, set again by any incoming frame. */
+    alive: true,
+    sendText(text) {
+      if (!closed) socket.write(encodeFrame(0x1, Buffer.from(text)));
+    },
+    sendBinary(data) {
+      if (!closed) socket.write(encodeFrame(0x2, data));
+    },
+    close(code) {
+      if (closed) return;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      socket.write(encodeFrame(0x8, payload));
+      socket.end();
+      closed = true;
+    },
+    /** Drops the connection if nothing arrived since the previous ping, then pings again. */
+    ping() {
+      if (socket.destroyed) return;
+      if (!connection.alive) {
+        socket.destroy();
+        return;
+      }
+      connection.alive = false;
+      socket.write(encodeFrame(0x9));
+    },
+  };
+
+  socket.on('data', (chunk) => {
+    const { frames, rest, tooLarge } = decodeFrames(Buffer.concat([buffered, chunk]), maxMessageBytes);
+    buffered = rest;
+    if (tooLarge) return connection.close(1009);
+    for (const frame of frames) {
+      connection.alive = true;
+      // Clients must mask their frames
+      if (!frame.masked) return connection.close(1002);
+      switch (frame.opcode) {
+        case 0x1: // text
+        case 0x2: // binary
+          fragmentsBinary = frame.opcode === 0x2;
+        // falls through
+        case 0x0: // continuation
+          fragments.push(frame.payload);
+          if (fragments.reduce((sum, f) => sum + f.length, 0) > maxMessageBytes) return connection.close(1009);
+          if (frame.fin) {
+            const data = Buffer.concat(fragments);
+            fragments = [];
+            onMessage(data, fragmentsBinary);
+          }
+          break;
+        case 0x8: // close
+          return connection.close(1000);
+        case 0x9: // ping
+          if (!closed) socket.write(encodeFrame(0xa, frame.payload));
+          break;
+        case 0xa: // pong
+          break;
+        default: // reserved opcodes
+          return connection.close(1002);
+      }
+    }
+  });
+
+  // 'error' is followed by 'close'; report only once
+  let dropped = false;
+  const drop = () => {
+    closed = true;
+    if (dropped) return;
+    dropped = true;
+    onClose();
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+
+  return connection;
+}